@@ -18,6 +18,12 @@ import Login from "@/pages/login";
 import Register from "@/pages/register";
 import Profile from "@/pages/profile";
 import CourseInterest from "@/pages/course-interest";
+import Forbidden from "@/pages/forbidden";
+import Verify from "@/pages/verify";
+import AdminRoutes from "@/pages/admin";
+import InstructorRoutes from "@/pages/instructor";
+import CurriculumRoutes from "@/pages/curriculum";
+import Quran from "@/pages/quran";
 
 import { useEffect } from "react";
 
@@ -29,6 +35,13 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
       <Route path="/course-interest" component={CourseInterest} />
+      <Route path="/403" component={Forbidden} />
+      <Route path="/verify">
+        <Verify />
+      </Route>
+      <Route path="/verify/:serial">
+        {(params) => <Verify serial={params.serial} />}
+      </Route>
       
       {/* Protected routes */}
       <Route path="/home">
@@ -44,13 +57,27 @@ function Router() {
       </Route>
       
       <Route path="/live-class">
-        <AuthGuard>
+        <AuthGuard requireEnrollment>
           <LiveClass />
         </AuthGuard>
       </Route>
       
 
       
+      <Route path="/curriculum/*?">
+        <AuthGuard>
+          <CurriculumRoutes />
+        </AuthGuard>
+      </Route>
+
+      <Route path="/quran/:surah?/:ayah?">
+        {(params) => (
+          <AuthGuard>
+            <Quran surah={params.surah} ayah={params.ayah} />
+          </AuthGuard>
+        )}
+      </Route>
+
       <Route path="/course-registration">
         <AuthGuard>
           <CourseRegistration />
@@ -62,6 +89,19 @@ function Router() {
           <Profile />
         </AuthGuard>
       </Route>
+
+      {/* Staff route trees */}
+      <Route path="/admin/*?">
+        <AuthGuard requireRole="admin">
+          <AdminRoutes />
+        </AuthGuard>
+      </Route>
+
+      <Route path="/instructor/*?">
+        <AuthGuard requireRole={['instructor', 'teaching_assistant', 'admin']}>
+          <InstructorRoutes />
+        </AuthGuard>
+      </Route>
       
       {/* Fallback to 404 */}
       <Route component={NotFound} />
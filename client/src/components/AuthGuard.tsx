@@ -1,17 +1,35 @@
 import { ReactNode, useEffect, useState } from 'react';
-import { useLocation } from 'wouter';
-import { useAuth } from '@/contexts/AuthContext';
+import { Redirect, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth, type UserProfile } from '@/contexts/AuthContext';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Shield, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/lib/supabase';
 import { securityManager } from '@/lib/security';
+import { getCourseAccess } from '@/lib/api';
+import { can, type Action, type Resource, type Role } from '@shared/rbac';
 
+/**
+ * What a route requires, declared on the route. Signed-in users who lack a
+ * role or permission are sent to /403; students who have not paid are sent
+ * to /course-registration. Roles that may bypass enrollment skip the
+ * enrollment and payment checks.
+ */
 interface AuthGuardProps {
   children: ReactNode;
   requireAuth?: boolean;
-  requireRole?: 'student' | 'instructor' | 'admin';
+  // Any of these roles
+  requireRole?: Role | Role[];
+  // Checked with `can`; prefer this to requireRole so new roles need no code change
+  requirePermission?: { action: Action; resource: Resource };
+  // A paid-up course enrollment, as decided by the server from the installments
+  requireEnrollment?: boolean;
+  // Any of these `users.enrollment_status` values
+  requireEnrollmentStatus?: UserProfile['enrollment_status'][];
+  // Any of these `users.payment_status` values
+  requirePaymentStatus?: UserProfile['payment_status'][];
   redirectTo?: string;
   fallback?: ReactNode;
 }
@@ -48,10 +66,10 @@ function AuthLoadingSkeleton() {
   );
 }
 
-// Unauthorized access component
-function UnauthorizedAccess({ requiredRole, userRole }: { requiredRole?: string; userRole?: string }) {
+// Shown when the server could not say whether the student has paid
+function EnrollmentUnverified() {
   const [, setLocation] = useLocation();
-  
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center">
       <Card className="w-full max-w-md mx-4">
@@ -59,21 +77,18 @@ function UnauthorizedAccess({ requiredRole, userRole }: { requiredRole?: string;
           <div className="flex justify-center mb-4">
             <AlertCircle className="h-12 w-12 text-destructive" />
           </div>
-          <h2 className="text-2xl font-bold text-destructive">অ্যাক্সেস অস্বীকৃত</h2>
+          <h2 className="text-2xl font-bold text-destructive">এনরোলমেন্ট যাচাই করা যায়নি</h2>
         </CardHeader>
         <CardContent className="text-center space-y-4">
           <p className="text-muted-foreground">
-            {requiredRole 
-              ? `এই পেজ অ্যাক্সেস করার জন্য ${requiredRole} রোল প্রয়োজন। আপনার রোল: ${userRole || 'অজানা'}`
-              : 'এই পেজ অ্যাক্সেস করার জন্য আপনার অনুমতি নেই।'
-            }
+            আপনার কোর্স এনরোলমেন্ট যাচাই করা যায়নি। কিছুক্ষণ পর আবার চেষ্টা করুন।
           </p>
           <div className="flex flex-col gap-2">
-            <Button onClick={() => setLocation('/dashboard')} variant="default">
-              ড্যাশবোর্ডে ফিরে যান
+            <Button onClick={() => window.location.reload()} variant="default">
+              পুনরায় চেষ্টা করুন
             </Button>
-            <Button onClick={() => setLocation('/')} variant="outline">
-              হোম পেজে যান
+            <Button onClick={() => setLocation('/dashboard')} variant="outline">
+              ড্যাশবোর্ডে ফিরে যান
             </Button>
           </div>
         </CardContent>
@@ -118,6 +133,10 @@ export default function AuthGuard({
   children, 
   requireAuth = true, 
   requireRole,
+  requirePermission,
+  requireEnrollment = false,
+  requireEnrollmentStatus,
+  requirePaymentStatus,
   redirectTo,
   fallback 
 }: AuthGuardProps) {
@@ -125,6 +144,19 @@ export default function AuthGuard({
   const [, setLocation] = useLocation();
   const [forceNoLoading, setForceNoLoading] = useState(false);
 
+  const roles = typeof requireRole === 'string' ? [requireRole] : requireRole;
+  // Role and payment checks need the profile, not only the session
+  const needsProfile = !!(roles || requirePermission || requireEnrollmentStatus || requirePaymentStatus);
+
+  // Enrollment is decided by the server from the student's installments
+  const bypassesEnrollment = can(profile, 'bypass', 'enrollment');
+  const checkEnrollment = requireEnrollment && !!user && !bypassesEnrollment;
+  const access = useQuery({
+    queryKey: ['course-access'],
+    queryFn: getCourseAccess,
+    enabled: checkEnrollment
+  });
+
   // Auto-redirect if specified
   useEffect(() => {
     if (!loading && requireAuth && !user && redirectTo) {
@@ -213,15 +245,47 @@ export default function AuthGuard({
     return fallback || <LoginRequired />;
   }
 
+  if (user && needsProfile && !profile) {
+    return fallback || <AuthLoadingSkeleton />;
+  }
+
   // Check role requirement
-  if (requireRole && profile && profile.role !== requireRole) {
-    console.log('🛡️ AuthGuard: Access denied - Insufficient role');
-    return (
-      <UnauthorizedAccess 
-        requiredRole={requireRole} 
-        userRole={profile.role} 
-      />
-    );
+  if (roles && user && !roles.includes(profile!.role)) {
+    console.log('🛡️ AuthGuard: Access denied - Insufficient role', { required: roles, role: profile!.role });
+    return <Redirect to="~/403" replace />;
+  }
+
+  // Check permission requirement
+  if (requirePermission && user && !can(profile, requirePermission.action, requirePermission.resource)) {
+    console.log('🛡️ AuthGuard: Access denied - Missing permission', requirePermission);
+    return <Redirect to="~/403" replace />;
+  }
+
+  // Check enrollment and payment status requirements
+  if (user && !bypassesEnrollment) {
+    const unpaid = (requireEnrollmentStatus && !requireEnrollmentStatus.includes(profile!.enrollment_status))
+      || (requirePaymentStatus && !requirePaymentStatus.includes(profile!.payment_status));
+    if (unpaid) {
+      console.log('🛡️ AuthGuard: Access denied - Payment required', {
+        enrollment: profile!.enrollment_status,
+        payment: profile!.payment_status
+      });
+      return <Redirect to="~/course-registration" replace />;
+    }
+  }
+
+  // Check enrollment requirement
+  if (checkEnrollment) {
+    if (access.isLoading) {
+      return fallback || <AuthLoadingSkeleton />;
+    }
+    if (!access.data) {
+      return <EnrollmentUnverified />;
+    }
+    if (!access.data.allowed) {
+      console.log('🛡️ AuthGuard: Access denied - Enrollment required', access.data.status);
+      return <Redirect to="~/course-registration" replace />;
+    }
   }
 
   // Grant access
@@ -9,22 +9,25 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useMutation } from "@tanstack/react-query";
 import { Loader2, Phone, CreditCard, Wallet } from "lucide-react";
+import type { EnrollmentInstallment } from "@shared/pricing";
 
 interface BangladeshiPaymentProps {
-  userId: string;
+  installment: Pick<EnrollmentInstallment, 'id' | 'sequence' | 'amount'>;
+  installmentCount: number;
   onPaymentSuccess: () => void;
 }
 
-export default function BangladeshiPayment({ userId, onPaymentSuccess }: BangladeshiPaymentProps) {
+export default function BangladeshiPayment({ installment, installmentCount, onPaymentSuccess }: BangladeshiPaymentProps) {
   const [paymentMethod, setPaymentMethod] = useState<string>("bkash");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [transactionId, setTransactionId] = useState("");
   const { toast } = useToast();
+  const amount = `${installment.amount.toLocaleString('bn-BD')} টাকা`;
 
   // bKash payment mutation
   const bkashPaymentMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/bkash/create-payment", { userId });
+      const response = await apiRequest("POST", "/api/bkash/create-payment", { installmentId: installment.id });
       return response.json();
     },
     onSuccess: (data) => {
@@ -52,10 +55,9 @@ export default function BangladeshiPayment({ userId, onPaymentSuccess }: Banglad
   const manualPaymentMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/manual-payment", {
-        userId,
+        installmentId: installment.id,
         paymentMethod,
         transactionId,
-        amount: 600,
         phoneNumber,
       });
       return response.json();
@@ -75,7 +77,9 @@ export default function BangladeshiPayment({ userId, onPaymentSuccess }: Banglad
     onError: (error) => {
       toast({
         title: "পেমেন্ট জমা দিতে ব্যর্থ",
-        description: "সব তথ্য সঠিকভাবে দিয়েছেন কিনা দেখুন এবং আবার চেষ্টা করুন।",
+        description: error instanceof Error && error.message.includes('duplicate-transaction')
+          ? "এই ট্রানজেকশন আইডি আগেই জমা দেওয়া হয়েছে। আইডিটি আবার মিলিয়ে দেখুন; এটি আপনার হলে সাপোর্টে যোগাযোগ করুন।"
+          : "সব তথ্য সঠিকভাবে দিয়েছেন কিনা দেখুন এবং আবার চেষ্টা করুন।",
         variant: "destructive",
       });
     },
@@ -128,10 +132,12 @@ export default function BangladeshiPayment({ userId, onPaymentSuccess }: Banglad
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="text-center">
         <CardTitle className="text-xl font-bold text-gray-900 dark:text-white">
-          কোর্স ফি পরিশোধ
+          {installmentCount > 1
+            ? `কিস্তি ${installment.sequence.toLocaleString('bn-BD')}/${installmentCount.toLocaleString('bn-BD')} পরিশোধ`
+            : "কোর্স ফি পরিশোধ"}
         </CardTitle>
         <CardDescription className="text-lg font-semibold text-green-600">
-          ৬০০ টাকা
+          {amount}
         </CardDescription>
       </CardHeader>
       
@@ -173,7 +179,7 @@ export default function BangladeshiPayment({ userId, onPaymentSuccess }: Banglad
               <h3 className="font-medium text-pink-800 dark:text-pink-200 mb-2">bKash পেমেন্ট নির্দেশনা:</h3>
               <ol className="text-sm text-pink-700 dark:text-pink-300 space-y-1 list-decimal list-inside">
                 <li>"পেমেন্ট করুন" বাটনে ক্লিক করুন</li>
-                <li>bKash পেজে ৬০০ টাকা পেমেন্ট সম্পন্ন করুন</li>
+                <li>bKash পেজে {amount} পেমেন্ট সম্পন্ন করুন</li>
                 <li>সফল পেমেন্টের পর আপনার কোর্স সক্রিয় হবে</li>
               </ol>
             </div>
@@ -190,7 +196,7 @@ export default function BangladeshiPayment({ userId, onPaymentSuccess }: Banglad
               <ol className="text-sm text-orange-700 dark:text-orange-300 space-y-1 list-decimal list-inside">
                 <li>আপনার {paymentMethod === "nagad" ? "Nagad" : "Rocket"} অ্যাপে যান</li>
                 <li>Send Money অপশনে ক্লিক করুন</li>
-                <li>আমাদের নম্বরে ৬০০ টাকা পাঠান: <strong>01XXXXXXXXX</strong></li>
+                <li>আমাদের নম্বরে {amount} পাঠান: <strong>01XXXXXXXXX</strong></li>
                 <li>পেমেন্ট সম্পন্ন হওয়ার পর নিচের ফর্ম পূরণ করুন</li>
               </ol>
             </div>
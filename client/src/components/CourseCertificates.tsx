@@ -0,0 +1,158 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { certificateDocumentUrl, certificatePdfUrl, claimCertificate, getMyCertificates } from "@/lib/api";
+import { CERTIFICATE_CRITERION_LABELS, type CourseCertificateStatus } from "@shared/certificates";
+import { Award, CheckCircle, Circle, Copy, Download, ExternalLink, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+/**
+ * The student's courses with how they stand against each course's
+ * certificate criteria, and their certificates once claimed
+ */
+export default function CourseCertificates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: courses = [], isLoading, error } = useQuery({
+    queryKey: ['certificates'],
+    queryFn: getMyCertificates
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: (productId: string) => claimCertificate(productId),
+    onSuccess: (certificate) => {
+      queryClient.invalidateQueries({ queryKey: ['certificates'] });
+      toast({ title: "অভিনন্দন! সার্টিফিকেট প্রদান করা হয়েছে", description: `সনদ নম্বর ${certificate.serial}` });
+    },
+    onError: (error) => {
+      console.error('Failed to claim certificate:', error);
+      toast({
+        title: "সার্টিফিকেট নেওয়া যায়নি",
+        description: error instanceof Error && error.message.includes('criteria-not-met')
+          ? "সব শর্ত এখনো পূরণ হয়নি।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const copyVerifyLink = async (serial: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/verify/${serial}`);
+      toast({ title: "যাচাই লিংক কপি হয়েছে", description: "নিয়োগকর্তা বা মাদ্রাসার সাথে শেয়ার করুন।" });
+    } catch (error) {
+      console.error('Failed to copy verification link:', error);
+      toast({ title: "লিংক কপি করা যায়নি", variant: "destructive" });
+    }
+  };
+
+  const renderCourse = (course: CourseCertificateStatus) => (
+    <div key={course.product_id} className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">{course.title_bn}</p>
+          <p className="text-sm text-muted-foreground">{course.title}</p>
+        </div>
+        {course.certificate ? (
+          <Badge className="bg-green-100 text-green-800">প্রদান করা হয়েছে</Badge>
+        ) : course.eligible ? (
+          <Badge className="bg-blue-100 text-blue-800">নেওয়ার যোগ্য</Badge>
+        ) : (
+          <Badge variant="outline">চলমান</Badge>
+        )}
+      </div>
+
+      {course.certificate ? (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div className="text-sm text-muted-foreground">
+            <p>সনদ নম্বর: <span className="font-mono font-semibold text-foreground">{course.certificate.serial}</span></p>
+            <p>প্রদানের তারিখ: {format(new Date(course.certificate.issued_at), "dd MMM yyyy", { locale: bn })}</p>
+          </div>
+          <div className="flex space-x-2">
+            <Button size="sm" variant="outline" asChild>
+              <a href={certificateDocumentUrl(course.certificate.serial)} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-4 w-4 mr-1" />
+                সার্টিফিকেট দেখুন
+              </a>
+            </Button>
+            <Button size="sm" variant="outline" asChild>
+              <a href={certificatePdfUrl(course.certificate.serial)} download>
+                <Download className="h-4 w-4 mr-1" />
+                PDF ডাউনলোড
+              </a>
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => copyVerifyLink(course.certificate!.serial)}>
+              <Copy className="h-4 w-4 mr-1" />
+              যাচাই লিংক
+            </Button>
+          </div>
+        </div>
+      ) : !course.criteria?.is_active ? (
+        <p className="text-sm text-muted-foreground">এই কোর্সে এখনো সার্টিফিকেট চালু হয়নি</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            {course.checks.map((check) => (
+              <div key={check.criterion} className="flex items-center justify-between text-sm">
+                <span className="flex items-center">
+                  {check.met
+                    ? <CheckCircle className="h-4 w-4 mr-2 text-green-600" />
+                    : <Circle className="h-4 w-4 mr-2 text-gray-400" />}
+                  {CERTIFICATE_CRITERION_LABELS[check.criterion]}
+                </span>
+                <span className="text-muted-foreground">
+                  {check.actual === null ? '—' : `${check.actual}%`} / প্রয়োজন {check.required}%
+                </span>
+              </div>
+            ))}
+          </div>
+          {course.eligible && (
+            <Button
+              className="w-full bg-islamic-green hover:bg-dark-green"
+              onClick={() => claimMutation.mutate(course.product_id)}
+              disabled={claimMutation.isPending}
+            >
+              <Award className="h-4 w-4 mr-2" />
+              {claimMutation.isPending ? 'প্রস্তুত করা হচ্ছে...' : 'সার্টিফিকেট নিন'}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Award className="h-5 w-5 mr-2" />
+          সার্টিফিকেট
+        </CardTitle>
+        <CardDescription>
+          কোর্সের শর্ত পূরণ করলে যাচাইযোগ্য সার্টিফিকেট নিন
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">লোড হচ্ছে...</div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-600">
+            <AlertCircle className="h-10 w-10 mx-auto mb-3" />
+            সার্টিফিকেটের তথ্য লোড করতে ব্যর্থ
+          </div>
+        ) : courses.length === 0 ? (
+          <div className="text-center py-8">
+            <Award className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">কোনো কোর্সে ভর্তি হলে এখানে দেখাবে</p>
+          </div>
+        ) : (
+          <div className="space-y-3">{courses.map(renderCourse)}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { enrollInCourse, getCourseCatalog, quoteEnrollment } from "@/lib/api";
+import type { CourseEnrollment } from "@shared/pricing";
+import { Loader2, Tag, X } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+interface CoursePlanPickerProps {
+  onEnrolled: (enrollment: CourseEnrollment) => void;
+}
+
+// Radio value for paying the whole price at once
+const FULL_PAYMENT = "full";
+
+const taka = (amount: number) => `${amount.toLocaleString('bn-BD')} টাকা`;
+
+export default function CoursePlanPicker({ onEnrolled }: CoursePlanPickerProps) {
+  const { toast } = useToast();
+  const [productId, setProductId] = useState<string>("");
+  const [planChoice, setPlanChoice] = useState<string>(FULL_PAYMENT);
+  const [couponInput, setCouponInput] = useState("");
+  const [couponCode, setCouponCode] = useState<string | undefined>();
+
+  const { data: catalog = [], isLoading: catalogLoading, error: catalogError } = useQuery({
+    queryKey: ['course-catalog'],
+    queryFn: getCourseCatalog
+  });
+
+  useEffect(() => {
+    if (!productId && catalog.length > 0) {
+      setProductId(catalog[0].id);
+    }
+  }, [catalog, productId]);
+
+  const product = catalog.find(candidate => candidate.id === productId);
+  const request = {
+    product_id: productId,
+    plan_id: planChoice === FULL_PAYMENT ? null : planChoice,
+    coupon_code: couponCode
+  };
+
+  const { data: quote, isFetching: quoteLoading, error: quoteError } = useQuery({
+    queryKey: ['pricing-quote', request],
+    queryFn: () => quoteEnrollment(request),
+    enabled: !!product,
+    retry: false
+  });
+
+  // A rejected coupon is dropped so the plain price shows again
+  useEffect(() => {
+    if (quoteError && couponCode) {
+      toast({
+        title: "কুপন প্রযোজ্য নয়",
+        description: "কুপন কোডটি সঠিক নয়, মেয়াদোত্তীর্ণ অথবা ব্যবহারের সীমা শেষ।",
+        variant: "destructive",
+      });
+      setCouponCode(undefined);
+    }
+  }, [quoteError, couponCode]);
+
+  const enrollMutation = useMutation({
+    mutationFn: () => enrollInCourse(request),
+    onSuccess: (enrollment) => {
+      toast({
+        title: "কোর্সে ভর্তি সম্পন্ন",
+        description: "এখন প্রথম কিস্তি পরিশোধ করুন।",
+      });
+      onEnrolled(enrollment);
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "";
+      toast({
+        title: "ভর্তি সম্পন্ন হয়নি",
+        description: message.includes('already-enrolled')
+          ? "আপনি ইতিমধ্যে এই কোর্সে ভর্তি আছেন।"
+          : message.includes('coupon-unavailable')
+            ? "কুপনটির ব্যবহারের সীমা এইমাত্র শেষ হয়েছে।"
+            : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (catalogLoading) {
+    return <div className="text-center py-12">কোর্সের তালিকা লোড হচ্ছে...</div>;
+  }
+  if (catalogError || catalog.length === 0) {
+    return <div className="text-center py-12 text-red-600">এই মুহূর্তে কোনো কোর্স পাওয়া যাচ্ছে না</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {catalog.length > 1 && (
+        <div>
+          <Label className="text-base font-medium mb-3 block">কোর্স নির্বাচন করুন</Label>
+          <RadioGroup
+            value={productId}
+            onValueChange={(value) => {
+              setProductId(value);
+              setPlanChoice(FULL_PAYMENT);
+            }}
+            className="grid gap-3"
+          >
+            {catalog.map((candidate) => (
+              <div key={candidate.id} className="flex items-center space-x-3">
+                <RadioGroupItem value={candidate.id} id={`product-${candidate.id}`} />
+                <Label htmlFor={`product-${candidate.id}`} className="flex-1 p-3 border rounded-lg cursor-pointer">
+                  <div className="font-medium">{candidate.title_bn}</div>
+                  <div className="text-sm text-gray-500">{taka(candidate.price)}</div>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+
+      {product && (
+        <div>
+          <Label className="text-base font-medium mb-3 block">পরিশোধের পদ্ধতি</Label>
+          <RadioGroup value={planChoice} onValueChange={setPlanChoice} className="grid gap-3">
+            <div className="flex items-center space-x-3">
+              <RadioGroupItem value={FULL_PAYMENT} id="plan-full" />
+              <Label htmlFor="plan-full" className="flex-1 p-3 border rounded-lg cursor-pointer">
+                <div className="font-medium">এককালীন পরিশোধ</div>
+                <div className="text-sm text-gray-500">{taka(product.price)}</div>
+              </Label>
+            </div>
+            {product.installment_plans.map((plan) => (
+              <div key={plan.id} className="flex items-center space-x-3">
+                <RadioGroupItem value={plan.id} id={`plan-${plan.id}`} />
+                <Label htmlFor={`plan-${plan.id}`} className="flex-1 p-3 border rounded-lg cursor-pointer">
+                  <div className="font-medium">{plan.title_bn}</div>
+                  <div className="text-sm text-gray-500">
+                    {plan.installment_count.toLocaleString('bn-BD')} × {taka(plan.installment_amount)}, প্রতি {plan.interval_days.toLocaleString('bn-BD')} দিনে
+                  </div>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="coupon">কুপন কোড (ঐচ্ছিক)</Label>
+        {couponCode ? (
+          <div className="flex items-center justify-between mt-1 p-2 bg-green-50 border border-green-200 rounded-lg">
+            <span className="flex items-center text-green-700 font-mono">
+              <Tag className="h-4 w-4 mr-2" />
+              {couponCode}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setCouponCode(undefined)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex space-x-2 mt-1">
+            <Input
+              id="coupon"
+              value={couponInput}
+              onChange={(e) => setCouponInput(e.target.value)}
+              placeholder="যেমন: RAMADAN25"
+              maxLength={40}
+            />
+            <Button
+              variant="outline"
+              onClick={() => setCouponCode(couponInput.trim().toUpperCase() || undefined)}
+              disabled={!couponInput.trim()}
+            >
+              প্রয়োগ করুন
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      {quote && (
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span>মূল্য</span>
+            <span>{taka(quote.list_price)}</span>
+          </div>
+          {quote.discount > 0 && (
+            <div className="flex justify-between text-green-700">
+              <span>ছাড় ({quote.coupon_code})</span>
+              <span>- {taka(quote.discount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-semibold text-base">
+            <span>মোট</span>
+            <span>{taka(quote.total)}</span>
+          </div>
+          {quote.installments.length > 1 && (
+            <ul className="pt-2 space-y-1 text-gray-600">
+              {quote.installments.map((installment) => (
+                <li key={installment.sequence} className="flex justify-between">
+                  <span>
+                    কিস্তি {installment.sequence.toLocaleString('bn-BD')}:{" "}
+                    {installment.sequence === 1
+                      ? "এখনই"
+                      : format(new Date(installment.due_date), "dd MMM yyyy", { locale: bn })}
+                  </span>
+                  <span>{taka(installment.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <Button
+        onClick={() => enrollMutation.mutate()}
+        disabled={!quote || quoteLoading || enrollMutation.isPending}
+        className="w-full bg-islamic-green hover:bg-dark-green text-white py-3 text-lg"
+      >
+        {enrollMutation.isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            প্রক্রিয়াকরণ...
+          </>
+        ) : (
+          "পরবর্তী ধাপ - পেমেন্ট"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_DIALECT, DIALECT_LABELS, dialectVariant } from "@shared/dialects";
+import type { VocabularyWord } from "@shared/curriculum";
+
+/**
+ * How the student's dialect says `word`, shown beside the MSA form; nothing
+ * for students learning MSA only or when the form has not been added
+ */
+export default function DialectForm({ word, className = "" }: { word: VocabularyWord; className?: string }) {
+  const { profile } = useAuth();
+  const variant = dialectVariant(word, profile?.preferred_dialect ?? DEFAULT_DIALECT);
+  if (!variant) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`} data-testid="dialect-form">
+      <Badge variant="outline" className="border-purple-300 text-purple-700">{DIALECT_LABELS[variant.dialect]}</Badge>
+      <span dir="rtl" lang="ar" className="text-xl">{variant.arabic}</span>
+      {variant.transliteration && <span className="text-xs italic text-gray-500">{variant.transliteration}</span>}
+      {variant.audio_url && <audio src={variant.audio_url} controls className="h-8 w-32" />}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useRef } from "react";
+import type { HandwritingStroke } from "@shared/handwriting";
+
+interface HandwritingCanvasProps {
+  strokes: HandwritingStroke[];
+  onChange: (strokes: HandwritingStroke[]) => void;
+  // Text drawn faintly behind the writing to trace over
+  guide?: string;
+  size?: number;
+  disabled?: boolean;
+}
+
+const INK = "#1f2937";
+const GUIDE = "rgba(22, 101, 52, 0.15)";
+const BASELINE = "#e5e7eb";
+
+/**
+ * A square writing pad. Strokes are reported in canvas fractions with
+ * milliseconds since the first point, as the recognizer expects.
+ */
+export default function HandwritingCanvas({ strokes, onChange, guide, size = 320, disabled = false }: HandwritingCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const currentRef = useRef<HandwritingStroke | null>(null);
+  const startedRef = useRef<number | null>(null);
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const scale = window.devicePixelRatio || 1;
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    context.clearRect(0, 0, size, size);
+
+    context.strokeStyle = BASELINE;
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(0, size * 0.6);
+    context.lineTo(size, size * 0.6);
+    context.stroke();
+
+    if (guide) {
+      context.fillStyle = GUIDE;
+      context.font = `${Math.round(size * 0.55)}px "Amiri", "Noto Naskh Arabic", serif`;
+      context.textAlign = "center";
+      context.textBaseline = "alphabetic";
+      context.direction = "rtl";
+      context.fillText(guide, size / 2, size * 0.6);
+    }
+
+    context.strokeStyle = INK;
+    context.fillStyle = INK;
+    context.lineWidth = Math.max(3, size / 60);
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    const all = currentRef.current ? [...strokes, currentRef.current] : strokes;
+    all.forEach((stroke) => {
+      if (stroke.length === 1) {
+        context.beginPath();
+        context.arc(stroke[0].x * size, stroke[0].y * size, context.lineWidth / 2, 0, Math.PI * 2);
+        context.fill();
+        return;
+      }
+      context.beginPath();
+      stroke.forEach((point, index) => {
+        if (index === 0) context.moveTo(point.x * size, point.y * size);
+        else context.lineTo(point.x * size, point.y * size);
+      });
+      context.stroke();
+    });
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = size * scale;
+    canvas.height = size * scale;
+    draw();
+  });
+
+  // A new letter starts the clock again
+  useEffect(() => {
+    if (strokes.length === 0) startedRef.current = null;
+  }, [strokes.length]);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const now = performance.now();
+    if (startedRef.current === null) startedRef.current = now;
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+      t: Math.round(now - startedRef.current)
+    };
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: size, height: size, touchAction: "none" }}
+      className={`border-2 border-soft-mint rounded-xl bg-white ${disabled ? "opacity-60" : "cursor-crosshair"}`}
+      onPointerDown={(event) => {
+        if (disabled) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        currentRef.current = [pointAt(event)];
+        draw();
+      }}
+      onPointerMove={(event) => {
+        if (!currentRef.current) return;
+        currentRef.current.push(pointAt(event));
+        draw();
+      }}
+      onPointerUp={() => {
+        if (!currentRef.current) return;
+        const stroke = currentRef.current;
+        currentRef.current = null;
+        onChange([...strokes, stroke]);
+      }}
+      onPointerCancel={() => {
+        currentRef.current = null;
+        draw();
+      }}
+    />
+  );
+}
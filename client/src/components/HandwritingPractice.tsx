@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import HandwritingCanvas from "@/components/HandwritingCanvas";
+import { getHandwritingTemplates } from "@/lib/api";
+import { ArabicLearningManager } from "@/lib/video-sdk/core/ArabicLearningManager";
+import {
+  HANDWRITING_ISSUE_LABELS,
+  LETTER_FORM_LABELS,
+  alphabetLetter,
+  formGlyph,
+  type HandwritingAssessment,
+  type HandwritingStroke,
+  type HandwritingTarget
+} from "@shared/handwriting";
+import { CheckCircle, ChevronLeft, ChevronRight, Eraser, PenTool, Undo2 } from "lucide-react";
+
+function scoreColor(score: number): string {
+  if (score >= 80) return "text-green-700";
+  if (score >= 60) return "text-amber-600";
+  return "text-red-600";
+}
+
+function targetLabel(target: HandwritingTarget): string {
+  return `${alphabetLetter(target.letter)?.name_bn ?? target.letter} — ${LETTER_FORM_LABELS[target.form]} রূপ`;
+}
+
+/**
+ * Write letters one after another on a canvas, tracing over the letter or
+ * from memory, and check each against the instructor's model strokes
+ */
+export default function HandwritingPractice({ targets }: { targets: HandwritingTarget[] }) {
+  const [position, setPosition] = useState(0);
+  const [strokes, setStrokes] = useState<HandwritingStroke[]>([]);
+  const [tracing, setTracing] = useState(true);
+  const [assessment, setAssessment] = useState<HandwritingAssessment | null>(null);
+
+  const coach = useMemo(() => new ArabicLearningManager({ handwritingRecognition: true }), []);
+  useEffect(() => () => coach.cleanup(), [coach]);
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['handwriting-templates'],
+    queryFn: getHandwritingTemplates
+  });
+
+  const target = targets[Math.min(position, targets.length - 1)];
+  const glyph = formGlyph(target.letter, target.form);
+  const hasModel = templates.some((template) => template.letter === target.letter && template.form === target.form);
+
+  const goTo = (index: number) => {
+    setPosition(index);
+    setStrokes([]);
+    setAssessment(null);
+  };
+
+  const check = () => {
+    setAssessment(coach.assessHandwriting(strokes, target, templates));
+  };
+
+  return (
+    <div className="border-2 border-soft-mint rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-islamic-green flex items-center">
+          <PenTool className="w-4 h-4 mr-2" />
+          হাতের লেখা অনুশীলন
+        </h3>
+        {targets.length > 1 && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <Button size="sm" variant="outline" onClick={() => goTo(position - 1)} disabled={position <= 0}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>{position + 1}/{targets.length}</span>
+            <Button size="sm" variant="outline" onClick={() => goTo(position + 1)} disabled={position >= targets.length - 1}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-start gap-4">
+        <div className="space-y-2">
+          <HandwritingCanvas
+            strokes={strokes}
+            onChange={(next) => {
+              setStrokes(next);
+              setAssessment(null);
+            }}
+            guide={tracing ? glyph : undefined}
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Switch id="handwriting-tracing" checked={tracing} onCheckedChange={setTracing} />
+              <Label htmlFor="handwriting-tracing">হরফের ওপর লিখুন</Label>
+            </div>
+            <div className="flex space-x-1">
+              <Button size="sm" variant="ghost" title="শেষ টান মুছুন" onClick={() => setStrokes(strokes.slice(0, -1))} disabled={strokes.length === 0}>
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="সব মুছুন" onClick={() => { setStrokes([]); setAssessment(null); }} disabled={strokes.length === 0}>
+                <Eraser className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-3">
+          <div className="text-center md:text-left">
+            <p dir="rtl" lang="ar" className="text-6xl leading-relaxed">{glyph}</p>
+            <p className="text-sm text-gray-600">{targetLabel(target)}</p>
+          </div>
+
+          {isLoading ? null : !hasModel ? (
+            <p className="text-sm text-gray-500">
+              এই রূপের আদর্শ লেখা এখনো যোগ করা হয়নি; অনুশীলন করতে পারবেন, তবে যাচাই করা যাবে না।
+            </p>
+          ) : (
+            <Button className="bg-islamic-green hover:bg-dark-green" onClick={check} disabled={strokes.length === 0}>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              যাচাই করুন
+            </Button>
+          )}
+
+          {assessment && (
+            <div className="space-y-2">
+              <p>
+                <span className={`text-3xl font-bold ${scoreColor(assessment.score)}`}>{assessment.score}%</span>
+                <span className="text-sm text-gray-500 ml-2">
+                  আকৃতি {assessment.shape_score}% · টানের ক্রম {assessment.order_score}%
+                </span>
+              </p>
+              {assessment.issues.length > 0 ? (
+                <ul className="space-y-1 text-sm text-red-700">
+                  {assessment.issues.map((issue) => (
+                    <li key={issue}>
+                      • {HANDWRITING_ISSUE_LABELS[issue]}
+                      {issue === 'wrong-letter' && assessment.recognized && (
+                        <span dir="rtl" lang="ar" className="text-xl mx-1">
+                          ({formGlyph(assessment.recognized.letter, assessment.recognized.form)})
+                        </span>
+                      )}
+                      {issue === 'stroke-count' && ` (${assessment.stroke_count}/${assessment.expected_strokes})`}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-green-700">চমৎকার! আদর্শ লেখার সাথে মিলেছে।</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
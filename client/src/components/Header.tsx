@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Home, BookOpen, Monitor, Video, User, LogOut, LogIn, UserPlus } from "lucide-react";
+import { Home, BookOpen, BookMarked, Library, Monitor, Video, User, LogOut, LogIn, UserPlus, Shield, GraduationCap } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -12,6 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { ROLE_LABELS } from "@shared/rbac";
 
 export function Header() {
   const [location, setLocation] = useLocation();
@@ -20,6 +21,8 @@ export function Header() {
   const navItems = [
     { href: "/", label: "হোম", icon: Home, active: location === "/" },
     { href: "/dashboard", label: "ড্যাশবোর্ড", icon: BookOpen, active: location === "/dashboard", requireAuth: true },
+    { href: "/curriculum", label: "পাঠ্যক্রম", icon: Library, active: location.startsWith("/curriculum"), requireAuth: true },
+    { href: "/quran", label: "কুরআন", icon: BookMarked, active: location.startsWith("/quran"), requireAuth: true },
     { href: "/live-class", label: "লাইভ ক্লাস", icon: Video, active: location === "/live-class", requireAuth: true },
   ];
 
@@ -93,16 +96,15 @@ export function Header() {
                       {profile && (
                         <div className="flex items-center space-x-1 mt-1">
                           <Badge 
-                            variant={profile.enrollment_status === 'active' ? 'default' : 'secondary'}
+                            variant={profile.enrollment_status === 'enrolled' ? 'default' : 'secondary'}
                             className="text-xs"
                           >
-                            {profile.enrollment_status === 'active' ? 'সক্রিয়' : 
+                            {profile.enrollment_status === 'enrolled' ? 'সক্রিয়' : 
                              profile.enrollment_status === 'pending' ? 'অপেক্ষমাণ' : 
-                             profile.enrollment_status === 'completed' ? 'সম্পন্ন' : 'স্থগিত'}
+                             profile.enrollment_status === 'completed' ? 'সম্পন্ন' : 'বাতিল'}
                           </Badge>
                           <Badge variant="outline" className="text-xs">
-                            {profile.role === 'student' ? 'শিক্ষার্থী' : 
-                             profile.role === 'instructor' ? 'প্রশিক্ষক' : 'প্রশাসক'}
+                            {ROLE_LABELS[profile.role]}
                           </Badge>
                         </div>
                       )}
@@ -121,6 +123,22 @@ export function Header() {
                       প্রোফাইল
                     </Link>
                   </DropdownMenuItem>
+                  {profile?.role === 'admin' && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/admin" className="cursor-pointer">
+                        <Shield className="mr-2 h-4 w-4" />
+                        অ্যাডমিন প্যানেল
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {(profile?.role === 'instructor' || profile?.role === 'teaching_assistant') && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/instructor" className="cursor-pointer">
+                        <GraduationCap className="mr-2 h-4 w-4" />
+                        প্রশিক্ষক পোর্টাল
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut} className="cursor-pointer">
                     <LogOut className="mr-2 h-4 w-4" />
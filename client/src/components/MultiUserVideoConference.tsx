@@ -16,13 +16,21 @@ import {
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import {
+  encodeMessage,
+  parseServerMessage,
+  type ClientMessageBody,
+  type ParticipantInfo,
+  type ParticipantRole,
+  type Signal
+} from '@shared/signaling';
 
 interface Participant {
   id: string;
   user_id: string;
   display_name: string;
   email: string;
-  role: 'admin' | 'student';
+  role: ParticipantRole;
   is_video_enabled: boolean;
   is_audio_enabled: boolean;
   is_screen_sharing: boolean;
@@ -62,6 +70,8 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRefs = useRef<Map<string, HTMLVideoElement>>(new Map());
   const channelRef = useRef<any>(null);
+  // Our participant id in the room; peers are addressed by participant id
+  const selfParticipantIdRef = useRef<string | null>(null);
   
   // Determine user role
   const userRole = (profile as any)?.role === 'admin' ? 'admin' : 'student';
@@ -185,6 +195,15 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
     }
   }, [toast]);
 
+  /**
+   * Send a signaling protocol message if the socket is open
+   */
+  const sendMessage = useCallback((message: ClientMessageBody) => {
+    if (channelRef.current && channelRef.current.readyState === WebSocket.OPEN) {
+      channelRef.current.send(encodeMessage(message));
+    }
+  }, []);
+
   /**
    * Create WebRTC peer connection for a participant
    */
@@ -220,17 +239,15 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
     
     // Handle ICE candidates
     peerConnection.onicecandidate = (event) => {
-      if (event.candidate && channelRef.current && channelRef.current.readyState === WebSocket.OPEN) {
-        channelRef.current.send(JSON.stringify({
+      if (event.candidate) {
+        sendMessage({
           type: 'webrtc-signal',
-          roomId,
-          fromUserId: user?.id,
-          toUserId: participantId,
+          toParticipantId: participantId,
           signal: {
             type: 'ice-candidate',
-            candidate: event.candidate
+            candidate: event.candidate.toJSON()
           }
-        }));
+        });
       }
     };
     
@@ -253,7 +270,7 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
     });
     
     return peerConnection;
-  }, [localStream, user?.id, roomId]);
+  }, [localStream, sendMessage]);
 
   /**
    * Update participant connection quality
@@ -261,7 +278,7 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
   const updateParticipantConnectionQuality = useCallback((participantId: string, quality: Participant['connection_quality']) => {
     setParticipants(prev => 
       prev.map(p => 
-        p.user_id === participantId 
+        p.id === participantId 
           ? { ...p, connection_quality: quality }
           : p
       )
@@ -271,46 +288,37 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
   /**
    * Handle WebRTC signaling messages
    */
-  const handleSignalingMessage = useCallback(async (payload: any) => {
-    const { type, fromUserId, toUserId } = payload;
-    
-    // Only process messages intended for this user
-    if (toUserId !== user?.id) return;
+  const handleSignalingMessage = useCallback(async (fromParticipantId: string, signal: Signal) => {
+    console.log(`📨 Received signaling message: ${signal.type} from ${fromParticipantId}`);
     
-    console.log(`📨 Received signaling message: ${type} from ${fromUserId}`);
+    const peerConnection = peerConnections.get(fromParticipantId) || await createPeerConnection(fromParticipantId);
     
-    const peerConnection = peerConnections.get(fromUserId) || await createPeerConnection(fromUserId);
-    
-    switch (type) {
+    switch (signal.type) {
       case 'offer':
-        await peerConnection.setRemoteDescription(payload.offer);
+        await peerConnection.setRemoteDescription(signal.offer);
         const answer = await peerConnection.createAnswer();
         await peerConnection.setLocalDescription(answer);
         
         // Send answer back
-        if (channelRef.current && channelRef.current.readyState === WebSocket.OPEN) {
-          channelRef.current.send(JSON.stringify({
-            type: 'webrtc-signal',
-            roomId,
-            fromUserId: user?.id,
-            toUserId: fromUserId,
-            signal: {
-              type: 'answer',
-              answer
-            }
-          }));
-        }
+        sendMessage({
+          type: 'webrtc-signal',
+          toParticipantId: fromParticipantId,
+          signal: {
+            type: 'answer',
+            answer: { type: answer.type, sdp: answer.sdp }
+          }
+        });
         break;
         
       case 'answer':
-        await peerConnection.setRemoteDescription(payload.answer);
+        await peerConnection.setRemoteDescription(signal.answer);
         break;
         
       case 'ice-candidate':
-        await peerConnection.addIceCandidate(payload.candidate);
+        await peerConnection.addIceCandidate(signal.candidate);
         break;
     }
-  }, [user?.id, peerConnections, createPeerConnection, roomId]);
+  }, [peerConnections, createPeerConnection, sendMessage]);
 
   /**
    * Join the video conference room
@@ -332,9 +340,15 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
         // Continue without throwing - allow text/audio-only participation
       }
       
+      // The signaling server derives identity and role from the access token
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('No active session for signaling authentication');
+      }
+      
       // Create WebSocket connection for real-time signaling
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ws`;
+      const wsUrl = `${protocol}//${window.location.host}/ws?token=${encodeURIComponent(session.access_token)}`;
       const ws = new WebSocket(wsUrl);
       
       channelRef.current = ws;
@@ -343,19 +357,32 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
       ws.onopen = () => {
         console.log('✅ WebSocket connected successfully');
         
-        // Join the room
-        ws.send(JSON.stringify({
-          type: 'join-room',
-          roomId,
-          userId: user.id,
-          displayName,
-          role: userRole
-        }));
+        // Join the room; identity and role come from the token
+        sendMessage({ type: 'join-room', roomId });
       };
       
+      const toParticipant = (p: ParticipantInfo): Participant => ({
+        id: p.id,
+        user_id: p.userId,
+        display_name: p.displayName,
+        email: '',
+        role: p.role,
+        is_video_enabled: true,
+        is_audio_enabled: true,
+        is_screen_sharing: false,
+        connection_quality: p.connectionState === 'reconnecting' ? 'disconnected' : 'excellent',
+        joined_at: p.joinedAt
+      });
+      
       ws.onmessage = async (event) => {
+        const parsed = parseServerMessage(event.data);
+        if (!parsed.ok) {
+          console.error('❌ Invalid signaling message:', parsed.error.message);
+          return;
+        }
+        const message = parsed.message;
+        
         try {
-          const message = JSON.parse(event.data);
           console.log('📨 WebSocket message received:', message.type);
           
           switch (message.type) {
@@ -363,43 +390,31 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
               // Successfully joined the room - update connection state
               setIsConnected(true);
               console.log('✅ Successfully joined video conference room');
+              selfParticipantIdRef.current = message.self.id;
               
               // Update participants list with existing participants
-              const existingParticipants: Participant[] = message.participants.map((p: any) => ({
-                id: p.id,
-                user_id: p.userId,
-                display_name: p.displayName,
-                email: '',
-                role: p.role,
-                is_video_enabled: true,
-                is_audio_enabled: true,
-                is_screen_sharing: false,
-                connection_quality: 'excellent' as const,
-                joined_at: p.joinedAt
-              }));
+              const existingParticipants: Participant[] = message.participants.map(toParticipant);
               
               setParticipants(existingParticipants);
               
               // Create peer connections for existing participants
               for (const participant of existingParticipants) {
-                if (!peerConnections.has(participant.user_id)) {
-                  const peerConnection = await createPeerConnection(participant.user_id);
+                if (!peerConnections.has(participant.id)) {
+                  const peerConnection = await createPeerConnection(participant.id);
                   
                   // Create and send offer if this user joined first (alphabetical order)
-                  if (user.id < participant.user_id) {
+                  if (message.self.id < participant.id) {
                     const offer = await peerConnection.createOffer();
                     await peerConnection.setLocalDescription(offer);
                     
-                    ws.send(JSON.stringify({
+                    sendMessage({
                       type: 'webrtc-signal',
-                      roomId,
-                      fromUserId: user.id,
-                      toUserId: participant.user_id,
+                      toParticipantId: participant.id,
                       signal: {
                         type: 'offer',
-                        offer
+                        offer: { type: offer.type, sdp: offer.sdp }
                       }
-                    }));
+                    });
                   }
                 }
               }
@@ -407,55 +422,42 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
               
             case 'participant-joined':
               // New participant joined
-              const newParticipant: Participant = {
-                id: message.participant.id,
-                user_id: message.participant.userId,
-                display_name: message.participant.displayName,
-                email: '',
-                role: message.participant.role,
-                is_video_enabled: true,
-                is_audio_enabled: true,
-                is_screen_sharing: false,
-                connection_quality: 'excellent',
-                joined_at: message.participant.joinedAt
-              };
+              const newParticipant = toParticipant(message.participant);
               
               setParticipants(prev => [...prev, newParticipant]);
               
               // Create peer connection for new participant
-              if (!peerConnections.has(newParticipant.user_id)) {
-                const peerConnection = await createPeerConnection(newParticipant.user_id);
+              if (!peerConnections.has(newParticipant.id)) {
+                const peerConnection = await createPeerConnection(newParticipant.id);
                 
                 // Create and send offer if this user should initiate
-                if (user.id < newParticipant.user_id) {
+                if (selfParticipantIdRef.current && selfParticipantIdRef.current < newParticipant.id) {
                   const offer = await peerConnection.createOffer();
                   await peerConnection.setLocalDescription(offer);
                   
-                  ws.send(JSON.stringify({
+                  sendMessage({
                     type: 'webrtc-signal',
-                    roomId,
-                    fromUserId: user.id,
-                    toUserId: newParticipant.user_id,
+                    toParticipantId: newParticipant.id,
                     signal: {
                       type: 'offer',
-                      offer
+                      offer: { type: offer.type, sdp: offer.sdp }
                     }
-                  }));
+                  });
                 }
               }
               break;
               
             case 'participant-left':
               // Participant left
-              setParticipants(prev => prev.filter(p => p.user_id !== message.userId));
+              setParticipants(prev => prev.filter(p => p.id !== message.participantId));
               
               // Clean up peer connection
-              const leftPeerConnection = peerConnections.get(message.userId);
+              const leftPeerConnection = peerConnections.get(message.participantId);
               if (leftPeerConnection) {
                 leftPeerConnection.close();
                 setPeerConnections(prev => {
                   const newConnections = new Map(prev);
-                  newConnections.delete(message.userId);
+                  newConnections.delete(message.participantId);
                   return newConnections;
                 });
               }
@@ -463,38 +465,47 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
               // Clean up remote stream
               setRemoteStreams(prev => {
                 const newStreams = new Map(prev);
-                newStreams.delete(message.userId);
+                newStreams.delete(message.participantId);
                 return newStreams;
               });
               break;
               
+            case 'participant-reconnecting':
+              // Keep the tile and peer connection while the server holds the slot
+              updateParticipantConnectionQuality(message.participantId, 'disconnected');
+              break;
+              
+            case 'participant-resumed':
+              updateParticipantConnectionQuality(message.participantId, 'good');
+              break;
+              
             case 'webrtc-signal':
               // Handle WebRTC signaling
-              await handleSignalingMessage({
-                type: message.signal.type,
-                fromUserId: message.fromUserId,
-                toUserId: user.id,
-                ...message.signal
-              });
+              await handleSignalingMessage(message.fromParticipantId, message.signal);
               break;
               
             case 'participant-media-changed':
               // Update participant media state
               setParticipants(prev => 
                 prev.map(p => 
-                  p.user_id === message.userId 
+                  p.id === message.participantId 
                     ? { 
                         ...p, 
                         is_video_enabled: message.isVideoEnabled,
-                        is_audio_enabled: message.isAudioEnabled 
+                        is_audio_enabled: message.isAudioEnabled,
+                        is_screen_sharing: message.isScreenSharing
                       }
                     : p
                 )
               );
               break;
+              
+            case 'error':
+              console.error(`❌ Signaling error (${message.code}):`, message.message);
+              break;
           }
         } catch (error) {
-          console.error('❌ Failed to parse WebSocket message:', error);
+          console.error('❌ Failed to handle WebSocket message:', error);
         }
       };
       
@@ -522,7 +533,7 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
     } finally {
       setIsJoining(false);
     }
-  }, [user, roomId, userRole, displayName, isVideoEnabled, isAudioEnabled, isScreenSharing, isJoining, initializeLocalStream, handleSignalingMessage, createPeerConnection, peerConnections, toast]);
+  }, [user, roomId, userRole, isJoining, initializeLocalStream, handleSignalingMessage, updateParticipantConnectionQuality, createPeerConnection, peerConnections, sendMessage, toast]);
 
   /**
    * Leave the video conference room
@@ -545,11 +556,7 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
     
     // Close WebSocket connection
     if (channelRef.current && channelRef.current.readyState === WebSocket.OPEN) {
-      channelRef.current.send(JSON.stringify({
-        type: 'leave-room',
-        roomId,
-        userId: user?.id
-      }));
+      sendMessage({ type: 'leave-room' });
       channelRef.current.close();
       channelRef.current = null;
     }
@@ -562,7 +569,7 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
     }
     
     console.log('✅ Successfully left video conference room');
-  }, [localStream, peerConnections, onLeave]);
+  }, [localStream, peerConnections, onLeave, sendMessage]);
 
   /**
    * Toggle video on/off
@@ -576,17 +583,14 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
       setIsVideoEnabled(videoTrack.enabled);
       
       // Update media state via WebSocket
-      if (channelRef.current && channelRef.current.readyState === WebSocket.OPEN) {
-        channelRef.current.send(JSON.stringify({
-          type: 'media-state-change',
-          roomId,
-          userId: user?.id,
-          isVideoEnabled: videoTrack.enabled,
-          isAudioEnabled: isAudioEnabled
-        }));
-      }
+      sendMessage({
+        type: 'media-state-change',
+        isVideoEnabled: videoTrack.enabled,
+        isAudioEnabled,
+        isScreenSharing
+      });
     }
-  }, [localStream, user?.id, displayName, userRole, isAudioEnabled, isScreenSharing]);
+  }, [localStream, isAudioEnabled, isScreenSharing, sendMessage]);
 
   /**
    * Toggle audio on/off
@@ -600,17 +604,14 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
       setIsAudioEnabled(audioTrack.enabled);
       
       // Update media state via WebSocket
-      if (channelRef.current && channelRef.current.readyState === WebSocket.OPEN) {
-        channelRef.current.send(JSON.stringify({
-          type: 'media-state-change',
-          roomId,
-          userId: user?.id,
-          isVideoEnabled: isVideoEnabled,
-          isAudioEnabled: audioTrack.enabled
-        }));
-      }
+      sendMessage({
+        type: 'media-state-change',
+        isVideoEnabled,
+        isAudioEnabled: audioTrack.enabled,
+        isScreenSharing
+      });
     }
-  }, [localStream, user?.id, displayName, userRole, isVideoEnabled, isScreenSharing]);
+  }, [localStream, isVideoEnabled, isScreenSharing, sendMessage]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -670,8 +671,8 @@ export const MultiUserVideoConference: React.FC<MultiUserVideoConferenceProps> =
               <video
                 ref={(el) => {
                   if (el) {
-                    remoteVideoRefs.current.set(participant.user_id, el);
-                    const stream = remoteStreams.get(participant.user_id);
+                    remoteVideoRefs.current.set(participant.id, el);
+                    const stream = remoteStreams.get(participant.id);
                     if (stream) {
                       el.srcObject = stream;
                     }
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { downloadReceipt, getMyReceipts } from "@/lib/api";
+import type { PaymentReceipt } from "@/lib/types";
+import { Download, Loader2, Receipt, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+const METHOD_LABELS: Record<string, string> = {
+  bkash: 'বিকাশ',
+  nagad: 'নগদ',
+  rocket: 'রকেট'
+};
+
+export default function PaymentReceipts() {
+  const { toast } = useToast();
+  // "<invoice>:<lang>" of the download in progress
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const { data: receipts = [], isLoading, error } = useQuery({
+    queryKey: ['receipts'],
+    queryFn: getMyReceipts
+  });
+
+  const handleDownload = async (receipt: PaymentReceipt, lang: 'bn' | 'en') => {
+    setDownloading(`${receipt.invoice_number}:${lang}`);
+    try {
+      await downloadReceipt(receipt.invoice_number, lang);
+    } catch (error) {
+      console.error('Failed to download receipt:', error);
+      toast({
+        title: "রসিদ ডাউনলোড ব্যর্থ",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>পেমেন্ট রসিদ</CardTitle>
+        <CardDescription>
+          প্রতিটি পরিশোধের রসিদ বাংলা বা ইংরেজিতে ডাউনলোড করুন
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">রসিদ লোড হচ্ছে...</div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-600">
+            <AlertCircle className="h-10 w-10 mx-auto mb-3" />
+            রসিদ লোড করতে ব্যর্থ
+          </div>
+        ) : receipts.length === 0 ? (
+          <div className="text-center py-8">
+            <Receipt className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">এখনো কোনো পরিশোধ নেই</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {receipts.map((receipt) => (
+              <div key={receipt.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-mono font-semibold">{receipt.invoice_number}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {receipt.course_title_bn ?? receipt.course_title}
+                    {receipt.installment_sequence && receipt.installment_count && receipt.installment_count > 1 &&
+                      ` · কিস্তি ${receipt.installment_sequence.toLocaleString('bn-BD')}/${receipt.installment_count.toLocaleString('bn-BD')}`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {Number(receipt.amount).toLocaleString('bn-BD')} টাকা · {METHOD_LABELS[receipt.method] ?? receipt.method}
+                    {" · "}{format(new Date(receipt.issued_at), "dd MMM yyyy", { locale: bn })}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  {(['bn', 'en'] as const).map((lang) => (
+                    <Button
+                      key={lang}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDownload(receipt, lang)}
+                      disabled={downloading !== null}
+                    >
+                      {downloading === `${receipt.invoice_number}:${lang}` ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4 mr-1" />
+                      )}
+                      {lang === 'bn' ? 'বাংলা' : 'English'}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { PROGRESS_COMPONENT_LABELS, type ComponentProgress, type CourseProgress } from "@shared/progress";
+
+interface ProgressBreakdownProps {
+  progress: CourseProgress;
+}
+
+// What `done` and `total` count for each component
+function describe({ component, done, total }: ComponentProgress): string {
+  switch (component) {
+    case 'lessons':
+      return `${total}টির মধ্যে ${done}টি পাঠ`;
+    case 'attendance':
+      return `${total}টির মধ্যে ${done}টি ক্লাস`;
+    case 'homework':
+      return `${total}টি জমার মধ্যে ${done}টি মূল্যায়িত`;
+    case 'quiz':
+      return `${total}টির মধ্যে ${done}টি কুইজ`;
+  }
+}
+
+/**
+ * Per-module progress with the share of each component, as computed by
+ * the server
+ */
+export default function ProgressBreakdown({ progress }: ProgressBreakdownProps) {
+  if (progress.modules.length === 0) {
+    return <p className="text-center py-8 text-gray-500">এখনো কোনো মডিউল চালু হয়নি</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {progress.modules.map((module) => {
+        const totalWeight = module.components
+          .filter((component) => component.percent !== null)
+          .reduce((sum, component) => sum + component.weight, 0);
+
+        return (
+          <div key={module.module_id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center space-x-2">
+                <h4 className="font-medium">{module.title_bn || module.title}</h4>
+                <Badge variant="outline">{module.level} স্তর</Badge>
+              </div>
+              <span className="text-sm font-semibold text-islamic-green">
+                {module.percent === null ? 'শুরু হয়নি' : `${module.percent}%`}
+              </span>
+            </div>
+            <Progress value={module.percent ?? 0} className="h-2" />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {module.components.map((component) => (
+                <div key={component.component} className="text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="text-gray-700">{PROGRESS_COMPONENT_LABELS[component.component]}</span>
+                    <span className="text-gray-500">
+                      {component.percent === null
+                        ? 'প্রযোজ্য নয়'
+                        : `${component.percent}% · ভার ${totalWeight > 0 ? Math.round(component.weight * 100 / totalWeight) : 0}%`}
+                    </span>
+                  </div>
+                  <Progress value={component.percent ?? 0} className="h-1.5" />
+                  <p className="text-xs text-gray-400 mt-1">{describe(component)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
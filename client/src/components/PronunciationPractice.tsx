@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getPronunciationAttempts, savePronunciationAttempt } from "@/lib/api";
+import { ArabicLearningManager } from "@/lib/video-sdk/core/ArabicLearningManager";
+import { MediaManager } from "@/lib/video-sdk/core/MediaManager";
+import { DIALECT_LABELS } from "@shared/dialects";
+import {
+  CONFUSABLE_LETTERS,
+  MAX_RECORDING_SECONDS,
+  PROBLEM_LETTER_SCORE,
+  problemLetters,
+  type PracticeTarget,
+  type PronunciationAssessment
+} from "@shared/pronunciation";
+import { Loader2, Mic, Square } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+type RecorderState = 'idle' | 'recording' | 'scoring';
+
+function scoreColor(score: number): string {
+  if (score >= 80) return "text-green-700";
+  if (score >= PROBLEM_LETTER_SCORE) return "text-amber-600";
+  return "text-red-600";
+}
+
+function AssessmentView({ assessment }: { assessment: PronunciationAssessment }) {
+  const tips = problemLetters(assessment.letters).filter((letter) => CONFUSABLE_LETTERS[letter]);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-center">
+        <span className={`text-4xl font-bold ${scoreColor(assessment.score)}`}>{assessment.score}%</span>
+      </p>
+      {assessment.letters.length > 0 && (
+        <p dir="rtl" lang="ar" className="text-4xl leading-loose text-center">
+          {assessment.letters.map((letter, index) => (
+            <span key={index} className={scoreColor(letter.score)} title={`${letter.score}%`}>
+              {letter.letter}
+            </span>
+          ))}
+        </p>
+      )}
+      {tips.length > 0 && (
+        <ul className="space-y-2">
+          {tips.map((letter) => (
+            <li key={letter} className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm">
+              <span dir="rtl" lang="ar" className="text-xl text-red-700 mr-2">
+                {letter} / {CONFUSABLE_LETTERS[letter].confused_with}
+              </span>
+              {CONFUSABLE_LETTERS[letter].tip_bn}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Record yourself saying a word or ayahs from the lesson and see how close
+ * each letter came to the reference recording. Scoring runs in the browser;
+ * only the result is saved.
+ */
+export default function PronunciationPractice({ lessonId, targets }: { lessonId: string; targets: PracticeTarget[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState(0);
+  const [state, setState] = useState<RecorderState>('idle');
+  const [assessment, setAssessment] = useState<PronunciationAssessment | null>(null);
+
+  const media = useMemo(() => new MediaManager({}), []);
+  const coach = useMemo(() => new ArabicLearningManager({ pronunciationCoaching: true }), []);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const target = targets[Math.min(selected, targets.length - 1)];
+
+  const { data: attempts = [] } = useQuery({
+    queryKey: ['pronunciation-attempts', lessonId],
+    queryFn: () => getPronunciationAttempts(lessonId)
+  });
+  const history = attempts.filter((attempt) => attempt.target_text === target.text).slice(0, 5);
+
+  const saveMutation = useMutation({
+    mutationFn: (result: PronunciationAssessment) =>
+      savePronunciationAttempt({ lesson_id: lessonId, target_text: target.text, ...result }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pronunciation-attempts', lessonId] });
+    },
+    onError: (error) => {
+      console.error('Failed to save pronunciation attempt:', error);
+      toast({ title: "ফলাফল সংরক্ষণ করা যায়নি", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    coach.cleanup();
+  }, [coach]);
+
+  const score = async (recording: Blob) => {
+    setState('scoring');
+    try {
+      const response = await fetch(target.reference_url);
+      if (!response.ok) throw new Error(`Reference recording unavailable (${response.status})`);
+      const result = await coach.assessPronunciation(await response.arrayBuffer(), await recording.arrayBuffer(), target.text);
+      setAssessment(result);
+      saveMutation.mutate(result);
+    } catch (error) {
+      console.error('Failed to score pronunciation:', error);
+      toast({
+        title: "উচ্চারণ যাচাই করা যায়নি",
+        description: error instanceof Error && error.message.includes('No speech detected')
+          ? "কোনো কথা শোনা যায়নি। মাইক্রোফোনের কাছে আরেকবার বলুন।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    } finally {
+      setState('idle');
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await media.getAudioStream();
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = () => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+        stream.getTracks().forEach((track) => track.stop());
+        void score(new Blob(chunks, { type: recorder.mimeType }));
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      timerRef.current = setTimeout(() => recorder.stop(), MAX_RECORDING_SECONDS * 1000);
+      setAssessment(null);
+      setState('recording');
+    } catch (error) {
+      toast({
+        title: "মাইক্রোফোন চালু করা যায়নি",
+        description: error instanceof Error ? error.message : "দয়া করে অনুমতি দিন এবং আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="border-2 border-soft-mint rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-islamic-green flex items-center">
+          <Mic className="w-4 h-4 mr-2" />
+          উচ্চারণ অনুশীলন
+        </h3>
+        {targets.length > 1 && (
+          <Select
+            value={String(selected)}
+            onValueChange={(value) => {
+              setSelected(Number(value));
+              setAssessment(null);
+            }}
+            disabled={state !== 'idle'}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map((option, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  <span dir="rtl" lang="ar">{option.text}</span>
+                  {option.meaning_bn && <span className="text-gray-500"> — {option.meaning_bn}</span>}
+                  {option.dialect !== 'MSA' && <span className="text-purple-700"> ({DIALECT_LABELS[option.dialect]})</span>}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {!assessment && (
+        <p dir="rtl" lang="ar" className="text-3xl leading-loose text-center whitespace-pre-line">{target.text}</p>
+      )}
+      {target.dialect !== 'MSA' && (
+        <p className="text-xs text-center text-purple-700">{DIALECT_LABELS[target.dialect]} উচ্চারণ</p>
+      )}
+      <audio src={target.reference_url} controls className="w-full h-8" />
+
+      <div className="flex justify-center">
+        {state === 'recording' ? (
+          <Button variant="destructive" onClick={() => recorderRef.current?.stop()}>
+            <Square className="w-4 h-4 mr-2" />
+            থামান ও যাচাই করুন
+          </Button>
+        ) : (
+          <Button className="bg-islamic-green hover:bg-dark-green" onClick={startRecording} disabled={state === 'scoring'}>
+            {state === 'scoring' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Mic className="w-4 h-4 mr-2" />}
+            {state === 'scoring' ? 'যাচাই করা হচ্ছে...' : 'রেকর্ড করুন'}
+          </Button>
+        )}
+      </div>
+      {state === 'recording' && (
+        <p className="text-center text-sm text-gray-500">
+          বলা শেষ হলে থামান (সর্বোচ্চ {MAX_RECORDING_SECONDS} সেকেন্ড)
+        </p>
+      )}
+
+      {assessment && <AssessmentView assessment={assessment} />}
+
+      {history.length > 0 && (
+        <div className="pt-3 border-t">
+          <p className="text-xs text-gray-500 mb-2">আগের চেষ্টা</p>
+          <div className="flex flex-wrap gap-2">
+            {history.map((attempt) => (
+              <span key={attempt.id} className="text-xs bg-gray-50 rounded px-2 py-1">
+                <span className={`font-semibold ${scoreColor(attempt.score)}`}>{attempt.score}%</span>
+                {' · '}
+                {format(new Date(attempt.created_at), "dd MMM, HH:mm", { locale: bn })}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
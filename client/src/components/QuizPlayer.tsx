@@ -0,0 +1,379 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { getQuizOverview, startQuizAttempt, submitQuizAttempt } from "@/lib/api";
+import {
+  QUESTION_TYPE_LABELS,
+  type QuizAnswer,
+  type QuizAttemptResult,
+  type QuizAttemptView,
+  type QuizQuestionView
+} from "@shared/quizzes";
+import { AlertCircle, CheckCircle, Clock, RotateCcw, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+interface QuizPlayerProps {
+  lessonId: string;
+}
+
+type Answers = Record<string, QuizAnswer>;
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Words placed so far, by their position in the shuffled list so repeated
+ * words stay distinct
+ */
+function OrderWordsInput({ words, onChange }: { words: string[]; onChange: (answer: QuizAnswer) => void }) {
+  const [placed, setPlaced] = useState<number[]>([]);
+
+  const update = (next: number[]) => {
+    setPlaced(next);
+    onChange({ words: next.map((index) => words[index]) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div dir="rtl" lang="ar" className="min-h-[3rem] p-2 border-2 border-dashed rounded-lg flex flex-wrap gap-2">
+        {placed.map((index, position) => (
+          <Button
+            key={position}
+            type="button"
+            variant="secondary"
+            className="text-xl"
+            onClick={() => update(placed.filter((_, i) => i !== position))}
+          >
+            {words[index]}
+          </Button>
+        ))}
+      </div>
+      <div dir="rtl" lang="ar" className="flex flex-wrap gap-2">
+        {words.map((word, index) => !placed.includes(index) && (
+          <Button key={index} type="button" variant="outline" className="text-xl" onClick={() => update([...placed, index])}>
+            {word}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function QuestionInput({ question, answer, onChange }: {
+  question: QuizQuestionView;
+  answer: QuizAnswer | undefined;
+  onChange: (answer: QuizAnswer) => void;
+}) {
+  switch (question.question_type) {
+    case 'multiple_choice':
+    case 'listen_choose':
+      return (
+        <div className="space-y-3">
+          {question.question_type === 'listen_choose' && <audio src={question.audio_url} controls className="w-full" />}
+          <RadioGroup
+            value={answer?.option !== undefined ? String(answer.option) : ""}
+            onValueChange={(value) => onChange({ option: Number(value) })}
+            className="grid gap-2"
+          >
+            {question.options.map((option) => (
+              <div key={option.index} className="flex items-center space-x-2">
+                <RadioGroupItem value={String(option.index)} id={`${question.id}-${option.index}`} />
+                <Label htmlFor={`${question.id}-${option.index}`} className="flex-1 p-2 border rounded-lg cursor-pointer">
+                  {option.text}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      );
+    case 'harakat':
+      return (
+        <div className="space-y-2">
+          <p dir="rtl" lang="ar" className="text-3xl text-center">{question.letters}</p>
+          <Input
+            dir="rtl"
+            lang="ar"
+            className="text-2xl h-14"
+            value={answer?.text ?? question.letters}
+            onChange={(e) => onChange({ text: e.target.value })}
+            aria-label="হরকতসহ লিখুন"
+          />
+        </div>
+      );
+    case 'match':
+      return (
+        <div className="space-y-2">
+          {question.prompts.map((prompt, index) => (
+            <div key={index} className="grid grid-cols-2 gap-3 items-center">
+              <span dir="rtl" lang="ar" className="text-2xl">{prompt}</span>
+              <Select
+                value={answer?.matches?.[index] ?? ""}
+                onValueChange={(value) => {
+                  const matches = question.prompts.map((_, i) => answer?.matches?.[i] ?? "");
+                  matches[index] = value;
+                  onChange({ matches });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="অর্থ বেছে নিন" />
+                </SelectTrigger>
+                <SelectContent>
+                  {question.choices.map((choice) => (
+                    <SelectItem key={choice} value={choice}>{choice}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      );
+    case 'order_words':
+      return <OrderWordsInput words={question.words} onChange={onChange} />;
+    case 'free_text':
+      return (
+        <Input
+          dir="rtl"
+          lang="ar"
+          className="text-2xl h-14"
+          value={answer?.text ?? ""}
+          onChange={(e) => onChange({ text: e.target.value })}
+          aria-label="আরবিতে উত্তর লিখুন"
+        />
+      );
+  }
+}
+
+function AttemptForm({ attempt, onSubmit, submitting }: {
+  attempt: QuizAttemptView;
+  onSubmit: (answers: Answers) => void;
+  submitting: boolean;
+}) {
+  const [answers, setAnswers] = useState<Answers>({});
+  const [now, setNow] = useState(Date.now());
+  const answersRef = useRef(answers);
+  const autoSubmitted = useRef(false);
+  answersRef.current = answers;
+
+  const remaining = attempt.expires_at ? new Date(attempt.expires_at).getTime() - now : null;
+
+  useEffect(() => {
+    if (!attempt.expires_at) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [attempt.expires_at]);
+
+  // Hand in whatever is answered when time runs out
+  useEffect(() => {
+    if (remaining !== null && remaining <= 0 && !autoSubmitted.current && !submitting) {
+      autoSubmitted.current = true;
+      onSubmit(answersRef.current);
+    }
+  }, [remaining, submitting, onSubmit]);
+
+  const answered = attempt.questions.filter((question) => answers[question.id]).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between sticky top-0 bg-white py-2 z-10 border-b">
+        <span className="text-sm text-gray-600">{attempt.questions.length}টির মধ্যে {answered}টির উত্তর দেওয়া হয়েছে</span>
+        {remaining !== null && (
+          <Badge className={remaining < 60 * 1000 ? "bg-red-100 text-red-800" : "bg-blue-100 text-blue-800"}>
+            <Clock className="h-4 w-4 mr-1" />
+            {formatRemaining(remaining)}
+          </Badge>
+        )}
+      </div>
+
+      {attempt.questions.map((question, index) => (
+        <div key={question.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium">{index + 1}. {question.prompt_bn}</p>
+            <Badge variant="outline" className="shrink-0">{QUESTION_TYPE_LABELS[question.question_type]} · {question.points}</Badge>
+          </div>
+          {question.prompt_ar && <p dir="rtl" lang="ar" className="text-2xl leading-loose">{question.prompt_ar}</p>}
+          <QuestionInput
+            question={question}
+            answer={answers[question.id]}
+            onChange={(answer) => setAnswers((current) => ({ ...current, [question.id]: answer }))}
+          />
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button className="bg-islamic-green hover:bg-dark-green" onClick={() => onSubmit(answers)} disabled={submitting}>
+          {submitting ? 'জমা দেওয়া হচ্ছে...' : 'উত্তর জমা দিন'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AttemptSummary({ attempt }: { attempt: QuizAttemptResult }) {
+  return (
+    <div className="flex items-center justify-between text-sm p-2 border-b last:border-b-0">
+      <span className="text-gray-600">{format(new Date(attempt.submitted_at), "dd MMM yyyy, h:mm a", { locale: bn })}</span>
+      <span className="flex items-center space-x-2">
+        {attempt.timed_out && <span className="text-red-600">সময় শেষ</span>}
+        <span className="font-semibold">{attempt.score}%</span>
+        {attempt.passed
+          ? <CheckCircle className="h-4 w-4 text-green-600" />
+          : <XCircle className="h-4 w-4 text-gray-400" />}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * A quiz lesson's rules, the student's past attempts and the attempt in
+ * progress. Answers are graded on the server.
+ */
+export default function QuizPlayer({ lessonId }: QuizPlayerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [attempt, setAttempt] = useState<QuizAttemptView | null>(null);
+  const [result, setResult] = useState<QuizAttemptResult | null>(null);
+
+  const { data: overview, isLoading, error } = useQuery({
+    queryKey: ['quiz', lessonId],
+    queryFn: () => getQuizOverview(lessonId),
+    retry: false
+  });
+
+  // Until the overview refetches it still lists the attempt just graded as open
+  const open = overview?.open_attempt && overview.open_attempt.id !== result?.id ? overview.open_attempt : null;
+  const current = attempt ?? open;
+
+  const startMutation = useMutation({
+    mutationFn: () => startQuizAttempt(lessonId),
+    onSuccess: (started) => {
+      setResult(null);
+      setAttempt(started);
+    },
+    onError: (error) => {
+      console.error('Failed to start quiz attempt:', error);
+      const message = error instanceof Error ? error.message : '';
+      toast({
+        title: "কুইজ শুরু করা যায়নি",
+        description: message.includes('attempts-exhausted')
+          ? "এই কুইজের সব সুযোগ শেষ হয়ে গেছে।"
+          : message.includes('no-questions')
+            ? "এই কুইজে এখনো কোনো প্রশ্ন নেই।"
+            : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: ({ attemptId, answers }: { attemptId: string; answers: Answers }) => submitQuizAttempt(attemptId, { answers }),
+    onSuccess: (graded) => {
+      setAttempt(null);
+      setResult(graded);
+      queryClient.invalidateQueries({ queryKey: ['quiz', lessonId] });
+      if (graded.passed) {
+        queryClient.invalidateQueries({ queryKey: ['curriculum'] });
+        queryClient.invalidateQueries({ queryKey: ['curriculum-lesson', lessonId] });
+        queryClient.invalidateQueries({ queryKey: ['course-progress'] });
+        queryClient.invalidateQueries({ queryKey: ['certificates'] });
+      }
+    },
+    onError: (error) => {
+      console.error('Failed to submit quiz attempt:', error);
+      if (error instanceof Error && error.message.includes('already-submitted')) {
+        setAttempt(null);
+        queryClient.invalidateQueries({ queryKey: ['quiz', lessonId] });
+      }
+      toast({ title: "উত্তর জমা দিতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="text-center py-8 text-red-600">
+        <AlertCircle className="h-10 w-10 mx-auto mb-3" />
+        কুইজ লোড করতে ব্যর্থ
+      </div>
+    );
+  }
+
+  if (current) {
+    return (
+      <AttemptForm
+        key={current.id}
+        attempt={current}
+        submitting={submitMutation.isPending}
+        onSubmit={(answers) => submitMutation.mutate({ attemptId: current.id, answers })}
+      />
+    );
+  }
+
+  const attemptsLeft = overview.max_attempts === null ? null : Math.max(0, overview.max_attempts - overview.attempts_used);
+
+  return (
+    <div className="space-y-6">
+      {result && (
+        <div className={`p-4 rounded-lg border ${result.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold">{result.passed ? 'অভিনন্দন! আপনি পাস করেছেন' : 'এবার পাস হয়নি'}</span>
+            <span className="text-2xl font-bold">{result.score}%</span>
+          </div>
+          <Progress value={result.score} />
+          {result.timed_out && <p className="text-sm text-red-600 mt-2">সময় শেষ হওয়ার পর জমা দেওয়ায় নম্বর গণ্য হয়নি।</p>}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">প্রশ্ন</p>
+          <p className="font-semibold">{overview.question_count}টি</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">সময়</p>
+          <p className="font-semibold">{overview.time_limit_minutes ? `${overview.time_limit_minutes} মিনিট` : 'সীমাহীন'}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">বাকি সুযোগ</p>
+          <p className="font-semibold">{attemptsLeft === null ? 'সীমাহীন' : `${attemptsLeft}টি`}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">সর্বোচ্চ নম্বর</p>
+          <p className="font-semibold">{overview.best_score === null ? '—' : `${overview.best_score}%`}</p>
+        </div>
+      </div>
+
+      {overview.attempts.length > 0 && (
+        <div className="border rounded-lg">
+          {overview.attempts.map((past) => <AttemptSummary key={past.id} attempt={past} />)}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          className="bg-islamic-green hover:bg-dark-green"
+          onClick={() => startMutation.mutate()}
+          disabled={startMutation.isPending || attemptsLeft === 0 || overview.question_count === 0}
+        >
+          {overview.attempts_used > 0 && <RotateCcw className="h-4 w-4 mr-2" />}
+          {startMutation.isPending
+            ? 'প্রস্তুত করা হচ্ছে...'
+            : overview.attempts_used > 0 ? 'আবার চেষ্টা করুন' : 'কুইজ শুরু করুন'}
+        </Button>
+      </div>
+    </div>
+  );
+}
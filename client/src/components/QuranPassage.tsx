@@ -0,0 +1,168 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import TajweedText from "@/components/TajweedText";
+import { DEFAULT_RECITER, arabicNumber, ayahAudioUrl, type QuranAyah, type QuranIndex } from "@shared/quran";
+import { Pause, Play, Square } from "lucide-react";
+
+interface QuranPassageProps {
+  ayahs: QuranAyah[];
+  index: QuranIndex;
+  // Ayah to scroll to and mark, e.g. after "go to ayah"
+  focusKey?: string | null;
+  // Fewer controls, for the live-class chat
+  compact?: boolean;
+}
+
+/**
+ * Ayahs with their translation and, on request, word-by-word meanings and
+ * tajweed colours. The recitation plays ayah after ayah from the one
+ * chosen, highlighting the ayah being recited.
+ */
+export default function QuranPassage({ ayahs, index, focusKey = null, compact = false }: QuranPassageProps) {
+  const [reciter, setReciter] = useState(DEFAULT_RECITER);
+  const [playing, setPlaying] = useState<number | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [showTranslation, setShowTranslation] = useState(index.has_translation);
+  const [showWords, setShowWords] = useState(false);
+  const [tajweed, setTajweed] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const ayahRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const id = useId();
+
+  const stop = () => {
+    audioRef.current?.pause();
+    setPlaying(null);
+    setPaused(false);
+  };
+
+  // A new passage or reciter starts from silence
+  useEffect(() => stop, [ayahs, reciter]);
+
+  useEffect(() => {
+    if (playing === null) return;
+    const ayah = ayahs[playing];
+    if (!audioRef.current) audioRef.current = new Audio();
+    const audio = audioRef.current;
+    audio.src = ayahAudioUrl(index.audio_base_url, reciter, ayah);
+    audio.onended = () => setPlaying((current) => current !== null && current + 1 < ayahs.length ? current + 1 : null);
+    audio.onerror = () => setPlaying(null);
+    audio.play().catch(() => setPlaying(null));
+    ayahRefs.current[ayah.key]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [playing, ayahs, reciter, index.audio_base_url]);
+
+  useEffect(() => {
+    if (focusKey) ayahRefs.current[focusKey]?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusKey, ayahs]);
+
+  const togglePause = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (paused) audio.play();
+    else audio.pause();
+    setPaused(!paused);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {!compact && (
+          <Select value={reciter} onValueChange={setReciter}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {index.reciters.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {playing === null ? (
+          <Button size="sm" className="bg-islamic-green hover:bg-dark-green" onClick={() => setPlaying(0)} disabled={ayahs.length === 0}>
+            <Play className="h-4 w-4 mr-1" />
+            তিলাওয়াত শুনুন
+          </Button>
+        ) : (
+          <>
+            <Button size="sm" variant="outline" onClick={togglePause}>
+              {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            </Button>
+            <Button size="sm" variant="outline" onClick={stop}>
+              <Square className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        {index.has_translation && (
+          <div className="flex items-center space-x-2">
+            <Switch id={`${id}-translation`} checked={showTranslation} onCheckedChange={setShowTranslation} />
+            <Label htmlFor={`${id}-translation`}>অনুবাদ</Label>
+          </div>
+        )}
+        {index.has_words && !compact && (
+          <div className="flex items-center space-x-2">
+            <Switch id={`${id}-words`} checked={showWords} onCheckedChange={setShowWords} />
+            <Label htmlFor={`${id}-words`}>শব্দে শব্দে অর্থ</Label>
+          </div>
+        )}
+        {!compact && (
+          <div className="flex items-center space-x-2">
+            <Switch id={`${id}-tajweed`} checked={tajweed} onCheckedChange={setTajweed} />
+            <Label htmlFor={`${id}-tajweed`}>তাজবীদ রং</Label>
+          </div>
+        )}
+      </div>
+
+      <div className="divide-y">
+        {ayahs.map((ayah, position) => {
+          const active = playing === position;
+          // U+06DD end of ayah, drawn around the number that follows
+          const ending = ` \u06DD${arabicNumber(ayah.ayah)}`;
+          return (
+            <div
+              key={ayah.key}
+              ref={(element) => { ayahRefs.current[ayah.key] = element; }}
+              className={`py-3 px-2 rounded-lg transition-colors ${active
+                ? "bg-soft-mint"
+                : ayah.key === focusKey ? "bg-amber-50" : ""}`}
+              data-testid={`ayah-${ayah.key}`}
+            >
+              <div className="flex items-start gap-3">
+                <button
+                  className="text-xs text-gray-500 hover:text-islamic-green pt-3 shrink-0"
+                  title="এখান থেকে শুনুন"
+                  onClick={() => setPlaying(position)}
+                >
+                  {ayah.key}
+                </button>
+                <div className="flex-1 space-y-2">
+                  {tajweed ? (
+                    <TajweedText text={ayah.text + ending} className={compact ? "text-2xl leading-loose" : "text-3xl leading-loose"} />
+                  ) : (
+                    <p dir="rtl" lang="ar" className={compact ? "text-2xl leading-loose" : "text-3xl leading-loose"}>
+                      {ayah.text}{ending}
+                    </p>
+                  )}
+                  {showWords && ayah.words.length > 0 && (
+                    <div dir="rtl" className="flex flex-wrap gap-2">
+                      {ayah.words.map((word, i) => (
+                        <div key={i} className="border border-gray-200 rounded px-2 py-1 text-center">
+                          <p lang="ar" className="text-xl">{word.arabic}</p>
+                          {word.transliteration && <p dir="ltr" className="text-xs italic text-gray-500">{word.transliteration}</p>}
+                          <p dir="ltr" className="text-xs text-gray-700">{word.meaning_bn}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {showTranslation && ayah.translation_bn && <p className="text-gray-700">{ayah.translation_bn}</p>}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { Skeleton } from "@/components/ui/skeleton";
+import QuranPassage from "@/components/QuranPassage";
+import { getQuranAyahs, getQuranIndex } from "@/lib/api";
+import { surahInfo, type QuranRange as Range } from "@shared/quran";
+
+/**
+ * A few ayahs of one surah from the server's Quran text, as opened by an
+ * instructor in a live class or set by a recitation lesson
+ */
+export default function QuranRange({ range, compact = false }: { range: Range; compact?: boolean }) {
+  const { data: index, error: indexError } = useQuery({
+    queryKey: ['quran-index'],
+    queryFn: getQuranIndex,
+    staleTime: Infinity
+  });
+
+  const { data: ayahs, isLoading, error } = useQuery({
+    queryKey: ['quran-ayahs', { surah: range.surah, from: range.from, to: range.to }],
+    queryFn: () => getQuranAyahs({ surah: range.surah, from: range.from, to: range.to }),
+    staleTime: Infinity
+  });
+
+  const surah = surahInfo(range.surah);
+
+  return (
+    <div className="space-y-2">
+      <p className="font-medium text-islamic-green">
+        সূরা {surah?.name} (<span dir="rtl" lang="ar">{surah?.name_ar}</span>), আয়াত {range.from}
+        {range.to !== range.from && `–${range.to}`}
+      </p>
+      {indexError || error ? (
+        <p className="text-sm text-gray-500">কুরআনের পাঠ্য এখন লোড করা যাচ্ছে না।</p>
+      ) : isLoading || !index || !ayahs ? (
+        <Skeleton className="h-24 w-full" />
+      ) : (
+        <QuranPassage ayahs={ayahs} index={index} compact={compact} />
+      )}
+    </div>
+  );
+}
@@ -4,13 +4,38 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Send, Clock, Heart, ThumbsUp, Smile } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Send, Clock, Heart, ThumbsUp, Smile, BookOpen, BookMarked, PenTool } from 'lucide-react';
 import { format } from 'date-fns';
 import { bn } from 'date-fns/locale';
 import { supabase, getChatMessages, sendChatMessage, addChatReaction, getChatReactions } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import TajweedText from '@/components/TajweedText';
+import HandwritingPractice from '@/components/HandwritingPractice';
+import QuranRange from '@/components/QuranRange';
+import { can } from '@shared/rbac';
+import {
+  ARABIC_ALPHABET,
+  LETTER_FORM_LABELS,
+  alphabetLetter,
+  formGlyph,
+  handwritingExerciseMessage,
+  letterForms,
+  parseHandwritingExercise,
+  type HandwritingTarget,
+  type LetterForm
+} from '@shared/handwriting';
+import {
+  SURAHS,
+  parseQuranRange,
+  quranRangeMessage,
+  quranRangeSchema,
+  surahInfo,
+  type QuranRange as SharedRange
+} from '@shared/quran';
 
 interface ChatMessage {
   id: string;
@@ -41,11 +66,19 @@ export default function SupabaseLiveChat({
 }: SupabaseLiveChatProps) {
   const [newMessage, setNewMessage] = useState('');
   const [selectedReaction, setSelectedReaction] = useState<string | null>(null);
+  // Teaching staff can post an ayah that everyone sees colour-coded by tajweed rule
+  const [tajweedMode, setTajweedMode] = useState(false);
+  // ...and push a letter for every student to write on their own canvas
+  const [exercise, setExercise] = useState<HandwritingTarget | null>(null);
+  const [practising, setPractising] = useState<HandwritingTarget | null>(null);
+  // ...and open a range of ayahs on every student's screen
+  const [quranRange, setQuranRange] = useState<SharedRange | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { user, profile } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const canShareTajweed = can(profile, 'moderate', 'live-class');
 
   // Fetch chat messages
   const { data: messages = [], isLoading } = useQuery({
@@ -168,7 +201,22 @@ export default function SupabaseLiveChat({
       return;
     }
 
-    sendMessageMutation.mutate({ message: newMessage.trim() });
+    sendMessageMutation.mutate({
+      message: newMessage.trim(),
+      message_type: tajweedMode ? 'tajweed' : undefined
+    });
+  };
+
+  const handleSendExercise = () => {
+    if (!exercise) return;
+    sendMessageMutation.mutate({ message: handwritingExerciseMessage(exercise), message_type: 'handwriting' });
+    setExercise(null);
+  };
+
+  const handleSendQuranRange = () => {
+    if (!quranRange || !quranRangeSchema.safeParse(quranRange).success) return;
+    sendMessageMutation.mutate({ message: quranRangeMessage(quranRange), message_type: 'quran' });
+    setQuranRange(null);
   };
 
   const handleAddReaction = (messageId: string, emoji: string) => {
@@ -194,6 +242,12 @@ export default function SupabaseLiveChat({
         return 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800';
       case 'homework':
         return 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800';
+      case 'tajweed':
+        return 'bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 w-full';
+      case 'handwriting':
+        return 'bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800';
+      case 'quran':
+        return 'bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-200 dark:border-emerald-800 w-full';
       default:
         return message.user_id === user?.id
           ? 'bg-islamic-green text-white ml-8'
@@ -254,9 +308,20 @@ export default function SupabaseLiveChat({
                       <Clock className="w-3 h-3 text-muted-foreground" />
                     </div>
                     
-                    <p className="text-sm font-bengali break-words">
-                      {message.message}
-                    </p>
+                    {message.message_type === 'tajweed' ? (
+                      <TajweedText text={message.message} className="text-2xl leading-loose" showLegend />
+                    ) : message.message_type === 'handwriting' && parseHandwritingExercise(message.message) ? (
+                      <HandwritingExerciseCard
+                        target={parseHandwritingExercise(message.message)!}
+                        onPractise={setPractising}
+                      />
+                    ) : message.message_type === 'quran' && parseQuranRange(message.message) ? (
+                      <QuranRange range={parseQuranRange(message.message)!} compact />
+                    ) : (
+                      <p className="text-sm font-bengali break-words">
+                        {message.message}
+                      </p>
+                    )}
 
                     {/* Reaction buttons for other users' messages */}
                     {!isOwnMessage(message) && (
@@ -290,11 +355,134 @@ export default function SupabaseLiveChat({
         
         {/* Chat Input */}
         <div className="border-t p-4">
+          {exercise && (
+            <div className="flex items-center space-x-2 mb-2" data-testid="handwriting-exercise-picker">
+              <Select
+                value={exercise.letter}
+                onValueChange={(letter) => setExercise({
+                  letter,
+                  form: letterForms(letter).includes(exercise.form) ? exercise.form : 'isolated'
+                })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ARABIC_ALPHABET.map((entry) => (
+                    <SelectItem key={entry.letter} value={entry.letter}>
+                      {entry.name_bn} ({entry.letter})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={exercise.form} onValueChange={(form) => setExercise({ ...exercise, form: form as LetterForm })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {letterForms(exercise.letter).map((form) => (
+                    <SelectItem key={form} value={form}>{LETTER_FORM_LABELS[form]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span dir="rtl" lang="ar" className="text-2xl px-2">{formGlyph(exercise.letter, exercise.form)}</span>
+              <Button type="button" size="sm" onClick={handleSendExercise} disabled={sendMessageMutation.isPending}>
+                সবাইকে পাঠান
+              </Button>
+            </div>
+          )}
+          {quranRange && (
+            <div className="flex items-center space-x-2 mb-2" data-testid="quran-range-picker">
+              <Select
+                value={String(quranRange.surah)}
+                onValueChange={(value) => {
+                  const surah = surahInfo(Number(value))!;
+                  setQuranRange({ surah: surah.number, from: 1, to: Math.min(surah.ayah_count, 7) });
+                }}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SURAHS.map((surah) => (
+                    <SelectItem key={surah.number} value={String(surah.number)}>
+                      {surah.number}. {surah.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                className="w-20"
+                value={quranRange.from}
+                onChange={(e) => setQuranRange({ ...quranRange, from: Number(e.target.value) || 1 })}
+                data-testid="quran-range-from"
+              />
+              <span>–</span>
+              <Input
+                type="number"
+                min={1}
+                className="w-20"
+                value={quranRange.to}
+                onChange={(e) => setQuranRange({ ...quranRange, to: Number(e.target.value) || 1 })}
+                data-testid="quran-range-to"
+              />
+              <Button
+                type="button"
+                size="sm"
+                onClick={handleSendQuranRange}
+                disabled={sendMessageMutation.isPending || !quranRangeSchema.safeParse(quranRange).success}
+              >
+                সবার স্ক্রিনে খুলুন
+              </Button>
+            </div>
+          )}
           <form onSubmit={handleSendMessage} className="flex space-x-2" data-testid="chat-input-form">
+            {canShareTajweed && (
+              <Button
+                type="button"
+                size="sm"
+                variant={tajweedMode ? 'default' : 'outline'}
+                className={tajweedMode ? 'bg-amber-600 hover:bg-amber-700' : ''}
+                title="তাজবীদসহ আয়াত পাঠান"
+                onClick={() => setTajweedMode(!tajweedMode)}
+                data-testid="tajweed-mode-button"
+              >
+                <BookOpen className="h-4 w-4" />
+              </Button>
+            )}
+            {canShareTajweed && (
+              <Button
+                type="button"
+                size="sm"
+                variant={exercise ? 'default' : 'outline'}
+                className={exercise ? 'bg-purple-600 hover:bg-purple-700' : ''}
+                title="হাতের লেখার অনুশীলন পাঠান"
+                onClick={() => setExercise(exercise ? null : { letter: ARABIC_ALPHABET[0].letter, form: 'isolated' })}
+                data-testid="handwriting-exercise-button"
+              >
+                <PenTool className="h-4 w-4" />
+              </Button>
+            )}
+            {canShareTajweed && (
+              <Button
+                type="button"
+                size="sm"
+                variant={quranRange ? 'default' : 'outline'}
+                className={quranRange ? 'bg-emerald-600 hover:bg-emerald-700' : ''}
+                title="সবার স্ক্রিনে আয়াত খুলুন"
+                onClick={() => setQuranRange(quranRange ? null : { surah: 1, from: 1, to: 7 })}
+                data-testid="quran-range-button"
+              >
+                <BookMarked className="h-4 w-4" />
+              </Button>
+            )}
             <Input
               ref={inputRef}
               type="text"
-              placeholder="বার্তা লিখুন..."
+              placeholder={tajweedMode ? "হরকতসহ আয়াত লিখুন..." : "বার্তা লিখুন..."}
+              dir={tajweedMode ? 'rtl' : undefined}
               value={newMessage}
               onChange={(e) => setNewMessage(e.target.value)}
               disabled={sendMessageMutation.isPending || !user}
@@ -316,6 +504,35 @@ export default function SupabaseLiveChat({
           </form>
         </div>
       </CardContent>
+
+      <Dialog open={practising !== null} onOpenChange={(open) => !open && setPractising(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>হাতের লেখা অনুশীলন</DialogTitle>
+          </DialogHeader>
+          {practising && <HandwritingPractice targets={[practising]} />}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
+}
+
+function HandwritingExerciseCard({ target, onPractise }: {
+  target: HandwritingTarget;
+  onPractise: (target: HandwritingTarget) => void;
+}) {
+  return (
+    <div className="flex items-center space-x-3">
+      <span dir="rtl" lang="ar" className="text-4xl leading-relaxed">{formGlyph(target.letter, target.form)}</span>
+      <div className="space-y-1">
+        <p className="text-sm font-bengali">
+          {alphabetLetter(target.letter)?.name_bn} — {LETTER_FORM_LABELS[target.form]} রূপ লিখুন
+        </p>
+        <Button size="sm" variant="outline" onClick={() => onPractise(target)}>
+          <PenTool className="h-3 w-3 mr-1" />
+          লিখে দেখুন
+        </Button>
+      </div>
+    </div>
+  );
 }
\ No newline at end of file
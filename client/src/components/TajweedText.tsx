@@ -0,0 +1,54 @@
+import { useMemo } from "react";
+import {
+  TAJWEED_RULES,
+  TAJWEED_RULE_COLORS,
+  TAJWEED_RULE_LABELS,
+  annotateTajweed,
+  tajweedSegments
+} from "@shared/tajweed";
+
+interface TajweedTextProps {
+  // Vocalized Quranic Arabic
+  text: string;
+  className?: string;
+  // Lists the colours of the rules found in the text
+  showLegend?: boolean;
+}
+
+/**
+ * Arabic text coloured by the tajweed rule that applies to each letter;
+ * hovering a coloured letter names its rules
+ */
+export default function TajweedText({ text, className = "text-3xl leading-loose", showLegend = false }: TajweedTextProps) {
+  const annotations = useMemo(() => annotateTajweed(text), [text]);
+  const segments = useMemo(() => tajweedSegments(text, annotations), [text, annotations]);
+  const rulesFound = TAJWEED_RULES.filter((rule) => annotations.some((annotation) => annotation.rule === rule));
+
+  return (
+    <div className="space-y-3">
+      <p dir="rtl" lang="ar" className={`whitespace-pre-line ${className}`}>
+        {segments.map((segment, index) => segment.rules.length > 0 ? (
+          <span
+            key={index}
+            style={{ color: TAJWEED_RULE_COLORS[segment.rules[0]] }}
+            title={segment.rules.map((rule) => TAJWEED_RULE_LABELS[rule]).join(", ")}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ))}
+      </p>
+      {showLegend && rulesFound.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          {rulesFound.map((rule) => (
+            <span key={rule} className="inline-flex items-center space-x-1">
+              <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: TAJWEED_RULE_COLORS[rule] }} />
+              <span>{TAJWEED_RULE_LABELS[rule]}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import DialectForm from "@/components/DialectForm";
+import { useToast } from "@/hooks/use-toast";
+import { getVocabularyQueue, reviewVocabularyWord } from "@/lib/api";
+import { stripTashkeel } from "@shared/arabic";
+import {
+  REVIEW_GRADES,
+  REVIEW_GRADE_LABELS,
+  scheduleReview,
+  type ReviewGrade,
+  type VocabularyCard,
+  type VocabularyStreak
+} from "@shared/vocabulary";
+import { AlertCircle, CheckCircle, Eye, Flame, Languages } from "lucide-react";
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: "border-red-300 text-red-700 hover:bg-red-50",
+  hard: "border-amber-300 text-amber-700 hover:bg-amber-50",
+  good: "border-green-300 text-green-700 hover:bg-green-50",
+  easy: "border-blue-300 text-blue-700 hover:bg-blue-50"
+};
+
+function intervalLabel(days: number): string {
+  if (days < 30) return `${days} দিন`;
+  if (days < 365) return `${Math.round(days / 30)} মাস`;
+  return `${Math.round(days / 365)} বছর`;
+}
+
+function Flashcard({ card, revealed }: { card: VocabularyCard; revealed: boolean }) {
+  const bare = stripTashkeel(card.word.arabic);
+
+  return (
+    <div className="border-2 border-soft-mint rounded-xl p-6 text-center space-y-3">
+      <div className="flex items-center justify-center space-x-2 text-xs text-gray-500">
+        <span>{card.lesson_title_bn || card.lesson_title}</span>
+        {!card.schedule && <Badge variant="secondary">নতুন</Badge>}
+      </div>
+      <p dir="rtl" lang="ar" className="text-5xl leading-relaxed">{card.word.arabic}</p>
+      {bare !== card.word.arabic && (
+        <p className="text-sm text-gray-500">
+          হরকত ছাড়া: <span dir="rtl" lang="ar" className="text-2xl text-gray-700">{bare}</span>
+        </p>
+      )}
+      {revealed && (
+        <div className="pt-3 border-t space-y-2">
+          {card.word.transliteration && <p className="text-sm italic text-gray-500">{card.word.transliteration}</p>}
+          <p className="text-xl font-semibold text-gray-900">{card.word.meaning_bn}</p>
+          {card.word.audio_url && <audio src={card.word.audio_url} controls autoPlay className="h-8 mx-auto" />}
+          <DialectForm word={card.word} className="justify-center" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Today's vocabulary review for the home page. Words graded "again" come
+ * back at the end of the session; the queue is fetched afresh once the
+ * session is over.
+ */
+export default function VocabularyReview() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<VocabularyCard[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [streak, setStreak] = useState<VocabularyStreak | null>(null);
+
+  const { data: queue, isLoading, error } = useQuery({
+    queryKey: ['vocabulary-queue'],
+    queryFn: getVocabularyQueue
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ card, grade }: { card: VocabularyCard; grade: ReviewGrade }) =>
+      reviewVocabularyWord({ lesson_id: card.lesson_id, word: card.word.arabic, grade }),
+    onSuccess: (result, { card, grade }) => {
+      setStreak(result.streak);
+      const next = grade === 'again' && session ? [...session, { ...card, schedule: result.schedule }] : session;
+      if (!next || position + 1 >= next.length) {
+        setSession(null);
+        setPosition(0);
+        queryClient.invalidateQueries({ queryKey: ['vocabulary-queue'] });
+        toast({
+          title: "আজকের অনুশীলন সম্পন্ন",
+          description: `টানা ${result.streak.current} দিন অনুশীলন করছেন।`,
+        });
+      } else {
+        setSession(next);
+        setPosition(position + 1);
+      }
+      setRevealed(false);
+    },
+    onError: (error) => {
+      console.error('Failed to record vocabulary review:', error);
+      toast({
+        title: "উত্তর সংরক্ষণ করা যায়নি",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const currentStreak = streak ?? queue?.streak;
+  const card = session ? session[position] : null;
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            <Languages className="w-5 h-5 mr-2 text-islamic-green" />
+            আজকের শব্দ অনুশীলন
+          </h2>
+          {currentStreak && (
+            <div className="flex items-center space-x-1 text-orange-600" title={`সর্বোচ্চ ${currentStreak.longest} দিন`}>
+              <Flame className="w-5 h-5" />
+              <span className="font-semibold">{currentStreak.current} দিন</span>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error || !queue ? (
+          <div className="flex items-center space-x-2 text-red-600">
+            <AlertCircle className="h-5 w-5" />
+            <span>শব্দ অনুশীলন লোড করা যায়নি।</span>
+          </div>
+        ) : session && card ? (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-3 text-sm text-gray-500">
+              <Progress value={(position / session.length) * 100} className="flex-1" />
+              <span>{position + 1}/{session.length}</span>
+            </div>
+
+            <Flashcard card={card} revealed={revealed} />
+
+            {revealed ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {REVIEW_GRADES.map((grade) => (
+                  <Button
+                    key={grade}
+                    variant="outline"
+                    className={`flex flex-col h-auto py-2 ${GRADE_STYLES[grade]}`}
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ card, grade })}
+                  >
+                    <span className="font-semibold">{REVIEW_GRADE_LABELS[grade]}</span>
+                    <span className="text-xs opacity-75">
+                      {intervalLabel(scheduleReview(card.schedule, grade, queue.today).interval_days)}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <Button className="w-full bg-islamic-green hover:bg-dark-green" onClick={() => setRevealed(true)}>
+                <Eye className="w-4 h-4 mr-2" />
+                অর্থ দেখুন
+              </Button>
+            )}
+          </div>
+        ) : queue.cards.length > 0 ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 bg-soft-mint rounded-lg">
+                <p className="text-2xl font-bold text-islamic-green">{queue.due_count}</p>
+                <p className="text-xs text-gray-600">পুনরালোচনা</p>
+              </div>
+              <div className="p-3 bg-soft-mint rounded-lg">
+                <p className="text-2xl font-bold text-islamic-green">{queue.new_count}</p>
+                <p className="text-xs text-gray-600">নতুন শব্দ</p>
+              </div>
+              <div className="p-3 bg-soft-mint rounded-lg">
+                <p className="text-2xl font-bold text-islamic-green">{queue.reviewed_today}</p>
+                <p className="text-xs text-gray-600">আজ অনুশীলিত</p>
+              </div>
+            </div>
+            <Button
+              className="w-full bg-islamic-green hover:bg-dark-green"
+              onClick={() => {
+                setSession(queue.cards);
+                setPosition(0);
+                setRevealed(false);
+              }}
+            >
+              অনুশীলন শুরু করুন
+            </Button>
+          </div>
+        ) : (
+          <div className="text-center py-6 text-gray-500">
+            <CheckCircle className="w-10 h-10 mx-auto mb-3 text-islamic-green opacity-75" />
+            {queue.deck_size > 0 ? (
+              <p>আজকের সব শব্দ অনুশীলন করা হয়েছে। আগামীকাল আবার আসুন!</p>
+            ) : (
+              <p>শব্দভান্ডার পাঠ শেষ করলে তার শব্দগুলো এখানে অনুশীলনের জন্য আসবে।</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  certificateDocumentUrl,
+  getCertificateCriteria,
+  getCurriculum,
+  getIssuedCertificates,
+  revokeCertificate,
+  setCertificateCriteria
+} from "@/lib/api";
+import {
+  certificateCriteriaSchema,
+  certificateRevocationSchema,
+  type Certificate,
+  type CertificateCriteria,
+  type CourseCertificateCriteria
+} from "@shared/certificates";
+import type { CurriculumModule } from "@shared/curriculum";
+import { X, Award, AlertCircle, ExternalLink, ChevronLeft, ChevronRight } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+interface CertificatesPanelProps {
+  onClose: () => void;
+}
+
+// Select value for a course without a final exam
+const NO_FINAL_EXAM = "none";
+
+const PAGE_SIZE = 20;
+
+const DEFAULT_CRITERIA: CertificateCriteria = {
+  min_attendance_percent: 75,
+  min_homework_average: 60,
+  final_exam_lesson_id: null,
+  min_final_exam_score: 60,
+  is_active: true
+};
+
+function CriteriaForm({ course, modules }: { course: CourseCertificateCriteria; modules: CurriculumModule[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const initial = course.criteria ?? DEFAULT_CRITERIA;
+  const [minAttendance, setMinAttendance] = useState(String(initial.min_attendance_percent));
+  const [minHomework, setMinHomework] = useState(String(initial.min_homework_average));
+  const [finalExamLessonId, setFinalExamLessonId] = useState(initial.final_exam_lesson_id ?? NO_FINAL_EXAM);
+  const [minFinalExam, setMinFinalExam] = useState(String(initial.min_final_exam_score));
+  const [isActive, setIsActive] = useState(initial.is_active);
+
+  // Only quiz lessons from the course's level can serve as its final exam
+  const quizLessons = modules
+    .filter((module) => module.level === course.level)
+    .flatMap((module) => module.units)
+    .flatMap((unit) => unit.lessons)
+    .filter((lesson) => lesson.lesson_type === 'quiz');
+
+  const saveMutation = useMutation({
+    mutationFn: (criteria: CertificateCriteria) => setCertificateCriteria(course.id, criteria),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['certificate-criteria'] });
+      toast({ title: "সার্টিফিকেটের শর্ত সংরক্ষিত হয়েছে", description: course.title_bn });
+    },
+    onError: (error) => {
+      console.error('Failed to save certificate criteria:', error);
+      toast({
+        title: "শর্ত সংরক্ষণ করতে ব্যর্থ",
+        description: error instanceof Error && error.message.includes('invalid-final-exam')
+          ? "চূড়ান্ত পরীক্ষা এই কোর্সের একটি কুইজ পাঠ হতে হবে।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSave = () => {
+    const payload = certificateCriteriaSchema.safeParse({
+      min_attendance_percent: Number(minAttendance),
+      min_homework_average: Number(minHomework),
+      final_exam_lesson_id: finalExamLessonId === NO_FINAL_EXAM ? null : finalExamLessonId,
+      min_final_exam_score: Number(minFinalExam),
+      is_active: isActive
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: "প্রতিটি শর্ত ০ থেকে ১০০-এর মধ্যে একটি পূর্ণ সংখ্যা হতে হবে।",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate(payload.data);
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-semibold">{course.title_bn}</p>
+          <p className="text-sm text-gray-500">{course.title} · লেভেল {course.level}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id={`certificate-active-${course.id}`} checked={isActive} onCheckedChange={setIsActive} />
+          <Label htmlFor={`certificate-active-${course.id}`}>সার্টিফিকেট চালু</Label>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor={`min-attendance-${course.id}`}>ন্যূনতম উপস্থিতি (%)</Label>
+          <Input
+            id={`min-attendance-${course.id}`}
+            type="number"
+            min={0}
+            max={100}
+            value={minAttendance}
+            onChange={(e) => setMinAttendance(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`min-homework-${course.id}`}>ন্যূনতম হোমওয়ার্ক গড় (%)</Label>
+          <Input
+            id={`min-homework-${course.id}`}
+            type="number"
+            min={0}
+            max={100}
+            value={minHomework}
+            onChange={(e) => setMinHomework(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>চূড়ান্ত পরীক্ষা</Label>
+          <Select value={finalExamLessonId} onValueChange={setFinalExamLessonId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_FINAL_EXAM}>কোনো চূড়ান্ত পরীক্ষা নেই</SelectItem>
+              {quizLessons.map((lesson) => (
+                <SelectItem key={lesson.id} value={lesson.id}>{lesson.title_bn || lesson.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`min-exam-${course.id}`}>পরীক্ষায় ন্যূনতম নম্বর (%)</Label>
+          <Input
+            id={`min-exam-${course.id}`}
+            type="number"
+            min={0}
+            max={100}
+            value={minFinalExam}
+            onChange={(e) => setMinFinalExam(e.target.value)}
+            disabled={finalExamLessonId === NO_FINAL_EXAM}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'সংরক্ষণ করা হচ্ছে...' : 'শর্ত সংরক্ষণ করুন'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function IssuedCertificateRow({ certificate }: { certificate: Certificate }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+  const [revokeConfirm, setRevokeConfirm] = useState(false);
+
+  const revokeMutation = useMutation({
+    mutationFn: (validReason: string) => revokeCertificate(certificate.serial, validReason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['issued-certificates'] });
+      toast({ title: "সার্টিফিকেট বাতিল করা হয়েছে", description: certificate.serial });
+      setReason("");
+    },
+    onError: (error) => {
+      console.error('Failed to revoke certificate:', error);
+      toast({ title: "সার্টিফিকেট বাতিল করতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const handleRevoke = () => {
+    const payload = certificateRevocationSchema.safeParse({ reason });
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: payload.error.issues[0]?.message ?? "বাতিলের কারণ লিখুন",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (revokeConfirm) {
+      revokeMutation.mutate(payload.data.reason);
+    } else {
+      setRevokeConfirm(true);
+      setTimeout(() => setRevokeConfirm(false), 3000);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center space-x-3">
+            <span className="font-mono font-semibold">{certificate.serial}</span>
+            {certificate.revoked_at
+              ? <Badge variant="destructive">বাতিল</Badge>
+              : <Badge className="bg-green-100 text-green-800">বৈধ</Badge>}
+          </div>
+          <p className="text-sm text-gray-600">
+            {certificate.student_name} · {certificate.course_title_bn}
+            {" · "}{format(new Date(certificate.issued_at), "dd MMM yyyy", { locale: bn })}
+          </p>
+          {certificate.revoked_reason && (
+            <p className="text-sm text-red-600">কারণ: {certificate.revoked_reason}</p>
+          )}
+        </div>
+        <Button size="sm" variant="ghost" asChild>
+          <a href={certificateDocumentUrl(certificate.serial)} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="h-4 w-4" />
+          </a>
+        </Button>
+      </div>
+      {!certificate.revoked_at && (
+        <div className="flex space-x-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="বাতিলের কারণ"
+            maxLength={500}
+          />
+          <Button
+            size="sm"
+            variant={revokeConfirm ? "destructive" : "outline"}
+            onClick={handleRevoke}
+            disabled={revokeMutation.isPending}
+          >
+            {revokeConfirm ? 'নিশ্চিত করুন' : 'বাতিল করুন'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CertificatesPanel({ onClose }: CertificatesPanelProps) {
+  const [page, setPage] = useState(1);
+
+  const { data: courses = [], isLoading: criteriaLoading, error: criteriaError } = useQuery({
+    queryKey: ['certificate-criteria'],
+    queryFn: getCertificateCriteria
+  });
+
+  const { data: modules = [] } = useQuery({
+    queryKey: ['curriculum', 'authoring'],
+    queryFn: () => getCurriculum({ includeInactive: true })
+  });
+
+  const { data: issued, isLoading: issuedLoading, error: issuedError } = useQuery({
+    queryKey: ['issued-certificates', page],
+    queryFn: () => getIssuedCertificates(page, PAGE_SIZE)
+  });
+  const certificates = issued?.data ?? [];
+  const totalPages = issued?.pagination.totalPages ?? 1;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl font-semibold text-islamic-green">
+              সার্টিফিকেট
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          <section className="space-y-3">
+            <h3 className="font-semibold">কোর্সভিত্তিক শর্ত</h3>
+            {criteriaLoading ? (
+              <div className="text-center py-8">কোর্সের তালিকা লোড হচ্ছে...</div>
+            ) : criteriaError ? (
+              <div className="text-center py-8 text-red-600">
+                <AlertCircle className="h-10 w-10 mx-auto mb-3" />
+                শর্তগুলো লোড করতে ব্যর্থ
+              </div>
+            ) : (
+              courses.map((course) => <CriteriaForm key={course.id} course={course} modules={modules} />)
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold">প্রদত্ত সার্টিফিকেট</h3>
+            {issuedLoading ? (
+              <div className="text-center py-8">সার্টিফিকেটের তালিকা লোড হচ্ছে...</div>
+            ) : issuedError ? (
+              <div className="text-center py-8 text-red-600">
+                <AlertCircle className="h-10 w-10 mx-auto mb-3" />
+                সার্টিফিকেটের তালিকা লোড করতে ব্যর্থ
+              </div>
+            ) : certificates.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <Award className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+                <p className="text-lg">এখনো কোনো সার্টিফিকেট প্রদান করা হয়নি</p>
+              </div>
+            ) : (
+              <>
+                {certificates.map((certificate) => (
+                  <IssuedCertificateRow key={certificate.id} certificate={certificate} />
+                ))}
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-center space-x-3">
+                    <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="text-sm text-gray-600">{page} / {totalPages}</span>
+                    <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createCoupon, getCoupons, getCourseCatalog, updateCoupon } from "@/lib/api";
+import { couponPayloadSchema, type Coupon, type CouponDiscountType } from "@shared/pricing";
+import { X, Tag, Plus, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+interface CouponsPanelProps {
+  onClose: () => void;
+}
+
+// Select value for coupons valid on every course
+const ALL_PRODUCTS = "all";
+
+function couponState(coupon: Coupon): { label: string; active: boolean } {
+  if (!coupon.is_active) return { label: 'নিষ্ক্রিয়', active: false };
+  if (coupon.expires_at && new Date(coupon.expires_at) <= new Date()) return { label: 'মেয়াদোত্তীর্ণ', active: false };
+  if (coupon.max_uses !== null && coupon.used_count >= coupon.max_uses) return { label: 'সীমা শেষ', active: false };
+  return { label: 'সক্রিয়', active: true };
+}
+
+export default function CouponsPanel({ onClose }: CouponsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+  const [discountType, setDiscountType] = useState<CouponDiscountType>('percent');
+  const [discountValue, setDiscountValue] = useState("");
+  const [productId, setProductId] = useState(ALL_PRODUCTS);
+  const [maxUses, setMaxUses] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['coupons'],
+    queryFn: getCoupons
+  });
+  const coupons = data?.data ?? [];
+
+  const { data: catalog = [] } = useQuery({
+    queryKey: ['course-catalog'],
+    queryFn: getCourseCatalog
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createCoupon,
+    onSuccess: (coupon) => {
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      toast({
+        title: "কুপন তৈরি হয়েছে",
+        description: `${coupon.code} এখন ব্যবহার করা যাবে।`,
+      });
+      setCode("");
+      setDiscountValue("");
+      setMaxUses("");
+      setExpiresOn("");
+    },
+    onError: (error) => {
+      console.error('Failed to create coupon:', error);
+      toast({
+        title: "কুপন তৈরি করতে ব্যর্থ",
+        description: error instanceof Error && error.message.startsWith('409')
+          ? "এই কোডের একটি কুপন ইতিমধ্যে আছে।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (coupon: Coupon) => updateCoupon(coupon.id, { is_active: !coupon.is_active }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['coupons'] }),
+    onError: (error) => {
+      console.error('Failed to update coupon:', error);
+      toast({
+        title: "কুপন পরিবর্তন করতে ব্যর্থ",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleCreate = () => {
+    const payload = couponPayloadSchema.safeParse({
+      code,
+      discount_type: discountType,
+      discount_value: Number(discountValue),
+      product_id: productId === ALL_PRODUCTS ? null : productId,
+      max_uses: maxUses ? Number(maxUses) : null,
+      // Valid through the end of the chosen day
+      expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: "কোড (৩-৪০ অক্ষর), ছাড়ের পরিমাণ (শতাংশ হলে ১০০-এর বেশি নয়) এবং সীমা যাচাই করুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    createMutation.mutate(payload.data);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl font-semibold text-islamic-green">
+              কুপন ও ছাড়
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-gray-50 rounded-lg">
+            <div>
+              <Label htmlFor="coupon-code">কোড</Label>
+              <Input
+                id="coupon-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="RAMADAN25"
+                maxLength={40}
+              />
+            </div>
+            <div>
+              <Label>ছাড়ের ধরন</Label>
+              <Select value={discountType} onValueChange={(value) => setDiscountType(value as CouponDiscountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">শতাংশ (%)</SelectItem>
+                  <SelectItem value="fixed">নির্দিষ্ট টাকা</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="coupon-value">ছাড়ের পরিমাণ</Label>
+              <Input
+                id="coupon-value"
+                type="number"
+                min={1}
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>কোর্স</Label>
+              <Select value={productId} onValueChange={setProductId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PRODUCTS}>সকল কোর্স</SelectItem>
+                  {catalog.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>{product.title_bn}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="coupon-max-uses">সর্বোচ্চ ব্যবহার (ঐচ্ছিক)</Label>
+              <Input
+                id="coupon-max-uses"
+                type="number"
+                min={1}
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="coupon-expires">মেয়াদ শেষ (ঐচ্ছিক)</Label>
+              <Input
+                id="coupon-expires"
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-3 flex justify-end">
+              <Button
+                className="bg-islamic-green hover:bg-dark-green"
+                onClick={handleCreate}
+                disabled={createMutation.isPending}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                কুপন তৈরি করুন
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-12">কুপনের তালিকা লোড হচ্ছে...</div>
+          ) : error ? (
+            <div className="text-center py-12 text-red-600">
+              <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+              কুপনের তালিকা লোড করতে ব্যর্থ
+            </div>
+          ) : coupons.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Tag className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+              <p className="text-lg">এখনো কোনো কুপন নেই</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {coupons.map((coupon) => {
+                const state = couponState(coupon);
+                return (
+                  <div key={coupon.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-3">
+                        <span className="font-mono font-semibold">{coupon.code}</span>
+                        <Badge variant={state.active ? "default" : "secondary"}>{state.label}</Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {coupon.discount_type === 'percent' ? `${coupon.discount_value}% ছাড়` : `৳${coupon.discount_value} ছাড়`}
+                        {" · "}ব্যবহার: {coupon.used_count}{coupon.max_uses !== null && `/${coupon.max_uses}`}
+                        {coupon.expires_at && ` · মেয়াদ: ${format(new Date(coupon.expires_at), "dd MMM yyyy", { locale: bn })}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => toggleMutation.mutate(coupon)}
+                      disabled={toggleMutation.isPending}
+                    >
+                      {coupon.is_active ? 'নিষ্ক্রিয় করুন' : 'সক্রিয় করুন'}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,24 +9,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { createLiveClass, getCourseModules, getAllInstructors } from "@/lib/api";
+import { createLiveClass, getCourseModules, getAllInstructors, getCurriculum } from "@/lib/api";
 import { Calendar, Clock, Users, X } from "lucide-react";
 import { format } from "date-fns";
-
-const createClassSchema = z.object({
-  title: z.string().min(1, "ইংরেজি শিরোনাম প্রয়োজন"),
-  title_bn: z.string().min(1, "বাংলা শিরোনাম প্রয়োজন"),
-  description: z.string().optional(),
-  description_bn: z.string().optional(),
-  module_id: z.string().optional(),
-  instructor_id: z.string().optional(),
-  scheduled_at: z.string().min(1, "ক্লাসের তারিখ ও সময় প্রয়োজন"),
-  duration: z.number().min(30, "কমপক্ষে ৩০ মিনিট").max(180, "সর্বোচ্চ ১৮০ মিনিট"),
-  max_participants: z.number().min(1).max(100),
-  is_active: z.boolean().default(true)
-});
-
-type CreateClassFormData = z.infer<typeof createClassSchema>;
+import { createClassSchema, type CreateClassFormData } from "@shared/classes";
 
 interface CreateClassFormProps {
   onClose: () => void;
@@ -46,6 +31,7 @@ export default function CreateClassForm({ onClose, onSuccess }: CreateClassFormP
       description: "",
       description_bn: "",
       module_id: "",
+      lesson_id: "",
       instructor_id: "",
       scheduled_at: "",
       duration: 90,
@@ -65,6 +51,15 @@ export default function CreateClassForm({ onClose, onSuccess }: CreateClassFormP
     queryFn: getAllInstructors
   });
 
+  // Lessons of the chosen module, so the class can teach a specific one
+  const moduleId = form.watch("module_id");
+  const { data: curriculum = [] } = useQuery({
+    queryKey: ['curriculum', moduleId],
+    queryFn: () => getCurriculum({ moduleId }),
+    enabled: !!moduleId
+  });
+  const units = curriculum[0]?.units ?? [];
+
   const createClassMutation = useMutation({
     mutationFn: createLiveClass,
     onSuccess: () => {
@@ -89,7 +84,10 @@ export default function CreateClassForm({ onClose, onSuccess }: CreateClassFormP
   const onSubmit = (data: CreateClassFormData) => {
     createClassMutation.mutate({
       ...data,
+      // datetime-local has no zone; send the instant the admin picked
+      scheduled_at: new Date(data.scheduled_at).toISOString(),
       module_id: data.module_id || null,
+      lesson_id: data.lesson_id || null,
       instructor_id: data.instructor_id || null,
       description: data.description || null,
       description_bn: data.description_bn || null,
@@ -173,7 +171,12 @@ export default function CreateClassForm({ onClose, onSuccess }: CreateClassFormP
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="module_id">কোর্স মডিউল</Label>
-                  <Select onValueChange={(value) => form.setValue("module_id", value)}>
+                  <Select
+                    onValueChange={(value) => {
+                      form.setValue("module_id", value);
+                      form.setValue("lesson_id", "");
+                    }}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="মডিউল নির্বাচন করুন" />
                     </SelectTrigger>
@@ -187,6 +190,26 @@ export default function CreateClassForm({ onClose, onSuccess }: CreateClassFormP
                   </Select>
                 </div>
 
+                <div>
+                  <Label htmlFor="lesson_id">পাঠ</Label>
+                  <Select
+                    key={moduleId}
+                    onValueChange={(value) => form.setValue("lesson_id", value)}
+                    disabled={!moduleId || units.length === 0}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={moduleId ? "পাঠ নির্বাচন করুন (ঐচ্ছিক)" : "আগে মডিউল নির্বাচন করুন"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {units.map((unit) => unit.lessons.map((lesson) => (
+                        <SelectItem key={lesson.id} value={lesson.id}>
+                          {unit.title_bn || unit.title} › {lesson.title_bn || lesson.title}
+                        </SelectItem>
+                      )))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div>
                   <Label htmlFor="instructor_id">প্রশিক্ষক</Label>
                   <Select onValueChange={(value) => form.setValue("instructor_id", value)}>
@@ -0,0 +1,543 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createCourseModule,
+  createCourseUnit,
+  deleteCourseUnit,
+  getCurriculum,
+  getModuleProgressWeights,
+  setModuleProgressWeights,
+  updateCourseModule,
+  updateCourseUnit
+} from "@/lib/api";
+import {
+  LESSON_TYPE_LABELS,
+  modulePayloadSchema,
+  unitPayloadSchema,
+  type CurriculumModule,
+  type CurriculumUnit,
+  type ModulePayload,
+  type UnitPayload
+} from "@shared/curriculum";
+import {
+  PROGRESS_COMPONENTS,
+  PROGRESS_COMPONENT_LABELS,
+  progressWeightsSchema,
+  type ProgressWeights
+} from "@shared/progress";
+import { can } from "@shared/rbac";
+import LessonEditor from "./LessonEditor";
+import { X, Plus, BookOpen, Layers, FileText, Trash2, AlertCircle } from "lucide-react";
+
+interface CurriculumPanelProps {
+  onClose: () => void;
+}
+
+// What the editor on the right shows; a null id creates a new entry
+type Selection =
+  | { kind: 'module'; id: string | null }
+  | { kind: 'unit'; id: string | null; moduleId: string }
+  | { kind: 'lesson'; id: string | null; unitId: string };
+
+function ModuleForm({ module, onSaved }: { module: CurriculumModule | null; onSaved: (id: string) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState(module?.title ?? "");
+  const [titleBn, setTitleBn] = useState(module?.title_bn ?? "");
+  const [descriptionBn, setDescriptionBn] = useState(module?.description_bn ?? "");
+  const [level, setLevel] = useState(String(module?.level ?? 1));
+  const [order, setOrder] = useState(String(module?.order ?? 0));
+  const [isActive, setIsActive] = useState(module?.is_active ?? true);
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: ModulePayload) => module ? updateCourseModule(module.id, payload) : createCourseModule(payload),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['curriculum'] });
+      queryClient.invalidateQueries({ queryKey: ['course-modules'] });
+      toast({ title: "মডিউল সংরক্ষিত হয়েছে", description: saved.title_bn || saved.title });
+      onSaved(saved.id);
+    },
+    onError: (error) => {
+      console.error('Failed to save course module:', error);
+      toast({ title: "মডিউল সংরক্ষণ করতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const handleSave = () => {
+    const payload = modulePayloadSchema.safeParse({
+      title,
+      title_bn: titleBn,
+      description_bn: descriptionBn.trim() || null,
+      level: Number(level),
+      order: Number(order),
+      is_active: isActive
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: payload.error.issues[0]?.message ?? "মডিউলের তথ্য যাচাই করুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate(payload.data);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="module-title">ইংরেজি শিরোনাম *</Label>
+          <Input id="module-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="module-title-bn">বাংলা শিরোনাম *</Label>
+          <Input id="module-title-bn" value={titleBn} onChange={(e) => setTitleBn(e.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="module-description">বিবরণ</Label>
+        <Textarea id="module-description" rows={3} value={descriptionBn} onChange={(e) => setDescriptionBn(e.target.value)} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="module-level">স্তর *</Label>
+          <Input id="module-level" type="number" min={1} value={level} onChange={(e) => setLevel(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="module-order">ক্রম</Label>
+          <Input id="module-order" type="number" min={0} value={order} onChange={(e) => setOrder(e.target.value)} />
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Switch id="module-active" checked={isActive} onCheckedChange={setIsActive} />
+          <Label htmlFor="module-active">সক্রিয়</Label>
+        </div>
+      </div>
+      <div className="flex justify-end pt-4 border-t">
+        <Button className="bg-islamic-green hover:bg-dark-green" onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'সংরক্ষণ করা হচ্ছে...' : 'মডিউল সংরক্ষণ করুন'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ProgressWeightsForm({ moduleId, weights }: { moduleId: string; weights: ProgressWeights }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fields, setFields] = useState<Record<keyof ProgressWeights, string>>({
+    lessons: String(weights.lessons),
+    attendance: String(weights.attendance),
+    homework: String(weights.homework),
+    quiz: String(weights.quiz),
+    min_attendance_minutes: String(weights.min_attendance_minutes)
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: ProgressWeights) => setModuleProgressWeights(moduleId, payload),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['progress-weights', moduleId], saved);
+      queryClient.invalidateQueries({ queryKey: ['course-progress'] });
+      toast({ title: "অগ্রগতির ভার সংরক্ষিত হয়েছে" });
+    },
+    onError: (error) => {
+      console.error('Failed to save progress weights:', error);
+      toast({ title: "ভার সংরক্ষণ করতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const handleSave = () => {
+    const payload = progressWeightsSchema.safeParse({
+      lessons: Number(fields.lessons),
+      attendance: Number(fields.attendance),
+      homework: Number(fields.homework),
+      quiz: Number(fields.quiz),
+      min_attendance_minutes: Number(fields.min_attendance_minutes)
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: payload.error.issues[0]?.message ?? "ভারগুলো যাচাই করুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate(payload.data);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        এই মডিউলের অগ্রগতিতে প্রতিটি উপাদান কতটা গণ্য হবে। ভারগুলো আপেক্ষিক; যোগফল ১০০ হওয়ার প্রয়োজন নেই।
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {PROGRESS_COMPONENTS.map((component) => (
+          <div key={component} className="space-y-2">
+            <Label htmlFor={`weight-${component}`}>{PROGRESS_COMPONENT_LABELS[component]}</Label>
+            <Input
+              id={`weight-${component}`}
+              type="number"
+              min={0}
+              max={100}
+              value={fields[component]}
+              onChange={(e) => setFields({ ...fields, [component]: e.target.value })}
+            />
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Label htmlFor="weight-min-attendance">ন্যূনতম উপস্থিতি (মিনিট)</Label>
+          <Input
+            id="weight-min-attendance"
+            type="number"
+            min={0}
+            value={fields.min_attendance_minutes}
+            onChange={(e) => setFields({ ...fields, min_attendance_minutes: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'সংরক্ষণ করা হচ্ছে...' : 'ভার সংরক্ষণ করুন'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ModuleProgressWeights({ moduleId }: { moduleId: string }) {
+  const { data: weights, isLoading, error } = useQuery({
+    queryKey: ['progress-weights', moduleId],
+    queryFn: () => getModuleProgressWeights(moduleId)
+  });
+
+  return (
+    <div className="space-y-4 pt-6 border-t">
+      <h3 className="text-lg font-medium">অগ্রগতির ভার</h3>
+      {isLoading ? (
+        <Skeleton className="h-20 w-full" />
+      ) : error || !weights ? (
+        <p className="text-sm text-red-600">ভার লোড করতে ব্যর্থ</p>
+      ) : (
+        <ProgressWeightsForm moduleId={moduleId} weights={weights} />
+      )}
+    </div>
+  );
+}
+
+function UnitForm({ unit, moduleId, canDelete, onSaved, onDeleted }: {
+  unit: CurriculumUnit | null;
+  moduleId: string;
+  canDelete: boolean;
+  onSaved: (id: string) => void;
+  onDeleted: () => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState(unit?.title ?? "");
+  const [titleBn, setTitleBn] = useState(unit?.title_bn ?? "");
+  const [descriptionBn, setDescriptionBn] = useState(unit?.description_bn ?? "");
+  const [order, setOrder] = useState(String(unit?.order ?? 0));
+  const [isActive, setIsActive] = useState(unit?.is_active ?? true);
+  const [deleteConfirm, setDeleteConfirm] = useState(false);
+
+  const saveMutation = useMutation({
+    mutationFn: ({ module_id, ...updates }: UnitPayload) => unit ? updateCourseUnit(unit.id, updates) : createCourseUnit({ module_id, ...updates }),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['curriculum'] });
+      toast({ title: "ইউনিট সংরক্ষিত হয়েছে", description: saved.title_bn || saved.title });
+      onSaved(saved.id);
+    },
+    onError: (error) => {
+      console.error('Failed to save course unit:', error);
+      toast({ title: "ইউনিট সংরক্ষণ করতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteCourseUnit(unit?.id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['curriculum'] });
+      toast({ title: "ইউনিট মুছে ফেলা হয়েছে" });
+      onDeleted();
+    },
+    onError: (error) => {
+      console.error('Failed to delete course unit:', error);
+      toast({ title: "ইউনিট মুছতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const handleSave = () => {
+    const payload = unitPayloadSchema.safeParse({
+      module_id: moduleId,
+      title,
+      title_bn: titleBn,
+      description_bn: descriptionBn.trim() || null,
+      order: Number(order),
+      is_active: isActive
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: payload.error.issues[0]?.message ?? "ইউনিটের তথ্য যাচাই করুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate(payload.data);
+  };
+
+  const handleDelete = () => {
+    if (deleteConfirm) {
+      deleteMutation.mutate();
+    } else {
+      setDeleteConfirm(true);
+      setTimeout(() => setDeleteConfirm(false), 3000);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="unit-title">ইংরেজি শিরোনাম *</Label>
+          <Input id="unit-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="unit-title-bn">বাংলা শিরোনাম *</Label>
+          <Input id="unit-title-bn" value={titleBn} onChange={(e) => setTitleBn(e.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="unit-description">বিবরণ</Label>
+        <Textarea id="unit-description" rows={3} value={descriptionBn} onChange={(e) => setDescriptionBn(e.target.value)} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="unit-order">ক্রম</Label>
+          <Input id="unit-order" type="number" min={0} value={order} onChange={(e) => setOrder(e.target.value)} />
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Switch id="unit-active" checked={isActive} onCheckedChange={setIsActive} />
+          <Label htmlFor="unit-active">সক্রিয়</Label>
+        </div>
+      </div>
+      <div className="flex justify-between pt-4 border-t">
+        {unit && canDelete ? (
+          <Button
+            variant="outline"
+            className={deleteConfirm ? "bg-red-100 text-red-600 border-red-200" : "text-red-600 border-red-200 hover:bg-red-50"}
+            onClick={handleDelete}
+            disabled={deleteMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            {deleteConfirm ? 'আবার ক্লিক করলে সব পাঠসহ মুছে যাবে' : 'মুছে ফেলুন'}
+          </Button>
+        ) : <span />}
+        <Button className="bg-islamic-green hover:bg-dark-green" onClick={handleSave} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'সংরক্ষণ করা হচ্ছে...' : 'ইউনিট সংরক্ষণ করুন'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function CurriculumPanel({ onClose }: CurriculumPanelProps) {
+  const { profile } = useAuth();
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const canCreate = can(profile, 'create', 'course-content');
+  const canDelete = can(profile, 'delete', 'course-content');
+
+  const { data: curriculum = [], isLoading, error } = useQuery({
+    queryKey: ['curriculum', 'authoring'],
+    queryFn: () => getCurriculum({ includeInactive: true })
+  });
+
+  const modules = curriculum;
+  const units = modules.flatMap((module) => module.units);
+  const selected = (kind: Selection['kind'], id: string) => selection?.kind === kind && selection.id === id;
+
+  const editorTitle = !selection ? "" : {
+    module: selection.id ? "মডিউল সম্পাদনা" : "নতুন মডিউল",
+    unit: selection.id ? "ইউনিট সম্পাদনা" : "নতুন ইউনিট",
+    lesson: selection.id ? "পাঠ সম্পাদনা" : "নতুন পাঠ"
+  }[selection.kind];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-6xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl font-semibold text-islamic-green">
+              পাঠ্যক্রম
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-[20rem_1fr] gap-6">
+            {/* Outline */}
+            <div className="space-y-3">
+              {canCreate && (
+                <Button variant="outline" size="sm" className="w-full" onClick={() => setSelection({ kind: 'module', id: null })}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  নতুন মডিউল
+                </Button>
+              )}
+
+              {isLoading ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </div>
+              ) : error ? (
+                <div className="text-center py-8 text-red-600">
+                  <AlertCircle className="h-8 w-8 mx-auto mb-2" />
+                  পাঠ্যক্রম লোড করতে ব্যর্থ
+                </div>
+              ) : modules.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">এখনো কোনো মডিউল নেই</p>
+              ) : (
+                modules.map((module) => (
+                  <div key={module.id} className="border border-gray-200 rounded-lg">
+                    <button
+                      type="button"
+                      className={`w-full flex items-center justify-between p-2 text-left rounded-t-lg ${selected('module', module.id) ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                      onClick={() => setSelection({ kind: 'module', id: module.id })}
+                    >
+                      <span className="flex items-center font-medium">
+                        <BookOpen className="h-4 w-4 mr-2 text-islamic-green" />
+                        {module.title_bn || module.title}
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        {!module.is_active && <Badge variant="secondary">নিষ্ক্রিয়</Badge>}
+                        <Badge variant="outline">স্তর {module.level}</Badge>
+                      </span>
+                    </button>
+
+                    <div className="pl-4 pr-2 pb-2 space-y-1">
+                      {module.units.map((unit) => (
+                        <div key={unit.id}>
+                          <button
+                            type="button"
+                            className={`w-full flex items-center justify-between p-1.5 text-sm text-left rounded ${selected('unit', unit.id) ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                            onClick={() => setSelection({ kind: 'unit', id: unit.id, moduleId: module.id })}
+                          >
+                            <span className="flex items-center">
+                              <Layers className="h-4 w-4 mr-2 text-gray-500" />
+                              {unit.title_bn || unit.title}
+                            </span>
+                            {!unit.is_active && <Badge variant="secondary">নিষ্ক্রিয়</Badge>}
+                          </button>
+                          <div className="pl-6 space-y-0.5">
+                            {unit.lessons.map((lesson) => (
+                              <button
+                                key={lesson.id}
+                                type="button"
+                                className={`w-full flex items-center justify-between p-1.5 text-sm text-left rounded ${selected('lesson', lesson.id) ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+                                onClick={() => setSelection({ kind: 'lesson', id: lesson.id, unitId: unit.id })}
+                              >
+                                <span className="flex items-center">
+                                  <FileText className="h-3.5 w-3.5 mr-2 text-gray-400" />
+                                  {lesson.title_bn || lesson.title}
+                                </span>
+                                <span className="flex items-center space-x-1">
+                                  {lesson.prerequisites.length > 0 && <Badge variant="outline">{lesson.prerequisites.length} শর্ত</Badge>}
+                                  <Badge variant={lesson.is_active ? "outline" : "secondary"}>{LESSON_TYPE_LABELS[lesson.lesson_type]}</Badge>
+                                </span>
+                              </button>
+                            ))}
+                            {canCreate && (
+                              <button
+                                type="button"
+                                className="w-full flex items-center p-1.5 text-xs text-islamic-green hover:underline"
+                                onClick={() => setSelection({ kind: 'lesson', id: null, unitId: unit.id })}
+                              >
+                                <Plus className="h-3 w-3 mr-1" />
+                                পাঠ যোগ করুন
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                      {canCreate && (
+                        <button
+                          type="button"
+                          className="w-full flex items-center p-1.5 text-xs text-islamic-green hover:underline"
+                          onClick={() => setSelection({ kind: 'unit', id: null, moduleId: module.id })}
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          ইউনিট যোগ করুন
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Editor */}
+            <div>
+              {!selection ? (
+                <div className="text-center py-16 text-gray-500">
+                  <BookOpen className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+                  <p>সম্পাদনার জন্য বাম দিক থেকে একটি মডিউল, ইউনিট বা পাঠ নির্বাচন করুন</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium">{editorTitle}</h3>
+                  {selection.kind === 'module' && (
+                    <ModuleForm
+                      key={selection.id ?? 'new'}
+                      module={modules.find((module) => module.id === selection.id) ?? null}
+                      onSaved={(id) => setSelection({ kind: 'module', id })}
+                    />
+                  )}
+                  {selection.kind === 'module' && selection.id && (
+                    <ModuleProgressWeights key={selection.id} moduleId={selection.id} />
+                  )}
+                  {selection.kind === 'unit' && (
+                    <UnitForm
+                      key={selection.id ?? `new-${selection.moduleId}`}
+                      unit={units.find((unit) => unit.id === selection.id) ?? null}
+                      moduleId={selection.moduleId}
+                      canDelete={canDelete}
+                      onSaved={(id) => setSelection({ kind: 'unit', id, moduleId: selection.moduleId })}
+                      onDeleted={() => setSelection(null)}
+                    />
+                  )}
+                  {selection.kind === 'lesson' && (
+                    <LessonEditor
+                      key={selection.id ?? `new-${selection.unitId}`}
+                      lessonId={selection.id}
+                      unitId={selection.unitId}
+                      curriculum={modules}
+                      canDelete={canDelete}
+                      onSaved={(id) => setSelection({ kind: 'lesson', id, unitId: selection.unitId })}
+                      onDeleted={() => setSelection(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
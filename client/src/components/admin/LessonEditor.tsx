@@ -0,0 +1,622 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createLesson, deleteLesson, getLesson, setLessonPrerequisites, updateLesson } from "@/lib/api";
+import {
+  LESSON_TYPES,
+  LESSON_TYPE_LABELS,
+  lessonPayloadSchema,
+  type CurriculumModule,
+  type LessonPayload,
+  type LessonPrerequisite,
+  type LessonType,
+  type VocabularyWord
+} from "@shared/curriculum";
+import { DIALECT_LABELS, SPOKEN_DIALECTS, type DialectVariant } from "@shared/dialects";
+import {
+  ARABIC_ALPHABET,
+  LETTER_FORMS,
+  LETTER_FORM_LABELS,
+  letterForms,
+  type HandwritingTarget
+} from "@shared/handwriting";
+import QuizQuestionsEditor from "./QuizQuestionsEditor";
+import { Plus, Trash2 } from "lucide-react";
+
+interface LessonEditorProps {
+  // Null for a new lesson in `unitId`
+  lessonId: string | null;
+  unitId: string;
+  curriculum: CurriculumModule[];
+  canDelete: boolean;
+  onSaved: (lessonId: string) => void;
+  onDeleted: () => void;
+}
+
+// Form state for `lessons.content`; numbers are kept as typed and converted on save
+type ContentFields = Record<string, string>;
+
+const EMPTY_WORD: VocabularyWord = { arabic: "", transliteration: "", meaning_bn: "" };
+
+// Position of a letter form in alphabetical order, for sorting
+function formRank({ letter, form }: HandwritingTarget): number {
+  return ARABIC_ALPHABET.findIndex((entry) => entry.letter === letter) * LETTER_FORMS.length + LETTER_FORMS.indexOf(form);
+}
+
+/**
+ * `lessons.content` for the chosen type from the form fields; blank optional
+ * fields are left out so the schema defaults apply
+ */
+function toContent(type: LessonType, fields: ContentFields, words: VocabularyWord[], letters: HandwritingTarget[]): unknown {
+  const text = (key: string) => fields[key]?.trim() || undefined;
+  const number = (key: string) => (fields[key]?.trim() ? Number(fields[key]) : undefined);
+
+  switch (type) {
+    case 'video':
+      return { video_url: text('video_url'), transcript_bn: text('transcript_bn') };
+    case 'reading':
+      return { body_bn: text('body_bn'), body_ar: text('body_ar') };
+    case 'vocabulary':
+      return {
+        words: words
+          .filter((word) => word.arabic.trim() || word.meaning_bn.trim())
+          .map((word) => ({
+            arabic: word.arabic,
+            meaning_bn: word.meaning_bn,
+            transliteration: word.transliteration?.trim() || undefined,
+            audio_url: word.audio_url?.trim() || undefined,
+            variants: word.variants
+              ?.filter((variant) => variant.arabic.trim())
+              .map((variant) => ({
+                dialect: variant.dialect,
+                arabic: variant.arabic,
+                transliteration: variant.transliteration?.trim() || undefined,
+                audio_url: variant.audio_url?.trim() || undefined
+              }))
+          }))
+      };
+    case 'quiz':
+      return {
+        instructions_bn: text('instructions_bn'),
+        pass_score: number('pass_score'),
+        time_limit_minutes: number('time_limit_minutes'),
+        max_attempts: number('max_attempts'),
+        questions_per_attempt: number('questions_per_attempt')
+      };
+    case 'quran_recitation':
+      return {
+        surah: number('surah'),
+        ayah_from: number('ayah_from'),
+        ayah_to: number('ayah_to'),
+        audio_url: text('audio_url'),
+        text_ar: text('text_ar'),
+        notes_bn: text('notes_bn')
+      };
+    case 'handwriting':
+      return {
+        letters: [...letters].sort((a, b) => formRank(a) - formRank(b)),
+        instructions_bn: text('instructions_bn')
+      };
+  }
+}
+
+export default function LessonEditor({ lessonId, unitId, curriculum, canDelete, onSaved, onDeleted }: LessonEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [titleBn, setTitleBn] = useState("");
+  const [descriptionBn, setDescriptionBn] = useState("");
+  const [lessonType, setLessonType] = useState<LessonType>('reading');
+  const [minutes, setMinutes] = useState("15");
+  const [order, setOrder] = useState("0");
+  const [isActive, setIsActive] = useState(true);
+  const [fields, setFields] = useState<ContentFields>({});
+  const [words, setWords] = useState<VocabularyWord[]>([{ ...EMPTY_WORD }]);
+  const [letters, setLetters] = useState<HandwritingTarget[]>([]);
+  const [prerequisites, setPrerequisites] = useState<LessonPrerequisite[]>([]);
+  const [deleteConfirm, setDeleteConfirm] = useState(false);
+
+  const { data: lesson, isLoading } = useQuery({
+    queryKey: ['curriculum-lesson', lessonId],
+    queryFn: () => getLesson(lessonId as string),
+    enabled: !!lessonId
+  });
+
+  useEffect(() => {
+    if (!lesson) return;
+    const content = lesson.content as Record<string, unknown>;
+    setTitle(lesson.title);
+    setTitleBn(lesson.title_bn ?? "");
+    setDescriptionBn(lesson.description_bn ?? "");
+    setLessonType(lesson.lesson_type);
+    setMinutes(String(lesson.estimated_minutes));
+    setOrder(String(lesson.order));
+    setIsActive(lesson.is_active);
+    setFields(Object.fromEntries(
+      Object.entries(content)
+        .filter(([key, value]) => !Array.isArray(value) && value !== null && value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+    ));
+    setWords(Array.isArray(content.words) && content.words.length > 0 ? content.words as VocabularyWord[] : [{ ...EMPTY_WORD }]);
+    setLetters(Array.isArray(content.letters) ? content.letters as HandwritingTarget[] : []);
+    setPrerequisites(lesson.prerequisites);
+  }, [lesson]);
+
+  // Every other lesson may be a prerequisite; the server refuses cycles
+  const candidates = curriculum.flatMap((module) => module.units.flatMap((unit) => unit.lessons
+    .filter((candidate) => candidate.id !== lessonId)
+    .map((candidate) => ({ ...candidate, path: `${module.title_bn || module.title} › ${unit.title_bn || unit.title}` }))));
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: LessonPayload) => {
+      const { unit_id, ...updates } = payload;
+      const saved = lessonId ? await updateLesson(lessonId, updates) : await createLesson(payload);
+      await setLessonPrerequisites(saved.id, prerequisites);
+      return saved;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['curriculum'] });
+      queryClient.invalidateQueries({ queryKey: ['curriculum-lesson', saved.id] });
+      toast({
+        title: "পাঠ সংরক্ষিত হয়েছে",
+        description: saved.title_bn || saved.title,
+      });
+      onSaved(saved.id);
+    },
+    onError: (error) => {
+      console.error('Failed to save lesson:', error);
+      toast({
+        title: "পাঠ সংরক্ষণ করতে ব্যর্থ",
+        description: error instanceof Error && error.message.includes('prerequisite-cycle')
+          ? "পূর্বশর্তগুলো একটি চক্র তৈরি করছে; একটি পাঠ নিজের পূর্বশর্ত হতে পারে না।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSave = () => {
+    const payload = lessonPayloadSchema.safeParse({
+      unit_id: unitId,
+      title,
+      title_bn: titleBn,
+      description_bn: descriptionBn.trim() || null,
+      lesson_type: lessonType,
+      content: toContent(lessonType, fields, words, letters),
+      estimated_minutes: Number(minutes),
+      order: Number(order),
+      is_active: isActive
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: payload.error.issues[0]?.message ?? "পাঠের তথ্য যাচাই করুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate(payload.data);
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteLesson(lessonId as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['curriculum'] });
+      toast({ title: "পাঠ মুছে ফেলা হয়েছে" });
+      onDeleted();
+    },
+    onError: (error) => {
+      console.error('Failed to delete lesson:', error);
+      toast({
+        title: "পাঠ মুছতে ব্যর্থ",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleDelete = () => {
+    if (deleteConfirm) {
+      deleteMutation.mutate();
+    } else {
+      setDeleteConfirm(true);
+      setTimeout(() => setDeleteConfirm(false), 3000);
+    }
+  };
+
+  const field = (key: string) => ({
+    value: fields[key] ?? "",
+    onChange: (e: { target: { value: string } }) => setFields((current) => ({ ...current, [key]: e.target.value }))
+  });
+
+  const updateWord = (index: number, changes: Partial<VocabularyWord>) => {
+    setWords((current) => current.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  // Changes, adds (`position` past the end) or removes (`changes` null) a dialect form of a word
+  const updateVariant = (index: number, position: number, changes: Partial<DialectVariant> | null) => {
+    setWords((current) => current.map((item, i) => {
+      if (i !== index) return item;
+      const variants = [...(item.variants ?? [])];
+      if (changes === null) {
+        variants.splice(position, 1);
+      } else {
+        const unused = SPOKEN_DIALECTS.find((dialect) => !variants.some((variant) => variant.dialect === dialect));
+        variants[position] = { ...(variants[position] ?? { dialect: unused ?? SPOKEN_DIALECTS[0], arabic: "" }), ...changes };
+      }
+      return { ...item, variants };
+    }));
+  };
+
+  const toggleLetter = (target: HandwritingTarget, checked: boolean) => {
+    setLetters((current) => checked
+      ? [...current, target]
+      : current.filter((item) => item.letter !== target.letter || item.form !== target.form));
+  };
+
+  const togglePrerequisite = (id: string, checked: boolean) => {
+    setPrerequisites((current) => checked
+      ? [...current, { lesson_id: id, min_score: null }]
+      : current.filter((prerequisite) => prerequisite.lesson_id !== id));
+  };
+
+  const setMinScore = (id: string, value: string) => {
+    setPrerequisites((current) => current.map((prerequisite) => prerequisite.lesson_id === id
+      ? { ...prerequisite, min_score: value.trim() ? Number(value) : null }
+      : prerequisite));
+  };
+
+  if (lessonId && isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="lesson-title">ইংরেজি শিরোনাম *</Label>
+          <Input id="lesson-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lesson-title-bn">বাংলা শিরোনাম *</Label>
+          <Input id="lesson-title-bn" value={titleBn} onChange={(e) => setTitleBn(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="lesson-description">বিবরণ</Label>
+        <Textarea id="lesson-description" rows={2} value={descriptionBn} onChange={(e) => setDescriptionBn(e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2">
+          <Label>পাঠের ধরন</Label>
+          <Select value={lessonType} onValueChange={(value) => setLessonType(value as LessonType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LESSON_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{LESSON_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lesson-minutes">আনুমানিক সময় (মিনিট)</Label>
+          <Input id="lesson-minutes" type="number" min={1} value={minutes} onChange={(e) => setMinutes(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lesson-order">ক্রম</Label>
+          <Input id="lesson-order" type="number" min={0} value={order} onChange={(e) => setOrder(e.target.value)} />
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Switch id="lesson-active" checked={isActive} onCheckedChange={setIsActive} />
+          <Label htmlFor="lesson-active">সক্রিয়</Label>
+        </div>
+      </div>
+
+      {/* Content of the chosen lesson type */}
+      <div className="space-y-4 p-4 border border-gray-200 rounded-lg">
+        <h4 className="font-medium">{LESSON_TYPE_LABELS[lessonType]} — বিষয়বস্তু</h4>
+
+        {lessonType === 'video' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="content-video-url">ভিডিও লিংক *</Label>
+              <Input id="content-video-url" type="url" placeholder="https://" {...field('video_url')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="content-transcript">প্রতিলিপি</Label>
+              <Textarea id="content-transcript" rows={4} {...field('transcript_bn')} />
+            </div>
+          </>
+        )}
+
+        {lessonType === 'reading' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="content-body-bn">পাঠ (বাংলা) *</Label>
+              <Textarea id="content-body-bn" rows={8} {...field('body_bn')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="content-body-ar">আরবি পাঠ্য</Label>
+              <Textarea id="content-body-ar" dir="rtl" lang="ar" rows={4} className="text-lg" {...field('body_ar')} />
+            </div>
+          </>
+        )}
+
+        {lessonType === 'vocabulary' && (
+          <div className="space-y-2">
+            {words.map((word, index) => (
+              <div key={index} className="space-y-2">
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                  <Input
+                    dir="rtl"
+                    lang="ar"
+                    placeholder="আরবি শব্দ *"
+                    value={word.arabic}
+                    onChange={(e) => updateWord(index, { arabic: e.target.value })}
+                  />
+                  <Input
+                    placeholder="উচ্চারণ"
+                    value={word.transliteration ?? ""}
+                    onChange={(e) => updateWord(index, { transliteration: e.target.value })}
+                  />
+                  <Input
+                    placeholder="বাংলা অর্থ *"
+                    value={word.meaning_bn}
+                    onChange={(e) => updateWord(index, { meaning_bn: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setWords((current) => current.length > 1 ? current.filter((_, i) => i !== index) : [{ ...EMPTY_WORD }])}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {word.variants?.map((variant, position) => (
+                  <div key={position} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr_1fr_auto] gap-2 md:pl-6">
+                    <Select
+                      value={variant.dialect}
+                      onValueChange={(dialect) => updateVariant(index, position, { dialect: dialect as DialectVariant['dialect'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SPOKEN_DIALECTS.filter((dialect) => dialect === variant.dialect || !word.variants?.some((other) => other.dialect === dialect)).map((dialect) => (
+                          <SelectItem key={dialect} value={dialect}>{DIALECT_LABELS[dialect]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      dir="rtl"
+                      lang="ar"
+                      placeholder="উপভাষার রূপ *"
+                      value={variant.arabic}
+                      onChange={(e) => updateVariant(index, position, { arabic: e.target.value })}
+                    />
+                    <Input
+                      placeholder="উচ্চারণ"
+                      value={variant.transliteration ?? ""}
+                      onChange={(e) => updateVariant(index, position, { transliteration: e.target.value })}
+                    />
+                    <Input
+                      type="url"
+                      placeholder="অডিও লিংক"
+                      value={variant.audio_url ?? ""}
+                      onChange={(e) => updateVariant(index, position, { audio_url: e.target.value })}
+                    />
+                    <Button type="button" variant="ghost" size="sm" onClick={() => updateVariant(index, position, null)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {(word.variants?.length ?? 0) < SPOKEN_DIALECTS.length && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="md:ml-6 text-purple-700"
+                    onClick={() => updateVariant(index, word.variants?.length ?? 0, {})}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    উপভাষার রূপ
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setWords((current) => [...current, { ...EMPTY_WORD }])}>
+              <Plus className="h-4 w-4 mr-1" />
+              শব্দ যোগ করুন
+            </Button>
+          </div>
+        )}
+
+        {lessonType === 'quiz' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="content-instructions">নির্দেশনা</Label>
+              <Textarea id="content-instructions" rows={3} {...field('instructions_bn')} />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="content-pass-score">পাস নম্বর (০-১০০)</Label>
+                <Input id="content-pass-score" type="number" min={0} max={100} placeholder="60" {...field('pass_score')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content-time-limit">সময়সীমা (মিনিট)</Label>
+                <Input id="content-time-limit" type="number" min={1} placeholder="সীমাহীন" {...field('time_limit_minutes')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content-max-attempts">সর্বোচ্চ চেষ্টা</Label>
+                <Input id="content-max-attempts" type="number" min={1} placeholder="সীমাহীন" {...field('max_attempts')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content-questions-per-attempt">প্রতিবার প্রশ্ন</Label>
+                <Input id="content-questions-per-attempt" type="number" min={1} placeholder="সবগুলো" {...field('questions_per_attempt')} />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              প্রতিবার প্রশ্নের সংখ্যা দিলে প্রতিটি চেষ্টায় প্রশ্নভান্ডার থেকে এলোমেলোভাবে ততগুলো প্রশ্ন আসবে।
+            </p>
+          </>
+        )}
+
+        {lessonType === 'quran_recitation' && (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="content-surah">সূরা (১-১১৪) *</Label>
+                <Input id="content-surah" type="number" min={1} max={114} {...field('surah')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content-ayah-from">আয়াত থেকে *</Label>
+                <Input id="content-ayah-from" type="number" min={1} {...field('ayah_from')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content-ayah-to">আয়াত পর্যন্ত *</Label>
+                <Input id="content-ayah-to" type="number" min={1} {...field('ayah_to')} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="content-audio">আদর্শ তিলাওয়াতের অডিও লিংক</Label>
+              <Input id="content-audio" type="url" placeholder="https://" {...field('audio_url')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="content-text-ar">আয়াতের আরবি পাঠ (হরকতসহ)</Label>
+              <Textarea id="content-text-ar" dir="rtl" lang="ar" rows={4} className="text-lg" {...field('text_ar')} />
+              <p className="text-sm text-gray-500">শিক্ষার্থীরা এই পাঠ তাজবীদের নিয়ম অনুযায়ী রঙিনভাবে দেখবে।</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="content-notes">নোট</Label>
+              <Textarea id="content-notes" rows={3} {...field('notes_bn')} />
+            </div>
+          </>
+        )}
+
+        {lessonType === 'handwriting' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="content-handwriting-instructions">নির্দেশনা</Label>
+              <Textarea id="content-handwriting-instructions" rows={3} {...field('instructions_bn')} />
+            </div>
+            <div className="space-y-2">
+              <Label>যে হরফ ও রূপগুলো লিখতে হবে *</Label>
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="p-2 font-medium">হরফ</th>
+                      {LETTER_FORMS.map((form) => (
+                        <th key={form} className="p-2 font-medium text-center">{LETTER_FORM_LABELS[form]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ARABIC_ALPHABET.map((entry) => (
+                      <tr key={entry.letter} className="border-b last:border-0">
+                        <td className="p-2">
+                          <span dir="rtl" lang="ar" className="text-xl ml-2">{entry.letter}</span>
+                          <span className="text-gray-600">{entry.name_bn}</span>
+                        </td>
+                        {LETTER_FORMS.map((form) => (
+                          <td key={form} className="p-2 text-center">
+                            {letterForms(entry.letter).includes(form) ? (
+                              <Checkbox
+                                checked={letters.some((item) => item.letter === entry.letter && item.form === form)}
+                                onCheckedChange={(checked) => toggleLetter({ letter: entry.letter, form }, checked === true)}
+                              />
+                            ) : "—"}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-sm text-gray-500">
+                শিক্ষার্থীর লেখা যাচাই করতে প্রতিটি রূপের আদর্শ লেখা "হাতের লেখার আদর্শ" পাতায় যোগ করুন।
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+
+      {lessonId && lesson?.lesson_type === 'quiz' && <QuizQuestionsEditor lessonId={lessonId} />}
+
+      {/* Prerequisites */}
+      <div className="space-y-2">
+        <h4 className="font-medium">পূর্বশর্ত</h4>
+        <p className="text-sm text-gray-500">নির্বাচিত পাঠগুলো সম্পন্ন করার পর এই পাঠ খুলবে। কুইজের জন্য ন্যূনতম নম্বর দেওয়া যায়।</p>
+        {candidates.length === 0 ? (
+          <p className="text-sm text-gray-500">অন্য কোনো পাঠ নেই</p>
+        ) : (
+          <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+            {candidates.map((candidate) => {
+              const selected = prerequisites.find((prerequisite) => prerequisite.lesson_id === candidate.id);
+              return (
+                <div key={candidate.id} className="flex items-center justify-between gap-2 p-2">
+                  <label className="flex items-center space-x-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={!!selected}
+                      onCheckedChange={(checked) => togglePrerequisite(candidate.id, checked === true)}
+                    />
+                    <span>
+                      {candidate.title_bn || candidate.title}
+                      <span className="text-gray-500"> — {candidate.path}</span>
+                    </span>
+                  </label>
+                  {selected && candidate.lesson_type === 'quiz' && (
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="ন্যূনতম নম্বর"
+                      className="w-36"
+                      value={selected.min_score ?? ""}
+                      onChange={(e) => setMinScore(candidate.id, e.target.value)}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between pt-4 border-t">
+        {lessonId && canDelete ? (
+          <Button
+            variant="outline"
+            className={deleteConfirm ? "bg-red-100 text-red-600 border-red-200" : "text-red-600 border-red-200 hover:bg-red-50"}
+            onClick={handleDelete}
+            disabled={deleteMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            {deleteConfirm ? 'আবার ক্লিক করে নিশ্চিত করুন' : 'মুছে ফেলুন'}
+          </Button>
+        ) : <span />}
+        <Button
+          className="bg-islamic-green hover:bg-dark-green"
+          onClick={handleSave}
+          disabled={saveMutation.isPending}
+        >
+          {saveMutation.isPending ? 'সংরক্ষণ করা হচ্ছে...' : 'পাঠ সংরক্ষণ করুন'}
+        </Button>
+      </div>
+    </div>
+  );
+}
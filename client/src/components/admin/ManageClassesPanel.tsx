@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { getLiveClasses, deleteLiveClass, updateLiveClass } from "@/lib/api";
+import { listLiveClasses, deleteLiveClass, updateLiveClass } from "@/lib/api";
 import { 
   Edit, 
   Trash2, 
@@ -29,9 +29,10 @@ export default function ManageClassesPanel({ onClose, onEditClass }: ManageClass
   const queryClient = useQueryClient();
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
 
+  // Inactive classes are listed too so they can be re-enabled
   const { data: classes = [], isLoading, error } = useQuery({
-    queryKey: ['live-classes'],
-    queryFn: getLiveClasses
+    queryKey: ['live-classes', 'manage'],
+    queryFn: async () => (await listLiveClasses({ include_inactive: true, page_size: 100 })).data
   });
 
   const deleteMutation = useMutation({
@@ -178,6 +179,9 @@ export default function ManageClassesPanel({ onClose, onEditClass }: ManageClass
                             {classItem.course_modules?.title_bn && (
                               <span>মডিউল: {classItem.course_modules.title_bn}</span>
                             )}
+                            {classItem.lessons && (
+                              <span> · পাঠ: {classItem.lessons.title_bn || classItem.lessons.title}</span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { getManualPayments, getPaymentEvents, refundPayment, reviewManualPayment } from "@/lib/api";
+import { PAYMENT_METHODS } from "@/lib/stripe";
+import type { ManualPaymentWithUser } from "@/lib/types";
+import {
+  CheckCircle,
+  XCircle,
+  X,
+  Phone,
+  Hash,
+  Clock,
+  Wallet,
+  AlertCircle,
+  RotateCcw,
+  History
+} from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+type QueueStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+
+interface ManualPaymentsPanelProps {
+  onClose: () => void;
+}
+
+const STATUS_TABS: { id: QueueStatus; label: string }[] = [
+  { id: 'pending', label: 'যাচাইয়ের অপেক্ষায়' },
+  { id: 'paid', label: 'অনুমোদিত' },
+  { id: 'failed', label: 'প্রত্যাখ্যাত' },
+  { id: 'refunded', label: 'ফেরত দেওয়া' }
+];
+
+const EVENT_LABELS: Record<string, string> = {
+  'created': 'পেমেন্ট জমা',
+  'settled': 'স্ট্যাটাস পরিবর্তন',
+  'duplicate': 'পুনরাবৃত্ত অনুরোধ (উপেক্ষিত)',
+  'refunded': 'টাকা ফেরত',
+  'refund-failed': 'টাকা ফেরত ব্যর্থ',
+  'reconciliation-mismatch': 'স্টেটমেন্টের সাথে অমিল'
+};
+
+function PaymentHistory({ paymentId }: { paymentId: string }) {
+  const { data: events = [], isLoading, error } = useQuery({
+    queryKey: ['payment-events', paymentId],
+    queryFn: () => getPaymentEvents(paymentId)
+  });
+
+  if (isLoading) return <p className="text-sm text-gray-500">ইতিহাস লোড হচ্ছে...</p>;
+  if (error) return <p className="text-sm text-red-600">ইতিহাস লোড করতে ব্যর্থ</p>;
+
+  return (
+    <ul className="space-y-1 text-sm text-gray-600">
+      {events.map(event => (
+        <li key={event.id} className="flex items-center space-x-2">
+          <span className="text-xs text-gray-400 w-40 shrink-0">
+            {format(new Date(event.created_at), "dd MMM yyyy, hh:mm a", { locale: bn })}
+          </span>
+          <span>{EVENT_LABELS[event.event_type] ?? event.event_type}</span>
+          {event.from_status && event.to_status && event.from_status !== event.to_status && (
+            <span className="text-xs text-gray-500">({event.from_status} → {event.to_status})</span>
+          )}
+          <Badge variant="outline" className="text-xs">{event.source}</Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function studentName(payment: ManualPaymentWithUser): string {
+  const user = payment.users;
+  if (!user) return 'অজানা শিক্ষার্থী';
+  return user.display_name || [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email;
+}
+
+export default function ManualPaymentsPanel({ onClose }: ManualPaymentsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<QueueStatus>('pending');
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [refunding, setRefunding] = useState<string | null>(null);
+  const [refundReason, setRefundReason] = useState("");
+  const [refundReference, setRefundReference] = useState("");
+  const [historyOf, setHistoryOf] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['manual-payments', status],
+    queryFn: () => getManualPayments(status)
+  });
+  const payments = data?.data ?? [];
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ paymentId, decision, notes }: { paymentId: string; decision: 'approve' | 'reject'; notes?: string }) =>
+      reviewManualPayment(paymentId, decision, notes),
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['manual-payments'] });
+      toast({
+        title: decision === 'approve' ? "পেমেন্ট অনুমোদিত হয়েছে" : "পেমেন্ট প্রত্যাখ্যাত হয়েছে",
+        description: decision === 'approve'
+          ? "শিক্ষার্থীর কোর্স সক্রিয় করা হয়েছে।"
+          : "শিক্ষার্থীর পেমেন্ট বাতিল হিসেবে চিহ্নিত করা হয়েছে।",
+      });
+      setRejecting(null);
+      setRejectReason("");
+    },
+    onError: (error) => {
+      console.error('Failed to review manual payment:', error);
+      toast({
+        title: "যাচাই সম্পন্ন করতে ব্যর্থ",
+        description: error instanceof Error && error.message.startsWith('409')
+          ? "এই পেমেন্টটি ইতিমধ্যে যাচাই করা হয়েছে।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: ['manual-payments'] });
+    }
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: ({ paymentId, reason, reference }: { paymentId: string; reason: string; reference?: string }) =>
+      refundPayment(paymentId, reason, reference),
+    onSuccess: (_, { paymentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['manual-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['payment-events', paymentId] });
+      toast({
+        title: "টাকা ফেরত দেওয়া হয়েছে",
+        description: "শিক্ষার্থীর কোর্স এনরোলমেন্ট বাতিল করা হয়েছে।",
+      });
+      setRefunding(null);
+      setRefundReason("");
+      setRefundReference("");
+    },
+    onError: (error) => {
+      console.error('Failed to refund payment:', error);
+      toast({
+        title: "টাকা ফেরত দিতে ব্যর্থ",
+        description: error instanceof Error && error.message.startsWith('409')
+          ? "এই পেমেন্টটি আর ফেরতযোগ্য নয়।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: ['manual-payments'] });
+    }
+  });
+
+  const handleRefund = (paymentId: string) => {
+    if (refunding !== paymentId) {
+      setRefunding(paymentId);
+      setRefundReason("");
+      setRefundReference("");
+      return;
+    }
+    if (!refundReason.trim() || !refundReference.trim()) {
+      toast({
+        title: "তথ্য প্রয়োজন",
+        description: "ফেরতের কারণ এবং ফেরত পাঠানোর ট্রানজেকশন আইডি লিখুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    refundMutation.mutate({ paymentId, reason: refundReason.trim(), reference: refundReference.trim() });
+  };
+
+  const handleReject = (paymentId: string) => {
+    if (rejecting !== paymentId) {
+      setRejecting(paymentId);
+      setRejectReason("");
+      return;
+    }
+    if (!rejectReason.trim()) {
+      toast({
+        title: "কারণ প্রয়োজন",
+        description: "প্রত্যাখ্যানের কারণ লিখুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    reviewMutation.mutate({ paymentId, decision: 'reject', notes: rejectReason.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl font-semibold text-islamic-green">
+              ম্যানুয়াল পেমেন্ট যাচাই (Nagad / Rocket)
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex space-x-2 pt-2">
+            {STATUS_TABS.map(tab => (
+              <Button
+                key={tab.id}
+                size="sm"
+                variant={status === tab.id ? "default" : "outline"}
+                onClick={() => setStatus(tab.id)}
+              >
+                {tab.label}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12">পেমেন্টের তালিকা লোড হচ্ছে...</div>
+          ) : error ? (
+            <div className="text-center py-12 text-red-600">
+              <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+              পেমেন্টের তালিকা লোড করতে ব্যর্থ
+            </div>
+          ) : payments.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Wallet className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+              <p className="text-lg">কোনো পেমেন্ট পাওয়া যায়নি</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {payments.map((payment) => {
+                const method = PAYMENT_METHODS[payment.method as keyof typeof PAYMENT_METHODS];
+                return (
+                  <Card key={payment.id} className="border border-gray-200">
+                    <CardContent className="p-6">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-3 mb-1">
+                            <h3 className="text-lg font-medium text-gray-900">{studentName(payment)}</h3>
+                            <Badge variant="outline" className={method?.color}>
+                              {method?.name ?? payment.method}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-gray-500 mb-3">{payment.users?.email}</p>
+
+                          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
+                            <div className="flex items-center space-x-2">
+                              <Wallet className="h-4 w-4" />
+                              <span>৳{payment.amount}</span>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Phone className="h-4 w-4" />
+                              <span>{payment.phone_number || '—'}</span>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Hash className="h-4 w-4" />
+                              <span className="font-mono">{payment.transaction_id || '—'}</span>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Clock className="h-4 w-4" />
+                              <span>{format(new Date(payment.created_at), "dd MMM yyyy, hh:mm a", { locale: bn })}</span>
+                            </div>
+                          </div>
+
+                          {payment.verified_at && (
+                            <p className="text-xs text-gray-500 mt-3">
+                              যাচাই করা হয়েছে: {format(new Date(payment.verified_at), "dd MMM yyyy, hh:mm a", { locale: bn })}
+                              {payment.verification_notes && ` — ${payment.verification_notes}`}
+                            </p>
+                          )}
+                          {payment.refunded_at && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              টাকা ফেরত: {format(new Date(payment.refunded_at), "dd MMM yyyy, hh:mm a", { locale: bn })}
+                              {payment.refund_reference && ` (${payment.refund_reference})`}
+                              {payment.refund_reason && ` — ${payment.refund_reason}`}
+                            </p>
+                          )}
+                        </div>
+
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="ml-4"
+                          onClick={() => setHistoryOf(historyOf === payment.payment_id ? null : payment.payment_id)}
+                        >
+                          <History className="h-4 w-4 mr-1" />
+                          ইতিহাস
+                        </Button>
+
+                        {payment.status === 'pending' && (
+                          <div className="flex items-center space-x-2 ml-4">
+                            <Button
+                              size="sm"
+                              className="bg-islamic-green hover:bg-dark-green"
+                              onClick={() => reviewMutation.mutate({ paymentId: payment.payment_id, decision: 'approve' })}
+                              disabled={reviewMutation.isPending}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              অনুমোদন
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className={rejecting === payment.payment_id ? "bg-red-100 text-red-600" : "text-red-600"}
+                              onClick={() => handleReject(payment.payment_id)}
+                              disabled={reviewMutation.isPending}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              প্রত্যাখ্যান
+                            </Button>
+                          </div>
+                        )}
+
+                        {payment.status === 'paid' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className={refunding === payment.payment_id ? "ml-2 bg-orange-100 text-orange-700" : "ml-2 text-orange-700"}
+                            onClick={() => handleRefund(payment.payment_id)}
+                            disabled={refundMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            টাকা ফেরত
+                          </Button>
+                        )}
+                      </div>
+
+                      {rejecting === payment.payment_id && (
+                        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                          <p className="text-sm text-red-800">
+                            ⚠️ প্রত্যাখ্যানের কারণ লিখে আবার "প্রত্যাখ্যান" বাটনে ক্লিক করুন।
+                          </p>
+                          <Input
+                            value={rejectReason}
+                            onChange={(e) => setRejectReason(e.target.value)}
+                            placeholder="যেমন: ট্রানজেকশন আইডি মার্চেন্ট স্টেটমেন্টে পাওয়া যায়নি"
+                            maxLength={500}
+                          />
+                        </div>
+                      )}
+
+                      {refunding === payment.payment_id && (
+                        <div className="mt-4 p-3 bg-orange-50 border border-orange-200 rounded-lg space-y-2">
+                          <p className="text-sm text-orange-800">
+                            ⚠️ শিক্ষার্থীকে টাকা পাঠিয়ে কারণ ও ট্রানজেকশন আইডি লিখুন, তারপর আবার "টাকা ফেরত" বাটনে ক্লিক করুন। শিক্ষার্থীর এনরোলমেন্ট বাতিল হবে।
+                          </p>
+                          <Input
+                            value={refundReason}
+                            onChange={(e) => setRefundReason(e.target.value)}
+                            placeholder="ফেরতের কারণ"
+                            maxLength={500}
+                          />
+                          <Input
+                            value={refundReference}
+                            onChange={(e) => setRefundReference(e.target.value)}
+                            placeholder="ফেরত পাঠানোর ট্রানজেকশন আইডি"
+                            maxLength={100}
+                          />
+                        </div>
+                      )}
+
+                      {historyOf === payment.payment_id && (
+                        <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                          <PaymentHistory paymentId={payment.payment_id} />
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createQuizQuestion, deleteQuizQuestion, getQuizQuestions, updateQuizQuestion } from "@/lib/api";
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  questionPayloadSchema,
+  type FreeTextContent,
+  type HarakatContent,
+  type ListenChooseContent,
+  type MatchContent,
+  type MultipleChoiceContent,
+  type OrderWordsContent,
+  type QuestionPayload,
+  type QuestionType,
+  type QuizQuestion
+} from "@shared/quizzes";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+interface QuizQuestionsEditorProps {
+  lessonId: string;
+}
+
+// Form state for `quiz_questions.content` across every question type
+interface ContentFields {
+  options: string[];
+  correct_option: number;
+  audio_url: string;
+  text: string;
+  pairs: MatchContent['pairs'];
+  // order_words: the sentence in the right order, split on spaces
+  sentence: string;
+  // free_text: one accepted answer per line
+  accepted_answers: string;
+  ignore_tashkeel: boolean;
+}
+
+const EMPTY_FIELDS: ContentFields = {
+  options: ["", ""],
+  correct_option: 0,
+  audio_url: "",
+  text: "",
+  pairs: [{ arabic: "", meaning_bn: "" }, { arabic: "", meaning_bn: "" }],
+  sentence: "",
+  accepted_answers: "",
+  ignore_tashkeel: true
+};
+
+function toFields(question: QuizQuestion): ContentFields {
+  const fields = { ...EMPTY_FIELDS };
+  switch (question.question_type) {
+    case 'multiple_choice':
+    case 'listen_choose': {
+      const content = question.content as MultipleChoiceContent | ListenChooseContent;
+      fields.options = content.options;
+      fields.correct_option = content.correct_option;
+      if ('audio_url' in content) fields.audio_url = content.audio_url;
+      break;
+    }
+    case 'harakat':
+      fields.text = (question.content as HarakatContent).text;
+      break;
+    case 'match':
+      fields.pairs = (question.content as MatchContent).pairs;
+      break;
+    case 'order_words':
+      fields.sentence = (question.content as OrderWordsContent).words.join(' ');
+      break;
+    case 'free_text': {
+      const content = question.content as FreeTextContent;
+      fields.accepted_answers = content.accepted_answers.join('\n');
+      fields.ignore_tashkeel = content.ignore_tashkeel;
+      break;
+    }
+  }
+  return fields;
+}
+
+/**
+ * `quiz_questions.content` for the chosen type from the form fields
+ */
+function toContent(type: QuestionType, fields: ContentFields): unknown {
+  const lines = (text: string, separator: RegExp) => text.split(separator).map((line) => line.trim()).filter(Boolean);
+
+  switch (type) {
+    case 'multiple_choice':
+      return { options: fields.options, correct_option: fields.correct_option };
+    case 'listen_choose':
+      return { audio_url: fields.audio_url.trim(), options: fields.options, correct_option: fields.correct_option };
+    case 'harakat':
+      return { text: fields.text };
+    case 'match':
+      return { pairs: fields.pairs.filter((pair) => pair.arabic.trim() || pair.meaning_bn.trim()) };
+    case 'order_words':
+      return { words: lines(fields.sentence, /\s+/) };
+    case 'free_text':
+      return { accepted_answers: lines(fields.accepted_answers, /\n/), ignore_tashkeel: fields.ignore_tashkeel };
+  }
+}
+
+function QuestionForm({ lessonId, question, onDone }: { lessonId: string; question: QuizQuestion | null; onDone: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [questionType, setQuestionType] = useState<QuestionType>(question?.question_type ?? 'multiple_choice');
+  const [promptBn, setPromptBn] = useState(question?.prompt_bn ?? "");
+  const [promptAr, setPromptAr] = useState(question?.prompt_ar ?? "");
+  const [points, setPoints] = useState(String(question?.points ?? 1));
+  const [order, setOrder] = useState(String(question?.order ?? 0));
+  const [isActive, setIsActive] = useState(question?.is_active ?? true);
+  const [fields, setFields] = useState<ContentFields>(question ? toFields(question) : EMPTY_FIELDS);
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: QuestionPayload) => question ? updateQuizQuestion(question.id, payload) : createQuizQuestion(lessonId, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quiz-questions', lessonId] });
+      toast({ title: "প্রশ্ন সংরক্ষিত হয়েছে" });
+      onDone();
+    },
+    onError: (error) => {
+      console.error('Failed to save quiz question:', error);
+      toast({ title: "প্রশ্ন সংরক্ষণ করতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const handleSave = () => {
+    const payload = questionPayloadSchema.safeParse({
+      question_type: questionType,
+      prompt_bn: promptBn,
+      prompt_ar: promptAr.trim() || null,
+      content: toContent(questionType, fields),
+      points: Number(points),
+      order: Number(order),
+      is_active: isActive
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: payload.error.issues[0]?.message ?? "প্রশ্নের তথ্য যাচাই করুন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveMutation.mutate(payload.data);
+  };
+
+  const setOption = (index: number, value: string) =>
+    setFields((current) => ({ ...current, options: current.options.map((option, i) => i === index ? value : option) }));
+
+  const removeOption = (index: number) =>
+    setFields((current) => ({
+      ...current,
+      options: current.options.filter((_, i) => i !== index),
+      correct_option: current.correct_option === index ? 0 : current.correct_option > index ? current.correct_option - 1 : current.correct_option
+    }));
+
+  const setPair = (index: number, key: 'arabic' | 'meaning_bn', value: string) =>
+    setFields((current) => ({ ...current, pairs: current.pairs.map((pair, i) => i === index ? { ...pair, [key]: value } : pair) }));
+
+  return (
+    <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2 md:col-span-2">
+          <Label>প্রশ্নের ধরন</Label>
+          <Select value={questionType} onValueChange={(value) => setQuestionType(value as QuestionType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUESTION_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="question-points">নম্বর</Label>
+          <Input id="question-points" type="number" min={1} max={100} value={points} onChange={(e) => setPoints(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="question-order">ক্রম</Label>
+          <Input id="question-order" type="number" min={0} value={order} onChange={(e) => setOrder(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="question-prompt">প্রশ্ন *</Label>
+        <Textarea id="question-prompt" rows={2} value={promptBn} onChange={(e) => setPromptBn(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="question-prompt-ar">আরবি অংশ</Label>
+        <Input id="question-prompt-ar" dir="rtl" lang="ar" className="text-lg" value={promptAr} onChange={(e) => setPromptAr(e.target.value)} />
+      </div>
+
+      {(questionType === 'multiple_choice' || questionType === 'listen_choose') && (
+        <div className="space-y-2">
+          {questionType === 'listen_choose' && (
+            <div className="space-y-2">
+              <Label htmlFor="question-audio">অডিও লিংক *</Label>
+              <Input
+                id="question-audio"
+                type="url"
+                placeholder="https://"
+                value={fields.audio_url}
+                onChange={(e) => setFields((current) => ({ ...current, audio_url: e.target.value }))}
+              />
+            </div>
+          )}
+          <Label>বিকল্প (সঠিকটি চিহ্নিত করুন)</Label>
+          <RadioGroup
+            value={String(fields.correct_option)}
+            onValueChange={(value) => setFields((current) => ({ ...current, correct_option: Number(value) }))}
+            className="grid gap-2"
+          >
+            {fields.options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <RadioGroupItem value={String(index)} aria-label={`সঠিক উত্তর ${index + 1}`} />
+                <Input value={option} onChange={(e) => setOption(index, e.target.value)} placeholder={`বিকল্প ${index + 1}`} />
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(index)} disabled={fields.options.length <= 2}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </RadioGroup>
+          {fields.options.length < 6 && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setFields((current) => ({ ...current, options: [...current.options, ""] }))}>
+              <Plus className="h-4 w-4 mr-1" />
+              বিকল্প যোগ করুন
+            </Button>
+          )}
+        </div>
+      )}
+
+      {questionType === 'harakat' && (
+        <div className="space-y-2">
+          <Label htmlFor="question-harakat">হরকতসহ সঠিক লেখা *</Label>
+          <Input
+            id="question-harakat"
+            dir="rtl"
+            lang="ar"
+            className="text-2xl"
+            value={fields.text}
+            onChange={(e) => setFields((current) => ({ ...current, text: e.target.value }))}
+          />
+          <p className="text-sm text-gray-500">শিক্ষার্থী হরকত ছাড়া অক্ষরগুলো দেখবে; প্রতিটি অক্ষরের সঠিক হরকতের জন্য আংশিক নম্বর পাবে।</p>
+        </div>
+      )}
+
+      {questionType === 'match' && (
+        <div className="space-y-2">
+          <Label>আরবি শব্দ ও বাংলা অর্থ</Label>
+          {fields.pairs.map((pair, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input dir="rtl" lang="ar" placeholder="আরবি শব্দ" value={pair.arabic} onChange={(e) => setPair(index, 'arabic', e.target.value)} />
+              <Input placeholder="বাংলা অর্থ" value={pair.meaning_bn} onChange={(e) => setPair(index, 'meaning_bn', e.target.value)} />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setFields((current) => ({ ...current, pairs: current.pairs.filter((_, i) => i !== index) }))}
+                disabled={fields.pairs.length <= 2}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {fields.pairs.length < 10 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setFields((current) => ({ ...current, pairs: [...current.pairs, { arabic: "", meaning_bn: "" }] }))}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              জোড়া যোগ করুন
+            </Button>
+          )}
+        </div>
+      )}
+
+      {questionType === 'order_words' && (
+        <div className="space-y-2">
+          <Label htmlFor="question-sentence">সঠিক ক্রমে বাক্য *</Label>
+          <Input
+            id="question-sentence"
+            dir="rtl"
+            lang="ar"
+            className="text-xl"
+            value={fields.sentence}
+            onChange={(e) => setFields((current) => ({ ...current, sentence: e.target.value }))}
+          />
+          <p className="text-sm text-gray-500">শব্দগুলো এলোমেলো করে দেখানো হবে।</p>
+        </div>
+      )}
+
+      {questionType === 'free_text' && (
+        <div className="space-y-2">
+          <Label htmlFor="question-accepted">গ্রহণযোগ্য উত্তর (প্রতি লাইনে একটি) *</Label>
+          <Textarea
+            id="question-accepted"
+            dir="rtl"
+            lang="ar"
+            rows={3}
+            className="text-lg"
+            value={fields.accepted_answers}
+            onChange={(e) => setFields((current) => ({ ...current, accepted_answers: e.target.value }))}
+          />
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="question-ignore-tashkeel"
+              checked={fields.ignore_tashkeel}
+              onCheckedChange={(checked) => setFields((current) => ({ ...current, ignore_tashkeel: checked }))}
+            />
+            <Label htmlFor="question-ignore-tashkeel">হরকত উপেক্ষা করুন</Label>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Switch id="question-active" checked={isActive} onCheckedChange={setIsActive} />
+          <Label htmlFor="question-active">সক্রিয়</Label>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onDone}>বাতিল</Button>
+          <Button className="bg-islamic-green hover:bg-dark-green" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'সংরক্ষণ করা হচ্ছে...' : 'প্রশ্ন সংরক্ষণ করুন'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The question pool of a saved quiz lesson
+ */
+export default function QuizQuestionsEditor({ lessonId }: QuizQuestionsEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // A question id, 'new', or null when no form is open
+  const [editing, setEditing] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+
+  const { data: questions = [], isLoading } = useQuery({
+    queryKey: ['quiz-questions', lessonId],
+    queryFn: () => getQuizQuestions(lessonId)
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteQuizQuestion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quiz-questions', lessonId] });
+      toast({ title: "প্রশ্ন মুছে ফেলা হয়েছে" });
+    },
+    onError: (error) => {
+      console.error('Failed to delete quiz question:', error);
+      toast({ title: "প্রশ্ন মুছতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const handleDelete = (questionId: string) => {
+    if (deleteConfirm === questionId) {
+      deleteMutation.mutate(questionId);
+    } else {
+      setDeleteConfirm(questionId);
+      setTimeout(() => setDeleteConfirm((current) => current === questionId ? null : current), 3000);
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">প্রশ্নভান্ডার</h4>
+        {editing === null && (
+          <Button variant="outline" size="sm" onClick={() => setEditing('new')}>
+            <Plus className="h-4 w-4 mr-1" />
+            প্রশ্ন যোগ করুন
+          </Button>
+        )}
+      </div>
+
+      {editing === 'new' && <QuestionForm lessonId={lessonId} question={null} onDone={() => setEditing(null)} />}
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : questions.length === 0 ? (
+        <p className="text-sm text-gray-500">এখনো কোনো প্রশ্ন নেই</p>
+      ) : (
+        <div className="space-y-2">
+          {questions.map((question, index) => editing === question.id ? (
+            <QuestionForm key={question.id} lessonId={lessonId} question={question} onDone={() => setEditing(null)} />
+          ) : (
+            <div key={question.id} className="flex items-center justify-between gap-2 p-3 border border-gray-200 rounded-lg">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type]}</Badge>
+                  <span className="text-xs text-gray-500">{question.points} নম্বর</span>
+                  {!question.is_active && <Badge variant="secondary">নিষ্ক্রিয়</Badge>}
+                </div>
+                <p className="text-sm truncate">{index + 1}. {question.prompt_bn}</p>
+              </div>
+              <div className="flex space-x-1 shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(question.id)} disabled={editing !== null}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={deleteConfirm === question.id ? "bg-red-100 text-red-600" : "text-red-600"}
+                  onClick={() => handleDelete(question.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={deleteConfirm === question.id ? 'আবার ক্লিক করে নিশ্চিত করুন' : 'মুছে ফেলুন'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
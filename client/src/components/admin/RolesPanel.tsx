@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { assignRole, getPermissionMatrix, getRoleMembers, setRolePermissions } from "@/lib/api";
+import {
+  ACTIONS,
+  RESOURCES,
+  ROLES,
+  ROLE_LABELS,
+  type Action,
+  type Permission,
+  type Resource,
+  type Role,
+  type RoleMember
+} from "@shared/rbac";
+import { X, Search, Users, AlertCircle, Save } from "lucide-react";
+
+interface RolesPanelProps {
+  onClose: () => void;
+}
+
+// Select value for listing every role
+const ALL_ROLES = "all";
+
+const RESOURCE_LABELS: Record<Resource, string> = {
+  'live-class': 'লাইভ ক্লাস',
+  'video-room': 'ভিডিও রুম',
+  'course-content': 'কোর্সের বিষয়বস্তু',
+  homework: 'হোমওয়ার্ক',
+  enrollment: 'এনরোলমেন্ট',
+  payments: 'পেমেন্ট',
+  coupons: 'কুপন',
+  receipts: 'রসিদ',
+  certificates: 'সার্টিফিকেট',
+  students: 'শিক্ষার্থী',
+  roles: 'ভূমিকা',
+  '*': 'সবকিছু'
+};
+
+const ACTION_LABELS: Record<Action, string> = {
+  view: 'দেখা',
+  create: 'তৈরি',
+  update: 'সম্পাদনা',
+  delete: 'মুছে ফেলা',
+  join: 'যোগদান',
+  moderate: 'মডারেট',
+  record: 'রেকর্ড',
+  bypass: 'ছাড়',
+  manage: 'সম্পূর্ণ'
+};
+
+const permissionKey = (permission: Permission) => `${permission.action}:${permission.resource}`;
+
+function memberName(member: RoleMember): string {
+  return [member.first_name, member.last_name].filter(Boolean).join(' ') || member.display_name || member.email;
+}
+
+export default function RolesPanel({ onClose }: RolesPanelProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState<string>(ALL_ROLES);
+  const [editingRole, setEditingRole] = useState<Exclude<Role, 'admin'>>('student');
+  const [grants, setGrants] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['role-members', search, roleFilter],
+    queryFn: () => getRoleMembers({ search: search || undefined, role: roleFilter === ALL_ROLES ? undefined : roleFilter as Role })
+  });
+  const members = data?.data ?? [];
+
+  const { data: matrix } = useQuery({
+    queryKey: ['permission-matrix'],
+    queryFn: getPermissionMatrix
+  });
+
+  useEffect(() => {
+    if (matrix) {
+      setGrants(new Set(matrix[editingRole].map(permissionKey)));
+    }
+  }, [matrix, editingRole]);
+
+  const assignMutation = useMutation({
+    mutationFn: ({ member, role }: { member: RoleMember; role: Role }) => assignRole(member.id, role),
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ['role-members'] });
+      toast({
+        title: "ভূমিকা পরিবর্তন হয়েছে",
+        description: `${memberName(member)} এখন ${ROLE_LABELS[member.role]}। পরবর্তী লগইন বা টোকেন রিফ্রেশে কার্যকর হবে।`,
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to assign role:', error);
+      toast({
+        title: "ভূমিকা পরিবর্তন করতে ব্যর্থ",
+        description: error instanceof Error && error.message.includes('last-admin')
+          ? "শেষ প্রশাসকের ভূমিকা পরিবর্তন করা যাবে না।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const permissionsMutation = useMutation({
+    mutationFn: () => setRolePermissions(editingRole, Array.from(grants).map(key => {
+      const [action, resource] = key.split(':');
+      return { action: action as Action, resource: resource as Resource };
+    })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['permission-matrix'] });
+      toast({
+        title: "অনুমতি সংরক্ষিত হয়েছে",
+        description: `${ROLE_LABELS[editingRole]} ভূমিকার অনুমতি হালনাগাদ হয়েছে।`,
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to save permissions:', error);
+      toast({
+        title: "অনুমতি সংরক্ষণ করতে ব্যর্থ",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleGrant = (key: string, checked: boolean) => {
+    setGrants(current => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl font-semibold text-islamic-green">
+              ভূমিকা ও অনুমতি
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="members" className="space-y-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="members">ব্যবহারকারী</TabsTrigger>
+              <TabsTrigger value="permissions">অনুমতি</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="members" className="space-y-4">
+              <div className="flex flex-col md:flex-row gap-2">
+                <div className="flex flex-1 space-x-2">
+                  <Input
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && setSearch(searchInput.trim())}
+                    placeholder="নাম বা ইমেইল দিয়ে খুঁজুন"
+                    maxLength={100}
+                  />
+                  <Button variant="outline" onClick={() => setSearch(searchInput.trim())}>
+                    <Search className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Select value={roleFilter} onValueChange={setRoleFilter}>
+                  <SelectTrigger className="md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ROLES}>সকল ভূমিকা</SelectItem>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {isLoading ? (
+                <div className="text-center py-12">ব্যবহারকারীর তালিকা লোড হচ্ছে...</div>
+              ) : error ? (
+                <div className="text-center py-12 text-red-600">
+                  <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+                  ব্যবহারকারীর তালিকা লোড করতে ব্যর্থ
+                </div>
+              ) : members.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                  <Users className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+                  <p className="text-lg">কোনো ব্যবহারকারী পাওয়া যায়নি</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {members.map((member) => (
+                    <div key={member.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-lg">
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{memberName(member)}</span>
+                          {member.id === user?.id && <Badge variant="secondary">আপনি</Badge>}
+                        </div>
+                        <p className="text-sm text-gray-600">{member.email}</p>
+                      </div>
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => assignMutation.mutate({ member, role: role as Role })}
+                        disabled={assignMutation.isPending}
+                      >
+                        <SelectTrigger className="md:w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="permissions" className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <Select value={editingRole} onValueChange={(role) => setEditingRole(role as Exclude<Role, 'admin'>)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.filter((role) => role !== 'admin').map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  className="bg-islamic-green hover:bg-dark-green"
+                  onClick={() => permissionsMutation.mutate()}
+                  disabled={!matrix || permissionsMutation.isPending}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  সংরক্ষণ করুন
+                </Button>
+              </div>
+              <p className="text-sm text-gray-600">
+                প্রশাসকের সকল অনুমতি থাকে এবং তা পরিবর্তন করা যায় না।
+              </p>
+
+              {!matrix ? (
+                <div className="text-center py-12">অনুমতির তালিকা লোড হচ্ছে...</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 pr-4">বিষয়</th>
+                        {ACTIONS.map((action) => (
+                          <th key={action} className="px-2 py-2 font-normal text-gray-600">{ACTION_LABELS[action]}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {RESOURCES.filter((resource) => resource !== '*').map((resource) => (
+                        <tr key={resource} className="border-b">
+                          <td className="py-2 pr-4">{RESOURCE_LABELS[resource]}</td>
+                          {ACTIONS.map((action) => {
+                            const key = permissionKey({ action, resource });
+                            return (
+                              <td key={action} className="px-2 py-2 text-center">
+                                <Checkbox
+                                  checked={grants.has(key)}
+                                  onCheckedChange={(checked) => toggleGrant(key, checked === true)}
+                                  aria-label={`${RESOURCE_LABELS[resource]}: ${ACTION_LABELS[action]}`}
+                                />
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { getClassSessions, getInstructorClasses, publishClassRecording } from "@/lib/api";
+import { recordingSchema } from "@shared/instructor";
+import { can } from "@shared/rbac";
+import { ArrowLeft, Users, Film, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+interface ClassSessionsPanelProps {
+  classId: string;
+}
+
+export default function ClassSessionsPanel({ classId }: ClassSessionsPanelProps) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [recordingUrl, setRecordingUrl] = useState("");
+
+  // Shares the cache with the class list, so coming from there shows the class at once
+  const { data: classes = [] } = useQuery({
+    queryKey: ['instructor-classes'],
+    queryFn: getInstructorClasses
+  });
+  const liveClass = classes.find((item) => item.id === classId);
+
+  const { data: sessions = [], isLoading, error } = useQuery({
+    queryKey: ['instructor-class-sessions', classId],
+    queryFn: () => getClassSessions(classId)
+  });
+
+  useEffect(() => {
+    setRecordingUrl(liveClass?.recording_url ?? "");
+  }, [liveClass?.recording_url]);
+
+  const recordingMutation = useMutation({
+    mutationFn: (url: string | null) => publishClassRecording(classId, url),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['instructor-classes'] });
+      toast({
+        title: updated.recording_url ? "রেকর্ডিং প্রকাশিত হয়েছে" : "রেকর্ডিং সরানো হয়েছে",
+        description: updated.recording_url ? "শিক্ষার্থীরা এখন রেকর্ডিং দেখতে পারবে।" : "শিক্ষার্থীরা আর রেকর্ডিং দেখতে পাবে না।",
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to publish recording:', error);
+      toast({
+        title: "রেকর্ডিং সংরক্ষণ করতে ব্যর্থ",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handlePublish = () => {
+    const payload = recordingSchema.safeParse({ recording_url: recordingUrl.trim() });
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: "রেকর্ডিংয়ের সঠিক লিংক দিন।",
+        variant: "destructive"
+      });
+      return;
+    }
+    recordingMutation.mutate(payload.data.recording_url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link href="/instructor">
+        <Button variant="ghost" size="sm">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          আমার ক্লাস
+        </Button>
+      </Link>
+
+      {can(profile, 'record', 'live-class') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-islamic-green">
+              <Film className="h-5 w-5" />
+              <span>{liveClass ? (liveClass.title_bn || liveClass.title) : "ক্লাস"} — রেকর্ডিং</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row md:items-end gap-3">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="recording-url">রেকর্ডিংয়ের লিংক</Label>
+                <Input
+                  id="recording-url"
+                  type="url"
+                  placeholder="https://"
+                  value={recordingUrl}
+                  onChange={(e) => setRecordingUrl(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  className="bg-islamic-green hover:bg-dark-green"
+                  onClick={handlePublish}
+                  disabled={!recordingUrl.trim() || recordingMutation.isPending}
+                >
+                  প্রকাশ করুন
+                </Button>
+                {liveClass?.recording_url && (
+                  <Button
+                    variant="outline"
+                    onClick={() => recordingMutation.mutate(null)}
+                    disabled={recordingMutation.isPending}
+                  >
+                    সরিয়ে দিন
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-islamic-green">
+            <Users className="h-5 w-5" />
+            <span>সেশন ও উপস্থিতি</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-24 w-full" />
+              <Skeleton className="h-24 w-full" />
+            </div>
+          ) : error ? (
+            <div className="text-center py-12 text-red-600">
+              <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+              {error instanceof Error && error.message.startsWith('403')
+                ? "আপনি শুধু নিজের ক্লাসের উপস্থিতি দেখতে পারবেন"
+                : "সেশনের তালিকা লোড করতে ব্যর্থ"}
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              এই ক্লাসের কোনো সেশন এখনো হয়নি
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {sessions.map((session) => (
+                <div key={session.id} className="border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between p-3 bg-gray-50 rounded-t-lg">
+                    <span className="text-sm font-medium">
+                      {format(new Date(session.started_at), "dd MMM yyyy, hh:mm a", { locale: bn })}
+                      {session.ended_at && ` – ${format(new Date(session.ended_at), "hh:mm a", { locale: bn })}`}
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      {!session.ended_at && <Badge className="bg-red-600">চলমান</Badge>}
+                      <Badge variant="outline">{session.attendance.length} জন উপস্থিত</Badge>
+                    </div>
+                  </div>
+                  {session.attendance.length === 0 ? (
+                    <p className="p-3 text-sm text-gray-500">কেউ যোগ দেয়নি</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600 border-b">
+                          <th className="p-3 font-medium">শিক্ষার্থী</th>
+                          <th className="p-3 font-medium">যোগদান</th>
+                          <th className="p-3 font-medium text-right">সময়কাল</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {session.attendance.map((row) => (
+                          <tr key={row.user_id} className="border-b last:border-0">
+                            <td className="p-3">
+                              <p>{[row.first_name, row.last_name].filter(Boolean).join(' ') || row.email}</p>
+                              <p className="text-xs text-gray-500">{row.email}</p>
+                            </td>
+                            <td className="p-3">{format(new Date(row.attended_at), "hh:mm a", { locale: bn })}</td>
+                            <td className="p-3 text-right">{row.duration} মিনিট</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import HandwritingCanvas from "@/components/HandwritingCanvas";
+import { deleteHandwritingTemplate, getHandwritingTemplates, saveHandwritingTemplate } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@shared/rbac";
+import {
+  ARABIC_ALPHABET,
+  LETTER_FORMS,
+  LETTER_FORM_LABELS,
+  alphabetLetter,
+  formGlyph,
+  letterForms,
+  type HandwritingStroke,
+  type HandwritingTarget
+} from "@shared/handwriting";
+import { AlertCircle, Eraser, PenTool, Save, Trash2, Undo2 } from "lucide-react";
+
+/**
+ * The model strokes students' writing is checked against. Pick a letter
+ * form, write it once as students should (dots as separate strokes, in
+ * order) and save.
+ */
+export default function HandwritingTemplatesPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+  const [selected, setSelected] = useState<HandwritingTarget>({ letter: ARABIC_ALPHABET[0].letter, form: 'isolated' });
+  const [strokes, setStrokes] = useState<HandwritingStroke[]>([]);
+
+  const { data: templates = [], isLoading, error } = useQuery({
+    queryKey: ['handwriting-templates'],
+    queryFn: getHandwritingTemplates
+  });
+
+  const existing = templates.find((template) => template.letter === selected.letter && template.form === selected.form);
+
+  const select = (target: HandwritingTarget) => {
+    setSelected(target);
+    setStrokes([]);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveHandwritingTemplate({ ...selected, strokes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['handwriting-templates'] });
+      setStrokes([]);
+      toast({ title: "আদর্শ লেখা সংরক্ষিত হয়েছে" });
+    },
+    onError: (error) => {
+      console.error('Failed to save handwriting template:', error);
+      toast({ title: "আদর্শ লেখা সংরক্ষণ করতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: string) => deleteHandwritingTemplate(templateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['handwriting-templates'] });
+      toast({ title: "আদর্শ লেখা মুছে ফেলা হয়েছে" });
+    },
+    onError: (error) => {
+      console.error('Failed to delete handwriting template:', error);
+      toast({ title: "আদর্শ লেখা মুছতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-islamic-green">
+          <PenTool className="h-5 w-5" />
+          <span>হাতের লেখার আদর্শ</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-96 w-full" />
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+            আদর্শ লেখা লোড করতে ব্যর্থ
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_auto] gap-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="p-2 font-medium">হরফ</th>
+                    {LETTER_FORMS.map((form) => (
+                      <th key={form} className="p-2 font-medium text-center">{LETTER_FORM_LABELS[form]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {ARABIC_ALPHABET.map((entry) => (
+                    <tr key={entry.letter} className="border-b last:border-0">
+                      <td className="p-2 text-gray-600">{entry.name_bn}</td>
+                      {LETTER_FORMS.map((form) => {
+                        if (!letterForms(entry.letter).includes(form)) {
+                          return <td key={form} className="p-2 text-center text-gray-300">—</td>;
+                        }
+                        const recorded = templates.some((template) => template.letter === entry.letter && template.form === form);
+                        const active = selected.letter === entry.letter && selected.form === form;
+                        return (
+                          <td key={form} className="p-1 text-center">
+                            <button
+                              dir="rtl"
+                              lang="ar"
+                              className={`w-12 h-10 rounded text-xl border ${active
+                                ? "border-islamic-green ring-2 ring-islamic-green"
+                                : "border-gray-200"} ${recorded ? "bg-green-50 text-green-800" : "bg-white text-gray-400"}`}
+                              title={recorded ? "আদর্শ লেখা আছে" : "আদর্শ লেখা নেই"}
+                              onClick={() => select({ letter: entry.letter, form })}
+                            >
+                              {formGlyph(entry.letter, form)}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-medium">
+                {alphabetLetter(selected.letter)?.name_bn} — {LETTER_FORM_LABELS[selected.form]} রূপ
+              </p>
+              <HandwritingCanvas strokes={strokes} onChange={setStrokes} guide={formGlyph(selected.letter, selected.form)} />
+              <p className="text-xs text-gray-500 max-w-xs">
+                শিক্ষার্থীরা যে ক্রম ও দিকে লিখবে সেভাবেই লিখুন; প্রতিটি নুকতা আলাদা টান।
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => setStrokes(strokes.slice(0, -1))} disabled={strokes.length === 0}>
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setStrokes([])} disabled={strokes.length === 0}>
+                  <Eraser className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-islamic-green hover:bg-dark-green"
+                  onClick={() => saveMutation.mutate()}
+                  disabled={strokes.length === 0 || saveMutation.isPending}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  {saveMutation.isPending ? 'সংরক্ষণ হচ্ছে...' : 'সংরক্ষণ করুন'}
+                </Button>
+                {existing && can(profile, 'delete', 'course-content') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => deleteMutation.mutate(existing.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {existing && (
+                <div className="space-y-1">
+                  <p className="text-sm text-green-700">সংরক্ষিত আদর্শ ({existing.strokes.length} টান):</p>
+                  <HandwritingCanvas strokes={existing.strokes} onChange={() => undefined} size={120} disabled />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getHomeworkForGrading, gradeHomework } from "@/lib/api";
+import { homeworkGradeSchema, type HomeworkForGrading, type HomeworkStatus } from "@shared/instructor";
+import { ClipboardCheck, FileText, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+// Select value for every status
+const ALL_STATUSES = "all";
+
+const STATUS_LABELS: Record<HomeworkStatus, string> = {
+  pending: 'অপেক্ষমাণ',
+  submitted: 'জমা দেওয়া',
+  graded: 'মূল্যায়িত'
+};
+
+function HomeworkGradeForm({ submission }: { submission: HomeworkForGrading }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [grade, setGrade] = useState(submission.grade !== null ? String(submission.grade) : "");
+  const [feedback, setFeedback] = useState(submission.feedback ?? "");
+
+  const gradeMutation = useMutation({
+    mutationFn: (payload: { grade: number; feedback?: string }) => gradeHomework(submission.id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['instructor-homework'] });
+      toast({
+        title: "মূল্যায়ন সংরক্ষিত হয়েছে",
+        description: `${submission.title} — ${grade}/১০০`,
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to grade homework:', error);
+      toast({
+        title: "মূল্যায়ন করতে ব্যর্থ",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleGrade = () => {
+    const payload = homeworkGradeSchema.safeParse({
+      grade: grade.trim() === "" ? NaN : Number(grade),
+      feedback: feedback || undefined
+    });
+
+    if (!payload.success) {
+      toast({
+        title: "তথ্য সঠিক নয়",
+        description: "নম্বর ০ থেকে ১০০ এর মধ্যে একটি পূর্ণসংখ্যা হতে হবে।",
+        variant: "destructive"
+      });
+      return;
+    }
+    gradeMutation.mutate(payload.data);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[8rem_1fr_auto] gap-3 items-end">
+      <div className="space-y-2">
+        <Label htmlFor={`grade-${submission.id}`}>নম্বর (০-১০০)</Label>
+        <Input
+          id={`grade-${submission.id}`}
+          type="number"
+          min={0}
+          max={100}
+          value={grade}
+          onChange={(e) => setGrade(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`feedback-${submission.id}`}>মতামত (ঐচ্ছিক)</Label>
+        <Textarea
+          id={`feedback-${submission.id}`}
+          rows={2}
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+        />
+      </div>
+      <Button
+        className="bg-islamic-green hover:bg-dark-green"
+        onClick={handleGrade}
+        disabled={gradeMutation.isPending}
+      >
+        {submission.status === 'graded' ? "হালনাগাদ করুন" : "মূল্যায়ন করুন"}
+      </Button>
+    </div>
+  );
+}
+
+export default function HomeworkGradingPanel() {
+  const [status, setStatus] = useState<HomeworkStatus | typeof ALL_STATUSES>('submitted');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['instructor-homework', status],
+    queryFn: () => getHomeworkForGrading({ status: status === ALL_STATUSES ? undefined : status })
+  });
+  const submissions = data?.data ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <CardTitle className="flex items-center space-x-2 text-islamic-green">
+            <ClipboardCheck className="h-5 w-5" />
+            <span>হোমওয়ার্ক মূল্যায়ন</span>
+          </CardTitle>
+          <Select value={status} onValueChange={(value) => setStatus(value as HomeworkStatus | typeof ALL_STATUSES)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>সব</SelectItem>
+              {(Object.keys(STATUS_LABELS) as HomeworkStatus[]).map((value) => (
+                <SelectItem key={value} value={value}>{STATUS_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+            হোমওয়ার্কের তালিকা লোড করতে ব্যর্থ
+          </div>
+        ) : submissions.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <FileText className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+            <p className="text-lg">মূল্যায়নের জন্য কোনো হোমওয়ার্ক নেই</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {submissions.map((submission) => (
+              <div key={submission.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{submission.title}</span>
+                      <Badge variant={submission.status === 'graded' ? 'default' : 'secondary'}>
+                        {STATUS_LABELS[submission.status]}
+                        {submission.status === 'graded' && submission.grade !== null && ` · ${submission.grade}`}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {[submission.users?.first_name, submission.users?.last_name].filter(Boolean).join(' ') || submission.users?.email}
+                      {submission.live_classes && ` · ${submission.live_classes.title_bn || submission.live_classes.title}`}
+                      {" · "}{format(new Date(submission.submitted_at), "dd MMM yyyy, hh:mm a", { locale: bn })}
+                    </p>
+                    {submission.description && (
+                      <p className="text-sm text-gray-700">{submission.description}</p>
+                    )}
+                  </div>
+                  {submission.file_url && (
+                    <a href={submission.file_url} target="_blank" rel="noopener noreferrer">
+                      <Button size="sm" variant="outline">
+                        <FileText className="h-4 w-4 mr-1" />
+                        {submission.file_name || "ফাইল দেখুন"}
+                      </Button>
+                    </a>
+                  )}
+                </div>
+                <HomeworkGradeForm submission={submission} />
+              </div>
+            ))}
+          </div>
+        )}
+        {data && data.pagination.total > submissions.length && (
+          <p className="text-sm text-gray-500 mt-4">
+            মোট {data.pagination.total}টির মধ্যে সাম্প্রতিক {submissions.length}টি দেখানো হচ্ছে
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { Link, useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { endClassSession, getInstructorClasses, startClassSession } from "@/lib/api";
+import type { InstructorClass } from "@shared/instructor";
+import { GraduationCap, Calendar, Clock, Play, Video, Square, Users, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+export default function InstructorClassList() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: classes = [], isLoading, error } = useQuery({
+    queryKey: ['instructor-classes'],
+    queryFn: getInstructorClasses
+  });
+
+  const startMutation = useMutation({
+    mutationFn: (liveClass: InstructorClass) => startClassSession(liveClass.id),
+    onSuccess: (_, liveClass) => {
+      queryClient.invalidateQueries({ queryKey: ['instructor-classes'] });
+      setLocation(`/live-class?id=${liveClass.id}`);
+    },
+    onError: (error) => {
+      console.error('Failed to start class:', error);
+      toast({
+        title: "ক্লাস শুরু করতে ব্যর্থ",
+        description: error instanceof Error && error.message.includes('class-inactive')
+          ? "নিষ্ক্রিয় ক্লাস শুরু করা যায় না।"
+          : "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const endMutation = useMutation({
+    mutationFn: (liveClass: InstructorClass) => endClassSession(liveClass.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['instructor-classes'] });
+      toast({
+        title: "ক্লাস শেষ হয়েছে",
+        description: "এই সেশনের উপস্থিতি সংরক্ষিত হয়েছে।",
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to end class:', error);
+      toast({
+        title: "ক্লাস শেষ করতে ব্যর্থ",
+        description: "দয়া করে আবার চেষ্টা করুন।",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-islamic-green">
+          <GraduationCap className="h-5 w-5" />
+          <span>আমার ক্লাস</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-20 w-full" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+            ক্লাসের তালিকা লোড করতে ব্যর্থ
+          </div>
+        ) : classes.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <Calendar className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+            <p className="text-lg">আপনার কোনো নির্ধারিত ক্লাস নেই</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {classes.map((liveClass) => (
+              <div key={liveClass.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{liveClass.title_bn || liveClass.title}</span>
+                    {liveClass.open_session && <Badge className="bg-red-600">চলমান</Badge>}
+                    {!liveClass.is_active && <Badge variant="secondary">নিষ্ক্রিয়</Badge>}
+                    {liveClass.recording_url && <Badge variant="outline">রেকর্ডিং প্রকাশিত</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-600 flex items-center">
+                    <Clock className="h-4 w-4 mr-1" />
+                    {format(new Date(liveClass.scheduled_at), "dd MMM yyyy, hh:mm a", { locale: bn })}
+                    {" · "}{liveClass.duration} মিনিট
+                    {liveClass.course_modules?.title_bn && ` · ${liveClass.course_modules.title_bn}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {liveClass.open_session ? (
+                    <>
+                      <Link href={`/live-class?id=${liveClass.id}`}>
+                        <Button size="sm" className="bg-islamic-green hover:bg-dark-green">
+                          <Video className="h-4 w-4 mr-1" />
+                          ক্লাসে যান
+                        </Button>
+                      </Link>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 border-red-200 hover:bg-red-50"
+                        onClick={() => endMutation.mutate(liveClass)}
+                        disabled={endMutation.isPending}
+                      >
+                        <Square className="h-4 w-4 mr-1" />
+                        শেষ করুন
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      className="bg-islamic-green hover:bg-dark-green"
+                      onClick={() => startMutation.mutate(liveClass)}
+                      disabled={!liveClass.is_active || startMutation.isPending}
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      ক্লাস শুরু করুন
+                    </Button>
+                  )}
+                  <Link href={`/instructor/classes/${liveClass.id}`}>
+                    <Button size="sm" variant="outline">
+                      <Users className="h-4 w-4 mr-1" />
+                      উপস্থিতি ও রেকর্ডিং
+                    </Button>
+                  </Link>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getPronunciationReview } from "@/lib/api";
+import { PROBLEM_LETTER_SCORE, type PronunciationReviewRow } from "@shared/pronunciation";
+import { Mic, AlertCircle, ChevronLeft, ChevronRight, X } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+function studentName(row: PronunciationReviewRow): string {
+  return [row.users?.first_name, row.users?.last_name].filter(Boolean).join(' ') || row.users?.email || row.user_id;
+}
+
+function ScoreBadge({ score }: { score: number }) {
+  const className = score >= 80
+    ? "border-green-300 text-green-700"
+    : score >= PROBLEM_LETTER_SCORE
+      ? "border-amber-300 text-amber-700"
+      : "border-red-300 text-red-700";
+  return <Badge variant="outline" className={className}>{score}%</Badge>;
+}
+
+/**
+ * Students' scored pronunciation attempts, newest first; picking a student
+ * shows only their attempts so their progress can be followed
+ */
+export default function PronunciationReviewPanel() {
+  const [page, setPage] = useState(1);
+  const [student, setStudent] = useState<{ id: string; name: string } | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['pronunciation-review', student?.id ?? null, page],
+    queryFn: () => getPronunciationReview({ userId: student?.id, page })
+  });
+  const attempts = data?.data ?? [];
+  const totalPages = data?.pagination.totalPages ?? 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2 text-islamic-green">
+            <Mic className="h-5 w-5" />
+            <span>উচ্চারণ অনুশীলন</span>
+          </CardTitle>
+          {student && (
+            <Button variant="outline" size="sm" onClick={() => { setStudent(null); setPage(1); }}>
+              {student.name}
+              <X className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+            উচ্চারণ অনুশীলনের তথ্য লোড করতে ব্যর্থ
+          </div>
+        ) : attempts.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            এখনো কোনো উচ্চারণ অনুশীলন জমা হয়নি
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="p-3 font-medium">শিক্ষার্থী</th>
+                    <th className="p-3 font-medium">পাঠ</th>
+                    <th className="p-3 font-medium">অনুশীলিত অংশ</th>
+                    <th className="p-3 font-medium">নম্বর</th>
+                    <th className="p-3 font-medium">দুর্বল হরফ</th>
+                    <th className="p-3 font-medium">সময়</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {attempts.map((attempt) => (
+                    <tr key={attempt.id} className="border-b last:border-0">
+                      <td className="p-3">
+                        <button
+                          className="text-left hover:underline"
+                          onClick={() => { setStudent({ id: attempt.user_id, name: studentName(attempt) }); setPage(1); }}
+                        >
+                          {studentName(attempt)}
+                        </button>
+                      </td>
+                      <td className="p-3">{attempt.lessons?.title_bn || attempt.lessons?.title || '—'}</td>
+                      <td className="p-3">
+                        <p dir="rtl" lang="ar" className="text-xl max-w-xs truncate" title={attempt.target_text}>
+                          {attempt.target_text}
+                        </p>
+                      </td>
+                      <td className="p-3"><ScoreBadge score={attempt.score} /></td>
+                      <td className="p-3">
+                        {attempt.problem_letters.length > 0 ? (
+                          <span dir="rtl" lang="ar" className="text-xl text-red-700">{attempt.problem_letters.join(' ')}</span>
+                        ) : "—"}
+                      </td>
+                      <td className="p-3 whitespace-nowrap">
+                        {format(new Date(attempt.created_at), "dd MMM yyyy, HH:mm", { locale: bn })}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center space-x-3">
+                <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-gray-600">{page} / {totalPages}</span>
+                <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
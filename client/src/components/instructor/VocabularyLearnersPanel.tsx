@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getVocabularyLearners } from "@/lib/api";
+import type { VocabularyLearner } from "@shared/vocabulary";
+import { Languages, Flame, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+// Overdue words from which a student counts as falling behind
+const BEHIND_THRESHOLD = 20;
+
+function PracticeBadge({ learner }: { learner: VocabularyLearner }) {
+  if (!learner.last_review_on) {
+    return <Badge variant="outline" className="border-red-300 text-red-700">শুরু করেনি</Badge>;
+  }
+  if (learner.overdue_count >= BEHIND_THRESHOLD || learner.reviews_last_week === 0) {
+    return <Badge variant="outline" className="border-amber-300 text-amber-700">পিছিয়ে আছে</Badge>;
+  }
+  return <Badge variant="outline" className="border-green-300 text-green-700">নিয়মিত</Badge>;
+}
+
+/**
+ * Students' vocabulary practice, the most behind first, so instructors can
+ * follow up between live classes
+ */
+export default function VocabularyLearnersPanel() {
+  const { data: learners = [], isLoading, error } = useQuery({
+    queryKey: ['vocabulary-learners'],
+    queryFn: getVocabularyLearners
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-islamic-green">
+          <Languages className="h-5 w-5" />
+          <span>শব্দ অনুশীলন</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">
+            <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+            শব্দ অনুশীলনের তথ্য লোড করতে ব্যর্থ
+          </div>
+        ) : learners.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            কোনো শিক্ষার্থী এখনো শব্দভান্ডার পাঠ শেষ করেনি
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="p-3 font-medium">শিক্ষার্থী</th>
+                  <th className="p-3 font-medium">অবস্থা</th>
+                  <th className="p-3 font-medium text-right">বকেয়া শব্দ</th>
+                  <th className="p-3 font-medium text-right">শেখা শুরু</th>
+                  <th className="p-3 font-medium text-right">গত ৭ দিনে</th>
+                  <th className="p-3 font-medium">ধারাবাহিকতা</th>
+                  <th className="p-3 font-medium">শেষ অনুশীলন</th>
+                </tr>
+              </thead>
+              <tbody>
+                {learners.map((learner) => (
+                  <tr key={learner.user_id} className="border-b last:border-0">
+                    <td className="p-3">
+                      <p>{[learner.first_name, learner.last_name].filter(Boolean).join(' ') || learner.email}</p>
+                      <p className="text-xs text-gray-500">{learner.email}</p>
+                    </td>
+                    <td className="p-3"><PracticeBadge learner={learner} /></td>
+                    <td className="p-3 text-right">
+                      {learner.overdue_count}
+                      {learner.due_count > learner.overdue_count && (
+                        <span className="text-xs text-gray-500"> (+{learner.due_count - learner.overdue_count} আজ)</span>
+                      )}
+                    </td>
+                    <td className="p-3 text-right">{learner.words_started}</td>
+                    <td className="p-3 text-right">{learner.reviews_last_week}</td>
+                    <td className="p-3">
+                      <span className="inline-flex items-center space-x-1">
+                        <Flame className="h-4 w-4 text-orange-500" />
+                        <span>{learner.current_streak} দিন</span>
+                        <span className="text-xs text-gray-500">(সর্বোচ্চ {learner.longest_streak})</span>
+                      </span>
+                    </td>
+                    <td className="p-3">
+                      {learner.last_review_on
+                        ? format(new Date(learner.last_review_on), "dd MMM yyyy", { locale: bn })
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -62,8 +62,14 @@ export function VideoSDKProvider({ children }: VideoSDKProviderProps) {
         await sdk.destroy();
       }
 
-      // Create SDK instance
-      const newSDK = new VideoSDK(config);
+      // Create SDK instance; signaling authenticates with the app's session
+      const newSDK = new VideoSDK({
+        getAccessToken: async () => {
+          const { data } = await supabase.auth.getSession();
+          return data.session?.access_token ?? null;
+        },
+        ...config
+      });
       setSdk(newSDK);
       
       // Wait for async initialization to complete
@@ -292,6 +298,16 @@ export function VideoSDKProvider({ children }: VideoSDKProviderProps) {
       console.error('🚨 SDK Error:', data.message);
       setError(data.message);
     });
+
+    sdkInstance.on('session-replaced', () => {
+      setIsConnected(false);
+      setError('You joined this room from another device or tab');
+    });
+
+    sdkInstance.on('connection-rejected', () => {
+      setIsConnected(false);
+      setError('Not allowed to join this room; sign in again');
+    });
   };
 
   // Setup real-time participant database subscription
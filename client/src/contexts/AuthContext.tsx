@@ -3,6 +3,8 @@ import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { securityManager } from '@/lib/security';
+import { normalizeRole, type Permission, type Role } from '@shared/rbac';
+import { DEFAULT_DIALECT, type Dialect } from '@shared/dialects';
 
 // Enhanced user profile interface
 interface UserProfile {
@@ -12,16 +14,27 @@ interface UserProfile {
   last_name: string | null;
   phone: string | null;
   profile_image_url: string | null;
-  enrollment_status: 'pending' | 'active' | 'suspended' | 'completed';
-  payment_status: 'pending' | 'paid' | 'overdue' | 'refunded';
+  // The `enrollment_status` and `payment_status` enums of the users table
+  enrollment_status: 'pending' | 'enrolled' | 'completed' | 'cancelled';
+  payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
   course_progress: number;
   classes_attended: number;
   certificate_score: number;
-  role: 'student' | 'instructor' | 'admin';
+  // Spoken dialect shown next to MSA in lessons
+  preferred_dialect: Dialect;
+  role: Role;
+  // Grants of the role from `role_permissions`; unset means the defaults in shared/rbac.ts
+  permissions?: Permission[];
   created_at: string;
   updated_at: string;
 }
 
+// Columns of `users` a user may change from their profile; enrollment,
+// payment and progress are only ever written by the server
+const EDITABLE_PROFILE_FIELDS = ['first_name', 'last_name', 'phone', 'preferred_dialect'] as const;
+
+type ProfileUpdate = Partial<Pick<UserProfile, typeof EDITABLE_PROFILE_FIELDS[number]>>;
+
 // Authentication state interface
 interface AuthState {
   user: User | null;
@@ -37,7 +50,7 @@ interface AuthActions {
   signUp: (email: string, password: string, metadata?: Record<string, any>) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<{ error: AuthError | null }>;
   resetPassword: (email: string) => Promise<{ error: AuthError | null }>;
-  updateProfile: (updates: Partial<UserProfile>) => Promise<{ error: AuthError | null }>;
+  updateProfile: (updates: ProfileUpdate) => Promise<{ error: AuthError | null }>;
   refreshProfile: () => Promise<void>;
 }
 
@@ -73,6 +86,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
   
   const { toast } = useToast();
 
+  // What the user's role may do; undefined falls back to the built-in defaults
+  const fetchRolePermissions = async (role: Role): Promise<Permission[] | undefined> => {
+    const { data, error } = await supabase
+      .from('role_permissions')
+      .select('action, resource')
+      .eq('role', role);
+
+    if (error) {
+      console.warn('⚠️ Could not load role permissions, using defaults:', error.message);
+      return undefined;
+    }
+    return data as Permission[];
+  };
+
   // Fetch user profile from database with better error handling
   const fetchUserProfile = async (userId: string): Promise<UserProfile | null> => {
     try {
@@ -90,7 +117,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       
       const { data, error } = await supabase
         .from('users')
-        .select('id, email, first_name, last_name, phone, profile_image_url, enrollment_status, payment_status, course_progress, classes_attended, certificate_score, role, created_at, updated_at')
+        .select('id, email, first_name, last_name, phone, profile_image_url, enrollment_status, payment_status, course_progress, classes_attended, certificate_score, preferred_dialect, role, created_at, updated_at')
         .eq('id', userId)
         .single();
 
@@ -113,7 +140,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       }
 
       console.log('✅ User profile fetched successfully:', data);
-      return data as UserProfile;
+      const role = normalizeRole(data.role);
+      return { ...data, role, permissions: await fetchRolePermissions(role) } as UserProfile;
     } catch (error) {
       console.error('❌ Error fetching user profile:', {
         error,
@@ -149,7 +177,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
         course_progress: 0,
         classes_attended: 0,
         certificate_score: 0,
-        role: userId === '3b077064-343c-4938-9ae0-52a866156162' ? 'admin' as const : 'student' as const, // Preserve admin role
+        preferred_dialect: DEFAULT_DIALECT,
+        // Assigned by an admin (database-rbac.sql) and carried in the token
+        role: normalizeRole(user.app_metadata?.role),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
@@ -260,7 +290,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
               course_progress: 0,
               classes_attended: 0,
               certificate_score: 0,
-              role: user.id === '3b077064-343c-4938-9ae0-52a866156162' ? 'admin' : 'student',
+              preferred_dialect: DEFAULT_DIALECT,
+              role: normalizeRole(user.app_metadata?.role),
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString()
             };
@@ -519,16 +550,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
   // Update profile function
-  const updateProfile = async (updates: Partial<UserProfile>) => {
+  const updateProfile = async (updates: ProfileUpdate) => {
     if (!state.user) {
       return { error: new Error('No authenticated user') as AuthError };
     }
 
+    // Callers may pass a whole profile object; only the editable columns are sent
+    const changes = Object.fromEntries(
+      EDITABLE_PROFILE_FIELDS.filter(field => updates[field] !== undefined).map(field => [field, updates[field]])
+    ) as ProfileUpdate;
+
     try {
+      // The profile is read from `users` (fetchProfile), so it is written there too
       const { error } = await supabase
-        .from('user_profiles')
+        .from('users')
         .update({
-          ...updates,
+          ...changes,
           updated_at: new Date().toISOString(),
         })
         .eq('id', state.user.id);
@@ -1,6 +1,55 @@
 // Real API functions using Supabase with security enhancements
 import { supabase } from './supabase';
 import { securityManager } from './security';
+import { apiRequest } from './queryClient';
+import type { ClassListQuery } from '@shared/classes';
+import type { PaginatedResponse } from '@shared/pagination';
+import type { Coupon, CouponPayload, CouponUpdate, CourseAccess, CourseEnrollment, CourseProduct, EnrollmentRequest, PriceQuote } from '@shared/pricing';
+import type { Permission, PermissionMatrix, Role, RoleChange, RoleMember } from '@shared/rbac';
+import type {
+  CurriculumModule,
+  CurriculumUnit,
+  Lesson,
+  LessonPayload,
+  LessonPrerequisite,
+  LessonProgress,
+  LessonSummary,
+  LessonUpdate,
+  ModulePayload,
+  ModuleUpdate,
+  UnitPayload,
+  UnitUpdate
+} from '@shared/curriculum';
+import type {
+  ClassSession,
+  ClassSessionWithAttendance,
+  HomeworkForGrading,
+  HomeworkGrade,
+  HomeworkStatus,
+  InstructorClass,
+  StartedSession
+} from '@shared/instructor';
+import type { CourseProgress, ProgressWeights } from '@shared/progress';
+import type {
+  Certificate,
+  CertificateCriteria,
+  CertificateVerification,
+  CourseCertificateCriteria,
+  CourseCertificateStatus
+} from '@shared/certificates';
+import type {
+  QuestionPayload,
+  QuestionUpdate,
+  QuizAttemptResult,
+  QuizAttemptView,
+  QuizOverview,
+  QuizQuestion,
+  QuizSubmission
+} from '@shared/quizzes';
+import type { VocabularyLearner, VocabularyQueue, VocabularyReview, VocabularyReviewResult } from '@shared/vocabulary';
+import type { PronunciationAttempt, PronunciationAttemptPayload, PronunciationReviewRow } from '@shared/pronunciation';
+import type { HandwritingTemplate, HandwritingTemplatePayload } from '@shared/handwriting';
+import type { QuranAyah, QuranAyahQuery, QuranIndex } from '@shared/quran';
 import type { 
   User, 
   CourseModule, 
@@ -9,7 +58,10 @@ import type {
   PaymentRecord, 
   HomeworkSubmission,
   LiveClassWithDetails,
-  AttendanceWithClass
+  AttendanceWithClass,
+  ManualPaymentWithUser,
+  PaymentEvent,
+  PaymentReceipt
 } from './types';
 
 // User functions
@@ -89,6 +141,7 @@ export const getLiveClasses = async (): Promise<LiveClassWithDetails[]> => {
         description,
         description_bn,
         module_id,
+        lesson_id,
         instructor_id,
         scheduled_at,
         duration,
@@ -169,40 +222,33 @@ export const updateClassParticipants = async (classId: string, increment: boolea
   return data;
 };
 
-// Admin class management functions
-export const createLiveClass = async (classData: Omit<LiveClass, 'id' | 'created_at'>) => {
-  try {
-    const { data, error } = await supabase
-      .from('live_classes')
-      .insert(classData)
-      .select()
-      .single();
-      
-    if (error) {
-      console.error('Error creating live class:', error);
-      throw error;
+// Admin class management goes through the server, which checks roles and validates input
+export const listLiveClasses = async (filters: Partial<Record<keyof ClassListQuery, string | number | boolean>> = {}): Promise<PaginatedResponse<LiveClassWithDetails>> => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
     }
-    return data;
+  }
+  const query = params.toString();
+  const response = await apiRequest('GET', `/api/classes${query ? `?${query}` : ''}`);
+  return response.json();
+};
+
+export const createLiveClass = async (classData: Omit<LiveClass, 'id' | 'created_at'>): Promise<LiveClassWithDetails> => {
+  try {
+    const response = await apiRequest('POST', '/api/classes', classData);
+    return await response.json();
   } catch (error) {
     console.error('Failed to create live class:', error);
     throw error;
   }
 };
 
-export const updateLiveClass = async (classId: string, updates: Partial<LiveClass>) => {
+export const updateLiveClass = async (classId: string, updates: Partial<LiveClass>): Promise<LiveClassWithDetails> => {
   try {
-    const { data, error } = await supabase
-      .from('live_classes')
-      .update(updates)
-      .eq('id', classId)
-      .select()
-      .single();
-      
-    if (error) {
-      console.error('Error updating live class:', error);
-      throw error;
-    }
-    return data;
+    const response = await apiRequest('PATCH', `/api/classes/${classId}`, updates);
+    return await response.json();
   } catch (error) {
     console.error('Failed to update live class:', error);
     throw error;
@@ -211,15 +257,7 @@ export const updateLiveClass = async (classId: string, updates: Partial<LiveClas
 
 export const deleteLiveClass = async (classId: string) => {
   try {
-    const { error } = await supabase
-      .from('live_classes')
-      .delete()
-      .eq('id', classId);
-      
-    if (error) {
-      console.error('Error deleting live class:', error);
-      throw error;
-    }
+    await apiRequest('DELETE', `/api/classes/${classId}`);
     return true;
   } catch (error) {
     console.error('Failed to delete live class:', error);
@@ -309,19 +347,372 @@ export const createPaymentRecord = async (payment: Omit<PaymentRecord, 'id' | 'c
   return data;
 };
 
-export const updatePaymentStatus = async (paymentId: string, status: string, transactionId?: string) => {
-  const updateData: any = { status };
-  if (transactionId) updateData.transaction_id = transactionId;
-  
-  const { data, error } = await supabase
-    .from('payment_records')
-    .update(updateData)
-    .eq('id', paymentId)
-    .select()
-    .single();
-    
-  if (error) throw error;
-  return data;
+// Manual payment verification (admin)
+export const getManualPayments = async (status: 'pending' | 'paid' | 'failed' | 'refunded' = 'pending'): Promise<PaginatedResponse<ManualPaymentWithUser>> => {
+  const response = await apiRequest('GET', `/api/admin/payments/manual?status=${status}`);
+  return response.json();
+};
+
+export const reviewManualPayment = async (paymentId: string, decision: 'approve' | 'reject', notes?: string): Promise<PaymentRecord> => {
+  const response = await apiRequest('POST', `/api/admin/payments/manual/${encodeURIComponent(paymentId)}/${decision}`, { notes });
+  return response.json();
+};
+
+export const refundPayment = async (paymentId: string, reason: string, reference?: string): Promise<PaymentRecord> => {
+  const response = await apiRequest('POST', `/api/admin/payments/${encodeURIComponent(paymentId)}/refund`, { reason, reference });
+  return response.json();
+};
+
+export const getPaymentEvents = async (paymentId: string): Promise<PaymentEvent[]> => {
+  const response = await apiRequest('GET', `/api/admin/payments/${encodeURIComponent(paymentId)}/events`);
+  return response.json();
+};
+
+// Receipts
+export const getMyReceipts = async (): Promise<PaymentReceipt[]> => {
+  const response = await apiRequest('GET', '/api/receipts');
+  return response.json();
+};
+
+// Saves the printable receipt page; it needs the bearer token, so it cannot be a plain link
+export const downloadReceipt = async (invoiceNumber: string, lang: 'bn' | 'en') => {
+  const response = await apiRequest('GET', `/api/receipts/${encodeURIComponent(invoiceNumber)}?lang=${lang}`);
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `receipt-${invoiceNumber}-${lang}.html`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Certificates
+export const getMyCertificates = async (): Promise<CourseCertificateStatus[]> => {
+  const response = await apiRequest('GET', '/api/certificates');
+  return response.json();
+};
+
+export const claimCertificate = async (productId: string): Promise<Certificate> => {
+  const response = await apiRequest('POST', '/api/certificates', { product_id: productId });
+  return response.json();
+};
+
+// Public; works without signing in
+export const verifyCertificate = async (serial: string): Promise<CertificateVerification> => {
+  const response = await apiRequest('GET', `/api/certificates/verify/${encodeURIComponent(serial)}`);
+  return response.json();
+};
+
+// The printable certificate is public, so unlike receipts it can be a plain link
+export const certificateDocumentUrl = (serial: string) => `/api/certificates/${encodeURIComponent(serial)}/document`;
+export const certificatePdfUrl = (serial: string) => `/api/certificates/${encodeURIComponent(serial)}/pdf`;
+
+export const getCertificateCriteria = async (): Promise<CourseCertificateCriteria[]> => {
+  const response = await apiRequest('GET', '/api/admin/certificates/criteria');
+  return response.json();
+};
+
+export const setCertificateCriteria = async (productId: string, criteria: CertificateCriteria): Promise<CertificateCriteria> => {
+  const response = await apiRequest('PUT', `/api/admin/certificates/criteria/${productId}`, criteria);
+  return response.json();
+};
+
+export const getIssuedCertificates = async (page = 1, pageSize = 20): Promise<PaginatedResponse<Certificate>> => {
+  const response = await apiRequest('GET', `/api/admin/certificates?page=${page}&page_size=${pageSize}`);
+  return response.json();
+};
+
+export const revokeCertificate = async (serial: string, reason: string): Promise<Certificate> => {
+  const response = await apiRequest('POST', `/api/admin/certificates/${encodeURIComponent(serial)}/revoke`, { reason });
+  return response.json();
+};
+
+// Pricing and enrollment
+export const getCourseCatalog = async (): Promise<CourseProduct[]> => {
+  const response = await apiRequest('GET', '/api/pricing/catalog');
+  return response.json();
+};
+
+export const quoteEnrollment = async (request: EnrollmentRequest): Promise<PriceQuote> => {
+  const response = await apiRequest('POST', '/api/pricing/quote', request);
+  return response.json();
+};
+
+export const enrollInCourse = async (request: EnrollmentRequest): Promise<CourseEnrollment> => {
+  const response = await apiRequest('POST', '/api/pricing/enrollments', request);
+  return response.json();
+};
+
+export const getMyEnrollments = async (): Promise<CourseEnrollment[]> => {
+  const response = await apiRequest('GET', '/api/pricing/enrollments');
+  return response.json();
+};
+
+export const getCourseAccess = async (): Promise<CourseAccess> => {
+  const response = await apiRequest('GET', '/api/pricing/access');
+  return response.json();
+};
+
+export const getCoupons = async (): Promise<PaginatedResponse<Coupon>> => {
+  const response = await apiRequest('GET', '/api/admin/pricing/coupons?page_size=100');
+  return response.json();
+};
+
+export const createCoupon = async (coupon: CouponPayload): Promise<Coupon> => {
+  const response = await apiRequest('POST', '/api/admin/pricing/coupons', coupon);
+  return response.json();
+};
+
+export const updateCoupon = async (id: string, updates: CouponUpdate): Promise<Coupon> => {
+  const response = await apiRequest('PATCH', `/api/admin/pricing/coupons/${id}`, updates);
+  return response.json();
+};
+
+// Roles and permissions (admin)
+export const getRoleMembers = async (filters: { search?: string; role?: Role } = {}): Promise<PaginatedResponse<RoleMember>> => {
+  const params = new URLSearchParams({ page_size: '50' });
+  if (filters.search) params.set('search', filters.search);
+  if (filters.role) params.set('role', filters.role);
+  const response = await apiRequest('GET', `/api/admin/roles/users?${params}`);
+  return response.json();
+};
+
+export const assignRole = async (userId: string, role: Role): Promise<RoleMember> => {
+  const response = await apiRequest('PUT', `/api/admin/roles/users/${userId}`, { role });
+  return response.json();
+};
+
+export const getRoleChanges = async (userId: string): Promise<RoleChange[]> => {
+  const response = await apiRequest('GET', `/api/admin/roles/users/${userId}/changes`);
+  return response.json();
+};
+
+export const getPermissionMatrix = async (): Promise<PermissionMatrix> => {
+  const response = await apiRequest('GET', '/api/admin/roles/permissions');
+  return response.json();
+};
+
+export const setRolePermissions = async (role: Role, permissions: Permission[]): Promise<Permission[]> => {
+  const response = await apiRequest('PUT', `/api/admin/roles/permissions/${role}`, { permissions });
+  return response.json();
+};
+
+// Instructor portal
+export const getInstructorClasses = async (): Promise<InstructorClass[]> => {
+  const response = await apiRequest('GET', '/api/instructor/classes');
+  return response.json();
+};
+
+export const startClassSession = async (classId: string): Promise<StartedSession> => {
+  const response = await apiRequest('POST', `/api/instructor/classes/${classId}/session`);
+  return response.json();
+};
+
+export const endClassSession = async (classId: string): Promise<ClassSession> => {
+  const response = await apiRequest('DELETE', `/api/instructor/classes/${classId}/session`);
+  return response.json();
+};
+
+export const getClassSessions = async (classId: string): Promise<ClassSessionWithAttendance[]> => {
+  const response = await apiRequest('GET', `/api/instructor/classes/${classId}/sessions`);
+  return response.json();
+};
+
+export const publishClassRecording = async (classId: string, recordingUrl: string | null): Promise<InstructorClass> => {
+  const response = await apiRequest('PUT', `/api/instructor/classes/${classId}/recording`, { recording_url: recordingUrl });
+  return response.json();
+};
+
+export const getHomeworkForGrading = async (filters: { classId?: string; status?: HomeworkStatus } = {}): Promise<PaginatedResponse<HomeworkForGrading>> => {
+  const params = new URLSearchParams({ page_size: '50' });
+  if (filters.classId) params.set('class_id', filters.classId);
+  if (filters.status) params.set('status', filters.status);
+  const response = await apiRequest('GET', `/api/instructor/homework?${params}`);
+  return response.json();
+};
+
+export const gradeHomework = async (submissionId: string, grade: HomeworkGrade): Promise<HomeworkForGrading> => {
+  const response = await apiRequest('PUT', `/api/instructor/homework/${submissionId}/grade`, grade);
+  return response.json();
+};
+
+// Curriculum
+export const getCurriculum = async (filters: { moduleId?: string; includeInactive?: boolean } = {}): Promise<CurriculumModule[]> => {
+  const params = new URLSearchParams();
+  if (filters.moduleId) params.set('module_id', filters.moduleId);
+  if (filters.includeInactive) params.set('include_inactive', 'true');
+  const query = params.toString();
+  const response = await apiRequest('GET', `/api/curriculum${query ? `?${query}` : ''}`);
+  return response.json();
+};
+
+export const getLesson = async (lessonId: string): Promise<Lesson> => {
+  const response = await apiRequest('GET', `/api/curriculum/lessons/${lessonId}`);
+  return response.json();
+};
+
+export const completeLesson = async (lessonId: string): Promise<LessonProgress> => {
+  const response = await apiRequest('POST', `/api/curriculum/lessons/${lessonId}/complete`);
+  return response.json();
+};
+
+// Curriculum authoring (admins and instructors)
+export const createCourseModule = async (module: ModulePayload): Promise<Omit<CurriculumModule, 'units'>> => {
+  const response = await apiRequest('POST', '/api/admin/curriculum/modules', module);
+  return response.json();
+};
+
+export const updateCourseModule = async (moduleId: string, updates: ModuleUpdate): Promise<Omit<CurriculumModule, 'units'>> => {
+  const response = await apiRequest('PATCH', `/api/admin/curriculum/modules/${moduleId}`, updates);
+  return response.json();
+};
+
+export const createCourseUnit = async (unit: UnitPayload): Promise<Omit<CurriculumUnit, 'lessons'>> => {
+  const response = await apiRequest('POST', '/api/admin/curriculum/units', unit);
+  return response.json();
+};
+
+export const updateCourseUnit = async (unitId: string, updates: UnitUpdate): Promise<Omit<CurriculumUnit, 'lessons'>> => {
+  const response = await apiRequest('PATCH', `/api/admin/curriculum/units/${unitId}`, updates);
+  return response.json();
+};
+
+export const deleteCourseUnit = async (unitId: string) => {
+  await apiRequest('DELETE', `/api/admin/curriculum/units/${unitId}`);
+  return true;
+};
+
+export const createLesson = async (lesson: LessonPayload): Promise<Omit<LessonSummary, 'prerequisites' | 'state'>> => {
+  const response = await apiRequest('POST', '/api/admin/curriculum/lessons', lesson);
+  return response.json();
+};
+
+export const updateLesson = async (lessonId: string, updates: LessonUpdate): Promise<Omit<LessonSummary, 'prerequisites' | 'state'>> => {
+  const response = await apiRequest('PATCH', `/api/admin/curriculum/lessons/${lessonId}`, updates);
+  return response.json();
+};
+
+export const deleteLesson = async (lessonId: string) => {
+  await apiRequest('DELETE', `/api/admin/curriculum/lessons/${lessonId}`);
+  return true;
+};
+
+export const setLessonPrerequisites = async (lessonId: string, prerequisites: LessonPrerequisite[]): Promise<LessonPrerequisite[]> => {
+  const response = await apiRequest('PUT', `/api/admin/curriculum/lessons/${lessonId}/prerequisites`, { prerequisites });
+  return response.json();
+};
+
+export const getModuleProgressWeights = async (moduleId: string): Promise<ProgressWeights> => {
+  const response = await apiRequest('GET', `/api/admin/curriculum/modules/${moduleId}/progress-weights`);
+  return response.json();
+};
+
+export const setModuleProgressWeights = async (moduleId: string, weights: ProgressWeights): Promise<ProgressWeights> => {
+  const response = await apiRequest('PUT', `/api/admin/curriculum/modules/${moduleId}/progress-weights`, weights);
+  return response.json();
+};
+
+export const getQuizQuestions = async (lessonId: string): Promise<QuizQuestion[]> => {
+  const response = await apiRequest('GET', `/api/admin/curriculum/lessons/${lessonId}/questions`);
+  return response.json();
+};
+
+export const createQuizQuestion = async (lessonId: string, question: QuestionPayload): Promise<QuizQuestion> => {
+  const response = await apiRequest('POST', `/api/admin/curriculum/lessons/${lessonId}/questions`, question);
+  return response.json();
+};
+
+export const updateQuizQuestion = async (questionId: string, updates: QuestionUpdate): Promise<QuizQuestion> => {
+  const response = await apiRequest('PATCH', `/api/admin/curriculum/questions/${questionId}`, updates);
+  return response.json();
+};
+
+export const deleteQuizQuestion = async (questionId: string) => {
+  await apiRequest('DELETE', `/api/admin/curriculum/questions/${questionId}`);
+  return true;
+};
+
+// Quizzes; graded by the server
+export const getQuizOverview = async (lessonId: string): Promise<QuizOverview> => {
+  const response = await apiRequest('GET', `/api/quizzes/lessons/${lessonId}`);
+  return response.json();
+};
+
+export const startQuizAttempt = async (lessonId: string): Promise<QuizAttemptView> => {
+  const response = await apiRequest('POST', `/api/quizzes/lessons/${lessonId}/attempts`);
+  return response.json();
+};
+
+export const submitQuizAttempt = async (attemptId: string, submission: QuizSubmission): Promise<QuizAttemptResult> => {
+  const response = await apiRequest('POST', `/api/quizzes/attempts/${attemptId}/submit`, submission);
+  return response.json();
+};
+
+// Vocabulary practice; scheduled by the server
+export const getVocabularyQueue = async (): Promise<VocabularyQueue> => {
+  const response = await apiRequest('GET', '/api/vocabulary/queue');
+  return response.json();
+};
+
+export const reviewVocabularyWord = async (review: VocabularyReview): Promise<VocabularyReviewResult> => {
+  const response = await apiRequest('POST', '/api/vocabulary/reviews', review);
+  return response.json();
+};
+
+export const getVocabularyLearners = async (): Promise<VocabularyLearner[]> => {
+  const response = await apiRequest('GET', '/api/vocabulary/learners');
+  return response.json();
+};
+
+// Pronunciation practice; recordings are scored in the browser
+export const getPronunciationAttempts = async (lessonId?: string): Promise<PronunciationAttempt[]> => {
+  const params = new URLSearchParams();
+  if (lessonId) params.set('lesson_id', lessonId);
+  const response = await apiRequest('GET', `/api/pronunciation/attempts?${params}`);
+  return response.json();
+};
+
+export const savePronunciationAttempt = async (attempt: PronunciationAttemptPayload): Promise<PronunciationAttempt> => {
+  const response = await apiRequest('POST', '/api/pronunciation/attempts', attempt);
+  return response.json();
+};
+
+export const getPronunciationReview = async (filters: { userId?: string; lessonId?: string; page?: number } = {}): Promise<PaginatedResponse<PronunciationReviewRow>> => {
+  const params = new URLSearchParams({ page: String(filters.page ?? 1), page_size: '50' });
+  if (filters.userId) params.set('user_id', filters.userId);
+  if (filters.lessonId) params.set('lesson_id', filters.lessonId);
+  const response = await apiRequest('GET', `/api/pronunciation/review?${params}`);
+  return response.json();
+};
+
+// Handwriting practice; writing is checked in the browser against these models
+export const getHandwritingTemplates = async (): Promise<HandwritingTemplate[]> => {
+  const response = await apiRequest('GET', '/api/handwriting/templates');
+  return response.json();
+};
+
+export const saveHandwritingTemplate = async (template: HandwritingTemplatePayload): Promise<HandwritingTemplate> => {
+  const response = await apiRequest('PUT', '/api/handwriting/templates', template);
+  return response.json();
+};
+
+export const deleteHandwritingTemplate = async (templateId: string) => {
+  await apiRequest('DELETE', `/api/handwriting/templates/${templateId}`);
+  return true;
+};
+
+// Quran text; what is available depends on the data installed on the server
+export const getQuranIndex = async (): Promise<QuranIndex> => {
+  const response = await apiRequest('GET', '/api/quran/index');
+  return response.json();
+};
+
+export const getQuranAyahs = async (query: QuranAyahQuery): Promise<QuranAyah[]> => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const response = await apiRequest('GET', `/api/quran/ayahs?${params}`);
+  return response.json();
 };
 
 // Homework functions
@@ -436,27 +827,8 @@ export const registerUserForCourse = async (userData: {
   return createUserProfile((await user).data.user?.id!, profile);
 };
 
-// Progress tracking
-export const updateUserProgress = async (userId: string, progress: number) => {
-  const { data, error } = await supabase
-    .from('users')
-    .update({ 
-      course_progress: progress,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId)
-    .select()
-    .single();
-    
-  if (error) throw error;
-  return data;
+// Progress tracking; computed by the server from lessons, attendance, homework and quizzes
+export const getCourseProgress = async (userId?: string): Promise<CourseProgress> => {
+  const response = await apiRequest('GET', userId ? `/api/progress/users/${userId}` : '/api/progress');
+  return response.json();
 };
-
-export const incrementClassesAttended = async (userId: string) => {
-  const { data, error } = await supabase.rpc('increment_classes_attended', {
-    user_id: userId
-  });
-  
-  if (error) throw error;
-  return data;
-};
\ No newline at end of file
@@ -20,4 +20,3 @@ export const PAYMENT_METHODS = {
   }
 };
 
-export const COURSE_FEE = 600; // BDT
\ No newline at end of file
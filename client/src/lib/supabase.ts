@@ -234,25 +234,6 @@ export const createPaymentRecord = async (userId: string, paymentData: {
   return { data, error };
 };
 
-export const updatePaymentStatus = async (paymentId: string, status: string, transactionId?: string) => {
-  const updateData: any = { 
-    status,
-    updated_at: new Date().toISOString()
-  };
-  
-  if (transactionId) {
-    updateData.transaction_id = transactionId;
-  }
-  
-  const { data, error } = await supabase
-    .from('payment_records')
-    .update(updateData)
-    .eq('payment_id', paymentId)
-    .select()
-    .single();
-  return { data, error };
-};
-
 export const createHomeworkSubmission = async (submissionData: {
   user_id: string;
   class_id: string;
@@ -36,6 +36,8 @@ export interface LiveClass {
   description: string | null;
   description_bn: string | null;
   module_id: string | null;
+  // Curriculum lesson the class teaches (database-curriculum.sql)
+  lesson_id: string | null;
   instructor_id: string | null;
   scheduled_at: string;
   duration: number;
@@ -64,10 +66,54 @@ export interface PaymentRecord {
   status: string;
   phone_number: string | null;
   transaction_id: string | null;
+  installment_id: string | null;
+  verification_notes: string | null;
+  verified_by: string | null;
+  verified_at: string | null;
+  refunded_by: string | null;
+  refunded_at: string | null;
+  refund_reason: string | null;
+  refund_reference: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface PaymentEvent {
+  id: number;
+  payment_id: string;
+  event_type: string;
+  from_status: string | null;
+  to_status: string | null;
+  transaction_id: string | null;
+  amount: number | null;
+  actor_id: string | null;
+  source: string;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface PaymentReceipt {
+  id: string;
+  invoice_number: string;
+  payment_id: string;
+  user_id: string;
+  issued_at: string;
+  amount: number;
+  method: string;
+  transaction_id: string | null;
+  payment_ref: string | null;
+  student_name: string;
+  student_email: string | null;
+  student_phone: string | null;
+  payer_phone: string | null;
+  course_title: string | null;
+  course_title_bn: string | null;
+  installment_sequence: number | null;
+  installment_count: number | null;
+  emailed_at: string | null;
+  sms_sent_at: string | null;
+}
+
 export interface HomeworkSubmission {
   id: string;
   user_id: string;
@@ -104,6 +150,20 @@ export interface LiveClassWithDetails extends LiveClass {
     name_bn: string;
     email: string;
   };
+  // Only embedded by `/api/classes`; lessons are not readable from the browser
+  lessons?: {
+    title: string;
+    title_bn: string | null;
+  } | null;
+}
+
+export interface ManualPaymentWithUser extends PaymentRecord {
+  users: {
+    email: string;
+    display_name: string | null;
+    first_name: string | null;
+    last_name: string | null;
+  } | null;
 }
 
 export interface AttendanceWithClass extends ClassAttendance {
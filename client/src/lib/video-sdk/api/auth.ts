@@ -4,6 +4,7 @@
  */
 
 import { SupabaseClient } from '@supabase/supabase-js';
+import { can, type Action, type Role } from '@shared/rbac';
 
 export interface AuthUser {
   id: string;
@@ -34,6 +35,21 @@ export interface AuthUser {
   lastLoginAt?: Date;
 }
 
+// Platform role whose permissions each video role receives
+const PLATFORM_ROLES: Record<AuthUser['role'], Role> = {
+  admin: 'admin',
+  moderator: 'teaching_assistant',
+  user: 'student'
+};
+
+// Video SDK permission names checked against the platform permissions on video rooms
+const ROOM_ACTIONS: Record<string, Action> = {
+  create_room: 'create',
+  join_room: 'join',
+  record: 'record',
+  moderate: 'moderate'
+};
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -324,19 +340,12 @@ export class VideoAuthAPI {
   async checkPermission(userId: string, permission: string): Promise<boolean> {
     try {
       const userProfile = await this.getUserProfile(userId);
-      
-      switch (permission) {
-        case 'create_room':
-          return userProfile.permissions.canCreateRooms;
-        case 'join_room':
-          return userProfile.permissions.canJoinRooms;
-        case 'record':
-          return userProfile.permissions.canRecord;
-        case 'moderate':
-          return userProfile.permissions.canModerate;
-        default:
-          return userProfile.permissions.allowedFeatures.includes(permission);
+      const action = ROOM_ACTIONS[permission];
+
+      if (action) {
+        return can({ role: PLATFORM_ROLES[userProfile.role] }, action, 'video-room');
       }
+      return userProfile.permissions.allowedFeatures.includes(permission);
 
     } catch (error) {
       console.error('❌ Permission check failed:', error);
@@ -456,7 +465,7 @@ export class VideoAuthAPI {
       email: data.email,
       displayName: data.display_name,
       role: data.role,
-      permissions: data.permissions ? JSON.parse(data.permissions) : this.getDefaultPermissions(),
+      permissions: data.permissions ? JSON.parse(data.permissions) : this.getDefaultPermissions(data.role),
       subscription: data.subscription ? JSON.parse(data.subscription) : this.getDefaultSubscription(),
       preferences: data.preferences ? JSON.parse(data.preferences) : this.getDefaultPreferences(),
       createdAt: new Date(data.created_at),
@@ -464,12 +473,13 @@ export class VideoAuthAPI {
     };
   }
 
-  private getDefaultPermissions(): AuthUser['permissions'] {
+  private getDefaultPermissions(role: AuthUser['role'] = 'user'): AuthUser['permissions'] {
+    const subject = { role: PLATFORM_ROLES[role] };
     return {
-      canCreateRooms: true,
-      canJoinRooms: true,
-      canRecord: false,
-      canModerate: false,
+      canCreateRooms: can(subject, 'create', 'video-room'),
+      canJoinRooms: can(subject, 'join', 'video-room'),
+      canRecord: can(subject, 'record', 'video-room'),
+      canModerate: can(subject, 'moderate', 'video-room'),
       maxParticipants: 10,
       maxRoomDuration: 60, // 1 hour
       allowedFeatures: ['chat', 'reactions', 'screen_share']
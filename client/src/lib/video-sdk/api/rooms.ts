@@ -4,6 +4,14 @@
  */
 
 import { SupabaseClient } from '@supabase/supabase-js';
+import { can, type Role } from '@shared/rbac';
+
+// Platform role whose video room permissions each room role receives
+const ROOM_ROLES: Record<string, Role> = {
+  host: 'instructor',
+  moderator: 'teaching_assistant',
+  participant: 'student'
+};
 
 export interface CreateRoomRequest {
   name: string;
@@ -484,28 +492,13 @@ export class VideoRoomsAPI {
   }
 
   private generateUserPermissions(role: string, roomSettings: any): any {
-    const basePermissions = {
+    const subject = { role: ROOM_ROLES[role] ?? 'student' };
+    return {
       canSpeak: true,
       canShareScreen: roomSettings?.allowScreenShare !== false,
-      canRecord: false,
-      canModerate: false
+      canRecord: can(subject, 'record', 'video-room'),
+      canModerate: can(subject, 'moderate', 'video-room')
     };
-
-    switch (role) {
-      case 'host':
-        return {
-          ...basePermissions,
-          canRecord: true,
-          canModerate: true
-        };
-      case 'moderator':
-        return {
-          ...basePermissions,
-          canModerate: true
-        };
-      default:
-        return basePermissions;
-    }
   }
 
   private async generateConnectionCredentials(userId: string, roomId: string, permissions: any): Promise<any> {
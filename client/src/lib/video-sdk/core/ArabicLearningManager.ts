@@ -5,9 +5,15 @@
  */
 
 import { EventEmitter } from './EventEmitter';
+import { DtwPronunciationScorer, type PronunciationScorer, type SpeechSample } from './PronunciationScorer';
+import { TemplateHandwritingRecognizer, type HandwritingRecognizer } from './HandwritingRecognizer';
+import { annotateTajweed, tajweedSegments, type TajweedAnnotation, type TajweedSegment } from '@shared/tajweed';
+import type { Dialect } from '@shared/dialects';
+import type { PronunciationAssessment } from '@shared/pronunciation';
+import type { HandwritingAssessment, HandwritingStroke, HandwritingTarget, HandwritingTemplate } from '@shared/handwriting';
 
-interface ArabicLearningConfig {
-  dialect: 'MSA' | 'Egyptian' | 'Gulf' | 'Levantine' | 'Maghrebi';
+export interface ArabicLearningConfig {
+  dialect: Dialect;
   focus: 'general' | 'quranic' | 'hadith' | 'classical' | 'conversational';
   pronunciationCoaching: boolean;
   handwritingRecognition: boolean;
@@ -18,9 +24,12 @@ interface ArabicLearningConfig {
 
 export class ArabicLearningManager extends EventEmitter {
   private config: ArabicLearningConfig;
+  private scorer: PronunciationScorer;
+  private recognizer: HandwritingRecognizer = new TemplateHandwritingRecognizer();
 
-  constructor(config: Partial<ArabicLearningConfig> = {}) {
+  constructor(config: Partial<ArabicLearningConfig> = {}, scorer: PronunciationScorer = new DtwPronunciationScorer()) {
     super();
+    this.scorer = scorer;
     
     this.config = {
       dialect: 'MSA',
@@ -34,7 +43,90 @@ export class ArabicLearningManager extends EventEmitter {
     };
   }
 
+  getConfig(): ArabicLearningConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<ArabicLearningConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.emit('config-updated', this.getConfig());
+  }
+
+  /**
+   * Tajweed rules that apply in vocalized Quranic text; nothing while
+   * tajweed analysis is turned off
+   */
+  analyzeTajweed(text: string): TajweedAnnotation[] {
+    if (!this.config.tajweedAnalysis) return [];
+
+    const annotations = annotateTajweed(text);
+    this.emit('tajweed-analyzed', { text, annotations });
+    return annotations;
+  }
+
+  /**
+   * The text in runs to colour by tajweed rule
+   */
+  getTajweedSegments(text: string): TajweedSegment[] {
+    return tajweedSegments(text, this.analyzeTajweed(text));
+  }
+
+  setPronunciationScorer(scorer: PronunciationScorer): void {
+    this.scorer = scorer;
+  }
+
+  /**
+   * Score a recording of `text` against the reference recording; both are
+   * encoded audio (e.g. a MediaRecorder blob and a fetched file)
+   */
+  async assessPronunciation(reference: ArrayBuffer, recording: ArrayBuffer, text: string): Promise<PronunciationAssessment> {
+    if (!this.config.pronunciationCoaching) {
+      throw new Error('Pronunciation coaching is turned off');
+    }
+
+    const context = new AudioContext();
+    try {
+      const [referenceSample, attemptSample] = await Promise.all([
+        decodeSpeech(context, reference),
+        decodeSpeech(context, recording)
+      ]);
+      const assessment = await this.scorer.score(referenceSample, attemptSample, text);
+      this.emit('pronunciation-assessed', { text, assessment });
+      return assessment;
+    } finally {
+      void context.close();
+    }
+  }
+
+  setHandwritingRecognizer(recognizer: HandwritingRecognizer): void {
+    this.recognizer = recognizer;
+  }
+
+  /**
+   * Check a letter written on the canvas against the model strokes for its
+   * form; the other models are used to tell when a different letter was
+   * written
+   */
+  assessHandwriting(strokes: HandwritingStroke[], target: HandwritingTarget, templates: HandwritingTemplate[]): HandwritingAssessment {
+    if (!this.config.handwritingRecognition) {
+      throw new Error('Handwriting recognition is turned off');
+    }
+
+    const assessment = this.recognizer.assess(strokes, target, templates);
+    this.emit('handwriting-assessed', { target, assessment });
+    return assessment;
+  }
+
   cleanup(): void {
     this.removeAllListeners();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The first channel of an encoded recording
+ */
+async function decodeSpeech(context: AudioContext, audio: ArrayBuffer): Promise<SpeechSample> {
+  // decodeAudioData detaches the buffer it is given
+  const buffer = await context.decodeAudioData(audio.slice(0));
+  return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+}
@@ -0,0 +1,83 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HandwritingStroke, HandwritingTemplate } from '@shared/handwriting';
+import { TemplateHandwritingRecognizer } from './HandwritingRecognizer';
+
+const ALEF = '\u0627';
+const BEH = '\u0628';
+
+/**
+ * A stroke through `corners`, with points every 0.02 of the canvas
+ */
+function stroke(...corners: Array<[number, number]>): HandwritingStroke {
+  const points: HandwritingStroke = [];
+  for (let i = 0; i + 1 < corners.length; i++) {
+    const [fromX, fromY] = corners[i];
+    const [toX, toY] = corners[i + 1];
+    const steps = Math.max(1, Math.round(Math.hypot(toX - fromX, toY - fromY) / 0.02));
+    for (let step = i === 0 ? 0 : 1; step <= steps; step++) {
+      points.push({ x: fromX + ((toX - fromX) * step) / steps, y: fromY + ((toY - fromY) * step) / steps, t: points.length * 10 });
+    }
+  }
+  return points;
+}
+
+function dot(x: number, y: number): HandwritingStroke {
+  return [{ x, y, t: 0 }];
+}
+
+function template(letter: string, strokes: HandwritingStroke[]): HandwritingTemplate {
+  return { id: letter, letter, form: 'isolated', strokes, created_by: null, updated_at: '2026-01-01T00:00:00.000Z' };
+}
+
+// Written right to left, then the dot below
+const behBowl = stroke([0.85, 0.35], [0.8, 0.55], [0.5, 0.6], [0.2, 0.55], [0.15, 0.4]);
+const behDot = dot(0.5, 0.8);
+const alefStroke = stroke([0.5, 0.1], [0.5, 0.9]);
+
+const templates = [template(ALEF, [alefStroke]), template(BEH, [behBowl, behDot])];
+const target = { letter: BEH, form: 'isolated' as const };
+const recognizer = new TemplateHandwritingRecognizer();
+
+describe('TemplateHandwritingRecognizer', () => {
+  test('scores a letter written like its model in full, wherever and however large it is drawn', () => {
+    const smaller = [behBowl, behDot].map(written => written.map(point => ({ ...point, x: 0.1 + point.x / 2, y: 0.2 + point.y / 2 })));
+    const assessment = recognizer.assess(smaller, target, templates);
+
+    assert.equal(assessment.score, 100);
+    assert.deepEqual(assessment.issues, []);
+    assert.deepEqual(assessment.recognized, target);
+    assert.equal(assessment.expected_strokes, 2);
+  });
+
+  test('flags a missing dot', () => {
+    const assessment = recognizer.assess([behBowl], target, templates);
+    assert.ok(assessment.issues.includes('stroke-count'));
+    assert.equal(assessment.stroke_count, 1);
+    assert.ok(assessment.order_score < 100);
+  });
+
+  test('flags strokes written out of order', () => {
+    const assessment = recognizer.assess([behDot, behBowl], target, templates);
+    assert.ok(assessment.issues.includes('stroke-order'));
+    assert.ok(!assessment.issues.includes('shape'));
+    assert.ok(assessment.score < 100);
+  });
+
+  test('flags a stroke drawn the wrong way round, but not a dot', () => {
+    const assessment = recognizer.assess([[...behBowl].reverse(), behDot], target, templates);
+    assert.deepEqual(assessment.issues, ['stroke-direction']);
+    assert.equal(assessment.shape_score, 100);
+  });
+
+  test('recognizes another letter written in place of the target', () => {
+    const assessment = recognizer.assess([alefStroke], target, templates);
+    assert.deepEqual(assessment.recognized, { letter: ALEF, form: 'isolated' });
+    assert.ok(assessment.issues.includes('wrong-letter'));
+    assert.ok(assessment.issues.includes('shape'));
+  });
+
+  test('refuses a letter without model strokes', () => {
+    assert.throws(() => recognizer.assess([alefStroke], target, [templates[0]]), /No model strokes/);
+  });
+});
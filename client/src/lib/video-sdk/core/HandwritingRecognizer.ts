@@ -0,0 +1,291 @@
+/**
+ * HandwritingRecognizer - Check a hand-written letter against model strokes
+ * Recognizers are pluggable; the built-in one matches point clouds against
+ * the instructors' models on the device, so it needs no server or model
+ */
+
+import type {
+  HandwritingAssessment,
+  HandwritingIssue,
+  HandwritingStroke,
+  HandwritingTarget,
+  HandwritingTemplate
+} from '@shared/handwriting';
+
+export interface HandwritingRecognizer {
+  readonly name: string;
+  assess(strokes: HandwritingStroke[], target: HandwritingTarget, templates: HandwritingTemplate[]): HandwritingAssessment;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Points the whole letter is resampled to for shape matching
+const CLOUD_POINTS = 64;
+// Points each stroke is resampled to for order and direction
+const STROKE_POINTS = 16;
+// Length, as a fraction of the letter's size, given to a dot so it keeps
+// its share of points
+const DOT_LENGTH = 0.08;
+// Average point distance, in letter sizes, scored 100 and 0
+const GOOD_DISTANCE = 0.04;
+const POOR_DISTANCE = 0.2;
+// Shape scores below this are reported as a shape problem
+const SHAPE_PASS = 60;
+
+/**
+ * Reference recognizer after the $P point-cloud recognizer: the letter's
+ * shape is compared with the model as a cloud of points, so how it was
+ * drawn does not matter; stroke order and direction are then checked
+ * stroke by stroke. Dots are kept as strokes, so a missing dot changes the
+ * shape and the stroke count.
+ */
+export class TemplateHandwritingRecognizer implements HandwritingRecognizer {
+  readonly name = 'point-cloud';
+
+  assess(strokes: HandwritingStroke[], target: HandwritingTarget, templates: HandwritingTemplate[]): HandwritingAssessment {
+    const model = templates.find(template => template.letter === target.letter && template.form === target.form);
+    if (!model) {
+      throw new Error(`No model strokes for ${target.letter} (${target.form})`);
+    }
+
+    const written = normalise(strokes);
+    const cloud = toCloud(written);
+
+    // The closest model of all tells whether another letter was written
+    let recognized: HandwritingTemplate = model;
+    let best = Infinity;
+    let modelDistance = Infinity;
+    templates.forEach(template => {
+      const distance = cloudDistance(cloud, toCloud(normalise(template.strokes)));
+      if (template === model) modelDistance = distance;
+      if (distance < best) {
+        best = distance;
+        recognized = template;
+      }
+    });
+
+    const shapeScore = distanceScore(modelDistance);
+    const order = strokeOrder(written, normalise(model.strokes));
+
+    const issues: HandwritingIssue[] = [];
+    if (recognized.letter !== target.letter) issues.push('wrong-letter');
+    if (shapeScore < SHAPE_PASS) issues.push('shape');
+    if (strokes.length !== model.strokes.length) issues.push('stroke-count');
+    if (!order.inOrder) issues.push('stroke-order');
+    if (order.reversed > 0) issues.push('stroke-direction');
+
+    return {
+      target,
+      score: Math.round(shapeScore * 0.7 + order.score * 0.3),
+      shape_score: shapeScore,
+      order_score: order.score,
+      stroke_count: strokes.length,
+      expected_strokes: model.strokes.length,
+      recognized: { letter: recognized.letter, form: recognized.form },
+      issues
+    };
+  }
+}
+
+/**
+ * Strokes scaled to fit a unit box centred on the origin, keeping their
+ * proportions and positions relative to each other
+ */
+function normalise(strokes: HandwritingStroke[]): Point[][] {
+  const points = strokes.flat();
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  const minY = Math.min(...points.map(point => point.y));
+  const maxY = Math.max(...points.map(point => point.y));
+  const size = Math.max(maxX - minX, maxY - minY) || 1;
+  const centreX = (minX + maxX) / 2;
+  const centreY = (minY + maxY) / 2;
+
+  return strokes.map(stroke => stroke.map(point => ({
+    x: (point.x - centreX) / size,
+    y: (point.y - centreY) / size
+  })));
+}
+
+function pathLength(stroke: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < stroke.length; i++) length += distance(stroke[i - 1], stroke[i]);
+  return length;
+}
+
+/**
+ * `count` points spaced evenly along the stroke; a dot becomes `count`
+ * copies of itself
+ */
+function resample(stroke: Point[], count: number): Point[] {
+  const length = pathLength(stroke);
+  if (length === 0 || count === 1) {
+    const centre = {
+      x: stroke.reduce((sum, point) => sum + point.x, 0) / stroke.length,
+      y: stroke.reduce((sum, point) => sum + point.y, 0) / stroke.length
+    };
+    return Array.from({ length: count }, () => ({ ...centre }));
+  }
+
+  const interval = length / (count - 1);
+  const output: Point[] = [stroke[0]];
+  let carried = 0;
+  let previous = stroke[0];
+  for (let i = 1; i < stroke.length && output.length < count; i++) {
+    const next = stroke[i];
+    let step = distance(previous, next);
+    while (carried + step >= interval && output.length < count) {
+      const ratio = (interval - carried) / step;
+      const point = { x: previous.x + ratio * (next.x - previous.x), y: previous.y + ratio * (next.y - previous.y) };
+      output.push(point);
+      previous = point;
+      step = distance(previous, next);
+      carried = 0;
+    }
+    carried += step;
+    previous = next;
+  }
+  while (output.length < count) output.push(stroke[stroke.length - 1]);
+  return output;
+}
+
+/**
+ * The whole letter as CLOUD_POINTS points shared out between the strokes by
+ * length, each stroke getting at least one
+ */
+function toCloud(strokes: Point[][]): Point[] {
+  const lengths = strokes.map(stroke => Math.max(pathLength(stroke), DOT_LENGTH));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const counts = lengths.map(length => Math.max(1, Math.round((length / total) * CLOUD_POINTS)));
+
+  // Rounding may leave the total off by a few; settle it on the longest stroke
+  const longest = lengths.indexOf(Math.max(...lengths));
+  counts[longest] = Math.max(1, counts[longest] + CLOUD_POINTS - counts.reduce((sum, count) => sum + count, 0));
+
+  return strokes.flatMap((stroke, i) => resample(stroke, counts[i])).slice(0, CLOUD_POINTS);
+}
+
+/**
+ * Average distance between matched points of two clouds of the same size,
+ * matching greedily from several starting points in both directions
+ */
+function cloudDistance(a: Point[], b: Point[]): number {
+  const size = Math.min(a.length, b.length);
+  const step = Math.max(1, Math.floor(Math.sqrt(size)));
+  let best = Infinity;
+  for (let start = 0; start < size; start += step) {
+    best = Math.min(best, greedyMatch(a, b, start, size), greedyMatch(b, a, start, size));
+  }
+  return best;
+}
+
+/**
+ * $P greedy matching; earlier matches weigh more as they had more choice
+ */
+function greedyMatch(from: Point[], to: Point[], start: number, size: number): number {
+  const matched = new Array<boolean>(size).fill(false);
+  let sum = 0;
+  let weights = 0;
+  for (let k = 0; k < size; k++) {
+    const i = (start + k) % size;
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    for (let j = 0; j < size; j++) {
+      if (matched[j]) continue;
+      const d = distance(from[i], to[j]);
+      if (d < nearestDistance) {
+        nearestDistance = d;
+        nearest = j;
+      }
+    }
+    matched[nearest] = true;
+    const weight = 1 - k / size;
+    sum += weight * nearestDistance;
+    weights += weight;
+  }
+  return sum / weights;
+}
+
+/**
+ * Pairs each written stroke, in the order drawn, with the closest unused
+ * model stroke. Strokes are in order when the models they pair with come
+ * in the model's order; the score also counts strokes drawn the right way
+ * round and falls when strokes are missing or extra.
+ */
+function strokeOrder(written: Point[][], model: Point[][]): { score: number; inOrder: boolean; reversed: number } {
+  const modelStrokes = model.map(stroke => resample(stroke, STROKE_POINTS));
+  const used = new Array<boolean>(model.length).fill(false);
+  const pairs: number[] = [];
+  let forwards = 0;
+  let reversed = 0;
+
+  written.forEach(stroke => {
+    const points = resample(stroke, STROKE_POINTS);
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    let nearestReversed = false;
+    modelStrokes.forEach((candidate, j) => {
+      if (used[j]) return;
+      const along = strokeDistance(points, candidate);
+      const against = strokeDistance(points, [...candidate].reverse());
+      const d = Math.min(along, against);
+      if (d < nearestDistance) {
+        nearestDistance = d;
+        nearest = j;
+        nearestReversed = against < along;
+      }
+    });
+    if (nearest < 0) return;
+
+    used[nearest] = true;
+    pairs.push(nearest);
+    // A dot has no direction
+    if (nearestReversed && pathLength(model[nearest]) >= DOT_LENGTH) {
+      reversed++;
+    } else {
+      forwards++;
+    }
+  });
+
+  const inSequence = longestIncreasingRun(pairs);
+  const expected = Math.max(written.length, model.length);
+  return {
+    score: Math.round(((inSequence + forwards) / (2 * expected)) * 100),
+    inOrder: inSequence === pairs.length,
+    reversed
+  };
+}
+
+function strokeDistance(a: Point[], b: Point[]): number {
+  return a.reduce((sum, point, i) => sum + distance(point, b[i]), 0) / a.length;
+}
+
+/**
+ * Length of the longest increasing subsequence
+ */
+function longestIncreasingRun(values: number[]): number {
+  const tails: number[] = [];
+  values.forEach(value => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (tails[middle] < value) low = middle + 1;
+      else high = middle;
+    }
+    tails[low] = value;
+  });
+  return tails.length;
+}
+
+function distanceScore(d: number): number {
+  const ratio = (d - GOOD_DISTANCE) / (POOR_DISTANCE - GOOD_DISTANCE);
+  return Math.round(100 * Math.min(1, Math.max(0, 1 - ratio)));
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -293,6 +293,37 @@ export class MediaManager extends EventEmitter {
     }
   }
 
+  /**
+   * Get a microphone-only stream from the selected microphone, e.g. for
+   * recording practice; the caller owns it and stops its tracks
+   */
+  async getAudioStream(constraints: MediaConstraints['audio'] = {}): Promise<MediaStream> {
+    try {
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        throw new Error('getUserMedia not supported in this browser');
+      }
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: false,
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+          ...constraints,
+          ...(this.selectedDevices.microphone ? { deviceId: { exact: this.selectedDevices.microphone } } : {})
+        }
+      });
+
+      this.emit('audio-stream-acquired', { stream });
+      return stream;
+    } catch (error) {
+      const errorMessage = this.getMediaErrorMessage(error as Error);
+      console.error('❌ Failed to get microphone:', errorMessage);
+      this.emit('error', { error: errorMessage, originalError: error });
+      throw new Error(errorMessage);
+    }
+  }
+
   /**
    * Update available devices
    */
@@ -0,0 +1,87 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DtwPronunciationScorer, type SpeechSample } from './PronunciationScorer';
+
+const RATE = 16000;
+
+/**
+ * A vowel-like sound: a 120 Hz voice with a resonance that glides from
+ * `from` to `to` Hz over `seconds`, between short stretches of silence
+ */
+function glide(from: number, to: number, seconds = 0.6): SpeechSample {
+  const silence = Math.round(RATE * 0.1);
+  const voiced = Math.round(RATE * seconds);
+  const samples = new Float32Array(silence * 2 + voiced);
+  let phase = 0;
+  for (let i = 0; i < voiced; i++) {
+    const progress = i / voiced;
+    phase += (2 * Math.PI * (from + (to - from) * progress)) / RATE;
+    const voice = Math.sin((2 * Math.PI * 120 * i) / RATE);
+    samples[silence + i] = 0.5 * Math.sin(phase) * (0.6 + 0.4 * voice);
+  }
+  return { samples, sampleRate: RATE };
+}
+
+/**
+ * Deterministic noise, so the test never depends on chance
+ */
+function noise(seconds: number): SpeechSample {
+  const samples = new Float32Array(Math.round(RATE * seconds));
+  let seed = 42;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    samples[i] = (seed / 2147483648 - 0.5) * 0.5;
+  }
+  return { samples, sampleRate: RATE };
+}
+
+const scorer = new DtwPronunciationScorer();
+// بَاب
+const text = '\u0628\u064E\u0627\u0628';
+
+describe('DtwPronunciationScorer', () => {
+  test('scores a recording against itself in full, letter by letter', async () => {
+    const reference = glide(300, 900);
+    const assessment = await scorer.score(reference, reference, text);
+
+    assert.equal(assessment.scorer, 'mfcc-dtw');
+    assert.equal(assessment.score, 100);
+    assert.deepEqual(assessment.letters.map(letter => letter.letter), ['\u0628\u064E', '\u0627', '\u0628']);
+    assert.ok(assessment.letters.every(letter => letter.score === 100));
+  });
+
+  test('forgives saying the same thing more slowly', async () => {
+    const reference = glide(300, 900);
+    const slower = await scorer.score(reference, glide(300, 900, 0.9), text);
+    const different = await scorer.score(reference, glide(900, 300), text);
+
+    assert.ok(slower.score > different.score, `${slower.score} should beat ${different.score}`);
+  });
+
+  test('scores noise below a matching attempt', async () => {
+    const reference = glide(300, 900);
+    const matching = await scorer.score(reference, glide(310, 880), text);
+    const noisy = await scorer.score(reference, noise(0.6), text);
+
+    assert.ok(matching.score > noisy.score, `${matching.score} should beat ${noisy.score}`);
+  });
+
+  test('reports how long the attempt was', async () => {
+    const assessment = await scorer.score(glide(300, 900), glide(300, 900, 0.8), text);
+    assert.equal(assessment.duration_ms, 1000);
+  });
+
+  test('refuses a silent attempt', async () => {
+    const silence = { samples: new Float32Array(RATE), sampleRate: RATE };
+    await assert.rejects(scorer.score(glide(300, 900), silence, text), /No speech detected/);
+  });
+
+  test('averages 48 kHz recordings down before comparing', async () => {
+    const reference = glide(300, 900);
+    const upsampled = new Float32Array(reference.samples.length * 3);
+    reference.samples.forEach((value, i) => upsampled.fill(value, i * 3, i * 3 + 3));
+
+    const assessment = await scorer.score(reference, { samples: upsampled, sampleRate: 48000 }, text);
+    assert.ok(assessment.score >= 90, `scored ${assessment.score}`);
+  });
+});
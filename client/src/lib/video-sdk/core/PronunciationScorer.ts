@@ -0,0 +1,337 @@
+/**
+ * PronunciationScorer - Compare a student's recitation with a reference
+ * Scorers are pluggable; the built-in one aligns MFCC frames of the two
+ * recordings with dynamic time warping and needs no server or model
+ */
+
+import { pronunciationLetters, type LetterScore, type PronunciationAssessment } from '@shared/pronunciation';
+
+export interface SpeechSample {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface PronunciationScorer {
+  readonly name: string;
+  score(reference: SpeechSample, attempt: SpeechSample, text: string): Promise<PronunciationAssessment>;
+}
+
+export interface DtwScorerOptions {
+  // Frame distance (in standard deviations per coefficient) scored 50
+  midpoint: number;
+  // How quickly the score falls as the distance grows past the midpoint
+  spread: number;
+}
+
+const TARGET_RATE = 16000;
+const FRAME_MS = 25;
+const HOP_MS = 10;
+const MEL_FILTERS = 26;
+const CEPSTRAL_COEFFICIENTS = 12;
+const PRE_EMPHASIS = 0.97;
+// Frames quieter than this fraction of the loudest are trimmed as silence
+const SILENCE_RATIO = 0.05;
+// Less speech than this is treated as an empty recording
+const MIN_SPEECH_FRAMES = 10;
+
+const SHADDA = '\u0651';
+const MADDAH = '\u0653';
+
+/**
+ * Reference scorer: both recordings become normalised MFCC sequences, DTW
+ * finds the best alignment and the average distance along it becomes the
+ * score. Letters share out the reference's frames, doubled ones and those
+ * carrying a maddah getting twice the time, and each is scored from the
+ * stretch of the alignment that falls within its frames.
+ */
+export class DtwPronunciationScorer implements PronunciationScorer {
+  readonly name = 'mfcc-dtw';
+  private options: DtwScorerOptions;
+
+  constructor(options: Partial<DtwScorerOptions> = {}) {
+    this.options = { midpoint: 1, spread: 0.15, ...options };
+  }
+
+  async score(reference: SpeechSample, attempt: SpeechSample, text: string): Promise<PronunciationAssessment> {
+    const referenceFeatures = speechFeatures(reference);
+    const attemptFeatures = speechFeatures(attempt);
+    if (referenceFeatures.length < MIN_SPEECH_FRAMES) {
+      throw new Error('No speech found in the reference recording');
+    }
+    if (attemptFeatures.length < MIN_SPEECH_FRAMES) {
+      throw new Error('No speech detected in the recording');
+    }
+
+    const path = alignFrames(referenceFeatures, attemptFeatures);
+    const overall = path.reduce((sum, step) => sum + step.distance, 0) / path.length;
+
+    return {
+      scorer: this.name,
+      score: this.toScore(overall),
+      letters: this.scoreLetters(text, path, referenceFeatures.length),
+      duration_ms: Math.round((attempt.samples.length / attempt.sampleRate) * 1000)
+    };
+  }
+
+  private scoreLetters(text: string, path: AlignmentStep[], referenceFrames: number): LetterScore[] {
+    const letters = pronunciationLetters(text);
+    if (letters.length === 0) return [];
+
+    const weights = letters.map(letter => (letter.includes(SHADDA) || letter.includes(MADDAH) ? 2 : 1));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    // The reference frame at which each letter ends
+    let elapsed = 0;
+    const boundaries = weights.map(weight => {
+      elapsed += weight;
+      return Math.round((elapsed / totalWeight) * referenceFrames);
+    });
+
+    const sums = new Array<number>(letters.length).fill(0);
+    const counts = new Array<number>(letters.length).fill(0);
+    let index = 0;
+    // The path runs forward through the reference
+    path.forEach(step => {
+      while (index < letters.length - 1 && step.reference >= boundaries[index]) index++;
+      sums[index] += step.distance;
+      counts[index]++;
+    });
+
+    let previous = 0;
+    return letters.map((letter, i) => {
+      // A letter too short to own a frame takes the letter before's distance
+      const average = counts[i] ? sums[i] / counts[i] : previous;
+      previous = average;
+      return { letter, score: this.toScore(average) };
+    });
+  }
+
+  private toScore(distance: number): number {
+    const { midpoint, spread } = this.options;
+    return Math.round(100 / (1 + Math.exp((distance - midpoint) / spread)));
+  }
+}
+
+interface AlignmentStep {
+  reference: number;
+  attempt: number;
+  distance: number;
+}
+
+/**
+ * Cepstral features of the speech in a recording, silence trimmed and each
+ * coefficient normalised to zero mean and unit variance
+ */
+function speechFeatures(sample: SpeechSample): Float32Array[] {
+  const { samples, sampleRate } = downsample(sample);
+  const frameLength = Math.round((sampleRate * FRAME_MS) / 1000);
+  const hop = Math.round((sampleRate * HOP_MS) / 1000);
+  let fftSize = 1;
+  while (fftSize < frameLength) fftSize *= 2;
+
+  const window = new Float32Array(frameLength);
+  for (let i = 0; i < frameLength; i++) {
+    window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (frameLength - 1));
+  }
+  const filters = melFilterbank(fftSize, sampleRate);
+
+  const frames: Float32Array[] = [];
+  const energies: number[] = [];
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    real.fill(0);
+    imag.fill(0);
+    let energy = 0;
+    for (let i = 0; i < frameLength; i++) {
+      const previous = start + i > 0 ? samples[start + i - 1] : 0;
+      const value = (samples[start + i] - PRE_EMPHASIS * previous) * window[i];
+      real[i] = value;
+      energy += value * value;
+    }
+    fft(real, imag);
+
+    const power = new Float32Array(fftSize / 2 + 1);
+    for (let k = 0; k < power.length; k++) {
+      power[k] = (real[k] * real[k] + imag[k] * imag[k]) / fftSize;
+    }
+    const logMel = filters.map(filter => {
+      let sum = 0;
+      filter.forEach((weight, k) => (sum += weight * power[k]));
+      return Math.log(sum + 1e-10);
+    });
+    frames.push(dct(logMel));
+    energies.push(energy);
+  }
+
+  // Keep the span from the first to the last frame loud enough to be speech
+  const loudest = Math.max(0, ...energies);
+  const first = energies.findIndex(energy => energy >= loudest * SILENCE_RATIO);
+  if (loudest === 0 || first < 0) return [];
+  let last = energies.length - 1;
+  while (last > first && energies[last] < loudest * SILENCE_RATIO) last--;
+
+  return normalise(frames.slice(first, last + 1));
+}
+
+/**
+ * Average down to about 16 kHz; speech carries little above 8 kHz
+ */
+function downsample({ samples, sampleRate }: SpeechSample): SpeechSample {
+  const factor = Math.floor(sampleRate / TARGET_RATE);
+  if (factor <= 1) return { samples, sampleRate };
+
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    output[i] = sum / factor;
+  }
+  return { samples: output, sampleRate: sampleRate / factor };
+}
+
+function melFilterbank(fftSize: number, sampleRate: number): Float32Array[] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+  const highest = toMel(sampleRate / 2);
+  const bins: number[] = [];
+  for (let i = 0; i < MEL_FILTERS + 2; i++) {
+    bins.push(Math.floor(((fftSize + 1) * toHz((highest * i) / (MEL_FILTERS + 1))) / sampleRate));
+  }
+
+  const filters: Float32Array[] = [];
+  for (let m = 1; m <= MEL_FILTERS; m++) {
+    const filter = new Float32Array(fftSize / 2 + 1);
+    for (let k = bins[m - 1]; k < bins[m]; k++) filter[k] = (k - bins[m - 1]) / (bins[m] - bins[m - 1]);
+    for (let k = bins[m]; k < bins[m + 1]; k++) filter[k] = (bins[m + 1] - k) / (bins[m + 1] - bins[m]);
+    filters.push(filter);
+  }
+  return filters;
+}
+
+/**
+ * Cepstral coefficients 1-12 of the log mel energies; c0 is left out as it
+ * only measures loudness
+ */
+function dct(logMel: number[]): Float32Array {
+  const coefficients = new Float32Array(CEPSTRAL_COEFFICIENTS);
+  for (let c = 1; c <= CEPSTRAL_COEFFICIENTS; c++) {
+    let sum = 0;
+    logMel.forEach((value, m) => (sum += value * Math.cos((Math.PI * c * (m + 0.5)) / logMel.length)));
+    coefficients[c - 1] = sum;
+  }
+  return coefficients;
+}
+
+/**
+ * Iterative radix-2 FFT, in place
+ */
+function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Per-utterance mean and variance normalisation, so the microphone and the
+ * speaker's voice matter less than what was said
+ */
+function normalise(frames: Float32Array[]): Float32Array[] {
+  if (frames.length === 0) return frames;
+  for (let c = 0; c < CEPSTRAL_COEFFICIENTS; c++) {
+    const mean = frames.reduce((sum, frame) => sum + frame[c], 0) / frames.length;
+    const variance = frames.reduce((sum, frame) => sum + (frame[c] - mean) ** 2, 0) / frames.length;
+    const deviation = Math.sqrt(variance) || 1;
+    frames.forEach(frame => (frame[c] = (frame[c] - mean) / deviation));
+  }
+  return frames;
+}
+
+/**
+ * Root-mean-square difference per coefficient
+ */
+function frameDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let c = 0; c < a.length; c++) sum += (a[c] - b[c]) ** 2;
+  return Math.sqrt(sum / a.length);
+}
+
+/**
+ * Dynamic time warping over the whole of both sequences, returning the
+ * cheapest alignment from start to end
+ */
+function alignFrames(reference: Float32Array[], attempt: Float32Array[]): AlignmentStep[] {
+  const rows = reference.length;
+  const columns = attempt.length;
+  const cost = new Float32Array(rows * columns);
+  const distance = new Float32Array(rows * columns);
+  // 0: diagonal, 1: from the previous reference frame, 2: from the previous attempt frame
+  const direction = new Uint8Array(rows * columns);
+
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < columns; j++) {
+      const cell = i * columns + j;
+      distance[cell] = frameDistance(reference[i], attempt[j]);
+      if (i === 0 && j === 0) {
+        cost[cell] = distance[cell];
+        continue;
+      }
+      const diagonal = i > 0 && j > 0 ? cost[cell - columns - 1] : Infinity;
+      const up = i > 0 ? cost[cell - columns] : Infinity;
+      const left = j > 0 ? cost[cell - 1] : Infinity;
+      if (diagonal <= up && diagonal <= left) {
+        cost[cell] = diagonal + distance[cell];
+        direction[cell] = 0;
+      } else if (up <= left) {
+        cost[cell] = up + distance[cell];
+        direction[cell] = 1;
+      } else {
+        cost[cell] = left + distance[cell];
+        direction[cell] = 2;
+      }
+    }
+  }
+
+  const path: AlignmentStep[] = [];
+  let i = rows - 1;
+  let j = columns - 1;
+  for (;;) {
+    const cell = i * columns + j;
+    path.push({ reference: i, attempt: j, distance: distance[cell] });
+    if (i === 0 && j === 0) break;
+    if (direction[cell] === 0) {
+      i--;
+      j--;
+    } else if (direction[cell] === 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return path.reverse();
+}
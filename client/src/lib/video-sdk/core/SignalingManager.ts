@@ -5,6 +5,7 @@
 
 import { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
 import { EventEmitter } from './EventEmitter';
+import { signalSchema } from '@shared/signaling';
 
 export interface SignalingMessage {
   type: 'offer' | 'answer' | 'ice-candidate' | 'user-joined' | 'user-left' | 'media-state-change';
@@ -342,7 +343,14 @@ export class SignalingManager extends EventEmitter {
     if (!message || typeof message !== 'object') return false;
     
     const requiredFields = ['type', 'fromUserId', 'roomId', 'timestamp'];
-    return requiredFields.every(field => field in message);
+    if (!requiredFields.every(field => field in message)) return false;
+
+    // WebRTC payloads follow the same schema as the `/ws` signaling protocol
+    if (message.type === 'offer' || message.type === 'answer' || message.type === 'ice-candidate') {
+      return signalSchema.safeParse({ type: message.type, ...message.payload }).success;
+    }
+
+    return true;
   }
 
   /**
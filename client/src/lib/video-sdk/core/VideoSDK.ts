@@ -5,7 +5,8 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { EventEmitter } from './EventEmitter';
-import { WebSocketSignalingManager } from './WebSocketSignalingManager';
+import { WebSocketSignalingManager, type AccessTokenProvider } from './WebSocketSignalingManager';
+import { ConnectionManager } from '../production/ConnectionManager';
 
 export interface VideoSDKConfig {
   supabaseUrl: string;
@@ -17,6 +18,8 @@ export interface VideoSDKConfig {
     credential?: string;
   }>;
   maxParticipants?: number;
+  // Supplies the user's access token for the `/ws` signaling handshake
+  getAccessToken?: AccessTokenProvider;
 }
 
 export interface SessionConfig {
@@ -68,6 +71,9 @@ export class VideoSDK extends EventEmitter {
   private isConnected = false;
   private channel: any = null;
   private wsSignaling: WebSocketSignalingManager;
+  // Keeps the signaling session to resume once the WebSocket manager's own
+  // reconnect attempts run out
+  private connectionManager = new ConnectionManager();
 
   // WebRTC Connection Management
   private localStream: MediaStream | null = null;
@@ -121,7 +127,10 @@ export class VideoSDK extends EventEmitter {
       });
 
       // Initialize WebSocket signaling manager for better real-time performance
-      this.wsSignaling = new WebSocketSignalingManager();
+      this.wsSignaling = new WebSocketSignalingManager(config.getAccessToken ?? (async () => {
+        const { data } = await this.supabase.auth.getSession();
+        return data.session?.access_token ?? null;
+      }));
       this.setupWebSocketSignaling();
       
       console.log('🚀 VideoSDK constructor completed successfully');
@@ -252,51 +261,86 @@ export class VideoSDK extends EventEmitter {
    * Setup WebSocket signaling event handlers
    */
   private setupWebSocketSignaling(): void {
+    // Peers are keyed by participant id, which equals the user id unless the
+    // server allows one user to join from several devices
     this.wsSignaling.on('connected', (data) => {
       console.log('✅ WebSocket signaling connected', data);
     });
 
     this.wsSignaling.on('room-joined', (data) => {
       console.log('🏠 Joined room via WebSocket', data);
+      this.trackSignalingSession(data.sessionId, data.participants);
+    });
+
+    this.wsSignaling.on('session-resumed', (data) => {
+      this.trackSignalingSession(data.sessionId, data.participants);
+    });
+
+    this.wsSignaling.on('reconnection-failed', () => {
+      // Only a session that was up; the connection manager's own attempts land here too
+      if (this.connectionManager.getConnectionState().status !== 'connected') return;
+      this.connectionManager.handleConnectionFailure(new Error('Signaling reconnection attempts exhausted'));
+    });
+
+    this.connectionManager.setSessionResumer(async (userState) => {
+      await this.wsSignaling.resume(userState.roomId, userState.userId, userState.sessionId!);
+      if (!this.wsSignaling.isSignalingConnected()) {
+        throw new Error('Signaling server unreachable');
+      }
+    });
+
+    this.connectionManager.on('reconnection-failed', () => {
+      this.emit('error', { message: 'Lost connection to the signaling server' });
     });
 
     this.wsSignaling.on('user-joined', (data) => {
-      console.log('👤 User joined via WebSocket:', data.userId);
+      console.log('👤 User joined via WebSocket:', data.participantId);
       this.handleParticipantJoined({
-        userId: data.userId,
+        userId: data.participantId,
         displayName: data.displayName,
         role: data.role
       });
     });
 
     this.wsSignaling.on('user-left', (data) => {
-      console.log('👋 User left via WebSocket:', data.userId);
-      this.handleParticipantLeft(data.userId);
+      console.log('👋 User left via WebSocket:', data.participantId);
+      this.handleParticipantLeft(data.participantId);
+    });
+
+    // Dropped participants keep their tile while the server holds their slot
+    this.wsSignaling.on('user-reconnecting', (data) => {
+      console.log('📴 User reconnecting via WebSocket:', data.participantId);
+      this.updateParticipantConnection(data.participantId, 'disconnected');
+    });
+
+    this.wsSignaling.on('user-resumed', (data) => {
+      console.log('🔁 User resumed via WebSocket:', data.participantId);
+      this.updateParticipantConnection(data.participantId, 'good');
     });
 
     this.wsSignaling.on('offer-received', (data) => {
-      console.log('📞 Received offer via WebSocket:', data.fromUserId);
+      console.log('📞 Received offer via WebSocket:', data.fromParticipantId);
       this.handleOffer({
         offer: data.offer,
-        fromId: data.fromUserId,
+        fromId: data.fromParticipantId,
         targetId: this.session?.userId
       });
     });
 
     this.wsSignaling.on('answer-received', (data) => {
-      console.log('✅ Received answer via WebSocket:', data.fromUserId);
+      console.log('✅ Received answer via WebSocket:', data.fromParticipantId);
       this.handleAnswer({
         answer: data.answer,
-        fromId: data.fromUserId,
+        fromId: data.fromParticipantId,
         targetId: this.session?.userId
       });
     });
 
     this.wsSignaling.on('ice-candidate-received', (data) => {
-      console.log('🧊 Received ICE candidate via WebSocket:', data.fromUserId);
+      console.log('🧊 Received ICE candidate via WebSocket:', data.fromParticipantId);
       this.handleIceCandidate({
         candidate: data.candidate,
-        fromId: data.fromUserId,
+        fromId: data.fromParticipantId,
         targetId: this.session?.userId
       });
     });
@@ -305,6 +349,52 @@ export class VideoSDK extends EventEmitter {
       console.error('❌ WebSocket signaling error:', data.error);
       this.emit('error', { message: data.error });
     });
+
+    // Closes after which the signaling manager stops reconnecting
+    this.wsSignaling.on('session-replaced', () => {
+      console.warn('⚠️ Signaling session taken over by another tab or device');
+      this.emit('session-replaced');
+    });
+
+    this.wsSignaling.on('connection-rejected', (data) => {
+      console.warn('🔒 Signaling connection rejected:', data.code, data.reason);
+      this.emit('connection-rejected', data);
+    });
+  }
+
+  /**
+   * Hand the current signaling session to the connection manager so it can
+   * be resumed after a longer outage or a page reload
+   */
+  private trackSignalingSession(sessionId: string, participants: string[]): void {
+    if (!this.session) return;
+
+    this.connectionManager.setUserState({
+      userId: this.session.userId,
+      roomId: this.session.roomId,
+      displayName: this.session.displayName,
+      role: this.session.userRole,
+      mediaState: {
+        videoEnabled: this.isVideoEnabled,
+        audioEnabled: this.isAudioEnabled,
+        screenSharing: this.isScreenSharing
+      },
+      participantList: participants,
+      roomSettings: {},
+      sessionId
+    });
+    this.connectionManager.onConnectionEstablished();
+  }
+
+  /**
+   * Update a participant's connection quality and notify listeners
+   */
+  private updateParticipantConnection(userId: string, quality: ParticipantInfo['connectionQuality']): void {
+    const participant = this.participants.get(userId);
+    if (!participant) return;
+
+    participant.connectionQuality = quality;
+    this.emit('participant-updated', { participant });
   }
 
   /**
@@ -316,19 +406,13 @@ export class VideoSDK extends EventEmitter {
     // Try WebSocket signaling first
     try {
       console.log('🔗 Attempting WebSocket signaling connection...');
-      await this.wsSignaling.connect(
-        this.session.roomId, 
-        this.session.userId,
-        {
-          displayName: this.session.displayName,
-          role: this.session.userRole,
-          capabilities: {
-            canSpeak: true,
-            canShare: true,
-            canChat: true
-          }
-        }
-      );
+      const persisted = this.connectionManager.getPersistedSession(this.session.roomId, this.session.userId);
+      if (persisted) {
+        // The page was reloaded while reconnecting; the server may still hold our slot
+        await this.wsSignaling.resume(persisted.roomId, persisted.userId, persisted.sessionId!);
+      } else {
+        await this.wsSignaling.connect(this.session.roomId, this.session.userId);
+      }
       console.log('✅ WebSocket signaling active');
       
     } catch (error) {
@@ -802,7 +886,8 @@ export class VideoSDK extends EventEmitter {
       this.localStream = null;
     }
 
-    // Disconnect WebSocket signaling
+    // Disconnect WebSocket signaling; nothing is left to resume
+    this.connectionManager.clearUserState();
     await this.wsSignaling.disconnect();
 
     // Leave Supabase channel
@@ -861,5 +946,6 @@ export class VideoSDK extends EventEmitter {
   // Cleanup
   async destroy(): Promise<void> {
     await this.leaveRoom();
+    this.connectionManager.destroy();
   }
 }
\ No newline at end of file
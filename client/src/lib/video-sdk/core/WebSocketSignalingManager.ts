@@ -1,17 +1,25 @@
 import { EventEmitter } from './EventEmitter';
-
-export interface WebSocketMessage {
-  type: 'join-room' | 'leave-room' | 'offer' | 'answer' | 'ice-candidate' | 'media-state' | 'chat' | 'user-joined' | 'user-left' | 'room-joined' | 'error';
-  roomId: string;
-  userId: string;
-  targetUserId?: string;
-  data: any;
-  timestamp: number;
-}
+import {
+  encodeMessage,
+  parseServerMessage,
+  type ClientMessageBody,
+  type ServerMessage
+} from '@shared/signaling';
+
+export type AccessTokenProvider = () => Promise<string | null>;
+
+// Close codes from the signaling server that reconnecting cannot fix
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+const FORBIDDEN_CLOSE_CODE = 4403;
+// Another tab or device joined as this user; reconnecting would evict it in turn
+const SESSION_REPLACED_CLOSE_CODE = 4409;
+// The token ran out; a reconnect fetches a fresh one and resumes the session
+const TOKEN_EXPIRED_CLOSE_CODE = 4408;
 
 /**
  * WebSocket-based Signaling Manager for real-time video communication
- * Works alongside Supabase for data persistence
+ * Speaks the shared signaling protocol (shared/signaling.ts) with the `/ws` server
+ * and works alongside Supabase for data persistence
  */
 export class WebSocketSignalingManager extends EventEmitter {
   private ws: WebSocket | null = null;
@@ -23,15 +31,17 @@ export class WebSocketSignalingManager extends EventEmitter {
   private reconnectInterval: NodeJS.Timeout | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private wsUrl: string;
+  private getAccessToken: AccessTokenProvider;
+  // Issued on room-joined; sent in a `resume` frame after a dropped connection
+  private sessionId: string | null = null;
 
-  constructor() {
+  constructor(getAccessToken: AccessTokenProvider) {
     super();
+    this.getAccessToken = getAccessToken;
     
-    // Determine WebSocket URL based on environment
+    // Same-origin `/ws`; the dev server proxies it to the signaling server
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const host = window.location.hostname;
-    const port = window.location.hostname === 'localhost' ? ':8080' : ':8080';
-    this.wsUrl = `${protocol}//${host}${port}/ws`;
+    this.wsUrl = `${protocol}//${window.location.host}/ws`;
 
     console.log('🔗 WebSocket Signaling Manager initialized:', this.wsUrl);
   }
@@ -39,13 +49,19 @@ export class WebSocketSignalingManager extends EventEmitter {
   /**
    * Connect to WebSocket signaling server
    */
-  async connect(roomId: string, userId: string, userData?: any): Promise<void> {
+  async connect(roomId: string, userId: string): Promise<void> {
     try {
       this.roomId = roomId;
       this.userId = userId;
 
+      // The server derives identity and role from this token
+      const token = await this.getAccessToken();
+      if (!token) {
+        throw new Error('No access token available for signaling');
+      }
+
       // Create WebSocket connection
-      this.ws = new WebSocket(this.wsUrl);
+      this.ws = new WebSocket(`${this.wsUrl}?token=${encodeURIComponent(token)}`);
 
       // Set up WebSocket event handlers
       this.setupWebSocketHandlers();
@@ -80,7 +96,7 @@ export class WebSocketSignalingManager extends EventEmitter {
       });
 
       // Join the room after connection
-      await this.joinRoom(userData);
+      await this.joinRoom();
 
     } catch (error) {
       console.error('❌ Failed to connect to signaling server:', error);
@@ -96,12 +112,12 @@ export class WebSocketSignalingManager extends EventEmitter {
     if (!this.ws) return;
 
     this.ws.onmessage = (event) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        this.handleWebSocketMessage(message);
-      } catch (error) {
-        console.error('❌ Invalid WebSocket message:', error);
+      const result = parseServerMessage(event.data);
+      if (!result.ok) {
+        console.error('❌ Invalid WebSocket message:', result.error.message);
+        return;
       }
+      this.handleWebSocketMessage(result.message);
     };
 
     this.ws.onclose = (event) => {
@@ -109,8 +125,18 @@ export class WebSocketSignalingManager extends EventEmitter {
       this.isConnected = false;
       this.stopHeartbeat();
       
-      // Attempt reconnection if not a normal closure
-      if (event.code !== 1000 && event.code !== 1001) {
+      if (event.code === SESSION_REPLACED_CLOSE_CODE) {
+        this.sessionId = null;
+        this.emit('session-replaced', { reason: event.reason });
+      } else if (event.code === UNAUTHORIZED_CLOSE_CODE || event.code === FORBIDDEN_CLOSE_CODE) {
+        this.sessionId = null;
+        this.emit('connection-rejected', { code: event.code, reason: event.reason });
+      } else if (event.code === TOKEN_EXPIRED_CLOSE_CODE) {
+        // Expected once per token lifetime, so it does not use up the retries
+        this.reconnectAttempts = 0;
+        this.attemptReconnect();
+      } else if (event.code !== 1000 && event.code !== 1001) {
+        // Attempt reconnection if not a normal closure
         this.attemptReconnect();
       }
 
@@ -126,175 +152,178 @@ export class WebSocketSignalingManager extends EventEmitter {
   /**
    * Handle incoming WebSocket messages
    */
-  private handleWebSocketMessage(message: WebSocketMessage): void {
+  private handleWebSocketMessage(message: ServerMessage): void {
     console.log('📨 WebSocket message received:', message.type);
 
     switch (message.type) {
       case 'room-joined':
-        this.emit('room-joined', message.data);
+        this.sessionId = message.sessionId;
+        this.emit('room-joined', {
+          participants: message.participants.map(p => p.id),
+          participantCount: message.participants.length + 1,
+          sessionId: message.sessionId
+        });
         break;
 
-      case 'user-joined':
-        this.emit('user-joined', {
-          userId: message.userId,
-          displayName: message.data.displayName,
-          avatar: message.data.avatar,
-          role: message.data.role
+      case 'session-resumed':
+        // Missed frames follow this one and go through the normal handlers
+        console.log(`🔁 Session resumed, replaying ${message.replayed} missed messages`);
+        this.emit('session-resumed', {
+          participants: message.participants.map(p => p.id),
+          sessionId: message.sessionId,
+          replayed: message.replayed
         });
         break;
 
-      case 'user-left':
-        this.emit('user-left', {
-          userId: message.userId,
-          reason: message.data.reason
-        });
+      case 'participant-reconnecting':
+        this.emit('user-reconnecting', { participantId: message.participantId, userId: message.userId });
         break;
 
-      case 'offer':
-        this.emit('offer-received', {
-          fromUserId: message.userId,
-          offer: message.data
-        });
+      case 'participant-resumed':
+        this.emit('user-resumed', { participantId: message.participantId, userId: message.userId });
         break;
 
-      case 'answer':
-        this.emit('answer-received', {
-          fromUserId: message.userId,
-          answer: message.data
+      case 'participant-joined':
+        this.emit('user-joined', {
+          participantId: message.participant.id,
+          userId: message.participant.userId,
+          displayName: message.participant.displayName,
+          role: message.participant.role
         });
         break;
 
-      case 'ice-candidate':
-        this.emit('ice-candidate-received', {
-          fromUserId: message.userId,
-          candidate: message.data
+      case 'participant-left':
+        this.emit('user-left', {
+          participantId: message.participantId,
+          userId: message.userId,
+          reason: 'left'
         });
         break;
 
-      case 'media-state':
+      case 'webrtc-signal':
+        switch (message.signal.type) {
+          case 'offer':
+            this.emit('offer-received', { fromParticipantId: message.fromParticipantId, fromUserId: message.fromUserId, offer: message.signal.offer });
+            break;
+          case 'answer':
+            this.emit('answer-received', { fromParticipantId: message.fromParticipantId, fromUserId: message.fromUserId, answer: message.signal.answer });
+            break;
+          case 'ice-candidate':
+            this.emit('ice-candidate-received', { fromParticipantId: message.fromParticipantId, fromUserId: message.fromUserId, candidate: message.signal.candidate });
+            break;
+        }
+        break;
+
+      case 'participant-media-changed':
         this.emit('media-state-changed', {
+          participantId: message.participantId,
           userId: message.userId,
-          ...message.data
+          isVideoEnabled: message.isVideoEnabled,
+          isAudioEnabled: message.isAudioEnabled,
+          isScreenSharing: message.isScreenSharing
         });
         break;
 
       case 'chat':
         this.emit('chat-message', {
-          userId: message.data.sender,
-          message: message.data.text,
-          timestamp: message.data.timestamp
+          userId: message.userId,
+          message: message.text,
+          timestamp: Date.parse(message.sentAt)
         });
         break;
 
       case 'error':
-        this.emit('error', { error: message.data.error });
+        if (message.code === 'session-expired') {
+          // Grace period is over; fall back to a fresh join
+          console.warn('⚠️ Signaling session expired, rejoining room');
+          this.sessionId = null;
+          this.emit('session-expired');
+          this.joinRoom();
+          break;
+        }
+        this.emit('error', { error: message.message, code: message.code });
         break;
 
-      default:
-        console.warn('⚠️ Unknown message type:', message.type);
+      case 'pong':
+        break;
     }
   }
 
   /**
-   * Join room
+   * Join room, or resume the previous session after a reconnect
    */
-  private async joinRoom(userData?: any): Promise<void> {
+  private async joinRoom(): Promise<void> {
     if (!this.isConnected || !this.ws || !this.roomId || !this.userId) return;
 
-    const message: WebSocketMessage = {
-      type: 'join-room',
-      roomId: this.roomId,
-      userId: this.userId,
-      data: {
-        displayName: userData?.displayName || this.userId,
-        avatar: userData?.avatar,
-        role: userData?.role || 'participant',
-        capabilities: userData?.capabilities || {
-          canSpeak: true,
-          canShare: true,
-          canChat: true
-        }
-      },
-      timestamp: Date.now()
-    };
+    if (this.sessionId) {
+      this.sendMessage({ type: 'resume', sessionId: this.sessionId });
+      console.log(`🔁 Resuming session in room ${this.roomId}`);
+      return;
+    }
 
-    this.sendMessage(message);
+    this.sendMessage({ type: 'join-room', roomId: this.roomId });
     console.log(`👤 Joining room ${this.roomId} as ${this.userId}`);
   }
 
+  /**
+   * Reconnect and resume a session persisted elsewhere (see ConnectionManager)
+   */
+  async resume(roomId: string, userId: string, sessionId: string): Promise<void> {
+    this.sessionId = sessionId;
+    await this.connect(roomId, userId);
+  }
+
   /**
    * Leave room
    */
   async leaveRoom(): Promise<void> {
     if (!this.isConnected || !this.ws || !this.roomId || !this.userId) return;
 
-    const message: WebSocketMessage = {
-      type: 'leave-room',
-      roomId: this.roomId,
-      userId: this.userId,
-      data: {},
-      timestamp: Date.now()
-    };
-
-    this.sendMessage(message);
+    this.sendMessage({ type: 'leave-room' });
+    this.sessionId = null;
     console.log(`👤 Leaving room ${this.roomId}`);
   }
 
   /**
    * Send WebRTC offer
    */
-  async sendOffer(targetUserId: string, offer: RTCSessionDescriptionInit): Promise<void> {
+  async sendOffer(targetParticipantId: string, offer: RTCSessionDescriptionInit): Promise<void> {
     if (!this.isConnected) throw new Error('Not connected to signaling server');
 
-    const message: WebSocketMessage = {
-      type: 'offer',
-      roomId: this.roomId!,
-      userId: this.userId!,
-      targetUserId,
-      data: offer,
-      timestamp: Date.now()
-    };
-
-    this.sendMessage(message);
-    console.log(`📤 Sent offer to ${targetUserId}`);
+    this.sendMessage({
+      type: 'webrtc-signal',
+      toParticipantId: targetParticipantId,
+      signal: { type: 'offer', offer: { type: offer.type, sdp: offer.sdp } }
+    });
+    console.log(`📤 Sent offer to ${targetParticipantId}`);
   }
 
   /**
    * Send WebRTC answer
    */
-  async sendAnswer(targetUserId: string, answer: RTCSessionDescriptionInit): Promise<void> {
+  async sendAnswer(targetParticipantId: string, answer: RTCSessionDescriptionInit): Promise<void> {
     if (!this.isConnected) throw new Error('Not connected to signaling server');
 
-    const message: WebSocketMessage = {
-      type: 'answer',
-      roomId: this.roomId!,
-      userId: this.userId!,
-      targetUserId,
-      data: answer,
-      timestamp: Date.now()
-    };
-
-    this.sendMessage(message);
-    console.log(`📤 Sent answer to ${targetUserId}`);
+    this.sendMessage({
+      type: 'webrtc-signal',
+      toParticipantId: targetParticipantId,
+      signal: { type: 'answer', answer: { type: answer.type, sdp: answer.sdp } }
+    });
+    console.log(`📤 Sent answer to ${targetParticipantId}`);
   }
 
   /**
    * Send ICE candidate
    */
-  async sendIceCandidate(targetUserId: string, candidate: RTCIceCandidate): Promise<void> {
+  async sendIceCandidate(targetParticipantId: string, candidate: RTCIceCandidate): Promise<void> {
     if (!this.isConnected) throw new Error('Not connected to signaling server');
 
-    const message: WebSocketMessage = {
-      type: 'ice-candidate',
-      roomId: this.roomId!,
-      userId: this.userId!,
-      targetUserId,
-      data: candidate.toJSON(),
-      timestamp: Date.now()
-    };
-
-    this.sendMessage(message);
-    console.log(`📤 Sent ICE candidate to ${targetUserId}`);
+    this.sendMessage({
+      type: 'webrtc-signal',
+      toParticipantId: targetParticipantId,
+      signal: { type: 'ice-candidate', candidate: candidate.toJSON() }
+    });
+    console.log(`📤 Sent ICE candidate to ${targetParticipantId}`);
   }
 
   /**
@@ -303,15 +332,7 @@ export class WebSocketSignalingManager extends EventEmitter {
   async sendMediaState(mediaState: { isVideoEnabled: boolean; isAudioEnabled: boolean; isScreenSharing: boolean }): Promise<void> {
     if (!this.isConnected) return;
 
-    const message: WebSocketMessage = {
-      type: 'media-state',
-      roomId: this.roomId!,
-      userId: this.userId!,
-      data: mediaState,
-      timestamp: Date.now()
-    };
-
-    this.sendMessage(message);
+    this.sendMessage({ type: 'media-state-change', ...mediaState });
     console.log('📺 Media state updated:', mediaState);
   }
 
@@ -321,24 +342,16 @@ export class WebSocketSignalingManager extends EventEmitter {
   async sendChatMessage(text: string): Promise<void> {
     if (!this.isConnected) return;
 
-    const message: WebSocketMessage = {
-      type: 'chat',
-      roomId: this.roomId!,
-      userId: this.userId!,
-      data: { text },
-      timestamp: Date.now()
-    };
-
-    this.sendMessage(message);
+    this.sendMessage({ type: 'chat', text });
     console.log('💬 Chat message sent:', text.substring(0, 50));
   }
 
   /**
    * Send message through WebSocket
    */
-  private sendMessage(message: WebSocketMessage): void {
+  private sendMessage(message: ClientMessageBody): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(encodeMessage(message));
     } else {
       console.error('❌ Cannot send message: WebSocket not connected');
     }
@@ -350,14 +363,8 @@ export class WebSocketSignalingManager extends EventEmitter {
   private startHeartbeat(): void {
     this.heartbeatInterval = setInterval(() => {
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        // Send a heartbeat message instead of ping (browser WebSocket doesn't have ping)
-        this.sendMessage({
-          type: 'chat', // Use chat type for heartbeat to avoid conflicts
-          roomId: this.roomId || '',
-          userId: this.userId || '',
-          data: { heartbeat: true },
-          timestamp: Date.now()
-        });
+        // Protocol-level ping (browser WebSocket cannot send control frames)
+        this.sendMessage({ type: 'ping' });
       }
     }, 30000); // Every 30 seconds
   }
@@ -416,6 +423,7 @@ export class WebSocketSignalingManager extends EventEmitter {
 
       this.roomId = null;
       this.userId = null;
+      this.sessionId = null;
 
       this.emit('disconnected', { code: 1000, reason: 'Client disconnect' });
       console.log('✅ WebSocket signaling disconnected');
@@ -439,6 +447,13 @@ export class WebSocketSignalingManager extends EventEmitter {
     return this.roomId;
   }
 
+  /**
+   * Get the resumable session id for the current room
+   */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
   /**
    * Get current user ID
    */
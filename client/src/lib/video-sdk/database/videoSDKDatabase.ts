@@ -296,6 +296,7 @@ export const getVideoRoomChatHistory = async (roomId: string, limit = 50) => {
  * Start recording a video room
  */
 export const startVideoRoomRecording = async (roomId: string, config: any = {}) => {
+  const { data: { user } } = await supabase.auth.getUser();
   const { data, error } = await supabase
     .from('recording_sessions')
     .insert({
@@ -303,7 +304,7 @@ export const startVideoRoomRecording = async (roomId: string, config: any = {})
       start_time: new Date().toISOString(),
       duration: 0,
       size: 0,
-      participants: ['3b077064-343c-4938-9ae0-52a866156162'], // Current user
+      participants: user ? [user.id] : [], // Current user
       config: { quality: 'high', format: 'mp4', ...config },
       status: 'starting',
       encrypted: true
@@ -60,6 +60,14 @@ export { InteractionManager } from './core/InteractionManager';
 // Virtual Backgrounds
 export { VirtualBackgroundManager } from './core/VirtualBackgroundManager';
 
+// Arabic learning (tajweed analysis, pronunciation coaching, handwriting)
+export { ArabicLearningManager } from './core/ArabicLearningManager';
+export type { ArabicLearningConfig } from './core/ArabicLearningManager';
+export { DtwPronunciationScorer } from './core/PronunciationScorer';
+export type { PronunciationScorer, SpeechSample, DtwScorerOptions } from './core/PronunciationScorer';
+export { TemplateHandwritingRecognizer } from './core/HandwritingRecognizer';
+export type { HandwritingRecognizer } from './core/HandwritingRecognizer';
+
 // Note: RecordingManager is now only available as EnterpriseRecordingManager
 
 // Moderation
@@ -35,8 +35,14 @@ export interface UserState {
   };
   participantList: string[];
   roomSettings: any;
+  // Signaling session id from room-joined, used to resume instead of rejoining
+  sessionId?: string;
 }
 
+export type SessionResumer = (userState: UserState) => Promise<void>;
+
+const USER_STATE_STORAGE_KEY = 'video_sdk_user_state';
+
 export class ConnectionManager extends EventEmitter {
   private config: ConnectionConfig;
   private connectionState: ConnectionState;
@@ -44,6 +50,7 @@ export class ConnectionManager extends EventEmitter {
   private reconnectTimer: NodeJS.Timeout | null = null;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private isReconnecting = false;
+  private sessionResumer: SessionResumer | null = null;
 
   constructor(config?: Partial<ConnectionConfig>) {
     super();
@@ -143,8 +150,9 @@ export class ConnectionManager extends EventEmitter {
     this.connectionState.status = 'connecting';
     
     // Restore user state
-    if (this.userState) {
-      await this.restoreUserState(this.userState);
+    const userState = this.userState ?? this.loadPersistedUserState();
+    if (userState) {
+      await this.restoreUserState(userState);
     }
 
     // Restore media streams
@@ -185,7 +193,7 @@ export class ConnectionManager extends EventEmitter {
     if (!this.userState) return;
 
     try {
-      localStorage.setItem('video_sdk_user_state', JSON.stringify({
+      localStorage.setItem(USER_STATE_STORAGE_KEY, JSON.stringify({
         ...this.userState,
         timestamp: Date.now()
       }));
@@ -195,12 +203,32 @@ export class ConnectionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Load user state persisted before a failure (also survives a page reload)
+   */
+  private loadPersistedUserState(): UserState | null {
+    try {
+      const stored = localStorage.getItem(USER_STATE_STORAGE_KEY);
+      return stored ? JSON.parse(stored) as UserState : null;
+    } catch (error) {
+      console.error('Failed to load persisted user state:', error);
+      return null;
+    }
+  }
+
   /**
    * Restore user state after reconnection
    */
   private async restoreUserState(userState: UserState): Promise<void> {
     console.log('🔄 Restoring user state...');
+    this.userState = userState;
     this.emit('state-restoring', { userState });
+
+    // Resume the signaling session so the room keeps our slot and replays missed signals;
+    // a failure here counts as a failed reconnection attempt
+    if (userState.sessionId && this.sessionResumer) {
+      await this.sessionResumer(userState);
+    }
   }
 
   /**
@@ -311,6 +339,39 @@ export class ConnectionManager extends EventEmitter {
     this.userState = userState;
   }
 
+  /**
+   * Forget the user state, e.g. after leaving the room, and stop any
+   * reconnection in progress
+   */
+  clearUserState(): void {
+    this.stopReconnectTimer();
+    this.isReconnecting = false;
+    this.userState = null;
+    this.connectionState = { ...this.connectionState, status: 'disconnected', attemptCount: 0 };
+    try {
+      localStorage.removeItem(USER_STATE_STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear persisted user state:', error);
+    }
+  }
+
+  /**
+   * The resumable session persisted for this user and room before a failure,
+   * e.g. to resume after the page was reloaded while reconnecting
+   */
+  getPersistedSession(roomId: string, userId: string): UserState | null {
+    const userState = this.loadPersistedUserState();
+    return userState?.sessionId && userState.roomId === roomId && userState.userId === userId ? userState : null;
+  }
+
+  /**
+   * Register how to resume a signaling session, e.g.
+   * `state => wsSignaling.resume(state.roomId, state.userId, state.sessionId!)`
+   */
+  setSessionResumer(resumer: SessionResumer): void {
+    this.sessionResumer = resumer;
+  }
+
   /**
    * Get current connection state
    */
@@ -3,7 +3,9 @@
  * Comprehensive security layer like Zoom/Teams with threat detection
  */
 
+import type { RoomToken } from '@shared/signaling';
 import { EventEmitter } from '../core/EventEmitter';
+import type { AccessTokenProvider } from '../core/WebSocketSignalingManager';
 
 export interface SecurityConfig {
   enableRateLimiting: boolean;
@@ -191,30 +193,36 @@ export class VideoSecurityManager extends EventEmitter {
   }
 
   /**
-   * Generate secure room token
+   * Fetch a token that admits the signed-in user to one room. The server
+   * signs it, so it is accepted by the signaling server until it expires.
    */
-  generateRoomToken(userId: string, roomId: string, permissions: UserPermissions): string {
-    const payload = {
-      userId,
-      roomId,
-      permissions,
-      issued: Date.now(),
-      expires: Date.now() + this.config.tokenExpirationMs
-    };
+  async generateRoomToken(roomId: string, getAccessToken: AccessTokenProvider): Promise<RoomToken> {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      throw new Error('Sign in to get a room token');
+    }
 
-    // In production, use proper JWT signing
-    const token = btoa(JSON.stringify(payload)) + '.' + this.generateSignature(payload);
-    
-    console.log(`🔐 Generated secure token for user ${userId} in room ${roomId}`);
-    return token;
+    const response = await fetch('/api/room-tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ roomId })
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+    }
+
+    const roomToken: RoomToken = await response.json();
+    console.log(`🔐 Got room token for room ${roomId}, valid until ${roomToken.expiresAt}`);
+    return roomToken;
   }
 
   /**
-   * Validate room token
+   * Whether a room token can still be used. Only the server holds the key to
+   * check its signature.
    */
   validateRoomToken(token: string): { valid: boolean; payload?: any; reason?: string } {
     try {
-      const [encodedPayload, signature] = token.split('.');
+      const [encodedPayload] = token.split('.');
       const payload = JSON.parse(atob(encodedPayload));
       
       // Check expiration
@@ -222,11 +230,6 @@ export class VideoSecurityManager extends EventEmitter {
         return { valid: false, reason: 'Token expired' };
       }
 
-      // Verify signature
-      if (!this.verifySignature(payload, signature)) {
-        return { valid: false, reason: 'Invalid token signature' };
-      }
-
       return { valid: true, payload };
       
     } catch (error) {
@@ -532,15 +535,6 @@ export class VideoSecurityManager extends EventEmitter {
     return true; // Simplified
   }
 
-  private generateSignature(payload: any): string {
-    // In production, use proper cryptographic signing
-    return btoa(JSON.stringify(payload)).slice(-10);
-  }
-
-  private verifySignature(payload: any, signature: string): boolean {
-    return signature === this.generateSignature(payload);
-  }
-
   /**
    * Get security statistics
    */
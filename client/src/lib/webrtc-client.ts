@@ -1,31 +1,34 @@
 /**
  * Real WebRTC Client for Enterprise Video Conferencing
  * Handles actual peer-to-peer video connections with signaling
+ * over the shared `/ws` protocol (shared/signaling.ts)
  */
 
+import { supabase } from './supabase';
+import {
+  encodeMessage,
+  parseServerMessage,
+  type ClientMessageBody,
+  type ParticipantInfo,
+  type ParticipantRole,
+  type ServerMessage
+} from '@shared/signaling';
+
 interface WebRTCConfig {
   iceServers: RTCIceServer[];
   signalingUrl: string;
+  getAccessToken: () => Promise<string | null>;
 }
 
 interface Participant {
   id: string;
   name: string;
-  role: 'host' | 'moderator' | 'participant';
+  role: ParticipantRole;
   videoEnabled: boolean;
   audioEnabled: boolean;
   screenSharing: boolean;
 }
 
-interface SignalingMessage {
-  type: string;
-  roomId?: string;
-  participantId?: string;
-  targetParticipantId?: string;
-  fromParticipantId?: string;
-  data?: any;
-}
-
 export class WebRTCClient {
   private ws: WebSocket | null = null;
   private localStream: MediaStream | null = null;
@@ -36,7 +39,7 @@ export class WebRTCClient {
   private participantId: string = '';
   private participantName: string = '';
   private isConnected: boolean = false;
-  private currentRole: string = 'participant';
+  private currentRole: ParticipantRole = 'student';
 
   // Event handlers
   private onParticipantJoined?: (participant: Participant) => void;
@@ -54,15 +57,17 @@ export class WebRTCClient {
         // Add TURN servers for production
         ...(config.iceServers || [])
       ],
-      signalingUrl: config.signalingUrl || this.getSignalingUrl()
+      signalingUrl: config.signalingUrl || this.getSignalingUrl(),
+      getAccessToken: config.getAccessToken || (async () => {
+        const { data } = await supabase.auth.getSession();
+        return data.session?.access_token ?? null;
+      })
     };
   }
 
   private getSignalingUrl(): string {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const host = window.location.hostname;
-    const port = '3000'; // Backend server port
-    return `${protocol}//${host}:${port}/webrtc-signaling`;
+    return `${protocol}//${window.location.host}/ws`;
   }
 
   // Initialize WebRTC client
@@ -98,9 +103,15 @@ export class WebRTCClient {
 
   // Connect to signaling server
   async connectSignaling(): Promise<void> {
+    // The server derives identity and role from the access token
+    const token = await this.config.getAccessToken();
+    if (!token) {
+      throw new Error('Login required to join video conference');
+    }
+
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.config.signalingUrl);
+        this.ws = new WebSocket(`${this.config.signalingUrl}?token=${encodeURIComponent(token)}`);
 
         this.ws.onopen = () => {
           console.log('🔗 Connected to signaling server at:', this.config.signalingUrl);
@@ -112,7 +123,12 @@ export class WebRTCClient {
         };
 
         this.ws.onmessage = (event) => {
-          this.handleSignalingMessage(JSON.parse(event.data));
+          const result = parseServerMessage(event.data);
+          if (!result.ok) {
+            console.error('❌ Invalid signaling message:', result.error.message);
+            return;
+          }
+          this.handleSignalingMessage(result.message);
         };
 
         this.ws.onclose = () => {
@@ -135,35 +151,21 @@ export class WebRTCClient {
     });
   }
 
-  // Join room
-  async joinRoom(roomId: string, role: string = 'participant'): Promise<void> {
+  // Join room; the role is assigned by the server from the token
+  async joinRoom(roomId: string): Promise<void> {
     if (!this.ws || !this.isConnected) {
       throw new Error('Not connected to signaling server');
     }
 
     this.roomId = roomId;
 
-    this.sendSignalingMessage({
-      type: 'join-room',
-      roomId,
-      participantId: this.participantId,
-      data: {
-        name: this.participantName,
-        role,
-        videoEnabled: this.isVideoEnabled(),
-        audioEnabled: this.isAudioEnabled()
-      }
-    });
+    this.sendSignalingMessage({ type: 'join-room', roomId });
   }
 
   // Leave room
   leaveRoom(): void {
     if (this.ws && this.isConnected) {
-      this.sendSignalingMessage({
-        type: 'leave-room',
-        roomId: this.roomId,
-        participantId: this.participantId
-      });
+      this.sendSignalingMessage({ type: 'leave-room' });
     }
 
     // Close all peer connections
@@ -172,36 +174,41 @@ export class WebRTCClient {
     this.remoteStreams.clear();
   }
 
+  private toParticipant(info: ParticipantInfo): Participant {
+    return {
+      id: info.id,
+      name: info.displayName,
+      role: info.role,
+      videoEnabled: true,
+      audioEnabled: true,
+      screenSharing: false
+    };
+  }
+
   // Handle signaling messages
-  private async handleSignalingMessage(message: SignalingMessage): Promise<void> {
+  private async handleSignalingMessage(message: ServerMessage): Promise<void> {
     console.log('📨 Received signaling message:', message.type, message);
     
     switch (message.type) {
-      case 'joined-room':
+      case 'room-joined':
         console.log('✅ Successfully joined room:', message.roomId);
-        console.log('🎯 Your role:', message.data?.yourRole);
-        console.log('👥 Existing participants:', message.data?.participants);
+        console.log('🎯 Your role:', message.self.role);
+        console.log('👥 Existing participants:', message.participants);
         
-        // Store role information
-        if (message.data?.yourRole) {
-          this.currentRole = message.data.yourRole;
-        }
+        this.currentRole = message.self.role;
+        this.participantId = message.self.id;
         
         // Create peer connections to existing participants
-        if (message.data?.participants) {
-          for (const participant of message.data.participants) {
-            if (participant.id !== this.participantId) {
-              console.log('🔗 Creating connection to existing participant:', participant.id);
-              await this.createPeerConnection(participant.id, true);
-            }
-          }
+        for (const participant of message.participants) {
+          console.log('🔗 Creating connection to existing participant:', participant.id);
+          await this.createPeerConnection(participant.id, true);
         }
         break;
 
       case 'participant-joined':
-        console.log('👤 New participant joined:', message.data?.participant);
-        if (this.onParticipantJoined && message.data?.participant) {
-          this.onParticipantJoined(message.data.participant);
+        console.log('👤 New participant joined:', message.participant);
+        if (this.onParticipantJoined) {
+          this.onParticipantJoined(this.toParticipant(message.participant));
         }
         // Don't create connection immediately - wait for them to create offer
         console.log('⏳ Waiting for new participant to initiate connection...');
@@ -209,36 +216,38 @@ export class WebRTCClient {
 
       case 'participant-left':
         console.log('👋 Participant left:', message.participantId);
-        if (message.participantId) {
-          this.closePeerConnection(message.participantId);
-          if (this.onParticipantLeft) {
-            this.onParticipantLeft(message.participantId);
-          }
-        }
-        break;
-
-      case 'offer':
-        if (message.fromParticipantId && message.data) {
-          await this.handleOffer(message.fromParticipantId, message.data);
+        this.closePeerConnection(message.participantId);
+        if (this.onParticipantLeft) {
+          this.onParticipantLeft(message.participantId);
         }
         break;
 
-      case 'answer':
-        if (message.fromParticipantId && message.data) {
-          await this.handleAnswer(message.fromParticipantId, message.data);
+      case 'webrtc-signal':
+        switch (message.signal.type) {
+          case 'offer':
+            await this.handleOffer(message.fromParticipantId, message.signal.offer);
+            break;
+          case 'answer':
+            await this.handleAnswer(message.fromParticipantId, message.signal.answer);
+            break;
+          case 'ice-candidate':
+            await this.handleIceCandidate(message.fromParticipantId, message.signal.candidate);
+            break;
         }
         break;
 
-      case 'ice-candidate':
-        if (message.fromParticipantId && message.data) {
-          await this.handleIceCandidate(message.fromParticipantId, message.data);
+      case 'participant-media-changed':
+        if (this.onParticipantMediaChanged) {
+          this.onParticipantMediaChanged(message.participantId, {
+            videoEnabled: message.isVideoEnabled,
+            audioEnabled: message.isAudioEnabled,
+            screenSharing: message.isScreenSharing
+          });
         }
         break;
 
-      case 'participant-media-changed':
-        if (this.onParticipantMediaChanged && message.participantId) {
-          this.onParticipantMediaChanged(message.participantId, message.data?.mediaState);
-        }
+      case 'error':
+        console.error(`❌ Signaling error (${message.code}):`, message.message);
         break;
     }
   }
@@ -287,11 +296,9 @@ export class WebRTCClient {
     pc.onicecandidate = (event) => {
       if (event.candidate) {
         this.sendSignalingMessage({
-          type: 'ice-candidate',
-          roomId: this.roomId,
-          participantId: this.participantId,
-          targetParticipantId: participantId,
-          data: event.candidate
+          type: 'webrtc-signal',
+          toParticipantId: participantId,
+          signal: { type: 'ice-candidate', candidate: event.candidate.toJSON() }
         });
       }
     };
@@ -302,11 +309,9 @@ export class WebRTCClient {
       await pc.setLocalDescription(offer);
       
       this.sendSignalingMessage({
-        type: 'offer',
-        roomId: this.roomId,
-        participantId: this.participantId,
-        targetParticipantId: participantId,
-        data: offer
+        type: 'webrtc-signal',
+        toParticipantId: participantId,
+        signal: { type: 'offer', offer: { type: offer.type, sdp: offer.sdp } }
       });
     }
   }
@@ -325,11 +330,9 @@ export class WebRTCClient {
       
       console.log('📤 Sending answer to:', fromParticipantId);
       this.sendSignalingMessage({
-        type: 'answer',
-        roomId: this.roomId,
-        participantId: this.participantId,
-        targetParticipantId: fromParticipantId,
-        data: answer
+        type: 'webrtc-signal',
+        toParticipantId: fromParticipantId,
+        signal: { type: 'answer', answer: { type: answer.type, sdp: answer.sdp } }
       });
     }
   }
@@ -361,9 +364,9 @@ export class WebRTCClient {
   }
 
   // Send signaling message
-  private sendSignalingMessage(message: SignalingMessage): void {
+  private sendSignalingMessage(message: ClientMessageBody): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(encodeMessage(message));
     }
   }
 
@@ -407,13 +410,9 @@ export class WebRTCClient {
   private notifyMediaStateChange(): void {
     this.sendSignalingMessage({
       type: 'media-state-change',
-      roomId: this.roomId,
-      participantId: this.participantId,
-      data: {
-        videoEnabled: this.isVideoEnabled(),
-        audioEnabled: this.isAudioEnabled(),
-        screenSharing: false // TODO: Implement screen sharing
-      }
+      isVideoEnabled: this.isVideoEnabled(),
+      isAudioEnabled: this.isAudioEnabled(),
+      isScreenSharing: false // TODO: Implement screen sharing
     });
   }
 
@@ -456,12 +455,12 @@ export class WebRTCClient {
   }
 
   // Role management
-  getCurrentRole(): string {
+  getCurrentRole(): ParticipantRole {
     return this.currentRole;
   }
 
   isHost(): boolean {
-    return this.currentRole === 'host';
+    return this.currentRole === 'admin' || this.currentRole === 'instructor';
   }
 
   getParticipantId(): string {
@@ -0,0 +1,138 @@
+import { Link, Route, Switch, useLocation } from "wouter";
+import type { LucideIcon } from "lucide-react";
+import { Plus, Settings, Wallet, Tag, UserCog, Shield, BookOpen, Award } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import AuthGuard from "@/components/AuthGuard";
+import Header from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import CreateClassForm from "@/components/admin/CreateClassForm";
+import ManageClassesPanel from "@/components/admin/ManageClassesPanel";
+import ManualPaymentsPanel from "@/components/admin/ManualPaymentsPanel";
+import CouponsPanel from "@/components/admin/CouponsPanel";
+import RolesPanel from "@/components/admin/RolesPanel";
+import CurriculumPanel from "@/components/admin/CurriculumPanel";
+import CertificatesPanel from "@/components/admin/CertificatesPanel";
+import { can, type Action, type Resource } from "@shared/rbac";
+
+interface AdminSection {
+  href: string;
+  label: string;
+  description: string;
+  icon: LucideIcon;
+  action: Action;
+  resource: Resource;
+}
+
+const SECTIONS: AdminSection[] = [
+  { href: "/admin/classes/new", label: "নতুন ক্লাস তৈরি করুন", description: "লাইভ ক্লাসের সময়সূচি যোগ করুন", icon: Plus, action: 'create', resource: 'live-class' },
+  { href: "/admin/classes", label: "সকল ক্লাস ম্যানেজ করুন", description: "ক্লাস সম্পাদনা, সক্রিয় বা বাতিল করুন", icon: Settings, action: 'update', resource: 'live-class' },
+  { href: "/admin/curriculum", label: "পাঠ্যক্রম তৈরি করুন", description: "ইউনিট, পাঠ ও পূর্বশর্ত সাজান", icon: BookOpen, action: 'update', resource: 'course-content' },
+  { href: "/admin/payments", label: "পেমেন্ট যাচাই করুন", description: "নগদ ও রকেট পেমেন্ট অনুমোদন করুন", icon: Wallet, action: 'manage', resource: 'payments' },
+  { href: "/admin/coupons", label: "কুপন ম্যানেজ করুন", description: "ছাড়ের কুপন তৈরি ও বন্ধ করুন", icon: Tag, action: 'manage', resource: 'coupons' },
+  { href: "/admin/certificates", label: "সার্টিফিকেট ম্যানেজ করুন", description: "সার্টিফিকেটের শর্ত নির্ধারণ ও বাতিল করুন", icon: Award, action: 'manage', resource: 'certificates' },
+  { href: "/admin/roles", label: "ভূমিকা ও অনুমতি", description: "ব্যবহারকারীর ভূমিকা ও অনুমতি নির্ধারণ করুন", icon: UserCog, action: 'manage', resource: 'roles' },
+];
+
+function AdminOverview() {
+  const { profile } = useAuth();
+  const sections = SECTIONS.filter((section) => can(profile, section.action, section.resource));
+
+  return (
+    <Card className="bg-gradient-to-r from-islamic-green to-emerald-600 text-white border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Shield className="h-5 w-5" />
+          <span>অ্যাডমিন প্যানেল</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {sections.map((section) => (
+            <Link key={section.href} href={section.href}>
+              <div className="bg-white text-islamic-green hover:bg-gray-100 rounded-lg p-4 cursor-pointer transition-colors h-full">
+                <div className="flex items-center font-medium">
+                  <section.icon className="h-5 w-5 mr-2" />
+                  {section.label}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">{section.description}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * The `/admin/*` route tree. Each tool opens over the overview at its own
+ * URL and closing it returns to `/admin`; App.tsx admits admins only and
+ * each tool also checks its own permission.
+ */
+export default function AdminRoutes() {
+  const [, setLocation] = useLocation();
+  const close = () => setLocation("/admin");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <AdminOverview />
+      </div>
+
+      <Switch>
+        <Route path="/admin/classes/new">
+          <AuthGuard requirePermission={{ action: 'create', resource: 'live-class' }}>
+            <CreateClassForm
+              onClose={close}
+              onSuccess={() => {
+                // Refresh class data
+                window.location.reload();
+              }}
+            />
+          </AuthGuard>
+        </Route>
+
+        <Route path="/admin/classes">
+          <AuthGuard requirePermission={{ action: 'update', resource: 'live-class' }}>
+            <ManageClassesPanel
+              onClose={close}
+              onEditClass={() => setLocation("/admin/classes/new")} // Reuse form for editing
+            />
+          </AuthGuard>
+        </Route>
+
+        <Route path="/admin/curriculum">
+          <AuthGuard requirePermission={{ action: 'update', resource: 'course-content' }}>
+            <CurriculumPanel onClose={close} />
+          </AuthGuard>
+        </Route>
+
+        <Route path="/admin/payments">
+          <AuthGuard requirePermission={{ action: 'manage', resource: 'payments' }}>
+            <ManualPaymentsPanel onClose={close} />
+          </AuthGuard>
+        </Route>
+
+        <Route path="/admin/coupons">
+          <AuthGuard requirePermission={{ action: 'manage', resource: 'coupons' }}>
+            <CouponsPanel onClose={close} />
+          </AuthGuard>
+        </Route>
+
+        <Route path="/admin/certificates">
+          <AuthGuard requirePermission={{ action: 'manage', resource: 'certificates' }}>
+            <CertificatesPanel onClose={close} />
+          </AuthGuard>
+        </Route>
+
+        <Route path="/admin/roles">
+          <AuthGuard requirePermission={{ action: 'manage', resource: 'roles' }}>
+            <RolesPanel onClose={close} />
+          </AuthGuard>
+        </Route>
+      </Switch>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -11,9 +11,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/contexts/AuthContext";
+import { getCourseCatalog, getMyEnrollments } from "@/lib/api";
+import { nextInstallment, type CourseEnrollment } from "@shared/pricing";
 import { 
   Shield, 
   CheckCircle, 
@@ -27,6 +29,7 @@ import {
 } from "lucide-react";
 import Header from "@/components/Header";
 import BangladeshiPayment from "@/components/BangladeshiPayment";
+import CoursePlanPicker from "@/components/CoursePlanPicker";
 
 const registrationSchema = z.object({
   firstName: z.string().min(2, "নাম কমপক্ষে ২টি অক্ষর হতে হবে"),
@@ -41,10 +44,35 @@ type RegistrationFormData = z.infer<typeof registrationSchema>;
 
 
 export default function CourseRegistration() {
-  const { user, profile } = useAuth();
+  const { user, profile, refreshProfile } = useAuth();
   const { toast } = useToast();
-  const [step, setStep] = useState<'registration' | 'payment'>('registration');
-  const [registeredUserId, setRegisteredUserId] = useState("");
+  const [step, setStep] = useState<'registration' | 'plan' | 'payment'>('registration');
+  const [enrollment, setEnrollment] = useState<CourseEnrollment | null>(null);
+  const installment = enrollment ? nextInstallment(enrollment) : null;
+
+  const { data: catalog } = useQuery({
+    queryKey: ['course-catalog'],
+    queryFn: getCourseCatalog
+  });
+  const { data: enrollments } = useQuery({
+    queryKey: ['my-enrollments'],
+    queryFn: getMyEnrollments,
+    enabled: !!user
+  });
+
+  // Registered students go straight to choosing a plan, or to paying the
+  // next installment of an enrollment they already have
+  useEffect(() => {
+    if (step !== 'registration' || !profile || !enrollments) return;
+
+    const open = enrollments.find(candidate => candidate.status !== 'cancelled' && nextInstallment(candidate));
+    if (open) {
+      setEnrollment(open);
+      setStep('payment');
+    } else {
+      setStep('plan');
+    }
+  }, [step, profile, enrollments]);
 
   const form = useForm<RegistrationFormData>({
     resolver: zodResolver(registrationSchema),
@@ -63,13 +91,12 @@ export default function CourseRegistration() {
       const response = await apiRequest("POST", "/api/register", data);
       return response.json();
     },
-    onSuccess: (newUser) => {
-      setRegisteredUserId(newUser.id);
-      setStep('payment');
+    onSuccess: () => {
+      setStep('plan');
       
       toast({
         title: "নিবন্ধন সফল!",
-        description: "এখন পেমেন্ট সম্পন্ন করুন।",
+        description: "এখন কোর্স ও পরিশোধের পদ্ধতি নির্বাচন করুন।",
       });
     },
     onError: (error: any) => {
@@ -81,7 +108,19 @@ export default function CourseRegistration() {
     },
   });
 
+  const handleEnrolled = (created: CourseEnrollment) => {
+    queryClient.invalidateQueries({ queryKey: ['my-enrollments'] });
+    setEnrollment(created);
+    setStep('payment');
+    // A free enrollment (a 100% coupon) has nothing to pay and is active at once
+    if (!nextInstallment(created)) {
+      queryClient.invalidateQueries({ queryKey: ['course-access'] });
+      refreshProfile();
+    }
+  };
+
   const handlePaymentSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['course-access'] });
     toast({
       title: "পেমেন্ট সফল!",
       description: "আপনার নিবন্ধন সম্পন্ন হয়েছে। স্বাগতম!",
@@ -93,6 +132,29 @@ export default function CourseRegistration() {
     }, 2000);
   };
 
+  // bKash sends the customer back here with the checkout result
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const result = params.get('payment');
+    if (!result) return;
+
+    window.history.replaceState(null, '', window.location.pathname);
+    if (result === 'success') {
+      handlePaymentSuccess();
+    } else if (result === 'pending') {
+      toast({
+        title: "পেমেন্ট প্রক্রিয়াধীন",
+        description: "আপনার bKash পেমেন্ট এখনও সম্পন্ন হয়নি। কিছুক্ষণ পর আবার দেখুন।",
+      });
+    } else {
+      toast({
+        title: result === 'cancelled' ? "পেমেন্ট বাতিল হয়েছে" : "পেমেন্ট ব্যর্থ",
+        description: "bKash পেমেন্ট সম্পন্ন হয়নি। অনুগ্রহ করে আবার চেষ্টা করুন।",
+        variant: "destructive",
+      });
+    }
+  }, []);
+
   const onSubmit = (data: RegistrationFormData) => {
     registrationMutation.mutate(data);
   };
@@ -214,13 +276,23 @@ export default function CourseRegistration() {
                   </form>
                 </Form>
               </>
+            ) : step === 'plan' ? (
+              <>
+                <h2 className="text-2xl font-bold text-gray-900 mb-6">কোর্স ও পরিশোধের পদ্ধতি</h2>
+                <CoursePlanPicker onEnrolled={handleEnrolled} />
+              </>
             ) : (
               <>
                 <h2 className="text-2xl font-bold text-gray-900 mb-6">পেমেন্ট</h2>
-                <BangladeshiPayment
-                  userId={registeredUserId}
-                  onPaymentSuccess={handlePaymentSuccess}
-                />
+                {installment ? (
+                  <BangladeshiPayment
+                    installment={installment}
+                    installmentCount={enrollment?.enrollment_installments.length ?? 1}
+                    onPaymentSuccess={handlePaymentSuccess}
+                  />
+                ) : (
+                  <p className="text-gray-600">আপনার সব কিস্তি পরিশোধ করা হয়েছে।</p>
+                )}
               </>
             )}
           </div>
@@ -232,8 +304,12 @@ export default function CourseRegistration() {
               <CardContent className="p-6 md:p-8">
                 <div className="text-center mb-6">
                   <h3 className="text-2xl font-bold mb-2">আরবি ভাষা শিক্ষা কোর্স</h3>
-                  <div className="text-4xl font-bold text-islamic-gold">৬০০ টাকা</div>
-                  <p className="text-sm opacity-90 mt-2">একবার পেমেন্ট, সম্পূর্ণ কোর্স</p>
+                  {catalog?.[0] && (
+                    <div className="text-4xl font-bold text-islamic-gold">
+                      {catalog[0].price.toLocaleString('bn-BD')} টাকা
+                    </div>
+                  )}
+                  <p className="text-sm opacity-90 mt-2">এককালীন অথবা সহজ কিস্তিতে পরিশোধ</p>
                 </div>
 
                 <div className="space-y-4">
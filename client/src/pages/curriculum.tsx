@@ -0,0 +1,341 @@
+import { Link, Route, Switch } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import DialectForm from "@/components/DialectForm";
+import Header from "@/components/Header";
+import HandwritingPractice from "@/components/HandwritingPractice";
+import PronunciationPractice from "@/components/PronunciationPractice";
+import QuizPlayer from "@/components/QuizPlayer";
+import QuranRange from "@/components/QuranRange";
+import TajweedText from "@/components/TajweedText";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { getCurriculum, getLesson, completeLesson } from "@/lib/api";
+import {
+  LESSON_TYPE_LABELS,
+  type HandwritingContent,
+  type Lesson,
+  type LessonState,
+  type LessonSummary,
+  type QuizContent,
+  type QuranRecitationContent,
+  type ReadingContent,
+  type VideoContent,
+  type VocabularyContent
+} from "@shared/curriculum";
+import { DEFAULT_DIALECT } from "@shared/dialects";
+import { practiceTargets } from "@shared/pronunciation";
+import { ArrowLeft, BookOpen, CheckCircle, Clock, Lock, PlayCircle, AlertCircle } from "lucide-react";
+
+const STATE_BADGES: Record<LessonState, { label: string; className: string }> = {
+  completed: { label: "সম্পন্ন", className: "bg-green-100 text-green-800" },
+  available: { label: "শুরু করুন", className: "bg-blue-100 text-blue-800" },
+  locked: { label: "লক করা", className: "bg-gray-100 text-gray-600" }
+};
+
+function LessonRow({ lesson, titles }: { lesson: LessonSummary; titles: Map<string, string> }) {
+  const badge = STATE_BADGES[lesson.state];
+  const Icon = lesson.state === 'completed' ? CheckCircle : lesson.state === 'locked' ? Lock : PlayCircle;
+  const row = (
+    <div className={`flex items-center justify-between p-3 rounded-lg border ${lesson.state === 'locked' ? 'bg-gray-50 border-gray-100' : 'bg-white border-gray-200 hover:border-islamic-green cursor-pointer'}`}>
+      <div className="flex items-start space-x-3">
+        <Icon className={`h-5 w-5 mt-0.5 ${lesson.state === 'completed' ? 'text-green-600' : lesson.state === 'locked' ? 'text-gray-400' : 'text-islamic-green'}`} />
+        <div>
+          <p className="font-medium">{lesson.title_bn || lesson.title}</p>
+          <p className="text-xs text-gray-500 flex items-center mt-1">
+            {LESSON_TYPE_LABELS[lesson.lesson_type]}
+            <Clock className="h-3 w-3 ml-2 mr-1" />
+            {lesson.estimated_minutes} মিনিট
+          </p>
+          {lesson.state === 'locked' && lesson.prerequisites.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              আগে শেষ করুন: {lesson.prerequisites.map(({ lesson_id, min_score }) =>
+                `${titles.get(lesson_id) ?? 'অন্য পাঠ'}${min_score !== null ? ` (${min_score}%+)` : ''}`
+              ).join(', ')}
+            </p>
+          )}
+        </div>
+      </div>
+      <Badge className={badge.className}>{badge.label}</Badge>
+    </div>
+  );
+
+  return lesson.state === 'locked' ? row : <Link href={`/curriculum/lessons/${lesson.id}`}>{row}</Link>;
+}
+
+function CurriculumOutline() {
+  const { data: modules = [], isLoading, error } = useQuery({
+    queryKey: ['curriculum'],
+    queryFn: () => getCurriculum()
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12 text-red-600">
+        <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+        পাঠ্যক্রম লোড করতে ব্যর্থ
+      </div>
+    );
+  }
+
+  if (modules.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <BookOpen className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+        এখনো কোনো পাঠ প্রকাশিত হয়নি
+      </div>
+    );
+  }
+
+  const lessons = modules.flatMap((module) => module.units.flatMap((unit) => unit.lessons));
+  const titles = new Map(lessons.map((lesson): [string, string] => [lesson.id, lesson.title_bn || lesson.title]));
+
+  return (
+    <div className="space-y-6">
+      {modules.map((module) => {
+        const moduleLessons = module.units.flatMap((unit) => unit.lessons);
+        const completed = moduleLessons.filter((lesson) => lesson.state === 'completed').length;
+
+        return (
+          <Card key={module.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-islamic-green">{module.title_bn || module.title}</CardTitle>
+                <Badge variant="outline">{completed}/{moduleLessons.length} সম্পন্ন</Badge>
+              </div>
+              {module.description_bn && <p className="text-sm text-gray-600">{module.description_bn}</p>}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {module.units.map((unit) => (
+                <div key={unit.id} className="space-y-2">
+                  <h3 className="font-semibold text-gray-800">{unit.title_bn || unit.title}</h3>
+                  {unit.description_bn && <p className="text-sm text-gray-500">{unit.description_bn}</p>}
+                  <div className="space-y-2">
+                    {unit.lessons.map((lesson) => (
+                      <LessonRow key={lesson.id} lesson={lesson} titles={titles} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+function LessonBody({ lesson }: { lesson: Lesson }) {
+  const { profile } = useAuth();
+  const targets = practiceTargets(lesson.lesson_type, lesson.content, profile?.preferred_dialect ?? DEFAULT_DIALECT);
+  const practice = targets.length > 0 && <PronunciationPractice lessonId={lesson.id} targets={targets} />;
+
+  switch (lesson.lesson_type) {
+    case 'video': {
+      const content = lesson.content as VideoContent;
+      return (
+        <div className="space-y-4">
+          <video src={content.video_url} controls className="w-full rounded-lg bg-black" />
+          {content.transcript_bn && <p className="whitespace-pre-line text-gray-700">{content.transcript_bn}</p>}
+        </div>
+      );
+    }
+    case 'reading': {
+      const content = lesson.content as ReadingContent;
+      return (
+        <div className="space-y-4">
+          {content.body_ar && <p dir="rtl" lang="ar" className="text-2xl leading-loose whitespace-pre-line">{content.body_ar}</p>}
+          <p className="whitespace-pre-line text-gray-700">{content.body_bn}</p>
+        </div>
+      );
+    }
+    case 'vocabulary': {
+      const content = lesson.content as VocabularyContent;
+      return (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {content.words.map((word, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{word.meaning_bn}</p>
+                    {word.transliteration && <p className="text-xs text-gray-500">{word.transliteration}</p>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {word.audio_url && <audio src={word.audio_url} controls className="h-8 w-32" />}
+                    <span dir="rtl" lang="ar" className="text-2xl">{word.arabic}</span>
+                  </div>
+                </div>
+                <DialectForm word={word} className="justify-end" />
+              </div>
+            ))}
+          </div>
+          {practice}
+        </div>
+      );
+    }
+    case 'quiz': {
+      const content = lesson.content as QuizContent;
+      return (
+        <div className="space-y-4">
+          {content.instructions_bn && <p className="whitespace-pre-line text-gray-700">{content.instructions_bn}</p>}
+          <p className="text-sm text-gray-500">পাস করতে কমপক্ষে {content.pass_score}% নম্বর প্রয়োজন।</p>
+          <QuizPlayer lessonId={lesson.id} />
+        </div>
+      );
+    }
+    case 'quran_recitation': {
+      const content = lesson.content as QuranRecitationContent;
+      return (
+        <div className="space-y-4">
+          <p className="font-medium">
+            সূরা {content.surah}, আয়াত {content.ayah_from}
+            {content.ayah_to !== content.ayah_from && `–${content.ayah_to}`}
+          </p>
+          {content.text_ar
+            ? <TajweedText text={content.text_ar} showLegend />
+            : <QuranRange range={{ surah: content.surah, from: content.ayah_from, to: content.ayah_to }} />}
+          {content.audio_url && <audio src={content.audio_url} controls className="w-full" />}
+          {content.notes_bn && <p className="whitespace-pre-line text-gray-700">{content.notes_bn}</p>}
+          {practice}
+        </div>
+      );
+    }
+    case 'handwriting': {
+      const content = lesson.content as HandwritingContent;
+      return (
+        <div className="space-y-4">
+          {content.instructions_bn && <p className="whitespace-pre-line text-gray-700">{content.instructions_bn}</p>}
+          <HandwritingPractice targets={content.letters} />
+        </div>
+      );
+    }
+  }
+}
+
+function LessonView({ lessonId }: { lessonId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: lesson, isLoading, error } = useQuery({
+    queryKey: ['curriculum-lesson', lessonId],
+    queryFn: () => getLesson(lessonId),
+    retry: false
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: () => completeLesson(lessonId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['curriculum'] });
+      queryClient.invalidateQueries({ queryKey: ['curriculum-lesson', lessonId] });
+      toast({ title: "পাঠ সম্পন্ন হয়েছে", description: "পরের পাঠগুলো এখন খুলে যেতে পারে।" });
+    },
+    onError: (error) => {
+      console.error('Failed to complete lesson:', error);
+      toast({ title: "পাঠ সম্পন্ন করতে ব্যর্থ", description: "দয়া করে আবার চেষ্টা করুন।", variant: "destructive" });
+    }
+  });
+
+  const back = (
+    <Link href="/curriculum">
+      <Button variant="ghost" size="sm" className="mb-4">
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        পাঠ্যক্রমে ফিরে যান
+      </Button>
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div>
+        {back}
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !lesson) {
+    const message = error instanceof Error ? error.message : '';
+    return (
+      <div>
+        {back}
+        <div className="text-center py-12 text-gray-600">
+          <Lock className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+          {message.includes('lesson-locked')
+            ? 'এই পাঠ খুলতে আগের পাঠগুলো শেষ করুন'
+            : message.includes('not-enrolled')
+              ? 'এই পাঠ দেখতে কোর্সে ভর্তি হন বা কিস্তি পরিশোধ করুন'
+              : 'পাঠটি পাওয়া যায়নি'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {back}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-islamic-green">{lesson.title_bn || lesson.title}</CardTitle>
+            <Badge variant="outline">{LESSON_TYPE_LABELS[lesson.lesson_type]}</Badge>
+          </div>
+          {lesson.description_bn && <p className="text-sm text-gray-600">{lesson.description_bn}</p>}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <LessonBody lesson={lesson} />
+
+          <div className="flex justify-end pt-4 border-t">
+            {lesson.progress ? (
+              <Badge className="bg-green-100 text-green-800">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                সম্পন্ন{lesson.progress.score !== null && ` · ${lesson.progress.score}%`}
+              </Badge>
+            ) : lesson.lesson_type !== 'quiz' && (
+              <Button
+                className="bg-islamic-green hover:bg-dark-green"
+                onClick={() => completeMutation.mutate()}
+                disabled={completeMutation.isPending}
+              >
+                {completeMutation.isPending ? 'সংরক্ষণ করা হচ্ছে...' : 'সম্পন্ন করুন'}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * The `/curriculum/*` route tree: the student's outline and one page per
+ * lesson. The server decides what is locked.
+ */
+export default function CurriculumRoutes() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 max-w-4xl">
+        <Switch>
+          <Route path="/curriculum" component={CurriculumOutline} />
+          <Route path="/curriculum/lessons/:id">
+            {(params) => <LessonView lessonId={params.id} />}
+          </Route>
+        </Switch>
+      </div>
+    </div>
+  );
+}
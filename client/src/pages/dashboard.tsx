@@ -22,14 +22,19 @@ import {
   Plus,
   Edit,
   Settings,
-  Shield
+  Shield,
+  Wallet,
+  Tag,
+  UserCog,
+  GraduationCap
 } from "lucide-react";
 import Header from "@/components/Header";
-import CreateClassForm from "@/components/admin/CreateClassForm";
-import ManageClassesPanel from "@/components/admin/ManageClassesPanel";
+import ProgressBreakdown from "@/components/ProgressBreakdown";
+import CourseCertificates from "@/components/CourseCertificates";
+import { can } from "@shared/rbac";
 
 import { useQuery } from "@tanstack/react-query";
-import { getUserProfile, getUserAttendance } from "@/lib/api";
+import { getUserProfile, getUserAttendance, getCourseProgress } from "@/lib/api";
 import { getLiveClasses } from "@/lib/supabase";
 import { Link } from "wouter";
 import { format } from "date-fns";
@@ -37,11 +42,6 @@ import { format } from "date-fns";
 export default function Dashboard() {
   const { toast } = useToast();
   const { user, profile: userProfile, loading: authLoading } = useAuth();
-  
-  // Admin panel state
-  const [showCreateClassForm, setShowCreateClassForm] = useState(false);
-  const [showManageClassesPanel, setShowManageClassesPanel] = useState(false);
-  const [editingClassId, setEditingClassId] = useState<string | null>(null);
 
   // Fetch real user data with proper error handling
   const { data: profile, isLoading: profileLoading, error: profileError } = useQuery({
@@ -70,6 +70,16 @@ export default function Dashboard() {
     retry: 1,
   });
 
+  // Computed by the server; the profile only caches its totals
+  const { data: courseProgress, isLoading: courseProgressLoading, error: courseProgressError } = useQuery({
+    queryKey: ['course-progress', user?.id],
+    queryFn: () => getCourseProgress(),
+    enabled: !!user?.id,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
   // Direct state management for live classes - bypassing TanStack Query issues
   const [upcomingClasses, setUpcomingClasses] = useState<any[]>([]);
   const [classesLoading, setClassesLoading] = useState(true);
@@ -106,8 +116,8 @@ export default function Dashboard() {
   console.log('🏠 Dashboard classes from Supabase:', upcomingClasses);
 
   // Show errors if any critical data failed to load
-  if (profileError || attendanceError || classesError) {
-    console.error('Dashboard data errors:', { profileError, attendanceError, classesError });
+  if (profileError || attendanceError || classesError || courseProgressError) {
+    console.error('Dashboard data errors:', { profileError, attendanceError, classesError, courseProgressError });
   }
 
   const isLoading = authLoading || (profileLoading && !profile) || (attendanceLoading && !attendance) || (classesLoading && !upcomingClasses);
@@ -124,6 +134,18 @@ export default function Dashboard() {
     role: "student" as const
   };
 
+  // Shortcuts into the /admin and /instructor route trees, which enforce the same rules
+  const isAdmin = userProfile?.role === 'admin';
+  const isTeachingStaff = isAdmin || userProfile?.role === 'instructor' || userProfile?.role === 'teaching_assistant';
+  const canCreateClasses = isAdmin && can(userProfile, 'create', 'live-class');
+  const canEditClasses = isAdmin && can(userProfile, 'update', 'live-class');
+  const canManagePayments = isAdmin && can(userProfile, 'manage', 'payments');
+  const canManageCoupons = isAdmin && can(userProfile, 'manage', 'coupons');
+  const canManageRoles = isAdmin && can(userProfile, 'manage', 'roles');
+
+  const progressPercent = courseProgress?.percent ?? displayProfile.course_progress ?? 0;
+  const classesAttended = courseProgress?.classes_attended ?? displayProfile.classes_attended ?? 0;
+
   const displayUser = user || { 
     email: "user@example.com",
     user_metadata: { first_name: "ব্যবহারকারী", last_name: "" }
@@ -203,8 +225,8 @@ export default function Dashboard() {
               <TrendingUp className="h-4 w-4 text-blue-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-blue-900">{displayProfile.course_progress || 0}%</div>
-              <Progress value={displayProfile.course_progress || 0} className="mt-2" />
+              <div className="text-2xl font-bold text-blue-900">{progressPercent}%</div>
+              <Progress value={progressPercent} className="mt-2" />
             </CardContent>
           </Card>
 
@@ -214,7 +236,7 @@ export default function Dashboard() {
               <Users className="h-4 w-4 text-green-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-green-900">{displayProfile.classes_attended || 0}</div>
+              <div className="text-2xl font-bold text-green-900">{classesAttended}</div>
               <p className="text-xs text-green-600 mt-1">মোট ক্লাস সংখ্যা</p>
             </CardContent>
           </Card>
@@ -242,8 +264,8 @@ export default function Dashboard() {
           </Card>
         </div>
 
-        {/* Admin Controls - Only visible for admin users */}
-        {(displayProfile?.role === 'admin' || userProfile?.role === 'admin' || user?.id === '3b077064-343c-4938-9ae0-52a866156162') && (
+        {/* Admin Controls - Only visible to roles with staff permissions */}
+        {isTeachingStaff && (
           <div className="mb-8">
             <Card className="bg-gradient-to-r from-islamic-green to-emerald-600 text-white border-0">
               <CardHeader>
@@ -253,33 +275,88 @@ export default function Dashboard() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <Button
-                    size="lg"
-                    className="bg-white text-islamic-green hover:bg-gray-100 h-14"
-                    onClick={() => setShowCreateClassForm(true)}
-                  >
-                    <Plus className="h-5 w-5 mr-2" />
-                    নতুন ক্লাস তৈরি করুন
-                  </Button>
-                  
-                  <Button
-                    size="lg"
-                    className="bg-white text-islamic-green hover:bg-gray-100 h-14"
-                    onClick={() => setShowManageClassesPanel(true)}
-                  >
-                    <Settings className="h-5 w-5 mr-2" />
-                    সকল ক্লাস ম্যানেজ করুন
-                  </Button>
-                  
-                  <Button
-                    size="lg"
-                    className="bg-white text-islamic-green hover:bg-gray-100 h-14"
-                    onClick={() => setShowManageClassesPanel(true)}
-                  >
-                    <Edit className="h-5 w-5 mr-2" />
-                    ক্লাস সম্পাদনা করুন
-                  </Button>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {canCreateClasses && (
+                    <Link href="/admin/classes/new">
+                      <Button
+                        size="lg"
+                        className="bg-white text-islamic-green hover:bg-gray-100 h-14 w-full"
+                      >
+                        <Plus className="h-5 w-5 mr-2" />
+                        নতুন ক্লাস তৈরি করুন
+                      </Button>
+                    </Link>
+                  )}
+
+                  {canEditClasses && (
+                    <Link href="/admin/classes">
+                      <Button
+                        size="lg"
+                        className="bg-white text-islamic-green hover:bg-gray-100 h-14 w-full"
+                      >
+                        <Settings className="h-5 w-5 mr-2" />
+                        সকল ক্লাস ম্যানেজ করুন
+                      </Button>
+                    </Link>
+                  )}
+
+                  {canEditClasses && (
+                    <Link href="/admin/classes">
+                      <Button
+                        size="lg"
+                        className="bg-white text-islamic-green hover:bg-gray-100 h-14 w-full"
+                      >
+                        <Edit className="h-5 w-5 mr-2" />
+                        ক্লাস সম্পাদনা করুন
+                      </Button>
+                    </Link>
+                  )}
+
+                  {canManagePayments && (
+                    <Link href="/admin/payments">
+                      <Button
+                        size="lg"
+                        className="bg-white text-islamic-green hover:bg-gray-100 h-14 w-full"
+                      >
+                        <Wallet className="h-5 w-5 mr-2" />
+                        পেমেন্ট যাচাই করুন
+                      </Button>
+                    </Link>
+                  )}
+
+                  {canManageCoupons && (
+                    <Link href="/admin/coupons">
+                      <Button
+                        size="lg"
+                        className="bg-white text-islamic-green hover:bg-gray-100 h-14 w-full"
+                      >
+                        <Tag className="h-5 w-5 mr-2" />
+                        কুপন ম্যানেজ করুন
+                      </Button>
+                    </Link>
+                  )}
+
+                  {canManageRoles && (
+                    <Link href="/admin/roles">
+                      <Button
+                        size="lg"
+                        className="bg-white text-islamic-green hover:bg-gray-100 h-14 w-full"
+                      >
+                        <UserCog className="h-5 w-5 mr-2" />
+                        ভূমিকা ও অনুমতি
+                      </Button>
+                    </Link>
+                  )}
+
+                  <Link href="/instructor">
+                    <Button
+                      size="lg"
+                      className="bg-white text-islamic-green hover:bg-gray-100 h-14 w-full"
+                    >
+                      <GraduationCap className="h-5 w-5 mr-2" />
+                      প্রশিক্ষক পোর্টাল
+                    </Button>
+                  </Link>
                 </div>
                 
                 <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
@@ -493,14 +570,14 @@ export default function Dashboard() {
                   <div>
                     <div className="flex justify-between items-center mb-2">
                       <span className="text-sm font-medium">সম্পূর্ণ অগ্রগতি</span>
-                      <span className="text-sm text-gray-600">{displayProfile.course_progress || 0}%</span>
+                      <span className="text-sm text-gray-600">{progressPercent}%</span>
                     </div>
-                    <Progress value={displayProfile.course_progress || 0} className="h-3" />
+                    <Progress value={progressPercent} className="h-3" />
                   </div>
                   
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="text-center p-4 border rounded-lg">
-                      <h3 className="text-lg font-semibold text-blue-600">{displayProfile.classes_attended || 0}</h3>
+                      <h3 className="text-lg font-semibold text-blue-600">{classesAttended}</h3>
                       <p className="text-sm text-gray-600">উপস্থিত ক্লাস</p>
                     </div>
                     <div className="text-center p-4 border rounded-lg">
@@ -515,6 +592,32 @@ export default function Dashboard() {
                 </CardContent>
               </Card>
 
+              <Card>
+                <CardHeader>
+                  <CardTitle>মডিউল অনুযায়ী অগ্রগতি</CardTitle>
+                  <p className="text-sm text-gray-500">
+                    সম্পন্ন পাঠ, ক্লাসে উপস্থিতি, হোমওয়ার্কের নম্বর ও কুইজের স্কোর থেকে হিসাব করা হয়
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  {courseProgressLoading ? (
+                    <div className="space-y-4">
+                      <Skeleton className="h-24 w-full" />
+                      <Skeleton className="h-24 w-full" />
+                    </div>
+                  ) : courseProgress ? (
+                    <ProgressBreakdown progress={courseProgress} />
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <AlertCircle className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                      <p>অগ্রগতি লোড করতে ব্যর্থ</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {can(userProfile, 'view', 'certificates') && <CourseCertificates />}
+
               {displayProfile.enrollment_status === "pending" && (
                 <Card className="border-orange-200 bg-orange-50">
                   <CardHeader>
@@ -536,28 +639,6 @@ export default function Dashboard() {
           </TabsContent>
         </Tabs>
       </div>
-
-      {/* Admin Forms */}
-      {showCreateClassForm && (
-        <CreateClassForm
-          onClose={() => setShowCreateClassForm(false)}
-          onSuccess={() => {
-            // Refresh class data
-            window.location.reload();
-          }}
-        />
-      )}
-
-      {showManageClassesPanel && (
-        <ManageClassesPanel
-          onClose={() => setShowManageClassesPanel(false)}
-          onEditClass={(classId) => {
-            setEditingClassId(classId);
-            setShowManageClassesPanel(false);
-            setShowCreateClassForm(true); // Reuse form for editing
-          }}
-        />
-      )}
     </div>
   );
 }
\ No newline at end of file
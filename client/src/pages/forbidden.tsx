@@ -0,0 +1,40 @@
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+import { ROLE_LABELS } from "@shared/rbac";
+
+// Where AuthGuard sends signed-in users whose role may not open a page
+export default function Forbidden() {
+  const [, setLocation] = useLocation();
+  const { profile } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <ShieldAlert className="h-12 w-12 text-destructive" />
+          </div>
+          <p className="text-sm font-mono text-muted-foreground">403</p>
+          <h1 className="text-2xl font-bold text-destructive">অ্যাক্সেস অস্বীকৃত</h1>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          <p className="text-muted-foreground">
+            এই পেজ অ্যাক্সেস করার জন্য আপনার অনুমতি নেই।
+            {profile && ` আপনার রোল: ${ROLE_LABELS[profile.role]}`}
+          </p>
+          <div className="flex flex-col gap-2">
+            <Button onClick={() => setLocation('/dashboard')} variant="default">
+              ড্যাশবোর্ডে ফিরে যান
+            </Button>
+            <Button onClick={() => setLocation('/')} variant="outline">
+              হোম পেজে যান
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
 } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import VocabularyReview from "@/components/VocabularyReview";
 
 import { useQuery } from "@tanstack/react-query";
 import { getUserProfile, getLiveClasses } from "@/lib/api";
@@ -133,6 +134,11 @@ export default function Home() {
           </Card>
         </div>
 
+        {/* Daily Vocabulary Review */}
+        <div className="mb-8">
+          <VocabularyReview />
+        </div>
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Upcoming Classes */}
           <Card>
@@ -0,0 +1,117 @@
+import { Link, Redirect, Route, Switch, useLocation } from "wouter";
+import type { LucideIcon } from "lucide-react";
+import Header from "@/components/Header";
+import AuthGuard from "@/components/AuthGuard";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import InstructorClassList from "@/components/instructor/InstructorClassList";
+import ClassSessionsPanel from "@/components/instructor/ClassSessionsPanel";
+import HomeworkGradingPanel from "@/components/instructor/HomeworkGradingPanel";
+import VocabularyLearnersPanel from "@/components/instructor/VocabularyLearnersPanel";
+import PronunciationReviewPanel from "@/components/instructor/PronunciationReviewPanel";
+import HandwritingTemplatesPanel from "@/components/instructor/HandwritingTemplatesPanel";
+import CurriculumPanel from "@/components/admin/CurriculumPanel";
+import { can, type Action, type Resource } from "@shared/rbac";
+import { GraduationCap, ClipboardCheck, BookOpen, Languages, Mic, PenTool } from "lucide-react";
+
+interface NavItem {
+  href: string;
+  label: string;
+  icon: LucideIcon;
+  // Hidden from roles without this permission
+  permission?: { action: Action; resource: Resource };
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { href: "/instructor", label: "আমার ক্লাস", icon: GraduationCap },
+  { href: "/instructor/homework", label: "হোমওয়ার্ক মূল্যায়ন", icon: ClipboardCheck },
+  { href: "/instructor/vocabulary", label: "শব্দ অনুশীলন", icon: Languages, permission: { action: 'view', resource: 'students' } },
+  { href: "/instructor/pronunciation", label: "উচ্চারণ অনুশীলন", icon: Mic, permission: { action: 'view', resource: 'students' } },
+  { href: "/instructor/curriculum", label: "পাঠ্যক্রম", icon: BookOpen, permission: { action: 'update', resource: 'course-content' } },
+  { href: "/instructor/handwriting", label: "হাতের লেখার আদর্শ", icon: PenTool, permission: { action: 'update', resource: 'course-content' } },
+];
+
+function InstructorNav() {
+  const [location] = useLocation();
+  const { profile } = useAuth();
+  const items = NAV_ITEMS.filter((item) => !item.permission || can(profile, item.permission.action, item.permission.resource));
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-6">
+      {items.map((item) => {
+        const active = item.href === "/instructor"
+          ? location === "/instructor" || location.startsWith("/instructor/classes")
+          : location.startsWith(item.href);
+        return (
+          <Link key={item.href} href={item.href}>
+            <Button
+              variant={active ? "default" : "outline"}
+              className={active ? "bg-islamic-green hover:bg-dark-green" : ""}
+            >
+              <item.icon className="h-4 w-4 mr-2" />
+              {item.label}
+            </Button>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * The `/instructor/*` route tree; App.tsx admits instructors, teaching
+ * assistants and admins. The server limits every list to the caller's own
+ * classes.
+ */
+export default function InstructorRoutes() {
+  const [, setLocation] = useLocation();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <InstructorNav />
+
+        <Switch>
+          <Route path="/instructor" component={InstructorClassList} />
+          <Route path="/instructor/classes/:id">
+            {(params) => (
+              <AuthGuard requirePermission={{ action: 'view', resource: 'students' }}>
+                <ClassSessionsPanel classId={params.id} />
+              </AuthGuard>
+            )}
+          </Route>
+          <Route path="/instructor/homework">
+            <AuthGuard requirePermission={{ action: 'update', resource: 'homework' }}>
+              <HomeworkGradingPanel />
+            </AuthGuard>
+          </Route>
+          <Route path="/instructor/vocabulary">
+            <AuthGuard requirePermission={{ action: 'view', resource: 'students' }}>
+              <VocabularyLearnersPanel />
+            </AuthGuard>
+          </Route>
+          <Route path="/instructor/pronunciation">
+            <AuthGuard requirePermission={{ action: 'view', resource: 'students' }}>
+              <PronunciationReviewPanel />
+            </AuthGuard>
+          </Route>
+          <Route path="/instructor/curriculum">
+            <AuthGuard requirePermission={{ action: 'update', resource: 'course-content' }}>
+              <CurriculumPanel onClose={() => setLocation("/instructor")} />
+            </AuthGuard>
+          </Route>
+          <Route path="/instructor/handwriting">
+            <AuthGuard requirePermission={{ action: 'update', resource: 'course-content' }}>
+              <HandwritingTemplatesPanel />
+            </AuthGuard>
+          </Route>
+          <Route>
+            <Redirect to="/instructor" replace />
+          </Route>
+        </Switch>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,9 @@ import { ArrowLeft, Calendar, Clock, Users, Video, MessageSquare, BookOpen } fro
 import { useState, useEffect } from 'react';
 import Header from '@/components/Header';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { getLiveClasses, getLiveClassById } from '@/lib/api';
+import { getInstructorClasses, getLiveClasses, getLiveClassById } from '@/lib/api';
+import { classRoomId } from '@shared/signaling';
+import { can } from '@shared/rbac';
 import { EnterpriseVideoConference } from '@/components/EnterpriseVideoConference';
 import SupabaseLiveChat from '@/components/SupabaseLiveChat';
 import HomeworkSubmissions from '@/components/HomeworkSubmissions';
@@ -40,14 +42,22 @@ export default function LiveClassPage() {
 
   // Determine selected class
   const selectedClass = classData || (allClasses && allClasses[0]) || null;
-  const isInstructor = selectedClass?.instructor_id === user?.id || (profile as any)?.role === 'admin';
+
+  // `instructor_id` points at an `instructors` row, so ask the portal which classes are ours
+  const isTeachingStaff = can(profile, 'moderate', 'live-class');
+  const { data: teachingClasses = [] } = useQuery({
+    queryKey: ['instructor-classes'],
+    queryFn: getInstructorClasses,
+    enabled: isTeachingStaff,
+  });
+  const isInstructor = can(profile, 'manage', 'live-class')
+    || (isTeachingStaff && teachingClasses.some((liveClass) => liveClass.id === selectedClass?.id));
   const userDisplayName = (profile as any)?.display_name || (profile as any)?.first_name || user?.email?.split('@')[0] || 'অংশগ্রহণকারী';
 
-  // Generate room ID when starting class
+  // One room per class so the server can enforce its capacity and enrollment
   useEffect(() => {
     if (selectedClass && !roomId) {
-      const generatedRoomId = `arabic-class-${selectedClass.id}-${Date.now()}`;
-      setRoomId(generatedRoomId);
+      setRoomId(classRoomId(selectedClass.id));
     }
   }, [selectedClass, roomId]);
 
@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   User, 
   Mail, 
@@ -21,15 +22,20 @@ import {
   Camera,
   Loader2,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Languages
 } from 'lucide-react';
 import Header from '@/components/Header';
+import PaymentReceipts from '@/components/PaymentReceipts';
+import { ROLE_LABELS } from '@shared/rbac';
+import { DIALECTS, DIALECT_LABELS, DEFAULT_DIALECT, type Dialect } from '@shared/dialects';
 import { format } from 'date-fns';
 
 export default function ProfilePage() {
   const { user, profile, updateProfile, loading } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isSavingDialect, setIsSavingDialect] = useState(false);
   const [editData, setEditData] = useState({
     first_name: profile?.first_name || '',
     last_name: profile?.last_name || '',
@@ -53,6 +59,15 @@ export default function ProfilePage() {
     }
   };
 
+  const handleDialectChange = async (dialect: Dialect) => {
+    setIsSavingDialect(true);
+    try {
+      await updateProfile({ preferred_dialect: dialect });
+    } finally {
+      setIsSavingDialect(false);
+    }
+  };
+
   // Handle input changes
   const handleInputChange = (field: string, value: string) => {
     setEditData(prev => ({ ...prev, [field]: value }));
@@ -123,14 +138,13 @@ export default function ProfilePage() {
                   <p className="text-muted-foreground">{user.email}</p>
                   
                   <div className="flex items-center space-x-2 mt-3">
-                    <Badge variant={profile.enrollment_status === 'active' ? 'default' : 'secondary'}>
-                      {profile.enrollment_status === 'active' ? 'সক্রিয়' : 
+                    <Badge variant={profile.enrollment_status === 'enrolled' ? 'default' : 'secondary'}>
+                      {profile.enrollment_status === 'enrolled' ? 'সক্রিয়' : 
                        profile.enrollment_status === 'pending' ? 'অপেক্ষমাণ' : 
-                       profile.enrollment_status === 'completed' ? 'সম্পন্ন' : 'স্থগিত'}
+                       profile.enrollment_status === 'completed' ? 'সম্পন্ন' : 'বাতিল'}
                     </Badge>
                     <Badge variant="outline">
-                      {profile.role === 'student' ? 'শিক্ষার্থী' : 
-                       profile.role === 'instructor' ? 'প্রশিক্ষক' : 'প্রশাসক'}
+                      {ROLE_LABELS[profile.role]}
                     </Badge>
                     <Badge variant={profile.payment_status === 'paid' ? 'default' : 'destructive'}>
                       {profile.payment_status === 'paid' ? 'পেমেন্ট সম্পন্ন' : 
@@ -152,9 +166,10 @@ export default function ProfilePage() {
           </Card>
 
           <Tabs defaultValue="info" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="info">ব্যক্তিগত তথ্য</TabsTrigger>
               <TabsTrigger value="progress">অগ্রগতি</TabsTrigger>
+              <TabsTrigger value="payments">পেমেন্ট</TabsTrigger>
               <TabsTrigger value="settings">সেটিংস</TabsTrigger>
             </TabsList>
 
@@ -332,8 +347,41 @@ export default function ProfilePage() {
               </div>
             </TabsContent>
 
+            {/* Payments Tab */}
+            <TabsContent value="payments">
+              <PaymentReceipts />
+            </TabsContent>
+
             {/* Settings Tab */}
-            <TabsContent value="settings">
+            <TabsContent value="settings" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Languages className="h-5 w-5" />
+                    <span>শেখার উপভাষা</span>
+                  </CardTitle>
+                  <CardDescription>
+                    পাঠে শব্দের ফুসহা রূপের পাশে এই উপভাষার রূপও দেখানো হবে, যেখানে যোগ করা আছে
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Select
+                    value={profile.preferred_dialect ?? DEFAULT_DIALECT}
+                    onValueChange={(value) => handleDialectChange(value as Dialect)}
+                    disabled={isSavingDialect}
+                  >
+                    <SelectTrigger className="w-64" data-testid="dialect-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DIALECTS.map((dialect) => (
+                        <SelectItem key={dialect} value={dialect}>{DIALECT_LABELS[dialect]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardContent>
+              </Card>
+
               <Card>
                 <CardHeader>
                   <CardTitle>একাউন্ট সেটিংস</CardTitle>
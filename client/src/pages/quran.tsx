@@ -0,0 +1,196 @@
+import { useState, type FormEvent } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import QuranPassage from "@/components/QuranPassage";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getQuranAyahs, getQuranIndex } from "@/lib/api";
+import {
+  JUZ_COUNT,
+  MUSHAF_PAGES,
+  REVELATION_LABELS,
+  SURAHS,
+  parseVerseKey,
+  surahInfo,
+  verseKey,
+  type QuranAyahQuery
+} from "@shared/quran";
+import { AlertCircle, BookOpen, ChevronLeft, ChevronRight } from "lucide-react";
+
+type ReadingMode = 'surah' | 'juz' | 'page';
+
+interface QuranProps {
+  // From /quran/:surah/:ayah
+  surah?: string;
+  ayah?: string;
+}
+
+/**
+ * The Quran by surah, juz or mushaf page. Surahs have their own address, and
+ * /quran/2/255 opens Al-Baqarah at Ayat al-Kursi.
+ */
+export default function Quran({ surah: rawSurah, ayah: rawAyah }: QuranProps) {
+  const [, setLocation] = useLocation();
+  const focus = rawSurah ? parseVerseKey(`${rawSurah}:${rawAyah ?? 1}`) : null;
+  const surahNumber = focus?.surah ?? 1;
+  const [mode, setMode] = useState<ReadingMode>('surah');
+  const [juz, setJuz] = useState(1);
+  const [page, setPage] = useState(1);
+  const [jumpTo, setJumpTo] = useState("");
+
+  const { data: index, isLoading: indexLoading, error: indexError } = useQuery({
+    queryKey: ['quran-index'],
+    queryFn: getQuranIndex,
+    staleTime: Infinity,
+    retry: false
+  });
+
+  const query: QuranAyahQuery = mode === 'surah' ? { surah: surahNumber } : mode === 'juz' ? { juz } : { page };
+  const { data: ayahs, isLoading, error } = useQuery({
+    queryKey: ['quran-ayahs', query],
+    queryFn: () => getQuranAyahs(query),
+    enabled: !!index,
+    staleTime: Infinity
+  });
+
+  const surah = surahInfo(surahNumber)!;
+
+  const openSurah = (number: number, ayah?: number) => {
+    setMode('surah');
+    setLocation(ayah ? `/quran/${number}/${ayah}` : `/quran/${number}`);
+  };
+
+  const handleJump = (event: FormEvent) => {
+    event.preventDefault();
+    const target = parseVerseKey(jumpTo.includes(':') ? jumpTo : `${surahNumber}:${jumpTo}`);
+    if (target) {
+      openSurah(target.surah, target.ayah);
+      setJumpTo("");
+    }
+  };
+
+  const notInstalled = indexError instanceof Error && indexError.message.startsWith('503');
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-islamic-green">
+                <BookOpen className="h-5 w-5" />
+                <span>আল-কুরআন</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Tabs value={mode} onValueChange={(value) => setMode(value as ReadingMode)}>
+                <TabsList>
+                  <TabsTrigger value="surah">সূরা</TabsTrigger>
+                  <TabsTrigger value="juz">পারা</TabsTrigger>
+                  <TabsTrigger value="page" disabled={!index?.has_pages}>পৃষ্ঠা</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {mode === 'surah' && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <Select value={String(surahNumber)} onValueChange={(value) => openSurah(Number(value))}>
+                    <SelectTrigger className="w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SURAHS.map((option) => (
+                        <SelectItem key={option.number} value={String(option.number)}>
+                          {option.number}. {option.name} — <span dir="rtl" lang="ar">{option.name_ar}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <form onSubmit={handleJump} className="flex items-center gap-2">
+                    <Input
+                      className="w-36"
+                      placeholder="আয়াত বা 2:255"
+                      value={jumpTo}
+                      onChange={(e) => setJumpTo(e.target.value)}
+                      data-testid="quran-jump-input"
+                    />
+                    <Button type="submit" variant="outline" size="sm">যান</Button>
+                  </form>
+                  <span className="text-sm text-gray-500">
+                    {surah.ayah_count} আয়াত · {REVELATION_LABELS[surah.revelation]}
+                  </span>
+                </div>
+              )}
+
+              {mode === 'juz' && (
+                <Select value={String(juz)} onValueChange={(value) => setJuz(Number(value))}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: JUZ_COUNT }, (_, i) => i + 1).map((number) => (
+                      <SelectItem key={number} value={String(number)}>পারা {number}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {mode === 'page' && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MUSHAF_PAGES}
+                    className="w-28"
+                    value={page}
+                    onChange={(e) => setPage(Math.min(MUSHAF_PAGES, Math.max(1, Number(e.target.value) || 1)))}
+                  />
+                  <span className="text-sm text-gray-500">/ {MUSHAF_PAGES} পৃষ্ঠা</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              {indexLoading || (index && isLoading) ? (
+                <Skeleton className="h-96 w-full" />
+              ) : indexError || error || !index || !ayahs ? (
+                <div className="text-center py-12 text-red-600">
+                  <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+                  {notInstalled ? "কুরআনের পাঠ্য এখনো সার্ভারে যোগ করা হয়নি" : "কুরআনের পাঠ্য লোড করতে ব্যর্থ"}
+                </div>
+              ) : (
+                <QuranPassage ayahs={ayahs} index={index} focusKey={mode === 'surah' && rawAyah && focus ? verseKey(focus) : null} />
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              onClick={() => mode === 'surah' ? openSurah(surahNumber - 1) : mode === 'juz' ? setJuz(juz - 1) : setPage(page - 1)}
+              disabled={mode === 'surah' ? surahNumber <= 1 : mode === 'juz' ? juz <= 1 : page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              আগের
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => mode === 'surah' ? openSurah(surahNumber + 1) : mode === 'juz' ? setJuz(juz + 1) : setPage(page + 1)}
+              disabled={mode === 'surah' ? surahNumber >= SURAHS.length : mode === 'juz' ? juz >= JUZ_COUNT : page >= MUSHAF_PAGES}
+            >
+              পরের
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
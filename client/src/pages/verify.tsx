@@ -0,0 +1,126 @@
+import { useState, type FormEvent } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { certificateDocumentUrl, certificatePdfUrl, verifyCertificate } from "@/lib/api";
+import { CERTIFICATE_SERIAL_PATTERN } from "@shared/certificates";
+import { ShieldCheck, ShieldX, SearchX, Loader2, ExternalLink, Download } from "lucide-react";
+import { format } from "date-fns";
+import { bn } from "date-fns/locale";
+
+interface VerifyProps {
+  serial?: string;
+}
+
+/**
+ * Public check of a certificate serial, for employers and madrasas; needs
+ * no account
+ */
+export default function Verify({ serial: rawSerial }: VerifyProps) {
+  const [, setLocation] = useLocation();
+  const serial = rawSerial ? decodeURIComponent(rawSerial).trim().toUpperCase() : "";
+  const [input, setInput] = useState(serial);
+  const wellFormed = CERTIFICATE_SERIAL_PATTERN.test(serial);
+
+  const { data: certificate, isLoading, error } = useQuery({
+    queryKey: ['certificate-verification', serial],
+    queryFn: () => verifyCertificate(serial),
+    enabled: wellFormed,
+    retry: false
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const next = input.trim().toUpperCase();
+    if (next) setLocation(`/verify/${encodeURIComponent(next)}`);
+  };
+
+  const notFound = (serial && !wellFormed) || (error instanceof Error && error.message.startsWith('404'));
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center py-8">
+      <Card className="w-full max-w-lg mx-4">
+        <CardHeader className="text-center">
+          <h1 className="text-2xl font-bold text-islamic-green">সার্টিফিকেট যাচাই</h1>
+          <p className="text-sm text-muted-foreground">Certificate verification · التحقق من الشهادة</p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleSubmit} className="flex space-x-2">
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="ALPC-XXXX-XXXX-XXXX"
+              className="font-mono"
+              aria-label="সনদ নম্বর"
+            />
+            <Button type="submit" className="bg-islamic-green hover:bg-dark-green">যাচাই করুন</Button>
+          </form>
+
+          {!serial ? null : isLoading ? (
+            <div className="text-center py-6">
+              <Loader2 className="h-8 w-8 mx-auto animate-spin text-muted-foreground" />
+            </div>
+          ) : notFound ? (
+            <div className="text-center py-6 space-y-2">
+              <SearchX className="h-12 w-12 mx-auto text-destructive" />
+              <p className="font-semibold text-destructive">এই নম্বরে কোনো সার্টিফিকেট পাওয়া যায়নি</p>
+              <p className="text-sm text-muted-foreground">No certificate was issued with this serial.</p>
+            </div>
+          ) : error || !certificate ? (
+            <p className="text-center py-6 text-muted-foreground">যাচাই করা যায়নি, দয়া করে পরে আবার চেষ্টা করুন।</p>
+          ) : (
+            <div className={`rounded-lg border p-4 space-y-3 ${certificate.status === 'valid' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+              <div className="flex items-center space-x-3">
+                {certificate.status === 'valid'
+                  ? <ShieldCheck className="h-10 w-10 text-green-600" />
+                  : <ShieldX className="h-10 w-10 text-red-600" />}
+                <div>
+                  <p className={`font-semibold ${certificate.status === 'valid' ? 'text-green-800' : 'text-red-800'}`}>
+                    {certificate.status === 'valid' ? 'সার্টিফিকেটটি বৈধ' : 'সার্টিফিকেটটি বাতিল করা হয়েছে'}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {certificate.status === 'valid' ? 'This certificate is authentic.' : 'This certificate has been revoked.'}
+                  </p>
+                </div>
+              </div>
+              <dl className="grid grid-cols-3 gap-2 text-sm">
+                <dt className="text-muted-foreground">শিক্ষার্থী</dt>
+                <dd className="col-span-2 font-medium">{certificate.student_name}</dd>
+                <dt className="text-muted-foreground">কোর্স</dt>
+                <dd className="col-span-2">{certificate.course_title_bn} <span className="text-muted-foreground">({certificate.course_title})</span></dd>
+                <dt className="text-muted-foreground">প্রদানের তারিখ</dt>
+                <dd className="col-span-2">{format(new Date(certificate.issued_at), "dd MMMM yyyy", { locale: bn })}</dd>
+                {certificate.revoked_at && (
+                  <>
+                    <dt className="text-muted-foreground">বাতিলের তারিখ</dt>
+                    <dd className="col-span-2">{format(new Date(certificate.revoked_at), "dd MMMM yyyy", { locale: bn })}</dd>
+                  </>
+                )}
+                <dt className="text-muted-foreground">সনদ নম্বর</dt>
+                <dd className="col-span-2 font-mono">{certificate.serial}</dd>
+              </dl>
+              <Button variant="outline" size="sm" className="w-full" asChild>
+                <a href={certificateDocumentUrl(certificate.serial)} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-1" />
+                  সার্টিফিকেট দেখুন
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" className="w-full" asChild>
+                <a href={certificatePdfUrl(certificate.serial)} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  PDF ডাউনলোড
+                </a>
+              </Button>
+            </div>
+          )}
+
+          <div className="text-center">
+            <Link href="/" className="text-sm text-islamic-green hover:underline">হোম পেজে যান</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
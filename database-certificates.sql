@@ -0,0 +1,60 @@
+-- Certificates for Arabic Learning Platform
+-- Completion criteria per course product and the certificates issued against
+-- them; serials are checked publicly at /verify/:serial
+-- Run this in your Supabase SQL Editor after database-progress.sql
+
+-- What a student needs to earn a course's certificate. Courses without a row
+-- issue no certificates.
+CREATE TABLE IF NOT EXISTS certificate_criteria (
+    product_id UUID PRIMARY KEY REFERENCES course_products(id) ON DELETE CASCADE,
+    -- Share of the course's held class sessions attended
+    min_attendance_percent INTEGER NOT NULL DEFAULT 75 CHECK (min_attendance_percent BETWEEN 0 AND 100),
+    min_homework_average INTEGER NOT NULL DEFAULT 60 CHECK (min_homework_average BETWEEN 0 AND 100),
+    -- A quiz lesson taken as the final exam; NULL when there is none
+    final_exam_lesson_id UUID REFERENCES lessons(id) ON DELETE SET NULL,
+    min_final_exam_score INTEGER NOT NULL DEFAULT 60 CHECK (min_final_exam_score BETWEEN 0 AND 100),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Student and course details are copied in when the certificate is issued so
+-- it never changes afterwards
+CREATE TABLE IF NOT EXISTS certificates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- ALPC-XXXX-XXXX-XXXX, random so serials cannot be guessed in sequence
+    serial VARCHAR(20) UNIQUE NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES course_products(id),
+    student_name VARCHAR(200) NOT NULL,
+    course_title VARCHAR(200) NOT NULL,
+    course_title_bn VARCHAR(200) NOT NULL,
+    attendance_percent INTEGER,
+    homework_average INTEGER,
+    final_exam_score INTEGER,
+    issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    revoked_at TIMESTAMPTZ,
+    revoked_reason TEXT,
+    revoked_by UUID REFERENCES users(id)
+);
+
+-- One standing certificate per student and course; a revoked one can be
+-- replaced
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_current
+    ON certificates(user_id, product_id)
+    WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_certificates_issued ON certificates(issued_at DESC);
+
+ALTER TABLE certificate_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE certificates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view certificate criteria" ON certificate_criteria;
+CREATE POLICY "Anyone can view certificate criteria" ON certificate_criteria FOR SELECT USING (true);
+-- Verification goes through the server, which shows only what the
+-- certificate itself prints
+DROP POLICY IF EXISTS "Users can view own certificates" ON certificates;
+CREATE POLICY "Users can view own certificates" ON certificates FOR SELECT USING (auth.uid() = user_id);
+
+INSERT INTO role_permissions (role, action, resource) VALUES
+    ('student', 'view', 'certificates'),
+    ('parent', 'view', 'certificates')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,72 @@
+-- Curriculum for Arabic Learning Platform
+-- Modules are split into units and units into lessons; lessons unlock once
+-- their prerequisite lessons are completed
+-- Run this in your Supabase SQL Editor after database-instructor.sql
+
+CREATE TABLE IF NOT EXISTS course_units (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES course_modules(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    title_bn VARCHAR(200),
+    description_bn TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_units_module ON course_units(module_id, "order");
+
+CREATE TABLE IF NOT EXISTS lessons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    unit_id UUID NOT NULL REFERENCES course_units(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    title_bn VARCHAR(200),
+    description_bn TEXT,
+    lesson_type TEXT NOT NULL CHECK (lesson_type IN ('video', 'reading', 'vocabulary', 'quiz', 'quran_recitation')),
+    -- Shape depends on lesson_type; see LESSON_CONTENT_SCHEMAS in shared/curriculum.ts
+    content JSONB NOT NULL DEFAULT '{}',
+    estimated_minutes INTEGER NOT NULL DEFAULT 15 CHECK (estimated_minutes > 0),
+    "order" INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lessons_unit ON lessons(unit_id, "order");
+
+-- A lesson unlocks when every prerequisite is completed, with at least
+-- min_score when one is set (quiz prerequisites)
+CREATE TABLE IF NOT EXISTS lesson_prerequisites (
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    prerequisite_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    min_score INTEGER CHECK (min_score BETWEEN 0 AND 100),
+    PRIMARY KEY (lesson_id, prerequisite_id),
+    CHECK (lesson_id <> prerequisite_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_prerequisites_prerequisite ON lesson_prerequisites(prerequisite_id);
+
+-- One row per completed lesson; completing again keeps the best score
+CREATE TABLE IF NOT EXISTS lesson_progress (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    score INTEGER CHECK (score BETWEEN 0 AND 100),
+    completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, lesson_id)
+);
+
+-- A live class may teach one lesson; its module follows the lesson
+ALTER TABLE live_classes ADD COLUMN IF NOT EXISTS lesson_id UUID REFERENCES lessons(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_live_classes_lesson ON live_classes(lesson_id);
+
+ALTER TABLE course_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lessons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lesson_prerequisites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lesson_progress ENABLE ROW LEVEL SECURITY;
+
+-- The outline is public like course_modules; lesson content is served by the
+-- server, which checks enrollment and prerequisites
+DROP POLICY IF EXISTS "Anyone can view course units" ON course_units;
+CREATE POLICY "Anyone can view course units" ON course_units FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Users can view own lesson progress" ON lesson_progress;
+CREATE POLICY "Users can view own lesson progress" ON lesson_progress FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Dialect Preference for Arabic Learning Platform
+-- The spoken dialect each student is learning besides MSA; lessons show a
+-- word's form in that dialect next to MSA where one has been added
+-- (`variants` of vocabulary words, shared/dialects.ts)
+-- Run this in your Supabase SQL Editor after database-handwriting.sql
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS preferred_dialect TEXT NOT NULL DEFAULT 'MSA'
+    CHECK (preferred_dialect IN ('MSA', 'Egyptian', 'Gulf', 'Levantine', 'Maghrebi'));
@@ -0,0 +1,27 @@
+-- Handwriting Practice for Arabic Learning Platform
+-- Model strokes instructors record for each letter form, and the
+-- 'handwriting' lesson type; students' writing is checked against the
+-- models in the browser (shared/handwriting.ts)
+-- Run this in your Supabase SQL Editor after database-pronunciation.sql
+
+ALTER TABLE lessons DROP CONSTRAINT IF EXISTS lessons_lesson_type_check;
+ALTER TABLE lessons ADD CONSTRAINT lessons_lesson_type_check
+    CHECK (lesson_type IN ('video', 'reading', 'vocabulary', 'quiz', 'quran_recitation', 'handwriting'));
+
+-- One model per letter form. Strokes are [[{ "x", "y", "t" }, ...], ...] in
+-- the order written, with x and y as fractions of the canvas.
+CREATE TABLE IF NOT EXISTS handwriting_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    letter TEXT NOT NULL,
+    form TEXT NOT NULL CHECK (form IN ('isolated', 'initial', 'medial', 'final')),
+    strokes JSONB NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (letter, form)
+);
+
+ALTER TABLE handwriting_templates ENABLE ROW LEVEL SECURITY;
+
+-- Models are reference material, not personal data
+DROP POLICY IF EXISTS "Signed-in users can view handwriting templates" ON handwriting_templates;
+CREATE POLICY "Signed-in users can view handwriting templates" ON handwriting_templates FOR SELECT USING (auth.role() = 'authenticated');
@@ -0,0 +1,71 @@
+-- Instructor Portal for Arabic Learning Platform
+-- Run this in your Supabase SQL Editor after database-rbac.sql
+
+-- One run of a live class. The instructor starts and ends it from the portal;
+-- at most one session per class is open at a time.
+CREATE TABLE IF NOT EXISTS class_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    class_id UUID NOT NULL REFERENCES live_classes(id) ON DELETE CASCADE,
+    started_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMPTZ,
+    CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_class_sessions_open ON class_sessions(class_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_class_sessions_class ON class_sessions(class_id, started_at DESC);
+
+-- Only the server reads and writes sessions
+ALTER TABLE class_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Attendance is now kept per session instead of once per class. Rows from
+-- before sessions existed keep a null session_id.
+ALTER TABLE class_attendance ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES class_sessions(id) ON DELETE CASCADE;
+ALTER TABLE class_attendance DROP CONSTRAINT IF EXISTS class_attendance_user_id_class_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_class_attendance_session_user ON class_attendance(session_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_homework_submissions_class_id ON homework_submissions(class_id, submitted_at DESC);
+
+-- Record a visit to a class room, called by the signaling server when a
+-- participant leaves. The visit goes to the session it overlaps; without one
+-- a session is opened so the visit still counts. Repeat visits (reconnects)
+-- add up.
+CREATE OR REPLACE FUNCTION record_class_attendance(
+    p_class_id UUID,
+    p_user_id UUID,
+    p_joined_at TIMESTAMPTZ,
+    p_left_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+DECLARE
+    v_session_id UUID;
+    v_minutes INTEGER := GREATEST(0, ROUND(EXTRACT(EPOCH FROM (p_left_at - p_joined_at)) / 60))::INTEGER;
+BEGIN
+    SELECT id INTO v_session_id
+    FROM class_sessions
+    WHERE class_id = p_class_id
+      AND started_at <= p_left_at
+      AND (ended_at IS NULL OR ended_at >= p_joined_at)
+    ORDER BY started_at DESC
+    LIMIT 1;
+
+    IF v_session_id IS NULL THEN
+        INSERT INTO class_sessions (class_id, started_at)
+        VALUES (p_class_id, p_joined_at)
+        ON CONFLICT (class_id) WHERE ended_at IS NULL DO NOTHING
+        RETURNING id INTO v_session_id;
+
+        -- Another visit opened it meanwhile
+        IF v_session_id IS NULL THEN
+            SELECT id INTO v_session_id FROM class_sessions WHERE class_id = p_class_id AND ended_at IS NULL;
+        END IF;
+    END IF;
+
+    INSERT INTO class_attendance (user_id, class_id, session_id, duration, attended_at)
+    VALUES (p_user_id, p_class_id, v_session_id, v_minutes, p_joined_at)
+    ON CONFLICT (session_id, user_id) DO UPDATE
+    SET duration = class_attendance.duration + EXCLUDED.duration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_class_attendance(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_class_attendance(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
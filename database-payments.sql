@@ -0,0 +1,214 @@
+-- Payment Settlement for Arabic Learning Platform
+-- Run this in your Supabase SQL Editor after database-complete-setup.sql
+
+-- Who verified a manual payment, and when
+ALTER TABLE payment_records ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES users(id);
+ALTER TABLE payment_records ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+-- Refund details; status becomes 'refunded'
+ALTER TABLE payment_records ADD COLUMN IF NOT EXISTS refunded_by UUID REFERENCES users(id);
+ALTER TABLE payment_records ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+ALTER TABLE payment_records ADD COLUMN IF NOT EXISTS refund_reason TEXT;
+-- Provider refund transaction id, or the send-money reference for Nagad/Rocket
+ALTER TABLE payment_records ADD COLUMN IF NOT EXISTS refund_reference VARCHAR(100);
+
+-- A transaction id can only be claimed once per payment method. Failed
+-- payments (including rejected manual submissions) release it, so a student
+-- can resubmit after a typo and a wrongly claimed id does not block its payer.
+DROP INDEX IF EXISTS idx_payment_records_method_transaction;
+CREATE UNIQUE INDEX idx_payment_records_method_transaction
+    ON payment_records(method, transaction_id)
+    WHERE transaction_id IS NOT NULL AND status <> 'failed';
+
+-- Admin verification queue: pending manual payments, oldest first
+CREATE INDEX IF NOT EXISTS idx_payment_records_manual_queue
+    ON payment_records(created_at)
+    WHERE status = 'pending' AND method IN ('nagad', 'rocket');
+
+-- Append-only history of every payment: creation, settlement, refunds,
+-- duplicate callbacks and reconciliation findings. Rows are never updated or
+-- deleted, and they outlive the payment record they describe.
+CREATE TABLE IF NOT EXISTS payment_events (
+    id BIGSERIAL PRIMARY KEY,
+    payment_id VARCHAR(100) NOT NULL,
+    user_id UUID,
+    event_type VARCHAR(40) NOT NULL,
+    from_status payment_status,
+    to_status payment_status,
+    transaction_id VARCHAR(100),
+    amount DECIMAL(10,2),
+    actor_id UUID,
+    source VARCHAR(40) NOT NULL,
+    -- '<method>:<transaction id>' on settlement; a repeat settles nothing
+    idempotency_key VARCHAR(150) UNIQUE,
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment_id ON payment_events(payment_id, created_at);
+
+CREATE OR REPLACE FUNCTION reject_payment_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'payment_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payment_events_append_only ON payment_events;
+CREATE TRIGGER payment_events_append_only
+    BEFORE UPDATE OR DELETE ON payment_events
+    FOR EACH ROW EXECUTE FUNCTION reject_payment_event_changes();
+
+-- No policies: only the service role can read or write the log
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION log_payment_created()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO payment_events (payment_id, user_id, event_type, to_status, transaction_id, amount, source, details)
+    VALUES (NEW.payment_id, NEW.user_id, 'created', NEW.status, NEW.transaction_id, NEW.amount, 'system',
+            jsonb_build_object('method', NEW.method, 'payment_ref', NEW.payment_ref, 'phone_number', NEW.phone_number));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payment_records_log_created ON payment_records;
+CREATE TRIGGER payment_records_log_created
+    AFTER INSERT ON payment_records
+    FOR EACH ROW EXECUTE FUNCTION log_payment_created();
+
+-- Settle a pending payment and, when it is paid, enroll the student in the
+-- same transaction. A payment that is already settled, or a transaction id
+-- that already settled a payment, is returned unchanged and only logged as a
+-- duplicate, so repeated gateway callbacks are harmless.
+-- p_verified_by is the admin who reviewed a manual payment.
+DROP FUNCTION IF EXISTS settle_payment(TEXT, payment_status, TEXT, TEXT);
+DROP FUNCTION IF EXISTS settle_payment(TEXT, payment_status, TEXT, TEXT, UUID);
+CREATE OR REPLACE FUNCTION settle_payment(
+    p_payment_id TEXT,
+    p_status payment_status,
+    p_transaction_id TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_verified_by UUID DEFAULT NULL,
+    p_source TEXT DEFAULT 'system'
+)
+RETURNS payment_records AS $$
+DECLARE
+    payment payment_records;
+    previous_status payment_status;
+    settlement_key TEXT;
+BEGIN
+    SELECT * INTO payment FROM payment_records
+    WHERE payment_id = p_payment_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment % not found', p_payment_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    settlement_key := CASE WHEN p_transaction_id IS NULL THEN NULL ELSE payment.method || ':' || p_transaction_id END;
+
+    IF payment.status <> 'pending'
+       OR (settlement_key IS NOT NULL AND EXISTS (SELECT 1 FROM payment_events WHERE idempotency_key = settlement_key)) THEN
+        INSERT INTO payment_events (payment_id, user_id, event_type, from_status, to_status, transaction_id, actor_id, source, details)
+        VALUES (payment.payment_id, payment.user_id, 'duplicate', payment.status, payment.status, p_transaction_id, p_verified_by, p_source,
+                jsonb_build_object('requested_status', p_status));
+        RETURN payment;
+    END IF;
+
+    previous_status := payment.status;
+
+    UPDATE payment_records
+    SET status = p_status,
+        transaction_id = COALESCE(p_transaction_id, transaction_id),
+        verification_notes = COALESCE(p_notes, verification_notes),
+        verified_by = p_verified_by,
+        verified_at = CASE WHEN p_verified_by IS NULL THEN NULL ELSE NOW() END
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+
+    IF p_status = 'paid' THEN
+        UPDATE users
+        SET payment_status = 'paid',
+            enrollment_status = 'enrolled'
+        WHERE id = payment.user_id;
+    END IF;
+
+    INSERT INTO payment_events (payment_id, user_id, event_type, from_status, to_status, transaction_id, amount, actor_id, source, idempotency_key, details)
+    VALUES (payment.payment_id, payment.user_id, 'settled', previous_status, payment.status, payment.transaction_id, payment.amount, p_verified_by, p_source,
+            settlement_key, jsonb_strip_nulls(jsonb_build_object('notes', p_notes)));
+
+    RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refund a paid payment. The student's enrollment is revoked unless they
+-- hold another paid payment.
+CREATE OR REPLACE FUNCTION refund_payment(
+    p_payment_id TEXT,
+    p_refunded_by UUID,
+    p_reason TEXT,
+    p_reference TEXT
+)
+RETURNS payment_records AS $$
+DECLARE
+    payment payment_records;
+BEGIN
+    SELECT * INTO payment FROM payment_records
+    WHERE payment_id = p_payment_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment % not found', p_payment_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF payment.status <> 'paid' THEN
+        RAISE EXCEPTION 'Payment % is %, only paid payments can be refunded', p_payment_id, payment.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE payment_records
+    SET status = 'refunded',
+        refunded_by = p_refunded_by,
+        refunded_at = NOW(),
+        refund_reason = p_reason,
+        refund_reference = p_reference
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+
+    IF NOT EXISTS (SELECT 1 FROM payment_records WHERE user_id = payment.user_id AND status = 'paid') THEN
+        UPDATE users
+        SET payment_status = 'refunded',
+            enrollment_status = 'cancelled'
+        WHERE id = payment.user_id;
+    END IF;
+
+    INSERT INTO payment_events (payment_id, user_id, event_type, from_status, to_status, transaction_id, amount, actor_id, source, details)
+    VALUES (payment.payment_id, payment.user_id, 'refunded', 'paid', 'refunded', payment.transaction_id, payment.amount, p_refunded_by, 'admin',
+            jsonb_build_object('reason', p_reason, 'reference', p_reference));
+
+    RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may settle or refund payments
+REVOKE EXECUTE ON FUNCTION settle_payment(TEXT, payment_status, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION settle_payment(TEXT, payment_status, TEXT, TEXT, UUID, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION refund_payment(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refund_payment(TEXT, UUID, TEXT, TEXT) TO service_role;
+
+-- Provider statement imports and what they turned up
+CREATE TABLE IF NOT EXISTS payment_reconciliations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    method payment_method NOT NULL,
+    file_name VARCHAR(255),
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ,
+    statement_rows INTEGER NOT NULL,
+    matched INTEGER NOT NULL,
+    discrepancies JSONB NOT NULL DEFAULT '[]',
+    imported_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE payment_reconciliations ENABLE ROW LEVEL SECURITY;
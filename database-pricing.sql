@@ -0,0 +1,232 @@
+-- Course Pricing for Arabic Learning Platform
+-- Products, installment plans, coupons and per-course enrollments
+-- Run this in your Supabase SQL Editor after database-payments.sql
+
+-- A purchasable course; `level` ties it to course_modules.level
+CREATE TABLE IF NOT EXISTS course_products (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slug VARCHAR(100) UNIQUE NOT NULL,
+    title VARCHAR(200) NOT NULL,
+    title_bn VARCHAR(200) NOT NULL,
+    description_bn TEXT,
+    level INTEGER NOT NULL,
+    price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Paying a product in installments, e.g. 3 x 250 BDT every 30 days
+CREATE TABLE IF NOT EXISTS installment_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES course_products(id) ON DELETE CASCADE,
+    title_bn VARCHAR(200) NOT NULL,
+    installment_count INTEGER NOT NULL CHECK (installment_count >= 2),
+    installment_amount DECIMAL(10,2) NOT NULL CHECK (installment_amount > 0),
+    interval_days INTEGER NOT NULL DEFAULT 30 CHECK (interval_days > 0),
+    -- Days an installment may stay unpaid before live-class access is suspended
+    grace_days INTEGER NOT NULL DEFAULT 7 CHECK (grace_days >= 0),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS coupons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(40) UNIQUE NOT NULL CHECK (code = UPPER(code)),
+    discount_type VARCHAR(10) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    -- NULL: valid for every product
+    product_id UUID REFERENCES course_products(id) ON DELETE CASCADE,
+    max_uses INTEGER CHECK (max_uses > 0),
+    used_count INTEGER NOT NULL DEFAULT 0,
+    starts_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A student's purchase of one product. Prices are copied in so later price
+-- changes do not touch existing enrollments.
+CREATE TABLE IF NOT EXISTS course_enrollments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES course_products(id),
+    plan_id UUID REFERENCES installment_plans(id),
+    coupon_id UUID REFERENCES coupons(id),
+    list_price DECIMAL(10,2) NOT NULL,
+    discount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    total DECIMAL(10,2) NOT NULL,
+    grace_days INTEGER NOT NULL DEFAULT 0,
+    -- Kept in step by the server; access is always re-checked against the installments
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'suspended', 'cancelled')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open enrollment per product; a cancelled one can be replaced
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_enrollments_open
+    ON course_enrollments(user_id, product_id)
+    WHERE status <> 'cancelled';
+
+CREATE TABLE IF NOT EXISTS enrollment_installments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    enrollment_id UUID NOT NULL REFERENCES course_enrollments(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    due_date TIMESTAMPTZ NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'waived', 'refunded')),
+    paid_at TIMESTAMPTZ,
+    payment_id VARCHAR(100),
+    UNIQUE (enrollment_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_enrollment_installments_due
+    ON enrollment_installments(due_date)
+    WHERE status = 'pending';
+
+-- The installment a payment pays for
+ALTER TABLE payment_records ADD COLUMN IF NOT EXISTS installment_id UUID REFERENCES enrollment_installments(id);
+
+-- At most one open payment per installment, so it can never be paid twice;
+-- the server fails an abandoned bKash checkout before starting another
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_records_installment_open
+    ON payment_records(installment_id)
+    WHERE status IN ('pending', 'paid');
+
+DROP TRIGGER IF EXISTS update_course_enrollments_updated_at ON course_enrollments;
+CREATE TRIGGER update_course_enrollments_updated_at BEFORE UPDATE ON course_enrollments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE course_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE installment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE enrollment_installments ENABLE ROW LEVEL SECURITY;
+
+-- Coupons have no policies: codes are only checked on the server
+DROP POLICY IF EXISTS "Anyone can view active products" ON course_products;
+CREATE POLICY "Anyone can view active products" ON course_products FOR SELECT USING (is_active);
+DROP POLICY IF EXISTS "Anyone can view active plans" ON installment_plans;
+CREATE POLICY "Anyone can view active plans" ON installment_plans FOR SELECT USING (is_active);
+DROP POLICY IF EXISTS "Users can view own enrollments" ON course_enrollments;
+CREATE POLICY "Users can view own enrollments" ON course_enrollments FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can view own installments" ON enrollment_installments;
+CREATE POLICY "Users can view own installments" ON enrollment_installments FOR SELECT USING (
+    EXISTS (SELECT 1 FROM course_enrollments e WHERE e.id = enrollment_id AND e.user_id = auth.uid())
+);
+
+-- Create an enrollment and its installment schedule, claiming one use of the
+-- coupon in the same transaction. The server prices the enrollment
+-- (shared/pricing.ts) and passes the schedule as
+-- [{"sequence": 1, "amount": 250, "due_date": "..."}, ...].
+-- Nothing can be paid towards a free enrollment (a 100% coupon), so its
+-- installment is waived and the student enrolled at once.
+CREATE OR REPLACE FUNCTION create_enrollment(
+    p_user_id UUID,
+    p_product_id UUID,
+    p_plan_id UUID,
+    p_coupon_id UUID,
+    p_list_price DECIMAL,
+    p_discount DECIMAL,
+    p_grace_days INTEGER,
+    p_installments JSONB
+)
+RETURNS course_enrollments AS $$
+DECLARE
+    enrollment course_enrollments;
+BEGIN
+    IF p_coupon_id IS NOT NULL THEN
+        UPDATE coupons
+        SET used_count = used_count + 1
+        WHERE id = p_coupon_id
+          AND is_active
+          AND (max_uses IS NULL OR used_count < max_uses)
+          AND (starts_at IS NULL OR starts_at <= NOW())
+          AND (expires_at IS NULL OR expires_at > NOW());
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Coupon % is no longer available', p_coupon_id USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    INSERT INTO course_enrollments (user_id, product_id, plan_id, coupon_id, list_price, discount, total, grace_days)
+    VALUES (p_user_id, p_product_id, p_plan_id, p_coupon_id, p_list_price, p_discount, p_list_price - p_discount, p_grace_days)
+    RETURNING * INTO enrollment;
+
+    INSERT INTO enrollment_installments (enrollment_id, sequence, amount, due_date, status)
+    SELECT enrollment.id, item.sequence, item.amount, item.due_date, CASE WHEN item.amount = 0 THEN 'waived' ELSE 'pending' END
+    FROM jsonb_to_recordset(p_installments) AS item(sequence INTEGER, amount DECIMAL, due_date TIMESTAMPTZ);
+
+    IF enrollment.total = 0 THEN
+        UPDATE users
+        SET payment_status = 'paid',
+            enrollment_status = 'enrolled'
+        WHERE id = p_user_id;
+    END IF;
+
+    RETURN enrollment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_enrollment(UUID, UUID, UUID, UUID, DECIMAL, DECIMAL, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_enrollment(UUID, UUID, UUID, UUID, DECIMAL, DECIMAL, INTEGER, JSONB) TO service_role;
+
+-- Mark the installment a payment was for as paid when the payment settles,
+-- and cancel the enrollment when it is refunded. Runs inside settle_payment /
+-- refund_payment, so the installment never disagrees with the payment.
+CREATE OR REPLACE FUNCTION apply_installment_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.installment_id IS NULL OR NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'paid' THEN
+        UPDATE enrollment_installments
+        SET status = 'paid',
+            paid_at = NOW(),
+            payment_id = NEW.payment_id
+        WHERE id = NEW.installment_id AND status = 'pending';
+    ELSIF NEW.status = 'refunded' THEN
+        UPDATE enrollment_installments
+        SET status = 'refunded'
+        WHERE id = NEW.installment_id;
+
+        UPDATE course_enrollments
+        SET status = 'cancelled'
+        WHERE id = (SELECT enrollment_id FROM enrollment_installments WHERE id = NEW.installment_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payment_records_apply_installment ON payment_records;
+CREATE TRIGGER payment_records_apply_installment
+    AFTER UPDATE OF status ON payment_records
+    FOR EACH ROW EXECUTE FUNCTION apply_installment_payment();
+
+-- Starter catalog: the original one-time 600 BDT course, or 3 x 250 BDT
+INSERT INTO course_products (slug, title, title_bn, description_bn, level, price, sort_order)
+VALUES ('arabic-foundation', 'Arabic Language Course', 'আরবি ভাষা শিক্ষা কোর্স', '৬ মাসের সম্পূর্ণ কোর্স, সপ্তাহে ২টি লাইভ ক্লাস', 1, 600, 1)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO installment_plans (product_id, title_bn, installment_count, installment_amount, interval_days, grace_days)
+SELECT id, '৩ কিস্তিতে পরিশোধ', 3, 250, 30, 7
+FROM course_products
+WHERE slug = 'arabic-foundation'
+  AND NOT EXISTS (SELECT 1 FROM installment_plans p WHERE p.product_id = course_products.id);
+
+-- Students who paid the old flat fee keep their access
+INSERT INTO course_enrollments (user_id, product_id, list_price, total, status)
+SELECT u.id, p.id, p.price, p.price, 'active'
+FROM users u
+JOIN course_products p ON p.slug = 'arabic-foundation'
+WHERE u.payment_status = 'paid'
+  AND NOT EXISTS (SELECT 1 FROM course_enrollments e WHERE e.user_id = u.id);
+
+INSERT INTO enrollment_installments (enrollment_id, sequence, amount, due_date, status, paid_at)
+SELECT e.id, 1, e.total, e.created_at, 'paid', e.created_at
+FROM course_enrollments e
+WHERE NOT EXISTS (SELECT 1 FROM enrollment_installments i WHERE i.enrollment_id = e.id);
@@ -0,0 +1,59 @@
+-- Computed Course Progress for Arabic Learning Platform
+-- Progress comes from lessons completed, class attendance, graded homework
+-- and quiz scores, weighted per module; see server/progress.ts
+-- Run this in your Supabase SQL Editor after database-curriculum.sql
+
+-- How much each kind of work counts towards a module. Modules without a row
+-- use DEFAULT_PROGRESS_WEIGHTS from shared/progress.ts.
+CREATE TABLE IF NOT EXISTS module_progress_weights (
+    module_id UUID PRIMARY KEY REFERENCES course_modules(id) ON DELETE CASCADE,
+    lessons_weight INTEGER NOT NULL DEFAULT 40 CHECK (lessons_weight BETWEEN 0 AND 100),
+    attendance_weight INTEGER NOT NULL DEFAULT 30 CHECK (attendance_weight BETWEEN 0 AND 100),
+    homework_weight INTEGER NOT NULL DEFAULT 20 CHECK (homework_weight BETWEEN 0 AND 100),
+    quiz_weight INTEGER NOT NULL DEFAULT 10 CHECK (quiz_weight BETWEEN 0 AND 100),
+    -- Shorter visits to a class session do not count as attending it
+    min_attendance_minutes INTEGER NOT NULL DEFAULT 20 CHECK (min_attendance_minutes >= 0),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (lessons_weight + attendance_weight + homework_weight + quiz_weight > 0)
+);
+
+-- Only the server reads and writes weights
+ALTER TABLE module_progress_weights ENABLE ROW LEVEL SECURITY;
+
+-- users.course_progress and users.classes_attended cache the computed
+-- progress; they may only change through sync_user_progress, never through
+-- the "Users can update own profile" policy
+CREATE OR REPLACE FUNCTION guard_user_progress_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.course_progress IS DISTINCT FROM OLD.course_progress OR NEW.classes_attended IS DISTINCT FROM OLD.classes_attended)
+       AND current_setting('app.progress_sync', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Course progress is computed by the server' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_guard_progress_change ON users;
+CREATE TRIGGER users_guard_progress_change
+    BEFORE UPDATE OF course_progress, classes_attended ON users
+    FOR EACH ROW EXECUTE FUNCTION guard_user_progress_change();
+
+CREATE OR REPLACE FUNCTION sync_user_progress(p_user_id UUID, p_course_progress INTEGER, p_classes_attended INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM set_config('app.progress_sync', 'on', true);
+    UPDATE users
+    SET course_progress = p_course_progress,
+        classes_attended = p_classes_attended
+    WHERE id = p_user_id
+      AND (course_progress IS DISTINCT FROM p_course_progress OR classes_attended IS DISTINCT FROM p_classes_attended);
+    PERFORM set_config('app.progress_sync', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION sync_user_progress(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_user_progress(UUID, INTEGER, INTEGER) TO service_role;
+
+-- The old client-side counter; attendance is recorded by record_class_attendance
+DROP FUNCTION IF EXISTS increment_classes_attended(UUID);
@@ -0,0 +1,30 @@
+-- Pronunciation Practice for Arabic Learning Platform
+-- Scored recordings of the words and recitations students practise; audio is
+-- scored in the browser against the lesson's reference recording
+-- (shared/pronunciation.ts) and only the result is kept
+-- Run this in your Supabase SQL Editor after database-vocabulary.sql
+
+CREATE TABLE IF NOT EXISTS pronunciation_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    -- The word or ayahs practised, as the lesson lists them
+    target_text TEXT NOT NULL,
+    -- Which scorer produced the result, e.g. 'mfcc-dtw'
+    scorer TEXT NOT NULL,
+    score SMALLINT NOT NULL CHECK (score BETWEEN 0 AND 100),
+    -- [{ "letter": "...", "score": 0-100 }] in reading order
+    letters JSONB NOT NULL DEFAULT '[]',
+    -- Letters without harakat that scored below the passing mark
+    problem_letters TEXT[] NOT NULL DEFAULT '{}',
+    duration_ms INTEGER NOT NULL CHECK (duration_ms >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pronunciation_attempts_user ON pronunciation_attempts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pronunciation_attempts_lesson ON pronunciation_attempts(lesson_id, created_at DESC);
+
+ALTER TABLE pronunciation_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own pronunciation attempts" ON pronunciation_attempts;
+CREATE POLICY "Users can view own pronunciation attempts" ON pronunciation_attempts FOR SELECT USING (auth.uid() = user_id);
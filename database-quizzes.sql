@@ -0,0 +1,94 @@
+-- Quizzes and Exams for Arabic Learning Platform
+-- Question pools for quiz lessons and the attempts students make at them;
+-- grading happens on the server (server/quizzes.ts)
+-- Run this in your Supabase SQL Editor after database-certificates.sql
+
+CREATE TABLE IF NOT EXISTS quiz_questions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    question_type TEXT NOT NULL CHECK (question_type IN ('multiple_choice', 'harakat', 'match', 'order_words', 'listen_choose', 'free_text')),
+    prompt_bn TEXT NOT NULL,
+    prompt_ar TEXT,
+    -- Shape depends on question_type and includes the answer key; see
+    -- QUESTION_CONTENT_SCHEMAS in shared/quizzes.ts
+    content JSONB NOT NULL DEFAULT '{}',
+    points INTEGER NOT NULL DEFAULT 1 CHECK (points BETWEEN 1 AND 100),
+    "order" INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_lesson ON quiz_questions(lesson_id, "order");
+
+-- question_ids is the draw from the pool, in the order the student sees it
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    question_ids UUID[] NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- NULL when the quiz is not timed
+    expires_at TIMESTAMPTZ,
+    submitted_at TIMESTAMPTZ,
+    score INTEGER CHECK (score BETWEEN 0 AND 100),
+    timed_out BOOLEAN NOT NULL DEFAULT false,
+    answers JSONB,
+    -- Points earned per question
+    results JSONB
+);
+
+-- A student has at most one attempt open per quiz, so reloading the page
+-- resumes it instead of drawing new questions
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_attempts_open
+    ON quiz_attempts(user_id, lesson_id)
+    WHERE submitted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user ON quiz_attempts(user_id, lesson_id, started_at DESC);
+
+-- Questions carry their answers, so only the server reads them
+ALTER TABLE quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own quiz attempts" ON quiz_attempts;
+CREATE POLICY "Users can view own quiz attempts" ON quiz_attempts FOR SELECT USING (auth.uid() = user_id);
+
+-- users.certificate_score caches the student's quiz average next to the
+-- other computed totals, under the same guard
+CREATE OR REPLACE FUNCTION guard_user_progress_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.course_progress IS DISTINCT FROM OLD.course_progress
+        OR NEW.classes_attended IS DISTINCT FROM OLD.classes_attended
+        OR NEW.certificate_score IS DISTINCT FROM OLD.certificate_score)
+       AND current_setting('app.progress_sync', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Course progress is computed by the server' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_guard_progress_change ON users;
+CREATE TRIGGER users_guard_progress_change
+    BEFORE UPDATE OF course_progress, classes_attended, certificate_score ON users
+    FOR EACH ROW EXECUTE FUNCTION guard_user_progress_change();
+
+DROP FUNCTION IF EXISTS sync_user_progress(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION sync_user_progress(p_user_id UUID, p_course_progress INTEGER, p_classes_attended INTEGER, p_certificate_score INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM set_config('app.progress_sync', 'on', true);
+    UPDATE users
+    SET course_progress = p_course_progress,
+        classes_attended = p_classes_attended,
+        certificate_score = p_certificate_score
+    WHERE id = p_user_id
+      AND (course_progress IS DISTINCT FROM p_course_progress
+           OR classes_attended IS DISTINCT FROM p_classes_attended
+           OR certificate_score IS DISTINCT FROM p_certificate_score);
+    PERFORM set_config('app.progress_sync', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION sync_user_progress(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_user_progress(UUID, INTEGER, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,162 @@
+-- Roles and Permissions for Arabic Learning Platform
+-- Run this in your Supabase SQL Editor after database-receipts.sql
+
+-- New roles. They are only used through TEXT columns and set_user_role below,
+-- so this file can run in one transaction with the ADD VALUE statements.
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'teaching_assistant';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'parent';
+
+-- What each role may do; mirrors DEFAULT_ROLE_PERMISSIONS in shared/rbac.ts.
+-- 'manage' grants every action and '*' every resource.
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role TEXT NOT NULL CHECK (role IN ('student', 'parent', 'teaching_assistant', 'instructor', 'admin')),
+    action TEXT NOT NULL CHECK (action IN ('view', 'create', 'update', 'delete', 'join', 'moderate', 'record', 'bypass', 'manage')),
+    resource TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (role, action, resource)
+);
+
+-- Audit trail of role assignments
+CREATE TABLE IF NOT EXISTS role_changes (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    from_role TEXT,
+    to_role TEXT NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_changes_user ON role_changes(user_id, created_at DESC);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_changes ENABLE ROW LEVEL SECURITY;
+-- Every signed-in user reads the matrix to decide what to show; only the server writes it
+DROP POLICY IF EXISTS "Signed-in users can view role permissions" ON role_permissions;
+CREATE POLICY "Signed-in users can view role permissions" ON role_permissions FOR SELECT USING (auth.role() = 'authenticated');
+
+INSERT INTO role_permissions (role, action, resource) VALUES
+    ('student', 'view', 'live-class'), ('student', 'join', 'live-class'),
+    ('student', 'join', 'video-room'),
+    ('student', 'view', 'course-content'),
+    ('student', 'view', 'homework'), ('student', 'create', 'homework'),
+    ('student', 'view', 'receipts'),
+
+    ('parent', 'view', 'course-content'),
+    ('parent', 'view', 'receipts'),
+
+    ('teaching_assistant', 'view', 'live-class'), ('teaching_assistant', 'join', 'live-class'), ('teaching_assistant', 'moderate', 'live-class'),
+    ('teaching_assistant', 'join', 'video-room'), ('teaching_assistant', 'moderate', 'video-room'),
+    ('teaching_assistant', 'view', 'course-content'),
+    ('teaching_assistant', 'view', 'homework'), ('teaching_assistant', 'create', 'homework'), ('teaching_assistant', 'update', 'homework'),
+    ('teaching_assistant', 'view', 'receipts'),
+    ('teaching_assistant', 'view', 'students'),
+    ('teaching_assistant', 'bypass', 'enrollment'),
+
+    ('instructor', 'view', 'live-class'), ('instructor', 'join', 'live-class'), ('instructor', 'moderate', 'live-class'),
+    ('instructor', 'update', 'live-class'), ('instructor', 'record', 'live-class'),
+    ('instructor', 'join', 'video-room'), ('instructor', 'moderate', 'video-room'),
+    ('instructor', 'create', 'video-room'), ('instructor', 'record', 'video-room'),
+    ('instructor', 'view', 'course-content'), ('instructor', 'create', 'course-content'), ('instructor', 'update', 'course-content'),
+    ('instructor', 'view', 'homework'), ('instructor', 'create', 'homework'), ('instructor', 'update', 'homework'), ('instructor', 'manage', 'homework'),
+    ('instructor', 'view', 'receipts'),
+    ('instructor', 'view', 'students'),
+    ('instructor', 'bypass', 'enrollment'),
+
+    ('admin', 'manage', '*')
+ON CONFLICT DO NOTHING;
+
+-- Parents are not linked to their own children, so 'view students' would show
+-- them every student; withdraw it where an earlier seed granted it
+DELETE FROM role_permissions WHERE role = 'parent' AND action = 'view' AND resource = 'students';
+
+-- users.role may only change through set_user_role, never through the
+-- "Users can update own profile" policy
+CREATE OR REPLACE FUNCTION guard_user_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role AND current_setting('app.role_change', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Roles can only be changed by an admin' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_guard_role_change ON users;
+CREATE TRIGGER users_guard_role_change
+    BEFORE UPDATE OF role ON users
+    FOR EACH ROW EXECUTE FUNCTION guard_user_role_change();
+
+-- Assign a role. The role is copied into the auth user's app_metadata so it
+-- is in the next access token the server verifies. Refuses to demote the
+-- last admin.
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id UUID, p_role TEXT, p_changed_by UUID)
+RETURNS users AS $$
+DECLARE
+    current_role_name TEXT;
+    updated users;
+BEGIN
+    SELECT role::TEXT INTO current_role_name FROM users WHERE id = p_user_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF current_role_name = 'admin' AND p_role <> 'admin'
+       AND (SELECT COUNT(*) FROM users WHERE role = 'admin') <= 1 THEN
+        RAISE EXCEPTION 'Cannot remove the last admin' USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('app.role_change', 'on', true);
+    UPDATE users SET role = p_role::user_role WHERE id = p_user_id RETURNING * INTO updated;
+    PERFORM set_config('app.role_change', 'off', true);
+
+    UPDATE auth.users
+    SET raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('role', p_role)
+    WHERE id = p_user_id;
+
+    IF current_role_name IS DISTINCT FROM p_role THEN
+        INSERT INTO role_changes (user_id, from_role, to_role, changed_by)
+        VALUES (p_user_id, current_role_name, p_role, p_changed_by);
+    END IF;
+
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION set_user_role(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_user_role(UUID, TEXT, UUID) TO service_role;
+
+-- Replace what a role may do in one transaction, so a failed insert never
+-- leaves the role without permissions. p_permissions is
+-- [{"action": "view", "resource": "students"}, ...].
+CREATE OR REPLACE FUNCTION set_role_permissions(p_role TEXT, p_permissions JSONB)
+RETURNS SETOF role_permissions AS $$
+BEGIN
+    DELETE FROM role_permissions WHERE role = p_role;
+
+    RETURN QUERY
+    INSERT INTO role_permissions (role, action, resource)
+    SELECT DISTINCT p_role, item.action, item.resource
+    FROM jsonb_to_recordset(p_permissions) AS item(action TEXT, resource TEXT)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION set_role_permissions(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_role_permissions(TEXT, JSONB) TO service_role;
+
+-- Copy existing roles into app_metadata so tokens carry them from now on
+UPDATE auth.users a
+SET raw_app_meta_data = COALESCE(a.raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('role', u.role::TEXT)
+FROM users u
+WHERE u.id = a.id
+  AND a.raw_app_meta_data->>'role' IS DISTINCT FROM u.role::TEXT;
+
+-- The web app used to treat this account as admin by id; give it the role for real.
+-- Later admins are assigned from the dashboard.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM users WHERE id = '3b077064-343c-4938-9ae0-52a866156162' AND role::TEXT <> 'admin') THEN
+        PERFORM set_user_role('3b077064-343c-4938-9ae0-52a866156162', 'admin', NULL);
+    END IF;
+END;
+$$;
@@ -0,0 +1,125 @@
+-- Payment Receipts for Arabic Learning Platform
+-- Run this in your Supabase SQL Editor after database-pricing.sql
+
+-- Last invoice number issued per calendar year. Numbers are taken inside the
+-- settling transaction, so they have no gaps.
+CREATE TABLE IF NOT EXISTS receipt_counters (
+    year INTEGER PRIMARY KEY,
+    last_number INTEGER NOT NULL
+);
+
+-- One receipt per paid payment. Student and course details are copied in
+-- when the receipt is issued so the document never changes afterwards.
+CREATE TABLE IF NOT EXISTS payment_receipts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- ALP-<year>-<6-digit sequence>
+    invoice_number VARCHAR(20) UNIQUE NOT NULL,
+    payment_id VARCHAR(100) UNIQUE NOT NULL REFERENCES payment_records(payment_id),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    amount DECIMAL(10,2) NOT NULL,
+    method payment_method NOT NULL,
+    transaction_id VARCHAR(100),
+    payment_ref VARCHAR(100),
+    student_name VARCHAR(200) NOT NULL,
+    student_email VARCHAR(255),
+    student_phone VARCHAR(20),
+    -- Nagad/Rocket number the money came from, often a parent's
+    payer_phone VARCHAR(20),
+    course_title VARCHAR(200),
+    course_title_bn VARCHAR(200),
+    installment_sequence INTEGER,
+    installment_count INTEGER,
+    -- Set when the server starts emailing/texting the receipt, so it goes out once
+    delivery_claimed_at TIMESTAMPTZ,
+    emailed_at TIMESTAMPTZ,
+    sms_sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_receipts_user ON payment_receipts(user_id, issued_at DESC);
+
+ALTER TABLE payment_receipts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users can view own receipts" ON payment_receipts;
+CREATE POLICY "Users can view own receipts" ON payment_receipts FOR SELECT USING (auth.uid() = user_id);
+
+-- Issue the receipt for a paid payment; does nothing if it already has one
+CREATE OR REPLACE FUNCTION issue_payment_receipt(p_payment_id TEXT)
+RETURNS payment_receipts AS $$
+DECLARE
+    payment payment_records;
+    receipt payment_receipts;
+    issue_year INTEGER := EXTRACT(YEAR FROM NOW() AT TIME ZONE 'Asia/Dhaka');
+    next_number INTEGER;
+BEGIN
+    SELECT * INTO receipt FROM payment_receipts WHERE payment_id = p_payment_id;
+    IF FOUND THEN
+        RETURN receipt;
+    END IF;
+
+    SELECT * INTO payment FROM payment_records WHERE payment_id = p_payment_id;
+    IF NOT FOUND OR payment.status NOT IN ('paid', 'refunded') THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO receipt_counters (year, last_number)
+    VALUES (issue_year, 1)
+    ON CONFLICT (year) DO UPDATE SET last_number = receipt_counters.last_number + 1
+    RETURNING last_number INTO next_number;
+
+    INSERT INTO payment_receipts (
+        invoice_number, payment_id, user_id, amount, method, transaction_id, payment_ref,
+        student_name, student_email, student_phone, payer_phone,
+        course_title, course_title_bn, installment_sequence, installment_count
+    )
+    SELECT
+        'ALP-' || issue_year || '-' || LPAD(next_number::TEXT, 6, '0'),
+        payment.payment_id, payment.user_id, payment.amount, payment.method, payment.transaction_id, payment.payment_ref,
+        COALESCE(NULLIF(TRIM(CONCAT_WS(' ', u.first_name, u.last_name)), ''), u.display_name, u.email),
+        u.email, u.phone, payment.phone_number,
+        p.title, p.title_bn, i.sequence,
+        (SELECT COUNT(*) FROM enrollment_installments WHERE enrollment_id = i.enrollment_id)
+    FROM users u
+    LEFT JOIN enrollment_installments i ON i.id = payment.installment_id
+    LEFT JOIN course_enrollments e ON e.id = i.enrollment_id
+    LEFT JOIN course_products p ON p.id = e.product_id
+    WHERE u.id = payment.user_id
+    RETURNING * INTO receipt;
+
+    RETURN receipt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION issue_payment_receipt(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_payment_receipt(TEXT) TO service_role;
+
+-- Every payment that becomes paid gets its receipt in the same transaction
+CREATE OR REPLACE FUNCTION issue_receipt_on_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+        PERFORM issue_payment_receipt(NEW.payment_id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payment_records_issue_receipt ON payment_records;
+CREATE TRIGGER payment_records_issue_receipt
+    AFTER UPDATE OF status ON payment_records
+    FOR EACH ROW EXECUTE FUNCTION issue_receipt_on_payment();
+
+-- Receipts for payments settled before this file was run, oldest first
+DO $$
+DECLARE
+    paid RECORD;
+BEGIN
+    FOR paid IN
+        SELECT r.payment_id FROM payment_records r
+        WHERE r.status IN ('paid', 'refunded')
+          AND NOT EXISTS (SELECT 1 FROM payment_receipts pr WHERE pr.payment_id = r.payment_id)
+        ORDER BY r.created_at
+    LOOP
+        PERFORM issue_payment_receipt(paid.payment_id);
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,176 @@
+-- Vocabulary Practice for Arabic Learning Platform
+-- Spaced-repetition review of the words in completed vocabulary lessons;
+-- the server schedules each review (SM-2, shared/vocabulary.ts) and records
+-- it through record_vocabulary_review
+-- Run this in your Supabase SQL Editor after database-quizzes.sql
+
+-- One row per word a student has started learning. A word is its lesson and
+-- its Arabic text as the lesson lists it; dates are study days in
+-- Bangladesh time.
+CREATE TABLE IF NOT EXISTS vocabulary_cards (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    word TEXT NOT NULL,
+    ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+    interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    lapses INTEGER NOT NULL DEFAULT 0,
+    due_on DATE NOT NULL,
+    -- The day the word was first reviewed; limits new words per day
+    introduced_on DATE NOT NULL,
+    last_reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, lesson_id, word)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_cards_due ON vocabulary_cards(user_id, due_on);
+
+-- Every review, kept so staff can follow a student's practice
+CREATE TABLE IF NOT EXISTS vocabulary_reviews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    word TEXT NOT NULL,
+    -- SM-2 recall quality, 0-5
+    quality SMALLINT NOT NULL CHECK (quality BETWEEN 0 AND 5),
+    interval_days INTEGER NOT NULL,
+    ease_factor NUMERIC(4, 2) NOT NULL,
+    reviewed_on DATE NOT NULL,
+    reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_user ON vocabulary_reviews(user_id, reviewed_on DESC);
+
+CREATE TABLE IF NOT EXISTS vocabulary_streaks (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    current_streak INTEGER NOT NULL DEFAULT 0,
+    longest_streak INTEGER NOT NULL DEFAULT 0,
+    last_review_on DATE,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE vocabulary_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vocabulary_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vocabulary_streaks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own vocabulary cards" ON vocabulary_cards;
+CREATE POLICY "Users can view own vocabulary cards" ON vocabulary_cards FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can view own vocabulary reviews" ON vocabulary_reviews;
+CREATE POLICY "Users can view own vocabulary reviews" ON vocabulary_reviews FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can view own vocabulary streak" ON vocabulary_streaks;
+CREATE POLICY "Users can view own vocabulary streak" ON vocabulary_streaks FOR SELECT USING (auth.uid() = user_id);
+
+-- Saves the new schedule, logs the review and extends the streak in one
+-- transaction. Reviewing again on the same day leaves the streak as it is;
+-- missing a day starts it over.
+CREATE OR REPLACE FUNCTION record_vocabulary_review(
+    p_user_id UUID,
+    p_lesson_id UUID,
+    p_word TEXT,
+    p_quality SMALLINT,
+    p_ease_factor NUMERIC,
+    p_interval_days INTEGER,
+    p_repetitions INTEGER,
+    p_lapses INTEGER,
+    p_due_on DATE,
+    p_today DATE
+)
+RETURNS vocabulary_streaks AS $$
+DECLARE
+    v_streak vocabulary_streaks;
+BEGIN
+    INSERT INTO vocabulary_cards (user_id, lesson_id, word, ease_factor, interval_days, repetitions, lapses, due_on, introduced_on)
+    VALUES (p_user_id, p_lesson_id, p_word, p_ease_factor, p_interval_days, p_repetitions, p_lapses, p_due_on, p_today)
+    ON CONFLICT (user_id, lesson_id, word) DO UPDATE
+    SET ease_factor = EXCLUDED.ease_factor,
+        interval_days = EXCLUDED.interval_days,
+        repetitions = EXCLUDED.repetitions,
+        lapses = EXCLUDED.lapses,
+        due_on = EXCLUDED.due_on,
+        last_reviewed_at = NOW();
+
+    INSERT INTO vocabulary_reviews (user_id, lesson_id, word, quality, interval_days, ease_factor, reviewed_on)
+    VALUES (p_user_id, p_lesson_id, p_word, p_quality, p_interval_days, p_ease_factor, p_today);
+
+    INSERT INTO vocabulary_streaks (user_id, current_streak, longest_streak, last_review_on)
+    VALUES (p_user_id, 1, 1, p_today)
+    ON CONFLICT (user_id) DO UPDATE
+    SET current_streak = CASE
+            WHEN vocabulary_streaks.last_review_on >= p_today THEN vocabulary_streaks.current_streak
+            WHEN vocabulary_streaks.last_review_on = p_today - 1 THEN vocabulary_streaks.current_streak + 1
+            ELSE 1
+        END,
+        longest_streak = GREATEST(vocabulary_streaks.longest_streak, CASE
+            WHEN vocabulary_streaks.last_review_on >= p_today THEN vocabulary_streaks.current_streak
+            WHEN vocabulary_streaks.last_review_on = p_today - 1 THEN vocabulary_streaks.current_streak + 1
+            ELSE 1
+        END),
+        last_review_on = GREATEST(vocabulary_streaks.last_review_on, p_today),
+        updated_at = NOW()
+    RETURNING * INTO v_streak;
+
+    RETURN v_streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_vocabulary_review(UUID, UUID, TEXT, SMALLINT, NUMERIC, INTEGER, INTEGER, INTEGER, DATE, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_vocabulary_review(UUID, UUID, TEXT, SMALLINT, NUMERIC, INTEGER, INTEGER, INTEGER, DATE, DATE) TO service_role;
+
+-- Every student with a completed vocabulary lesson, the ones with the most
+-- overdue words first, then those who have not practised for longest
+CREATE OR REPLACE FUNCTION vocabulary_learner_summary(p_today DATE, p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+    user_id UUID,
+    first_name TEXT,
+    last_name TEXT,
+    email TEXT,
+    decks INTEGER,
+    words_started INTEGER,
+    due_count INTEGER,
+    overdue_count INTEGER,
+    reviews_last_week INTEGER,
+    last_review_on DATE,
+    current_streak INTEGER,
+    longest_streak INTEGER
+) AS $$
+    WITH learners AS (
+        SELECT lp.user_id, COUNT(*)::INTEGER AS decks
+        FROM lesson_progress lp
+        JOIN lessons l ON l.id = lp.lesson_id
+        WHERE l.lesson_type = 'vocabulary'
+        GROUP BY lp.user_id
+    ), cards AS (
+        SELECT c.user_id,
+               COUNT(*)::INTEGER AS words_started,
+               (COUNT(*) FILTER (WHERE c.due_on <= p_today))::INTEGER AS due_count,
+               (COUNT(*) FILTER (WHERE c.due_on < p_today))::INTEGER AS overdue_count
+        FROM vocabulary_cards c
+        GROUP BY c.user_id
+    ), recent AS (
+        SELECT r.user_id, COUNT(*)::INTEGER AS reviews_last_week
+        FROM vocabulary_reviews r
+        WHERE r.reviewed_on > p_today - 7
+        GROUP BY r.user_id
+    )
+    SELECT learners.user_id,
+           u.first_name::TEXT,
+           u.last_name::TEXT,
+           u.email::TEXT,
+           learners.decks,
+           COALESCE(cards.words_started, 0),
+           COALESCE(cards.due_count, 0),
+           COALESCE(cards.overdue_count, 0),
+           COALESCE(recent.reviews_last_week, 0),
+           s.last_review_on,
+           CASE WHEN s.last_review_on >= p_today - 1 THEN s.current_streak ELSE 0 END,
+           COALESCE(s.longest_streak, 0)
+    FROM learners
+    JOIN users u ON u.id = learners.user_id
+    LEFT JOIN cards ON cards.user_id = learners.user_id
+    LEFT JOIN recent ON recent.user_id = learners.user_id
+    LEFT JOIN vocabulary_streaks s ON s.user_id = learners.user_id
+    ORDER BY COALESCE(cards.overdue_count, 0) DESC, s.last_review_on ASC NULLS FIRST
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION vocabulary_learner_summary(DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION vocabulary_learner_summary(DATE, INTEGER) TO service_role;
@@ -0,0 +1,119 @@
+/**
+ * Signaling room admission
+ * Capacity and enrollment rules for class rooms (`class-<live_classes.id>`),
+ * read with the service-role client so students cannot talk their way in.
+ * Enrollment comes from the pricing subsystem: a student needs an active,
+ * non-overdue enrollment in the course that covers the class's level.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { classIdFromRoomId, type SignalingErrorCode } from '@shared/signaling';
+import type { SignalingIdentity } from './auth';
+import { PricingService } from './payments/pricing';
+import { RbacService } from './rbac';
+import { getServiceSupabase } from './supabase';
+
+export interface RoomPolicy {
+  classId: string | null;
+  // `course_modules.level` of the class; null when it has no module
+  level: number | null;
+  maxParticipants: number;
+}
+
+export class AdmissionError extends Error {
+  constructor(public readonly code: SignalingErrorCode, message: string) {
+    super(message);
+    this.name = 'AdmissionError';
+  }
+}
+
+// Class settings change rarely; avoid a database round trip on every join
+const ROOM_POLICY_TTL_MS = 60 * 1000;
+
+export class AdmissionService {
+  private policyCache = new Map<string, { policy: RoomPolicy; expiresAt: number }>();
+
+  constructor(
+    private getDb: () => SupabaseClient | null = getServiceSupabase,
+    private defaultMaxParticipants = 100,
+    private pricing = new PricingService(getDb),
+    private rbac = new RbacService(getDb)
+  ) {}
+
+  /**
+   * Staff (roles with `bypass` on `enrollment`) get into any room regardless
+   * of enrollment or capacity, so a full class can still be taught
+   */
+  async isStaff(identity: SignalingIdentity): Promise<boolean> {
+    return this.rbac.can(identity, 'bypass', 'enrollment');
+  }
+
+  /**
+   * Capacity for a room: `live_classes.max_participants` for class rooms,
+   * the server default for ad-hoc rooms
+   */
+  async getRoomPolicy(roomId: string): Promise<RoomPolicy> {
+    const classId = classIdFromRoomId(roomId);
+    if (!classId) {
+      return { classId: null, level: null, maxParticipants: this.defaultMaxParticipants };
+    }
+
+    const cached = this.policyCache.get(classId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.policy;
+    }
+
+    const { data, error } = await this.requireDb()
+      .from('live_classes')
+      .select('id, max_participants, is_active, course_modules (level)')
+      .eq('id', classId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to load class for admission:', error.message);
+      throw new AdmissionError('internal-error', 'Could not load class details');
+    }
+
+    if (!data || data.is_active === false) {
+      throw new AdmissionError('room-unavailable', 'This class is not available');
+    }
+
+    const policy: RoomPolicy = {
+      classId,
+      level: (data.course_modules as unknown as { level: number } | null)?.level ?? null,
+      maxParticipants: data.max_participants ?? this.defaultMaxParticipants
+    };
+    this.policyCache.set(classId, { policy, expiresAt: Date.now() + ROOM_POLICY_TTL_MS });
+    return policy;
+  }
+
+  /**
+   * Students may only join a class whose course they are enrolled in with no
+   * overdue installment. Read on every join so a payment or suspension takes
+   * effect immediately.
+   */
+  async assertCanAttend(identity: SignalingIdentity, policy: RoomPolicy): Promise<void> {
+    let access;
+    try {
+      access = await this.pricing.getAccess(identity.userId, policy.level);
+    } catch (error) {
+      console.error('❌ Failed to load enrollment for admission:', error instanceof Error ? error.message : error);
+      throw new AdmissionError('internal-error', 'Could not verify enrollment');
+    }
+
+    if (access.status === 'suspended') {
+      throw new AdmissionError('not-enrolled', 'An installment is overdue; pay it to rejoin live classes');
+    }
+    if (!access.allowed) {
+      throw new AdmissionError('not-enrolled', 'Enrollment and payment are required to join this class');
+    }
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new AdmissionError('internal-error', 'Class admission is not configured on the server');
+    }
+    return db;
+  }
+}
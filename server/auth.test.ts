@@ -0,0 +1,48 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { signRoomToken, verifyRoomToken, verifySignalingToken, type RoomTokenPayload } from './auth';
+
+function payload(overrides: Partial<RoomTokenPayload> = {}): RoomTokenPayload {
+  return {
+    userId: 'user-1',
+    roomId: 'class-42',
+    displayName: 'Amina',
+    permissions: {},
+    issued: Date.now(),
+    expires: Date.now() + 60 * 1000,
+    ...overrides
+  };
+}
+
+describe('room tokens', () => {
+  before(() => {
+    process.env.ROOM_TOKEN_SECRET = 'test-room-token-secret';
+  });
+
+  test('verify to an identity scoped to their room', () => {
+    const token = signRoomToken(payload({ role: 'teaching_assistant' }));
+    const identity = verifySignalingToken(token);
+
+    assert.equal(identity.source, 'room-token');
+    assert.equal(identity.userId, 'user-1');
+    assert.equal(identity.roomId, 'class-42');
+    assert.equal(identity.displayName, 'Amina');
+    assert.equal(identity.role, 'teaching_assistant');
+  });
+
+  test('without a role fall back to canModerate', () => {
+    assert.equal(verifyRoomToken(signRoomToken(payload({ permissions: { canModerate: true } }))).role, 'instructor');
+    assert.equal(verifyRoomToken(signRoomToken(payload())).role, 'student');
+  });
+
+  test('are refused once changed', () => {
+    const [, signature] = signRoomToken(payload()).split('.');
+    const forged = Buffer.from(JSON.stringify(payload({ role: 'admin' })), 'utf8').toString('base64');
+    assert.throws(() => verifyRoomToken(`${forged}.${signature}`), /Invalid room token signature/);
+  });
+
+  test('are refused once expired', () => {
+    const token = signRoomToken(payload({ expires: Date.now() - 1 }));
+    assert.throws(() => verifyRoomToken(token), /Room token expired/);
+  });
+});
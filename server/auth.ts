@@ -0,0 +1,210 @@
+/**
+ * Signaling authentication
+ * Verifies Supabase-issued JWTs and signed room tokens on the server so that
+ * user id, display name and role are never taken from client messages
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { normalizeRole, type Role } from '@shared/rbac';
+
+export type SignalingRole = Role;
+
+export interface SignalingIdentity {
+  userId: string;
+  displayName: string;
+  role: SignalingRole;
+  email?: string;
+  // Set when the identity came from a room token; the holder may only join this room
+  roomId?: string;
+  source: 'supabase' | 'room-token';
+  expiresAt: number;
+}
+
+export interface RoomTokenPayload {
+  userId: string;
+  roomId: string;
+  permissions: {
+    canModerate?: boolean;
+    [key: string]: unknown;
+  };
+  displayName?: string;
+  // Role of the holder when the server issued the token; older tokens only say canModerate
+  role?: Role;
+  issued: number;
+  expires: number;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Secrets are read per call so a rotated value is picked up without a restart
+function getSupabaseJwtSecret(): string | undefined {
+  return process.env.SUPABASE_JWT_SECRET;
+}
+
+function getRoomTokenSecret(): string | undefined {
+  return process.env.ROOM_TOKEN_SECRET || process.env.SUPABASE_JWT_SECRET;
+}
+
+function base64UrlDecode(value: string): string {
+  return Buffer.from(value, 'base64url').toString('utf8');
+}
+
+function hmac(secret: string, data: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+function signatureMatches(expected: Buffer, signature: string): boolean {
+  const provided = Buffer.from(signature, 'base64url');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Verify a Supabase access token (HS256) and derive the signaling identity.
+ * Role is read from app_metadata, which only the service role can write.
+ */
+export function verifySupabaseToken(token: string): SignalingIdentity {
+  const secret = getSupabaseJwtSecret();
+  if (!secret) {
+    throw new AuthError('SUPABASE_JWT_SECRET is not configured', 500);
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+  let header: any;
+  let claims: any;
+  try {
+    header = JSON.parse(base64UrlDecode(encodedHeader));
+    claims = JSON.parse(base64UrlDecode(encodedPayload));
+  } catch {
+    throw new AuthError('Malformed token');
+  }
+
+  if (header.alg !== 'HS256') {
+    throw new AuthError('Unsupported token algorithm');
+  }
+
+  if (!signatureMatches(hmac(secret, `${encodedHeader}.${encodedPayload}`), signature)) {
+    throw new AuthError('Invalid token signature');
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp <= nowSeconds) {
+    throw new AuthError('Token expired');
+  }
+
+  if (claims.aud && claims.aud !== 'authenticated') {
+    throw new AuthError('Invalid token audience');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new AuthError('Token has no subject');
+  }
+
+  const metadata = claims.user_metadata || {};
+  const displayName = metadata.display_name
+    || [metadata.first_name, metadata.last_name].filter(Boolean).join(' ')
+    || metadata.full_name
+    || (typeof claims.email === 'string' ? claims.email.split('@')[0] : '')
+    || 'User';
+
+  return {
+    userId: claims.sub,
+    displayName,
+    role: normalizeRole(claims.app_metadata?.role),
+    email: claims.email,
+    source: 'supabase',
+    expiresAt: claims.exp * 1000
+  };
+}
+
+/**
+ * Sign a room token with a real HMAC so the signaling server can verify it.
+ * Issued to browsers by POST /api/room-tokens.
+ */
+export function signRoomToken(payload: RoomTokenPayload): string {
+  const secret = getRoomTokenSecret();
+  if (!secret) {
+    throw new AuthError('ROOM_TOKEN_SECRET is not configured', 500);
+  }
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64');
+  return `${encodedPayload}.${hmac(secret, encodedPayload).toString('base64url')}`;
+}
+
+/**
+ * Verify a room token and derive the signaling identity scoped to its room
+ */
+export function verifyRoomToken(token: string): SignalingIdentity {
+  const secret = getRoomTokenSecret();
+  if (!secret) {
+    throw new AuthError('ROOM_TOKEN_SECRET is not configured', 500);
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 2) {
+    throw new AuthError('Malformed room token');
+  }
+
+  const [encodedPayload, signature] = parts;
+  if (!signatureMatches(hmac(secret, encodedPayload), signature)) {
+    throw new AuthError('Invalid room token signature');
+  }
+
+  let payload: RoomTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64').toString('utf8'));
+  } catch {
+    throw new AuthError('Malformed room token');
+  }
+
+  if (typeof payload.expires !== 'number' || Date.now() > payload.expires) {
+    throw new AuthError('Room token expired');
+  }
+
+  if (!payload.userId || !payload.roomId) {
+    throw new AuthError('Room token is missing user or room');
+  }
+
+  return {
+    userId: payload.userId,
+    displayName: payload.displayName || payload.userId,
+    role: payload.role ? normalizeRole(payload.role) : payload.permissions?.canModerate ? 'instructor' : 'student',
+    roomId: payload.roomId,
+    source: 'room-token',
+    expiresAt: payload.expires
+  };
+}
+
+/**
+ * Verify either kind of token. Supabase JWTs have three segments, room tokens two.
+ */
+export function verifySignalingToken(token: string): SignalingIdentity {
+  return token.split('.').length === 3 ? verifySupabaseToken(token) : verifyRoomToken(token);
+}
+
+/**
+ * Extract a token from the upgrade request: `?token=` query parameter
+ * (browsers cannot set headers on WebSocket) or an Authorization bearer header
+ */
+export function extractToken(req: IncomingMessage): string | null {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const queryToken = url.searchParams.get('token');
+  if (queryToken) return queryToken;
+
+  const header = req.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+
+  return null;
+}
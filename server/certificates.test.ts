@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Certificate } from '@shared/certificates';
+import { renderCertificatePdf } from './certificates';
+
+const certificate: Certificate = {
+  id: 'certificate',
+  serial: 'ALPC-7K2M-Q9XD-4RTB',
+  user_id: 'user',
+  product_id: 'product',
+  student_name: 'মোহাম্মদ আব্দুল্লাহ',
+  course_title: 'Arabic Level 1',
+  course_title_bn: 'আরবি লেভেল ১',
+  attendance_percent: 90,
+  homework_average: 85,
+  final_exam_score: null,
+  issued_at: '2026-10-19T06:00:00.000Z',
+  revoked_at: null,
+  revoked_reason: null
+};
+
+const verifyUrl = 'https://example.com/verify/ALPC-7K2M-Q9XD-4RTB';
+
+describe('renderCertificatePdf', () => {
+  test('renders a one-page PDF', async () => {
+    const pdf = (await renderCertificatePdf(certificate, verifyUrl)).toString('latin1');
+    assert.ok(pdf.startsWith('%PDF-'));
+    assert.match(pdf, /\/Count 1\b/);
+    assert.ok(pdf.trimEnd().endsWith('%%EOF'));
+  });
+
+  test('renders Arabic names and revoked certificates', async () => {
+    // عبد الله
+    const revoked = { ...certificate, student_name: '\u0639\u0628\u062F \u0627\u0644\u0644\u0647', revoked_at: '2026-10-20T06:00:00.000Z' };
+    const pdf = (await renderCertificatePdf(revoked, verifyUrl)).toString('latin1');
+    assert.ok(pdf.startsWith('%PDF-'));
+  });
+});
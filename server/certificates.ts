@@ -0,0 +1,613 @@
+/**
+ * Certificates
+ * Checks a student's results in a course against its completion criteria
+ * (attendance share, graded homework average, final exam score), issues a
+ * certificate with a random serial when they are met, renders it in Bangla,
+ * Arabic and English as a printable page and as a PDF, and answers public
+ * serial checks. Results come from ProgressService for the modules of the course's
+ * level; tables are in database-certificates.sql.
+ */
+
+import { randomBytes } from 'crypto';
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import PDFDocument from 'pdfkit';
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  SERIAL_ALPHABET,
+  type Certificate,
+  type CertificateCheck,
+  type CertificateCriteria,
+  type CertificateListQuery,
+  type CertificateVerification,
+  type CourseCertificateCriteria,
+  type CourseCertificateStatus
+} from '@shared/certificates';
+import type { ModuleProgress } from '@shared/progress';
+import { ApiError } from './http';
+import { escapeHtml } from './payments/receipts';
+import type { PricingService } from './payments/pricing';
+import type { ProgressService } from './progress';
+
+// Postgres unique_violation: a serial collision or a concurrent claim
+const UNIQUE_VIOLATION = '23505';
+// Postgres foreign_key_violation: unknown product or lesson
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const CERTIFICATE_COLUMNS = `
+  id, serial, user_id, product_id, student_name, course_title, course_title_bn,
+  attendance_percent, homework_average, final_exam_score, issued_at, revoked_at, revoked_reason
+`;
+
+const CRITERIA_COLUMNS = 'product_id, min_attendance_percent, min_homework_average, final_exam_lesson_id, min_final_exam_score, is_active';
+
+// Attempts at a free serial before giving up; 60 random bits make a second
+// attempt already unlikely
+const SERIAL_ATTEMPTS = 3;
+
+interface ProductRow {
+  id: string;
+  title: string;
+  title_bn: string;
+  level: number;
+}
+
+type CriteriaRow = CertificateCriteria & { product_id: string };
+
+export interface CertificateServiceOptions {
+  // Public origin of the app; certificates print their verification link
+  appUrl: string;
+}
+
+export class CertificateService {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private pricing: PricingService,
+    private progress: ProgressService,
+    private options: CertificateServiceOptions
+  ) {}
+
+  /**
+   * Every course the student is enrolled in or holds a certificate for,
+   * with how they stand against its criteria
+   */
+  async listForUser(userId: string): Promise<CourseCertificateStatus[]> {
+    const db = this.requireDb();
+    const [enrollments, certificates] = await Promise.all([
+      this.pricing.listEnrollments(userId),
+      this.query<Certificate>(
+        'load certificates',
+        db.from('certificates').select(CERTIFICATE_COLUMNS).eq('user_id', userId).is('revoked_at', null)
+      )
+    ]);
+
+    const productIds = enrollments
+      .filter(enrollment => enrollment.status !== 'cancelled')
+      .map(enrollment => enrollment.product_id)
+      .concat(certificates.map(certificate => certificate.product_id))
+      .filter((id, index, all) => all.indexOf(id) === index);
+    if (productIds.length === 0) return [];
+
+    const [products, criteria] = await Promise.all([
+      this.query<ProductRow>('load courses', db.from('course_products').select('id, title, title_bn, level').in('id', productIds)),
+      this.loadCriteria(db, productIds)
+    ]);
+    const progress = await this.progress.getProgress(userId);
+    const examScores = await this.loadExamScores(db, userId, Object.keys(criteria).map(id => criteria[id].final_exam_lesson_id));
+
+    return products.map(product => {
+      const productCriteria = criteria[product.id] ?? null;
+      const checks = productCriteria ? checkCriteria(productCriteria, progress.modules, product.level, examScores) : [];
+      const enrolled = enrollments.some(enrollment => enrollment.product_id === product.id && enrollment.status === 'active');
+
+      return {
+        product_id: product.id,
+        title: product.title,
+        title_bn: product.title_bn,
+        level: product.level,
+        criteria: productCriteria,
+        checks,
+        eligible: !!productCriteria?.is_active && enrolled && checks.every(check => check.met),
+        certificate: certificates.find(certificate => certificate.product_id === product.id) ?? null
+      };
+    });
+  }
+
+  /**
+   * Issue the student's certificate for a course once its criteria are met;
+   * claiming again returns the certificate already issued
+   */
+  async claim(userId: string, productId: string): Promise<Certificate> {
+    const status = (await this.listForUser(userId)).find(course => course.product_id === productId);
+    if (status?.certificate) {
+      return status.certificate;
+    }
+    if (!status?.criteria?.is_active) {
+      throw new ApiError(404, 'no-certificate', 'This course does not issue certificates');
+    }
+    if (!status.eligible) {
+      throw new ApiError(409, 'criteria-not-met', 'The certificate criteria are not met yet');
+    }
+
+    const db = this.requireDb();
+    const { data: user, error: userError } = await db
+      .from('users')
+      .select('first_name, last_name, display_name, email')
+      .eq('id', userId)
+      .single();
+    if (userError) throw databaseError('load student', userError);
+
+    const result = (criterion: CertificateCheck['criterion']) =>
+      status.checks.find(check => check.criterion === criterion)?.actual ?? null;
+
+    for (let attempt = 1; attempt <= SERIAL_ATTEMPTS; attempt++) {
+      const { data, error } = await db
+        .from('certificates')
+        .insert({
+          serial: generateSerial(),
+          user_id: userId,
+          product_id: productId,
+          student_name: [user.first_name, user.last_name].filter(Boolean).join(' ').trim() || user.display_name || user.email,
+          course_title: status.title,
+          course_title_bn: status.title_bn,
+          attendance_percent: result('attendance'),
+          homework_average: result('homework'),
+          final_exam_score: result('final_exam')
+        })
+        .select(CERTIFICATE_COLUMNS)
+        .single();
+
+      if (!error) {
+        console.log(`🎓 Certificate ${data.serial} issued to ${userId} for ${productId}`);
+        return data as Certificate;
+      }
+      if (error.code !== UNIQUE_VIOLATION) throw databaseError('issue certificate', error);
+
+      // A claim from another tab won the race; otherwise the serial was taken
+      const { data: existing } = await db
+        .from('certificates')
+        .select(CERTIFICATE_COLUMNS)
+        .eq('user_id', userId)
+        .eq('product_id', productId)
+        .is('revoked_at', null)
+        .maybeSingle();
+      if (existing) return existing as Certificate;
+    }
+    throw new Error('Failed to issue certificate');
+  }
+
+  /**
+   * A certificate by serial for the public check and the printable page;
+   * revoked certificates are returned so the page can say so
+   */
+  async getBySerial(serial: string): Promise<Certificate> {
+    const { data, error } = await this.requireDb()
+      .from('certificates')
+      .select(CERTIFICATE_COLUMNS)
+      .eq('serial', serial)
+      .maybeSingle();
+
+    if (error) throw databaseError('load certificate', error);
+    if (!data) throw new ApiError(404, 'not-found', 'Certificate not found');
+    return data as Certificate;
+  }
+
+  async verify(serial: string): Promise<CertificateVerification> {
+    const certificate = await this.getBySerial(serial);
+    return {
+      serial: certificate.serial,
+      status: certificate.revoked_at ? 'revoked' : 'valid',
+      student_name: certificate.student_name,
+      course_title: certificate.course_title,
+      course_title_bn: certificate.course_title_bn,
+      issued_at: certificate.issued_at,
+      revoked_at: certificate.revoked_at
+    };
+  }
+
+  verifyUrl(serial: string): string {
+    return `${this.options.appUrl}/verify/${encodeURIComponent(serial)}`;
+  }
+
+  /**
+   * Every active course with its criteria, for the admin screen
+   */
+  async listCriteria(): Promise<CourseCertificateCriteria[]> {
+    const db = this.requireDb();
+    const products = await this.query<ProductRow>(
+      'load courses',
+      db.from('course_products').select('id, title, title_bn, level').eq('is_active', true).order('sort_order')
+    );
+    const criteria = await this.loadCriteria(db, products.map(product => product.id));
+    return products.map(product => ({ ...product, criteria: criteria[product.id] ?? null }));
+  }
+
+  /**
+   * Set a course's criteria. The final exam must be a quiz lesson in a
+   * module of the course's level.
+   */
+  async setCriteria(productId: string, criteria: CertificateCriteria): Promise<CertificateCriteria> {
+    const db = this.requireDb();
+    const { data: product, error: productError } = await db.from('course_products').select('level').eq('id', productId).maybeSingle();
+    if (productError) throw databaseError('load course', productError);
+    if (!product) throw new ApiError(404, 'not-found', 'Course not found');
+
+    if (criteria.final_exam_lesson_id) {
+      const { data: lesson, error } = await db
+        .from('lessons')
+        .select('lesson_type, course_units (course_modules (level))')
+        .eq('id', criteria.final_exam_lesson_id)
+        .maybeSingle();
+      if (error) throw databaseError('load final exam', error);
+
+      const level = (lesson?.course_units as unknown as { course_modules: { level: number } | null } | null)?.course_modules?.level;
+      if (!lesson || lesson.lesson_type !== 'quiz' || level !== product.level) {
+        throw new ApiError(400, 'invalid-final-exam', 'The final exam must be a quiz lesson of this course');
+      }
+    }
+
+    const { error } = await db
+      .from('certificate_criteria')
+      .upsert({ product_id: productId, ...criteria, updated_at: new Date().toISOString() }, { onConflict: 'product_id' });
+    if (error) throw databaseError('save certificate criteria', error);
+    return criteria;
+  }
+
+  /**
+   * Issued certificates, newest first, revoked ones included
+   */
+  async listIssued(filter: CertificateListQuery): Promise<{ rows: Certificate[]; total: number }> {
+    const offset = (filter.page - 1) * filter.page_size;
+    let query = this.requireDb()
+      .from('certificates')
+      .select(CERTIFICATE_COLUMNS, { count: 'exact' })
+      .order('issued_at', { ascending: false })
+      .range(offset, offset + filter.page_size - 1);
+    if (filter.product_id) {
+      query = query.eq('product_id', filter.product_id);
+    }
+
+    const { data, error, count } = await query;
+    if (error) throw databaseError('load certificates', error);
+    return { rows: (data ?? []) as Certificate[], total: count ?? 0 };
+  }
+
+  /**
+   * Revoke a certificate, e.g. one issued by mistake. Its serial keeps
+   * verifying as revoked; the student may earn a new one.
+   */
+  async revoke(serial: string, reason: string, adminId: string): Promise<Certificate> {
+    const { data, error } = await this.requireDb()
+      .from('certificates')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason, revoked_by: adminId })
+      .eq('serial', serial)
+      .is('revoked_at', null)
+      .select(CERTIFICATE_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw databaseError('revoke certificate', error);
+    if (!data) {
+      // Unknown, or revoked already
+      const certificate = await this.getBySerial(serial);
+      throw new ApiError(409, 'already-revoked', `Certificate ${certificate.serial} is already revoked`);
+    }
+    console.log(`🚫 Certificate ${serial} revoked by ${adminId}`);
+    return data as Certificate;
+  }
+
+  private async loadCriteria(db: SupabaseClient, productIds: string[]): Promise<Record<string, CertificateCriteria>> {
+    const rows = await this.query<CriteriaRow>(
+      'load certificate criteria',
+      db.from('certificate_criteria').select(CRITERIA_COLUMNS).in('product_id', productIds)
+    );
+
+    const criteria: Record<string, CertificateCriteria> = {};
+    rows.forEach(({ product_id, ...row }) => (criteria[product_id] = row));
+    return criteria;
+  }
+
+  private async loadExamScores(db: SupabaseClient, userId: string, lessonIds: (string | null)[]): Promise<Record<string, number | null>> {
+    const ids = lessonIds.filter((id): id is string => !!id);
+    if (ids.length === 0) return {};
+
+    const rows = await this.query<{ lesson_id: string; score: number | null }>(
+      'load final exam scores',
+      db.from('lesson_progress').select('lesson_id, score').eq('user_id', userId).in('lesson_id', ids)
+    );
+    const scores: Record<string, number | null> = {};
+    rows.forEach(row => (scores[row.lesson_id] = row.score));
+    return scores;
+  }
+
+  private async query<T>(action: string, query: PromiseLike<{ data: unknown; error: PostgrestError | null }>): Promise<T[]> {
+    const { data, error } = await query;
+    if (error) throw databaseError(action, error);
+    return (data ?? []) as T[];
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Certificates are not configured on the server');
+    }
+    return db;
+  }
+}
+
+/**
+ * The student's results in the modules of one level against a course's
+ * criteria. A criterion with a zero requirement is always met.
+ */
+function checkCriteria(
+  criteria: CertificateCriteria,
+  modules: ModuleProgress[],
+  level: number,
+  examScores: Record<string, number | null>
+): CertificateCheck[] {
+  const components = modules
+    .filter(module => module.level === level)
+    .flatMap(module => module.components);
+
+  const attendance = components.filter(component => component.component === 'attendance');
+  const held = attendance.reduce((sum, component) => sum + component.total, 0);
+  const attended = attendance.reduce((sum, component) => sum + component.done, 0);
+
+  const homework = components.filter(component => component.component === 'homework' && component.percent !== null);
+  const graded = homework.reduce((sum, component) => sum + component.done, 0);
+  const gradePoints = homework.reduce((sum, component) => sum + (component.percent as number) * component.done, 0);
+
+  const checks = [
+    check('attendance', criteria.min_attendance_percent, held > 0 ? Math.round(attended * 100 / held) : null),
+    check('homework', criteria.min_homework_average, graded > 0 ? Math.round(gradePoints / graded) : null)
+  ];
+  if (criteria.final_exam_lesson_id) {
+    checks.push(check('final_exam', criteria.min_final_exam_score, examScores[criteria.final_exam_lesson_id] ?? null));
+  }
+  return checks;
+}
+
+function check(criterion: CertificateCheck['criterion'], required: number, actual: number | null): CertificateCheck {
+  return { criterion, required, actual, met: required === 0 || (actual !== null && actual >= required) };
+}
+
+function generateSerial(): string {
+  const chars = Array.from(randomBytes(12), byte => SERIAL_ALPHABET[byte % SERIAL_ALPHABET.length]).join('');
+  return `ALPC-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8)}`;
+}
+
+// Certificates show Bangladesh dates whatever zone the server runs in
+function formatIssuedOn(issuedAt: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'Asia/Dhaka' }).format(new Date(issuedAt));
+}
+
+/**
+ * Printable certificate in Bangla, Arabic and English on one A4 landscape
+ * page, with a link to the same certificate as a PDF. The serial stays in
+ * Latin characters so it can be typed into the verification page.
+ */
+export function renderCertificateHtml(certificate: Certificate, verifyUrl: string): string {
+  const name = escapeHtml(certificate.student_name);
+  const revoked = certificate.revoked_at !== null;
+
+  return `<!DOCTYPE html>
+<html lang="bn">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>সনদপত্র / Certificate ${escapeHtml(certificate.serial)}</title>
+  <style>
+    @page { size: A4 landscape; margin: 0; }
+    body { font-family: 'Hind Siliguri', 'Noto Sans Bengali', Arial, sans-serif; color: #1f2937; margin: 0; padding: 24px; background: #f3f4f6; }
+    .certificate { width: 297mm; height: 210mm; box-sizing: border-box; margin: 0 auto; background: #fff; border: 12px double #059669; padding: 18mm 24mm; position: relative; text-align: center; }
+    .platform { font-size: 16px; color: #6b7280; letter-spacing: 1px; }
+    h1 { margin: 8px 0 0; font-size: 34px; color: #059669; }
+    .ar { font-family: 'Amiri', 'Noto Naskh Arabic', 'Traditional Arabic', serif; direction: rtl; }
+    h2.ar { margin: 4px 0 0; font-size: 30px; color: #047857; font-weight: normal; }
+    h3 { margin: 4px 0 0; font-size: 18px; color: #6b7280; font-weight: normal; text-transform: uppercase; letter-spacing: 2px; }
+    .name { margin: 22px auto 6px; font-size: 36px; font-weight: bold; border-bottom: 1px solid #d1d5db; display: inline-block; padding: 0 32px 6px; }
+    p { margin: 6px 0; font-size: 16px; }
+    p.ar { font-size: 20px; }
+    .course { font-weight: bold; color: #065f46; }
+    footer { position: absolute; left: 24mm; right: 24mm; bottom: 14mm; display: flex; justify-content: space-between; font-size: 13px; color: #4b5563; text-align: left; }
+    footer .verify { text-align: right; }
+    .stamp { position: absolute; top: 45%; left: 50%; transform: translate(-50%, -50%) rotate(-15deg); border: 5px solid #dc2626; color: #dc2626; font-size: 40px; font-weight: bold; padding: 8px 32px; opacity: 0.7; }
+    .actions { display: flex; justify-content: center; gap: 12px; margin-top: 16px; }
+    .print { padding: 10px 20px; background: #059669; color: #fff; border: 0; border-radius: 6px; font-size: 14px; cursor: pointer; text-decoration: none; font-family: inherit; }
+    @media print {
+      body { background: #fff; padding: 0; }
+      .actions { display: none; }
+    }
+  </style>
+</head>
+<body>
+  <div class="certificate">
+    <div class="platform">আরবি শিক্ষা · Arabic Learning Platform</div>
+    <h1>সমাপনী সনদপত্র</h1>
+    <h2 class="ar">شهادة إتمام</h2>
+    <h3>Certificate of Completion</h3>
+
+    <div class="name">${name}</div>
+
+    <p>এই মর্মে প্রত্যয়ন করা হচ্ছে যে তিনি <span class="course">${escapeHtml(certificate.course_title_bn)}</span> কোর্সটি সফলভাবে সম্পন্ন করেছেন।</p>
+    <p class="ar" lang="ar">نشهد بأنّ المذكور أعلاه قد أتمّ بنجاح دورة <span class="course" dir="ltr">${escapeHtml(certificate.course_title)}</span>.</p>
+    <p lang="en">This is to certify that the above named has successfully completed the course <span class="course">${escapeHtml(certificate.course_title)}</span>.</p>
+
+    ${revoked ? '<div class="stamp">বাতিল · ملغاة · REVOKED</div>' : ''}
+
+    <footer>
+      <div>
+        <div>প্রদানের তারিখ: ${escapeHtml(formatIssuedOn(certificate.issued_at, 'bn-BD'))}</div>
+        <div>Issued on: ${escapeHtml(formatIssuedOn(certificate.issued_at, 'en-GB'))}</div>
+      </div>
+      <div class="verify">
+        <div>সনদ নম্বর / Serial: <strong>${escapeHtml(certificate.serial)}</strong></div>
+        <div>যাচাই করুন / Verify: ${escapeHtml(verifyUrl)}</div>
+      </div>
+    </footer>
+  </div>
+  <div class="actions">
+    <button class="print" onclick="window.print()">প্রিন্ট · Print</button>
+    <a class="print" href="pdf" download>PDF ডাউনলোড · Download PDF</a>
+  </div>
+</body>
+</html>`;
+}
+
+// Fonts embedded in certificate PDFs; Hind Siliguri also covers Latin text
+const PDF_FONT_FILES = {
+  bangla: '@expo-google-fonts/hind-siliguri/400Regular/HindSiliguri_400Regular.ttf',
+  banglaBold: '@expo-google-fonts/hind-siliguri/700Bold/HindSiliguri_700Bold.ttf',
+  arabic: '@expo-google-fonts/amiri/400Regular/Amiri_400Regular.ttf',
+  arabicBold: '@expo-google-fonts/amiri/700Bold/Amiri_700Bold.ttf'
+} as const;
+
+type PdfFont = keyof typeof PDF_FONT_FILES;
+
+// A piece of a line in one font. Lines are laid out left to right, so an
+// Arabic sentence lists its pieces in visual order.
+interface PdfRun {
+  text: string;
+  font: PdfFont;
+  color?: string;
+}
+
+const resolvePackageFile = createRequire(import.meta.url).resolve;
+let pdfFonts: Promise<Record<PdfFont, Buffer>> | null = null;
+
+function loadPdfFonts(): Promise<Record<PdfFont, Buffer>> {
+  pdfFonts ??= Promise.all(
+    Object.entries(PDF_FONT_FILES).map(async ([name, file]) => [name, await readFile(resolvePackageFile(file))] as const)
+  )
+    .then(entries => Object.fromEntries(entries) as Record<PdfFont, Buffer>)
+    .catch(error => {
+      pdfFonts = null;
+      throw error;
+    });
+  return pdfFonts;
+}
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+
+/**
+ * The same certificate as renderCertificateHtml, as an A4 landscape PDF to
+ * download
+ */
+export async function renderCertificatePdf(certificate: Certificate, verifyUrl: string): Promise<Buffer> {
+  const fonts = await loadPdfFonts();
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: 'landscape',
+    margin: 0,
+    info: { Title: `Certificate ${certificate.serial}`, Author: 'Arabic Learning Platform' }
+  });
+  for (const [name, data] of Object.entries(fonts)) {
+    doc.registerFont(name, data);
+  }
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const width = doc.page.width;
+  const height = doc.page.height;
+  const left = 70;
+  const contentWidth = width - 2 * left;
+
+  doc.lineWidth(3).strokeColor('#059669').rect(20, 20, width - 40, height - 40).stroke();
+  doc.lineWidth(1).rect(28, 28, width - 56, height - 56).stroke();
+
+  drawPdfLine(doc, [{ text: 'আরবি শিক্ষা · Arabic Learning Platform', font: 'bangla', color: '#6b7280' }], { x: left, width: contentWidth, y: 80, size: 13 });
+  drawPdfLine(doc, [{ text: 'সমাপনী সনদপত্র', font: 'banglaBold', color: '#059669' }], { x: left, width: contentWidth, y: 125, size: 30 });
+  drawPdfLine(doc, [{ text: 'شهادة إتمام', font: 'arabic', color: '#047857' }], { x: left, width: contentWidth, y: 168, size: 26 });
+  drawPdfLine(doc, [{ text: 'CERTIFICATE OF COMPLETION', font: 'bangla', color: '#6b7280' }], { x: left, width: contentWidth, y: 198, size: 14, characterSpacing: 2 });
+
+  const nameFont: PdfFont = ARABIC_SCRIPT.test(certificate.student_name) ? 'arabicBold' : 'banglaBold';
+  const nameWidth = drawPdfLine(doc, [{ text: certificate.student_name, font: nameFont, color: '#1f2937' }], { x: left, width: contentWidth, y: 262, size: 32 });
+  doc.lineWidth(1).strokeColor('#d1d5db')
+    .moveTo(width / 2 - nameWidth / 2 - 32, 276).lineTo(width / 2 + nameWidth / 2 + 32, 276).stroke();
+
+  drawPdfLine(doc, [
+    { text: 'এই মর্মে প্রত্যয়ন করা হচ্ছে যে তিনি ', font: 'bangla' },
+    { text: certificate.course_title_bn, font: 'banglaBold', color: '#065f46' },
+    { text: ' কোর্সটি সফলভাবে সম্পন্ন করেছেন।', font: 'bangla' }
+  ], { x: left, width: contentWidth, y: 320, size: 15 });
+  drawPdfLine(doc, [
+    { text: '.', font: 'bangla' },
+    { text: certificate.course_title, font: 'banglaBold', color: '#065f46' },
+    { text: ' ', font: 'bangla' },
+    { text: 'نشهد بأنّ المذكور أعلاه قد أتمّ بنجاح دورة', font: 'arabic' }
+  ], { x: left, width: contentWidth, y: 354, size: 18 });
+  drawPdfLine(doc, [
+    { text: 'This is to certify that the above named has successfully completed the course ', font: 'bangla' },
+    { text: certificate.course_title, font: 'banglaBold', color: '#065f46' },
+    { text: '.', font: 'bangla' }
+  ], { x: left, width: contentWidth, y: 386, size: 14 });
+
+  const footer = { x: left, width: contentWidth, size: 11 };
+  drawPdfLine(doc, [{ text: `প্রদানের তারিখ: ${formatIssuedOn(certificate.issued_at, 'bn-BD')}`, font: 'bangla', color: '#4b5563' }], { ...footer, y: height - 78, align: 'left' });
+  drawPdfLine(doc, [{ text: `Issued on: ${formatIssuedOn(certificate.issued_at, 'en-GB')}`, font: 'bangla', color: '#4b5563' }], { ...footer, y: height - 60, align: 'left' });
+  drawPdfLine(doc, [
+    { text: 'সনদ নম্বর / Serial: ', font: 'bangla', color: '#4b5563' },
+    { text: certificate.serial, font: 'banglaBold', color: '#1f2937' }
+  ], { ...footer, y: height - 78, align: 'right' });
+  drawPdfLine(doc, [{ text: `যাচাই করুন / Verify: ${verifyUrl}`, font: 'bangla', color: '#4b5563' }], { ...footer, y: height - 60, align: 'right' });
+
+  if (certificate.revoked_at !== null) {
+    doc.save().rotate(-15, { origin: [width / 2, height * 0.45] }).opacity(0.7);
+    const stamp = drawPdfLine(doc, [
+      { text: 'বাতিল · ', font: 'banglaBold', color: '#dc2626' },
+      { text: 'ملغاة', font: 'arabicBold', color: '#dc2626' },
+      { text: ' · REVOKED', font: 'banglaBold', color: '#dc2626' }
+    ], { x: left, width: contentWidth, y: height * 0.45 + 14, size: 40 });
+    doc.lineWidth(5).strokeColor('#dc2626').rect(width / 2 - stamp / 2 - 32, height * 0.45 - 36, stamp + 64, 72).stroke();
+    doc.restore();
+  }
+
+  doc.end();
+  return done;
+}
+
+/**
+ * Draw runs side by side on the baseline `y`, shrinking the font until they
+ * fit `width`; returns the width they took. Passing `features` makes PDFKit
+ * shape each run as a whole rather than word by word, which would put the
+ * words of Arabic text in the wrong order.
+ */
+function drawPdfLine(
+  doc: PDFKit.PDFDocument,
+  runs: PdfRun[],
+  layout: { x: number; width: number; y: number; size: number; align?: 'left' | 'center' | 'right'; characterSpacing?: number }
+): number {
+  const measure = (size: number) => runs.reduce(
+    (sum, run) => sum + doc.font(run.font).fontSize(size).widthOfString(run.text, { characterSpacing: layout.characterSpacing, features: [] }),
+    0
+  );
+
+  let size = layout.size;
+  let total = measure(size);
+  if (total > layout.width) {
+    size = size * layout.width / total;
+    total = measure(size);
+  }
+
+  const align = layout.align ?? 'center';
+  let x = align === 'left' ? layout.x : align === 'right' ? layout.x + layout.width - total : layout.x + (layout.width - total) / 2;
+  for (const run of runs) {
+    doc.font(run.font).fontSize(size).fillColor(run.color ?? '#1f2937');
+    const options: PDFKit.Mixins.TextOptions = { lineBreak: false, baseline: 'alphabetic', characterSpacing: layout.characterSpacing, features: [] };
+    doc.text(run.text, x, layout.y, options);
+    x += doc.widthOfString(run.text, options);
+  }
+  return total;
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError(400, 'invalid-reference', 'Unknown course or lesson');
+  }
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
@@ -0,0 +1,391 @@
+/**
+ * Curriculum
+ * Reads the module → unit → lesson outline with each lesson's state for the
+ * caller, serves lesson content to enrolled students once its prerequisites
+ * are met, records completions, and lets authors (`create`/`update` on
+ * `course-content`) edit the outline. Tables are in database-curriculum.sql.
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  prerequisitesMet,
+  type CurriculumModule,
+  type CurriculumQuery,
+  type CurriculumUnit,
+  type Lesson,
+  type LessonPayload,
+  type LessonPrerequisite,
+  type LessonProgress,
+  type LessonState,
+  type LessonSummary,
+  type LessonUpdate,
+  type ModulePayload,
+  type ModuleUpdate,
+  type PrerequisitesPayload,
+  type UnitPayload,
+  type UnitUpdate
+} from '@shared/curriculum';
+import { ApiError } from './http';
+import type { SignalingIdentity } from './auth';
+import type { PricingService } from './payments/pricing';
+import type { RbacService } from './rbac';
+
+// Postgres foreign_key_violation: unknown module, unit or lesson id
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const MODULE_COLUMNS = 'id, title, title_bn, description, description_bn, level, order, is_active';
+const UNIT_COLUMNS = 'id, module_id, title, title_bn, description_bn, order, is_active';
+const LESSON_SUMMARY_COLUMNS = 'id, unit_id, title, title_bn, lesson_type, estimated_minutes, order, is_active';
+
+type ModuleRow = Omit<CurriculumModule, 'units'>;
+type UnitRow = Omit<CurriculumUnit, 'lessons'>;
+type LessonRow = Omit<LessonSummary, 'prerequisites' | 'state'>;
+
+interface LessonDetailRow extends LessonRow {
+  description_bn: string | null;
+  content: Lesson['content'];
+  course_units: {
+    module_id: string;
+    is_active: boolean;
+    course_modules: { level: number; is_active: boolean } | null;
+  } | null;
+}
+
+interface PrerequisiteRow {
+  lesson_id: string;
+  prerequisite_id: string;
+  min_score: number | null;
+}
+
+export class CurriculumService {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private pricing: PricingService,
+    private rbac: RbacService
+  ) {}
+
+  /**
+   * Modules in order with their units and lessons. Students get each
+   * lesson's state from their own progress; authors see every lesson as
+   * available and may ask for inactive entries too.
+   */
+  async getOutline(identity: SignalingIdentity, query: CurriculumQuery): Promise<CurriculumModule[]> {
+    const db = this.requireDb();
+    const author = await this.isAuthor(identity);
+    const activeOnly = !(author && query.include_inactive);
+
+    let modulesQuery = db.from('course_modules').select(MODULE_COLUMNS).order('order');
+    if (activeOnly) modulesQuery = modulesQuery.eq('is_active', true);
+    if (query.module_id) modulesQuery = modulesQuery.eq('id', query.module_id);
+
+    const { data: modules, error: modulesError } = await modulesQuery;
+    if (modulesError) throw databaseError('load course modules', modulesError);
+    if (!modules || modules.length === 0) return [];
+
+    let unitsQuery = db.from('course_units').select(UNIT_COLUMNS).in('module_id', modules.map(row => row.id)).order('order');
+    if (activeOnly) unitsQuery = unitsQuery.eq('is_active', true);
+    const { data: units, error: unitsError } = await unitsQuery;
+    if (unitsError) throw databaseError('load course units', unitsError);
+
+    const unitIds = (units ?? []).map(row => row.id as string);
+    let lessons: LessonRow[] = [];
+    if (unitIds.length > 0) {
+      let lessonsQuery = db.from('lessons').select(LESSON_SUMMARY_COLUMNS).in('unit_id', unitIds).order('order');
+      if (activeOnly) lessonsQuery = lessonsQuery.eq('is_active', true);
+      const { data, error } = await lessonsQuery;
+      if (error) throw databaseError('load lessons', error);
+      lessons = (data ?? []) as LessonRow[];
+    }
+
+    const lessonIds = lessons.map(lesson => lesson.id);
+    const [prerequisites, progress] = await Promise.all([
+      this.loadPrerequisites(db, lessonIds),
+      this.loadProgress(db, identity.userId)
+    ]);
+
+    return (modules as ModuleRow[]).map(module => ({
+      ...module,
+      units: ((units ?? []) as UnitRow[])
+        .filter(unit => unit.module_id === module.id)
+        .map(unit => ({
+          ...unit,
+          lessons: lessons
+            .filter(lesson => lesson.unit_id === unit.id)
+            .map(lesson => {
+              const lessonPrerequisites = prerequisites[lesson.id] ?? [];
+              return {
+                ...lesson,
+                prerequisites: lessonPrerequisites,
+                state: lessonState(lesson.id, lessonPrerequisites, progress, author)
+              };
+            })
+        }))
+    }));
+  }
+
+  /**
+   * A lesson with its content. Students need an enrollment covering the
+   * module's level and every prerequisite completed.
+   */
+  async getLesson(identity: SignalingIdentity, lessonId: string): Promise<Lesson> {
+    return this.openLesson(this.requireDb(), identity, lessonId);
+  }
+
+  /**
+   * Mark a lesson completed. Quiz lessons are completed by their quiz score,
+   * not by the student's say-so.
+   */
+  async completeLesson(identity: SignalingIdentity, lessonId: string): Promise<LessonProgress> {
+    const db = this.requireDb();
+    const lesson = await this.openLesson(db, identity, lessonId);
+    if (lesson.lesson_type === 'quiz') {
+      throw new ApiError(409, 'completed-by-quiz', 'Quiz lessons are completed by passing the quiz');
+    }
+    if (lesson.progress) {
+      return lesson.progress;
+    }
+
+    const { data, error } = await db
+      .from('lesson_progress')
+      .upsert({ user_id: identity.userId, lesson_id: lessonId }, { onConflict: 'user_id,lesson_id', ignoreDuplicates: true })
+      .select('lesson_id, score, completed_at')
+      .maybeSingle();
+
+    if (error) throw databaseError('record lesson progress', error);
+
+    console.log(`✅ Lesson ${lessonId} completed by ${identity.userId}`);
+    return (data as LessonProgress | null) ?? { lesson_id: lessonId, score: null, completed_at: new Date().toISOString() };
+  }
+
+  async createModule(payload: ModulePayload): Promise<ModuleRow> {
+    const { data, error } = await this.requireDb().from('course_modules').insert(payload).select(MODULE_COLUMNS).single();
+    if (error) throw databaseError('create course module', error);
+    return data as ModuleRow;
+  }
+
+  async updateModule(moduleId: string, updates: ModuleUpdate): Promise<ModuleRow> {
+    const { data, error } = await this.requireDb()
+      .from('course_modules')
+      .update(updates)
+      .eq('id', moduleId)
+      .select(MODULE_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw databaseError('update course module', error);
+    if (!data) throw notFound('Course module');
+    return data as ModuleRow;
+  }
+
+  async createUnit(payload: UnitPayload): Promise<UnitRow> {
+    const { data, error } = await this.requireDb().from('course_units').insert(payload).select(UNIT_COLUMNS).single();
+    if (error) throw databaseError('create course unit', error);
+    return data as UnitRow;
+  }
+
+  async updateUnit(unitId: string, updates: UnitUpdate): Promise<UnitRow> {
+    const { data, error } = await this.requireDb()
+      .from('course_units')
+      .update(updates)
+      .eq('id', unitId)
+      .select(UNIT_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw databaseError('update course unit', error);
+    if (!data) throw notFound('Course unit');
+    return data as UnitRow;
+  }
+
+  /**
+   * Delete a unit with its lessons; live classes teaching them keep their module
+   */
+  async deleteUnit(unitId: string): Promise<void> {
+    const { data, error } = await this.requireDb().from('course_units').delete().eq('id', unitId).select('id');
+    if (error) throw databaseError('delete course unit', error);
+    if (!data || data.length === 0) throw notFound('Course unit');
+  }
+
+  async createLesson(payload: LessonPayload): Promise<LessonRow> {
+    const { data, error } = await this.requireDb().from('lessons').insert(payload).select(LESSON_SUMMARY_COLUMNS).single();
+    if (error) throw databaseError('create lesson', error);
+    return data as LessonRow;
+  }
+
+  async updateLesson(lessonId: string, updates: LessonUpdate): Promise<LessonRow> {
+    const { data, error } = await this.requireDb()
+      .from('lessons')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', lessonId)
+      .select(LESSON_SUMMARY_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw databaseError('update lesson', error);
+    if (!data) throw notFound('Lesson');
+    return data as LessonRow;
+  }
+
+  async deleteLesson(lessonId: string): Promise<void> {
+    const { data, error } = await this.requireDb().from('lessons').delete().eq('id', lessonId).select('id');
+    if (error) throw databaseError('delete lesson', error);
+    if (!data || data.length === 0) throw notFound('Lesson');
+  }
+
+  /**
+   * Replace the prerequisites of a lesson, refusing any that would make a
+   * lesson (indirectly) require itself
+   */
+  async setPrerequisites(lessonId: string, { prerequisites }: PrerequisitesPayload): Promise<LessonPrerequisite[]> {
+    const db = this.requireDb();
+    const { data: edges, error: edgesError } = await db.from('lesson_prerequisites').select('lesson_id, prerequisite_id');
+    if (edgesError) throw databaseError('load lesson prerequisites', edgesError);
+
+    const graph: Record<string, string[]> = {};
+    ((edges ?? []) as Omit<PrerequisiteRow, 'min_score'>[])
+      .filter(edge => edge.lesson_id !== lessonId)
+      .forEach(edge => (graph[edge.lesson_id] = graph[edge.lesson_id] ?? []).push(edge.prerequisite_id));
+    graph[lessonId] = prerequisites.map(prerequisite => prerequisite.lesson_id);
+
+    if (requires(graph, lessonId, lessonId)) {
+      throw new ApiError(400, 'prerequisite-cycle', 'A lesson cannot depend on itself through its prerequisites');
+    }
+
+    const ids = graph[lessonId];
+    if (ids.length > 0) {
+      const { error } = await db
+        .from('lesson_prerequisites')
+        .upsert(prerequisites.map(({ lesson_id, min_score }) => ({ lesson_id: lessonId, prerequisite_id: lesson_id, min_score })));
+      if (error) throw databaseError('save lesson prerequisites', error);
+    }
+
+    let stale = db.from('lesson_prerequisites').delete().eq('lesson_id', lessonId);
+    if (ids.length > 0) stale = stale.not('prerequisite_id', 'in', `(${ids.join(',')})`);
+    const { error } = await stale;
+    if (error) throw databaseError('remove lesson prerequisites', error);
+
+    return prerequisites;
+  }
+
+  /**
+   * Load a lesson the caller may open: authors open any lesson, students
+   * only active lessons of a course they are enrolled in, once unlocked
+   */
+  private async openLesson(db: SupabaseClient, identity: SignalingIdentity, lessonId: string): Promise<Lesson> {
+    const [{ data, error }, author] = await Promise.all([
+      db
+        .from('lessons')
+        .select(`${LESSON_SUMMARY_COLUMNS}, description_bn, content, course_units (module_id, is_active, course_modules (level, is_active))`)
+        .eq('id', lessonId)
+        .maybeSingle(),
+      this.isAuthor(identity)
+    ]);
+
+    if (error) throw databaseError('load lesson', error);
+    const row = data as unknown as LessonDetailRow | null;
+    const unit = row?.course_units;
+    if (!row || !unit) throw notFound('Lesson');
+
+    const visible = row.is_active && unit.is_active && unit.course_modules?.is_active !== false;
+    if (!author && !visible) throw notFound('Lesson');
+
+    const [prerequisites, progress] = await Promise.all([
+      this.loadPrerequisites(db, [lessonId]),
+      this.loadProgress(db, identity.userId)
+    ]);
+    const lessonPrerequisites = prerequisites[lessonId] ?? [];
+    const state = lessonState(lessonId, lessonPrerequisites, progress, author);
+
+    if (!author && !(await this.rbac.can(identity, 'bypass', 'enrollment'))) {
+      const access = await this.pricing.getAccess(identity.userId, unit.course_modules?.level ?? null);
+      if (!access.allowed) {
+        throw new ApiError(403, 'not-enrolled', 'Enroll in this course to open its lessons');
+      }
+    }
+    if (state === 'locked') {
+      throw new ApiError(403, 'lesson-locked', 'Complete the prerequisite lessons first');
+    }
+
+    const { course_units, ...lesson } = row;
+    return {
+      ...lesson,
+      module_id: unit.module_id,
+      prerequisites: lessonPrerequisites,
+      state,
+      progress: progress.get(lessonId) ?? null
+    };
+  }
+
+  private async loadPrerequisites(db: SupabaseClient, lessonIds: string[]): Promise<Record<string, LessonPrerequisite[]>> {
+    const byLesson: Record<string, LessonPrerequisite[]> = {};
+    if (lessonIds.length === 0) return byLesson;
+
+    const { data, error } = await db
+      .from('lesson_prerequisites')
+      .select('lesson_id, prerequisite_id, min_score')
+      .in('lesson_id', lessonIds);
+
+    if (error) throw databaseError('load lesson prerequisites', error);
+
+    ((data ?? []) as PrerequisiteRow[]).forEach(row => {
+      (byLesson[row.lesson_id] = byLesson[row.lesson_id] ?? []).push({ lesson_id: row.prerequisite_id, min_score: row.min_score });
+    });
+    return byLesson;
+  }
+
+  private async loadProgress(db: SupabaseClient, userId: string): Promise<Map<string, LessonProgress>> {
+    const { data, error } = await db
+      .from('lesson_progress')
+      .select('lesson_id, score, completed_at')
+      .eq('user_id', userId);
+
+    if (error) throw databaseError('load lesson progress', error);
+
+    const progress = new Map<string, LessonProgress>();
+    ((data ?? []) as LessonProgress[]).forEach(row => progress.set(row.lesson_id, row));
+    return progress;
+  }
+
+  private isAuthor(identity: SignalingIdentity): Promise<boolean> {
+    return this.rbac.can(identity, 'update', 'course-content');
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'The curriculum is not configured on the server');
+    }
+    return db;
+  }
+}
+
+function lessonState(lessonId: string, prerequisites: LessonPrerequisite[], progress: Map<string, LessonProgress>, author: boolean): LessonState {
+  if (progress.has(lessonId)) return 'completed';
+  return author || prerequisitesMet(prerequisites, progress) ? 'available' : 'locked';
+}
+
+/**
+ * Whether `from` depends on `target` through the prerequisite graph
+ */
+function requires(graph: Record<string, string[]>, from: string, target: string): boolean {
+  const visited: Record<string, boolean> = {};
+  const pending = (graph[from] ?? []).slice();
+
+  while (pending.length > 0) {
+    const next = pending.pop() as string;
+    if (next === target) return true;
+    if (visited[next]) continue;
+    visited[next] = true;
+    pending.push(...(graph[next] ?? []));
+  }
+  return false;
+}
+
+function notFound(what: string): ApiError {
+  return new ApiError(404, 'not-found', `${what} not found`);
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError(400, 'invalid-reference', 'Unknown course module, unit or lesson');
+  }
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
@@ -0,0 +1,69 @@
+/**
+ * Handwriting models
+ * The strokes instructors record as the model for each letter form. Students'
+ * writing is compared with them in the browser, so the server only stores
+ * and serves them. Table is in database-handwriting.sql.
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { HandwritingTemplate, HandwritingTemplatePayload } from '@shared/handwriting';
+import { ApiError } from './http';
+
+const TEMPLATE_COLUMNS = 'id, letter, form, strokes, created_by, updated_at';
+
+export class HandwritingService {
+  constructor(private getDb: () => SupabaseClient | null) {}
+
+  /**
+   * Every recorded model; at most one per letter form
+   */
+  async listTemplates(): Promise<HandwritingTemplate[]> {
+    const { data, error } = await this.requireDb()
+      .from('handwriting_templates')
+      .select(TEMPLATE_COLUMNS)
+      .order('letter')
+      .order('form');
+    if (error) throw databaseError('load handwriting templates', error);
+    return (data ?? []) as HandwritingTemplate[];
+  }
+
+  /**
+   * Record the model for a letter form, replacing any earlier one
+   */
+  async saveTemplate(userId: string, { letter, form, strokes }: HandwritingTemplatePayload): Promise<HandwritingTemplate> {
+    const { data, error } = await this.requireDb()
+      .from('handwriting_templates')
+      .upsert({ letter, form, strokes, created_by: userId, updated_at: new Date().toISOString() }, { onConflict: 'letter,form' })
+      .select(TEMPLATE_COLUMNS)
+      .single();
+    if (error) throw databaseError('save handwriting template', error);
+
+    console.log(`✍️ Handwriting model for ${letter} (${form}) recorded by ${userId}`);
+    return data as HandwritingTemplate;
+  }
+
+  async deleteTemplate(templateId: string): Promise<void> {
+    const { data, error } = await this.requireDb()
+      .from('handwriting_templates')
+      .delete()
+      .eq('id', templateId)
+      .select('id');
+    if (error) throw databaseError('delete handwriting template', error);
+    if (!data || data.length === 0) {
+      throw new ApiError(404, 'not-found', 'Handwriting template not found');
+    }
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Handwriting practice is not configured on the server');
+    }
+    return db;
+  }
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
@@ -0,0 +1,89 @@
+/**
+ * REST API helpers
+ * Bearer-token authentication and a JSON error handler shared by
+ * the `/api/*` routers. Identity comes from the verified Supabase token, never
+ * from the request body.
+ */
+
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from 'express';
+import { ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import type { PaginatedResponse } from '@shared/pagination';
+import { AuthError, verifySupabaseToken, type SignalingIdentity } from './auth';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Require `Authorization: Bearer <supabase access token>` and store the
+ * verified identity for the route handlers
+ */
+export const requireAuth: RequestHandler = (req, res, next) => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    next(new ApiError(401, 'unauthorized', 'Missing bearer token'));
+    return;
+  }
+
+  try {
+    res.locals.identity = verifySupabaseToken(header.slice('Bearer '.length).trim());
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export function getIdentity(res: Response): SignalingIdentity {
+  const identity = res.locals.identity as SignalingIdentity | undefined;
+  if (!identity) {
+    throw new ApiError(401, 'unauthorized', 'Not authenticated');
+  }
+  return identity;
+}
+
+export function paginated<T>(data: T[], page: number, pageSize: number, total: number): PaginatedResponse<T> {
+  return {
+    data,
+    pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) }
+  };
+}
+
+/**
+ * Turn thrown errors into `{ error, message }` JSON responses
+ */
+export const apiErrorHandler: ErrorRequestHandler = (error, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  if (error instanceof ApiError) {
+    res.status(error.status).json({ error: error.code, message: error.message });
+    return;
+  }
+
+  if (error instanceof AuthError) {
+    res.status(error.status).json({ error: error.status === 401 ? 'unauthorized' : 'auth-unavailable', message: error.message });
+    return;
+  }
+
+  if (error instanceof ZodError) {
+    res.status(400).json({
+      error: 'invalid-request',
+      message: fromZodError(error).message,
+      issues: error.issues
+    });
+    return;
+  }
+
+  console.error(`❌ ${req.method} ${req.originalUrl} failed:`, error);
+  res.status(500).json({ error: 'internal-error', message: 'Something went wrong' });
+};
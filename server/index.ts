@@ -1,10 +1,51 @@
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
-import { WebSocketServer, WebSocket } from 'ws';
 import compression from 'compression';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
+import { SignalingServer, type DuplicateSessionPolicy } from './signaling-server';
+import { createRoomStateAdapter } from './room-state';
+import { createRoomTokensRouter } from './routes/room-tokens';
+import { AdmissionService } from './admission';
+import { getServiceSupabase } from './supabase';
+import { apiErrorHandler } from './http';
+import { createClassesRouter } from './routes/classes';
+import { createPaymentsRouter } from './routes/payments';
+import { createAdminPaymentsRouter } from './routes/admin-payments';
+import { createBkashGateway, getBkashMode } from './payments/bkash';
+import { createMockBkashRouter } from './payments/mock-bkash';
+import { PaymentService } from './payments/payment-service';
+import { PricingService } from './payments/pricing';
+import { createPricingRouter } from './routes/pricing';
+import { createAdminPricingRouter } from './routes/admin-pricing';
+import { ReconciliationJob, ReconciliationService } from './payments/reconciliation';
+import { ReceiptService } from './payments/receipts';
+import { createReceiptDelivery } from './payments/receipt-delivery';
+import { createReceiptsRouter } from './routes/receipts';
+import { RbacService } from './rbac';
+import { createAdminRolesRouter } from './routes/admin-roles';
+import { InstructorPortalService } from './instructor-portal';
+import { createInstructorRouter } from './routes/instructor';
+import { CurriculumService } from './curriculum';
+import { createCurriculumRouter } from './routes/curriculum';
+import { createAdminCurriculumRouter } from './routes/admin-curriculum';
+import { ProgressService } from './progress';
+import { createProgressRouter } from './routes/progress';
+import { QuizService } from './quizzes';
+import { createQuizzesRouter } from './routes/quizzes';
+import { CertificateService } from './certificates';
+import { createCertificatesRouter } from './routes/certificates';
+import { createAdminCertificatesRouter } from './routes/admin-certificates';
+import { VocabularyService } from './vocabulary';
+import { createVocabularyRouter } from './routes/vocabulary';
+import { createTajweedRouter } from './routes/tajweed';
+import { PronunciationService } from './pronunciation';
+import { createPronunciationRouter } from './routes/pronunciation';
+import { HandwritingService } from './handwriting';
+import { createHandwritingRouter } from './routes/handwriting';
+import { QuranService } from './quran';
+import { createQuranRouter } from './routes/quran';
 
 const app = express();
 const server = createServer(app);
@@ -34,270 +75,168 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Signaling server for real-time video (see shared/signaling.ts for the protocol).
+// Set REDIS_URL to share rooms between several signaling nodes.
+const duplicateSessionPolicies: DuplicateSessionPolicy[] = ['kick-old', 'reject-new', 'multi-device'];
+const duplicateSessionPolicy = duplicateSessionPolicies.find(policy => policy === process.env.SIGNALING_DUPLICATE_SESSION_POLICY);
+
+// Course products, installments and coupons; also decides live-class access
+const pricing = new PricingService(getServiceSupabase);
+
+// Role permissions (database-rbac.sql) for the REST routes and room admission
+const rbac = new RbacService(getServiceSupabase);
+
+// Class sessions, attendance and grading for instructors' own classes
+const instructorPortal = new InstructorPortalService(getServiceSupabase, rbac);
+
+// Modules, units and lessons; lesson content follows course enrollment
+const curriculum = new CurriculumService(getServiceSupabase, pricing, rbac);
+
+// Course progress computed from lessons, attendance, homework and quizzes
+const progress = new ProgressService(getServiceSupabase);
+
+// Quiz question pools, timed attempts and grading
+const quizzes = new QuizService(getServiceSupabase, curriculum, progress);
+
+const signaling = new SignalingServer(server, {
+  path: '/ws',
+  roomState: createRoomStateAdapter(),
+  admission: new AdmissionService(getServiceSupabase, Number(process.env.SIGNALING_DEFAULT_MAX_PARTICIPANTS) || 100, pricing, rbac),
+  attendance: instructorPortal,
+  duplicateSessionPolicy,
+  resumeGraceMs: process.env.SIGNALING_RESUME_GRACE_MS ? Number(process.env.SIGNALING_RESUME_GRACE_MS) : undefined,
+  heartbeatIntervalMs: process.env.SIGNALING_HEARTBEAT_INTERVAL_MS ? Number(process.env.SIGNALING_HEARTBEAT_INTERVAL_MS) : undefined
+});
+
 // Health check endpoint with WebSocket status
 app.get('/api/health', (req, res) => {
-  const connectedClients = Array.from(rooms.values()).reduce((total, room) => total + room.size, 0);
+  const stats = signaling.getStats();
   
   res.json({ 
     status: 'ok', 
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     websocket: {
-      connected_clients: connectedClients,
-      active_rooms: rooms.size,
+      node_id: stats.nodeId,
+      connected_clients: stats.connectedClients,
+      active_rooms: stats.activeRooms,
+      reconnecting_participants: stats.reconnectingParticipants,
       server_ready: true
     },
+    liveness: {
+      heartbeat_interval_ms: stats.liveness.heartbeatIntervalMs,
+      last_sweep_at: stats.liveness.lastSweepAt,
+      awaiting_pong: stats.liveness.awaitingPong,
+      evicted_connections: stats.liveness.evictedConnections,
+      oldest_last_seen_ms: stats.liveness.oldestLastSeenMs
+    },
     environment: process.env.NODE_ENV || 'development'
   });
 });
 
 // WebSocket health check endpoint
 app.get('/api/ws-health', (req, res) => {
-  const roomsStatus = Array.from(rooms.entries()).map(([roomId, participants]) => ({
-    roomId,
-    participants: participants.size,
-    users: Array.from(participants.values()).map(p => ({
-      userId: p.userId,
-      displayName: p.displayName,
-      role: p.role,
-      joinedAt: p.joinedAt
-    }))
-  }));
-  
   res.json({
     status: 'healthy',
     websocket_server: 'running',
-    rooms: roomsStatus,
-    total_participants: Array.from(rooms.values()).reduce((total, room) => total + room.size, 0)
+    rooms: signaling.getRoomsStatus(),
+    total_participants: signaling.getStats().totalParticipants
   });
 });
 
-// Room-based participant tracking for multi-user video
-interface Participant {
-  id: string;
-  userId: string;
-  roomId: string;
-  displayName: string;
-  role: 'admin' | 'student';
-  ws: WebSocket;
-  joinedAt: Date;
-}
+const PORT = Number(process.env.SERVER_PORT) || 3000;
 
-const rooms = new Map<string, Map<string, Participant>>();
+const ENROLLMENT_SYNC_INTERVAL_MS = 60 * 60 * 1000;
 
-// WebSocket server for real-time video signaling
-const wss = new WebSocketServer({ 
-  server,
-  path: '/ws',
-  perMessageDeflate: {
-    threshold: 1024,
-    serverMaxWindowBits: 15,
-    clientMaxWindowBits: 15,
-  }
+// Public origin of the web app, used for payment gateway redirects and
+// certificate verification links
+const APP_URL = (process.env.APP_URL || 'http://localhost:5000').replace(/\/$/, '');
+
+// REST API
+app.use('/api/classes', createClassesRouter(rbac));
+// Tokens that admit their holder to one signaling room
+app.use('/api/room-tokens', createRoomTokensRouter(rbac));
+app.use('/api/instructor', createInstructorRouter(instructorPortal, rbac));
+app.use('/api/curriculum', createCurriculumRouter(curriculum, rbac));
+app.use('/api/admin/curriculum', createAdminCurriculumRouter(curriculum, progress, quizzes, rbac));
+app.use('/api/progress', createProgressRouter(progress, rbac));
+app.use('/api/quizzes', createQuizzesRouter(quizzes, rbac));
+
+// Course certificates; serials are verified publicly at /verify/:serial
+const certificates = new CertificateService(getServiceSupabase, pricing, progress, { appUrl: APP_URL });
+app.use('/api/certificates', createCertificatesRouter(certificates, rbac));
+app.use('/api/admin/certificates', createAdminCertificatesRouter(certificates, rbac));
+
+// Spaced-repetition review of the words from completed vocabulary lessons
+const vocabulary = new VocabularyService(getServiceSupabase);
+app.use('/api/vocabulary', createVocabularyRouter(vocabulary, rbac));
+
+// Tajweed rule annotation of vocalized Quranic text
+app.use('/api/tajweed', createTajweedRouter());
+
+// Scored pronunciation practice against lessons' reference recordings
+const pronunciation = new PronunciationService(getServiceSupabase, curriculum);
+app.use('/api/pronunciation', createPronunciationRouter(pronunciation, rbac));
+
+// Model strokes for handwriting practice, recorded by instructors
+const handwriting = new HandwritingService(getServiceSupabase);
+app.use('/api/handwriting', createHandwritingRouter(handwriting, rbac));
+
+// Quran text from the data files bundled in server/data/quran, or in
+// QURAN_DATA_DIR with a licensed translation and word meanings added;
+// QURAN_AUDIO_URL serves one recording per ayah for each reciter
+const QURAN_DATA_DIR = process.env.QURAN_DATA_DIR || 'server/data/quran';
+const quran = new QuranService({
+  dataDir: QURAN_DATA_DIR,
+  audioBaseUrl: (process.env.QURAN_AUDIO_URL || 'https://everyayah.com/data').replace(/\/$/, '')
 });
+app.use('/api/quran', createQuranRouter(quran));
+// Requests get a 503 until the files are fixed
+quran.preload().catch(error => console.error(`❌ Quran reader unavailable (${QURAN_DATA_DIR}):`, error.message));
 
-// WebSocket connection handling for multi-user video
-wss.on('connection', (ws, req) => {
-  console.log('🔌 New WebSocket connection established');
-  let currentParticipant: Participant | null = null;
-  
-  ws.on('message', (data) => {
-    try {
-      const message = JSON.parse(data.toString());
-      console.log('📨 WebSocket message received:', message.type, 'from room:', message.roomId);
-      
-      switch (message.type) {
-        case 'join-room':
-          handleJoinRoom(ws, message);
-          break;
-          
-        case 'leave-room':
-          handleLeaveRoom(ws, message);
-          break;
-          
-        case 'webrtc-signal':
-          handleWebRTCSignaling(ws, message);
-          break;
-          
-        case 'media-state-change':
-          handleMediaStateChange(ws, message);
-          break;
-          
-        default:
-          console.log('🔄 Broadcasting message to room:', message.roomId);
-          broadcastToRoom(message.roomId, message, ws);
-      }
-    } catch (error) {
-      console.error('❌ WebSocket message parsing error:', error);
-    }
-  });
-  
-  // Handle participant joining a room
-  function handleJoinRoom(ws: WebSocket, message: any) {
-    const { roomId, userId, displayName, role } = message;
-    
-    console.log(`👤 User ${displayName} (${userId}) joining room ${roomId} as ${role}`);
-    
-    // Create participant
-    const participant: Participant = {
-      id: `${userId}-${Date.now()}`,
-      userId,
-      roomId,
-      displayName,
-      role: role || 'student',
-      ws,
-      joinedAt: new Date()
-    };
-    
-    currentParticipant = participant;
-    
-    // Add to room
-    if (!rooms.has(roomId)) {
-      rooms.set(roomId, new Map());
-    }
-    
-    const room = rooms.get(roomId)!;
-    room.set(userId, participant);
-    
-    // Notify existing participants about new user
-    const participantList = Array.from(room.values()).map(p => ({
-      id: p.id,
-      userId: p.userId,
-      displayName: p.displayName,
-      role: p.role,
-      joinedAt: p.joinedAt
-    }));
-    
-    // Send current participants to new user
-    ws.send(JSON.stringify({
-      type: 'room-joined',
-      roomId,
-      participants: participantList.filter(p => p.userId !== userId)
-    }));
-    
-    // Notify others about new participant
-    broadcastToRoom(roomId, {
-      type: 'participant-joined',
-      roomId,
-      participant: {
-        id: participant.id,
-        userId: participant.userId,
-        displayName: participant.displayName,
-        role: participant.role,
-        joinedAt: participant.joinedAt
-      }
-    }, ws);
-    
-    console.log(`✅ Room ${roomId} now has ${room.size} participants`);
-  }
-  
-  // Handle participant leaving a room
-  function handleLeaveRoom(ws: WebSocket, message: any) {
-    if (!currentParticipant) return;
-    
-    const { roomId, userId } = message;
-    console.log(`👋 User ${userId} leaving room ${roomId}`);
-    
-    const room = rooms.get(roomId);
-    if (room) {
-      room.delete(userId);
-      
-      // Notify others about participant leaving
-      broadcastToRoom(roomId, {
-        type: 'participant-left',
-        roomId,
-        userId
-      }, ws);
-      
-      // Clean up empty rooms
-      if (room.size === 0) {
-        rooms.delete(roomId);
-        console.log(`🗑️ Room ${roomId} deleted (empty)`);
-      } else {
-        console.log(`📊 Room ${roomId} now has ${room.size} participants`);
-      }
-    }
-    
-    currentParticipant = null;
-  }
-  
-  // Handle WebRTC signaling between participants
-  function handleWebRTCSignaling(ws: WebSocket, message: any) {
-    const { roomId, fromUserId, toUserId, signal } = message;
-    console.log(`📡 WebRTC signal from ${fromUserId} to ${toUserId} in room ${roomId}`);
-    
-    const room = rooms.get(roomId);
-    if (room) {
-      const targetParticipant = room.get(toUserId);
-      if (targetParticipant && targetParticipant.ws.readyState === WebSocket.OPEN) {
-        targetParticipant.ws.send(JSON.stringify({
-          type: 'webrtc-signal',
-          roomId,
-          fromUserId,
-          signal
-        }));
-      }
-    }
-  }
-  
-  // Handle media state changes (video/audio on/off)
-  function handleMediaStateChange(ws: WebSocket, message: any) {
-    const { roomId, userId, isVideoEnabled, isAudioEnabled } = message;
-    console.log(`🎥 Media state change for ${userId}: video=${isVideoEnabled}, audio=${isAudioEnabled}`);
-    
-    broadcastToRoom(roomId, {
-      type: 'participant-media-changed',
-      roomId,
-      userId,
-      isVideoEnabled,
-      isAudioEnabled
-    }, ws);
-  }
-  
-  // Broadcast message to all participants in a room except sender
-  function broadcastToRoom(roomId: string, message: any, senderWs?: WebSocket) {
-    const room = rooms.get(roomId);
-    if (room) {
-      room.forEach(participant => {
-        if (participant.ws !== senderWs && participant.ws.readyState === WebSocket.OPEN) {
-          participant.ws.send(JSON.stringify(message));
-        }
-      });
+// bKash checkout; BKASH_MODE=mock serves a fake bKash from this server
+if (getBkashMode() === 'mock') {
+  app.use('/api/mock-bkash', createMockBkashRouter());
+  console.log('🧪 bKash mock mounted at /api/mock-bkash');
+}
+const receipts = new ReceiptService(getServiceSupabase, createReceiptDelivery(), { appUrl: APP_URL });
+const payments = new PaymentService(
+  getServiceSupabase,
+  createBkashGateway(`http://localhost:${PORT}/api/mock-bkash`),
+  pricing,
+  {
+    appUrl: APP_URL,
+    // Email/SMS the receipt in the background; the payment is already settled
+    onPaid: (payment) => {
+      receipts.deliver(payment.payment_id).catch(error => console.error(`❌ Receipt delivery for ${payment.payment_id} failed:`, error));
     }
   }
-  
-  ws.on('close', () => {
-    console.log('🔌 WebSocket connection closed');
-    
-    // Clean up participant from all rooms
-    if (currentParticipant) {
-      const { roomId, userId } = currentParticipant;
-      const room = rooms.get(roomId);
-      if (room) {
-        room.delete(userId);
-        
-        // Notify others about participant leaving
-        broadcastToRoom(roomId, {
-          type: 'participant-left',
-          roomId,
-          userId
-        });
-        
-        // Clean up empty rooms
-        if (room.size === 0) {
-          rooms.delete(roomId);
-          console.log(`🗑️ Room ${roomId} deleted (empty)`);
-        }
-      }
-    }
-  });
-  
-  ws.on('error', (error) => {
-    console.error('❌ WebSocket error:', error);
-  });
-});
+);
+const reconciliation = new ReconciliationService(getServiceSupabase, payments);
+app.use('/api/admin/payments', createAdminPaymentsRouter(payments, reconciliation, rbac));
+app.use('/api/admin/pricing', createAdminPricingRouter(pricing, rbac));
+app.use('/api/admin/roles', createAdminRolesRouter(rbac));
+app.use('/api/pricing', createPricingRouter(pricing));
+app.use('/api/receipts', createReceiptsRouter(receipts));
+app.use('/api', createPaymentsRouter(payments, APP_URL));
 
-const PORT = Number(process.env.SERVER_PORT) || 3000;
+app.use('/api', apiErrorHandler);
+
+// Record suspensions for overdue installments (access itself is checked live)
+if (getServiceSupabase()) {
+  setInterval(() => {
+    pricing.syncEnrollmentStatuses().catch(error => console.error('❌ Enrollment status sync failed:', error));
+  }, ENROLLMENT_SYNC_INTERVAL_MS).unref();
+}
+
+// Nightly import of provider statements dropped into the inbox directory
+if (process.env.RECONCILIATION_INBOX_DIR) {
+  new ReconciliationJob(
+    reconciliation,
+    process.env.RECONCILIATION_INBOX_DIR,
+    process.env.RECONCILIATION_HOUR ? Number(process.env.RECONCILIATION_HOUR) : 2
+  ).start();
+}
 
 server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
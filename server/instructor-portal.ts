@@ -0,0 +1,352 @@
+/**
+ * Instructor portal
+ * What an instructor does around their own classes: start and end a class
+ * session, see who attended each session, grade homework and publish the
+ * recording. A class belongs to the users linked to its `instructor_id`
+ * through `instructors.user_id`; roles that manage live classes (admins) act
+ * on every class. Attendance is written by the signaling server through
+ * `recordVisit` (database-instructor.sql).
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { classIdFromRoomId, classRoomId } from '@shared/signaling';
+import type {
+  ClassSession,
+  ClassSessionWithAttendance,
+  HomeworkForGrading,
+  HomeworkGrade,
+  HomeworkQuery,
+  InstructorClass,
+  StartedSession
+} from '@shared/instructor';
+import { ApiError } from './http';
+import type { SignalingIdentity } from './auth';
+import type { RbacService } from './rbac';
+import type { AttendanceRecorder } from './signaling-server';
+
+// Postgres unique_violation: the class already has an open session
+const UNIQUE_VIOLATION = '23505';
+
+const CLASS_COLUMNS = `
+  id,
+  title,
+  title_bn,
+  instructor_id,
+  scheduled_at,
+  duration,
+  max_participants,
+  recording_url,
+  is_active,
+  course_modules (title_bn, level),
+  class_sessions (id, class_id, started_by, started_at, ended_at)
+`;
+
+const SESSION_COLUMNS = 'id, class_id, started_by, started_at, ended_at';
+
+const HOMEWORK_COLUMNS = `
+  id, user_id, class_id, title, description, file_url, file_name, status, grade, feedback, submitted_at, graded_at,
+  users (first_name, last_name, email),
+  live_classes (title, title_bn)
+`;
+
+type ClassRow = Omit<InstructorClass, 'open_session' | 'session_count'> & { class_sessions: ClassSession[] | null };
+
+interface AttendanceRow {
+  user_id: string;
+  duration: number;
+  attended_at: string;
+  users: { first_name: string | null; last_name: string | null; email: string } | null;
+}
+
+export class InstructorPortalService implements AttendanceRecorder {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private rbac: RbacService
+  ) {}
+
+  /**
+   * The caller's classes, soonest first, each with its open session if any
+   */
+  async listClasses(identity: SignalingIdentity): Promise<InstructorClass[]> {
+    const db = this.requireDb();
+    let query = db.from('live_classes').select(CLASS_COLUMNS).order('scheduled_at').limit(200);
+
+    const scope = await this.teachingScope(db, identity);
+    if (scope) {
+      if (scope.length === 0) return [];
+      query = query.in('instructor_id', scope);
+    }
+
+    const { data, error } = await query;
+    if (error) throw databaseError('load instructor classes', error);
+
+    return ((data ?? []) as unknown as ClassRow[]).map(toInstructorClass);
+  }
+
+  /**
+   * Open a session for the class, or return the one already open
+   */
+  async startSession(identity: SignalingIdentity, classId: string): Promise<StartedSession> {
+    const db = this.requireDb();
+    const liveClass = await this.assertTeaches(db, identity, classId);
+    if (!liveClass.is_active) {
+      throw new ApiError(409, 'class-inactive', 'This class is not active');
+    }
+
+    const { data, error } = await db
+      .from('class_sessions')
+      .insert({ class_id: classId, started_by: identity.userId })
+      .select(SESSION_COLUMNS)
+      .single();
+
+    if (error && error.code !== UNIQUE_VIOLATION) throw databaseError('start class session', error);
+
+    const session = (data as ClassSession | null) ?? await this.openSession(db, classId);
+    if (!session) {
+      throw new Error('Failed to start class session');
+    }
+
+    if (data) {
+      console.log(`🎬 Class ${classId} session ${session.id} started by ${identity.userId}`);
+    }
+    return { session, room_id: classRoomId(classId) };
+  }
+
+  /**
+   * Close the open session of the class
+   */
+  async endSession(identity: SignalingIdentity, classId: string): Promise<ClassSession> {
+    const db = this.requireDb();
+    await this.assertTeaches(db, identity, classId);
+
+    const { data, error } = await db
+      .from('class_sessions')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('class_id', classId)
+      .is('ended_at', null)
+      .select(SESSION_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw databaseError('end class session', error);
+    if (!data) {
+      throw new ApiError(409, 'no-open-session', 'This class has no session in progress');
+    }
+
+    console.log(`🏁 Class ${classId} session ${data.id} ended by ${identity.userId}`);
+    return data as ClassSession;
+  }
+
+  /**
+   * Sessions of the class, newest first, with who attended each and for how long
+   */
+  async listSessions(identity: SignalingIdentity, classId: string): Promise<ClassSessionWithAttendance[]> {
+    const db = this.requireDb();
+    await this.assertTeaches(db, identity, classId);
+
+    const { data, error } = await db
+      .from('class_sessions')
+      .select(`${SESSION_COLUMNS}, class_attendance (user_id, duration, attended_at, users (first_name, last_name, email))`)
+      .eq('class_id', classId)
+      .order('started_at', { ascending: false });
+
+    if (error) throw databaseError('load class sessions', error);
+
+    return ((data ?? []) as unknown as (ClassSession & { class_attendance: AttendanceRow[] | null })[])
+      .map(({ class_attendance, ...session }) => ({
+        ...session,
+        attendance: (class_attendance ?? [])
+          .map(row => ({
+            user_id: row.user_id,
+            first_name: row.users?.first_name ?? null,
+            last_name: row.users?.last_name ?? null,
+            email: row.users?.email ?? '',
+            duration: row.duration,
+            attended_at: row.attended_at
+          }))
+          .sort((a, b) => a.attended_at.localeCompare(b.attended_at))
+      }));
+  }
+
+  /**
+   * Homework handed in for the caller's classes, newest first
+   */
+  async listHomework(identity: SignalingIdentity, filter: HomeworkQuery): Promise<{ rows: HomeworkForGrading[]; total: number }> {
+    const db = this.requireDb();
+    const offset = (filter.page - 1) * filter.page_size;
+    let query = db
+      .from('homework_submissions')
+      .select(HOMEWORK_COLUMNS, { count: 'exact' })
+      .order('submitted_at', { ascending: false })
+      .range(offset, offset + filter.page_size - 1);
+
+    if (filter.class_id) {
+      await this.assertTeaches(db, identity, filter.class_id);
+      query = query.eq('class_id', filter.class_id);
+    } else {
+      const classIds = await this.ownClassIds(db, identity);
+      if (classIds) {
+        if (classIds.length === 0) return { rows: [], total: 0 };
+        query = query.in('class_id', classIds);
+      }
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error, count } = await query;
+    if (error) throw databaseError('load homework', error);
+    return { rows: (data ?? []) as unknown as HomeworkForGrading[], total: count ?? 0 };
+  }
+
+  /**
+   * Grade a submission for one of the caller's classes; grading again
+   * replaces the previous grade
+   */
+  async gradeHomework(identity: SignalingIdentity, submissionId: string, { grade, feedback }: HomeworkGrade): Promise<HomeworkForGrading> {
+    const db = this.requireDb();
+    const { data: submission, error: loadError } = await db
+      .from('homework_submissions')
+      .select('class_id')
+      .eq('id', submissionId)
+      .maybeSingle();
+
+    if (loadError) throw databaseError('load homework', loadError);
+    if (!submission) {
+      throw new ApiError(404, 'not-found', 'Homework submission not found');
+    }
+    if (!submission.class_id) {
+      throw new ApiError(403, 'forbidden', 'You can only grade homework for classes you teach');
+    }
+    await this.assertTeaches(db, identity, submission.class_id);
+
+    const { data, error } = await db
+      .from('homework_submissions')
+      .update({
+        status: 'graded',
+        grade,
+        feedback: feedback || null,
+        graded_at: new Date().toISOString()
+      })
+      .eq('id', submissionId)
+      .select(HOMEWORK_COLUMNS)
+      .single();
+
+    if (error) throw databaseError('grade homework', error);
+
+    console.log(`📝 Homework ${submissionId} graded ${grade} by ${identity.userId}`);
+    return data as unknown as HomeworkForGrading;
+  }
+
+  /**
+   * Set or clear the recording students see for the class
+   */
+  async publishRecording(identity: SignalingIdentity, classId: string, recordingUrl: string | null): Promise<InstructorClass> {
+    const db = this.requireDb();
+    await this.assertTeaches(db, identity, classId);
+
+    const { data, error } = await db
+      .from('live_classes')
+      .update({ recording_url: recordingUrl })
+      .eq('id', classId)
+      .select(CLASS_COLUMNS)
+      .single();
+
+    if (error) throw databaseError('publish recording', error);
+
+    console.log(`📼 Recording of class ${classId} ${recordingUrl ? 'published' : 'removed'} by ${identity.userId}`);
+    return toInstructorClass(data as unknown as ClassRow);
+  }
+
+  /**
+   * Count a stay in a class room towards the class's attendance. Ad-hoc
+   * rooms are ignored; failures are logged since the visit is already over.
+   */
+  async recordVisit(roomId: string, userId: string, joinedAt: Date, leftAt: Date): Promise<void> {
+    const classId = classIdFromRoomId(roomId);
+    const db = this.getDb();
+    if (!classId || !db) return;
+
+    const { error } = await db.rpc('record_class_attendance', {
+      p_class_id: classId,
+      p_user_id: userId,
+      p_joined_at: joinedAt.toISOString(),
+      p_left_at: leftAt.toISOString()
+    });
+
+    if (error) {
+      console.error(`❌ Failed to record attendance of ${userId} in class ${classId}:`, error.message);
+    }
+  }
+
+  /**
+   * `instructors` ids of the caller, or null when they may act on every class
+   */
+  private async teachingScope(db: SupabaseClient, identity: SignalingIdentity): Promise<string[] | null> {
+    if (await this.rbac.can(identity, 'manage', 'live-class')) return null;
+
+    const { data, error } = await db.from('instructors').select('id').eq('user_id', identity.userId);
+    if (error) throw databaseError('load instructor', error);
+    return (data ?? []).map(row => row.id as string);
+  }
+
+  /**
+   * Ids of the caller's classes, or null when they may act on every class
+   */
+  private async ownClassIds(db: SupabaseClient, identity: SignalingIdentity): Promise<string[] | null> {
+    const scope = await this.teachingScope(db, identity);
+    if (!scope || scope.length === 0) return scope;
+
+    const { data, error } = await db.from('live_classes').select('id').in('instructor_id', scope);
+    if (error) throw databaseError('load instructor classes', error);
+    return (data ?? []).map(row => row.id as string);
+  }
+
+  private async assertTeaches(db: SupabaseClient, identity: SignalingIdentity, classId: string): Promise<{ is_active: boolean }> {
+    const [{ data: liveClass, error }, scope] = await Promise.all([
+      db.from('live_classes').select('instructor_id, is_active').eq('id', classId).maybeSingle(),
+      this.teachingScope(db, identity)
+    ]);
+
+    if (error) throw databaseError('load class', error);
+    if (!liveClass) {
+      throw new ApiError(404, 'not-found', 'Class not found');
+    }
+    if (scope && (!liveClass.instructor_id || !scope.includes(liveClass.instructor_id))) {
+      throw new ApiError(403, 'forbidden', 'You can only manage classes you teach');
+    }
+    return liveClass;
+  }
+
+  private async openSession(db: SupabaseClient, classId: string): Promise<ClassSession | null> {
+    const { data, error } = await db
+      .from('class_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('class_id', classId)
+      .is('ended_at', null)
+      .maybeSingle();
+
+    if (error) throw databaseError('load class session', error);
+    return data as ClassSession | null;
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'The instructor portal is not configured on the server');
+    }
+    return db;
+  }
+}
+
+function toInstructorClass({ class_sessions, ...liveClass }: ClassRow): InstructorClass {
+  return {
+    ...liveClass,
+    open_session: (class_sessions ?? []).find(session => !session.ended_at) ?? null,
+    session_count: (class_sessions ?? []).length
+  };
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
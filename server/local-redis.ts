@@ -0,0 +1,188 @@
+/**
+ * In-process Redis stand-in
+ * Implements the key, hash and pub/sub commands RedisRoomState needs, so several
+ * signaling nodes can be run against one shared store without a Redis server
+ * (local development and multi-node testing). Scripts are not interpreted:
+ * the ones RedisRoomState sends are implemented natively.
+ */
+
+import { EventEmitter } from 'events';
+import { REMOVE_MEMBER_SCRIPT, type RedisClientLike } from './redis-room-state';
+
+export class LocalRedisServer {
+  private strings = new Map<string, string>();
+  private hashes = new Map<string, Map<string, string>>();
+  private expiries = new Map<string, number>();
+  private subscriptions = new Map<string, Set<LocalRedisClient>>();
+
+  createClient(): LocalRedisClient {
+    return new LocalRedisClient(this);
+  }
+
+  /**
+   * Drop a key whose expiry has passed; called before every read or write
+   */
+  private expire(key: string): void {
+    const expiresAt = this.expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.del(key);
+    }
+  }
+
+  set(key: string, value: string, ttlMs?: number): void {
+    this.del(key);
+    this.strings.set(key, value);
+    if (ttlMs !== undefined) {
+      this.expiries.set(key, Date.now() + ttlMs);
+    }
+  }
+
+  exists(key: string): number {
+    this.expire(key);
+    return this.strings.has(key) || this.hashes.has(key) ? 1 : 0;
+  }
+
+  pexpire(key: string, ttlMs: number): number {
+    if (!this.exists(key)) return 0;
+    this.expiries.set(key, Date.now() + ttlMs);
+    return 1;
+  }
+
+  del(key: string): number {
+    const existed = this.strings.delete(key) || this.hashes.delete(key);
+    this.expiries.delete(key);
+    return existed ? 1 : 0;
+  }
+
+  eval(script: string, keys: string[], args: string[]): number {
+    if (script !== REMOVE_MEMBER_SCRIPT) {
+      throw new Error('ERR script not supported by the local Redis stand-in');
+    }
+
+    const [membersKey] = keys;
+    const [participantId, joinId] = args;
+    const raw = this.hget(membersKey, participantId);
+    if (!raw || JSON.parse(raw).joinId !== joinId) return 0;
+    return this.hdel(membersKey, participantId);
+  }
+
+  hset(key: string, field: string, value: string): number {
+    this.expire(key);
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, new Map());
+    }
+    const hash = this.hashes.get(key)!;
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, value);
+    return added;
+  }
+
+  hget(key: string, field: string): string | null {
+    this.expire(key);
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  hdel(key: string, field: string): number {
+    this.expire(key);
+    const hash = this.hashes.get(key);
+    if (!hash || !hash.delete(field)) return 0;
+    if (hash.size === 0) {
+      this.del(key);
+    }
+    return 1;
+  }
+
+  hgetall(key: string): Record<string, string> {
+    this.expire(key);
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  publish(channel: string, message: string): number {
+    const subscribers = this.subscriptions.get(channel);
+    if (!subscribers) return 0;
+
+    // Deliver asynchronously, like a network round trip
+    subscribers.forEach(client => setImmediate(() => client.emit('message', channel, message)));
+    return subscribers.size;
+  }
+
+  subscribe(channel: string, client: LocalRedisClient): void {
+    if (!this.subscriptions.has(channel)) {
+      this.subscriptions.set(channel, new Set());
+    }
+    this.subscriptions.get(channel)!.add(client);
+  }
+
+  unsubscribe(channel: string, client: LocalRedisClient): void {
+    const subscribers = this.subscriptions.get(channel);
+    if (!subscribers) return;
+    subscribers.delete(client);
+    if (subscribers.size === 0) {
+      this.subscriptions.delete(channel);
+    }
+  }
+
+  disconnect(client: LocalRedisClient): void {
+    this.subscriptions.forEach((_, channel) => this.unsubscribe(channel, client));
+  }
+}
+
+export class LocalRedisClient extends EventEmitter implements RedisClientLike {
+  constructor(private server: LocalRedisServer) {
+    super();
+  }
+
+  async publish(channel: string, message: string): Promise<number> {
+    return this.server.publish(channel, message);
+  }
+
+  async subscribe(channel: string): Promise<void> {
+    this.server.subscribe(channel, this);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.server.unsubscribe(channel, this);
+  }
+
+  async hset(key: string, field: string, value: string): Promise<number> {
+    return this.server.hset(key, field, value);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.server.hget(key, field);
+  }
+
+  async hdel(key: string, field: string): Promise<number> {
+    return this.server.hdel(key, field);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.server.hgetall(key);
+  }
+
+  async set(key: string, value: string, _mode: 'PX', ttlMs: number): Promise<'OK'> {
+    this.server.set(key, value, ttlMs);
+    return 'OK';
+  }
+
+  async exists(key: string): Promise<number> {
+    return this.server.exists(key);
+  }
+
+  async pexpire(key: string, ttlMs: number): Promise<number> {
+    return this.server.pexpire(key, ttlMs);
+  }
+
+  async del(key: string): Promise<number> {
+    return this.server.del(key);
+  }
+
+  async eval(script: string, numKeys: number, ...args: string[]): Promise<number> {
+    return this.server.eval(script, args.slice(0, numKeys), args.slice(numKeys));
+  }
+
+  async quit(): Promise<void> {
+    this.server.disconnect(this);
+    this.removeAllListeners();
+  }
+}
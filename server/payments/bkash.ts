@@ -0,0 +1,233 @@
+/**
+ * bKash tokenized checkout
+ * Thin client for the grant token / create / execute / query / refund calls.
+ * Everything the payment service needs goes through the BkashGateway
+ * interface, so the same code runs against the bKash sandbox, production, or
+ * the local mock in ./mock-bkash.
+ */
+
+export interface BkashCreatePaymentRequest {
+  amount: string;
+  payerReference: string;
+  callbackURL: string;
+  merchantInvoiceNumber: string;
+}
+
+export interface BkashCreatePaymentResponse {
+  paymentID: string;
+  bkashURL: string;
+  amount: string;
+  merchantInvoiceNumber: string;
+  transactionStatus: string;
+}
+
+export interface BkashPaymentStatus {
+  paymentID: string;
+  trxID?: string;
+  // 'Initiated' | 'Completed' | 'Cancelled' | 'Failed' ...
+  transactionStatus: string;
+  amount: string;
+  merchantInvoiceNumber?: string;
+  customerMsisdn?: string;
+}
+
+export interface BkashRefundRequest {
+  paymentID: string;
+  trxID: string;
+  amount: string;
+  reason: string;
+}
+
+export interface BkashRefundResponse {
+  originalTrxID: string;
+  refundTrxID: string;
+  transactionStatus: string;
+  amount: string;
+}
+
+export interface BkashGateway {
+  createPayment(request: BkashCreatePaymentRequest): Promise<BkashCreatePaymentResponse>;
+  executePayment(paymentID: string): Promise<BkashPaymentStatus>;
+  queryPayment(paymentID: string): Promise<BkashPaymentStatus>;
+  refundPayment(request: BkashRefundRequest): Promise<BkashRefundResponse>;
+}
+
+export interface BkashConfig {
+  baseUrl: string;
+  username: string;
+  password: string;
+  appKey: string;
+  appSecret: string;
+}
+
+export type BkashMode = 'sandbox' | 'live' | 'mock';
+
+export const BKASH_BASE_URLS: Record<Exclude<BkashMode, 'mock'>, string> = {
+  sandbox: 'https://tokenized.sandbox.bka.sh/v1.2.0-beta',
+  live: 'https://tokenized.pay.bka.sh/v1.2.0-beta'
+};
+
+// bKash reports success as statusCode '0000'
+const BKASH_SUCCESS = '0000';
+
+// Re-grant a little before the token expires rather than racing it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+export class BkashError extends Error {
+  constructor(public readonly statusCode: string, message: string) {
+    super(message);
+    this.name = 'BkashError';
+  }
+}
+
+export class HttpBkashGateway implements BkashGateway {
+  private token: { value: string; expiresAt: number } | null = null;
+  private pendingGrant: Promise<string> | null = null;
+
+  constructor(private config: BkashConfig) {}
+
+  async createPayment(request: BkashCreatePaymentRequest): Promise<BkashCreatePaymentResponse> {
+    return this.call<BkashCreatePaymentResponse>('/tokenized/checkout/create', {
+      mode: '0011',
+      payerReference: request.payerReference,
+      callbackURL: request.callbackURL,
+      amount: request.amount,
+      currency: 'BDT',
+      intent: 'sale',
+      merchantInvoiceNumber: request.merchantInvoiceNumber
+    });
+  }
+
+  async executePayment(paymentID: string): Promise<BkashPaymentStatus> {
+    return this.call<BkashPaymentStatus>('/tokenized/checkout/execute', { paymentID });
+  }
+
+  async queryPayment(paymentID: string): Promise<BkashPaymentStatus> {
+    return this.call<BkashPaymentStatus>('/tokenized/checkout/payment/status', { paymentID });
+  }
+
+  async refundPayment(request: BkashRefundRequest): Promise<BkashRefundResponse> {
+    return this.call<BkashRefundResponse>('/tokenized/checkout/payment/refund', {
+      paymentID: request.paymentID,
+      trxID: request.trxID,
+      amount: request.amount,
+      sku: 'course-fee',
+      reason: request.reason.slice(0, 255)
+    });
+  }
+
+  /**
+   * Get a valid id_token, granting a new one when the cached token is about
+   * to expire. Concurrent callers share one grant request.
+   */
+  private async getToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    if (!this.pendingGrant) {
+      this.pendingGrant = this.grantToken().finally(() => {
+        this.pendingGrant = null;
+      });
+    }
+    return this.pendingGrant;
+  }
+
+  private async grantToken(): Promise<string> {
+    const response = await this.post<{ id_token: string; expires_in: number }>(
+      '/tokenized/checkout/token/grant',
+      { app_key: this.config.appKey, app_secret: this.config.appSecret },
+      { username: this.config.username, password: this.config.password }
+    );
+
+    this.token = {
+      value: response.id_token,
+      expiresAt: Date.now() + response.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS
+    };
+    return response.id_token;
+  }
+
+  private async call<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    const token = await this.getToken();
+    return this.post<T>(path, body, {
+      authorization: token,
+      'x-app-key': this.config.appKey
+    });
+  }
+
+  private async post<T>(path: string, body: Record<string, unknown>, headers: Record<string, string>): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json',
+          ...headers
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+    } catch (error) {
+      throw new BkashError('network', `bKash request to ${path} failed: ${(error as Error).message}`);
+    }
+
+    let data: any;
+    try {
+      data = await response.json();
+    } catch {
+      throw new BkashError(String(response.status), `bKash returned a non-JSON response for ${path}`);
+    }
+
+    // Token grant answers without statusCode on success; other calls always send one
+    if (!response.ok || (data.statusCode && data.statusCode !== BKASH_SUCCESS)) {
+      throw new BkashError(
+        data.statusCode || String(response.status),
+        data.statusMessage || data.errorMessage || `bKash request to ${path} failed`
+      );
+    }
+
+    return data as T;
+  }
+}
+
+/**
+ * Build the gateway from the environment. BKASH_MODE picks sandbox, live or
+ * mock; BKASH_BASE_URL overrides the endpoint (e.g. a mock on another host).
+ *
+ * @param mockBaseUrl where the in-process mock is mounted, used in mock mode
+ */
+export function createBkashGateway(mockBaseUrl: string): BkashGateway | null {
+  const mode = getBkashMode();
+
+  if (mode === 'mock') {
+    return new HttpBkashGateway({
+      baseUrl: process.env.BKASH_BASE_URL || mockBaseUrl,
+      username: 'mock',
+      password: 'mock',
+      appKey: 'mock',
+      appSecret: 'mock'
+    });
+  }
+
+  const { BKASH_USERNAME, BKASH_PASSWORD, BKASH_APP_KEY, BKASH_APP_SECRET } = process.env;
+  if (!BKASH_USERNAME || !BKASH_PASSWORD || !BKASH_APP_KEY || !BKASH_APP_SECRET) {
+    console.warn('⚠️ bKash credentials are not configured; bKash checkout is disabled');
+    return null;
+  }
+
+  return new HttpBkashGateway({
+    baseUrl: process.env.BKASH_BASE_URL || BKASH_BASE_URLS[mode],
+    username: BKASH_USERNAME,
+    password: BKASH_PASSWORD,
+    appKey: BKASH_APP_KEY,
+    appSecret: BKASH_APP_SECRET
+  });
+}
+
+export function getBkashMode(): BkashMode {
+  const mode = process.env.BKASH_MODE;
+  return mode === 'live' || mode === 'mock' ? mode : 'sandbox';
+}
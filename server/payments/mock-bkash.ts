@@ -0,0 +1,171 @@
+/**
+ * Local bKash mock
+ * Implements the tokenized checkout endpoints HttpBkashGateway calls, plus a
+ * bare checkout page with pay / fail / cancel buttons that redirects to the
+ * merchant callback the way bKash does. For development and manual testing
+ * only; mounted when BKASH_MODE=mock.
+ */
+
+import { randomUUID } from 'crypto';
+import { Router, type Request, type Response } from 'express';
+
+interface MockPayment {
+  paymentID: string;
+  amount: string;
+  merchantInvoiceNumber: string;
+  payerReference: string;
+  callbackURL: string;
+  transactionStatus: 'Initiated' | 'Authorized' | 'Completed' | 'Cancelled' | 'Failed';
+  trxID?: string;
+  refundTrxID?: string;
+}
+
+const MOCK_TOKEN_TTL_SECONDS = 3600;
+
+export function createMockBkashRouter(): Router {
+  const router = Router();
+  const tokens = new Set<string>();
+  const payments = new Map<string, MockPayment>();
+
+  const fail = (res: Response, statusCode: string, statusMessage: string) => {
+    res.json({ statusCode, statusMessage });
+  };
+
+  const authorized = (req: Request, res: Response): boolean => {
+    if (!tokens.has(req.get('authorization') || '')) {
+      fail(res, '2079', 'Invalid App Token');
+      return false;
+    }
+    return true;
+  };
+
+  const statusOf = (payment: MockPayment) => ({
+    paymentID: payment.paymentID,
+    trxID: payment.trxID,
+    transactionStatus: payment.transactionStatus,
+    amount: payment.amount,
+    currency: 'BDT',
+    intent: 'sale',
+    merchantInvoiceNumber: payment.merchantInvoiceNumber,
+    payerReference: payment.payerReference,
+    customerMsisdn: '01770618575',
+    statusCode: '0000',
+    statusMessage: 'Successful'
+  });
+
+  router.post('/tokenized/checkout/token/grant', (req, res) => {
+    const idToken = randomUUID();
+    tokens.add(idToken);
+    res.json({
+      id_token: idToken,
+      token_type: 'Bearer',
+      expires_in: MOCK_TOKEN_TTL_SECONDS,
+      refresh_token: randomUUID(),
+      statusCode: '0000',
+      statusMessage: 'Successful'
+    });
+  });
+
+  router.post('/tokenized/checkout/create', (req, res) => {
+    if (!authorized(req, res)) return;
+
+    const payment: MockPayment = {
+      paymentID: `TR0011${randomUUID().replace(/-/g, '').slice(0, 14).toUpperCase()}`,
+      amount: String(req.body.amount),
+      merchantInvoiceNumber: String(req.body.merchantInvoiceNumber),
+      payerReference: String(req.body.payerReference),
+      callbackURL: String(req.body.callbackURL),
+      transactionStatus: 'Initiated'
+    };
+    payments.set(payment.paymentID, payment);
+
+    res.json({
+      ...statusOf(payment),
+      bkashURL: `${req.protocol}://${req.get('host')}${req.baseUrl}/checkout/${payment.paymentID}`,
+      callbackURL: payment.callbackURL,
+      paymentCreateTime: new Date().toISOString()
+    });
+  });
+
+  router.post('/tokenized/checkout/execute', (req, res) => {
+    if (!authorized(req, res)) return;
+
+    const payment = payments.get(req.body.paymentID);
+    if (!payment) return fail(res, '2056', 'Invalid Payment State');
+    if (payment.transactionStatus === 'Completed') return fail(res, '2062', 'The payment has already been completed');
+    if (payment.transactionStatus !== 'Authorized') return fail(res, '2056', 'Invalid Payment State');
+
+    payment.transactionStatus = 'Completed';
+    payment.trxID = `MOCK${randomUUID().replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+    res.json({ ...statusOf(payment), paymentExecuteTime: new Date().toISOString() });
+  });
+
+  router.post('/tokenized/checkout/payment/status', (req, res) => {
+    if (!authorized(req, res)) return;
+
+    const payment = payments.get(req.body.paymentID);
+    if (!payment) return fail(res, '2056', 'Invalid Payment State');
+    res.json(statusOf(payment));
+  });
+
+  router.post('/tokenized/checkout/payment/refund', (req, res) => {
+    if (!authorized(req, res)) return;
+
+    const payment = payments.get(req.body.paymentID);
+    if (!payment || payment.transactionStatus !== 'Completed' || payment.trxID !== req.body.trxID) {
+      return fail(res, '2071', 'Invalid transaction for refund');
+    }
+    if (payment.refundTrxID) return fail(res, '2074', 'Already refunded');
+    if (Number(req.body.amount) > Number(payment.amount)) return fail(res, '2073', 'Refund amount exceeds the payment');
+
+    payment.refundTrxID = `MOCKR${randomUUID().replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+    res.json({
+      completedTime: new Date().toISOString(),
+      transactionStatus: 'Completed',
+      originalTrxID: payment.trxID,
+      refundTrxID: payment.refundTrxID,
+      amount: String(req.body.amount),
+      currency: 'BDT',
+      charge: '0.00',
+      statusCode: '0000',
+      statusMessage: 'Successful'
+    });
+  });
+
+  // Stands in for the bKash hosted page the customer is sent to
+  router.get('/checkout/:paymentID', (req, res) => {
+    const payment = payments.get(req.params.paymentID);
+    if (!payment) {
+      res.status(404).send('Unknown payment');
+      return;
+    }
+
+    const link = (status: string) => `${req.baseUrl}/checkout/${payment.paymentID}/${status}`;
+    res.send(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+  <h2>bKash (mock)</h2>
+  <p>Invoice ${payment.merchantInvoiceNumber}: ৳${payment.amount}</p>
+  <p><a href="${link('success')}">Pay</a> · <a href="${link('failure')}">Fail</a> · <a href="${link('cancel')}">Cancel</a></p>
+</body></html>`);
+  });
+
+  router.get('/checkout/:paymentID/:status', (req, res) => {
+    const payment = payments.get(req.params.paymentID);
+    const status = req.params.status;
+    if (!payment || !['success', 'failure', 'cancel'].includes(status)) {
+      res.status(404).send('Unknown payment');
+      return;
+    }
+
+    if (payment.transactionStatus === 'Initiated') {
+      payment.transactionStatus = status === 'success' ? 'Authorized' : status === 'cancel' ? 'Cancelled' : 'Failed';
+    }
+
+    const callback = new URL(payment.callbackURL);
+    callback.searchParams.set('paymentID', payment.paymentID);
+    callback.searchParams.set('status', status);
+    res.redirect(callback.toString());
+  });
+
+  return router;
+}
@@ -0,0 +1,563 @@
+/**
+ * Course payments
+ * Each payment pays one installment of a course enrollment (./pricing).
+ * Starts bKash checkouts, settles them from the bKash callback, records
+ * manual Nagad/Rocket payments for an admin to verify, and refunds. Status
+ * changes go through the `settle_payment` / `refund_payment` database
+ * functions (database-payments.sql) so the payment record, the student's
+ * enrollment and the `payment_events` log change together.
+ */
+
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError } from '../http';
+import { BkashError, type BkashGateway, type BkashPaymentStatus } from './bkash';
+import type { PricingService } from './pricing';
+
+export type PaymentMethod = 'bkash' | 'nagad' | 'rocket';
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+
+export interface PaymentRecordRow {
+  id: string;
+  user_id: string;
+  payment_id: string;
+  payment_ref: string | null;
+  amount: number;
+  method: PaymentMethod;
+  status: PaymentStatus;
+  phone_number: string | null;
+  transaction_id: string | null;
+  installment_id: string | null;
+  verification_notes: string | null;
+  verified_by: string | null;
+  verified_at: string | null;
+  refunded_by: string | null;
+  refunded_at: string | null;
+  refund_reason: string | null;
+  refund_reference: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Who caused a payment event
+export type PaymentEventSource = 'system' | 'bkash-callback' | 'admin' | 'reconciliation';
+
+export interface PaymentEventRow {
+  id: number;
+  payment_id: string;
+  user_id: string | null;
+  event_type: string;
+  from_status: PaymentStatus | null;
+  to_status: PaymentStatus | null;
+  transaction_id: string | null;
+  amount: number | null;
+  actor_id: string | null;
+  source: PaymentEventSource;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export type NewPaymentEvent = Pick<PaymentEventRow, 'payment_id' | 'event_type' | 'source'>
+  & Partial<Pick<PaymentEventRow, 'user_id' | 'from_status' | 'to_status' | 'transaction_id' | 'amount' | 'actor_id' | 'details'>>;
+
+export interface ManualPaymentInput {
+  installmentId: string;
+  method: Exclude<PaymentMethod, 'bkash'>;
+  transactionId: string;
+  phoneNumber: string;
+}
+
+export type ManualPaymentMethod = ManualPaymentInput['method'];
+
+export interface ManualPaymentQueueRow extends PaymentRecordRow {
+  users: {
+    email: string;
+    display_name: string | null;
+    first_name: string | null;
+    last_name: string | null;
+  } | null;
+}
+
+export interface ManualPaymentQueueFilter {
+  status: PaymentStatus;
+  method?: ManualPaymentMethod;
+  page: number;
+  pageSize: number;
+}
+
+export type ManualPaymentDecision = 'approve' | 'reject';
+
+export interface PaymentServiceOptions {
+  // Public origin of the app; bKash sends the customer back here
+  appUrl: string;
+  // Called after a payment settles as paid, e.g. to send the receipt; must not throw
+  onPaid?: (payment: PaymentRecordRow) => void;
+}
+
+export type CheckoutOutcome = 'success' | 'failed' | 'cancelled' | 'pending';
+
+// Postgres unique_violation: the transaction id was already submitted, or
+// the installment already has an open payment
+const UNIQUE_VIOLATION = '23505';
+// database-pricing.sql: one pending or paid payment per installment
+const OPEN_INSTALLMENT_PAYMENT_INDEX = 'idx_payment_records_installment_open';
+// Raised by refund_payment for payments that are not paid
+const CHECK_VIOLATION = '23514';
+
+const MANUAL_PAYMENT_METHODS: ManualPaymentMethod[] = ['nagad', 'rocket'];
+
+export class PaymentService {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private gateway: BkashGateway | null,
+    private pricing: PricingService,
+    private options: PaymentServiceOptions
+  ) {}
+
+  /**
+   * Create a bKash payment for an installment and return the page the
+   * customer must visit to authorize it
+   */
+  async startBkashPayment(userId: string, installmentId: string): Promise<{ paymentID: string; bkashURL: string }> {
+    const gateway = this.requireGateway();
+    const db = this.requireDb();
+    const installment = await this.pricing.getPayableInstallment(userId, installmentId);
+    await this.releaseInstallment(installment.id);
+
+    const invoiceNumber = `ALP-${Date.now().toString(36).toUpperCase()}-${randomUUID().slice(0, 4).toUpperCase()}`;
+    const amount = installment.amount.toFixed(2);
+
+    let payment;
+    try {
+      payment = await gateway.createPayment({
+        amount,
+        payerReference: userId,
+        callbackURL: `${this.options.appUrl}/api/bkash/callback`,
+        merchantInvoiceNumber: invoiceNumber
+      });
+    } catch (error) {
+      throw this.gatewayError('create bKash payment', error);
+    }
+
+    const { error } = await db.from('payment_records').insert({
+      user_id: userId,
+      payment_id: payment.paymentID,
+      payment_ref: invoiceNumber,
+      amount: installment.amount,
+      method: 'bkash',
+      status: 'pending',
+      installment_id: installment.id
+    });
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw openPaymentError();
+      }
+      console.error('❌ Failed to record bKash payment:', error.message);
+      throw new Error('Failed to record payment');
+    }
+
+    console.log(`💳 bKash payment ${payment.paymentID} started for ${userId}`);
+    return { paymentID: payment.paymentID, bkashURL: payment.bkashURL };
+  }
+
+  /**
+   * Handle the customer returning from bKash. The `status` query parameter is
+   * only a hint from an unauthenticated redirect, so the outcome is always
+   * confirmed with bKash before the payment is settled.
+   */
+  async handleBkashCallback(paymentID: string, status: string): Promise<CheckoutOutcome> {
+    const gateway = this.requireGateway();
+    const db = this.requireDb();
+
+    const { data: record, error } = await db
+      .from('payment_records')
+      .select('*')
+      .eq('payment_id', paymentID)
+      .eq('method', 'bkash')
+      .maybeSingle<PaymentRecordRow>();
+
+    if (error) {
+      console.error('❌ Failed to load bKash payment:', error.message);
+      throw new Error('Failed to load payment');
+    }
+    if (!record) {
+      throw new ApiError(404, 'not-found', 'Payment not found');
+    }
+
+    // bKash retried the callback or the customer reloaded the page
+    if (record.status !== 'pending') {
+      await this.recordEvent({
+        payment_id: paymentID,
+        user_id: record.user_id,
+        event_type: 'duplicate',
+        from_status: record.status,
+        to_status: record.status,
+        source: 'bkash-callback',
+        details: { callback_status: status }
+      });
+      return outcomeOf(record.status);
+    }
+
+    return this.confirmBkashPayment(gateway, record, status === 'success', 'bkash-callback');
+  }
+
+  /**
+   * Record a Nagad/Rocket payment the student made by hand; it stays pending
+   * until an admin matches the transaction id against the merchant statement
+   */
+  async submitManualPayment(userId: string, input: ManualPaymentInput): Promise<PaymentRecordRow> {
+    const db = this.requireDb();
+    const installment = await this.pricing.getPayableInstallment(userId, input.installmentId);
+    await this.releaseInstallment(installment.id);
+
+    const { data, error } = await db
+      .from('payment_records')
+      .insert({
+        user_id: userId,
+        payment_id: `${input.method}-${randomUUID()}`,
+        amount: installment.amount,
+        method: input.method,
+        status: 'pending',
+        phone_number: input.phoneNumber,
+        transaction_id: input.transactionId,
+        installment_id: installment.id
+      })
+      .select('*')
+      .single<PaymentRecordRow>();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw error.message.includes(OPEN_INSTALLMENT_PAYMENT_INDEX)
+          ? openPaymentError()
+          : new ApiError(409, 'duplicate-transaction', 'This transaction id is already claimed by another payment; if it is yours, contact support');
+      }
+      console.error('❌ Failed to record manual payment:', error.message);
+      throw new Error('Failed to record payment');
+    }
+
+    console.log(`🧾 ${input.method} payment ${data.payment_id} submitted by ${userId} for verification`);
+    return data;
+  }
+
+  /**
+   * Manual payments for the admin verification queue with the submitting
+   * student's contact details. Pending ones come oldest first, reviewed ones
+   * newest first.
+   */
+  async listManualPayments(filter: ManualPaymentQueueFilter): Promise<{ rows: ManualPaymentQueueRow[]; total: number }> {
+    const offset = (filter.page - 1) * filter.pageSize;
+    const { data, error, count } = await this.requireDb()
+      .from('payment_records')
+      .select('*, users!payment_records_user_id_fkey (email, display_name, first_name, last_name)', { count: 'exact' })
+      .in('method', filter.method ? [filter.method] : MANUAL_PAYMENT_METHODS)
+      .eq('status', filter.status)
+      .order('created_at', { ascending: filter.status === 'pending' })
+      .range(offset, offset + filter.pageSize - 1);
+
+    if (error) {
+      console.error('❌ Failed to load manual payments:', error.message);
+      throw new Error('Failed to load manual payments');
+    }
+    return { rows: (data ?? []) as ManualPaymentQueueRow[], total: count ?? 0 };
+  }
+
+  /**
+   * Approve or reject a pending manual payment after checking the transaction
+   * id against the merchant statement. Approval enrolls the student.
+   */
+  async reviewManualPayment(paymentId: string, decision: ManualPaymentDecision, reviewerId: string, notes: string | null): Promise<PaymentRecordRow> {
+    const { data: record, error } = await this.requireDb()
+      .from('payment_records')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .maybeSingle<PaymentRecordRow>();
+
+    if (error) {
+      console.error('❌ Failed to load manual payment:', error.message);
+      throw new Error('Failed to load payment');
+    }
+    if (!record || !MANUAL_PAYMENT_METHODS.includes(record.method as ManualPaymentMethod)) {
+      throw new ApiError(404, 'not-found', 'Payment not found');
+    }
+    if (record.status !== 'pending') {
+      throw new ApiError(409, 'already-reviewed', 'This payment has already been reviewed');
+    }
+
+    const status = decision === 'approve' ? 'paid' : 'failed';
+    const settled = await this.settle(paymentId, status, null, notes, reviewerId, 'admin');
+
+    // Another admin settled it between our read and the update
+    if (settled.verified_by !== reviewerId || settled.status !== status) {
+      throw new ApiError(409, 'already-reviewed', 'This payment has already been reviewed');
+    }
+
+    console.log(`🧾 ${record.method} payment ${paymentId} ${decision === 'approve' ? 'approved' : 'rejected'} by ${reviewerId}`);
+    return settled;
+  }
+
+  /**
+   * Refund a paid payment and revoke the student's enrollment. bKash payments
+   * are refunded through bKash; Nagad/Rocket refunds are sent by hand and the
+   * admin supplies the send-money reference.
+   */
+  async refundPayment(paymentId: string, adminId: string, reason: string, reference: string | null): Promise<PaymentRecordRow> {
+    const db = this.requireDb();
+    const { data: record, error } = await db
+      .from('payment_records')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .maybeSingle<PaymentRecordRow>();
+
+    if (error) {
+      console.error('❌ Failed to load payment for refund:', error.message);
+      throw new Error('Failed to load payment');
+    }
+    if (!record) {
+      throw new ApiError(404, 'not-found', 'Payment not found');
+    }
+    if (record.status !== 'paid') {
+      throw new ApiError(409, 'not-refundable', 'Only paid payments can be refunded');
+    }
+
+    let refundReference = reference;
+    if (record.method === 'bkash') {
+      if (!record.transaction_id) {
+        throw new ApiError(409, 'not-refundable', 'This bKash payment has no transaction id to refund');
+      }
+      try {
+        const refund = await this.requireGateway().refundPayment({
+          paymentID: record.payment_id,
+          trxID: record.transaction_id,
+          amount: Number(record.amount).toFixed(2),
+          reason
+        });
+        refundReference = refund.refundTrxID;
+      } catch (error) {
+        await this.recordEvent({
+          payment_id: paymentId,
+          user_id: record.user_id,
+          event_type: 'refund-failed',
+          actor_id: adminId,
+          source: 'admin',
+          details: { reason, error: error instanceof Error ? error.message : String(error) }
+        });
+        throw this.gatewayError('refund bKash payment', error);
+      }
+    } else if (!refundReference) {
+      throw new ApiError(400, 'invalid-request', 'Enter the transaction id of the refund you sent');
+    }
+
+    const { data, error: refundError } = await db.rpc('refund_payment', {
+      p_payment_id: paymentId,
+      p_refunded_by: adminId,
+      p_reason: reason,
+      p_reference: refundReference
+    });
+
+    if (refundError) {
+      if (refundError.code === CHECK_VIOLATION) {
+        throw new ApiError(409, 'not-refundable', 'Only paid payments can be refunded');
+      }
+      // The money has already gone back through bKash; reconciliation will flag the record
+      console.error(`❌ Refund ${refundReference} for ${paymentId} was sent but not recorded:`, refundError.message);
+      throw new Error('Failed to record refund');
+    }
+
+    console.log(`↩️ Payment ${paymentId} refunded by ${adminId} (${refundReference})`);
+    return data as PaymentRecordRow;
+  }
+
+  /**
+   * Full history of one payment, oldest first
+   */
+  async listEvents(paymentId: string): Promise<PaymentEventRow[]> {
+    const { data, error } = await this.requireDb()
+      .from('payment_events')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .order('created_at')
+      .order('id');
+
+    if (error) {
+      console.error('❌ Failed to load payment events:', error.message);
+      throw new Error('Failed to load payment events');
+    }
+    return (data ?? []) as PaymentEventRow[];
+  }
+
+  /**
+   * Append to the payment event log. Losing an audit entry must not fail the
+   * request that produced it, so errors are only logged.
+   */
+  async recordEvent(event: NewPaymentEvent): Promise<void> {
+    const { error } = await this.requireDb().from('payment_events').insert(event);
+    if (error) {
+      console.error(`❌ Failed to log ${event.event_type} event for ${event.payment_id}:`, error.message);
+    }
+  }
+
+  /**
+   * Move a pending payment to its final status, enrolling the student when paid.
+   * Already-settled payments come back unchanged.
+   *
+   * @param verifiedBy admin who reviewed a manual payment
+   */
+  async settle(
+    paymentId: string,
+    status: Exclude<PaymentStatus, 'pending'>,
+    transactionId: string | null,
+    notes: string | null,
+    verifiedBy: string | null,
+    source: PaymentEventSource
+  ): Promise<PaymentRecordRow> {
+    const { data, error } = await this.requireDb().rpc('settle_payment', {
+      p_payment_id: paymentId,
+      p_status: status,
+      p_transaction_id: transactionId,
+      p_notes: notes,
+      p_verified_by: verifiedBy,
+      p_source: source
+    });
+
+    if (error) {
+      console.error(`❌ Failed to settle payment ${paymentId}:`, error.message);
+      throw new Error('Failed to settle payment');
+    }
+
+    const record = data as PaymentRecordRow;
+    if (status === 'paid' && record.status === 'paid') {
+      this.options.onPaid?.(record);
+    }
+    return record;
+  }
+
+  /**
+   * Confirm a pending bKash payment with bKash and settle it to match. Only
+   * an executed payment takes the customer's money, so `execute` is set when
+   * the customer has just authorized it.
+   */
+  private async confirmBkashPayment(
+    gateway: BkashGateway,
+    record: PaymentRecordRow,
+    execute: boolean,
+    source: PaymentEventSource
+  ): Promise<CheckoutOutcome> {
+    const paymentID = record.payment_id;
+    let result: BkashPaymentStatus;
+    try {
+      result = execute
+        ? await this.executeOrQuery(gateway, paymentID)
+        : await gateway.queryPayment(paymentID);
+    } catch (error) {
+      throw this.gatewayError('confirm bKash payment', error);
+    }
+
+    if (result.transactionStatus === 'Completed') {
+      if (Number(result.amount) !== Number(record.amount)) {
+        console.error(`❌ bKash payment ${paymentID} amount ${result.amount} does not match ${record.amount}`);
+        await this.settle(paymentID, 'failed', result.trxID ?? null, `Amount mismatch: bKash reported ${result.amount}`, null, source);
+        return 'failed';
+      }
+
+      // A concurrent callback for the same transaction may have settled it first
+      const settled = await this.settle(paymentID, 'paid', result.trxID ?? null, null, null, source);
+      console.log(`✅ bKash payment ${paymentID} completed (${result.trxID})`);
+      return outcomeOf(settled.status);
+    }
+
+    // Still waiting on the customer; leave it pending
+    if (result.transactionStatus === 'Initiated') {
+      return 'pending';
+    }
+
+    await this.settle(paymentID, 'failed', null, `bKash ${result.transactionStatus}`, null, source);
+    return result.transactionStatus === 'Cancelled' ? 'cancelled' : 'failed';
+  }
+
+  /**
+   * Make way for a new payment of an installment. A pending manual payment
+   * blocks it until an admin has reviewed it; a bKash checkout the student
+   * abandoned is failed so it can never be executed alongside the new one.
+   * The unique index on open installment payments backs this up.
+   */
+  private async releaseInstallment(installmentId: string): Promise<void> {
+    const { data, error } = await this.requireDb()
+      .from('payment_records')
+      .select('*')
+      .eq('installment_id', installmentId)
+      .in('status', ['pending', 'paid']);
+
+    if (error) {
+      console.error('❌ Failed to load installment payments:', error.message);
+      throw new Error('Failed to load payments');
+    }
+
+    for (const record of (data ?? []) as PaymentRecordRow[]) {
+      if (record.status === 'paid') {
+        throw new ApiError(409, 'already-paid', 'This installment has already been paid');
+      }
+      if (record.method !== 'bkash') {
+        throw openPaymentError();
+      }
+
+      const outcome = await this.confirmBkashPayment(this.requireGateway(), record, false, 'system');
+      if (outcome === 'success') {
+        throw new ApiError(409, 'already-paid', 'This installment has already been paid');
+      }
+      if (outcome === 'pending') {
+        // The customer may have authorized it meanwhile, in which case it stays paid
+        const superseded = await this.settle(record.payment_id, 'failed', null, 'Superseded by a new payment', null, 'system');
+        if (superseded.status === 'paid') {
+          throw new ApiError(409, 'already-paid', 'This installment has already been paid');
+        }
+        console.log(`💳 bKash payment ${record.payment_id} superseded by a new payment`);
+      }
+    }
+  }
+
+  /**
+   * Execute an authorized payment. If execution errors (e.g. it already ran
+   * for an earlier callback that timed out), ask bKash for the current state.
+   */
+  private async executeOrQuery(gateway: BkashGateway, paymentID: string): Promise<BkashPaymentStatus> {
+    try {
+      return await gateway.executePayment(paymentID);
+    } catch (error) {
+      if (!(error instanceof BkashError)) throw error;
+      console.warn(`⚠️ bKash execute failed for ${paymentID} (${error.statusCode}); querying status`);
+      return gateway.queryPayment(paymentID);
+    }
+  }
+
+  private gatewayError(action: string, error: unknown): Error {
+    if (error instanceof BkashError) {
+      console.error(`❌ Failed to ${action}: [${error.statusCode}] ${error.message}`);
+      return new ApiError(502, 'payment-provider-error', 'bKash could not process the payment, please try again');
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  private requireGateway(): BkashGateway {
+    if (!this.gateway) {
+      throw new ApiError(503, 'unavailable', 'bKash payments are not available right now');
+    }
+    return this.gateway;
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Payments are not configured on the server');
+    }
+    return db;
+  }
+}
+
+function openPaymentError(): ApiError {
+  return new ApiError(409, 'payment-pending', 'Another payment for this installment is still being processed');
+}
+
+function outcomeOf(status: PaymentStatus): CheckoutOutcome {
+  if (status === 'paid' || status === 'refunded') return 'success';
+  return status === 'pending' ? 'pending' : 'failed';
+}
@@ -0,0 +1,382 @@
+/**
+ * Course pricing
+ * Prices enrollments (product, optional installment plan, optional coupon),
+ * creates them with their installment schedule through the
+ * `create_enrollment` database function (database-pricing.sql), and decides
+ * from the installments whether a student may attend live classes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError } from '../http';
+import {
+  buildInstallmentSchedule,
+  couponDiscount,
+  enrollmentStatus,
+  listPrice,
+  nextInstallment,
+  type Coupon,
+  type CouponPayload,
+  type CouponUpdate,
+  type CourseAccess,
+  type CourseEnrollment,
+  type CourseProduct,
+  type EnrollmentInstallment,
+  type EnrollmentRequest,
+  type EnrollmentStatus,
+  type InstallmentPlan,
+  type PriceQuote
+} from '@shared/pricing';
+
+// Postgres unique_violation: an open enrollment for the product already exists
+const UNIQUE_VIOLATION = '23505';
+// Raised by create_enrollment when the coupon ran out or expired meanwhile
+const CHECK_VIOLATION = '23514';
+
+const ENROLLMENT_COLUMNS = '*, course_products (title, title_bn, level), enrollment_installments (*)';
+
+// Which enrollment speaks for a student who has several for the same level
+const STATUS_PRIORITY: EnrollmentStatus[] = ['active', 'suspended', 'pending'];
+
+interface PricedEnrollment {
+  quote: PriceQuote;
+  plan: InstallmentPlan | null;
+  coupon: Coupon | null;
+}
+
+export class PricingService {
+  constructor(private getDb: () => SupabaseClient | null) {}
+
+  /**
+   * Active products with their active installment plans, in catalog order
+   */
+  async listCatalog(): Promise<CourseProduct[]> {
+    const { data, error } = await this.requireDb()
+      .from('course_products')
+      .select('id, slug, title, title_bn, description_bn, level, price, installment_plans (*)')
+      .eq('is_active', true)
+      .order('sort_order');
+
+    if (error) {
+      console.error('❌ Failed to load course catalog:', error.message);
+      throw new Error('Failed to load course catalog');
+    }
+
+    return (data ?? []).map(product => ({
+      ...product,
+      price: Number(product.price),
+      installment_plans: (product.installment_plans as (InstallmentPlan & { is_active: boolean })[])
+        .filter(plan => plan.is_active)
+        .map(({ is_active, ...plan }) => ({ ...plan, installment_amount: Number(plan.installment_amount) }))
+        .sort((a, b) => a.installment_count - b.installment_count)
+    }));
+  }
+
+  /**
+   * Price an enrollment without creating it, for the registration page
+   */
+  async quote(request: EnrollmentRequest): Promise<PriceQuote> {
+    return (await this.price(request)).quote;
+  }
+
+  /**
+   * Enroll a student in a product. The first installment is due at once;
+   * nothing is unlocked until it is paid.
+   */
+  async enroll(userId: string, request: EnrollmentRequest): Promise<CourseEnrollment> {
+    const { quote, plan, coupon } = await this.price(request);
+    const db = this.requireDb();
+
+    const { data, error } = await db.rpc('create_enrollment', {
+      p_user_id: userId,
+      p_product_id: quote.product_id,
+      p_plan_id: quote.plan_id,
+      p_coupon_id: coupon?.id ?? null,
+      p_list_price: quote.list_price,
+      p_discount: quote.discount,
+      p_grace_days: plan?.grace_days ?? 0,
+      p_installments: quote.installments
+    });
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ApiError(409, 'already-enrolled', 'You are already enrolled in this course');
+      }
+      if (error.code === CHECK_VIOLATION) {
+        throw new ApiError(409, 'coupon-unavailable', 'This coupon is no longer available');
+      }
+      console.error('❌ Failed to create enrollment:', error.message);
+      throw new Error('Failed to create enrollment');
+    }
+
+    console.log(`🎓 ${userId} enrolled in ${quote.product_id} for ৳${quote.total} in ${quote.installments.length} installment(s)`);
+    return this.getEnrollment(data.id);
+  }
+
+  /**
+   * A student's enrollments, newest first, with their current status
+   */
+  async listEnrollments(userId: string): Promise<CourseEnrollment[]> {
+    const { data, error } = await this.requireDb()
+      .from('course_enrollments')
+      .select(ENROLLMENT_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load enrollments:', error.message);
+      throw new Error('Failed to load enrollments');
+    }
+    return (data ?? []).map(toEnrollment);
+  }
+
+  /**
+   * Whether a student may attend live classes of a level (`null`: any level).
+   * Always computed from the installments, so an overdue installment cuts
+   * access the moment its grace period ends and paying it restores access.
+   */
+  async getAccess(userId: string, level: number | null): Promise<CourseAccess> {
+    const enrollments = (await this.listEnrollments(userId))
+      .filter(enrollment => enrollment.status !== 'cancelled')
+      .filter(enrollment => level === null || enrollment.course_products?.level === level);
+
+    for (const status of STATUS_PRIORITY) {
+      const enrollment = enrollments.find(candidate => candidate.status === status);
+      if (enrollment) {
+        return {
+          allowed: status === 'active',
+          status,
+          enrollment_id: enrollment.id,
+          next_installment: nextInstallment(enrollment)
+        };
+      }
+    }
+    return { allowed: false, status: 'none', enrollment_id: null, next_installment: null };
+  }
+
+  /**
+   * The installment a student is about to pay, checked to be theirs and unpaid
+   */
+  async getPayableInstallment(userId: string, installmentId: string): Promise<EnrollmentInstallment> {
+    const { data, error } = await this.requireDb()
+      .from('enrollment_installments')
+      .select('*, course_enrollments!inner (user_id, status)')
+      .eq('id', installmentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to load installment:', error.message);
+      throw new Error('Failed to load installment');
+    }
+
+    const { course_enrollments: enrollment, ...installment } = data ?? {};
+    if (!data || enrollment.user_id !== userId) {
+      throw new ApiError(404, 'not-found', 'Installment not found');
+    }
+    if (enrollment.status === 'cancelled') {
+      throw new ApiError(409, 'enrollment-cancelled', 'This enrollment has been cancelled');
+    }
+    if (installment.status !== 'pending') {
+      throw new ApiError(409, 'already-paid', 'This installment has already been paid');
+    }
+    return { ...installment, amount: Number(installment.amount) } as EnrollmentInstallment;
+  }
+
+  /**
+   * Store the computed status on every open enrollment, so admin views and
+   * reports show suspensions. Returns how many changed.
+   */
+  async syncEnrollmentStatuses(now = new Date()): Promise<number> {
+    const db = this.requireDb();
+    const { data, error } = await db
+      .from('course_enrollments')
+      .select('id, status, grace_days, enrollment_installments (sequence, status, due_date)')
+      .neq('status', 'cancelled');
+
+    if (error) {
+      console.error('❌ Failed to load enrollments for status sync:', error.message);
+      throw new Error('Failed to load enrollments');
+    }
+
+    let changed = 0;
+    for (const row of data ?? []) {
+      const status = enrollmentStatus(row, now);
+      if (status === row.status) continue;
+
+      const { error: updateError } = await db
+        .from('course_enrollments')
+        .update({ status })
+        .eq('id', row.id)
+        .neq('status', 'cancelled');
+
+      if (updateError) {
+        console.error(`❌ Failed to update enrollment ${row.id}:`, updateError.message);
+        continue;
+      }
+      if (status === 'suspended') {
+        console.log(`⏸️ Enrollment ${row.id} suspended for an overdue installment`);
+      }
+      changed++;
+    }
+    return changed;
+  }
+
+  async listCoupons(page: number, pageSize: number): Promise<{ rows: Coupon[]; total: number }> {
+    const offset = (page - 1) * pageSize;
+    const { data, error, count } = await this.requireDb()
+      .from('coupons')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error('❌ Failed to load coupons:', error.message);
+      throw new Error('Failed to load coupons');
+    }
+    return { rows: (data ?? []).map(toCoupon), total: count ?? 0 };
+  }
+
+  async createCoupon(payload: CouponPayload, adminId: string): Promise<Coupon> {
+    const { data, error } = await this.requireDb()
+      .from('coupons')
+      .insert({ ...payload, created_by: adminId })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ApiError(409, 'duplicate-coupon', 'A coupon with this code already exists');
+      }
+      console.error('❌ Failed to create coupon:', error.message);
+      throw new Error('Failed to create coupon');
+    }
+
+    console.log(`🏷️ Coupon ${data.code} created by ${adminId}`);
+    return toCoupon(data);
+  }
+
+  async updateCoupon(id: string, updates: CouponUpdate): Promise<Coupon> {
+    const { data, error } = await this.requireDb()
+      .from('coupons')
+      .update(updates)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to update coupon:', error.message);
+      throw new Error('Failed to update coupon');
+    }
+    if (!data) {
+      throw new ApiError(404, 'not-found', 'Coupon not found');
+    }
+    return toCoupon(data);
+  }
+
+  private async getEnrollment(id: string): Promise<CourseEnrollment> {
+    const { data, error } = await this.requireDb()
+      .from('course_enrollments')
+      .select(ENROLLMENT_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to load enrollment:', error.message);
+      throw new Error('Failed to load enrollment');
+    }
+    return toEnrollment(data);
+  }
+
+  private async price(request: EnrollmentRequest): Promise<PricedEnrollment> {
+    const product = (await this.listCatalog()).find(candidate => candidate.id === request.product_id);
+    if (!product) {
+      throw new ApiError(404, 'not-found', 'Course not found');
+    }
+
+    let plan: InstallmentPlan | null = null;
+    if (request.plan_id) {
+      plan = product.installment_plans.find(candidate => candidate.id === request.plan_id) ?? null;
+      if (!plan) {
+        throw new ApiError(404, 'not-found', 'Installment plan not found');
+      }
+    }
+
+    const coupon = request.coupon_code ? await this.findCoupon(request.coupon_code, product.id) : null;
+    const price = listPrice(product, plan);
+    const discount = coupon ? couponDiscount(price, coupon) : 0;
+    // Every installment must come to at least one taka to be payable
+    if (plan && plan.installment_count > price - discount) {
+      throw new ApiError(400, 'invalid-plan', 'The discounted price is too small to pay in installments; pay at once');
+    }
+
+    return {
+      plan,
+      coupon,
+      quote: {
+        product_id: product.id,
+        plan_id: plan?.id ?? null,
+        coupon_code: coupon?.code ?? null,
+        list_price: price,
+        discount,
+        total: price - discount,
+        installments: buildInstallmentSchedule(price - discount, plan, new Date())
+      }
+    };
+  }
+
+  private async findCoupon(code: string, productId: string): Promise<Coupon> {
+    const { data, error } = await this.requireDb()
+      .from('coupons')
+      .select('*')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Failed to load coupon:', error.message);
+      throw new Error('Failed to load coupon');
+    }
+
+    const coupon = data ? toCoupon(data) : null;
+    const now = Date.now();
+    if (
+      !coupon ||
+      !coupon.is_active ||
+      (coupon.product_id && coupon.product_id !== productId) ||
+      (coupon.starts_at && Date.parse(coupon.starts_at) > now)
+    ) {
+      throw new ApiError(400, 'invalid-coupon', 'This coupon code is not valid');
+    }
+    if (coupon.expires_at && Date.parse(coupon.expires_at) <= now) {
+      throw new ApiError(400, 'invalid-coupon', 'This coupon has expired');
+    }
+    if (coupon.max_uses !== null && coupon.used_count >= coupon.max_uses) {
+      throw new ApiError(400, 'invalid-coupon', 'This coupon has been used up');
+    }
+    return coupon;
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Payments are not configured on the server');
+    }
+    return db;
+  }
+}
+
+// Normalise DECIMAL columns to numbers
+function toCoupon(row: any): Coupon {
+  return { ...row, discount_value: Number(row.discount_value) };
+}
+
+function toEnrollment(row: any): CourseEnrollment {
+  const enrollment: CourseEnrollment = {
+    ...row,
+    list_price: Number(row.list_price),
+    discount: Number(row.discount),
+    total: Number(row.total),
+    enrollment_installments: (row.enrollment_installments ?? [])
+      .map((installment: EnrollmentInstallment) => ({ ...installment, amount: Number(installment.amount) }))
+      .sort((a: EnrollmentInstallment, b: EnrollmentInstallment) => a.sequence - b.sequence)
+  };
+  return { ...enrollment, status: enrollmentStatus(enrollment) };
+}
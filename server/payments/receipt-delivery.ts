@@ -0,0 +1,96 @@
+/**
+ * Receipt delivery
+ * Sends the receipt link by email (Resend HTTP API) and SMS (a Bangladeshi
+ * bulk-SMS gateway that takes a JSON POST). Each channel is optional; an
+ * unconfigured channel is skipped so development works without credentials.
+ */
+
+export interface ReceiptEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface ReceiptSms {
+  to: string;
+  message: string;
+}
+
+export interface ReceiptDelivery {
+  // Resolves false when the channel is not configured
+  sendEmail(email: ReceiptEmail): Promise<boolean>;
+  sendSms(sms: ReceiptSms): Promise<boolean>;
+}
+
+export class ReceiptDeliveryError extends Error {
+  constructor(public readonly channel: 'email' | 'sms', public readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'ReceiptDeliveryError';
+  }
+}
+
+const RESEND_URL = 'https://api.resend.com/emails';
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/**
+ * Local numbers (01XXXXXXXXX) in the 8801XXXXXXXXX form SMS gateways expect
+ */
+export function toInternationalNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('880')) return digits;
+  return digits.startsWith('0') ? `88${digits}` : `880${digits}`;
+}
+
+/**
+ * Delivery configured from RESEND_API_KEY / RECEIPT_EMAIL_FROM and
+ * SMS_API_URL / SMS_API_KEY / SMS_SENDER_ID
+ */
+export function createReceiptDelivery(): ReceiptDelivery {
+  return {
+    async sendEmail(email) {
+      const apiKey = process.env.RESEND_API_KEY;
+      const from = process.env.RECEIPT_EMAIL_FROM;
+      if (!apiKey || !from) {
+        console.warn('⚠️ RESEND_API_KEY or RECEIPT_EMAIL_FROM not set; receipt email skipped');
+        return false;
+      }
+
+      const response = await fetch(RESEND_URL, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, to: [email.to], subject: email.subject, html: email.html, text: email.text }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new ReceiptDeliveryError('email', response.status, await response.text());
+      }
+      return true;
+    },
+
+    async sendSms(sms) {
+      const url = process.env.SMS_API_URL;
+      const apiKey = process.env.SMS_API_KEY;
+      if (!url || !apiKey) {
+        console.warn('⚠️ SMS_API_URL or SMS_API_KEY not set; receipt SMS skipped');
+        return false;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          api_key: apiKey,
+          senderid: process.env.SMS_SENDER_ID,
+          number: toInternationalNumber(sms.to),
+          message: sms.message
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new ReceiptDeliveryError('sms', response.status, await response.text());
+      }
+      return true;
+    }
+  };
+}
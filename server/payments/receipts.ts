@@ -0,0 +1,411 @@
+/**
+ * Payment receipts
+ * Every paid payment gets a receipt with a sequential invoice number
+ * (`issue_payment_receipt` in database-receipts.sql). Receipts render as a
+ * printable HTML page in Bangla or English, can be downloaded from the
+ * student's profile, and are sent as a signed link by email and SMS so a
+ * parent who paid can open it without an account.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError } from '../http';
+import type { SignalingIdentity } from '../auth';
+import type { PaymentMethod, PaymentStatus } from './payment-service';
+import type { ReceiptDelivery } from './receipt-delivery';
+
+export type ReceiptLanguage = 'bn' | 'en';
+
+export interface PaymentReceiptRow {
+  id: string;
+  invoice_number: string;
+  payment_id: string;
+  user_id: string;
+  issued_at: string;
+  amount: number;
+  method: PaymentMethod;
+  transaction_id: string | null;
+  payment_ref: string | null;
+  student_name: string;
+  student_email: string | null;
+  student_phone: string | null;
+  payer_phone: string | null;
+  course_title: string | null;
+  course_title_bn: string | null;
+  installment_sequence: number | null;
+  installment_count: number | null;
+  delivery_claimed_at: string | null;
+  emailed_at: string | null;
+  sms_sent_at: string | null;
+}
+
+export interface ReceiptDocument {
+  receipt: PaymentReceiptRow;
+  // Current status of the payment; refunded receipts are stamped as such
+  paymentStatus: PaymentStatus;
+}
+
+export interface ReceiptServiceOptions {
+  // Public origin of the app; receipt links sent by email and SMS point here
+  appUrl: string;
+}
+
+interface ReceiptWithPayment extends PaymentReceiptRow {
+  payment_records: { status: PaymentStatus } | null;
+}
+
+const PLATFORM_NAME: Record<ReceiptLanguage, string> = {
+  bn: 'আরবি শিক্ষা',
+  en: 'Arabic Learning Platform'
+};
+
+const METHOD_NAMES: Record<ReceiptLanguage, Record<PaymentMethod, string>> = {
+  bn: { bkash: 'বিকাশ', nagad: 'নগদ', rocket: 'রকেট' },
+  en: { bkash: 'bKash', nagad: 'Nagad', rocket: 'Rocket' }
+};
+
+const LABELS = {
+  bn: {
+    title: 'পেমেন্ট রসিদ',
+    invoice: 'রসিদ নম্বর',
+    issued: 'তারিখ',
+    student: 'শিক্ষার্থী',
+    email: 'ইমেইল',
+    phone: 'মোবাইল',
+    course: 'কোর্স',
+    installment: 'কিস্তি',
+    fullPayment: 'এককালীন পরিশোধ',
+    method: 'পেমেন্ট পদ্ধতি',
+    transaction: 'ট্রানজেকশন আইডি',
+    payer: 'প্রেরক নম্বর',
+    reference: 'রেফারেন্স',
+    amount: 'পরিশোধিত অর্থ',
+    refunded: 'ফেরত দেওয়া হয়েছে',
+    footer: 'এই রসিদটি কম্পিউটারে তৈরি, স্বাক্ষরের প্রয়োজন নেই।',
+    print: 'প্রিন্ট / PDF হিসেবে সংরক্ষণ'
+  },
+  en: {
+    title: 'Payment Receipt',
+    invoice: 'Invoice No.',
+    issued: 'Date',
+    student: 'Student',
+    email: 'Email',
+    phone: 'Mobile',
+    course: 'Course',
+    installment: 'Installment',
+    fullPayment: 'Paid in full',
+    method: 'Payment method',
+    transaction: 'Transaction ID',
+    payer: 'Paid from',
+    reference: 'Reference',
+    amount: 'Amount paid',
+    refunded: 'Refunded',
+    footer: 'This is a computer-generated receipt and needs no signature.',
+    print: 'Print / Save as PDF'
+  }
+} satisfies Record<ReceiptLanguage, Record<string, string>>;
+
+const BENGALI_DIGITS = '০১২৩৪৫৬৭৮৯';
+
+function toBengaliDigits(value: string): string {
+  return value.replace(/[0-9]/g, digit => BENGALI_DIGITS[Number(digit)]);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatAmount(amount: number, lang: ReceiptLanguage): string {
+  const value = Number(amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return lang === 'bn' ? `৳${toBengaliDigits(value)}` : `BDT ${value}`;
+}
+
+// Receipts show Bangladesh time whatever zone the server runs in
+function formatIssuedAt(issuedAt: string, lang: ReceiptLanguage): string {
+  return new Intl.DateTimeFormat(lang === 'bn' ? 'bn-BD' : 'en-GB', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: 'Asia/Dhaka'
+  }).format(new Date(issuedAt));
+}
+
+/**
+ * Printable receipt page. Invoice numbers and transaction ids stay in Latin
+ * digits in both languages so they can be matched against statements.
+ */
+export function renderReceiptHtml({ receipt, paymentStatus }: ReceiptDocument, lang: ReceiptLanguage): string {
+  const labels = LABELS[lang];
+  const number = (value: number) => lang === 'bn' ? toBengaliDigits(String(value)) : String(value);
+
+  const course = lang === 'bn' ? receipt.course_title_bn ?? receipt.course_title : receipt.course_title ?? receipt.course_title_bn;
+  const installment = receipt.installment_sequence && receipt.installment_count && receipt.installment_count > 1
+    ? `${number(receipt.installment_sequence)} / ${number(receipt.installment_count)}`
+    : labels.fullPayment;
+
+  const rows: [string, string | null][] = [
+    [labels.student, receipt.student_name],
+    [labels.email, receipt.student_email],
+    [labels.phone, receipt.student_phone],
+    [labels.course, course],
+    [labels.installment, installment],
+    [labels.method, METHOD_NAMES[lang][receipt.method]],
+    [labels.transaction, receipt.transaction_id],
+    [labels.payer, receipt.payer_phone],
+    [labels.reference, receipt.payment_ref]
+  ];
+
+  const tableRows = rows
+    .filter((row): row is [string, string] => !!row[1])
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n          ');
+
+  return `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(labels.title)} ${escapeHtml(receipt.invoice_number)}</title>
+  <style>
+    body { font-family: 'Hind Siliguri', 'Noto Sans Bengali', Arial, sans-serif; color: #1f2937; margin: 0; padding: 24px; background: #f3f4f6; }
+    .receipt { max-width: 640px; margin: 0 auto; background: #fff; border-top: 6px solid #059669; padding: 32px; position: relative; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 24px; }
+    h1 { margin: 0; font-size: 22px; color: #059669; }
+    h2 { margin: 4px 0 0; font-size: 16px; font-weight: normal; color: #6b7280; }
+    .meta { text-align: right; font-size: 14px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 8px 0; border-bottom: 1px solid #e5e7eb; font-size: 14px; vertical-align: top; }
+    th { width: 40%; color: #6b7280; font-weight: normal; }
+    .total { display: flex; justify-content: space-between; margin-top: 20px; font-size: 18px; font-weight: bold; }
+    .stamp { position: absolute; top: 40%; left: 50%; transform: translate(-50%, -50%) rotate(-15deg); border: 4px solid #dc2626; color: #dc2626; font-size: 32px; font-weight: bold; padding: 8px 24px; opacity: 0.6; }
+    footer { margin-top: 32px; font-size: 12px; color: #9ca3af; text-align: center; }
+    .print { display: block; margin: 16px auto 0; padding: 10px 20px; background: #059669; color: #fff; border: 0; border-radius: 6px; font-size: 14px; cursor: pointer; }
+    @media print {
+      body { background: #fff; padding: 0; }
+      .print { display: none; }
+    }
+  </style>
+</head>
+<body>
+  <div class="receipt">
+    <header>
+      <div>
+        <h1>${escapeHtml(PLATFORM_NAME[lang])}</h1>
+        <h2>${escapeHtml(labels.title)}</h2>
+      </div>
+      <div class="meta">
+        <div>${escapeHtml(labels.invoice)}: <strong>${escapeHtml(receipt.invoice_number)}</strong></div>
+        <div>${escapeHtml(labels.issued)}: ${escapeHtml(formatIssuedAt(receipt.issued_at, lang))}</div>
+      </div>
+    </header>
+    ${paymentStatus === 'refunded' ? `<div class="stamp">${escapeHtml(labels.refunded)}</div>` : ''}
+    <table>
+      <tbody>
+          ${tableRows}
+      </tbody>
+    </table>
+    <div class="total">
+      <span>${escapeHtml(labels.amount)}</span>
+      <span>${escapeHtml(formatAmount(receipt.amount, lang))}</span>
+    </div>
+    <footer>${escapeHtml(labels.footer)}</footer>
+  </div>
+  <button class="print" onclick="window.print()">${escapeHtml(labels.print)}</button>
+</body>
+</html>`;
+}
+
+// Read per call so a rotated value is picked up without a restart
+function getReceiptLinkSecret(): string | undefined {
+  return process.env.RECEIPT_LINK_SECRET || process.env.SUPABASE_JWT_SECRET;
+}
+
+function signInvoice(secret: string, invoiceNumber: string): string {
+  return createHmac('sha256', secret).update(`receipt:${invoiceNumber}`).digest('base64url');
+}
+
+export class ReceiptService {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private delivery: ReceiptDelivery,
+    private options: ReceiptServiceOptions
+  ) {}
+
+  /**
+   * The student's receipts, newest first
+   */
+  async listForUser(userId: string): Promise<PaymentReceiptRow[]> {
+    const { data, error } = await this.requireDb()
+      .from('payment_receipts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('issued_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load receipts:', error.message);
+      throw new Error('Failed to load receipts');
+    }
+    return (data ?? []) as PaymentReceiptRow[];
+  }
+
+  /**
+   * A receipt for its owner or an admin. Other users get 404 rather than 403
+   * so invoice numbers cannot be probed.
+   */
+  async getForViewer(invoiceNumber: string, viewer: SignalingIdentity): Promise<ReceiptDocument> {
+    const receiptDocument = await this.load(invoiceNumber);
+    if (receiptDocument.receipt.user_id !== viewer.userId && viewer.role !== 'admin') {
+      throw new ApiError(404, 'not-found', 'Receipt not found');
+    }
+    return receiptDocument;
+  }
+
+  /**
+   * A receipt opened from the link in the email or SMS
+   */
+  async getBySignature(invoiceNumber: string, signature: string): Promise<ReceiptDocument> {
+    const secret = getReceiptLinkSecret();
+    if (!secret) {
+      throw new ApiError(503, 'unavailable', 'Receipt links are not configured on the server');
+    }
+
+    const expected = Buffer.from(signInvoice(secret, invoiceNumber));
+    const provided = Buffer.from(signature);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      throw new ApiError(404, 'not-found', 'Receipt not found');
+    }
+    return this.load(invoiceNumber);
+  }
+
+  /**
+   * Link that opens the receipt without signing in
+   */
+  linkFor(invoiceNumber: string, lang: ReceiptLanguage): string | null {
+    const secret = getReceiptLinkSecret();
+    if (!secret) return null;
+    const query = new URLSearchParams({ lang, sig: signInvoice(secret, invoiceNumber) });
+    return `${this.options.appUrl}/api/receipts/${encodeURIComponent(invoiceNumber)}/view?${query}`;
+  }
+
+  /**
+   * Email and text the receipt for a paid payment. Delivery is claimed on the
+   * receipt row first, so repeated calls for the same payment (bKash
+   * callback retries, a second admin click) send it only once.
+   */
+  async deliver(paymentId: string): Promise<void> {
+    const db = this.requireDb();
+
+    // The settle trigger has normally issued it already; this returns that one
+    const { data: issued, error: issueError } = await db.rpc('issue_payment_receipt', { p_payment_id: paymentId });
+    if (issueError) {
+      console.error(`❌ Failed to issue receipt for ${paymentId}:`, issueError.message);
+      throw new Error('Failed to issue receipt');
+    }
+    if (!issued?.invoice_number) return;
+
+    const { data: claimed, error: claimError } = await db
+      .from('payment_receipts')
+      .update({ delivery_claimed_at: new Date().toISOString() })
+      .eq('payment_id', paymentId)
+      .is('delivery_claimed_at', null)
+      .select('*')
+      .maybeSingle<PaymentReceiptRow>();
+
+    if (claimError) {
+      console.error(`❌ Failed to claim receipt delivery for ${paymentId}:`, claimError.message);
+      throw new Error('Failed to deliver receipt');
+    }
+    if (!claimed) return;
+
+    const bnLink = this.linkFor(claimed.invoice_number, 'bn');
+    const enLink = this.linkFor(claimed.invoice_number, 'en');
+    if (!bnLink || !enLink) {
+      console.warn(`⚠️ RECEIPT_LINK_SECRET not set; receipt ${claimed.invoice_number} not sent`);
+      return;
+    }
+
+    if (claimed.student_email) {
+      await this.sendChannel(claimed, 'emailed_at', () => this.delivery.sendEmail({
+        to: claimed.student_email!,
+        subject: `পেমেন্ট রসিদ / Payment receipt ${claimed.invoice_number}`,
+        html: `<p>আসসালামু আলাইকুম ${escapeHtml(claimed.student_name)},</p>
+<p>আপনার ${escapeHtml(formatAmount(claimed.amount, 'bn'))} পেমেন্ট গৃহীত হয়েছে। রসিদ নম্বর <strong>${escapeHtml(claimed.invoice_number)}</strong>।</p>
+<p><a href="${escapeHtml(bnLink)}">বাংলায় রসিদ দেখুন</a> · <a href="${escapeHtml(enLink)}">View receipt in English</a></p>`,
+        text: `আপনার ${formatAmount(claimed.amount, 'bn')} পেমেন্ট গৃহীত হয়েছে। রসিদ ${claimed.invoice_number}\n\nবাংলা: ${bnLink}\nEnglish: ${enLink}`
+      }));
+    }
+
+    // Text both the student and whoever paid (often a parent), once each
+    const phones = [claimed.payer_phone, claimed.student_phone]
+      .filter((phone, index, all): phone is string => !!phone && all.indexOf(phone) === index);
+    if (phones.length > 0) {
+      await this.sendChannel(claimed, 'sms_sent_at', async () => {
+        let sent = false;
+        for (const phone of phones) {
+          sent = await this.delivery.sendSms({
+            to: phone,
+            message: `${PLATFORM_NAME.bn}: ${formatAmount(claimed.amount, 'bn')} পেমেন্ট গৃহীত। রসিদ ${claimed.invoice_number}: ${bnLink}`
+          }) || sent;
+        }
+        return sent;
+      });
+    }
+  }
+
+  /**
+   * Run one delivery channel and stamp the receipt when it went out. A
+   * failing channel is logged and does not stop the other.
+   */
+  private async sendChannel(
+    receipt: PaymentReceiptRow,
+    column: 'emailed_at' | 'sms_sent_at',
+    send: () => Promise<boolean>
+  ): Promise<void> {
+    try {
+      if (!(await send())) return;
+    } catch (error) {
+      console.error(`❌ Failed to send receipt ${receipt.invoice_number} (${column}):`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    const { error } = await this.requireDb()
+      .from('payment_receipts')
+      .update({ [column]: new Date().toISOString() })
+      .eq('id', receipt.id);
+    if (error) {
+      console.error(`❌ Failed to record ${column} for receipt ${receipt.invoice_number}:`, error.message);
+    }
+    console.log(`📨 Receipt ${receipt.invoice_number} sent (${column === 'emailed_at' ? 'email' : 'SMS'})`);
+  }
+
+  private async load(invoiceNumber: string): Promise<ReceiptDocument> {
+    const { data, error } = await this.requireDb()
+      .from('payment_receipts')
+      .select('*, payment_records (status)')
+      .eq('invoice_number', invoiceNumber)
+      .maybeSingle<ReceiptWithPayment>();
+
+    if (error) {
+      console.error('❌ Failed to load receipt:', error.message);
+      throw new Error('Failed to load receipt');
+    }
+    if (!data) {
+      throw new ApiError(404, 'not-found', 'Receipt not found');
+    }
+
+    const { payment_records: payment, ...receipt } = data;
+    return { receipt, paymentStatus: payment?.status ?? 'paid' };
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Payments are not configured on the server');
+    }
+    return db;
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * Payment reconciliation
+ * Compares a provider statement (CSV export from the bKash, Nagad or Rocket
+ * merchant portal) with `payment_records` and stores what does not line up.
+ * Statements can be uploaded by an admin or dropped into an inbox directory
+ * that ReconciliationJob sweeps every night.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ApiError } from '../http';
+import type { PaymentMethod, PaymentService, PaymentStatus } from './payment-service';
+
+export interface StatementEntry {
+  transactionId: string;
+  amount: number;
+  occurredAt: Date | null;
+  counterparty: string | null;
+  // 1-based row number (header is row 1, blank lines not counted)
+  line: number;
+}
+
+export type DiscrepancyKind =
+  // Money arrived but no payment record claims the transaction
+  | 'missing-record'
+  // A paid record in the statement period is not in the statement
+  | 'not-in-statement'
+  | 'amount-mismatch'
+  // The statement shows the money but the record is pending or failed
+  | 'status-mismatch';
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  transactionId: string | null;
+  paymentId: string | null;
+  statementAmount?: number;
+  recordAmount?: number;
+  recordStatus?: PaymentStatus;
+  line?: number;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  method: PaymentMethod;
+  file_name: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  statement_rows: number;
+  matched: number;
+  discrepancies: Discrepancy[];
+  imported_by: string | null;
+  created_at: string;
+}
+
+interface RecordSummary {
+  payment_id: string;
+  user_id: string;
+  transaction_id: string | null;
+  amount: number;
+  status: PaymentStatus;
+}
+
+// Merchant portals name columns differently; headers are matched after
+// lowercasing and dropping everything but letters and digits
+const COLUMN_ALIASES = {
+  transactionId: ['trxid', 'transactionid', 'txnid', 'trxno', 'transactionno', 'transactionreference'],
+  amount: ['amount', 'transactionamount', 'amountbdt', 'creditamount', 'receivedamount'],
+  occurredAt: ['date', 'datetime', 'transactiondate', 'transactiontime', 'time', 'createdat'],
+  counterparty: ['sender', 'from', 'customer', 'customermsisdn', 'msisdn', 'account', 'fromaccount', 'wallet']
+};
+
+const RECORD_LOOKUP_CHUNK = 200;
+
+// Amounts are in taka with paisa; compare at paisa precision
+const amountsMatch = (a: number, b: number) => Math.round(a * 100) === Math.round(b * 100);
+
+export class ReconciliationService {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private payments: PaymentService
+  ) {}
+
+  /**
+   * Reconcile one statement and store the report. Every discrepancy tied to a
+   * payment record is also written to that payment's event log.
+   */
+  async reconcile(method: PaymentMethod, csv: string, options: { fileName?: string; importedBy?: string } = {}): Promise<ReconciliationReport> {
+    const db = this.requireDb();
+    const entries = parseStatementCsv(csv);
+    const period = statementPeriod(entries);
+
+    const records = await this.loadRecords(db, method, entries, period);
+    const byTransaction = new Map(records.filter(r => r.transaction_id).map(r => [r.transaction_id!, r]));
+    const seen = new Set<string>();
+    const discrepancies: Discrepancy[] = [];
+    let matched = 0;
+
+    for (const entry of entries) {
+      seen.add(entry.transactionId);
+      const record = byTransaction.get(entry.transactionId);
+
+      if (!record) {
+        discrepancies.push({ kind: 'missing-record', transactionId: entry.transactionId, paymentId: null, statementAmount: entry.amount, line: entry.line });
+      } else if (record.status !== 'paid' && record.status !== 'refunded') {
+        discrepancies.push({ kind: 'status-mismatch', transactionId: entry.transactionId, paymentId: record.payment_id, statementAmount: entry.amount, recordAmount: Number(record.amount), recordStatus: record.status, line: entry.line });
+      } else if (!amountsMatch(entry.amount, Number(record.amount))) {
+        discrepancies.push({ kind: 'amount-mismatch', transactionId: entry.transactionId, paymentId: record.payment_id, statementAmount: entry.amount, recordAmount: Number(record.amount), recordStatus: record.status, line: entry.line });
+      } else {
+        matched++;
+      }
+    }
+
+    for (const record of records) {
+      if (record.status === 'paid' && (!record.transaction_id || !seen.has(record.transaction_id))) {
+        discrepancies.push({ kind: 'not-in-statement', transactionId: record.transaction_id, paymentId: record.payment_id, recordAmount: Number(record.amount), recordStatus: record.status });
+      }
+    }
+
+    const { data: report, error } = await db
+      .from('payment_reconciliations')
+      .insert({
+        method,
+        file_name: options.fileName ?? null,
+        period_start: period?.start.toISOString() ?? null,
+        period_end: period?.end.toISOString() ?? null,
+        statement_rows: entries.length,
+        matched,
+        discrepancies,
+        imported_by: options.importedBy ?? null
+      })
+      .select('*')
+      .single<ReconciliationReport>();
+
+    if (error) {
+      console.error('❌ Failed to store reconciliation report:', error.message);
+      throw new Error('Failed to store reconciliation report');
+    }
+
+    const userByPayment = new Map(records.map(r => [r.payment_id, r.user_id]));
+    for (const discrepancy of discrepancies) {
+      if (!discrepancy.paymentId) continue;
+      await this.payments.recordEvent({
+        payment_id: discrepancy.paymentId,
+        user_id: userByPayment.get(discrepancy.paymentId) ?? null,
+        event_type: 'reconciliation-mismatch',
+        transaction_id: discrepancy.transactionId,
+        actor_id: options.importedBy ?? null,
+        source: 'reconciliation',
+        details: { reconciliation_id: report.id, ...discrepancy }
+      });
+    }
+
+    console.log(`📊 Reconciled ${entries.length} ${method} statement rows: ${matched} matched, ${discrepancies.length} discrepancies`);
+    return report;
+  }
+
+  async listReports(page: number, pageSize: number): Promise<{ rows: ReconciliationReport[]; total: number }> {
+    const offset = (page - 1) * pageSize;
+    const { data, error, count } = await this.requireDb()
+      .from('payment_reconciliations')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error('❌ Failed to load reconciliation reports:', error.message);
+      throw new Error('Failed to load reconciliation reports');
+    }
+    return { rows: (data ?? []) as ReconciliationReport[], total: count ?? 0 };
+  }
+
+  /**
+   * Records named in the statement, plus paid records created during the
+   * statement period (to find payments the provider has no trace of)
+   */
+  private async loadRecords(
+    db: SupabaseClient,
+    method: PaymentMethod,
+    entries: StatementEntry[],
+    period: { start: Date; end: Date } | null
+  ): Promise<RecordSummary[]> {
+    const columns = 'payment_id, user_id, transaction_id, amount, status';
+    const records = new Map<string, RecordSummary>();
+    const ids = entries.map(entry => entry.transactionId);
+
+    for (let i = 0; i < ids.length; i += RECORD_LOOKUP_CHUNK) {
+      const { data, error } = await db
+        .from('payment_records')
+        .select(columns)
+        .eq('method', method)
+        .in('transaction_id', ids.slice(i, i + RECORD_LOOKUP_CHUNK));
+      if (error) throw lookupError(error.message);
+      for (const row of (data ?? []) as RecordSummary[]) records.set(row.payment_id, row);
+    }
+
+    if (period) {
+      const { data, error } = await db
+        .from('payment_records')
+        .select(columns)
+        .eq('method', method)
+        .eq('status', 'paid')
+        .gte('created_at', period.start.toISOString())
+        .lte('created_at', period.end.toISOString());
+      if (error) throw lookupError(error.message);
+      for (const row of (data ?? []) as RecordSummary[]) records.set(row.payment_id, row);
+    }
+
+    return Array.from(records.values());
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Payments are not configured on the server');
+    }
+    return db;
+  }
+}
+
+/**
+ * Imports statements dropped into an inbox directory once a night. Files must
+ * be named `<method>-<anything>.csv` (e.g. `bkash-2025-01-31.csv`) and are
+ * moved to `processed/` or `failed/` afterwards.
+ */
+export class ReconciliationJob {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private service: ReconciliationService,
+    private inboxDir: string,
+    private runAtHour = 2
+  ) {}
+
+  start(): void {
+    this.scheduleNext();
+    console.log(`🌙 Payment reconciliation scheduled daily at ${this.runAtHour}:00 for ${this.inboxDir}`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reconcile every statement currently in the inbox
+   */
+  async runOnce(): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.inboxDir)).filter(file => file.toLowerCase().endsWith('.csv')).sort();
+    } catch (error) {
+      console.error(`❌ Cannot read statement inbox ${this.inboxDir}:`, (error as Error).message);
+      return;
+    }
+
+    for (const file of files) {
+      const method = file.split('-')[0].toLowerCase();
+      const source = path.join(this.inboxDir, file);
+      let outcome: 'processed' | 'failed' = 'processed';
+
+      try {
+        if (method !== 'bkash' && method !== 'nagad' && method !== 'rocket') {
+          throw new Error('file name must start with bkash-, nagad- or rocket-');
+        }
+        await this.service.reconcile(method, await fs.readFile(source, 'utf8'), { fileName: file });
+      } catch (error) {
+        outcome = 'failed';
+        console.error(`❌ Reconciliation of ${file} failed:`, (error as Error).message);
+      }
+
+      await fs.mkdir(path.join(this.inboxDir, outcome), { recursive: true });
+      await fs.rename(source, path.join(this.inboxDir, outcome, file));
+    }
+  }
+
+  // Chained timeouts rather than a 24h interval so the run stays at the same
+  // local hour across clock changes
+  private scheduleNext(): void {
+    const next = new Date();
+    next.setHours(this.runAtHour, 0, 0, 0);
+    if (next.getTime() <= Date.now()) {
+      next.setDate(next.getDate() + 1);
+    }
+
+    this.timer = setTimeout(() => {
+      this.runOnce()
+        .catch(error => console.error('❌ Nightly reconciliation failed:', error))
+        .finally(() => this.scheduleNext());
+    }, next.getTime() - Date.now());
+    this.timer.unref();
+  }
+}
+
+/**
+ * Parse a statement CSV. Needs a header row with at least a transaction id
+ * and an amount column; rows without a transaction id (totals, blank lines)
+ * are skipped.
+ */
+export function parseStatementCsv(csv: string): StatementEntry[] {
+  const rows = parseCsvRows(csv.replace(/^﻿/, ''));
+  if (rows.length === 0) {
+    throw new ApiError(400, 'invalid-statement', 'The statement is empty');
+  }
+
+  const headers = rows[0].map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const column = (aliases: string[]) => headers.findIndex(header => aliases.includes(header));
+  const transactionColumn = column(COLUMN_ALIASES.transactionId);
+  const amountColumn = column(COLUMN_ALIASES.amount);
+  const dateColumn = column(COLUMN_ALIASES.occurredAt);
+  const counterpartyColumn = column(COLUMN_ALIASES.counterparty);
+
+  if (transactionColumn === -1 || amountColumn === -1) {
+    throw new ApiError(400, 'invalid-statement', 'The statement needs a transaction id column and an amount column');
+  }
+
+  const entries: StatementEntry[] = [];
+  rows.slice(1).forEach((row, index) => {
+    const transactionId = row[transactionColumn]?.trim();
+    if (!transactionId) return;
+
+    const line = index + 2;
+    const amount = Number((row[amountColumn] ?? '').replace(/[^0-9.-]/g, ''));
+    if (!Number.isFinite(amount) || row[amountColumn]?.trim() === '') {
+      throw new ApiError(400, 'invalid-statement', `Line ${line}: amount "${row[amountColumn] ?? ''}" is not a number`);
+    }
+
+    const date = dateColumn === -1 ? null : new Date(row[dateColumn]);
+    entries.push({
+      transactionId,
+      amount,
+      occurredAt: date && !Number.isNaN(date.getTime()) ? date : null,
+      counterparty: counterpartyColumn === -1 ? null : row[counterpartyColumn]?.trim() || null,
+      line
+    });
+  });
+
+  return entries;
+}
+
+function statementPeriod(entries: StatementEntry[]): { start: Date; end: Date } | null {
+  const times = entries
+    .map(entry => entry.occurredAt?.getTime())
+    .filter((time): time is number => time !== undefined);
+  if (times.length === 0) return null;
+  return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) };
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF or LF
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function lookupError(message: string): Error {
+  console.error('❌ Failed to load payment records for reconciliation:', message);
+  return new Error('Failed to load payment records');
+}
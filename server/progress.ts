@@ -0,0 +1,299 @@
+/**
+ * Course progress
+ * Computes each student's progress per module from lessons completed,
+ * class sessions attended for long enough, graded homework and quiz scores,
+ * weighted by `module_progress_weights` (database-progress.sql). Only the
+ * modules of levels the student is enrolled in count. Every
+ * computation refreshes the totals cached on `users`, quiz average included,
+ * through `sync_user_progress`, so screens that read the profile stay in step.
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_PROGRESS_WEIGHTS,
+  weightedPercent,
+  type ComponentProgress,
+  type CourseProgress,
+  type ModuleProgress,
+  type ProgressWeights
+} from '@shared/progress';
+import { ApiError } from './http';
+
+// Postgres foreign_key_violation: unknown module
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const WEIGHT_COLUMNS = 'module_id, lessons_weight, attendance_weight, homework_weight, quiz_weight, min_attendance_minutes';
+
+interface ModuleRow {
+  id: string;
+  title: string;
+  title_bn: string | null;
+  level: number;
+}
+
+interface WeightRow {
+  module_id: string;
+  lessons_weight: number;
+  attendance_weight: number;
+  homework_weight: number;
+  quiz_weight: number;
+  min_attendance_minutes: number;
+}
+
+interface LessonRow {
+  id: string;
+  lesson_type: string;
+  course_units: { module_id: string } | null;
+}
+
+interface AttendanceRow {
+  class_id: string;
+  duration: number;
+}
+
+interface HomeworkRow {
+  class_id: string;
+  status: string;
+  grade: number | null;
+}
+
+export class ProgressService {
+  constructor(private getDb: () => SupabaseClient | null) {}
+
+  /**
+   * The student's progress in every active module of the levels they are
+   * enrolled in, with what each component is made of
+   */
+  async getProgress(userId: string): Promise<CourseProgress> {
+    const db = this.requireDb();
+
+    const enrollments = await this.query<{ course_products: { level: number } | null }>(
+      'load enrollments',
+      db.from('course_enrollments').select('course_products (level)').eq('user_id', userId).neq('status', 'cancelled')
+    );
+    const levels = Array.from(new Set(
+      enrollments.flatMap(row => (row.course_products ? [row.course_products.level] : []))
+    ));
+    if (levels.length === 0) {
+      return this.finish(db, userId, [], 0, 0);
+    }
+
+    const { data: modules, error: modulesError } = await db
+      .from('course_modules')
+      .select('id, title, title_bn, level')
+      .eq('is_active', true)
+      .in('level', levels)
+      .order('order');
+    if (modulesError) throw databaseError('load course modules', modulesError);
+
+    const moduleIds = ((modules ?? []) as ModuleRow[]).map(module => module.id);
+    if (moduleIds.length === 0) {
+      return this.finish(db, userId, [], 0, 0);
+    }
+
+    const [weights, lessons, completions, classes, attendance, homework] = await Promise.all([
+      this.loadWeights(db, moduleIds),
+      this.query<LessonRow>(
+        'load lessons',
+        db.from('lessons')
+          .select('id, lesson_type, course_units!inner (module_id, is_active)')
+          .eq('is_active', true)
+          .eq('course_units.is_active', true)
+          .in('course_units.module_id', moduleIds)
+      ),
+      this.query<{ lesson_id: string; score: number | null }>(
+        'load lesson progress',
+        db.from('lesson_progress').select('lesson_id, score').eq('user_id', userId)
+      ),
+      this.query<{ id: string; module_id: string }>(
+        'load live classes',
+        db.from('live_classes').select('id, module_id').in('module_id', moduleIds)
+      ),
+      this.query<AttendanceRow>(
+        'load class attendance',
+        db.from('class_attendance').select('class_id, duration').eq('user_id', userId)
+      ),
+      this.query<HomeworkRow>(
+        'load homework',
+        db.from('homework_submissions').select('class_id, status, grade').eq('user_id', userId)
+      )
+    ]);
+
+    const classModule: Record<string, string> = {};
+    classes.forEach(row => (classModule[row.id] = row.module_id));
+
+    const classIds = classes.map(row => row.id);
+    const heldSessions = classIds.length > 0
+      ? await this.query<{ class_id: string }>(
+        'load class sessions',
+        db.from('class_sessions').select('class_id').in('class_id', classIds).not('ended_at', 'is', null)
+      )
+      : [];
+
+    const scores: Record<string, number | null> = {};
+    completions.forEach(row => (scores[row.lesson_id] = row.score));
+
+    let classesAttended = 0;
+    let quizzesTotal = 0;
+    let quizPointsTotal = 0;
+    const moduleProgress = ((modules ?? []) as ModuleRow[]).map((module): ModuleProgress => {
+      const moduleWeights = weights[module.id] ?? DEFAULT_PROGRESS_WEIGHTS;
+      const inModule = (classId: string) => classModule[classId] === module.id;
+
+      const moduleLessons = lessons.filter(lesson => lesson.course_units?.module_id === module.id);
+      const readings = moduleLessons.filter(lesson => lesson.lesson_type !== 'quiz');
+      const quizzes = moduleLessons.filter(lesson => lesson.lesson_type === 'quiz');
+      const completedReadings = readings.filter(lesson => lesson.id in scores).length;
+      const quizzesTaken = quizzes.filter(lesson => scores[lesson.id] != null);
+      const quizPoints = quizzesTaken.reduce((sum, lesson) => sum + (scores[lesson.id] as number), 0);
+
+      // Visits from before class sessions existed count as one class each
+      const attended = attendance.filter(row => inModule(row.class_id) && row.duration >= moduleWeights.min_attendance_minutes).length;
+      const held = Math.max(heldSessions.filter(row => inModule(row.class_id)).length, attended);
+      classesAttended += attended;
+      quizzesTotal += quizzes.length;
+      quizPointsTotal += quizPoints;
+
+      const submitted = homework.filter(row => inModule(row.class_id));
+      const graded = submitted.filter(row => row.status === 'graded' && row.grade !== null);
+      const gradePoints = graded.reduce((sum, row) => sum + (row.grade as number), 0);
+
+      const components: ComponentProgress[] = [
+        component('lessons', moduleWeights.lessons, completedReadings, readings.length, percentOf(completedReadings * 100, readings.length)),
+        component('attendance', moduleWeights.attendance, attended, held, percentOf(attended * 100, held)),
+        // Graded work counts by its grade; work not yet graded counts for nothing
+        component('homework', moduleWeights.homework, graded.length, submitted.length, percentOf(gradePoints, graded.length)),
+        // Quizzes not taken yet count as zero
+        component('quiz', moduleWeights.quiz, quizzesTaken.length, quizzes.length, percentOf(quizPoints, quizzes.length))
+      ];
+
+      return {
+        module_id: module.id,
+        title: module.title,
+        title_bn: module.title_bn,
+        level: module.level,
+        percent: weightedPercent(components),
+        components
+      };
+    });
+
+    return this.finish(db, userId, moduleProgress, classesAttended, percentOf(quizPointsTotal, quizzesTotal) ?? 0);
+  }
+
+  /**
+   * A module's weights, or the defaults when none are set
+   */
+  async getWeights(moduleId: string): Promise<ProgressWeights> {
+    const db = this.requireDb();
+    const { data: module, error } = await db.from('course_modules').select('id').eq('id', moduleId).maybeSingle();
+    if (error) throw databaseError('load course module', error);
+    if (!module) throw new ApiError(404, 'not-found', 'Course module not found');
+
+    return (await this.loadWeights(db, [moduleId]))[moduleId] ?? DEFAULT_PROGRESS_WEIGHTS;
+  }
+
+  async setWeights(moduleId: string, weights: ProgressWeights): Promise<ProgressWeights> {
+    const { error } = await this.requireDb()
+      .from('module_progress_weights')
+      .upsert({
+        module_id: moduleId,
+        lessons_weight: weights.lessons,
+        attendance_weight: weights.attendance,
+        homework_weight: weights.homework,
+        quiz_weight: weights.quiz,
+        min_attendance_minutes: weights.min_attendance_minutes,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'module_id' });
+
+    if (error) throw databaseError('save progress weights', error);
+    return weights;
+  }
+
+  private async loadWeights(db: SupabaseClient, moduleIds: string[]): Promise<Record<string, ProgressWeights>> {
+    const rows = await this.query<WeightRow>(
+      'load progress weights',
+      db.from('module_progress_weights').select(WEIGHT_COLUMNS).in('module_id', moduleIds)
+    );
+
+    const weights: Record<string, ProgressWeights> = {};
+    rows.forEach(row => {
+      weights[row.module_id] = {
+        lessons: row.lessons_weight,
+        attendance: row.attendance_weight,
+        homework: row.homework_weight,
+        quiz: row.quiz_weight,
+        min_attendance_minutes: row.min_attendance_minutes
+      };
+    });
+    return weights;
+  }
+
+  /**
+   * Totals the modules and refreshes the cached copy on `users`. A failed
+   * refresh is logged; the computed progress is still returned.
+   */
+  private async finish(
+    db: SupabaseClient,
+    userId: string,
+    modules: ModuleProgress[],
+    classesAttended: number,
+    certificateScore: number
+  ): Promise<CourseProgress> {
+    const measured = modules.filter(module => module.percent !== null);
+    const percent = measured.length > 0
+      ? Math.round(measured.reduce((sum, module) => sum + (module.percent as number), 0) / measured.length)
+      : 0;
+
+    const { error } = await db.rpc('sync_user_progress', {
+      p_user_id: userId,
+      p_course_progress: percent,
+      p_classes_attended: classesAttended,
+      p_certificate_score: certificateScore
+    });
+    if (error) {
+      console.error(`❌ Failed to sync progress of ${userId}:`, error.message);
+    }
+
+    return {
+      user_id: userId,
+      percent,
+      classes_attended: classesAttended,
+      certificate_score: certificateScore,
+      modules,
+      computed_at: new Date().toISOString()
+    };
+  }
+
+  private async query<T>(action: string, query: PromiseLike<{ data: unknown; error: PostgrestError | null }>): Promise<T[]> {
+    const { data, error } = await query;
+    if (error) throw databaseError(action, error);
+    return (data ?? []) as T[];
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Course progress is not configured on the server');
+    }
+    return db;
+  }
+}
+
+function component(name: ComponentProgress['component'], weight: number, done: number, total: number, percent: number | null): ComponentProgress {
+  return { component: name, weight, percent, done, total };
+}
+
+/**
+ * `points` spread over `count` items, capped at 100; null without items
+ */
+function percentOf(points: number, count: number): number | null {
+  return count > 0 ? Math.min(100, Math.round(points / count)) : null;
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError(400, 'invalid-reference', 'Unknown course module');
+  }
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
@@ -0,0 +1,129 @@
+/**
+ * Pronunciation practice
+ * Keeps the scored recordings students make of a lesson's words and
+ * recitations. Audio is scored in the browser; the server only checks that
+ * the text practised belongs to a lesson the student can open and works out
+ * the problem letters itself. Table is in database-pronunciation.sql.
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { DIALECTS } from '@shared/dialects';
+import {
+  practiceTargets,
+  problemLetters,
+  type PronunciationAttempt,
+  type PronunciationAttemptPayload,
+  type PronunciationReviewQuery,
+  type PronunciationReviewRow
+} from '@shared/pronunciation';
+import type { SignalingIdentity } from './auth';
+import type { CurriculumService } from './curriculum';
+import { ApiError } from './http';
+
+// Postgres foreign_key_violation: the lesson was deleted meanwhile
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// A student's own history is short; older attempts live in the review list
+const MAX_OWN_ATTEMPTS = 50;
+
+const ATTEMPT_COLUMNS = 'id, user_id, lesson_id, target_text, scorer, score, letters, problem_letters, duration_ms, created_at';
+
+export class PronunciationService {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private curriculum: CurriculumService
+  ) {}
+
+  /**
+   * Save a scored recording of a word or recitation from a lesson the
+   * student can open
+   */
+  async recordAttempt(identity: SignalingIdentity, payload: PronunciationAttemptPayload): Promise<PronunciationAttempt> {
+    const db = this.requireDb();
+    const lesson = await this.curriculum.getLesson(identity, payload.lesson_id);
+    // Students may practise any dialect's form, not only the one on their profile
+    const practicable = DIALECTS.some(dialect =>
+      practiceTargets(lesson.lesson_type, lesson.content, dialect).some(target => target.text === payload.target_text)
+    );
+    if (!practicable) {
+      throw new ApiError(400, 'not-practicable', 'This text has no reference recording in the lesson');
+    }
+
+    const { data, error } = await db
+      .from('pronunciation_attempts')
+      .insert({
+        user_id: identity.userId,
+        lesson_id: payload.lesson_id,
+        target_text: payload.target_text,
+        scorer: payload.scorer,
+        score: payload.score,
+        letters: payload.letters,
+        problem_letters: problemLetters(payload.letters),
+        duration_ms: payload.duration_ms
+      })
+      .select(ATTEMPT_COLUMNS)
+      .single();
+
+    if (error) throw databaseError('record pronunciation attempt', error);
+
+    console.log(`🎙️ Pronunciation attempt on lesson ${payload.lesson_id} by ${identity.userId}: ${payload.score}`);
+    return data as PronunciationAttempt;
+  }
+
+  /**
+   * The student's latest attempts, optionally for one lesson
+   */
+  async listOwnAttempts(userId: string, lessonId?: string): Promise<PronunciationAttempt[]> {
+    let query = this.requireDb()
+      .from('pronunciation_attempts')
+      .select(ATTEMPT_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_OWN_ATTEMPTS);
+    if (lessonId) {
+      query = query.eq('lesson_id', lessonId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw databaseError('load pronunciation attempts', error);
+    return (data ?? []) as PronunciationAttempt[];
+  }
+
+  /**
+   * Every student's attempts, newest first, for staff to review
+   */
+  async listForReview(filter: PronunciationReviewQuery): Promise<{ rows: PronunciationReviewRow[]; total: number }> {
+    const offset = (filter.page - 1) * filter.page_size;
+    let query = this.requireDb()
+      .from('pronunciation_attempts')
+      .select(`${ATTEMPT_COLUMNS}, users (first_name, last_name, email), lessons (title, title_bn)`, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + filter.page_size - 1);
+    if (filter.user_id) {
+      query = query.eq('user_id', filter.user_id);
+    }
+    if (filter.lesson_id) {
+      query = query.eq('lesson_id', filter.lesson_id);
+    }
+
+    const { data, error, count } = await query;
+    if (error) throw databaseError('load pronunciation attempts for review', error);
+    return { rows: (data ?? []) as unknown as PronunciationReviewRow[], total: count ?? 0 };
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Pronunciation practice is not configured on the server');
+    }
+    return db;
+  }
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError(400, 'invalid-reference', 'Unknown lesson');
+  }
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
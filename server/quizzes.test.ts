@@ -0,0 +1,100 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { QuestionContent, QuestionType, QuizQuestion } from '@shared/quizzes';
+import { grade } from './quizzes';
+
+function question(question_type: QuestionType, content: QuestionContent, points = 4): QuizQuestion {
+  return {
+    id: 'question',
+    lesson_id: 'lesson',
+    question_type,
+    prompt_bn: 'প্রশ্ন',
+    prompt_ar: null,
+    content,
+    points,
+    order: 0,
+    is_active: true
+  };
+}
+
+describe('grade', () => {
+  test('gives nothing for a question left out', () => {
+    assert.equal(grade(question('multiple_choice', { options: ['a', 'b'], correct_option: 1 }), undefined), 0);
+  });
+
+  test('gives full points for the right option only', () => {
+    const choice = question('multiple_choice', { options: ['a', 'b', 'c'], correct_option: 2 });
+    assert.equal(grade(choice, { option: 2 }), 4);
+    assert.equal(grade(choice, { option: 0 }), 0);
+  });
+
+  test('gives a harakat question its share per correctly marked letter', () => {
+    // كَتَبَ
+    const harakat = question('harakat', { text: '\u0643\u064E\u062A\u064E\u0628\u064E' }, 3);
+    assert.equal(grade(harakat, { text: '\u0643\u064E\u062A\u064E\u0628\u064E' }), 3);
+    // كَتَبْ
+    assert.equal(grade(harakat, { text: '\u0643\u064E\u062A\u064E\u0628\u0652' }), 2);
+    // Other letters: كَتَمَ
+    assert.equal(grade(harakat, { text: '\u0643\u064E\u062A\u064E\u0645\u064E' }), 0);
+  });
+
+  describe('match', () => {
+    const match = question('match', {
+      pairs: [
+        { arabic: '\u0643\u0650\u062A\u064E\u0627\u0628', meaning_bn: 'বই' },
+        { arabic: '\u0642\u064E\u0644\u064E\u0645', meaning_bn: 'কলম' },
+        { arabic: '\u0628\u064E\u064A\u0652\u062A', meaning_bn: 'ঘর' }
+      ]
+    }, 3);
+
+    test('gives a point per pair matched in prompt order', () => {
+      assert.equal(grade(match, { matches: ['বই', 'কলম', 'ঘর'] }), 3);
+      assert.equal(grade(match, { matches: ['বই', 'ঘর', 'কলম'] }), 1);
+    });
+
+    test('ignores surrounding spaces and counts missing matches as wrong', () => {
+      assert.equal(grade(match, { matches: [' বই ', 'কলম'] }), 2);
+      assert.equal(grade(match, {}), 0);
+    });
+
+    test('rounds partial credit to two decimals', () => {
+      const twoPoints = { ...match, points: 2 };
+      assert.equal(grade(twoPoints, { matches: ['বই'] }), 0.67);
+    });
+  });
+
+  describe('order_words', () => {
+    // ذَهَبَ الْوَلَدُ إِلَى الْمَدْرَسَةِ
+    const words = ['\u0630\u064E\u0647\u064E\u0628\u064E', '\u0627\u0644\u0652\u0648\u064E\u0644\u064E\u062F\u064F', '\u0625\u0650\u0644\u064E\u0649', '\u0627\u0644\u0652\u0645\u064E\u062F\u0652\u0631\u064E\u0633\u064E\u0629\u0650'];
+    const order = question('order_words', { words });
+
+    test('gives full points only for the whole sentence in order', () => {
+      assert.equal(grade(order, { words }), 4);
+      assert.equal(grade(order, { words: [words[1], words[0], words[2], words[3]] }), 0);
+      assert.equal(grade(order, { words: words.slice(0, 3) }), 0);
+    });
+
+    test('ignores stray spaces and tatweel between the words', () => {
+      assert.equal(grade(order, { words: [` ${words[0]}`, words[1], `${words[2]}\u0640`, words[3]] }), 4);
+    });
+  });
+
+  describe('free_text', () => {
+    // كِتَاب
+    const freeText = question('free_text', { accepted_answers: ['\u0643\u0650\u062A\u064E\u0627\u0628'], ignore_tashkeel: true });
+
+    test('accepts the letters without harakat when tashkeel is ignored', () => {
+      assert.equal(grade(freeText, { text: '\u0643\u062A\u0627\u0628' }), 4);
+    });
+
+    test('requires the harakat when tashkeel counts', () => {
+      const strict = question('free_text', { accepted_answers: ['\u0643\u0650\u062A\u064E\u0627\u0628'], ignore_tashkeel: false });
+      assert.equal(grade(strict, { text: '\u0643\u062A\u0627\u0628' }), 0);
+      assert.equal(grade(strict, { text: '\u0643\u0650\u062A\u064E\u0627\u0628' }), 4);
+    });
+
+    test('never accepts an empty answer', () => {
+      assert.equal(grade(freeText, { text: '  ' }), 0);
+    });
+  });
+});
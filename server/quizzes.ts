@@ -0,0 +1,479 @@
+/**
+ * Quizzes and exams
+ * Authors keep a pool of questions on each quiz lesson. A student's attempt
+ * draws its questions from the pool, runs against the lesson's time limit
+ * and attempt limit, and is graded here; a passing score completes the
+ * lesson with the best score so far, which feeds course progress and
+ * `users.certificate_score`. Tables are in database-quizzes.sql.
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { QuizContent } from '@shared/curriculum';
+import { harakatAccuracy, normalizeArabic, stripTashkeel } from '@shared/arabic';
+import type {
+  FreeTextContent,
+  HarakatContent,
+  ListenChooseContent,
+  MatchContent,
+  MultipleChoiceContent,
+  OrderWordsContent,
+  QuestionPayload,
+  QuestionResult,
+  QuestionUpdate,
+  QuizAnswer,
+  QuizAttemptResult,
+  QuizAttemptView,
+  QuizOverview,
+  QuizQuestion,
+  QuizQuestionView,
+  QuizSubmission
+} from '@shared/quizzes';
+import { ApiError } from './http';
+import type { SignalingIdentity } from './auth';
+import type { CurriculumService } from './curriculum';
+import type { ProgressService } from './progress';
+
+// Postgres foreign_key_violation: unknown lesson
+const FOREIGN_KEY_VIOLATION = '23503';
+// Postgres unique_violation: an attempt is already open
+const UNIQUE_VIOLATION = '23505';
+
+// Answers sent this long after the time limit still count, to allow for the
+// network
+const SUBMIT_GRACE_MS = 30 * 1000;
+
+const QUESTION_COLUMNS = 'id, lesson_id, question_type, prompt_bn, prompt_ar, content, points, order, is_active';
+const ATTEMPT_COLUMNS = 'id, lesson_id, user_id, question_ids, started_at, expires_at, submitted_at, score, timed_out, results';
+
+interface AttemptRow {
+  id: string;
+  lesson_id: string;
+  user_id: string;
+  question_ids: string[];
+  started_at: string;
+  expires_at: string | null;
+  submitted_at: string | null;
+  score: number | null;
+  timed_out: boolean;
+  results: QuestionResult[] | null;
+}
+
+interface QuizSettings {
+  pass_score: number;
+  time_limit_minutes: number | null;
+  max_attempts: number | null;
+  questions_per_attempt: number | null;
+}
+
+export class QuizService {
+  constructor(
+    private getDb: () => SupabaseClient | null,
+    private curriculum: CurriculumService,
+    private progress: ProgressService
+  ) {}
+
+  /**
+   * The lesson's question pool in order, answer keys included
+   */
+  async listQuestions(lessonId: string): Promise<QuizQuestion[]> {
+    const db = this.requireDb();
+    await this.requireQuizLesson(db, lessonId);
+
+    const { data, error } = await db.from('quiz_questions').select(QUESTION_COLUMNS).eq('lesson_id', lessonId).order('order');
+    if (error) throw databaseError('load quiz questions', error);
+    return (data ?? []) as QuizQuestion[];
+  }
+
+  async createQuestion(lessonId: string, payload: QuestionPayload): Promise<QuizQuestion> {
+    const db = this.requireDb();
+    await this.requireQuizLesson(db, lessonId);
+
+    const { data, error } = await db
+      .from('quiz_questions')
+      .insert({ ...payload, lesson_id: lessonId })
+      .select(QUESTION_COLUMNS)
+      .single();
+
+    if (error) throw databaseError('create quiz question', error);
+    return data as QuizQuestion;
+  }
+
+  async updateQuestion(questionId: string, updates: QuestionUpdate): Promise<QuizQuestion> {
+    const { data, error } = await this.requireDb()
+      .from('quiz_questions')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', questionId)
+      .select(QUESTION_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw databaseError('update quiz question', error);
+    if (!data) throw new ApiError(404, 'not-found', 'Question not found');
+    return data as QuizQuestion;
+  }
+
+  /**
+   * Delete a question; attempts already graded keep their scores
+   */
+  async deleteQuestion(questionId: string): Promise<void> {
+    const { data, error } = await this.requireDb().from('quiz_questions').delete().eq('id', questionId).select('id');
+    if (error) throw databaseError('delete quiz question', error);
+    if (!data || data.length === 0) throw new ApiError(404, 'not-found', 'Question not found');
+  }
+
+  /**
+   * The quiz's rules with the student's attempts so far and the attempt in
+   * progress, if any
+   */
+  async getOverview(identity: SignalingIdentity, lessonId: string): Promise<QuizOverview> {
+    const db = this.requireDb();
+    const settings = await this.openQuiz(identity, lessonId);
+    const attempts = await this.loadAttempts(db, identity.userId, lessonId);
+
+    const { count, error } = await db
+      .from('quiz_questions')
+      .select('id', { count: 'exact', head: true })
+      .eq('lesson_id', lessonId)
+      .eq('is_active', true);
+    if (error) throw databaseError('count quiz questions', error);
+
+    const open = attempts.find(attempt => !attempt.submitted_at);
+    const finished = attempts.filter(attempt => attempt.submitted_at).map(attempt => toResult(attempt, settings));
+    const pool = count ?? 0;
+
+    return {
+      lesson_id: lessonId,
+      pass_score: settings.pass_score,
+      time_limit_minutes: settings.time_limit_minutes,
+      max_attempts: settings.max_attempts,
+      attempts_used: attempts.length,
+      question_count: settings.questions_per_attempt ? Math.min(settings.questions_per_attempt, pool) : pool,
+      best_score: finished.reduce<number | null>((best, attempt) => Math.max(best ?? 0, attempt.score), null),
+      open_attempt: open ? await this.toAttemptView(db, open) : null,
+      attempts: finished
+    };
+  }
+
+  /**
+   * Start an attempt, drawing its questions at random from the pool. An
+   * attempt already in progress is resumed rather than drawn again.
+   */
+  async startAttempt(identity: SignalingIdentity, lessonId: string): Promise<QuizAttemptView> {
+    const db = this.requireDb();
+    const settings = await this.openQuiz(identity, lessonId);
+    const attempts = await this.loadAttempts(db, identity.userId, lessonId);
+
+    const open = attempts.find(attempt => !attempt.submitted_at);
+    if (open) {
+      return this.toAttemptView(db, open);
+    }
+    if (settings.max_attempts !== null && attempts.length >= settings.max_attempts) {
+      throw new ApiError(409, 'attempts-exhausted', 'No attempts left for this quiz');
+    }
+
+    const { data: pool, error: poolError } = await db
+      .from('quiz_questions')
+      .select('id')
+      .eq('lesson_id', lessonId)
+      .eq('is_active', true);
+    if (poolError) throw databaseError('load quiz questions', poolError);
+    if (!pool || pool.length === 0) {
+      throw new ApiError(409, 'no-questions', 'This quiz has no questions yet');
+    }
+
+    const drawn = shuffled(pool.map(row => row.id as string)).slice(0, settings.questions_per_attempt ?? pool.length);
+    const startedAt = new Date();
+    const { data, error } = await db
+      .from('quiz_attempts')
+      .insert({
+        lesson_id: lessonId,
+        user_id: identity.userId,
+        question_ids: drawn,
+        started_at: startedAt.toISOString(),
+        expires_at: settings.time_limit_minutes
+          ? new Date(startedAt.getTime() + settings.time_limit_minutes * 60 * 1000).toISOString()
+          : null
+      })
+      .select(ATTEMPT_COLUMNS)
+      .single();
+
+    if (error) {
+      // Started twice at once; resume the one that won
+      if (error.code !== UNIQUE_VIOLATION) throw databaseError('start quiz attempt', error);
+      const current = (await this.loadAttempts(db, identity.userId, lessonId)).find(attempt => !attempt.submitted_at);
+      if (!current) throw databaseError('start quiz attempt', error);
+      return this.toAttemptView(db, current);
+    }
+
+    console.log(`📝 Quiz attempt ${data.id} on lesson ${lessonId} started by ${identity.userId}`);
+    return this.toAttemptView(db, data as AttemptRow);
+  }
+
+  /**
+   * Grade an attempt. Answers that arrive after the time limit score zero.
+   * A passing score completes the lesson, keeping the best score.
+   */
+  async submitAttempt(identity: SignalingIdentity, attemptId: string, { answers }: QuizSubmission): Promise<QuizAttemptResult> {
+    const db = this.requireDb();
+    const { data: attempt, error: attemptError } = await db
+      .from('quiz_attempts')
+      .select(ATTEMPT_COLUMNS)
+      .eq('id', attemptId)
+      .eq('user_id', identity.userId)
+      .maybeSingle();
+
+    if (attemptError) throw databaseError('load quiz attempt', attemptError);
+    if (!attempt) throw new ApiError(404, 'not-found', 'Quiz attempt not found');
+    if (attempt.submitted_at) throw new ApiError(409, 'already-submitted', 'This attempt has already been submitted');
+
+    const row = attempt as AttemptRow;
+    const lesson = await this.curriculum.getLesson(identity, row.lesson_id);
+    const settings = quizSettings(lesson.content as QuizContent);
+    const questions = await this.loadQuestions(db, row.question_ids);
+
+    const submittedAt = new Date();
+    const timedOut = !!row.expires_at && submittedAt.getTime() > new Date(row.expires_at).getTime() + SUBMIT_GRACE_MS;
+    const results = questions.map((question): QuestionResult => ({
+      question_id: question.id,
+      points: question.points,
+      earned: timedOut ? 0 : grade(question, answers[question.id])
+    }));
+    const score = scoreOf(results);
+
+    const { data: saved, error } = await db
+      .from('quiz_attempts')
+      .update({ submitted_at: submittedAt.toISOString(), score, timed_out: timedOut, answers, results })
+      .eq('id', attemptId)
+      .is('submitted_at', null)
+      .select(ATTEMPT_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw databaseError('submit quiz attempt', error);
+    if (!saved) throw new ApiError(409, 'already-submitted', 'This attempt has already been submitted');
+
+    const result = toResult(saved as AttemptRow, settings);
+    console.log(`📝 Quiz attempt ${attemptId} scored ${score}% for ${identity.userId}`);
+
+    if (result.passed && (lesson.progress?.score ?? -1) < score) {
+      const { error: progressError } = await db
+        .from('lesson_progress')
+        .upsert({ user_id: identity.userId, lesson_id: row.lesson_id, score, completed_at: submittedAt.toISOString() }, { onConflict: 'user_id,lesson_id' });
+      if (progressError) throw databaseError('record quiz score', progressError);
+
+      // Refreshes users.certificate_score; the result stands even if this fails
+      try {
+        await this.progress.getProgress(identity.userId);
+      } catch (progressRefreshError) {
+        console.error(`❌ Failed to refresh progress of ${identity.userId}:`, progressRefreshError);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The quiz lesson's settings, once the caller may open the lesson
+   */
+  private async openQuiz(identity: SignalingIdentity, lessonId: string): Promise<QuizSettings> {
+    const lesson = await this.curriculum.getLesson(identity, lessonId);
+    if (lesson.lesson_type !== 'quiz') {
+      throw new ApiError(400, 'not-a-quiz', 'This lesson is not a quiz');
+    }
+    return quizSettings(lesson.content as QuizContent);
+  }
+
+  private async requireQuizLesson(db: SupabaseClient, lessonId: string): Promise<void> {
+    const { data, error } = await db.from('lessons').select('lesson_type').eq('id', lessonId).maybeSingle();
+    if (error) throw databaseError('load lesson', error);
+    if (!data) throw new ApiError(404, 'not-found', 'Lesson not found');
+    if (data.lesson_type !== 'quiz') {
+      throw new ApiError(400, 'not-a-quiz', 'Questions can only be added to quiz lessons');
+    }
+  }
+
+  /**
+   * The student's attempts at the quiz, newest first. Open attempts whose
+   * time ran out are closed with a score of zero on the way.
+   */
+  private async loadAttempts(db: SupabaseClient, userId: string, lessonId: string): Promise<AttemptRow[]> {
+    const { data, error } = await db
+      .from('quiz_attempts')
+      .select(ATTEMPT_COLUMNS)
+      .eq('user_id', userId)
+      .eq('lesson_id', lessonId)
+      .order('started_at', { ascending: false });
+    if (error) throw databaseError('load quiz attempts', error);
+
+    const attempts = (data ?? []) as AttemptRow[];
+    const now = Date.now();
+    const expired = attempts.filter(attempt => !attempt.submitted_at && attempt.expires_at && new Date(attempt.expires_at).getTime() + SUBMIT_GRACE_MS < now);
+
+    for (const attempt of expired) {
+      const { error: expireError } = await db
+        .from('quiz_attempts')
+        .update({ submitted_at: attempt.expires_at, score: 0, timed_out: true, results: [] })
+        .eq('id', attempt.id)
+        .is('submitted_at', null);
+      if (expireError) throw databaseError('close expired quiz attempt', expireError);
+
+      attempt.submitted_at = attempt.expires_at;
+      attempt.score = 0;
+      attempt.timed_out = true;
+      attempt.results = [];
+    }
+    return attempts;
+  }
+
+  /**
+   * Questions by id, in the order given; deleted questions drop out
+   */
+  private async loadQuestions(db: SupabaseClient, questionIds: string[]): Promise<QuizQuestion[]> {
+    if (questionIds.length === 0) return [];
+    const { data, error } = await db.from('quiz_questions').select(QUESTION_COLUMNS).in('id', questionIds);
+    if (error) throw databaseError('load quiz questions', error);
+
+    const byId: Record<string, QuizQuestion> = {};
+    ((data ?? []) as QuizQuestion[]).forEach(question => (byId[question.id] = question));
+    return questionIds.filter(id => byId[id]).map(id => byId[id]);
+  }
+
+  private async toAttemptView(db: SupabaseClient, attempt: AttemptRow): Promise<QuizAttemptView> {
+    const questions = await this.loadQuestions(db, attempt.question_ids);
+    return {
+      id: attempt.id,
+      lesson_id: attempt.lesson_id,
+      started_at: attempt.started_at,
+      expires_at: attempt.expires_at,
+      questions: questions.map(toQuestionView)
+    };
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Quizzes are not configured on the server');
+    }
+    return db;
+  }
+}
+
+/**
+ * Quiz lessons saved before exams existed have no limits
+ */
+function quizSettings(content: QuizContent): QuizSettings {
+  return {
+    pass_score: content.pass_score ?? 60,
+    time_limit_minutes: content.time_limit_minutes ?? null,
+    max_attempts: content.max_attempts ?? null,
+    questions_per_attempt: content.questions_per_attempt ?? null
+  };
+}
+
+function toResult(attempt: AttemptRow, settings: QuizSettings): QuizAttemptResult {
+  const score = attempt.score ?? 0;
+  return {
+    id: attempt.id,
+    lesson_id: attempt.lesson_id,
+    started_at: attempt.started_at,
+    submitted_at: attempt.submitted_at as string,
+    score,
+    passed: !attempt.timed_out && score >= settings.pass_score,
+    timed_out: attempt.timed_out,
+    questions: attempt.results ?? []
+  };
+}
+
+/**
+ * A question without its answer key, with options, meanings and words
+ * shuffled
+ */
+function toQuestionView(question: QuizQuestion): QuizQuestionView {
+  const base = { id: question.id, prompt_bn: question.prompt_bn, prompt_ar: question.prompt_ar, points: question.points };
+  const indexed = (options: string[]) => shuffled(options.map((text, index) => ({ index, text })));
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+      return { ...base, question_type: 'multiple_choice', options: indexed((question.content as MultipleChoiceContent).options) };
+    case 'listen_choose': {
+      const content = question.content as ListenChooseContent;
+      return { ...base, question_type: 'listen_choose', audio_url: content.audio_url, options: indexed(content.options) };
+    }
+    case 'harakat':
+      return { ...base, question_type: 'harakat', letters: stripTashkeel((question.content as HarakatContent).text) };
+    case 'match': {
+      const { pairs } = question.content as MatchContent;
+      return {
+        ...base,
+        question_type: 'match',
+        prompts: pairs.map(pair => pair.arabic),
+        choices: shuffled(pairs.map(pair => pair.meaning_bn))
+      };
+    }
+    case 'order_words':
+      return { ...base, question_type: 'order_words', words: shuffled((question.content as OrderWordsContent).words) };
+    case 'free_text':
+      return { ...base, question_type: 'free_text' };
+  }
+}
+
+/**
+ * Points earned on one question, to two decimals. Harakat and match
+ * questions earn partial credit.
+ */
+export function grade(question: QuizQuestion, answer: QuizAnswer | undefined): number {
+  if (!answer) return 0;
+  let share = 0;
+
+  switch (question.question_type) {
+    case 'multiple_choice':
+    case 'listen_choose':
+      share = answer.option === (question.content as MultipleChoiceContent | ListenChooseContent).correct_option ? 1 : 0;
+      break;
+    case 'harakat':
+      share = harakatAccuracy((question.content as HarakatContent).text, answer.text ?? '');
+      break;
+    case 'match': {
+      const { pairs } = question.content as MatchContent;
+      const matched = pairs.filter((pair, index) => (answer.matches?.[index] ?? '').trim() === pair.meaning_bn.trim()).length;
+      share = matched / pairs.length;
+      break;
+    }
+    case 'order_words': {
+      const { words } = question.content as OrderWordsContent;
+      share = normalizeArabic((answer.words ?? []).join(' ')) === normalizeArabic(words.join(' ')) ? 1 : 0;
+      break;
+    }
+    case 'free_text': {
+      const content = question.content as FreeTextContent;
+      const options = { ignoreTashkeel: content.ignore_tashkeel };
+      const given = normalizeArabic(answer.text ?? '', options);
+      share = given !== '' && content.accepted_answers.some(accepted => normalizeArabic(accepted, options) === given) ? 1 : 0;
+      break;
+    }
+  }
+  return Math.round(question.points * share * 100) / 100;
+}
+
+function scoreOf(results: QuestionResult[]): number {
+  const total = results.reduce((sum, result) => sum + result.points, 0);
+  const earned = results.reduce((sum, result) => sum + result.earned, 0);
+  return total > 0 ? Math.round((earned / total) * 100) : 0;
+}
+
+function shuffled<T>(items: T[]): T[] {
+  const copy = items.slice();
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    const swap = copy[i];
+    copy[i] = copy[j];
+    copy[j] = swap;
+  }
+  return copy;
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError(400, 'invalid-reference', 'Unknown lesson');
+  }
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
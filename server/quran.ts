@@ -0,0 +1,233 @@
+/**
+ * Quran text
+ * Serves the Quran from the data files in one directory (server/data/quran
+ * ships the text and page map, but no translation or word meanings, for
+ * licensing reasons; see its README), read once and kept in
+ * memory:
+ *   quran-uthmani.txt   the Uthmani text in Tanzil's "sura|aya|text" format (required)
+ *   translation-bn.txt  a Bangla translation in the same format
+ *   words-bn.json       word-by-word meanings, { "1:1": [{ arabic, meaning_bn, transliteration }] }
+ *   pages.json          the first verse key of each of the 604 mushaf pages
+ * Only the text is required; without the others translations, word meanings
+ * or page navigation are left out, which `preload` reports at startup.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  JUZ_STARTS,
+  MUSHAF_PAGES,
+  RECITERS,
+  SURAHS,
+  TOTAL_AYAHS,
+  juzOf,
+  juzRange,
+  parseVerseKey,
+  surahInfo,
+  verseAt,
+  verseIndex,
+  verseKey,
+  type QuranAyah,
+  type QuranAyahQuery,
+  type QuranIndex,
+  type QuranWord
+} from '@shared/quran';
+import { ApiError } from './http';
+
+const TEXT_FILE = 'quran-uthmani.txt';
+const TRANSLATION_FILE = 'translation-bn.txt';
+const WORDS_FILE = 'words-bn.json';
+const PAGES_FILE = 'pages.json';
+
+interface QuranData {
+  // Indexed by `verseIndex`
+  text: string[];
+  translation: string[] | null;
+  words: Record<string, QuranWord[]> | null;
+  // `verseIndex` of the first ayah of each page
+  pageStarts: number[] | null;
+}
+
+export interface QuranOptions {
+  dataDir: string;
+  // Where the recitations are served from, in the layout of `ayahAudioUrl`
+  audioBaseUrl: string;
+}
+
+export class QuranService {
+  private data: Promise<QuranData> | null = null;
+
+  constructor(private options: QuranOptions) {}
+
+  /**
+   * Read the data files now rather than on the first request, so a missing
+   * or broken file shows up when the server starts
+   */
+  async preload(): Promise<void> {
+    await this.load();
+  }
+
+  async getIndex(): Promise<QuranIndex> {
+    const data = await this.load();
+    return {
+      surahs: SURAHS,
+      juz_starts: JUZ_STARTS,
+      has_pages: data.pageStarts !== null,
+      has_translation: data.translation !== null,
+      has_words: data.words !== null,
+      audio_base_url: this.options.audioBaseUrl,
+      reciters: RECITERS
+    };
+  }
+
+  /**
+   * The ayahs of a surah (or a range in it), a juz or a mushaf page, in order
+   */
+  async getAyahs(query: QuranAyahQuery): Promise<QuranAyah[]> {
+    const data = await this.load();
+
+    let first: number;
+    let last: number;
+    if (query.surah !== undefined) {
+      const surah = surahInfo(query.surah)!;
+      first = verseIndex({ surah: surah.number, ayah: query.from ?? 1 });
+      last = verseIndex({ surah: surah.number, ayah: query.to ?? surah.ayah_count });
+    } else if (query.juz !== undefined) {
+      const { from, to } = juzRange(query.juz);
+      first = verseIndex(from);
+      last = verseIndex(to);
+    } else {
+      if (!data.pageStarts) {
+        throw new ApiError(503, 'unavailable', 'Mushaf page numbers are not installed on the server');
+      }
+      const page = query.page as number;
+      first = data.pageStarts[page - 1];
+      last = page === MUSHAF_PAGES ? TOTAL_AYAHS - 1 : data.pageStarts[page] - 1;
+    }
+
+    const ayahs: QuranAyah[] = [];
+    for (let index = first; index <= last; index++) {
+      const ref = verseAt(index);
+      const key = verseKey(ref);
+      ayahs.push({
+        key,
+        surah: ref.surah,
+        ayah: ref.ayah,
+        juz: juzOf(ref),
+        page: data.pageStarts ? pageOf(data.pageStarts, index) : null,
+        text: data.text[index],
+        translation_bn: data.translation?.[index] ?? null,
+        words: data.words?.[key] ?? []
+      });
+    }
+    return ayahs;
+  }
+
+  private load(): Promise<QuranData> {
+    if (!this.data) {
+      // A failed load is retried on the next request, once the files are fixed
+      this.data = readQuranData(this.options.dataDir).catch((error) => {
+        this.data = null;
+        throw error;
+      });
+    }
+    return this.data;
+  }
+}
+
+async function readQuranData(dataDir: string): Promise<QuranData> {
+  const text = await readOptional(join(dataDir, TEXT_FILE));
+  if (text === null) {
+    throw new ApiError(503, 'unavailable', 'The Quran text is not installed on the server');
+  }
+
+  const [translation, words, pages] = await Promise.all([
+    readOptional(join(dataDir, TRANSLATION_FILE)),
+    readOptional(join(dataDir, WORDS_FILE)),
+    readOptional(join(dataDir, PAGES_FILE))
+  ]);
+
+  const data: QuranData = {
+    text: parseTanzil(text, TEXT_FILE),
+    translation: translation === null ? null : parseTanzil(translation, TRANSLATION_FILE),
+    words: words === null ? null : parseJson<Record<string, QuranWord[]>>(words, WORDS_FILE),
+    pageStarts: pages === null ? null : parsePages(pages)
+  };
+
+  const extras = [data.translation && 'translation', data.words && 'word meanings', data.pageStarts && 'pages'].filter(Boolean);
+  console.log(`📖 Quran text loaded from ${dataDir}${extras.length > 0 ? ` with ${extras.join(', ')}` : ''}`);
+  const missing = [!data.translation && TRANSLATION_FILE, !data.words && WORDS_FILE, !data.pageStarts && PAGES_FILE].filter(Boolean);
+  if (missing.length > 0) {
+    console.warn(`⚠️ Quran data files missing from ${dataDir}: ${missing.join(', ')}`);
+  }
+  return data;
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(path, 'utf8')).replace(/^\uFEFF/, '');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * One text per ayah from a file of "sura|aya|text" lines; blank lines and
+ * "#" comments (Tanzil's licence notice) are skipped
+ */
+function parseTanzil(contents: string, file: string): string[] {
+  const texts = new Array<string>(TOTAL_AYAHS);
+  contents.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (!line.trim() || line.startsWith('#')) return;
+    const [surah, ayah, ...rest] = line.split('|');
+    const ref = parseVerseKey(`${surah}:${ayah}`);
+    if (!ref || rest.length === 0) {
+      throw invalidData(file, `line ${lineIndex + 1} is not "sura|aya|text"`);
+    }
+    texts[verseIndex(ref)] = rest.join('|').trim();
+  });
+
+  const missing = texts.findIndex(text => text === undefined);
+  if (missing >= 0) {
+    throw invalidData(file, `${verseKey(verseAt(missing))} is missing`);
+  }
+  return texts;
+}
+
+function parsePages(contents: string): number[] {
+  const keys = parseJson<unknown>(contents, PAGES_FILE);
+  if (!Array.isArray(keys) || keys.length !== MUSHAF_PAGES) {
+    throw invalidData(PAGES_FILE, `expected ${MUSHAF_PAGES} verse keys`);
+  }
+  return keys.map((key) => {
+    const ref = typeof key === 'string' ? parseVerseKey(key) : null;
+    if (!ref) throw invalidData(PAGES_FILE, `${String(key)} is not a verse key`);
+    return verseIndex(ref);
+  });
+}
+
+function parseJson<T>(contents: string, file: string): T {
+  try {
+    return JSON.parse(contents) as T;
+  } catch {
+    throw invalidData(file, 'it is not valid JSON');
+  }
+}
+
+// Mushaf page of the ayah at `index`
+function pageOf(pageStarts: number[], index: number): number {
+  let low = 0;
+  let high = pageStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (pageStarts[middle] <= index) low = middle;
+    else high = middle - 1;
+  }
+  return low + 1;
+}
+
+function invalidData(file: string, problem: string): ApiError {
+  console.error(`❌ Quran data file ${file} is invalid: ${problem}`);
+  return new ApiError(503, 'unavailable', 'The Quran text on the server is incomplete');
+}
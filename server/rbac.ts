@@ -0,0 +1,209 @@
+/**
+ * Role-based access control
+ * Loads what each role may do from `role_permissions` (database-rbac.sql),
+ * guards REST routes with `requirePermission`, and assigns roles through the
+ * `set_user_role` database function, which also writes the role into the
+ * user's app_metadata so the next access token carries it. Without a
+ * database the defaults in shared/rbac.ts apply.
+ */
+
+import type { RequestHandler } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  ROLES,
+  can,
+  isRole,
+  type Action,
+  type Permission,
+  type PermissionMatrix,
+  type Resource,
+  type Role,
+  type RoleChange,
+  type RoleMember
+} from '@shared/rbac';
+import { ApiError, getIdentity } from './http';
+import type { SignalingIdentity } from './auth';
+
+export interface RoleMemberFilter {
+  search?: string;
+  role?: Role;
+  page: number;
+  pageSize: number;
+}
+
+// Raised by set_user_role when the last admin would be demoted
+const CHECK_VIOLATION = '23514';
+
+// Grants change rarely; avoid a database round trip on every request
+const MATRIX_TTL_MS = 60 * 1000;
+
+export class RbacService {
+  private matrix: PermissionMatrix = DEFAULT_ROLE_PERMISSIONS;
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private getDb: () => SupabaseClient | null) {}
+
+  /**
+   * Whether the caller may perform `action` on `resource`
+   */
+  async can(identity: SignalingIdentity, action: Action, resource: Resource): Promise<boolean> {
+    const matrix = await this.getMatrix();
+    return can({ role: identity.role, permissions: matrix[identity.role] }, action, resource);
+  }
+
+  /**
+   * Route guard; use after requireAuth
+   */
+  requirePermission(action: Action, resource: Resource): RequestHandler {
+    return (req, res, next) => {
+      this.can(getIdentity(res), action, resource)
+        .then(allowed => next(allowed ? undefined : new ApiError(403, 'forbidden', 'You do not have permission to perform this action')))
+        .catch(next);
+    };
+  }
+
+  /**
+   * Permissions of every role, from the cache when it is fresh. A failed
+   * reload keeps serving the last good matrix.
+   */
+  async getMatrix(): Promise<PermissionMatrix> {
+    const db = this.getDb();
+    if (!db || Date.now() - this.loadedAt < MATRIX_TTL_MS) {
+      return this.matrix;
+    }
+
+    this.loading ??= this.loadMatrix(db).finally(() => {
+      this.loading = null;
+    });
+    await this.loading;
+    return this.matrix;
+  }
+
+  /**
+   * Replace what a role may do. The admin role is fixed so nobody can lock
+   * everyone out of role management.
+   */
+  async setRolePermissions(role: Role, permissions: Permission[]): Promise<Permission[]> {
+    if (role === 'admin') {
+      throw new ApiError(409, 'locked-role', 'Admin permissions cannot be changed');
+    }
+
+    const unique = permissions.filter((permission, index) =>
+      permissions.findIndex(other => other.action === permission.action && other.resource === permission.resource) === index
+    );
+
+    // One transaction, so a failed insert cannot leave the role without grants
+    const { error } = await this.requireDb().rpc('set_role_permissions', { p_role: role, p_permissions: unique });
+    if (error) {
+      console.error(`❌ Failed to save permissions of ${role}:`, error.message);
+      throw new Error('Failed to update permissions');
+    }
+
+    this.loadedAt = 0;
+    console.log(`🔐 Permissions of ${role} replaced (${unique.length} grants)`);
+    return unique;
+  }
+
+  /**
+   * Users for the role management screen, newest first, optionally filtered
+   * by role or by a name/email search
+   */
+  async listMembers(filter: RoleMemberFilter): Promise<{ rows: RoleMember[]; total: number }> {
+    const offset = (filter.page - 1) * filter.pageSize;
+    let query = this.requireDb()
+      .from('users')
+      .select('id, email, first_name, last_name, display_name, role, created_at', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + filter.pageSize - 1);
+
+    if (filter.role) {
+      query = query.eq('role', filter.role);
+    }
+    if (filter.search) {
+      // Commas and parentheses would break the PostgREST or-filter syntax
+      const term = filter.search.replace(/[,()%]/g, ' ').trim();
+      if (term) {
+        query = query.or(`email.ilike.%${term}%,first_name.ilike.%${term}%,last_name.ilike.%${term}%,display_name.ilike.%${term}%`);
+      }
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      console.error('❌ Failed to load users for role management:', error.message);
+      throw new Error('Failed to load users');
+    }
+    return { rows: (data ?? []) as RoleMember[], total: count ?? 0 };
+  }
+
+  /**
+   * Give a user a role; takes effect when their access token next refreshes
+   */
+  async assignRole(userId: string, role: Role, adminId: string): Promise<RoleMember> {
+    const { data, error } = await this.requireDb().rpc('set_user_role', {
+      p_user_id: userId,
+      p_role: role,
+      p_changed_by: adminId
+    });
+
+    if (error) {
+      if (error.code === CHECK_VIOLATION) {
+        throw new ApiError(409, 'last-admin', 'The last admin cannot be given another role');
+      }
+      console.error(`❌ Failed to set role of ${userId}:`, error.message);
+      throw new Error('Failed to assign role');
+    }
+    if (!data?.id) {
+      throw new ApiError(404, 'not-found', 'User not found');
+    }
+
+    console.log(`🔐 ${userId} is now ${role} (set by ${adminId})`);
+    const { id, email, first_name, last_name, display_name, created_at } = data as RoleMember;
+    return { id, email, first_name, last_name, display_name, role, created_at };
+  }
+
+  /**
+   * Role assignments of one user, newest first
+   */
+  async listChanges(userId: string): Promise<RoleChange[]> {
+    const { data, error } = await this.requireDb()
+      .from('role_changes')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Failed to load role changes:', error.message);
+      throw new Error('Failed to load role changes');
+    }
+    return (data ?? []) as RoleChange[];
+  }
+
+  private async loadMatrix(db: SupabaseClient): Promise<void> {
+    const { data, error } = await db.from('role_permissions').select('role, action, resource');
+    if (error) {
+      // Retry after the TTL rather than on every request
+      console.error('❌ Failed to load role permissions:', error.message);
+      this.loadedAt = Date.now();
+      return;
+    }
+
+    const matrix = Object.fromEntries(ROLES.map(role => [role, [] as Permission[]])) as PermissionMatrix;
+    for (const row of data ?? []) {
+      if (isRole(row.role)) {
+        matrix[row.role].push({ action: row.action, resource: row.resource });
+      }
+    }
+    this.matrix = matrix;
+    this.loadedAt = Date.now();
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Role management is not configured on the server');
+    }
+    return db;
+  }
+}
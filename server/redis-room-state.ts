@@ -0,0 +1,194 @@
+/**
+ * Redis room state adapter
+ * Membership lives in one hash per room and room traffic travels over one
+ * pub/sub channel per room, so any node can reach any participant.
+ * Each node keeps a heartbeat key alive; members whose node has stopped
+ * beating are swept out of the room the next time it is read.
+ */
+
+import { createNodeId, type RoomEnvelope, type RoomEnvelopeHandler, type RoomMember, type RoomStateAdapter } from './room-state';
+
+/**
+ * The subset of the ioredis client API this adapter uses. Satisfied by
+ * ioredis and by the in-process stand-in in ./local-redis.
+ */
+export interface RedisClientLike {
+  publish(channel: string, message: string): Promise<unknown>;
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+  hset(key: string, field: string, value: string): Promise<unknown>;
+  hget(key: string, field: string): Promise<string | null>;
+  hdel(key: string, field: string): Promise<unknown>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  exists(key: string): Promise<number>;
+  pexpire(key: string, ttlMs: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  eval(script: string, numKeys: number, ...args: string[]): Promise<unknown>;
+  quit(): Promise<unknown>;
+}
+
+/** How often a node refreshes its heartbeat and the rooms it holds members in */
+export const NODE_HEARTBEAT_MS = 5000;
+/** A node whose heartbeat is older than this is treated as dead */
+export const NODE_TTL_MS = 3 * NODE_HEARTBEAT_MS;
+/** Room hashes that no live node refreshes are dropped after this */
+export const ROOM_TTL_MS = 60_000;
+
+/**
+ * Delete a member only if it is still the same join, in one step, so a
+ * rejoin that lands between the read and the delete is never removed.
+ * KEYS[1] = members hash, ARGV[1] = participant id, ARGV[2] = join id
+ */
+export const REMOVE_MEMBER_SCRIPT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return 0 end
+if cjson.decode(raw).joinId ~= ARGV[2] then return 0 end
+return redis.call('HDEL', KEYS[1], ARGV[1])
+`;
+
+interface WireEnvelope {
+  origin: string;
+  envelope: RoomEnvelope;
+}
+
+export class RedisRoomState implements RoomStateAdapter {
+  readonly nodeId = createNodeId();
+  private handlers = new Map<string, RoomEnvelopeHandler>();
+  private heartbeatTimer: NodeJS.Timeout;
+
+  /**
+   * @param publisher connection for commands and PUBLISH
+   * @param subscriber dedicated connection in subscriber mode
+   */
+  constructor(
+    private publisher: RedisClientLike,
+    private subscriber: RedisClientLike,
+    private keyPrefix = 'signaling'
+  ) {
+    this.subscriber.on('message', (channel, raw) => this.handleChannelMessage(channel, raw));
+
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(error => console.error('❌ Room state heartbeat failed:', error));
+    }, NODE_HEARTBEAT_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  private nodeKey(nodeId: string): string {
+    return `${this.keyPrefix}:node:${nodeId}`;
+  }
+
+  private membersKey(roomId: string): string {
+    return `${this.keyPrefix}:room:${roomId}:members`;
+  }
+
+  private channel(roomId: string): string {
+    return `${this.keyPrefix}:room:${roomId}:events`;
+  }
+
+  private roomIdFromChannel(channel: string): string | null {
+    const prefix = `${this.keyPrefix}:room:`;
+    const suffix = ':events';
+    if (!channel.startsWith(prefix) || !channel.endsWith(suffix)) return null;
+    return channel.slice(prefix.length, -suffix.length);
+  }
+
+  /**
+   * Mark this node alive and keep the hashes of rooms it serves from expiring
+   */
+  private async heartbeat(): Promise<void> {
+    await Promise.all([
+      this.publisher.set(this.nodeKey(this.nodeId), '1', 'PX', NODE_TTL_MS),
+      ...Array.from(this.handlers.keys()).map(roomId => this.publisher.pexpire(this.membersKey(roomId), ROOM_TTL_MS))
+    ]);
+  }
+
+  async addMember(roomId: string, member: RoomMember): Promise<void> {
+    const key = this.membersKey(roomId);
+    await Promise.all([
+      this.publisher.set(this.nodeKey(this.nodeId), '1', 'PX', NODE_TTL_MS),
+      this.publisher.hset(key, member.id, JSON.stringify(member))
+    ]);
+    await this.publisher.pexpire(key, ROOM_TTL_MS);
+  }
+
+  async removeMember(roomId: string, participantId: string, joinId: string): Promise<boolean> {
+    // Redis drops the hash once its last field is deleted
+    const removed = await this.publisher.eval(REMOVE_MEMBER_SCRIPT, 1, this.membersKey(roomId), participantId, joinId);
+    return Number(removed) === 1;
+  }
+
+  async getMember(roomId: string, participantId: string): Promise<RoomMember | null> {
+    const raw = await this.publisher.hget(this.membersKey(roomId), participantId);
+    return raw ? this.parseMember(raw) : null;
+  }
+
+  async getMembers(roomId: string): Promise<RoomMember[]> {
+    const entries = await this.publisher.hgetall(this.membersKey(roomId));
+    const members = Object.values(entries)
+      .map(raw => this.parseMember(raw))
+      .filter((member): member is RoomMember => member !== null);
+
+    const deadNodes = await this.findDeadNodes(members);
+    if (deadNodes.size === 0) return members;
+
+    const ghosts = members.filter(member => deadNodes.has(member.nodeId));
+    console.warn(`⚠️ Sweeping ${ghosts.length} member(s) of dead node(s) ${Array.from(deadNodes).join(', ')} from room ${roomId}`);
+    await Promise.all(ghosts.map(ghost => this.removeMember(roomId, ghost.id, ghost.joinId)));
+    return members.filter(member => !deadNodes.has(member.nodeId));
+  }
+
+  private async findDeadNodes(members: RoomMember[]): Promise<Set<string>> {
+    const otherNodes = Array.from(new Set(members.map(member => member.nodeId))).filter(nodeId => nodeId !== this.nodeId);
+    const alive = await Promise.all(otherNodes.map(nodeId => this.publisher.exists(this.nodeKey(nodeId))));
+    return new Set(otherNodes.filter((_, index) => alive[index] === 0));
+  }
+
+  async publish(roomId: string, envelope: RoomEnvelope): Promise<void> {
+    const wire: WireEnvelope = { origin: this.nodeId, envelope };
+    await this.publisher.publish(this.channel(roomId), JSON.stringify(wire));
+  }
+
+  async subscribe(roomId: string, handler: RoomEnvelopeHandler): Promise<void> {
+    this.handlers.set(roomId, handler);
+    await this.subscriber.subscribe(this.channel(roomId));
+  }
+
+  async unsubscribe(roomId: string): Promise<void> {
+    this.handlers.delete(roomId);
+    await this.subscriber.unsubscribe(this.channel(roomId));
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.heartbeatTimer);
+    this.handlers.clear();
+    // Let the other nodes sweep this node's members straight away
+    await this.publisher.del(this.nodeKey(this.nodeId));
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+
+  private handleChannelMessage(channel: string, raw: string): void {
+    const roomId = this.roomIdFromChannel(channel);
+    const handler = roomId ? this.handlers.get(roomId) : undefined;
+    if (!roomId || !handler) return;
+
+    let wire: WireEnvelope;
+    try {
+      wire = JSON.parse(raw);
+    } catch {
+      console.error(`❌ Dropping malformed backplane message on ${channel}`);
+      return;
+    }
+
+    handler(roomId, wire.envelope);
+  }
+
+  private parseMember(raw: string): RoomMember | null {
+    try {
+      return JSON.parse(raw) as RoomMember;
+    } catch {
+      return null;
+    }
+  }
+}
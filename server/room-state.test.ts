@@ -0,0 +1,122 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryRoomState, type RoomEnvelope, type RoomMember, type RoomStateAdapter } from './room-state';
+import { RedisRoomState } from './redis-room-state';
+import { LocalRedisServer } from './local-redis';
+
+function member(id: string, nodeId: string, joinId: string): RoomMember {
+  return {
+    id,
+    userId: `user-${id}`,
+    displayName: id,
+    role: 'student',
+    joinedAt: new Date(0).toISOString(),
+    connectionState: 'connected',
+    nodeId,
+    joinId
+  };
+}
+
+function redisNode(server: LocalRedisServer): RedisRoomState {
+  return new RedisRoomState(server.createClient(), server.createClient(), 'test');
+}
+
+/**
+ * Resolves with the next envelope delivered for the room
+ */
+function nextEnvelope(adapter: RoomStateAdapter, roomId: string): Promise<RoomEnvelope> {
+  return new Promise(resolve => {
+    adapter.subscribe(roomId, (_, envelope) => resolve(envelope));
+  });
+}
+
+const adapters: Array<[string, () => RoomStateAdapter]> = [
+  ['InMemoryRoomState', () => new InMemoryRoomState()],
+  ['RedisRoomState', () => redisNode(new LocalRedisServer())]
+];
+
+for (const [name, create] of adapters) {
+  describe(name, () => {
+    test('adds, replaces and lists members', async () => {
+      const adapter = create();
+      await adapter.addMember('room', member('a', adapter.nodeId, 'join-1'));
+      await adapter.addMember('room', member('b', adapter.nodeId, 'join-2'));
+      await adapter.addMember('room', member('a', adapter.nodeId, 'join-3'));
+
+      const members = await adapter.getMembers('room');
+      assert.deepEqual(members.map(m => m.id).sort(), ['a', 'b']);
+      assert.equal((await adapter.getMember('room', 'a'))?.joinId, 'join-3');
+      assert.deepEqual(await adapter.getMembers('other'), []);
+      await adapter.close();
+    });
+
+    test('removes a member only for the join that owns the slot', async () => {
+      const adapter = create();
+      await adapter.addMember('room', member('a', adapter.nodeId, 'join-2'));
+
+      assert.equal(await adapter.removeMember('room', 'a', 'join-1'), false);
+      assert.equal((await adapter.getMember('room', 'a'))?.joinId, 'join-2');
+      assert.equal(await adapter.removeMember('room', 'a', 'join-2'), true);
+      assert.equal(await adapter.getMember('room', 'a'), null);
+      assert.equal(await adapter.removeMember('room', 'a', 'join-2'), false);
+      await adapter.close();
+    });
+
+    test('delivers published envelopes to the subscribed room only', async () => {
+      const adapter = create();
+      const received = nextEnvelope(adapter, 'room');
+      await adapter.subscribe('other', () => assert.fail('delivered to the wrong room'));
+
+      const envelope: RoomEnvelope = { kind: 'evict', participantId: 'a', joinId: 'join-1' };
+      await adapter.publish('room', envelope);
+      assert.deepEqual(await received, envelope);
+      await adapter.close();
+    });
+  });
+}
+
+describe('RedisRoomState across nodes', () => {
+  test('shares members and envelopes between nodes', async () => {
+    const server = new LocalRedisServer();
+    const first = redisNode(server);
+    const second = redisNode(server);
+
+    await first.addMember('room', member('a', first.nodeId, 'join-1'));
+    assert.deepEqual((await second.getMembers('room')).map(m => m.id), ['a']);
+
+    const received = nextEnvelope(first, 'room');
+    const envelope: RoomEnvelope = { kind: 'evict', participantId: 'a', joinId: 'join-1' };
+    await second.publish('room', envelope);
+    assert.deepEqual(await received, envelope);
+
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  test('sweeps the members of a node that has stopped', async () => {
+    const server = new LocalRedisServer();
+    const survivor = redisNode(server);
+    const crashed = redisNode(server);
+
+    await survivor.addMember('room', member('a', survivor.nodeId, 'join-1'));
+    await crashed.addMember('room', member('b', crashed.nodeId, 'join-2'));
+    assert.equal((await survivor.getMembers('room')).length, 2);
+
+    // A crash leaves the members behind but lets the heartbeat lapse
+    server.del(`test:node:${crashed.nodeId}`);
+
+    assert.deepEqual((await survivor.getMembers('room')).map(m => m.id), ['a']);
+    assert.equal(await survivor.getMember('room', 'b'), null);
+
+    await Promise.all([survivor.close(), crashed.close()]);
+  });
+
+  test('drops a room that no live node refreshes once it expires', async () => {
+    const server = new LocalRedisServer();
+    const node = redisNode(server);
+    await node.addMember('room', member('a', node.nodeId, 'join-1'));
+
+    server.pexpire('test:room:room:members', 0);
+    assert.deepEqual(await node.getMembers('room'), []);
+    await node.close();
+  });
+});
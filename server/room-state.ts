@@ -0,0 +1,124 @@
+/**
+ * Room state adapters
+ * Membership and message fan-out for signaling rooms live behind this interface
+ * so several signaling nodes can host the same class behind a load balancer.
+ * Each node keeps its own sockets; the adapter tells it who is in a room and
+ * delivers room traffic to whichever node holds the target socket.
+ */
+
+import { randomUUID } from 'crypto';
+import { Redis } from 'ioredis';
+import type { ParticipantInfo, ServerMessageBody } from '@shared/signaling';
+import { RedisRoomState } from './redis-room-state';
+
+export interface RoomMember extends ParticipantInfo {
+  // Signaling node that holds this participant's socket
+  nodeId: string;
+  // Unique per join; guards against removing a slot that a newer join took over
+  joinId: string;
+}
+
+export type RoomEnvelope =
+  | { kind: 'broadcast'; message: ServerMessageBody; excludeParticipantId?: string }
+  | { kind: 'direct'; toParticipantId: string; message: ServerMessageBody }
+  // Ask the node holding this join to drop it (duplicate-session policy)
+  | { kind: 'evict'; participantId: string; joinId: string };
+
+export type RoomEnvelopeHandler = (roomId: string, envelope: RoomEnvelope) => void;
+
+export interface RoomStateAdapter {
+  readonly nodeId: string;
+
+  /** Add or replace the member for `member.id` */
+  addMember(roomId: string, member: RoomMember): Promise<void>;
+
+  /** Remove a member, but only if `joinId` still owns the participant's slot */
+  removeMember(roomId: string, participantId: string, joinId: string): Promise<boolean>;
+
+  getMember(roomId: string, participantId: string): Promise<RoomMember | null>;
+
+  getMembers(roomId: string): Promise<RoomMember[]>;
+
+  /** Deliver an envelope to every node subscribed to the room, including this one */
+  publish(roomId: string, envelope: RoomEnvelope): Promise<void>;
+
+  /** Start receiving envelopes for a room that has local participants */
+  subscribe(roomId: string, handler: RoomEnvelopeHandler): Promise<void>;
+
+  unsubscribe(roomId: string): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+export function createNodeId(): string {
+  return `${process.pid}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Single-process adapter; the default when no backplane is configured
+ */
+export class InMemoryRoomState implements RoomStateAdapter {
+  readonly nodeId = createNodeId();
+  private rooms = new Map<string, Map<string, RoomMember>>();
+  private handlers = new Map<string, RoomEnvelopeHandler>();
+
+  async addMember(roomId: string, member: RoomMember): Promise<void> {
+    if (!this.rooms.has(roomId)) {
+      this.rooms.set(roomId, new Map());
+    }
+    this.rooms.get(roomId)!.set(member.id, member);
+  }
+
+  async removeMember(roomId: string, participantId: string, joinId: string): Promise<boolean> {
+    const room = this.rooms.get(roomId);
+    if (!room || room.get(participantId)?.joinId !== joinId) return false;
+
+    room.delete(participantId);
+    if (room.size === 0) {
+      this.rooms.delete(roomId);
+    }
+    return true;
+  }
+
+  async getMember(roomId: string, participantId: string): Promise<RoomMember | null> {
+    return this.rooms.get(roomId)?.get(participantId) ?? null;
+  }
+
+  async getMembers(roomId: string): Promise<RoomMember[]> {
+    return Array.from(this.rooms.get(roomId)?.values() ?? []);
+  }
+
+  async publish(roomId: string, envelope: RoomEnvelope): Promise<void> {
+    this.handlers.get(roomId)?.(roomId, envelope);
+  }
+
+  async subscribe(roomId: string, handler: RoomEnvelopeHandler): Promise<void> {
+    this.handlers.set(roomId, handler);
+  }
+
+  async unsubscribe(roomId: string): Promise<void> {
+    this.handlers.delete(roomId);
+  }
+
+  async close(): Promise<void> {
+    this.rooms.clear();
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Pick the adapter from the environment: Redis when REDIS_URL is set,
+ * otherwise in-memory (single node only)
+ */
+export function createRoomStateAdapter(): RoomStateAdapter {
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    return new InMemoryRoomState();
+  }
+
+  // Subscribed connections cannot issue regular commands, so use two
+  const publisher = new Redis(redisUrl);
+  const subscriber = publisher.duplicate();
+  console.log('📡 Signaling room state backed by Redis');
+  return new RedisRoomState(publisher, subscriber, process.env.REDIS_KEY_PREFIX);
+}
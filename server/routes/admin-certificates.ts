@@ -0,0 +1,47 @@
+/**
+ * Certificate administration
+ * Completion criteria per course, the list of issued certificates and
+ * revoking one. Requires `manage` on `certificates`.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  certificateCriteriaSchema,
+  certificateListQuerySchema,
+  certificateRevocationSchema,
+  certificateSerialSchema
+} from '@shared/certificates';
+import { getIdentity, paginated, requireAuth } from '../http';
+import type { CertificateService } from '../certificates';
+import type { RbacService } from '../rbac';
+
+const productIdSchema = z.string().uuid();
+
+export function createAdminCertificatesRouter(certificates: CertificateService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('manage', 'certificates'));
+
+  router.get('/criteria', async (req, res) => {
+    res.json(await certificates.listCriteria());
+  });
+
+  router.put('/criteria/:productId', async (req, res) => {
+    const criteria = certificateCriteriaSchema.parse(req.body ?? {});
+    res.json(await certificates.setCriteria(productIdSchema.parse(req.params.productId), criteria));
+  });
+
+  router.get('/', async (req, res) => {
+    const query = certificateListQuerySchema.parse(req.query);
+    const { rows, total } = await certificates.listIssued(query);
+    res.json(paginated(rows, query.page, query.page_size, total));
+  });
+
+  router.post('/:serial/revoke', async (req, res) => {
+    const { reason } = certificateRevocationSchema.parse(req.body ?? {});
+    res.json(await certificates.revoke(certificateSerialSchema.parse(req.params.serial), reason, getIdentity(res).userId));
+  });
+
+  return router;
+}
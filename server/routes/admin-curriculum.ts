@@ -0,0 +1,115 @@
+/**
+ * Curriculum authoring
+ * Create and edit course modules, units and lessons, set lesson
+ * prerequisites, write quiz questions and weigh what counts towards a
+ * module's progress. Instructors and admins author; deleting is left to
+ * roles with `delete` on `course-content`.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  lessonPayloadSchema,
+  lessonUpdateSchema,
+  modulePayloadSchema,
+  moduleUpdateSchema,
+  prerequisitesPayloadSchema,
+  unitPayloadSchema,
+  unitUpdateSchema
+} from '@shared/curriculum';
+import { progressWeightsSchema } from '@shared/progress';
+import { questionPayloadSchema, questionUpdateSchema } from '@shared/quizzes';
+import { getIdentity, requireAuth } from '../http';
+import type { CurriculumService } from '../curriculum';
+import type { ProgressService } from '../progress';
+import type { QuizService } from '../quizzes';
+import type { RbacService } from '../rbac';
+
+const idSchema = z.string().uuid();
+
+export function createAdminCurriculumRouter(
+  curriculum: CurriculumService,
+  progress: ProgressService,
+  quizzes: QuizService,
+  rbac: RbacService
+): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('update', 'course-content'));
+
+  router.post('/modules', rbac.requirePermission('create', 'course-content'), async (req, res) => {
+    const module = await curriculum.createModule(modulePayloadSchema.parse(req.body ?? {}));
+    console.log(`📘 Course module ${module.id} created by ${getIdentity(res).userId}`);
+    res.status(201).json(module);
+  });
+
+  router.patch('/modules/:id', async (req, res) => {
+    res.json(await curriculum.updateModule(idSchema.parse(req.params.id), moduleUpdateSchema.parse(req.body ?? {})));
+  });
+
+  router.get('/modules/:id/progress-weights', async (req, res) => {
+    res.json(await progress.getWeights(idSchema.parse(req.params.id)));
+  });
+
+  router.put('/modules/:id/progress-weights', async (req, res) => {
+    const weights = progressWeightsSchema.parse(req.body ?? {});
+    res.json(await progress.setWeights(idSchema.parse(req.params.id), weights));
+  });
+
+  router.post('/units', rbac.requirePermission('create', 'course-content'), async (req, res) => {
+    res.status(201).json(await curriculum.createUnit(unitPayloadSchema.parse(req.body ?? {})));
+  });
+
+  router.patch('/units/:id', async (req, res) => {
+    res.json(await curriculum.updateUnit(idSchema.parse(req.params.id), unitUpdateSchema.parse(req.body ?? {})));
+  });
+
+  router.delete('/units/:id', rbac.requirePermission('delete', 'course-content'), async (req, res) => {
+    const unitId = idSchema.parse(req.params.id);
+    await curriculum.deleteUnit(unitId);
+    console.log(`🗑️ Course unit ${unitId} deleted by ${getIdentity(res).userId}`);
+    res.status(204).end();
+  });
+
+  router.post('/lessons', rbac.requirePermission('create', 'course-content'), async (req, res) => {
+    res.status(201).json(await curriculum.createLesson(lessonPayloadSchema.parse(req.body ?? {})));
+  });
+
+  router.patch('/lessons/:id', async (req, res) => {
+    res.json(await curriculum.updateLesson(idSchema.parse(req.params.id), lessonUpdateSchema.parse(req.body ?? {})));
+  });
+
+  router.delete('/lessons/:id', rbac.requirePermission('delete', 'course-content'), async (req, res) => {
+    const lessonId = idSchema.parse(req.params.id);
+    await curriculum.deleteLesson(lessonId);
+    console.log(`🗑️ Lesson ${lessonId} deleted by ${getIdentity(res).userId}`);
+    res.status(204).end();
+  });
+
+  router.put('/lessons/:id/prerequisites', async (req, res) => {
+    const prerequisites = prerequisitesPayloadSchema.parse(req.body ?? {});
+    res.json(await curriculum.setPrerequisites(idSchema.parse(req.params.id), prerequisites));
+  });
+
+  router.get('/lessons/:id/questions', async (req, res) => {
+    res.json(await quizzes.listQuestions(idSchema.parse(req.params.id)));
+  });
+
+  router.post('/lessons/:id/questions', async (req, res) => {
+    const question = questionPayloadSchema.parse(req.body ?? {});
+    res.status(201).json(await quizzes.createQuestion(idSchema.parse(req.params.id), question));
+  });
+
+  router.patch('/questions/:id', async (req, res) => {
+    res.json(await quizzes.updateQuestion(idSchema.parse(req.params.id), questionUpdateSchema.parse(req.body ?? {})));
+  });
+
+  router.delete('/questions/:id', async (req, res) => {
+    const questionId = idSchema.parse(req.params.id);
+    await quizzes.deleteQuestion(questionId);
+    console.log(`🗑️ Quiz question ${questionId} deleted by ${getIdentity(res).userId}`);
+    res.status(204).end();
+  });
+
+  return router;
+}
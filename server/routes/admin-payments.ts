@@ -0,0 +1,104 @@
+/**
+ * Payment administration
+ * Admin queue for Nagad/Rocket payments (approve or reject once the
+ * transaction id has been checked against the merchant statement), refunds,
+ * the per-payment event log and provider statement reconciliation.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { getIdentity, paginated, requireAuth } from '../http';
+import type { RbacService } from '../rbac';
+import type { PaymentService } from '../payments/payment-service';
+import type { ReconciliationService } from '../payments/reconciliation';
+
+const queueQuerySchema = z.object({
+  status: z.enum(['pending', 'paid', 'failed', 'refunded']).default('pending'),
+  method: z.enum(['nagad', 'rocket']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+const reviewSchema = z.object({
+  notes: z.string().trim().max(500).optional()
+});
+
+const rejectSchema = z.object({
+  // Rejections must say why, for support staff and the student
+  notes: z.string().trim().min(1, 'A reason is required').max(500)
+});
+
+const refundSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(500),
+  // Send-money reference for Nagad/Rocket refunds; bKash issues its own
+  reference: z.string().trim().max(100).optional()
+});
+
+const reconciliationSchema = z.object({
+  method: z.enum(['bkash', 'nagad', 'rocket']),
+  // Statement export as CSV text
+  csv: z.string().min(1).max(5_000_000),
+  file_name: z.string().trim().max(255).optional()
+});
+
+const reportsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export function createAdminPaymentsRouter(payments: PaymentService, reconciliation: ReconciliationService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('manage', 'payments'));
+
+  router.get('/manual', async (req, res) => {
+    const query = queueQuerySchema.parse(req.query);
+    const { rows, total } = await payments.listManualPayments({
+      status: query.status,
+      method: query.method,
+      page: query.page,
+      pageSize: query.page_size
+    });
+
+    res.json(paginated(rows, query.page, query.page_size, total));
+  });
+
+  router.post('/manual/:paymentId/approve', async (req, res) => {
+    const { notes } = reviewSchema.parse(req.body ?? {});
+    const record = await payments.reviewManualPayment(req.params.paymentId, 'approve', getIdentity(res).userId, notes || null);
+    res.json(record);
+  });
+
+  router.post('/manual/:paymentId/reject', async (req, res) => {
+    const { notes } = rejectSchema.parse(req.body ?? {});
+    const record = await payments.reviewManualPayment(req.params.paymentId, 'reject', getIdentity(res).userId, notes);
+    res.json(record);
+  });
+
+  router.post('/:paymentId/refund', async (req, res) => {
+    const { reason, reference } = refundSchema.parse(req.body ?? {});
+    const record = await payments.refundPayment(req.params.paymentId, getIdentity(res).userId, reason, reference || null);
+    res.json(record);
+  });
+
+  router.get('/:paymentId/events', async (req, res) => {
+    res.json(await payments.listEvents(req.params.paymentId));
+  });
+
+  router.get('/reconciliations', async (req, res) => {
+    const query = reportsQuerySchema.parse(req.query);
+    const { rows, total } = await reconciliation.listReports(query.page, query.page_size);
+    res.json(paginated(rows, query.page, query.page_size, total));
+  });
+
+  router.post('/reconciliations', async (req, res) => {
+    const body = reconciliationSchema.parse(req.body ?? {});
+    const report = await reconciliation.reconcile(body.method, body.csv, {
+      fileName: body.file_name,
+      importedBy: getIdentity(res).userId
+    });
+    res.status(201).json(report);
+  });
+
+  return router;
+}
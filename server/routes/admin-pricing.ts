@@ -0,0 +1,43 @@
+/**
+ * Coupon administration
+ * Create discount codes and change their limits, expiry or active flag.
+ * Products and installment plans are maintained in database-pricing.sql.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { couponPayloadSchema, couponUpdateSchema } from '@shared/pricing';
+import { getIdentity, paginated, requireAuth } from '../http';
+import type { PricingService } from '../payments/pricing';
+import type { RbacService } from '../rbac';
+
+const couponsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+const couponIdSchema = z.string().uuid();
+
+export function createAdminPricingRouter(pricing: PricingService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('manage', 'coupons'));
+
+  router.get('/coupons', async (req, res) => {
+    const query = couponsQuerySchema.parse(req.query);
+    const { rows, total } = await pricing.listCoupons(query.page, query.page_size);
+    res.json(paginated(rows, query.page, query.page_size, total));
+  });
+
+  router.post('/coupons', async (req, res) => {
+    const coupon = await pricing.createCoupon(couponPayloadSchema.parse(req.body ?? {}), getIdentity(res).userId);
+    res.status(201).json(coupon);
+  });
+
+  router.patch('/coupons/:id', async (req, res) => {
+    const updates = couponUpdateSchema.parse(req.body ?? {});
+    res.json(await pricing.updateCoupon(couponIdSchema.parse(req.params.id), updates));
+  });
+
+  return router;
+}
@@ -0,0 +1,58 @@
+/**
+ * Role administration
+ * List users with their roles, assign roles, see who changed a user's role,
+ * and edit what each role may do.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { ROLES, roleAssignmentSchema, rolePermissionsSchema } from '@shared/rbac';
+import { getIdentity, paginated, requireAuth } from '../http';
+import type { RbacService } from '../rbac';
+
+const membersQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  role: z.enum(ROLES).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+const userIdSchema = z.string().uuid();
+const roleSchema = z.enum(ROLES);
+
+export function createAdminRolesRouter(rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('manage', 'roles'));
+
+  router.get('/users', async (req, res) => {
+    const query = membersQuerySchema.parse(req.query);
+    const { rows, total } = await rbac.listMembers({
+      search: query.search || undefined,
+      role: query.role,
+      page: query.page,
+      pageSize: query.page_size
+    });
+    res.json(paginated(rows, query.page, query.page_size, total));
+  });
+
+  router.put('/users/:id', async (req, res) => {
+    const { role } = roleAssignmentSchema.parse(req.body ?? {});
+    res.json(await rbac.assignRole(userIdSchema.parse(req.params.id), role, getIdentity(res).userId));
+  });
+
+  router.get('/users/:id/changes', async (req, res) => {
+    res.json(await rbac.listChanges(userIdSchema.parse(req.params.id)));
+  });
+
+  router.get('/permissions', async (req, res) => {
+    res.json(await rbac.getMatrix());
+  });
+
+  router.put('/permissions/:role', async (req, res) => {
+    const { permissions } = rolePermissionsSchema.parse(req.body ?? {});
+    res.json(await rbac.setRolePermissions(roleSchema.parse(req.params.role), permissions));
+  });
+
+  return router;
+}
@@ -0,0 +1,47 @@
+/**
+ * Certificates API
+ * The signed-in student's courses with their certificate standing and
+ * claiming a certificate, plus the public serial check, printable
+ * certificate page and PDF download that need no account.
+ */
+
+import { Router } from 'express';
+import { certificateClaimSchema, certificateSerialSchema } from '@shared/certificates';
+import { getIdentity, requireAuth } from '../http';
+import { renderCertificateHtml, renderCertificatePdf, type CertificateService } from '../certificates';
+import type { RbacService } from '../rbac';
+
+export function createCertificatesRouter(certificates: CertificateService, rbac: RbacService): Router {
+  const router = Router();
+  const viewOwn = rbac.requirePermission('view', 'certificates');
+
+  router.get('/', requireAuth, viewOwn, async (req, res) => {
+    res.json(await certificates.listForUser(getIdentity(res).userId));
+  });
+
+  router.post('/', requireAuth, viewOwn, async (req, res) => {
+    const { product_id } = certificateClaimSchema.parse(req.body ?? {});
+    res.status(201).json(await certificates.claim(getIdentity(res).userId, product_id));
+  });
+
+  router.get('/verify/:serial', async (req, res) => {
+    res.set('Cache-Control', 'no-cache');
+    res.json(await certificates.verify(certificateSerialSchema.parse(req.params.serial)));
+  });
+
+  router.get('/:serial/document', async (req, res) => {
+    const certificate = await certificates.getBySerial(certificateSerialSchema.parse(req.params.serial));
+    res.set('Cache-Control', 'no-cache');
+    res.type('html').send(renderCertificateHtml(certificate, certificates.verifyUrl(certificate.serial)));
+  });
+
+  router.get('/:serial/pdf', async (req, res) => {
+    const certificate = await certificates.getBySerial(certificateSerialSchema.parse(req.params.serial));
+    const pdf = await renderCertificatePdf(certificate, certificates.verifyUrl(certificate.serial));
+    res.set('Cache-Control', 'no-cache');
+    res.attachment(`certificate-${certificate.serial}.pdf`);
+    res.type('pdf').send(pdf);
+  });
+
+  return router;
+}
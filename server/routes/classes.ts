@@ -0,0 +1,259 @@
+/**
+ * Live class API
+ * `/api/classes` is the authoritative place to list and manage live classes.
+ * Everyone signed in can read active classes; admins create and delete them,
+ * and instructors may edit the classes they teach (permissions in shared/rbac.ts).
+ */
+
+import { Router, type Response } from 'express';
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import {
+  classListQuerySchema,
+  classPayloadSchema,
+  classUpdateSchema,
+  type ClassPayload
+} from '@shared/classes';
+import { getServiceSupabase } from '../supabase';
+import { ApiError, getIdentity, paginated, requireAuth } from '../http';
+import type { RbacService } from '../rbac';
+
+// Same shape as getLiveClasses in client/src/lib/api.ts
+const CLASS_SELECT = `
+  id,
+  title,
+  title_bn,
+  description,
+  description_bn,
+  module_id,
+  lesson_id,
+  instructor_id,
+  scheduled_at,
+  duration,
+  meeting_url,
+  recording_url,
+  max_participants,
+  is_active,
+  created_at,
+  course_modules (
+    title,
+    title_bn,
+    level
+  ),
+  instructors (
+    name,
+    name_bn,
+    email
+  ),
+  lessons (
+    title,
+    title_bn
+  )
+`;
+
+const classIdSchema = z.string().uuid();
+
+// Postgres foreign_key_violation: unknown module, lesson or instructor id
+const FOREIGN_KEY_VIOLATION = '23503';
+
+export function createClassesRouter(rbac: RbacService, getDb: () => SupabaseClient | null = getServiceSupabase): Router {
+  const router = Router();
+
+  const requireDb = (): SupabaseClient => {
+    const db = getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Class management is not configured on the server');
+    }
+    return db;
+  };
+
+  router.use(requireAuth);
+
+  /**
+   * List classes, soonest first, filtered by module, instructor and date range
+   */
+  router.get('/', async (req, res) => {
+    const filters = classListQuerySchema.parse(req.query);
+    // Whoever may edit classes also sees inactive ones
+    const staff = await rbac.can(getIdentity(res), 'update', 'live-class');
+    const offset = (filters.page - 1) * filters.page_size;
+
+    let query = requireDb()
+      .from('live_classes')
+      .select(CLASS_SELECT, { count: 'exact' });
+
+    if (!staff || !filters.include_inactive) {
+      query = query.eq('is_active', true);
+    }
+    if (filters.module_id) {
+      query = query.eq('module_id', filters.module_id);
+    }
+    if (filters.instructor_id) {
+      query = query.eq('instructor_id', filters.instructor_id);
+    }
+    if (filters.from) {
+      query = query.gte('scheduled_at', new Date(filters.from).toISOString());
+    }
+    if (filters.to) {
+      query = query.lte('scheduled_at', new Date(filters.to).toISOString());
+    }
+
+    const { data, error, count } = await query
+      .order('scheduled_at')
+      .range(offset, offset + filters.page_size - 1);
+
+    if (error) throw databaseError('list classes', error);
+
+    res.json(paginated(data ?? [], filters.page, filters.page_size, count ?? 0));
+  });
+
+  router.get('/:id', async (req, res) => {
+    const classId = parseClassId(req.params.id);
+    const { data, error } = await requireDb()
+      .from('live_classes')
+      .select(CLASS_SELECT)
+      .eq('id', classId)
+      .maybeSingle();
+
+    if (error) throw databaseError('load class', error);
+
+    // Inactive classes are hidden from students entirely
+    if (!data || (!data.is_active && !(await rbac.can(getIdentity(res), 'update', 'live-class')))) {
+      throw classNotFound();
+    }
+    res.json(data);
+  });
+
+  router.post('/', rbac.requirePermission('create', 'live-class'), async (req, res) => {
+    const db = requireDb();
+    const payload = await withLessonModule(db, classPayloadSchema.parse(req.body));
+    const { data, error } = await db
+      .from('live_classes')
+      .insert(toRow(payload))
+      .select(CLASS_SELECT)
+      .single();
+
+    if (error) throw databaseError('create class', error);
+
+    console.log(`📚 Class ${data.id} created by ${getIdentity(res).userId}`);
+    res.status(201).json(data);
+  });
+
+  router.patch('/:id', rbac.requirePermission('update', 'live-class'), async (req, res) => {
+    const classId = parseClassId(req.params.id);
+    const db = requireDb();
+    const updates = await withLessonModule(db, classUpdateSchema.parse(req.body));
+
+    await assertCanEdit(db, rbac, res, classId, updates.instructor_id);
+
+    const { data, error } = await db
+      .from('live_classes')
+      .update(toRow(updates))
+      .eq('id', classId)
+      .select(CLASS_SELECT)
+      .maybeSingle();
+
+    if (error) throw databaseError('update class', error);
+    if (!data) throw classNotFound();
+
+    res.json(data);
+  });
+
+  router.delete('/:id', rbac.requirePermission('delete', 'live-class'), async (req, res) => {
+    const classId = parseClassId(req.params.id);
+    const { data, error } = await requireDb()
+      .from('live_classes')
+      .delete()
+      .eq('id', classId)
+      .select('id');
+
+    if (error) throw databaseError('delete class', error);
+    if (!data || data.length === 0) throw classNotFound();
+
+    console.log(`🗑️ Class ${classId} deleted by ${getIdentity(res).userId}`);
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+/**
+ * Roles that manage live classes (admins) may edit any class. Instructors may
+ * edit only classes assigned to them and may not hand a class to someone else.
+ */
+async function assertCanEdit(db: SupabaseClient, rbac: RbacService, res: Response, classId: string, newInstructorId?: string | null): Promise<void> {
+  const identity = getIdentity(res);
+  if (await rbac.can(identity, 'manage', 'live-class')) return;
+
+  const [{ data: existing, error: classError }, { data: profiles, error: instructorError }] = await Promise.all([
+    db.from('live_classes').select('instructor_id').eq('id', classId).maybeSingle(),
+    db.from('instructors').select('id').eq('user_id', identity.userId)
+  ]);
+
+  if (classError) throw databaseError('load class', classError);
+  if (instructorError) throw databaseError('load instructor', instructorError);
+  if (!existing) throw classNotFound();
+
+  const ownIds = (profiles ?? []).map(profile => profile.id);
+  if (!existing.instructor_id || !ownIds.includes(existing.instructor_id)) {
+    throw new ApiError(403, 'forbidden', 'You can only edit classes you teach');
+  }
+  if (newInstructorId !== undefined && newInstructorId !== existing.instructor_id) {
+    throw new ApiError(403, 'forbidden', 'Only admins can reassign a class');
+  }
+}
+
+/**
+ * A class that teaches a lesson belongs to the lesson's module: the module
+ * is filled in from the lesson, and a different one is refused
+ */
+async function withLessonModule<T extends Partial<ClassPayload>>(db: SupabaseClient, payload: T): Promise<T> {
+  if (!payload.lesson_id) return payload;
+
+  const { data, error } = await db
+    .from('lessons')
+    .select('course_units (module_id)')
+    .eq('id', payload.lesson_id)
+    .maybeSingle();
+
+  if (error) throw databaseError('load lesson', error);
+
+  const moduleId = (data?.course_units as unknown as { module_id: string } | null)?.module_id;
+  if (!moduleId) {
+    throw new ApiError(400, 'invalid-reference', 'Unknown lesson');
+  }
+  if (payload.module_id && payload.module_id !== moduleId) {
+    throw new ApiError(400, 'lesson-module-mismatch', 'The lesson belongs to a different course module');
+  }
+  return { ...payload, module_id: moduleId };
+}
+
+/**
+ * Column values for live_classes; fields left out of the request fall back
+ * to column defaults on insert and are left untouched on update
+ */
+function toRow(payload: Partial<ClassPayload>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(payload)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, key === 'scheduled_at' ? new Date(value as string).toISOString() : value])
+  );
+}
+
+function parseClassId(value: string): string {
+  const result = classIdSchema.safeParse(value);
+  if (!result.success) throw classNotFound();
+  return result.data;
+}
+
+function classNotFound(): ApiError {
+  return new ApiError(404, 'not-found', 'Class not found');
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError(400, 'invalid-reference', 'Unknown course module, lesson or instructor');
+  }
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
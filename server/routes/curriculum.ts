@@ -0,0 +1,35 @@
+/**
+ * Curriculum API
+ * The course outline with each lesson's state for the caller, lesson
+ * content and lesson completion. Enrollment and prerequisites are checked
+ * by CurriculumService.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { curriculumQuerySchema } from '@shared/curriculum';
+import { getIdentity, requireAuth } from '../http';
+import type { CurriculumService } from '../curriculum';
+import type { RbacService } from '../rbac';
+
+const lessonIdSchema = z.string().uuid();
+
+export function createCurriculumRouter(curriculum: CurriculumService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('view', 'course-content'));
+
+  router.get('/', async (req, res) => {
+    res.json(await curriculum.getOutline(getIdentity(res), curriculumQuerySchema.parse(req.query)));
+  });
+
+  router.get('/lessons/:id', async (req, res) => {
+    res.json(await curriculum.getLesson(getIdentity(res), lessonIdSchema.parse(req.params.id)));
+  });
+
+  router.post('/lessons/:id/complete', async (req, res) => {
+    res.json(await curriculum.completeLesson(getIdentity(res), lessonIdSchema.parse(req.params.id)));
+  });
+
+  return router;
+}
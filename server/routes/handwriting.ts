@@ -0,0 +1,38 @@
+/**
+ * Handwriting practice API
+ * Anyone who can study course content reads the model strokes to check
+ * their writing against; content editors record them.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { handwritingTemplatePayloadSchema } from '@shared/handwriting';
+import { getIdentity, requireAuth } from '../http';
+import type { HandwritingService } from '../handwriting';
+import type { RbacService } from '../rbac';
+
+const idSchema = z.string().uuid();
+
+export function createHandwritingRouter(handwriting: HandwritingService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get('/templates', rbac.requirePermission('view', 'course-content'), async (req, res) => {
+    res.json(await handwriting.listTemplates());
+  });
+
+  router.put('/templates', rbac.requirePermission('update', 'course-content'), async (req, res) => {
+    const template = handwritingTemplatePayloadSchema.parse(req.body ?? {});
+    res.json(await handwriting.saveTemplate(getIdentity(res).userId, template));
+  });
+
+  router.delete('/templates/:id', rbac.requirePermission('delete', 'course-content'), async (req, res) => {
+    const templateId = idSchema.parse(req.params.id);
+    await handwriting.deleteTemplate(templateId);
+    console.log(`🗑️ Handwriting template ${templateId} deleted by ${getIdentity(res).userId}`);
+    res.status(204).end();
+  });
+
+  return router;
+}
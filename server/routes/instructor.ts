@@ -0,0 +1,55 @@
+/**
+ * Instructor portal API
+ * An instructor's own classes: start and end sessions, attendance per
+ * session, homework grading and recordings. Ownership is checked by
+ * InstructorPortalService; the permissions here decide which roles get in.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { homeworkGradeSchema, homeworkQuerySchema, recordingSchema } from '@shared/instructor';
+import { getIdentity, paginated, requireAuth } from '../http';
+import type { InstructorPortalService } from '../instructor-portal';
+import type { RbacService } from '../rbac';
+
+const idSchema = z.string().uuid();
+
+export function createInstructorRouter(portal: InstructorPortalService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('moderate', 'live-class'));
+
+  router.get('/classes', async (req, res) => {
+    res.json(await portal.listClasses(getIdentity(res)));
+  });
+
+  router.post('/classes/:id/session', async (req, res) => {
+    res.json(await portal.startSession(getIdentity(res), idSchema.parse(req.params.id)));
+  });
+
+  router.delete('/classes/:id/session', async (req, res) => {
+    res.json(await portal.endSession(getIdentity(res), idSchema.parse(req.params.id)));
+  });
+
+  router.get('/classes/:id/sessions', rbac.requirePermission('view', 'students'), async (req, res) => {
+    res.json(await portal.listSessions(getIdentity(res), idSchema.parse(req.params.id)));
+  });
+
+  router.put('/classes/:id/recording', rbac.requirePermission('record', 'live-class'), async (req, res) => {
+    const { recording_url } = recordingSchema.parse(req.body ?? {});
+    res.json(await portal.publishRecording(getIdentity(res), idSchema.parse(req.params.id), recording_url));
+  });
+
+  router.get('/homework', rbac.requirePermission('update', 'homework'), async (req, res) => {
+    const query = homeworkQuerySchema.parse(req.query);
+    const { rows, total } = await portal.listHomework(getIdentity(res), query);
+    res.json(paginated(rows, query.page, query.page_size, total));
+  });
+
+  router.put('/homework/:id/grade', rbac.requirePermission('update', 'homework'), async (req, res) => {
+    const grade = homeworkGradeSchema.parse(req.body ?? {});
+    res.json(await portal.gradeHomework(getIdentity(res), idSchema.parse(req.params.id), grade));
+  });
+
+  return router;
+}
@@ -0,0 +1,75 @@
+/**
+ * Payment API
+ * bKash checkout and its callback, and manual Nagad/Rocket submissions.
+ * Every payment is for one installment of the student's enrollment. The
+ * paying user always comes from the bearer token.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { getIdentity, requireAuth } from '../http';
+import type { PaymentService } from '../payments/payment-service';
+
+// 11-digit Bangladeshi mobile number
+const phoneNumberSchema = z.string().trim().regex(/^01[3-9]\d{8}$/, 'Invalid mobile number');
+
+const bkashPaymentSchema = z.object({
+  installmentId: z.string().uuid()
+});
+
+const manualPaymentSchema = z.object({
+  installmentId: z.string().uuid(),
+  paymentMethod: z.enum(['nagad', 'rocket']),
+  transactionId: z.string().trim().regex(/^[A-Za-z0-9]{6,30}$/, 'Invalid transaction id'),
+  phoneNumber: phoneNumberSchema
+});
+
+const callbackQuerySchema = z.object({
+  paymentID: z.string().min(1).max(100),
+  status: z.string().max(20).default('')
+});
+
+export function createPaymentsRouter(payments: PaymentService, appUrl: string): Router {
+  const router = Router();
+
+  router.post('/bkash/create-payment', requireAuth, async (req, res) => {
+    const { installmentId } = bkashPaymentSchema.parse(req.body ?? {});
+    const { paymentID, bkashURL } = await payments.startBkashPayment(getIdentity(res).userId, installmentId);
+    res.json({ success: true, paymentID, bkashURL });
+  });
+
+  // bKash redirects the customer's browser here, so the result is shown by
+  // sending them back to the registration page rather than as JSON
+  router.get('/bkash/callback', async (req, res) => {
+    const query = callbackQuerySchema.safeParse(req.query);
+    let outcome = 'failed';
+
+    if (query.success) {
+      try {
+        outcome = await payments.handleBkashCallback(query.data.paymentID, query.data.status);
+      } catch (error) {
+        console.error('❌ bKash callback failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    res.redirect(`${appUrl}/course-registration?payment=${outcome}`);
+  });
+
+  router.post('/manual-payment', requireAuth, async (req, res) => {
+    const input = manualPaymentSchema.parse(req.body);
+    const record = await payments.submitManualPayment(getIdentity(res).userId, {
+      installmentId: input.installmentId,
+      method: input.paymentMethod,
+      transactionId: input.transactionId,
+      phoneNumber: input.phoneNumber
+    });
+
+    res.status(201).json({
+      success: true,
+      paymentId: record.payment_id,
+      message: 'Payment submitted for verification'
+    });
+  });
+
+  return router;
+}
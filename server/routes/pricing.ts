@@ -0,0 +1,37 @@
+/**
+ * Pricing API
+ * The course catalog, price quotes with coupons, and the signed-in
+ * student's enrollments, installments and live-class access.
+ */
+
+import { Router } from 'express';
+import { enrollmentRequestSchema } from '@shared/pricing';
+import { getIdentity, requireAuth } from '../http';
+import type { PricingService } from '../payments/pricing';
+
+export function createPricingRouter(pricing: PricingService): Router {
+  const router = Router();
+
+  router.get('/catalog', async (req, res) => {
+    res.json(await pricing.listCatalog());
+  });
+
+  router.post('/quote', requireAuth, async (req, res) => {
+    res.json(await pricing.quote(enrollmentRequestSchema.parse(req.body ?? {})));
+  });
+
+  router.get('/enrollments', requireAuth, async (req, res) => {
+    res.json(await pricing.listEnrollments(getIdentity(res).userId));
+  });
+
+  router.post('/enrollments', requireAuth, async (req, res) => {
+    const request = enrollmentRequestSchema.parse(req.body ?? {});
+    res.status(201).json(await pricing.enroll(getIdentity(res).userId, request));
+  });
+
+  router.get('/access', requireAuth, async (req, res) => {
+    res.json(await pricing.getAccess(getIdentity(res).userId, null));
+  });
+
+  return router;
+}
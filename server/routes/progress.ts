@@ -0,0 +1,29 @@
+/**
+ * Progress API
+ * A student's computed course progress with its per-module breakdown;
+ * staff who may view students can read anyone's.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { getIdentity, requireAuth } from '../http';
+import type { ProgressService } from '../progress';
+import type { RbacService } from '../rbac';
+
+const userIdSchema = z.string().uuid();
+
+export function createProgressRouter(progress: ProgressService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get('/', async (req, res) => {
+    res.json(await progress.getProgress(getIdentity(res).userId));
+  });
+
+  router.get('/users/:id', rbac.requirePermission('view', 'students'), async (req, res) => {
+    res.json(await progress.getProgress(userIdSchema.parse(req.params.id)));
+  });
+
+  return router;
+}
@@ -0,0 +1,40 @@
+/**
+ * Pronunciation practice API
+ * Students save and list their scored recordings; staff who may view
+ * students review everyone's attempts.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { pronunciationAttemptSchema, pronunciationReviewQuerySchema } from '@shared/pronunciation';
+import { getIdentity, paginated, requireAuth } from '../http';
+import type { PronunciationService } from '../pronunciation';
+import type { RbacService } from '../rbac';
+
+const ownAttemptsQuerySchema = z.object({
+  lesson_id: z.string().uuid().optional()
+});
+
+export function createPronunciationRouter(pronunciation: PronunciationService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get('/attempts', rbac.requirePermission('view', 'course-content'), async (req, res) => {
+    const { lesson_id } = ownAttemptsQuerySchema.parse(req.query);
+    res.json(await pronunciation.listOwnAttempts(getIdentity(res).userId, lesson_id));
+  });
+
+  router.post('/attempts', rbac.requirePermission('view', 'course-content'), async (req, res) => {
+    const attempt = pronunciationAttemptSchema.parse(req.body ?? {});
+    res.status(201).json(await pronunciation.recordAttempt(getIdentity(res), attempt));
+  });
+
+  router.get('/review', rbac.requirePermission('view', 'students'), async (req, res) => {
+    const query = pronunciationReviewQuerySchema.parse(req.query);
+    const { rows, total } = await pronunciation.listForReview(query);
+    res.json(paginated(rows, query.page, query.page_size, total));
+  });
+
+  return router;
+}
@@ -0,0 +1,36 @@
+/**
+ * Quizzes API
+ * A quiz lesson's rules and the student's attempts, starting an attempt and
+ * submitting its answers. Access to the lesson is checked by
+ * CurriculumService; grading happens in QuizService.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { quizSubmissionSchema } from '@shared/quizzes';
+import { getIdentity, requireAuth } from '../http';
+import type { QuizService } from '../quizzes';
+import type { RbacService } from '../rbac';
+
+const idSchema = z.string().uuid();
+
+export function createQuizzesRouter(quizzes: QuizService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth, rbac.requirePermission('view', 'course-content'));
+
+  router.get('/lessons/:id', async (req, res) => {
+    res.json(await quizzes.getOverview(getIdentity(res), idSchema.parse(req.params.id)));
+  });
+
+  router.post('/lessons/:id/attempts', async (req, res) => {
+    res.status(201).json(await quizzes.startAttempt(getIdentity(res), idSchema.parse(req.params.id)));
+  });
+
+  router.post('/attempts/:id/submit', async (req, res) => {
+    const submission = quizSubmissionSchema.parse(req.body ?? {});
+    res.json(await quizzes.submitAttempt(getIdentity(res), idSchema.parse(req.params.id), submission));
+  });
+
+  return router;
+}
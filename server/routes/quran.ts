@@ -0,0 +1,24 @@
+/**
+ * Quran API
+ * The Quran text with its translation and word meanings, by surah, juz or
+ * mushaf page. It is public reference material, so signing in is not needed.
+ */
+
+import { Router } from 'express';
+import { quranAyahQuerySchema } from '@shared/quran';
+import type { QuranService } from '../quran';
+
+export function createQuranRouter(quran: QuranService): Router {
+  const router = Router();
+
+  router.get('/index', async (req, res) => {
+    res.json(await quran.getIndex());
+  });
+
+  router.get('/ayahs', async (req, res) => {
+    const query = quranAyahQuerySchema.parse(req.query);
+    res.json(await quran.getAyahs(query));
+  });
+
+  return router;
+}
@@ -0,0 +1,49 @@
+/**
+ * Receipts API
+ * The signed-in student's receipts and the printable receipt page, plus the
+ * signed public link sent by email and SMS.
+ */
+
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { getIdentity, requireAuth } from '../http';
+import { renderReceiptHtml, type ReceiptDocument, type ReceiptLanguage, type ReceiptService } from '../payments/receipts';
+
+const receiptQuerySchema = z.object({
+  lang: z.enum(['bn', 'en']).default('bn')
+});
+
+const signedQuerySchema = z.object({
+  lang: z.enum(['bn', 'en']).default('bn'),
+  sig: z.string().min(1).max(100)
+});
+
+const invoiceNumberSchema = z.string().regex(/^ALP-\d{4}-\d{6}$/, 'Invalid invoice number');
+
+export function createReceiptsRouter(receipts: ReceiptService): Router {
+  const router = Router();
+
+  router.get('/', requireAuth, async (req, res) => {
+    res.json(await receipts.listForUser(getIdentity(res).userId));
+  });
+
+  router.get('/:invoiceNumber', requireAuth, async (req, res) => {
+    const invoiceNumber = invoiceNumberSchema.parse(req.params.invoiceNumber);
+    const query = receiptQuerySchema.parse(req.query);
+    const receipt = await receipts.getForViewer(invoiceNumber, getIdentity(res));
+    sendReceipt(res, receipt, query.lang);
+  });
+
+  router.get('/:invoiceNumber/view', async (req, res) => {
+    const invoiceNumber = invoiceNumberSchema.parse(req.params.invoiceNumber);
+    const query = signedQuerySchema.parse(req.query);
+    sendReceipt(res, await receipts.getBySignature(invoiceNumber, query.sig), query.lang);
+  });
+
+  return router;
+}
+
+function sendReceipt(res: Response, receipt: ReceiptDocument, lang: ReceiptLanguage): void {
+  res.set('Cache-Control', 'private, no-store');
+  res.type('html').send(renderReceiptHtml(receipt, lang));
+}
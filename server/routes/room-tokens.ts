@@ -0,0 +1,43 @@
+/**
+ * Room token API
+ * Exchanges the caller's Supabase session for a token that admits them to one
+ * signaling room (server/auth.ts). Whether they get past the room's
+ * enrollment and capacity rules is still decided when they join.
+ */
+
+import { Router } from 'express';
+import { roomTokenRequestSchema, type RoomToken } from '@shared/signaling';
+import { signRoomToken } from '../auth';
+import { getIdentity, requireAuth } from '../http';
+import type { RbacService } from '../rbac';
+
+const ROOM_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export function createRoomTokensRouter(rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.post('/', rbac.requirePermission('join', 'video-room'), async (req, res) => {
+    const { roomId } = roomTokenRequestSchema.parse(req.body ?? {});
+    const identity = getIdentity(res);
+    const issued = Date.now();
+    // Never outlive the session the token was issued from
+    const expires = Math.min(issued + ROOM_TOKEN_TTL_MS, identity.expiresAt);
+
+    const token = signRoomToken({
+      userId: identity.userId,
+      roomId,
+      displayName: identity.displayName,
+      role: identity.role,
+      permissions: { canModerate: await rbac.can(identity, 'moderate', 'video-room') },
+      issued,
+      expires
+    });
+
+    const response: RoomToken = { token, roomId, expiresAt: new Date(expires).toISOString() };
+    res.json(response);
+  });
+
+  return router;
+}
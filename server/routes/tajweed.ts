@@ -0,0 +1,20 @@
+/**
+ * Tajweed API
+ * Annotates vocalized Quranic text with the tajweed rules that apply to it
+ * (shared/tajweed.ts). The text is not stored, so signing in is not needed.
+ */
+
+import { Router } from 'express';
+import { annotateTajweed, tajweedRequestSchema, type TajweedAnalysis } from '@shared/tajweed';
+
+export function createTajweedRouter(): Router {
+  const router = Router();
+
+  router.post('/annotate', (req, res) => {
+    const { text } = tajweedRequestSchema.parse(req.body ?? {});
+    const analysis: TajweedAnalysis = { text, annotations: annotateTajweed(text) };
+    res.json(analysis);
+  });
+
+  return router;
+}
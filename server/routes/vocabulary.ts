@@ -0,0 +1,32 @@
+/**
+ * Vocabulary practice API
+ * A student's daily review queue and their reviews; staff who may view
+ * students see who is falling behind.
+ */
+
+import { Router } from 'express';
+import { vocabularyReviewSchema } from '@shared/vocabulary';
+import { getIdentity, requireAuth } from '../http';
+import type { RbacService } from '../rbac';
+import type { VocabularyService } from '../vocabulary';
+
+export function createVocabularyRouter(vocabulary: VocabularyService, rbac: RbacService): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get('/queue', rbac.requirePermission('view', 'course-content'), async (req, res) => {
+    res.json(await vocabulary.getQueue(getIdentity(res).userId));
+  });
+
+  router.post('/reviews', rbac.requirePermission('view', 'course-content'), async (req, res) => {
+    const review = vocabularyReviewSchema.parse(req.body ?? {});
+    res.json(await vocabulary.review(getIdentity(res).userId, review));
+  });
+
+  router.get('/learners', rbac.requirePermission('view', 'students'), async (req, res) => {
+    res.json(await vocabulary.listLearners());
+  });
+
+  return router;
+}
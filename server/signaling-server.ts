@@ -0,0 +1,801 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage, Server } from 'http';
+import { randomUUID } from 'crypto';
+import { AuthError, extractToken, verifySignalingToken, type SignalingIdentity, type SignalingRole } from './auth';
+import {
+  encodeMessage,
+  parseClientMessage,
+  type ClientMessage,
+  type ParticipantInfo,
+  type ServerMessageBody,
+  type SignalingErrorCode
+} from '@shared/signaling';
+import { InMemoryRoomState, type RoomEnvelope, type RoomMember, type RoomStateAdapter } from './room-state';
+import { AdmissionError, AdmissionService } from './admission';
+
+// Room-based participant tracking for multi-user video
+export interface Participant {
+  // Address used by the protocol; equals userId unless multi-device is allowed
+  id: string;
+  // Unique per join, so a stale removal cannot drop a newer join of the same id
+  joinId: string;
+  userId: string;
+  roomId: string;
+  displayName: string;
+  role: SignalingRole;
+  // null while the participant is reconnecting
+  ws: WebSocket | null;
+  joinedAt: Date;
+  // Last frame or pong received from the participant's socket
+  lastSeen: Date;
+  sessionId: string;
+  // Frames addressed to the participant while it was reconnecting
+  missed: ServerMessageBody[];
+  graceTimer: NodeJS.Timeout | null;
+}
+
+interface Connection {
+  identity: SignalingIdentity;
+  participant: Participant | null;
+  // Messages from one socket are handled in order even though handlers are async
+  queue: Promise<void>;
+  // Cleared when a ping goes out, set again by the pong (or any frame)
+  isAlive: boolean;
+  lastSeen: Date;
+  // Closes the socket when the token it connected with expires
+  expiryTimer: NodeJS.Timeout;
+}
+
+/**
+ * What happens when a user who is already in a room joins it again:
+ * - kick-old: the new connection replaces the old one
+ * - reject-new: the new join is refused while the old connection is live
+ * - multi-device: both stay, with distinct participant ids
+ */
+export type DuplicateSessionPolicy = 'kick-old' | 'reject-new' | 'multi-device';
+
+/**
+ * Told about every stay in a room once the participant is gone for good
+ * (left, resume window expired or replaced by a newer join)
+ */
+export interface AttendanceRecorder {
+  recordVisit(roomId: string, userId: string, joinedAt: Date, leftAt: Date): Promise<void>;
+}
+
+export interface SignalingServerOptions {
+  path?: string;
+  roomState?: RoomStateAdapter;
+  admission?: AdmissionService;
+  attendance?: AttendanceRecorder;
+  duplicateSessionPolicy?: DuplicateSessionPolicy;
+  // How long a dropped participant keeps its slot and can `resume`; 0 disables resume
+  resumeGraceMs?: number;
+  // Interval between liveness pings; a socket that misses one pong is terminated
+  heartbeatIntervalMs?: number;
+}
+
+// Upper bound on frames buffered for one reconnecting participant
+const MAX_MISSED_FRAMES = 500;
+
+/**
+ * Signaling server for multi-user video
+ * Speaks the versioned protocol in shared/signaling.ts on the `/ws` path.
+ * Room membership and delivery go through a RoomStateAdapter, so rooms can
+ * span several server processes. Resumable sessions are held by the node that
+ * issued them, so resuming needs the reconnect to reach the same node.
+ */
+export class SignalingServer {
+  private wss: WebSocketServer;
+  private roomState: RoomStateAdapter;
+  private admission: AdmissionService;
+  private attendance: AttendanceRecorder | null;
+  private duplicateSessionPolicy: DuplicateSessionPolicy;
+  private resumeGraceMs: number;
+  private heartbeatIntervalMs: number;
+  private heartbeatTimer: NodeJS.Timeout;
+  private liveness = {
+    lastSweepAt: null as Date | null,
+    evictedConnections: 0
+  };
+  // Participants whose sockets are held by this node
+  private rooms = new Map<string, Map<string, Participant>>();
+  private connections = new Map<WebSocket, Connection>();
+  private sessions = new Map<string, Participant>();
+  // Identities verified during the upgrade, keyed by the upgrade request
+  private verifiedIdentities = new WeakMap<IncomingMessage, SignalingIdentity>();
+
+  constructor(server: Server, options: SignalingServerOptions = {}) {
+    this.roomState = options.roomState ?? new InMemoryRoomState();
+    this.admission = options.admission ?? new AdmissionService();
+    this.attendance = options.attendance ?? null;
+    this.duplicateSessionPolicy = options.duplicateSessionPolicy ?? 'kick-old';
+    this.resumeGraceMs = options.resumeGraceMs ?? 30000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000;
+
+    this.wss = new WebSocketServer({
+      server,
+      path: options.path ?? '/ws',
+      // Require a Supabase JWT or signed room token before upgrading the connection
+      verifyClient: (info, callback) => this.verifyClient(info.req, callback),
+      perMessageDeflate: {
+        threshold: 1024,
+        serverMaxWindowBits: 15,
+        clientMaxWindowBits: 15,
+      }
+    });
+
+    this.wss.on('connection', (ws, req) => this.handleConnection(ws, req));
+
+    this.heartbeatTimer = setInterval(() => this.performHeartbeat(), this.heartbeatIntervalMs);
+    this.wss.on('close', () => clearInterval(this.heartbeatTimer));
+  }
+
+  /**
+   * Authenticate the upgrade request
+   */
+  private verifyClient(req: IncomingMessage, callback: (result: boolean, code?: number, message?: string) => void): void {
+    const token = extractToken(req);
+    if (!token) {
+      console.warn('🔒 WebSocket connection rejected: missing token');
+      callback(false, 401, 'Unauthorized');
+      return;
+    }
+
+    try {
+      this.verifiedIdentities.set(req, verifySignalingToken(token));
+      callback(true);
+    } catch (error) {
+      const status = error instanceof AuthError ? error.status : 401;
+      console.warn('🔒 WebSocket connection rejected:', error instanceof Error ? error.message : error);
+      callback(false, status, status === 401 ? 'Unauthorized' : 'Authentication unavailable');
+    }
+  }
+
+  /**
+   * Set up a newly authenticated connection
+   */
+  private handleConnection(ws: WebSocket, req: IncomingMessage): void {
+    const identity = this.verifiedIdentities.get(req);
+    if (!identity) {
+      ws.close(4401, 'Unauthorized');
+      return;
+    }
+
+    console.log(`🔌 New WebSocket connection established for ${identity.userId} (${identity.source})`);
+    const connection: Connection = {
+      identity,
+      participant: null,
+      queue: Promise.resolve(),
+      isAlive: true,
+      lastSeen: new Date(),
+      // The token is only checked on upgrade. 4408 is not final for clients:
+      // they reconnect with a fresh token and resume their session.
+      expiryTimer: setTimeout(() => {
+        console.log(`🔒 Token of ${identity.userId} expired, closing connection`);
+        ws.close(4408, 'Token expired');
+      }, Math.max(0, identity.expiresAt - Date.now()))
+    };
+    this.connections.set(ws, connection);
+
+    ws.on('pong', () => this.markSeen(connection));
+
+    ws.on('message', (data) => {
+      this.markSeen(connection);
+
+      const result = parseClientMessage(data.toString());
+      if (!result.ok) {
+        console.warn('⚠️ Rejected signaling message:', result.error.code, result.error.message);
+        this.send(ws, result.error);
+        return;
+      }
+
+      const message = result.message;
+      connection.queue = connection.queue
+        .then(() => this.handleMessage(ws, connection, message))
+        .catch((error) => {
+          console.error(`❌ Error handling ${message.type}:`, error);
+          this.sendError(ws, 'internal-error', `Failed to process ${message.type}`, message.type);
+        });
+    });
+
+    ws.on('close', () => {
+      console.log('🔌 WebSocket connection closed');
+      clearTimeout(connection.expiryTimer);
+      connection.queue = connection.queue
+        .then(() => this.handleDisconnect(connection))
+        .catch((error) => console.error('❌ Error handling disconnect:', error))
+        .finally(() => this.connections.delete(ws));
+    });
+
+    ws.on('error', (error) => {
+      console.error('❌ WebSocket error:', error);
+    });
+  }
+
+  /**
+   * Record activity on a connection and its participant
+   */
+  private markSeen(connection: Connection): void {
+    connection.isAlive = true;
+    connection.lastSeen = new Date();
+    if (connection.participant) {
+      connection.participant.lastSeen = connection.lastSeen;
+    }
+  }
+
+  /**
+   * Ping every socket and terminate the ones that did not answer the previous ping.
+   * Terminating fires `close`, which puts the participant into the resume grace
+   * period and broadcasts `participant-left` once it expires.
+   */
+  private performHeartbeat(): void {
+    this.liveness.lastSweepAt = new Date();
+
+    this.connections.forEach((connection, ws) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+
+      if (!connection.isAlive) {
+        const idleSeconds = Math.round((Date.now() - connection.lastSeen.getTime()) / 1000);
+        console.warn(`💀 Evicting unresponsive connection for ${connection.identity.userId} (idle ${idleSeconds}s)`);
+        this.liveness.evictedConnections++;
+        ws.terminate();
+        return;
+      }
+
+      connection.isAlive = false;
+      ws.ping();
+    });
+  }
+
+  /**
+   * Dispatch a validated client message
+   */
+  private async handleMessage(ws: WebSocket, connection: Connection, message: ClientMessage): Promise<void> {
+    switch (message.type) {
+      case 'join-room':
+        await this.handleJoinRoom(ws, connection, message.roomId);
+        return;
+
+      case 'resume':
+        await this.handleResume(ws, connection, message.sessionId);
+        return;
+
+      case 'ping':
+        this.send(ws, { type: 'pong' });
+        return;
+    }
+
+    const participant = connection.participant;
+    if (!participant) {
+      this.sendError(ws, 'not-in-room', 'Join a room before sending this message', message.type);
+      return;
+    }
+
+    switch (message.type) {
+      case 'leave-room':
+        console.log(`👋 User ${participant.userId} leaving room ${participant.roomId}`);
+        connection.participant = null;
+        await this.removeParticipant(participant);
+        break;
+
+      case 'webrtc-signal':
+        await this.handleWebRTCSignaling(ws, participant, message.toParticipantId, message.signal);
+        break;
+
+      case 'media-state-change':
+        console.log(`🎥 Media state change for ${participant.userId}: video=${message.isVideoEnabled}, audio=${message.isAudioEnabled}`);
+        await this.broadcastToRoom(participant.roomId, {
+          type: 'participant-media-changed',
+          roomId: participant.roomId,
+          participantId: participant.id,
+          userId: participant.userId,
+          isVideoEnabled: message.isVideoEnabled,
+          isAudioEnabled: message.isAudioEnabled,
+          isScreenSharing: message.isScreenSharing ?? false
+        }, participant.id);
+        break;
+
+      case 'chat':
+        await this.broadcastToRoom(participant.roomId, {
+          type: 'chat',
+          roomId: participant.roomId,
+          participantId: participant.id,
+          userId: participant.userId,
+          displayName: participant.displayName,
+          text: message.text,
+          sentAt: new Date().toISOString()
+        });
+        break;
+    }
+  }
+
+  /**
+   * Handle participant joining a room
+   */
+  private async handleJoinRoom(ws: WebSocket, connection: Connection, roomId: string): Promise<void> {
+    // Identity comes from the verified token, never from the message body
+    const { identity } = connection;
+    const { userId, displayName, role } = identity;
+
+    if (identity.roomId && identity.roomId !== roomId) {
+      console.warn(`🔒 User ${userId} tried to join ${roomId} with a token for ${identity.roomId}`);
+      this.sendError(ws, 'forbidden', 'Token is not valid for this room', 'join-room');
+      ws.close(4403, 'Forbidden');
+      return;
+    }
+
+    // Switching rooms on the same socket leaves the previous one first
+    if (connection.participant) {
+      const previous = connection.participant;
+      connection.participant = null;
+      await this.removeParticipant(previous);
+    }
+
+    let members: RoomMember[];
+    try {
+      members = await this.admit(connection, roomId);
+    } catch (error) {
+      if (!(error instanceof AdmissionError)) throw error;
+      console.warn(`🚫 User ${userId} refused from room ${roomId}: ${error.code}`);
+      this.sendError(ws, error.code, error.message, 'join-room');
+      return;
+    }
+
+    console.log(`👤 User ${displayName} (${userId}) joining room ${roomId} as ${role}`);
+
+    const participant: Participant = {
+      id: this.duplicateSessionPolicy === 'multi-device' ? `${userId}:${randomUUID().slice(0, 8)}` : userId,
+      joinId: randomUUID(),
+      userId,
+      roomId,
+      displayName,
+      role,
+      ws,
+      joinedAt: new Date(),
+      lastSeen: connection.lastSeen,
+      sessionId: randomUUID(),
+      missed: [],
+      graceTimer: null
+    };
+
+    connection.participant = participant;
+
+    if (!this.rooms.has(roomId)) {
+      this.rooms.set(roomId, new Map());
+      await this.roomState.subscribe(roomId, (id, envelope) => this.deliverLocally(id, envelope));
+    }
+
+    this.rooms.get(roomId)!.set(participant.id, participant);
+    this.sessions.set(participant.sessionId, participant);
+    await this.roomState.addMember(roomId, this.toRoomMember(participant));
+
+    // Send current participants (on every node) to new user
+    this.send(ws, {
+      type: 'room-joined',
+      roomId,
+      self: this.toParticipantInfo(participant),
+      participants: members.map(member => this.memberInfo(member)),
+      sessionId: participant.sessionId,
+      resumeWindowMs: this.resumeGraceMs
+    });
+
+    // Notify others about new participant
+    await this.broadcastToRoom(roomId, {
+      type: 'participant-joined',
+      roomId,
+      participant: this.toParticipantInfo(participant)
+    }, participant.id);
+
+    console.log(`✅ Room ${roomId} now has ${members.length + 1} participants`);
+  }
+
+  /**
+   * Apply enrollment, duplicate-session and capacity rules for a join.
+   * Returns the members that remain in the room; throws AdmissionError to refuse.
+   * Capacity is checked against a snapshot, so concurrent joins can overshoot by a few.
+   */
+  private async admit(connection: Connection, roomId: string): Promise<RoomMember[]> {
+    const { identity } = connection;
+    const staff = await this.admission.isStaff(identity);
+
+    const policy = staff ? null : await this.admission.getRoomPolicy(roomId);
+    if (policy?.classId) {
+      await this.admission.assertCanAttend(identity, policy);
+    }
+
+    let members = await this.roomState.getMembers(roomId);
+    const ownMembers = members.filter(member => member.userId === identity.userId);
+
+    if (ownMembers.length > 0 && this.duplicateSessionPolicy !== 'multi-device') {
+      // A join while the old connection is reconnecting is the same person coming back
+      if (this.duplicateSessionPolicy === 'reject-new' && ownMembers.some(member => member.connectionState === 'connected')) {
+        throw new AdmissionError('duplicate-session', 'You are already in this room on another device or tab');
+      }
+
+      for (const member of ownMembers) {
+        await this.evictMember(roomId, member);
+      }
+      members = members.filter(member => member.userId !== identity.userId);
+    }
+
+    if (policy && members.length >= policy.maxParticipants) {
+      throw new AdmissionError('room-full', `This room is full (${policy.maxParticipants} participants)`);
+    }
+
+    return members;
+  }
+
+  /**
+   * Drop an earlier join of the same user, wherever it is connected
+   */
+  private async evictMember(roomId: string, member: RoomMember): Promise<void> {
+    console.log(`♻️ Replacing earlier session of ${member.userId} in room ${roomId}`);
+    await this.roomState.publish(roomId, { kind: 'evict', participantId: member.id, joinId: member.joinId });
+
+    if (await this.roomState.removeMember(roomId, member.id, member.joinId)) {
+      await this.broadcastToRoom(roomId, {
+        type: 'participant-left',
+        roomId,
+        participantId: member.id,
+        userId: member.userId
+      }, member.id);
+    }
+  }
+
+  /**
+   * Reattach a reconnecting participant to a new socket and replay what it missed
+   */
+  private async handleResume(ws: WebSocket, connection: Connection, sessionId: string): Promise<void> {
+    const participant = this.sessions.get(sessionId);
+
+    // Sessions are bound to the user that opened them
+    if (!participant || participant.userId !== connection.identity.userId || participant.ws === ws) {
+      this.sendError(ws, 'session-expired', 'Session cannot be resumed; join the room again', 'resume');
+      return;
+    }
+
+    // The old socket may still look open if the server has not noticed the drop yet
+    if (participant.ws) {
+      const staleConnection = this.connections.get(participant.ws);
+      if (staleConnection) staleConnection.participant = null;
+      participant.ws.close(4001, 'Session resumed on another connection');
+    }
+
+    if (connection.participant) {
+      const previous = connection.participant;
+      connection.participant = null;
+      await this.removeParticipant(previous);
+    }
+
+    if (participant.graceTimer) {
+      clearTimeout(participant.graceTimer);
+      participant.graceTimer = null;
+    }
+
+    const missed = participant.missed;
+    participant.missed = [];
+    participant.ws = ws;
+    participant.lastSeen = connection.lastSeen;
+    connection.participant = participant;
+
+    const { roomId, userId } = participant;
+    console.log(`🔁 User ${userId} resumed session in room ${roomId} (${missed.length} missed frames)`);
+
+    await this.roomState.addMember(roomId, this.toRoomMember(participant));
+    const members = await this.roomState.getMembers(roomId);
+
+    this.send(ws, {
+      type: 'session-resumed',
+      roomId,
+      self: this.toParticipantInfo(participant),
+      participants: members
+        .filter(member => member.id !== participant.id)
+        .map(member => this.memberInfo(member)),
+      sessionId,
+      resumeWindowMs: this.resumeGraceMs,
+      replayed: missed.length
+    });
+    missed.forEach(message => this.send(ws, message));
+
+    await this.broadcastToRoom(roomId, { type: 'participant-resumed', roomId, participantId: participant.id, userId }, participant.id);
+  }
+
+  /**
+   * Forward a WebRTC signal to one participant in the sender's room
+   */
+  private async handleWebRTCSignaling(
+    ws: WebSocket,
+    sender: Participant,
+    toParticipantId: string,
+    signal: Extract<ClientMessage, { type: 'webrtc-signal' }>['signal']
+  ): Promise<void> {
+    const target = await this.roomState.getMember(sender.roomId, toParticipantId);
+    if (!target) {
+      this.sendError(ws, 'peer-not-found', `Participant ${toParticipantId} is not in this room`, 'webrtc-signal');
+      return;
+    }
+
+    console.log(`📡 WebRTC ${signal.type} from ${sender.id} to ${toParticipantId} in room ${sender.roomId}`);
+    await this.roomState.publish(sender.roomId, {
+      kind: 'direct',
+      toParticipantId,
+      message: {
+        type: 'webrtc-signal',
+        roomId: sender.roomId,
+        fromParticipantId: sender.id,
+        fromUserId: sender.userId,
+        signal
+      }
+    });
+  }
+
+  /**
+   * A socket closed: hold the participant's slot for the grace period instead
+   * of tearing down everyone's peer connections straight away
+   */
+  private async handleDisconnect(connection: Connection): Promise<void> {
+    const participant = connection.participant;
+    if (!participant) return;
+
+    connection.participant = null;
+
+    if (this.resumeGraceMs <= 0) {
+      await this.removeParticipant(participant);
+      return;
+    }
+
+    const { roomId, userId } = participant;
+    participant.ws = null;
+    participant.graceTimer = setTimeout(() => {
+      participant.graceTimer = null;
+      console.log(`⌛ Resume window expired for ${userId} in room ${roomId}`);
+      this.removeParticipant(participant).catch(error => console.error('❌ Error removing participant:', error));
+    }, this.resumeGraceMs);
+
+    console.log(`📴 User ${userId} reconnecting in room ${roomId} (${this.resumeGraceMs}ms grace)`);
+
+    // Only advertise the state if this join still owns the participant's slot
+    const member = await this.roomState.getMember(roomId, participant.id);
+    if (member?.joinId === participant.joinId) {
+      await this.roomState.addMember(roomId, { ...member, connectionState: 'reconnecting' });
+      await this.broadcastToRoom(roomId, {
+        type: 'participant-reconnecting',
+        roomId,
+        participantId: participant.id,
+        userId
+      }, participant.id);
+    }
+  }
+
+  /**
+   * Forget a session without announcing anything; its slot has been taken over
+   */
+  private discardSession(participant: Participant): void {
+    if (participant.graceTimer) {
+      clearTimeout(participant.graceTimer);
+      participant.graceTimer = null;
+    }
+    participant.missed = [];
+    this.sessions.delete(participant.sessionId);
+  }
+
+  /**
+   * Remove a participant from its room and notify the room
+   */
+  private async removeParticipant(participant: Participant): Promise<void> {
+    const { roomId, userId } = participant;
+    this.detachLocal(participant);
+
+    if (await this.roomState.removeMember(roomId, participant.id, participant.joinId)) {
+      await this.broadcastToRoom(roomId, {
+        type: 'participant-left',
+        roomId,
+        participantId: participant.id,
+        userId
+      }, participant.id);
+    }
+
+    await this.releaseRoomIfEmpty(roomId);
+  }
+
+  /**
+   * Forget a participant on this node without touching shared room state
+   */
+  private detachLocal(participant: Participant): void {
+    // A participant is detached once; later calls find its session gone
+    if (this.sessions.has(participant.sessionId) && this.attendance) {
+      const { roomId, userId, joinedAt } = participant;
+      this.attendance.recordVisit(roomId, userId, joinedAt, new Date())
+        .catch(error => console.error('❌ Error recording attendance:', error));
+    }
+    this.discardSession(participant);
+
+    // A newer join with the same participant id may already own the slot
+    const room = this.rooms.get(participant.roomId);
+    if (room?.get(participant.id) === participant) {
+      room.delete(participant.id);
+    }
+  }
+
+  /**
+   * Stop listening once this node holds nobody in the room
+   */
+  private async releaseRoomIfEmpty(roomId: string): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    if (room.size === 0) {
+      this.rooms.delete(roomId);
+      await this.roomState.unsubscribe(roomId);
+      console.log(`🗑️ Room ${roomId} has no local participants`);
+    } else {
+      console.log(`📊 Room ${roomId} now has ${room.size} local participants`);
+    }
+  }
+
+  /**
+   * Broadcast message to all participants in a room, on every node, except the sender
+   */
+  private async broadcastToRoom(roomId: string, message: ServerMessageBody, excludeParticipantId?: string): Promise<void> {
+    await this.roomState.publish(roomId, { kind: 'broadcast', message, excludeParticipantId });
+  }
+
+  /**
+   * Deliver room traffic from the adapter to the sockets this node holds
+   */
+  private deliverLocally(roomId: string, envelope: RoomEnvelope): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    if (envelope.kind === 'evict') {
+      const target = room.get(envelope.participantId);
+      if (target?.joinId === envelope.joinId) {
+        this.dropReplacedParticipant(target);
+      }
+      return;
+    }
+
+    if (envelope.kind === 'direct') {
+      const target = room.get(envelope.toParticipantId);
+      if (target) {
+        this.deliverTo(target, envelope.message);
+      }
+      return;
+    }
+
+    room.forEach(participant => {
+      if (participant.id !== envelope.excludeParticipantId) {
+        this.deliverTo(participant, envelope.message);
+      }
+    });
+  }
+
+  /**
+   * Close the connection of a participant replaced by a newer join. The joining
+   * node updates shared state and announces the departure.
+   */
+  private dropReplacedParticipant(participant: Participant): void {
+    const ws = participant.ws;
+    this.detachLocal(participant);
+
+    if (ws) {
+      const connection = this.connections.get(ws);
+      if (connection) connection.participant = null;
+      this.sendError(ws, 'session-replaced', 'You joined this room from another device or tab');
+      ws.close(4409, 'Session replaced');
+    }
+
+    this.releaseRoomIfEmpty(participant.roomId).catch(error => console.error('❌ Error releasing room:', error));
+  }
+
+  /**
+   * Send to a participant, or buffer for replay while it is reconnecting
+   */
+  private deliverTo(participant: Participant, message: ServerMessageBody): void {
+    if (participant.ws) {
+      this.send(participant.ws, message);
+      return;
+    }
+
+    participant.missed.push(message);
+    if (participant.missed.length > MAX_MISSED_FRAMES) {
+      participant.missed.shift();
+      console.warn(`⚠️ Missed-frame buffer full for ${participant.userId}, dropping oldest frame`);
+    }
+  }
+
+  private send(ws: WebSocket, message: ServerMessageBody): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(encodeMessage(message));
+    }
+  }
+
+  private sendError(ws: WebSocket, code: SignalingErrorCode, message: string, requestType?: string): void {
+    this.send(ws, { type: 'error', code, message, requestType });
+  }
+
+  private toRoomMember(participant: Participant): RoomMember {
+    return {
+      ...this.toParticipantInfo(participant),
+      nodeId: this.roomState.nodeId,
+      joinId: participant.joinId
+    };
+  }
+
+  /**
+   * Strip server-only fields before a member is sent to clients
+   */
+  private memberInfo({ nodeId, joinId, ...info }: RoomMember): ParticipantInfo {
+    return info;
+  }
+
+  private toParticipantInfo(participant: Participant): ParticipantInfo {
+    return {
+      id: participant.id,
+      userId: participant.userId,
+      displayName: participant.displayName,
+      role: participant.role,
+      joinedAt: participant.joinedAt.toISOString(),
+      connectionState: participant.ws ? 'connected' : 'reconnecting'
+    };
+  }
+
+  /**
+   * Get statistics for this node
+   */
+  getStats() {
+    const participants = Array.from(this.rooms.values()).flatMap(room => Array.from(room.values()));
+    const connections = Array.from(this.connections.values());
+    const now = Date.now();
+
+    return {
+      nodeId: this.roomState.nodeId,
+      connectedClients: this.connections.size,
+      activeRooms: this.rooms.size,
+      totalParticipants: participants.length,
+      reconnectingParticipants: participants.filter(p => !p.ws).length,
+      liveness: {
+        heartbeatIntervalMs: this.heartbeatIntervalMs,
+        lastSweepAt: this.liveness.lastSweepAt,
+        // Connections that have not yet answered the latest ping
+        awaitingPong: connections.filter(c => !c.isAlive).length,
+        evictedConnections: this.liveness.evictedConnections,
+        oldestLastSeenMs: connections.reduce((oldest, c) => Math.max(oldest, now - c.lastSeen.getTime()), 0)
+      }
+    };
+  }
+
+  /**
+   * Get per-room details for participants connected to this node
+   */
+  getRoomsStatus() {
+    return Array.from(this.rooms.entries()).map(([roomId, participants]) => ({
+      roomId,
+      participants: participants.size,
+      users: Array.from(participants.values()).map(p => ({
+        participantId: p.id,
+        userId: p.userId,
+        displayName: p.displayName,
+        role: p.role,
+        joinedAt: p.joinedAt,
+        lastSeen: p.lastSeen,
+        connectionState: p.ws ? 'connected' : 'reconnecting'
+      }))
+    }));
+  }
+
+  /**
+   * Close all connections
+   */
+  async shutdown(): Promise<void> {
+    clearInterval(this.heartbeatTimer);
+    this.sessions.forEach(participant => {
+      if (participant.graceTimer) clearTimeout(participant.graceTimer);
+    });
+    this.sessions.clear();
+    this.wss.clients.forEach(ws => ws.close(1012, 'Server shutting down'));
+    this.wss.close();
+    await Promise.all(Array.from(this.connections.values()).map(connection => connection.queue));
+    await this.roomState.close();
+  }
+}
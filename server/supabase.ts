@@ -0,0 +1,30 @@
+/**
+ * Server-side Supabase client
+ * Uses the service role key, so it bypasses RLS; only call it after the
+ * caller's identity and permissions have been checked on the server.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+let serviceClient: SupabaseClient | null = null;
+
+/**
+ * Get the shared service-role client, or null when it is not configured
+ */
+export function getServiceSupabase(): SupabaseClient | null {
+  if (serviceClient) return serviceClient;
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    return null;
+  }
+
+  serviceClient = createClient(url, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  });
+  return serviceClient;
+}
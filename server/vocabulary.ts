@@ -0,0 +1,249 @@
+/**
+ * Vocabulary practice
+ * Builds each student's daily review queue from the vocabulary lessons they
+ * have completed and reschedules a word every time it is reviewed (SM-2,
+ * shared/vocabulary.ts). Schedules, the review history and streaks are
+ * written together by `record_vocabulary_review`; staff read who is falling
+ * behind from `vocabulary_learner_summary` (database-vocabulary.sql).
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { VocabularyContent } from '@shared/curriculum';
+import {
+  GRADE_QUALITY,
+  NEW_WORDS_PER_DAY,
+  addDays,
+  scheduleReview,
+  studyDate,
+  type VocabularyCard,
+  type VocabularyLearner,
+  type VocabularyQueue,
+  type VocabularyReview,
+  type VocabularyReviewResult,
+  type VocabularyStreak,
+  type WordSchedule
+} from '@shared/vocabulary';
+import { ApiError } from './http';
+
+// Postgres foreign_key_violation: the lesson was deleted meanwhile
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// Due words sent per queue; the rest follow once these are reviewed
+const MAX_DUE_CARDS = 200;
+
+const CARD_COLUMNS = 'lesson_id, word, ease_factor, interval_days, repetitions, lapses, due_on, introduced_on';
+
+interface DeckLesson {
+  id: string;
+  title: string;
+  title_bn: string | null;
+  lesson_type: string;
+  content: VocabularyContent;
+  is_active: boolean;
+}
+
+interface CardRow extends WordSchedule {
+  lesson_id: string;
+  word: string;
+  introduced_on: string;
+}
+
+interface StreakRow {
+  current_streak: number;
+  longest_streak: number;
+  last_review_on: string | null;
+}
+
+export class VocabularyService {
+  constructor(private getDb: () => SupabaseClient | null) {}
+
+  /**
+   * Today's words for the student: everything due, then up to the daily
+   * number of new words in the order their lessons were completed
+   */
+  async getQueue(userId: string): Promise<VocabularyQueue> {
+    const db = this.requireDb();
+    const today = studyDate();
+
+    const [decks, cards, streak, reviewedToday] = await Promise.all([
+      this.loadDecks(db, userId),
+      this.query<CardRow>('load vocabulary cards', db.from('vocabulary_cards').select(CARD_COLUMNS).eq('user_id', userId)),
+      this.query<StreakRow>(
+        'load vocabulary streak',
+        db.from('vocabulary_streaks').select('current_streak, longest_streak, last_review_on').eq('user_id', userId)
+      ),
+      db.from('vocabulary_reviews')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('reviewed_on', today)
+    ]);
+    if (reviewedToday.error) throw databaseError('count vocabulary reviews', reviewedToday.error);
+
+    const scheduled: Record<string, CardRow> = {};
+    cards.forEach(row => (scheduled[cardKey(row.lesson_id, row.word)] = row));
+
+    const due: VocabularyCard[] = [];
+    const unseen: VocabularyCard[] = [];
+    const seen: Record<string, boolean> = {};
+    decks.forEach(lesson => {
+      (lesson.content.words ?? []).forEach(word => {
+        const key = cardKey(lesson.id, word.arabic);
+        // A word listed twice in a lesson is one card
+        if (seen[key]) return;
+        seen[key] = true;
+
+        const row = scheduled[key];
+        const card: VocabularyCard = {
+          lesson_id: lesson.id,
+          lesson_title: lesson.title,
+          lesson_title_bn: lesson.title_bn,
+          word,
+          schedule: row ? toSchedule(row) : null
+        };
+        if (!row) {
+          unseen.push(card);
+        } else if (row.due_on <= today) {
+          due.push(card);
+        }
+      });
+    });
+
+    due.sort((a, b) => (a.schedule as WordSchedule).due_on.localeCompare((b.schedule as WordSchedule).due_on));
+    const introducedToday = cards.filter(row => row.introduced_on === today).length;
+    const fresh = unseen.slice(0, Math.max(0, NEW_WORDS_PER_DAY - introducedToday));
+
+    return {
+      today,
+      cards: due.slice(0, MAX_DUE_CARDS).concat(fresh),
+      due_count: due.length,
+      new_count: fresh.length,
+      reviewed_today: reviewedToday.count ?? 0,
+      deck_size: Object.keys(seen).length,
+      streak: toStreak(streak[0] ?? null, today)
+    };
+  }
+
+  /**
+   * Record how well the student recalled a word from one of their
+   * completed vocabulary lessons and schedule its next review
+   */
+  async review(userId: string, { lesson_id, word, grade }: VocabularyReview): Promise<VocabularyReviewResult> {
+    const db = this.requireDb();
+    const today = studyDate();
+
+    const [completion, existing] = await Promise.all([
+      db.from('lesson_progress')
+        .select('lessons (id, title, title_bn, lesson_type, content, is_active)')
+        .eq('user_id', userId)
+        .eq('lesson_id', lesson_id)
+        .maybeSingle(),
+      db.from('vocabulary_cards')
+        .select(CARD_COLUMNS)
+        .eq('user_id', userId)
+        .eq('lesson_id', lesson_id)
+        .eq('word', word)
+        .maybeSingle()
+    ]);
+    if (completion.error) throw databaseError('load lesson progress', completion.error);
+    if (existing.error) throw databaseError('load vocabulary card', existing.error);
+
+    const lesson = (completion.data as unknown as { lessons: DeckLesson | null } | null)?.lessons;
+    if (!lesson || lesson.lesson_type !== 'vocabulary' || !lesson.is_active) {
+      throw new ApiError(404, 'not-found', 'Vocabulary lesson not found among your completed lessons');
+    }
+    if (!(lesson.content.words ?? []).some(entry => entry.arabic === word)) {
+      throw new ApiError(404, 'not-found', 'Word not found in the lesson');
+    }
+
+    const previous = existing.data ? toSchedule(existing.data as CardRow) : null;
+    const schedule = scheduleReview(previous, grade, today);
+
+    const { data, error } = await db.rpc('record_vocabulary_review', {
+      p_user_id: userId,
+      p_lesson_id: lesson_id,
+      p_word: word,
+      p_quality: GRADE_QUALITY[grade],
+      p_ease_factor: schedule.ease_factor,
+      p_interval_days: schedule.interval_days,
+      p_repetitions: schedule.repetitions,
+      p_lapses: schedule.lapses,
+      p_due_on: schedule.due_on,
+      p_today: today
+    });
+    if (error) throw databaseError('record vocabulary review', error);
+
+    return { lesson_id, word, schedule, streak: toStreak(data as StreakRow, today) };
+  }
+
+  /**
+   * Students with completed vocabulary lessons, the most behind first
+   */
+  async listLearners(): Promise<VocabularyLearner[]> {
+    const { data, error } = await this.requireDb().rpc('vocabulary_learner_summary', { p_today: studyDate() });
+    if (error) throw databaseError('load vocabulary learners', error);
+    return (data ?? []) as VocabularyLearner[];
+  }
+
+  private async loadDecks(db: SupabaseClient, userId: string): Promise<DeckLesson[]> {
+    const rows = await this.query<{ lessons: DeckLesson | null }>(
+      'load vocabulary lessons',
+      db.from('lesson_progress')
+        .select('completed_at, lessons!inner (id, title, title_bn, lesson_type, content, is_active)')
+        .eq('user_id', userId)
+        .eq('lessons.lesson_type', 'vocabulary')
+        .eq('lessons.is_active', true)
+        .order('completed_at')
+    );
+    return rows.map(row => row.lessons).filter((lesson): lesson is DeckLesson => lesson !== null);
+  }
+
+  private async query<T>(action: string, query: PromiseLike<{ data: unknown; error: PostgrestError | null }>): Promise<T[]> {
+    const { data, error } = await query;
+    if (error) throw databaseError(action, error);
+    return (data ?? []) as T[];
+  }
+
+  private requireDb(): SupabaseClient {
+    const db = this.getDb();
+    if (!db) {
+      throw new ApiError(503, 'unavailable', 'Vocabulary practice is not configured on the server');
+    }
+    return db;
+  }
+}
+
+function cardKey(lessonId: string, word: string): string {
+  return `${lessonId}:${word}`;
+}
+
+function toSchedule(row: CardRow): WordSchedule {
+  return {
+    // NUMERIC may arrive as a string
+    ease_factor: Number(row.ease_factor),
+    interval_days: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    due_on: row.due_on
+  };
+}
+
+/**
+ * A streak whose last review is older than yesterday is already broken
+ */
+function toStreak(row: StreakRow | null, today: string): VocabularyStreak {
+  if (!row) return { current: 0, longest: 0, last_review_on: null };
+  const alive = row.last_review_on !== null && row.last_review_on >= addDays(today, -1);
+  return {
+    current: alive ? row.current_streak : 0,
+    longest: row.longest_streak,
+    last_review_on: row.last_review_on
+  };
+}
+
+function databaseError(action: string, error: PostgrestError): Error {
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError(400, 'invalid-reference', 'Unknown lesson');
+  }
+  console.error(`❌ Failed to ${action}:`, error.message);
+  return new Error(`Failed to ${action}`);
+}
@@ -0,0 +1,63 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { harakatAccuracy, normalizeArabic, stripTashkeel } from './arabic';
+
+describe('normalizeArabic', () => {
+  test('drops tatweel and punctuation and collapses spaces', () => {
+    // مَرْحَبًا، يَا صَدِيقِي!
+    assert.equal(
+      normalizeArabic('\u0645\u064E\u0631\u0652\u062D\u0640\u0640\u064E\u0628\u064B\u0627\u060C  \u064A\u064E\u0627 \u0635\u064E\u062F\u0650\u064A\u0642\u0650\u064A!'),
+      '\u0645\u064E\u0631\u0652\u062D\u064E\u0628\u064B\u0627 \u064A\u064E\u0627 \u0635\u064E\u062F\u0650\u064A\u0642\u0650\u064A'
+    );
+  });
+
+  test('unifies alef forms only when tashkeel is ignored', () => {
+    // أَحْمَد and احمد
+    assert.equal(normalizeArabic('\u0623\u064E\u062D\u0652\u0645\u064E\u062F', { ignoreTashkeel: true }), '\u0627\u062D\u0645\u062F');
+    assert.equal(normalizeArabic('\u0623\u062D\u0645\u062F'), '\u0623\u062D\u0645\u062F');
+  });
+});
+
+describe('stripTashkeel', () => {
+  test('keeps the letters', () => {
+    // بِسْمِ اللَّهِ
+    assert.equal(stripTashkeel('\u0628\u0650\u0633\u0652\u0645\u0650 \u0627\u0644\u0644\u0651\u064E\u0647\u0650'), '\u0628\u0633\u0645 \u0627\u0644\u0644\u0647');
+  });
+});
+
+describe('harakatAccuracy', () => {
+  // دَرَسَ
+  const expected = '\u062F\u064E\u0631\u064E\u0633\u064E';
+
+  test('is 1 for matching harakat', () => {
+    assert.equal(harakatAccuracy(expected, expected), 1);
+  });
+
+  test('is the share of letters with the right harakat', () => {
+    // دَرُسَ
+    assert.equal(harakatAccuracy(expected, '\u062F\u064E\u0631\u064F\u0633\u064E'), 2 / 3);
+  });
+
+  test('does not care in which order shadda and a haraka are typed', () => {
+    // عَلَّمَ typed shadda-first and fatha-first
+    assert.equal(harakatAccuracy('\u0639\u064E\u0644\u0651\u064E\u0645\u064E', '\u0639\u064E\u0644\u064E\u0651\u0645\u064E'), 1);
+  });
+
+  test('is 0 when the letters differ', () => {
+    // دَرَجَ
+    assert.equal(harakatAccuracy(expected, '\u062F\u064E\u0631\u064E\u062C\u064E'), 0);
+    assert.equal(harakatAccuracy(expected, '\u062F\u064E\u0631\u064E'), 0);
+  });
+
+  test('is 0 for the bare letters, even around a long vowel', () => {
+    // درس
+    assert.equal(harakatAccuracy(expected, '\u062F\u0631\u0633'), 0);
+    // كِتَاب answered كتاب
+    assert.equal(harakatAccuracy('\u0643\u0650\u062A\u064E\u0627\u0628', '\u0643\u062A\u0627\u0628'), 0);
+  });
+
+  test('grades only the letters marked in the expected text', () => {
+    // كِتَاب answered كِتُاب
+    assert.equal(harakatAccuracy('\u0643\u0650\u062A\u064E\u0627\u0628', '\u0643\u0650\u062A\u064F\u0627\u0628'), 1 / 2);
+  });
+});
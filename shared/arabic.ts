@@ -0,0 +1,77 @@
+/**
+ * Arabic text helpers
+ * Comparing what a student typed with an expected answer: stripping
+ * tashkeel (harakat, tanween, shadda, sukun and Quranic marks), normalising
+ * the ways one word can be keyed in, and checking the harakat of a word
+ * letter by letter. Used by quiz grading on the server and by the quiz
+ * screens.
+ */
+
+// Harakat, tanween, shadda, sukun, maddah and hamza marks (U+064B–U+065F),
+// the dagger alef (U+0670) and the Quranic annotation signs (U+06D6–U+06ED)
+const TASHKEEL = /[\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TASHKEEL_CHAR = /^[\u064B-\u065F\u0670\u06D6-\u06ED]$/;
+
+// Tatweel only stretches a word on screen
+const TATWEEL = /\u0640/g;
+
+// أ إ آ ٱ are commonly typed as a bare alef
+const ALEF_FORMS = /[\u0622\u0623\u0625\u0671]/g;
+
+// Arabic and Latin punctuation that never changes an answer
+const PUNCTUATION = /[\u060C\u061B\u061F\u066A-\u066D\u06D4.,;:!?"'()[\]{}\u00AB\u00BB\-\u2013\u2014]/g;
+
+export interface NormalizeOptions {
+  // Compare letters only, so a missing or wrong haraka is not a mistake
+  ignoreTashkeel?: boolean;
+}
+
+export function stripTashkeel(text: string): string {
+  return text.replace(TASHKEEL, '');
+}
+
+/**
+ * `text` reduced to the form answers are compared in: NFC, no tatweel or
+ * punctuation, single spaces. With `ignoreTashkeel` the tashkeel is dropped
+ * and alef forms are unified too.
+ */
+export function normalizeArabic(text: string, options: NormalizeOptions = {}): string {
+  let normalized = text.normalize('NFC').replace(TATWEEL, '').replace(PUNCTUATION, ' ');
+  if (options.ignoreTashkeel) {
+    normalized = stripTashkeel(normalized).replace(ALEF_FORMS, '\u0627');
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Each letter of `text` with its marks sorted, so shadda-then-fatha and
+ * fatha-then-shadda compare equal. Spaces are dropped.
+ */
+function letterClusters(text: string): { letter: string; marks: string }[] {
+  const clusters: { letter: string; marks: string[] }[] = [];
+  normalizeArabic(text).split('').forEach(char => {
+    if (TASHKEEL_CHAR.test(char)) {
+      if (clusters.length > 0) clusters[clusters.length - 1].marks.push(char);
+    } else if (char !== ' ') {
+      clusters.push({ letter: char, marks: [] });
+    }
+  });
+  return clusters.map(cluster => ({ letter: cluster.letter, marks: cluster.marks.sort().join('') }));
+}
+
+/**
+ * Share of the marked letters (0–1) whose harakat in `answer` match
+ * `expected`; 0 when the letters themselves differ. Letters written bare in
+ * `expected`, like the alef, waw and ya of long vowels, are not graded, so
+ * an answer without harakat earns nothing.
+ */
+export function harakatAccuracy(expected: string, answer: string): number {
+  const want = letterClusters(expected);
+  const got = letterClusters(answer);
+  if (want.length === 0 || want.length !== got.length) return 0;
+  if (want.some((cluster, index) => cluster.letter !== got[index].letter)) return 0;
+
+  const graded = want.map((cluster, index) => ({ want: cluster.marks, got: got[index].marks })).filter(pair => pair.want !== '');
+  if (graded.length === 0) return 0;
+  return graded.filter(pair => pair.want === pair.got).length / graded.length;
+}
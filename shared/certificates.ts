@@ -0,0 +1,140 @@
+/**
+ * Certificates contract
+ * Each course product can set completion criteria; a student who meets them
+ * claims a certificate with a unique serial, shown as a printable page and
+ * as a PDF download. Anyone can check a serial at `/verify/:serial` without
+ * signing in.
+ * Tables are in database-certificates.sql.
+ */
+
+import { z } from 'zod';
+
+// Crockford base32 without I, L, O and U, so serials survive being read aloud
+// or copied by hand
+export const SERIAL_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// e.g. ALPC-7K2M-Q9XD-4RTB
+export const CERTIFICATE_SERIAL_PATTERN = /^ALPC-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/;
+
+/**
+ * Serials are printed in capitals, but people type them however they like
+ */
+export const certificateSerialSchema = z.string()
+  .trim()
+  .transform(serial => serial.toUpperCase())
+  .refine(serial => CERTIFICATE_SERIAL_PATTERN.test(serial), 'Invalid certificate serial');
+
+export const CERTIFICATE_CRITERIA = ['attendance', 'homework', 'final_exam'] as const;
+
+export type CertificateCriterion = typeof CERTIFICATE_CRITERIA[number];
+
+export const CERTIFICATE_CRITERION_LABELS: Record<CertificateCriterion, string> = {
+  attendance: 'ক্লাসে উপস্থিতি',
+  homework: 'হোমওয়ার্কের গড় নম্বর',
+  final_exam: 'চূড়ান্ত পরীক্ষা'
+};
+
+const percent = z.number().int().min(0).max(100);
+
+/**
+ * Request body for `PUT /api/admin/certificates/criteria/:productId`
+ */
+export const certificateCriteriaSchema = z.object({
+  // Share of the course's held class sessions attended
+  min_attendance_percent: percent,
+  min_homework_average: percent,
+  // A quiz lesson of the course; null when the course has no final exam
+  final_exam_lesson_id: z.string().uuid().nullable(),
+  min_final_exam_score: percent,
+  is_active: z.boolean().default(true)
+});
+
+export type CertificateCriteria = z.infer<typeof certificateCriteriaSchema>;
+
+export interface CertificateCheck {
+  criterion: CertificateCriterion;
+  required: number;
+  // null when there is nothing to measure yet, e.g. no homework graded
+  actual: number | null;
+  met: boolean;
+}
+
+export interface Certificate {
+  id: string;
+  serial: string;
+  user_id: string;
+  product_id: string;
+  student_name: string;
+  course_title: string;
+  course_title_bn: string;
+  // The student's results when the certificate was issued
+  attendance_percent: number | null;
+  homework_average: number | null;
+  final_exam_score: number | null;
+  issued_at: string;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+}
+
+/**
+ * One course in the response of `GET /api/certificates`
+ */
+export interface CourseCertificateStatus {
+  product_id: string;
+  title: string;
+  title_bn: string;
+  level: number;
+  // null when the course issues no certificates
+  criteria: CertificateCriteria | null;
+  checks: CertificateCheck[];
+  // Criteria met and the enrollment is active
+  eligible: boolean;
+  certificate: Certificate | null;
+}
+
+/**
+ * One course in the response of `GET /api/admin/certificates/criteria`
+ */
+export interface CourseCertificateCriteria {
+  id: string;
+  title: string;
+  title_bn: string;
+  level: number;
+  criteria: CertificateCriteria | null;
+}
+
+/**
+ * Response of the public `GET /api/certificates/verify/:serial`; only what a
+ * certificate itself shows
+ */
+export interface CertificateVerification {
+  serial: string;
+  status: 'valid' | 'revoked';
+  student_name: string;
+  course_title: string;
+  course_title_bn: string;
+  issued_at: string;
+  revoked_at: string | null;
+}
+
+/**
+ * Request body for `POST /api/certificates`
+ */
+export const certificateClaimSchema = z.object({
+  product_id: z.string().uuid()
+});
+
+/**
+ * Request body for `POST /api/admin/certificates/:serial/revoke`
+ */
+export const certificateRevocationSchema = z.object({
+  reason: z.string().trim().min(3, "বাতিলের কারণ লিখুন").max(500)
+});
+
+export const certificateListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20),
+  product_id: z.string().uuid().optional()
+});
+
+export type CertificateListQuery = z.infer<typeof certificateListQuerySchema>;
@@ -0,0 +1,81 @@
+/**
+ * Live class contract
+ * Validation shared by the admin class form and the `/api/classes` router,
+ * so the browser and the server accept exactly the same classes
+ */
+
+import { z } from 'zod';
+
+/**
+ * Fields an admin fills in on the create-class form
+ */
+export const createClassSchema = z.object({
+  title: z.string().min(1, "ইংরেজি শিরোনাম প্রয়োজন"),
+  title_bn: z.string().min(1, "বাংলা শিরোনাম প্রয়োজন"),
+  description: z.string().optional(),
+  description_bn: z.string().optional(),
+  module_id: z.string().optional(),
+  // A lesson of the chosen module the class teaches
+  lesson_id: z.string().optional(),
+  instructor_id: z.string().optional(),
+  scheduled_at: z.string().min(1, "ক্লাসের তারিখ ও সময় প্রয়োজন"),
+  duration: z.number().min(30, "কমপক্ষে ৩০ মিনিট").max(180, "সর্বোচ্চ ১৮০ মিনিট"),
+  max_participants: z.number().min(1).max(100),
+  is_active: z.boolean().default(true)
+});
+
+export type CreateClassFormData = z.infer<typeof createClassSchema>;
+
+// The form sends empty optional fields as null
+const optionalId = z.string().uuid().nullable().optional();
+const optionalText = z.string().nullable().optional();
+const optionalUrl = z.string().url().nullable().optional();
+
+/**
+ * Request body for `POST /api/classes`: the form fields as stored in
+ * `live_classes`, with ids and dates checked strictly
+ */
+export const classPayloadSchema = createClassSchema.extend({
+  description: optionalText,
+  description_bn: optionalText,
+  module_id: optionalId,
+  lesson_id: optionalId,
+  instructor_id: optionalId,
+  scheduled_at: createClassSchema.shape.scheduled_at
+    .refine(value => !Number.isNaN(Date.parse(value)), "ক্লাসের তারিখ ও সময় সঠিক নয়"),
+  duration: createClassSchema.shape.duration.int(),
+  max_participants: createClassSchema.shape.max_participants.int(),
+  meeting_url: optionalUrl,
+  recording_url: optionalUrl
+});
+
+export type ClassPayload = z.infer<typeof classPayloadSchema>;
+
+/**
+ * Request body for `PATCH /api/classes/:id`
+ */
+export const classUpdateSchema = classPayloadSchema
+  .partial()
+  .refine(updates => Object.keys(updates).length > 0, 'No fields to update');
+
+export type ClassUpdate = z.infer<typeof classUpdateSchema>;
+
+const queryBoolean = z.enum(['true', 'false']).transform(value => value === 'true');
+const queryDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+/**
+ * Query string for `GET /api/classes`
+ */
+export const classListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20),
+  module_id: z.string().uuid().optional(),
+  instructor_id: z.string().uuid().optional(),
+  // Inclusive range on scheduled_at
+  from: queryDate.optional(),
+  to: queryDate.optional(),
+  // Staff only; students always see active classes
+  include_inactive: queryBoolean.optional()
+});
+
+export type ClassListQuery = z.infer<typeof classListQuerySchema>;
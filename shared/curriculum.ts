@@ -0,0 +1,297 @@
+/**
+ * Curriculum contract
+ * The module → unit → lesson outline as `/api/curriculum` returns it, and
+ * the authoring payloads of `/api/admin/curriculum`. Each lesson type keeps
+ * its own content shape in `lessons.content` (database-curriculum.sql).
+ */
+
+import { z } from 'zod';
+import { dialectVariantsSchema } from './dialects';
+import { handwritingTargetSchema } from './handwriting';
+
+export const LESSON_TYPES = ['video', 'reading', 'vocabulary', 'quiz', 'quran_recitation', 'handwriting'] as const;
+
+export type LessonType = typeof LESSON_TYPES[number];
+
+export const LESSON_TYPE_LABELS: Record<LessonType, string> = {
+  video: 'ভিডিও',
+  reading: 'পাঠ',
+  vocabulary: 'শব্দভান্ডার',
+  quiz: 'কুইজ',
+  quran_recitation: 'কুরআন তিলাওয়াত',
+  handwriting: 'হাতের লেখা'
+};
+
+const optionalText = z.string().trim().max(20000).nullable().optional();
+
+// A word or a short phrase, in MSA
+export const vocabularyWordSchema = z.object({
+  // With harakat where the lesson teaches them
+  arabic: z.string().trim().min(1, "আরবি শব্দ প্রয়োজন").max(200),
+  transliteration: z.string().trim().max(200).optional(),
+  meaning_bn: z.string().trim().min(1, "বাংলা অর্থ প্রয়োজন").max(500),
+  audio_url: z.string().url().optional(),
+  // How it is said in spoken dialects (shared/dialects.ts)
+  variants: dialectVariantsSchema.optional()
+});
+
+export type VocabularyWord = z.infer<typeof vocabularyWordSchema>;
+
+/**
+ * What `lessons.content` holds for each lesson type
+ */
+export const LESSON_CONTENT_SCHEMAS = {
+  video: z.object({
+    video_url: z.string().url("সঠিক ভিডিও লিংক দিন"),
+    transcript_bn: optionalText
+  }),
+  reading: z.object({
+    body_bn: z.string().trim().min(1, "পাঠের বিষয়বস্তু প্রয়োজন").max(20000),
+    body_ar: optionalText
+  }),
+  vocabulary: z.object({
+    words: z.array(vocabularyWordSchema).min(1, "কমপক্ষে একটি শব্দ দিন").max(200)
+  }),
+  quiz: z.object({
+    instructions_bn: optionalText,
+    // Score a student needs for the quiz to count as passed
+    pass_score: z.number().int().min(0).max(100).default(60),
+    // Timed exams; null when there is no limit
+    time_limit_minutes: z.number().int().min(1).max(300).nullable().default(null),
+    max_attempts: z.number().int().min(1).max(100).nullable().default(null),
+    // Each attempt draws this many questions at random from the lesson's
+    // pool; null draws all of them
+    questions_per_attempt: z.number().int().min(1).max(200).nullable().default(null)
+  }),
+  quran_recitation: z.object({
+    surah: z.number().int().min(1).max(114),
+    ayah_from: z.number().int().min(1),
+    ayah_to: z.number().int().min(1),
+    // Reference recitation to follow
+    audio_url: z.string().url().optional(),
+    // The ayahs with full harakat, shown colour-coded by tajweed rule
+    text_ar: optionalText,
+    notes_bn: optionalText
+  }).refine(range => range.ayah_to >= range.ayah_from, {
+    message: "শেষ আয়াত শুরুর আয়াতের আগে হতে পারে না",
+    path: ['ayah_to']
+  }),
+  handwriting: z.object({
+    // Letter forms to write, in order
+    letters: z.array(handwritingTargetSchema).min(1, "কমপক্ষে একটি হরফ বেছে নিন").max(112),
+    instructions_bn: optionalText
+  })
+};
+
+export type VideoContent = z.infer<typeof LESSON_CONTENT_SCHEMAS.video>;
+export type ReadingContent = z.infer<typeof LESSON_CONTENT_SCHEMAS.reading>;
+export type VocabularyContent = z.infer<typeof LESSON_CONTENT_SCHEMAS.vocabulary>;
+export type QuizContent = z.infer<typeof LESSON_CONTENT_SCHEMAS.quiz>;
+export type QuranRecitationContent = z.infer<typeof LESSON_CONTENT_SCHEMAS.quran_recitation>;
+export type HandwritingContent = z.infer<typeof LESSON_CONTENT_SCHEMAS.handwriting>;
+
+export type LessonContent = VideoContent | ReadingContent | VocabularyContent | QuizContent | QuranRecitationContent | HandwritingContent;
+
+/**
+ * 'locked' until every prerequisite is completed; staff see every lesson as
+ * available
+ */
+export type LessonState = 'completed' | 'available' | 'locked';
+
+export interface LessonPrerequisite {
+  lesson_id: string;
+  // Score needed on the prerequisite; null when completing it is enough
+  min_score: number | null;
+}
+
+export interface LessonSummary {
+  id: string;
+  unit_id: string;
+  title: string;
+  title_bn: string | null;
+  lesson_type: LessonType;
+  estimated_minutes: number;
+  order: number;
+  is_active: boolean;
+  prerequisites: LessonPrerequisite[];
+  state: LessonState;
+}
+
+export interface CurriculumUnit {
+  id: string;
+  module_id: string;
+  title: string;
+  title_bn: string | null;
+  description_bn: string | null;
+  order: number;
+  is_active: boolean;
+  lessons: LessonSummary[];
+}
+
+export interface CurriculumModule {
+  id: string;
+  title: string;
+  title_bn: string | null;
+  description: string | null;
+  description_bn: string | null;
+  level: number;
+  order: number;
+  is_active: boolean;
+  units: CurriculumUnit[];
+}
+
+export interface LessonProgress {
+  lesson_id: string;
+  score: number | null;
+  completed_at: string;
+}
+
+/**
+ * Response of `GET /api/curriculum/lessons/:id`
+ */
+export interface Lesson extends LessonSummary {
+  module_id: string;
+  description_bn: string | null;
+  content: LessonContent;
+  progress: LessonProgress | null;
+}
+
+const order = z.number().int().min(0).default(0);
+
+/**
+ * Query string for `GET /api/curriculum`
+ */
+export const curriculumQuerySchema = z.object({
+  module_id: z.string().uuid().optional(),
+  // Staff only; students never see inactive modules, units or lessons
+  include_inactive: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+});
+
+export type CurriculumQuery = z.infer<typeof curriculumQuerySchema>;
+
+/**
+ * Request body for `POST /api/admin/curriculum/modules`
+ */
+export const modulePayloadSchema = z.object({
+  title: z.string().trim().min(1, "ইংরেজি শিরোনাম প্রয়োজন").max(200),
+  title_bn: z.string().trim().min(1, "বাংলা শিরোনাম প্রয়োজন").max(200),
+  description: optionalText,
+  description_bn: optionalText,
+  level: z.number().int().min(1).max(20),
+  order,
+  is_active: z.boolean().default(true)
+});
+
+export type ModulePayload = z.infer<typeof modulePayloadSchema>;
+
+export const moduleUpdateSchema = modulePayloadSchema
+  .partial()
+  .refine(updates => Object.keys(updates).length > 0, 'No fields to update');
+
+export type ModuleUpdate = z.infer<typeof moduleUpdateSchema>;
+
+/**
+ * Request body for `POST /api/admin/curriculum/units`
+ */
+export const unitPayloadSchema = z.object({
+  module_id: z.string().uuid(),
+  title: z.string().trim().min(1, "ইংরেজি শিরোনাম প্রয়োজন").max(200),
+  title_bn: z.string().trim().min(1, "বাংলা শিরোনাম প্রয়োজন").max(200),
+  description_bn: optionalText,
+  order,
+  is_active: z.boolean().default(true)
+});
+
+export type UnitPayload = z.infer<typeof unitPayloadSchema>;
+
+export const unitUpdateSchema = unitPayloadSchema
+  .omit({ module_id: true })
+  .partial()
+  .refine(updates => Object.keys(updates).length > 0, 'No fields to update');
+
+export type UnitUpdate = z.infer<typeof unitUpdateSchema>;
+
+const lessonFields = z.object({
+  unit_id: z.string().uuid(),
+  title: z.string().trim().min(1, "ইংরেজি শিরোনাম প্রয়োজন").max(200),
+  title_bn: z.string().trim().min(1, "বাংলা শিরোনাম প্রয়োজন").max(200),
+  description_bn: optionalText,
+  lesson_type: z.enum(LESSON_TYPES),
+  content: z.unknown(),
+  estimated_minutes: z.number().int().min(1).max(600).default(15),
+  order,
+  is_active: z.boolean().default(true)
+});
+
+/**
+ * Check `content` against the schema of its lesson type and replace it with
+ * the parsed value
+ */
+function withTypedContent<T extends { lesson_type?: LessonType; content?: unknown }>(
+  lesson: T,
+  ctx: z.RefinementCtx
+): Omit<T, 'content'> & { content?: LessonContent } {
+  if (lesson.content === undefined) {
+    return lesson as Omit<T, 'content'>;
+  }
+  if (!lesson.lesson_type) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lesson_type'], message: 'lesson_type is required with content' });
+    return z.NEVER;
+  }
+
+  const result = LESSON_CONTENT_SCHEMAS[lesson.lesson_type].safeParse(lesson.content);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['content', ...issue.path] }));
+    return z.NEVER;
+  }
+  return { ...lesson, content: result.data };
+}
+
+/**
+ * Request body for `POST /api/admin/curriculum/lessons`
+ */
+export const lessonPayloadSchema = lessonFields
+  .refine(lesson => lesson.content !== undefined, { message: 'content is required', path: ['content'] })
+  .transform(withTypedContent)
+  .transform(lesson => ({ ...lesson, content: lesson.content as LessonContent }));
+
+export type LessonPayload = z.infer<typeof lessonPayloadSchema>;
+
+/**
+ * Request body for `PATCH /api/admin/curriculum/lessons/:id`; new content
+ * must come with its lesson type
+ */
+export const lessonUpdateSchema = lessonFields
+  .omit({ unit_id: true })
+  .partial()
+  .refine(updates => Object.keys(updates).length > 0, 'No fields to update')
+  .refine(updates => updates.lesson_type === undefined || updates.content !== undefined, {
+    message: 'content is required when changing lesson_type',
+    path: ['content']
+  })
+  .transform(withTypedContent);
+
+export type LessonUpdate = z.infer<typeof lessonUpdateSchema>;
+
+/**
+ * Request body for `PUT /api/admin/curriculum/lessons/:id/prerequisites`;
+ * replaces the lesson's prerequisites
+ */
+export const prerequisitesPayloadSchema = z.object({
+  prerequisites: z.array(z.object({
+    lesson_id: z.string().uuid(),
+    min_score: z.number().int().min(0).max(100).nullable().default(null)
+  })).max(20)
+});
+
+export type PrerequisitesPayload = z.infer<typeof prerequisitesPayloadSchema>;
+
+/**
+ * Whether every prerequisite is met by the student's completed lessons
+ */
+export function prerequisitesMet(prerequisites: LessonPrerequisite[], progress: Map<string, LessonProgress>): boolean {
+  return prerequisites.every(({ lesson_id, min_score }) => {
+    const done = progress.get(lesson_id);
+    return !!done && (min_score === null || (done.score ?? 0) >= min_score);
+  });
+}
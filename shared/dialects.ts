@@ -0,0 +1,54 @@
+/**
+ * Arabic dialects contract
+ * Lessons are written in Modern Standard Arabic (fusha); vocabulary words
+ * and phrases may also carry how they are said in a spoken dialect, with
+ * their own audio. Each student picks the dialect they are learning on their
+ * profile (`users.preferred_dialect`, database-dialects.sql) and sees that
+ * form next to MSA, or MSA alone where no such form has been added.
+ */
+
+import { z } from 'zod';
+
+// The spoken dialects a word can be given in besides MSA
+export const SPOKEN_DIALECTS = ['Egyptian', 'Gulf', 'Levantine', 'Maghrebi'] as const;
+
+export type SpokenDialect = typeof SPOKEN_DIALECTS[number];
+
+export const DIALECTS = ['MSA', ...SPOKEN_DIALECTS] as const;
+
+export type Dialect = typeof DIALECTS[number];
+
+export const DEFAULT_DIALECT: Dialect = 'MSA';
+
+export const DIALECT_LABELS: Record<Dialect, string> = {
+  MSA: 'ফুসহা (প্রমিত আরবি)',
+  Egyptian: 'মিশরীয়',
+  Gulf: 'উপসাগরীয় (খালিজি)',
+  Levantine: 'শামি (লেভান্টাইন)',
+  Maghrebi: 'মাগরিবি'
+};
+
+export const dialectVariantSchema = z.object({
+  dialect: z.enum(SPOKEN_DIALECTS),
+  arabic: z.string().trim().min(1, "উপভাষার রূপ প্রয়োজন").max(200),
+  transliteration: z.string().trim().max(200).optional(),
+  audio_url: z.string().url().optional()
+});
+
+export type DialectVariant = z.infer<typeof dialectVariantSchema>;
+
+export const dialectVariantsSchema = z.array(dialectVariantSchema)
+  .max(SPOKEN_DIALECTS.length)
+  .refine(variants => new Set(variants.map(variant => variant.dialect)).size === variants.length, {
+    message: 'Each dialect can be given once'
+  });
+
+/**
+ * The form of `entry` to show a student learning `dialect` beside the MSA
+ * form; null when that is MSA itself or the dialect form has not been added
+ */
+export function dialectVariant(entry: { variants?: DialectVariant[] }, dialect: Dialect): DialectVariant | null {
+  if (dialect === 'MSA') return null;
+  return entry.variants?.find(variant => variant.dialect === dialect) ?? null;
+}
+
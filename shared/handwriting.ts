@@ -0,0 +1,199 @@
+/**
+ * Handwriting practice contract
+ * Students write a letter of the alphabet in one of its positional forms on
+ * a canvas; the browser compares their strokes with the model strokes an
+ * instructor recorded for that form (ArabicLearningManager in the video
+ * SDK). Model strokes are kept in `handwriting_templates`
+ * (database-handwriting.sql); students' attempts are not stored.
+ */
+
+import { z } from 'zod';
+
+export const LETTER_FORMS = ['isolated', 'initial', 'medial', 'final'] as const;
+
+export type LetterForm = typeof LETTER_FORMS[number];
+
+export const LETTER_FORM_LABELS: Record<LetterForm, string> = {
+  isolated: 'একক',
+  initial: 'শুরুর',
+  medial: 'মাঝের',
+  final: 'শেষের'
+};
+
+export interface AlphabetLetter {
+  letter: string;
+  name_bn: string;
+  // Letters that never join the letter after them have no initial or medial form
+  joins_next: boolean;
+}
+
+/**
+ * The 28 letters in alphabetical order
+ */
+export const ARABIC_ALPHABET: AlphabetLetter[] = [
+  { letter: '\u0627', name_bn: 'আলিফ', joins_next: false }, // ا
+  { letter: '\u0628', name_bn: 'বা', joins_next: true }, // ب
+  { letter: '\u062A', name_bn: 'তা', joins_next: true }, // ت
+  { letter: '\u062B', name_bn: 'ছা', joins_next: true }, // ث
+  { letter: '\u062C', name_bn: 'জীম', joins_next: true }, // ج
+  { letter: '\u062D', name_bn: 'বড় হা', joins_next: true }, // ح
+  { letter: '\u062E', name_bn: 'খা', joins_next: true }, // خ
+  { letter: '\u062F', name_bn: 'দাল', joins_next: false }, // د
+  { letter: '\u0630', name_bn: 'যাল', joins_next: false }, // ذ
+  { letter: '\u0631', name_bn: 'রা', joins_next: false }, // ر
+  { letter: '\u0632', name_bn: 'ঝা', joins_next: false }, // ز
+  { letter: '\u0633', name_bn: 'সীন', joins_next: true }, // س
+  { letter: '\u0634', name_bn: 'শীন', joins_next: true }, // ش
+  { letter: '\u0635', name_bn: 'সোয়াদ', joins_next: true }, // ص
+  { letter: '\u0636', name_bn: 'দোয়াদ', joins_next: true }, // ض
+  { letter: '\u0637', name_bn: 'তোয়া', joins_next: true }, // ط
+  { letter: '\u0638', name_bn: 'যোয়া', joins_next: true }, // ظ
+  { letter: '\u0639', name_bn: 'আইন', joins_next: true }, // ع
+  { letter: '\u063A', name_bn: 'গাইন', joins_next: true }, // غ
+  { letter: '\u0641', name_bn: 'ফা', joins_next: true }, // ف
+  { letter: '\u0642', name_bn: 'ক্বাফ', joins_next: true }, // ق
+  { letter: '\u0643', name_bn: 'কাফ', joins_next: true }, // ك
+  { letter: '\u0644', name_bn: 'লাম', joins_next: true }, // ل
+  { letter: '\u0645', name_bn: 'মীম', joins_next: true }, // م
+  { letter: '\u0646', name_bn: 'নূন', joins_next: true }, // ن
+  { letter: '\u0647', name_bn: 'ছোট হা', joins_next: true }, // ه
+  { letter: '\u0648', name_bn: 'ওয়াও', joins_next: false }, // و
+  { letter: '\u064A', name_bn: 'ইয়া', joins_next: true } // ي
+];
+
+// Zero-width joiner: makes a lone letter render in its joined forms
+const ZWJ = '\u200D';
+
+// Strokes per letter and points per stroke accepted from the canvas
+const MAX_STROKES = 20;
+const MAX_POINTS = 2000;
+
+export function alphabetLetter(letter: string): AlphabetLetter | undefined {
+  return ARABIC_ALPHABET.find(entry => entry.letter === letter);
+}
+
+/**
+ * The positional forms a letter has
+ */
+export function letterForms(letter: string): LetterForm[] {
+  return alphabetLetter(letter)?.joins_next === false ? ['isolated', 'final'] : [...LETTER_FORMS];
+}
+
+/**
+ * The letter as text that renders in the given form
+ */
+export function formGlyph(letter: string, form: LetterForm): string {
+  switch (form) {
+    case 'isolated':
+      return letter;
+    case 'initial':
+      return letter + ZWJ;
+    case 'medial':
+      return ZWJ + letter + ZWJ;
+    case 'final':
+      return ZWJ + letter;
+  }
+}
+
+/**
+ * A point on the canvas; x and y are fractions of its width and height, t is
+ * milliseconds since the first point of the letter
+ */
+export const strokePointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  t: z.number().min(0)
+});
+
+export type StrokePoint = z.infer<typeof strokePointSchema>;
+
+// A stroke is the points from pen down to pen up, in the order drawn
+export type HandwritingStroke = StrokePoint[];
+
+export const handwritingStrokesSchema = z.array(z.array(strokePointSchema).min(1).max(MAX_POINTS))
+  .min(1, "Write at least one stroke")
+  .max(MAX_STROKES);
+
+/**
+ * A letter in one of its forms
+ */
+export const handwritingTargetSchema = z.object({
+  letter: z.string().refine(letter => !!alphabetLetter(letter), 'Unknown letter'),
+  form: z.enum(LETTER_FORMS)
+}).refine(target => letterForms(target.letter).includes(target.form), {
+  message: "This letter has no such form",
+  path: ['form']
+});
+
+export type HandwritingTarget = z.infer<typeof handwritingTargetSchema>;
+
+/**
+ * Request body for `PUT /api/handwriting/templates`; replaces the form's
+ * model strokes
+ */
+export const handwritingTemplatePayloadSchema = z.object({
+  letter: z.string(),
+  form: z.enum(LETTER_FORMS),
+  strokes: handwritingStrokesSchema
+}).superRefine((payload, ctx) => {
+  const target = handwritingTargetSchema.safeParse({ letter: payload.letter, form: payload.form });
+  if (!target.success) {
+    target.error.issues.forEach(issue => ctx.addIssue(issue));
+  }
+});
+
+export type HandwritingTemplatePayload = z.infer<typeof handwritingTemplatePayloadSchema>;
+
+export interface HandwritingTemplate {
+  id: string;
+  letter: string;
+  form: LetterForm;
+  strokes: HandwritingStroke[];
+  created_by: string | null;
+  updated_at: string;
+}
+
+export const HANDWRITING_ISSUES = ['wrong-letter', 'shape', 'stroke-count', 'stroke-order', 'stroke-direction'] as const;
+
+export type HandwritingIssue = typeof HANDWRITING_ISSUES[number];
+
+export const HANDWRITING_ISSUE_LABELS: Record<HandwritingIssue, string> = {
+  'wrong-letter': 'লেখাটি অন্য হরফের মতো দেখাচ্ছে',
+  shape: 'হরফের আকৃতি আদর্শ লেখা থেকে অনেক আলাদা',
+  'stroke-count': 'টানের সংখ্যা মেলেনি; নুকতাগুলো আলাদা টানে দিন',
+  'stroke-order': 'টানগুলো সঠিক ক্রমে দেওয়া হয়নি',
+  'stroke-direction': 'কোনো টান উল্টো দিক থেকে টানা হয়েছে'
+};
+
+/**
+ * What a recognizer makes of one written letter
+ */
+export interface HandwritingAssessment {
+  target: HandwritingTarget;
+  score: number;
+  // How close the letter's shape came to the model, ignoring stroke order
+  shape_score: number;
+  // Whether the strokes came in the model's order and direction
+  order_score: number;
+  stroke_count: number;
+  expected_strokes: number;
+  // The closest model overall; null when there are none to compare
+  recognized: HandwritingTarget | null;
+  issues: HandwritingIssue[];
+}
+
+/**
+ * Live-class chat messages of type 'handwriting' carry the letter to write
+ */
+export function handwritingExerciseMessage(target: HandwritingTarget): string {
+  return JSON.stringify({ letter: target.letter, form: target.form });
+}
+
+export function parseHandwritingExercise(message: string): HandwritingTarget | null {
+  try {
+    const result = handwritingTargetSchema.safeParse(JSON.parse(message));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
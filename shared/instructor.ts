@@ -0,0 +1,118 @@
+/**
+ * Instructor portal contract
+ * Classes, sessions, attendance and homework as `/api/instructor` returns
+ * them. Everything is scoped to the classes whose `instructor_id` is one of
+ * the caller's `instructors` rows; admins see every class.
+ */
+
+import { z } from 'zod';
+
+/**
+ * One run of a live class, from "start" in the portal until "end". A visit
+ * to a class room while no session is open starts one implicitly.
+ */
+export interface ClassSession {
+  id: string;
+  class_id: string;
+  // Null for sessions opened by a visit rather than by the instructor
+  started_by: string | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface InstructorClass {
+  id: string;
+  title: string;
+  title_bn: string | null;
+  instructor_id: string | null;
+  scheduled_at: string;
+  duration: number;
+  max_participants: number;
+  recording_url: string | null;
+  is_active: boolean;
+  course_modules: {
+    title_bn: string | null;
+    level: number;
+  } | null;
+  open_session: ClassSession | null;
+  session_count: number;
+}
+
+export interface SessionAttendance {
+  user_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  // Minutes in the room during the session, summed over reconnects
+  duration: number;
+  attended_at: string;
+}
+
+export interface ClassSessionWithAttendance extends ClassSession {
+  attendance: SessionAttendance[];
+}
+
+/**
+ * Response of `POST /api/instructor/classes/:id/session`
+ */
+export interface StartedSession {
+  session: ClassSession;
+  // Signaling room of the class (`class-<id>`)
+  room_id: string;
+}
+
+export type HomeworkStatus = 'pending' | 'submitted' | 'graded';
+
+export interface HomeworkForGrading {
+  id: string;
+  user_id: string;
+  class_id: string;
+  title: string;
+  description: string | null;
+  file_url: string | null;
+  file_name: string | null;
+  status: HomeworkStatus;
+  grade: number | null;
+  feedback: string | null;
+  submitted_at: string;
+  graded_at: string | null;
+  users: {
+    first_name: string | null;
+    last_name: string | null;
+    email: string;
+  } | null;
+  live_classes: {
+    title: string;
+    title_bn: string | null;
+  } | null;
+}
+
+/**
+ * Query string for `GET /api/instructor/homework`
+ */
+export const homeworkQuerySchema = z.object({
+  class_id: z.string().uuid().optional(),
+  status: z.enum(['pending', 'submitted', 'graded']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export type HomeworkQuery = z.infer<typeof homeworkQuerySchema>;
+
+/**
+ * Request body for `PUT /api/instructor/homework/:id/grade`
+ */
+export const homeworkGradeSchema = z.object({
+  grade: z.number().int().min(0, "নম্বর ০ থেকে ১০০ এর মধ্যে হতে হবে").max(100, "নম্বর ০ থেকে ১০০ এর মধ্যে হতে হবে"),
+  feedback: z.string().trim().max(2000).optional()
+});
+
+export type HomeworkGrade = z.infer<typeof homeworkGradeSchema>;
+
+/**
+ * Request body for `PUT /api/instructor/classes/:id/recording`; null
+ * unpublishes the recording
+ */
+export const recordingSchema = z.object({
+  recording_url: z.string().url("সঠিক লিংক দিন").nullable()
+});
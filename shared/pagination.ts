@@ -0,0 +1,13 @@
+/**
+ * Paged list responses returned by the REST API
+ */
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
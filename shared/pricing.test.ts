@@ -0,0 +1,151 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildInstallmentSchedule,
+  couponDiscount,
+  enrollmentStatus,
+  listPrice,
+  nextInstallment,
+  type EnrollmentInstallment,
+  type InstallmentPlan
+} from './pricing';
+
+const plan: InstallmentPlan = {
+  id: 'plan',
+  product_id: 'product',
+  title_bn: '৩ কিস্তি',
+  installment_count: 3,
+  installment_amount: 250,
+  interval_days: 30,
+  grace_days: 7
+};
+
+const start = new Date('2026-01-01T00:00:00.000Z');
+
+function installment(sequence: number, status: EnrollmentInstallment['status'], dueDate: string): EnrollmentInstallment {
+  return {
+    id: `installment-${sequence}`,
+    enrollment_id: 'enrollment',
+    sequence,
+    amount: 250,
+    due_date: dueDate,
+    status,
+    paid_at: null,
+    payment_id: null
+  };
+}
+
+describe('listPrice', () => {
+  test('is the product price without a plan', () => {
+    assert.equal(listPrice({ price: 600 }, null), 600);
+  });
+
+  test('is what the installments add up to with a plan', () => {
+    assert.equal(listPrice({ price: 600 }, plan), 750);
+  });
+});
+
+describe('couponDiscount', () => {
+  test('takes a rounded percentage off', () => {
+    assert.equal(couponDiscount(750, { discount_type: 'percent', discount_value: 15 }), 113);
+  });
+
+  test('takes a fixed amount off', () => {
+    assert.equal(couponDiscount(750, { discount_type: 'fixed', discount_value: 100 }), 100);
+  });
+
+  test('never takes off more than the price', () => {
+    assert.equal(couponDiscount(600, { discount_type: 'fixed', discount_value: 1000 }), 600);
+    assert.equal(couponDiscount(600, { discount_type: 'percent', discount_value: 100 }), 600);
+  });
+});
+
+describe('buildInstallmentSchedule', () => {
+  test('is one installment due at once without a plan', () => {
+    assert.deepEqual(buildInstallmentSchedule(600, null, start), [
+      { sequence: 1, amount: 600, due_date: '2026-01-01T00:00:00.000Z' }
+    ]);
+  });
+
+  test('spaces the installments by the plan interval', () => {
+    const schedule = buildInstallmentSchedule(750, plan, start);
+    assert.deepEqual(schedule.map(item => item.due_date), [
+      '2026-01-01T00:00:00.000Z',
+      '2026-01-31T00:00:00.000Z',
+      '2026-03-02T00:00:00.000Z'
+    ]);
+    assert.deepEqual(schedule.map(item => item.sequence), [1, 2, 3]);
+  });
+
+  test('puts the remainder of a discounted total on the first installment', () => {
+    const schedule = buildInstallmentSchedule(637, plan, start);
+    assert.deepEqual(schedule.map(item => item.amount), [213, 212, 212]);
+    assert.equal(schedule.reduce((sum, item) => sum + item.amount, 0), 637);
+  });
+});
+
+describe('enrollmentStatus', () => {
+  const now = new Date('2026-02-05T00:00:00.000Z');
+
+  test('is pending until the first installment is paid', () => {
+    const status = enrollmentStatus({
+      status: 'pending',
+      grace_days: 7,
+      enrollment_installments: [installment(1, 'pending', '2026-01-01T00:00:00.000Z'), installment(2, 'pending', '2026-01-31T00:00:00.000Z')]
+    }, now);
+    assert.equal(status, 'pending');
+  });
+
+  test('is active while an unpaid installment is within its grace period', () => {
+    const status = enrollmentStatus({
+      status: 'active',
+      grace_days: 7,
+      enrollment_installments: [installment(1, 'paid', '2026-01-01T00:00:00.000Z'), installment(2, 'pending', '2026-01-31T00:00:00.000Z')]
+    }, now);
+    assert.equal(status, 'active');
+  });
+
+  test('is suspended once an installment is unpaid past its grace period, and active again when paid', () => {
+    const installments = [installment(1, 'paid', '2026-01-01T00:00:00.000Z'), installment(2, 'pending', '2026-01-31T00:00:00.000Z')];
+    const later = new Date('2026-02-08T00:00:01.000Z');
+    assert.equal(enrollmentStatus({ status: 'active', grace_days: 7, enrollment_installments: installments }, later), 'suspended');
+
+    installments[1].status = 'paid';
+    assert.equal(enrollmentStatus({ status: 'suspended', grace_days: 7, enrollment_installments: installments }, later), 'active');
+  });
+
+  test('treats waived installments as settled', () => {
+    const status = enrollmentStatus({
+      status: 'pending',
+      grace_days: 0,
+      enrollment_installments: [installment(1, 'waived', '2026-01-01T00:00:00.000Z')]
+    }, now);
+    assert.equal(status, 'active');
+  });
+
+  test('stays cancelled', () => {
+    const status = enrollmentStatus({
+      status: 'cancelled',
+      grace_days: 7,
+      enrollment_installments: [installment(1, 'paid', '2026-01-01T00:00:00.000Z')]
+    }, now);
+    assert.equal(status, 'cancelled');
+  });
+});
+
+describe('nextInstallment', () => {
+  test('is the earliest unpaid installment', () => {
+    const next = nextInstallment({
+      enrollment_installments: [
+        installment(3, 'pending', '2026-03-02T00:00:00.000Z'),
+        installment(1, 'paid', '2026-01-01T00:00:00.000Z'),
+        installment(2, 'pending', '2026-01-31T00:00:00.000Z')
+      ]
+    });
+    assert.equal(next?.sequence, 2);
+  });
+
+  test('is null once everything is paid', () => {
+    assert.equal(nextInstallment({ enrollment_installments: [installment(1, 'paid', '2026-01-01T00:00:00.000Z')] }), null);
+  });
+});
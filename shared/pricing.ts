@@ -0,0 +1,223 @@
+/**
+ * Course pricing contract
+ * Products, installment plans, coupons and enrollments as `/api/pricing`
+ * returns them, plus the rules the server and the registration page share:
+ * what a coupon takes off, how a total is split into installments, and when
+ * an overdue installment suspends live-class access
+ */
+
+import { z } from 'zod';
+
+export interface InstallmentPlan {
+  id: string;
+  product_id: string;
+  title_bn: string;
+  installment_count: number;
+  installment_amount: number;
+  interval_days: number;
+  // Days an installment may stay unpaid after its due date before access is suspended
+  grace_days: number;
+}
+
+export interface CourseProduct {
+  id: string;
+  slug: string;
+  title: string;
+  title_bn: string;
+  description_bn: string | null;
+  // Matches `course_modules.level`; classes of that level are included
+  level: number;
+  price: number;
+  installment_plans: InstallmentPlan[];
+}
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  // Null applies to every product
+  product_id: string | null;
+  max_uses: number | null;
+  used_count: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface ScheduledInstallment {
+  sequence: number;
+  amount: number;
+  due_date: string;
+}
+
+export interface PriceQuote {
+  product_id: string;
+  plan_id: string | null;
+  coupon_code: string | null;
+  list_price: number;
+  discount: number;
+  total: number;
+  installments: ScheduledInstallment[];
+}
+
+export type EnrollmentStatus = 'pending' | 'active' | 'suspended' | 'cancelled';
+
+export type InstallmentStatus = 'pending' | 'paid' | 'waived' | 'refunded';
+
+export interface EnrollmentInstallment {
+  id: string;
+  enrollment_id: string;
+  sequence: number;
+  amount: number;
+  due_date: string;
+  status: InstallmentStatus;
+  paid_at: string | null;
+  payment_id: string | null;
+}
+
+export interface CourseEnrollment {
+  id: string;
+  user_id: string;
+  product_id: string;
+  plan_id: string | null;
+  coupon_id: string | null;
+  list_price: number;
+  discount: number;
+  total: number;
+  grace_days: number;
+  status: EnrollmentStatus;
+  created_at: string;
+  course_products: Pick<CourseProduct, 'title' | 'title_bn' | 'level'> | null;
+  enrollment_installments: EnrollmentInstallment[];
+}
+
+/**
+ * Whether a student may attend live classes, from `GET /api/pricing/access`
+ */
+export interface CourseAccess {
+  allowed: boolean;
+  // 'none' when the student has no enrollment at all
+  status: EnrollmentStatus | 'none';
+  enrollment_id: string | null;
+  // Earliest unpaid installment, the one to pay next
+  next_installment: EnrollmentInstallment | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const couponCode = z.string().trim().max(40).transform(code => code.toUpperCase());
+
+/**
+ * Request body for `POST /api/pricing/quote` and `POST /api/pricing/enrollments`;
+ * no plan means paying the full price at once
+ */
+export const enrollmentRequestSchema = z.object({
+  product_id: z.string().uuid(),
+  plan_id: z.string().uuid().nullable().default(null),
+  coupon_code: couponCode.optional()
+});
+
+export type EnrollmentRequest = z.infer<typeof enrollmentRequestSchema>;
+
+const optionalDate = z.string()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date')
+  .nullable()
+  .optional();
+
+/**
+ * Request body for `POST /api/admin/pricing/coupons`
+ */
+export const couponPayloadSchema = z.object({
+  code: couponCode.pipe(z.string().regex(/^[A-Z0-9-]{3,40}$/, 'Use 3-40 letters, digits or dashes')),
+  discount_type: z.enum(['percent', 'fixed']),
+  discount_value: z.number().positive(),
+  product_id: z.string().uuid().nullable().optional(),
+  max_uses: z.number().int().positive().nullable().optional(),
+  starts_at: optionalDate,
+  expires_at: optionalDate
+}).refine(
+  coupon => coupon.discount_type !== 'percent' || coupon.discount_value <= 100,
+  { message: 'A percentage discount cannot exceed 100', path: ['discount_value'] }
+);
+
+export type CouponPayload = z.infer<typeof couponPayloadSchema>;
+
+/**
+ * Request body for `PATCH /api/admin/pricing/coupons/:id`
+ */
+export const couponUpdateSchema = z.object({
+  is_active: z.boolean(),
+  max_uses: z.number().int().positive().nullable(),
+  expires_at: optionalDate
+})
+  .partial()
+  .refine(updates => Object.keys(updates).length > 0, 'No fields to update');
+
+export type CouponUpdate = z.infer<typeof couponUpdateSchema>;
+
+/**
+ * Price before discounts: the product price, or what the installment plan
+ * adds up to (plans may cost more than paying at once)
+ */
+export function listPrice(product: Pick<CourseProduct, 'price'>, plan: InstallmentPlan | null): number {
+  return plan ? plan.installment_count * plan.installment_amount : product.price;
+}
+
+/**
+ * Amount a coupon takes off, in whole taka and never more than the price
+ */
+export function couponDiscount(price: number, coupon: Pick<Coupon, 'discount_type' | 'discount_value'>): number {
+  const discount = coupon.discount_type === 'percent'
+    ? Math.round(price * coupon.discount_value / 100)
+    : Math.round(coupon.discount_value);
+  return Math.min(discount, price);
+}
+
+/**
+ * Split a total into the plan's installments. The first is due at once and
+ * carries any remainder; the rest follow every `interval_days`.
+ */
+export function buildInstallmentSchedule(total: number, plan: InstallmentPlan | null, start: Date): ScheduledInstallment[] {
+  const count = plan?.installment_count ?? 1;
+  const base = Math.floor(total / count);
+
+  return Array.from({ length: count }, (_, index) => ({
+    sequence: index + 1,
+    amount: index === 0 ? total - base * (count - 1) : base,
+    due_date: new Date(start.getTime() + index * (plan?.interval_days ?? 0) * DAY_MS).toISOString()
+  }));
+}
+
+/**
+ * Current status of an enrollment. Nothing is open until the first
+ * installment is paid, and an installment left unpaid past its grace period
+ * suspends access until it is paid.
+ */
+export function enrollmentStatus(
+  enrollment: Pick<CourseEnrollment, 'status' | 'grace_days'> & {
+    enrollment_installments: Pick<EnrollmentInstallment, 'sequence' | 'status' | 'due_date'>[];
+  },
+  now = new Date()
+): EnrollmentStatus {
+  if (enrollment.status === 'cancelled') return 'cancelled';
+
+  const unpaid = enrollment.enrollment_installments.filter(installment => installment.status === 'pending');
+  if (unpaid.some(installment => installment.sequence === 1)) return 'pending';
+
+  const graceMs = enrollment.grace_days * DAY_MS;
+  const overdue = unpaid.some(installment => Date.parse(installment.due_date) + graceMs < now.getTime());
+  return overdue ? 'suspended' : 'active';
+}
+
+/**
+ * Earliest installment still to be paid
+ */
+export function nextInstallment(enrollment: Pick<CourseEnrollment, 'enrollment_installments'>): EnrollmentInstallment | null {
+  return enrollment.enrollment_installments
+    .filter(installment => installment.status === 'pending')
+    .sort((a, b) => a.sequence - b.sequence)[0] ?? null;
+}
@@ -0,0 +1,99 @@
+/**
+ * Course progress contract
+ * Progress is computed from what a student actually did in each module —
+ * lessons completed, live classes attended, graded homework and quiz scores
+ * — weighted per module (database-progress.sql). `/api/progress` returns
+ * the breakdown; `users.course_progress` and `users.classes_attended` only
+ * cache its totals.
+ */
+
+import { z } from 'zod';
+
+export const PROGRESS_COMPONENTS = ['lessons', 'attendance', 'homework', 'quiz'] as const;
+
+export type ProgressComponent = typeof PROGRESS_COMPONENTS[number];
+
+export const PROGRESS_COMPONENT_LABELS: Record<ProgressComponent, string> = {
+  lessons: 'সম্পন্ন পাঠ',
+  attendance: 'ক্লাসে উপস্থিতি',
+  homework: 'হোমওয়ার্ক',
+  quiz: 'কুইজ'
+};
+
+const weight = z.number().int().min(0).max(100);
+
+/**
+ * Request body for `PUT /api/admin/curriculum/modules/:id/progress-weights`.
+ * Weights are relative; they need not add up to 100.
+ */
+export const progressWeightsSchema = z.object({
+  lessons: weight,
+  attendance: weight,
+  homework: weight,
+  quiz: weight,
+  // Shorter visits to a class session do not count as attending it
+  min_attendance_minutes: z.number().int().min(0).max(600)
+}).refine(weights => PROGRESS_COMPONENTS.some(component => weights[component] > 0), {
+  message: "কমপক্ষে একটি উপাদানের ভার শূন্যের বেশি হতে হবে",
+  path: ['lessons']
+});
+
+export type ProgressWeights = z.infer<typeof progressWeightsSchema>;
+
+// Used by modules without a row in module_progress_weights
+export const DEFAULT_PROGRESS_WEIGHTS: ProgressWeights = {
+  lessons: 40,
+  attendance: 30,
+  homework: 20,
+  quiz: 10,
+  min_attendance_minutes: 20
+};
+
+export interface ComponentProgress {
+  component: ProgressComponent;
+  weight: number;
+  // 0-100; null when the module has nothing of this kind yet, in which case
+  // the other components share its weight
+  percent: number | null;
+  // What the percent is made of, e.g. 3 of 5 lessons or 2 graded of 4 submitted
+  done: number;
+  total: number;
+}
+
+export interface ModuleProgress {
+  module_id: string;
+  title: string;
+  title_bn: string | null;
+  level: number;
+  // null when no component applies yet
+  percent: number | null;
+  components: ComponentProgress[];
+}
+
+/**
+ * Response of `GET /api/progress`
+ */
+export interface CourseProgress {
+  user_id: string;
+  // Mean of the modules that have a percent
+  percent: number;
+  // Class sessions attended for at least the module's minimum duration
+  classes_attended: number;
+  // Mean score over every active quiz lesson, untaken ones counting as zero;
+  // cached as users.certificate_score
+  certificate_score: number;
+  modules: ModuleProgress[];
+  computed_at: string;
+}
+
+/**
+ * Weighted mean of the components that apply, rounded to a whole percent
+ */
+export function weightedPercent(components: ComponentProgress[]): number | null {
+  const applicable = components.filter(component => component.percent !== null && component.weight > 0);
+  const totalWeight = applicable.reduce((sum, component) => sum + component.weight, 0);
+  if (totalWeight === 0) return null;
+
+  const weighted = applicable.reduce((sum, component) => sum + (component.percent as number) * component.weight, 0);
+  return Math.round(weighted / totalWeight);
+}
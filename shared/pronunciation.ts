@@ -0,0 +1,167 @@
+/**
+ * Pronunciation practice contract
+ * A student records a word from a vocabulary lesson, or the ayahs of a
+ * recitation lesson, and the browser compares the recording with the
+ * lesson's reference audio through a pluggable scorer (ArabicLearningManager
+ * in the video SDK). Results, with a score per letter, are stored in
+ * `pronunciation_attempts` (database-pronunciation.sql) for instructors to
+ * review; they are practice and do not count towards course progress.
+ */
+
+import { z } from 'zod';
+import { stripTashkeel } from './arabic';
+import { DEFAULT_DIALECT, dialectVariant, type Dialect } from './dialects';
+import type { LessonContent, LessonType, QuranRecitationContent, VocabularyContent } from './curriculum';
+
+// Letters scoring below this are shown as needing work
+export const PROBLEM_LETTER_SCORE = 60;
+
+// Longest recording accepted, in seconds
+export const MAX_RECORDING_SECONDS = 30;
+
+/**
+ * Letters Bangla speakers commonly merge, with how to tell them apart
+ */
+export const CONFUSABLE_LETTERS: Record<string, { confused_with: string; tip_bn: string }> = {
+  '\u0639': { confused_with: '\u0621', tip_bn: 'আইন গলার মাঝখান চেপে উচ্চারণ করুন; হামযার মতো হালকা ঝাঁকুনি নয়।' },
+  '\u0621': { confused_with: '\u0639', tip_bn: 'হামযা গলার একেবারে গভীরে হঠাৎ থেমে উচ্চারণ হয়; আইনের মতো চাপ দেবেন না।' },
+  '\u062D': { confused_with: '\u0647', tip_bn: 'বড় হা গলার মাঝখান সরু করে ঘর্ষণসহ উচ্চারণ করুন; ছোট হা এর মতো শুধু নিঃশ্বাস নয়।' },
+  '\u0647': { confused_with: '\u062D', tip_bn: 'ছোট হা গলার গভীর থেকে হালকা নিঃশ্বাসে উচ্চারণ হয়; গলা চাপবেন না।' },
+  '\u0642': { confused_with: '\u0643', tip_bn: 'ক্বাফ জিহ্বার একেবারে গোড়া আলজিভে লাগিয়ে ভারী করে উচ্চারণ করুন।' },
+  '\u0643': { confused_with: '\u0642', tip_bn: 'কাফ জিহ্বার গোড়ার একটু সামনে থেকে পাতলা করে উচ্চারণ হয়; ক্বাফের মতো ভারী করবেন না।' },
+  '\u0635': { confused_with: '\u0633', tip_bn: 'সোয়াদ জিহ্বার গোড়া উঁচু করে মোটা (ভারী) করে উচ্চারণ করুন; সীনের মতো পাতলা নয়।' },
+  '\u0633': { confused_with: '\u0635', tip_bn: 'সীন পাতলা করে উচ্চারণ হয়; সোয়াদের মতো মুখ ভারী করবেন না।' },
+  '\u0637': { confused_with: '\u062A', tip_bn: 'তোয়া জিহ্বার গোড়া উঁচু করে ভারী করে উচ্চারণ করুন; তার মতো পাতলা নয়।' },
+  '\u0636': { confused_with: '\u062F', tip_bn: 'দোয়াদ জিহ্বার পাশ ওপরের মাড়ির দাঁতে লাগিয়ে ভারী করে উচ্চারণ করুন; দালের মতো নয়।' }
+};
+
+/**
+ * Something a lesson offers to practise: a vocabulary word or a recitation,
+ * with the recording it is compared against
+ */
+export interface PracticeTarget {
+  text: string;
+  reference_url: string;
+  meaning_bn: string | null;
+  // A word's dialect form is practised against its own recording
+  dialect: Dialect;
+}
+
+export interface LetterScore {
+  // The letter with its harakat, as written in the target
+  letter: string;
+  score: number;
+}
+
+/**
+ * What a scorer makes of one recording
+ */
+export interface PronunciationAssessment {
+  scorer: string;
+  score: number;
+  letters: LetterScore[];
+  duration_ms: number;
+}
+
+/**
+ * Request body for `POST /api/pronunciation/attempts`
+ */
+export const pronunciationAttemptSchema = z.object({
+  lesson_id: z.string().uuid(),
+  target_text: z.string().trim().min(1).max(20000),
+  scorer: z.string().trim().min(1).max(50),
+  score: z.number().int().min(0).max(100),
+  letters: z.array(z.object({
+    letter: z.string().min(1).max(20),
+    score: z.number().int().min(0).max(100)
+  })).max(5000),
+  duration_ms: z.number().int().min(0).max(MAX_RECORDING_SECONDS * 1000 + 5000)
+});
+
+export type PronunciationAttemptPayload = z.infer<typeof pronunciationAttemptSchema>;
+
+export interface PronunciationAttempt {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  target_text: string;
+  scorer: string;
+  score: number;
+  letters: LetterScore[];
+  // Letters without harakat that scored below PROBLEM_LETTER_SCORE
+  problem_letters: string[];
+  duration_ms: number;
+  created_at: string;
+}
+
+/**
+ * A row of `GET /api/pronunciation/review`
+ */
+export interface PronunciationReviewRow extends PronunciationAttempt {
+  users: { first_name: string | null; last_name: string | null; email: string } | null;
+  lessons: { title: string; title_bn: string | null } | null;
+}
+
+/**
+ * Query string for `GET /api/pronunciation/review`
+ */
+export const pronunciationReviewQuerySchema = z.object({
+  user_id: z.string().uuid().optional(),
+  lesson_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export type PronunciationReviewQuery = z.infer<typeof pronunciationReviewQuerySchema>;
+
+/**
+ * What a lesson offers to practise for a student learning `dialect`; only
+ * words and recitations with reference audio can be scored. Words come in
+ * MSA followed by their form in `dialect` where it has its own recording.
+ */
+export function practiceTargets(lessonType: LessonType, content: LessonContent, dialect: Dialect = DEFAULT_DIALECT): PracticeTarget[] {
+  if (lessonType === 'vocabulary') {
+    return (content as VocabularyContent).words.flatMap(word => {
+      const targets: PracticeTarget[] = [];
+      if (word.audio_url) {
+        targets.push({ text: word.arabic, reference_url: word.audio_url, meaning_bn: word.meaning_bn, dialect: DEFAULT_DIALECT });
+      }
+      const variant = dialectVariant(word, dialect);
+      if (variant?.audio_url) {
+        targets.push({ text: variant.arabic, reference_url: variant.audio_url, meaning_bn: word.meaning_bn, dialect: variant.dialect });
+      }
+      return targets;
+    });
+  }
+  if (lessonType === 'quran_recitation') {
+    const recitation = content as QuranRecitationContent;
+    return recitation.text_ar && recitation.audio_url
+      ? [{ text: recitation.text_ar, reference_url: recitation.audio_url, meaning_bn: null, dialect: DEFAULT_DIALECT }]
+      : [];
+  }
+  return [];
+}
+
+/**
+ * The letters of `text` in order, each with its harakat; letters marked as
+ * not read are left out
+ */
+export function pronunciationLetters(text: string): string[] {
+  return (text.match(/[\u0621-\u063A\u0641-\u064A\u0671][\u0640\u064B-\u065F\u0670\u06D6-\u06ED]*/g) ?? [])
+    // U+06DF: small high rounded zero, marking a letter that is not read
+    .filter(letter => !letter.includes('\u06DF'));
+}
+
+/**
+ * Distinct letters, without harakat, that scored below PROBLEM_LETTER_SCORE
+ */
+export function problemLetters(letters: LetterScore[]): string[] {
+  const found: string[] = [];
+  letters.forEach(({ letter, score }) => {
+    const bare = stripTashkeel(letter).replace(/\u0640/g, '');
+    if (score < PROBLEM_LETTER_SCORE && bare && !found.includes(bare)) {
+      found.push(bare);
+    }
+  });
+  return found;
+}
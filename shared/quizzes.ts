@@ -0,0 +1,247 @@
+/**
+ * Quizzes contract
+ * Questions belong to a quiz lesson; each attempt draws its questions from
+ * the lesson's pool, may run against a time limit, and is graded on the
+ * server. Answer keys stay in `quiz_questions.content` and never reach the
+ * student. Tables are in database-quizzes.sql.
+ */
+
+import { z } from 'zod';
+
+export const QUESTION_TYPES = ['multiple_choice', 'harakat', 'match', 'order_words', 'listen_choose', 'free_text'] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'বহুনির্বাচনী',
+  harakat: 'হরকত বসান',
+  match: 'শব্দ ও অর্থ মেলান',
+  order_words: 'শব্দ সাজান',
+  listen_choose: 'শুনে বেছে নিন',
+  free_text: 'আরবিতে লিখুন'
+};
+
+const arabicText = z.string().trim().min(1, "আরবি লেখা প্রয়োজন").max(500);
+
+const options = z.array(z.string().trim().min(1, "বিকল্প খালি রাখা যাবে না").max(300)).min(2, "কমপক্ষে দুটি বিকল্প দিন").max(6);
+
+const correctOptionInRange = (content: { options: string[]; correct_option: number }) => content.correct_option < content.options.length;
+
+/**
+ * What `quiz_questions.content` holds for each question type, answer key
+ * included
+ */
+export const QUESTION_CONTENT_SCHEMAS = {
+  multiple_choice: z.object({
+    options,
+    correct_option: z.number().int().min(0)
+  }).refine(correctOptionInRange, { message: "সঠিক উত্তর বেছে নিন", path: ['correct_option'] }),
+  // The student sees the bare letters and writes them with harakat;
+  // each letter with the right harakat earns its share of the points
+  harakat: z.object({
+    text: arabicText
+  }),
+  match: z.object({
+    pairs: z.array(z.object({
+      arabic: arabicText,
+      meaning_bn: z.string().trim().min(1, "বাংলা অর্থ প্রয়োজন").max(300)
+    })).min(2, "কমপক্ষে দুটি জোড়া দিন").max(10)
+  }),
+  // In the right order; the student gets them shuffled
+  order_words: z.object({
+    words: z.array(arabicText).min(2, "কমপক্ষে দুটি শব্দ দিন").max(20)
+  }),
+  listen_choose: z.object({
+    audio_url: z.string().url("সঠিক অডিও লিংক দিন"),
+    options,
+    correct_option: z.number().int().min(0)
+  }).refine(correctOptionInRange, { message: "সঠিক উত্তর বেছে নিন", path: ['correct_option'] }),
+  free_text: z.object({
+    accepted_answers: z.array(arabicText).min(1, "কমপক্ষে একটি সঠিক উত্তর দিন").max(20),
+    // Accept answers whose letters match whatever their harakat
+    ignore_tashkeel: z.boolean().default(true)
+  })
+};
+
+export type MultipleChoiceContent = z.infer<typeof QUESTION_CONTENT_SCHEMAS.multiple_choice>;
+export type HarakatContent = z.infer<typeof QUESTION_CONTENT_SCHEMAS.harakat>;
+export type MatchContent = z.infer<typeof QUESTION_CONTENT_SCHEMAS.match>;
+export type OrderWordsContent = z.infer<typeof QUESTION_CONTENT_SCHEMAS.order_words>;
+export type ListenChooseContent = z.infer<typeof QUESTION_CONTENT_SCHEMAS.listen_choose>;
+export type FreeTextContent = z.infer<typeof QUESTION_CONTENT_SCHEMAS.free_text>;
+
+export type QuestionContent = MultipleChoiceContent | HarakatContent | MatchContent | OrderWordsContent | ListenChooseContent | FreeTextContent;
+
+/**
+ * A question as authors see it, answer key included
+ */
+export interface QuizQuestion {
+  id: string;
+  lesson_id: string;
+  question_type: QuestionType;
+  prompt_bn: string;
+  // Arabic shown right-to-left under the prompt
+  prompt_ar: string | null;
+  content: QuestionContent;
+  points: number;
+  order: number;
+  is_active: boolean;
+}
+
+const questionFields = z.object({
+  question_type: z.enum(QUESTION_TYPES),
+  prompt_bn: z.string().trim().min(1, "প্রশ্ন লিখুন").max(2000),
+  prompt_ar: z.string().trim().max(2000).nullable().optional(),
+  content: z.unknown(),
+  points: z.number().int().min(1).max(100).default(1),
+  order: z.number().int().min(0).default(0),
+  is_active: z.boolean().default(true)
+});
+
+/**
+ * Check `content` against the schema of its question type and replace it
+ * with the parsed value
+ */
+function withTypedContent<T extends { question_type?: QuestionType; content?: unknown }>(
+  question: T,
+  ctx: z.RefinementCtx
+): Omit<T, 'content'> & { content?: QuestionContent } {
+  if (question.content === undefined) {
+    return question as Omit<T, 'content'>;
+  }
+  if (!question.question_type) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['question_type'], message: 'question_type is required with content' });
+    return z.NEVER;
+  }
+
+  const result = QUESTION_CONTENT_SCHEMAS[question.question_type].safeParse(question.content);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['content', ...issue.path] }));
+    return z.NEVER;
+  }
+  return { ...question, content: result.data };
+}
+
+/**
+ * Request body for `POST /api/admin/curriculum/lessons/:id/questions`
+ */
+export const questionPayloadSchema = questionFields
+  .refine(question => question.content !== undefined, { message: 'content is required', path: ['content'] })
+  .transform(withTypedContent)
+  .transform(question => ({ ...question, content: question.content as QuestionContent }));
+
+export type QuestionPayload = z.infer<typeof questionPayloadSchema>;
+
+/**
+ * Request body for `PATCH /api/admin/curriculum/questions/:id`; new
+ * content must come with its question type
+ */
+export const questionUpdateSchema = questionFields
+  .partial()
+  .refine(updates => Object.keys(updates).length > 0, 'No fields to update')
+  .refine(updates => updates.question_type === undefined || updates.content !== undefined, {
+    message: 'content is required when changing question_type',
+    path: ['content']
+  })
+  .transform(withTypedContent);
+
+export type QuestionUpdate = z.infer<typeof questionUpdateSchema>;
+
+interface QuestionViewBase {
+  id: string;
+  prompt_bn: string;
+  prompt_ar: string | null;
+  points: number;
+}
+
+/**
+ * A question as the student sees it during an attempt: no answer key, and
+ * options, meanings and words shuffled
+ */
+export type QuizQuestionView = QuestionViewBase & (
+  // `index` is the option's position in the content, which the answer names
+  | { question_type: 'multiple_choice'; options: { index: number; text: string }[] }
+  | { question_type: 'listen_choose'; audio_url: string; options: { index: number; text: string }[] }
+  | { question_type: 'harakat'; letters: string }
+  | { question_type: 'match'; prompts: string[]; choices: string[] }
+  | { question_type: 'order_words'; words: string[] }
+  | { question_type: 'free_text' }
+);
+
+/**
+ * One answer; which field is read depends on the question type
+ */
+export const quizAnswerSchema = z.object({
+  // multiple_choice, listen_choose
+  option: z.number().int().min(0).optional(),
+  // harakat, free_text
+  text: z.string().max(2000).optional(),
+  // match: the meaning picked for each prompt, in prompt order
+  matches: z.array(z.string().max(300)).max(10).optional(),
+  // order_words
+  words: z.array(z.string().max(500)).max(20).optional()
+});
+
+export type QuizAnswer = z.infer<typeof quizAnswerSchema>;
+
+/**
+ * Request body for `POST /api/quizzes/attempts/:id/submit`; questions left
+ * out score nothing
+ */
+export const quizSubmissionSchema = z.object({
+  answers: z.record(z.string().uuid(), quizAnswerSchema)
+});
+
+export type QuizSubmission = z.infer<typeof quizSubmissionSchema>;
+
+/**
+ * An attempt in progress
+ */
+export interface QuizAttemptView {
+  id: string;
+  lesson_id: string;
+  started_at: string;
+  // null when the quiz is not timed
+  expires_at: string | null;
+  questions: QuizQuestionView[];
+}
+
+export interface QuestionResult {
+  question_id: string;
+  points: number;
+  // May be a fraction of `points` for harakat and match questions
+  earned: number;
+}
+
+/**
+ * A finished attempt. Correct answers are not returned so later attempts
+ * stay meaningful.
+ */
+export interface QuizAttemptResult {
+  id: string;
+  lesson_id: string;
+  started_at: string;
+  submitted_at: string;
+  score: number;
+  passed: boolean;
+  // Submitted after the time limit ran out, or never submitted; scores zero
+  timed_out: boolean;
+  questions: QuestionResult[];
+}
+
+/**
+ * Response of `GET /api/quizzes/lessons/:id`
+ */
+export interface QuizOverview {
+  lesson_id: string;
+  pass_score: number;
+  time_limit_minutes: number | null;
+  // null when attempts are unlimited
+  max_attempts: number | null;
+  attempts_used: number;
+  // Questions in each attempt
+  question_count: number;
+  best_score: number | null;
+  open_attempt: QuizAttemptView | null;
+  attempts: QuizAttemptResult[];
+}
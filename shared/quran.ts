@@ -0,0 +1,347 @@
+/**
+ * Quran contract
+ * The Quran text in the Uthmani script with verse keys ("2:255"), read by
+ * surah, juz or mushaf page, with a Bangla translation and word-by-word
+ * meanings per ayah. The text and translations are data files installed on
+ * the server (server/quran.ts); surah and juz boundaries are fixed and kept
+ * here. Recitations are one audio file per ayah, so playback can highlight
+ * the ayah being recited.
+ */
+
+import { z } from 'zod';
+
+export const TOTAL_AYAHS = 6236;
+export const JUZ_COUNT = 30;
+// Pages of the Madani mushaf
+export const MUSHAF_PAGES = 604;
+
+// Longest range an instructor can open in a live class
+export const MAX_SHARED_AYAHS = 50;
+
+export type Revelation = 'meccan' | 'medinan';
+
+export const REVELATION_LABELS: Record<Revelation, string> = {
+  meccan: 'মাক্কী',
+  medinan: 'মাদানী'
+};
+
+export interface SurahInfo {
+  number: number;
+  name: string;
+  name_ar: string;
+  ayah_count: number;
+  revelation: Revelation;
+}
+
+export const SURAHS: SurahInfo[] = [
+  { number: 1, name: 'Al-Fatihah', name_ar: '\u0627\u0644\u0641\u0627\u062A\u062D\u0629', ayah_count: 7, revelation: 'meccan' }, // الفاتحة
+  { number: 2, name: 'Al-Baqarah', name_ar: '\u0627\u0644\u0628\u0642\u0631\u0629', ayah_count: 286, revelation: 'medinan' }, // البقرة
+  { number: 3, name: "Ali 'Imran", name_ar: '\u0622\u0644 \u0639\u0645\u0631\u0627\u0646', ayah_count: 200, revelation: 'medinan' }, // آل عمران
+  { number: 4, name: 'An-Nisa', name_ar: '\u0627\u0644\u0646\u0633\u0627\u0621', ayah_count: 176, revelation: 'medinan' }, // النساء
+  { number: 5, name: "Al-Ma'idah", name_ar: '\u0627\u0644\u0645\u0627\u0626\u062F\u0629', ayah_count: 120, revelation: 'medinan' }, // المائدة
+  { number: 6, name: "Al-An'am", name_ar: '\u0627\u0644\u0623\u0646\u0639\u0627\u0645', ayah_count: 165, revelation: 'meccan' }, // الأنعام
+  { number: 7, name: "Al-A'raf", name_ar: '\u0627\u0644\u0623\u0639\u0631\u0627\u0641', ayah_count: 206, revelation: 'meccan' }, // الأعراف
+  { number: 8, name: 'Al-Anfal', name_ar: '\u0627\u0644\u0623\u0646\u0641\u0627\u0644', ayah_count: 75, revelation: 'medinan' }, // الأنفال
+  { number: 9, name: 'At-Tawbah', name_ar: '\u0627\u0644\u062A\u0648\u0628\u0629', ayah_count: 129, revelation: 'medinan' }, // التوبة
+  { number: 10, name: 'Yunus', name_ar: '\u064A\u0648\u0646\u0633', ayah_count: 109, revelation: 'meccan' }, // يونس
+  { number: 11, name: 'Hud', name_ar: '\u0647\u0648\u062F', ayah_count: 123, revelation: 'meccan' }, // هود
+  { number: 12, name: 'Yusuf', name_ar: '\u064A\u0648\u0633\u0641', ayah_count: 111, revelation: 'meccan' }, // يوسف
+  { number: 13, name: "Ar-Ra'd", name_ar: '\u0627\u0644\u0631\u0639\u062F', ayah_count: 43, revelation: 'medinan' }, // الرعد
+  { number: 14, name: 'Ibrahim', name_ar: '\u0625\u0628\u0631\u0627\u0647\u064A\u0645', ayah_count: 52, revelation: 'meccan' }, // إبراهيم
+  { number: 15, name: 'Al-Hijr', name_ar: '\u0627\u0644\u062D\u062C\u0631', ayah_count: 99, revelation: 'meccan' }, // الحجر
+  { number: 16, name: 'An-Nahl', name_ar: '\u0627\u0644\u0646\u062D\u0644', ayah_count: 128, revelation: 'meccan' }, // النحل
+  { number: 17, name: 'Al-Isra', name_ar: '\u0627\u0644\u0625\u0633\u0631\u0627\u0621', ayah_count: 111, revelation: 'meccan' }, // الإسراء
+  { number: 18, name: 'Al-Kahf', name_ar: '\u0627\u0644\u0643\u0647\u0641', ayah_count: 110, revelation: 'meccan' }, // الكهف
+  { number: 19, name: 'Maryam', name_ar: '\u0645\u0631\u064A\u0645', ayah_count: 98, revelation: 'meccan' }, // مريم
+  { number: 20, name: 'Taha', name_ar: '\u0637\u0647', ayah_count: 135, revelation: 'meccan' }, // طه
+  { number: 21, name: 'Al-Anbiya', name_ar: '\u0627\u0644\u0623\u0646\u0628\u064A\u0627\u0621', ayah_count: 112, revelation: 'meccan' }, // الأنبياء
+  { number: 22, name: 'Al-Hajj', name_ar: '\u0627\u0644\u062D\u062C', ayah_count: 78, revelation: 'medinan' }, // الحج
+  { number: 23, name: "Al-Mu'minun", name_ar: '\u0627\u0644\u0645\u0624\u0645\u0646\u0648\u0646', ayah_count: 118, revelation: 'meccan' }, // المؤمنون
+  { number: 24, name: 'An-Nur', name_ar: '\u0627\u0644\u0646\u0648\u0631', ayah_count: 64, revelation: 'medinan' }, // النور
+  { number: 25, name: 'Al-Furqan', name_ar: '\u0627\u0644\u0641\u0631\u0642\u0627\u0646', ayah_count: 77, revelation: 'meccan' }, // الفرقان
+  { number: 26, name: "Ash-Shu'ara", name_ar: '\u0627\u0644\u0634\u0639\u0631\u0627\u0621', ayah_count: 227, revelation: 'meccan' }, // الشعراء
+  { number: 27, name: 'An-Naml', name_ar: '\u0627\u0644\u0646\u0645\u0644', ayah_count: 93, revelation: 'meccan' }, // النمل
+  { number: 28, name: 'Al-Qasas', name_ar: '\u0627\u0644\u0642\u0635\u0635', ayah_count: 88, revelation: 'meccan' }, // القصص
+  { number: 29, name: "Al-'Ankabut", name_ar: '\u0627\u0644\u0639\u0646\u0643\u0628\u0648\u062A', ayah_count: 69, revelation: 'meccan' }, // العنكبوت
+  { number: 30, name: 'Ar-Rum', name_ar: '\u0627\u0644\u0631\u0648\u0645', ayah_count: 60, revelation: 'meccan' }, // الروم
+  { number: 31, name: 'Luqman', name_ar: '\u0644\u0642\u0645\u0627\u0646', ayah_count: 34, revelation: 'meccan' }, // لقمان
+  { number: 32, name: 'As-Sajdah', name_ar: '\u0627\u0644\u0633\u062C\u062F\u0629', ayah_count: 30, revelation: 'meccan' }, // السجدة
+  { number: 33, name: 'Al-Ahzab', name_ar: '\u0627\u0644\u0623\u062D\u0632\u0627\u0628', ayah_count: 73, revelation: 'medinan' }, // الأحزاب
+  { number: 34, name: 'Saba', name_ar: '\u0633\u0628\u0623', ayah_count: 54, revelation: 'meccan' }, // سبأ
+  { number: 35, name: 'Fatir', name_ar: '\u0641\u0627\u0637\u0631', ayah_count: 45, revelation: 'meccan' }, // فاطر
+  { number: 36, name: 'Ya-Sin', name_ar: '\u064A\u0633', ayah_count: 83, revelation: 'meccan' }, // يس
+  { number: 37, name: 'As-Saffat', name_ar: '\u0627\u0644\u0635\u0627\u0641\u0627\u062A', ayah_count: 182, revelation: 'meccan' }, // الصافات
+  { number: 38, name: 'Sad', name_ar: '\u0635', ayah_count: 88, revelation: 'meccan' }, // ص
+  { number: 39, name: 'Az-Zumar', name_ar: '\u0627\u0644\u0632\u0645\u0631', ayah_count: 75, revelation: 'meccan' }, // الزمر
+  { number: 40, name: 'Ghafir', name_ar: '\u063A\u0627\u0641\u0631', ayah_count: 85, revelation: 'meccan' }, // غافر
+  { number: 41, name: 'Fussilat', name_ar: '\u0641\u0635\u0644\u062A', ayah_count: 54, revelation: 'meccan' }, // فصلت
+  { number: 42, name: 'Ash-Shura', name_ar: '\u0627\u0644\u0634\u0648\u0631\u0649', ayah_count: 53, revelation: 'meccan' }, // الشورى
+  { number: 43, name: 'Az-Zukhruf', name_ar: '\u0627\u0644\u0632\u062E\u0631\u0641', ayah_count: 89, revelation: 'meccan' }, // الزخرف
+  { number: 44, name: 'Ad-Dukhan', name_ar: '\u0627\u0644\u062F\u062E\u0627\u0646', ayah_count: 59, revelation: 'meccan' }, // الدخان
+  { number: 45, name: 'Al-Jathiyah', name_ar: '\u0627\u0644\u062C\u0627\u062B\u064A\u0629', ayah_count: 37, revelation: 'meccan' }, // الجاثية
+  { number: 46, name: 'Al-Ahqaf', name_ar: '\u0627\u0644\u0623\u062D\u0642\u0627\u0641', ayah_count: 35, revelation: 'meccan' }, // الأحقاف
+  { number: 47, name: 'Muhammad', name_ar: '\u0645\u062D\u0645\u062F', ayah_count: 38, revelation: 'medinan' }, // محمد
+  { number: 48, name: 'Al-Fath', name_ar: '\u0627\u0644\u0641\u062A\u062D', ayah_count: 29, revelation: 'medinan' }, // الفتح
+  { number: 49, name: 'Al-Hujurat', name_ar: '\u0627\u0644\u062D\u062C\u0631\u0627\u062A', ayah_count: 18, revelation: 'medinan' }, // الحجرات
+  { number: 50, name: 'Qaf', name_ar: '\u0642', ayah_count: 45, revelation: 'meccan' }, // ق
+  { number: 51, name: 'Adh-Dhariyat', name_ar: '\u0627\u0644\u0630\u0627\u0631\u064A\u0627\u062A', ayah_count: 60, revelation: 'meccan' }, // الذاريات
+  { number: 52, name: 'At-Tur', name_ar: '\u0627\u0644\u0637\u0648\u0631', ayah_count: 49, revelation: 'meccan' }, // الطور
+  { number: 53, name: 'An-Najm', name_ar: '\u0627\u0644\u0646\u062C\u0645', ayah_count: 62, revelation: 'meccan' }, // النجم
+  { number: 54, name: 'Al-Qamar', name_ar: '\u0627\u0644\u0642\u0645\u0631', ayah_count: 55, revelation: 'meccan' }, // القمر
+  { number: 55, name: 'Ar-Rahman', name_ar: '\u0627\u0644\u0631\u062D\u0645\u0646', ayah_count: 78, revelation: 'medinan' }, // الرحمن
+  { number: 56, name: "Al-Waqi'ah", name_ar: '\u0627\u0644\u0648\u0627\u0642\u0639\u0629', ayah_count: 96, revelation: 'meccan' }, // الواقعة
+  { number: 57, name: 'Al-Hadid', name_ar: '\u0627\u0644\u062D\u062F\u064A\u062F', ayah_count: 29, revelation: 'medinan' }, // الحديد
+  { number: 58, name: 'Al-Mujadilah', name_ar: '\u0627\u0644\u0645\u062C\u0627\u062F\u0644\u0629', ayah_count: 22, revelation: 'medinan' }, // المجادلة
+  { number: 59, name: 'Al-Hashr', name_ar: '\u0627\u0644\u062D\u0634\u0631', ayah_count: 24, revelation: 'medinan' }, // الحشر
+  { number: 60, name: 'Al-Mumtahanah', name_ar: '\u0627\u0644\u0645\u0645\u062A\u062D\u0646\u0629', ayah_count: 13, revelation: 'medinan' }, // الممتحنة
+  { number: 61, name: 'As-Saff', name_ar: '\u0627\u0644\u0635\u0641', ayah_count: 14, revelation: 'medinan' }, // الصف
+  { number: 62, name: "Al-Jumu'ah", name_ar: '\u0627\u0644\u062C\u0645\u0639\u0629', ayah_count: 11, revelation: 'medinan' }, // الجمعة
+  { number: 63, name: 'Al-Munafiqun', name_ar: '\u0627\u0644\u0645\u0646\u0627\u0641\u0642\u0648\u0646', ayah_count: 11, revelation: 'medinan' }, // المنافقون
+  { number: 64, name: 'At-Taghabun', name_ar: '\u0627\u0644\u062A\u063A\u0627\u0628\u0646', ayah_count: 18, revelation: 'medinan' }, // التغابن
+  { number: 65, name: 'At-Talaq', name_ar: '\u0627\u0644\u0637\u0644\u0627\u0642', ayah_count: 12, revelation: 'medinan' }, // الطلاق
+  { number: 66, name: 'At-Tahrim', name_ar: '\u0627\u0644\u062A\u062D\u0631\u064A\u0645', ayah_count: 12, revelation: 'medinan' }, // التحريم
+  { number: 67, name: 'Al-Mulk', name_ar: '\u0627\u0644\u0645\u0644\u0643', ayah_count: 30, revelation: 'meccan' }, // الملك
+  { number: 68, name: 'Al-Qalam', name_ar: '\u0627\u0644\u0642\u0644\u0645', ayah_count: 52, revelation: 'meccan' }, // القلم
+  { number: 69, name: 'Al-Haqqah', name_ar: '\u0627\u0644\u062D\u0627\u0642\u0629', ayah_count: 52, revelation: 'meccan' }, // الحاقة
+  { number: 70, name: "Al-Ma'arij", name_ar: '\u0627\u0644\u0645\u0639\u0627\u0631\u062C', ayah_count: 44, revelation: 'meccan' }, // المعارج
+  { number: 71, name: 'Nuh', name_ar: '\u0646\u0648\u062D', ayah_count: 28, revelation: 'meccan' }, // نوح
+  { number: 72, name: 'Al-Jinn', name_ar: '\u0627\u0644\u062C\u0646', ayah_count: 28, revelation: 'meccan' }, // الجن
+  { number: 73, name: 'Al-Muzzammil', name_ar: '\u0627\u0644\u0645\u0632\u0645\u0644', ayah_count: 20, revelation: 'meccan' }, // المزمل
+  { number: 74, name: 'Al-Muddaththir', name_ar: '\u0627\u0644\u0645\u062F\u062B\u0631', ayah_count: 56, revelation: 'meccan' }, // المدثر
+  { number: 75, name: 'Al-Qiyamah', name_ar: '\u0627\u0644\u0642\u064A\u0627\u0645\u0629', ayah_count: 40, revelation: 'meccan' }, // القيامة
+  { number: 76, name: 'Al-Insan', name_ar: '\u0627\u0644\u0625\u0646\u0633\u0627\u0646', ayah_count: 31, revelation: 'medinan' }, // الإنسان
+  { number: 77, name: 'Al-Mursalat', name_ar: '\u0627\u0644\u0645\u0631\u0633\u0644\u0627\u062A', ayah_count: 50, revelation: 'meccan' }, // المرسلات
+  { number: 78, name: 'An-Naba', name_ar: '\u0627\u0644\u0646\u0628\u0623', ayah_count: 40, revelation: 'meccan' }, // النبأ
+  { number: 79, name: "An-Nazi'at", name_ar: '\u0627\u0644\u0646\u0627\u0632\u0639\u0627\u062A', ayah_count: 46, revelation: 'meccan' }, // النازعات
+  { number: 80, name: "'Abasa", name_ar: '\u0639\u0628\u0633', ayah_count: 42, revelation: 'meccan' }, // عبس
+  { number: 81, name: 'At-Takwir', name_ar: '\u0627\u0644\u062A\u0643\u0648\u064A\u0631', ayah_count: 29, revelation: 'meccan' }, // التكوير
+  { number: 82, name: 'Al-Infitar', name_ar: '\u0627\u0644\u0627\u0646\u0641\u0637\u0627\u0631', ayah_count: 19, revelation: 'meccan' }, // الانفطار
+  { number: 83, name: 'Al-Mutaffifin', name_ar: '\u0627\u0644\u0645\u0637\u0641\u0641\u064A\u0646', ayah_count: 36, revelation: 'meccan' }, // المطففين
+  { number: 84, name: 'Al-Inshiqaq', name_ar: '\u0627\u0644\u0627\u0646\u0634\u0642\u0627\u0642', ayah_count: 25, revelation: 'meccan' }, // الانشقاق
+  { number: 85, name: 'Al-Buruj', name_ar: '\u0627\u0644\u0628\u0631\u0648\u062C', ayah_count: 22, revelation: 'meccan' }, // البروج
+  { number: 86, name: 'At-Tariq', name_ar: '\u0627\u0644\u0637\u0627\u0631\u0642', ayah_count: 17, revelation: 'meccan' }, // الطارق
+  { number: 87, name: "Al-A'la", name_ar: '\u0627\u0644\u0623\u0639\u0644\u0649', ayah_count: 19, revelation: 'meccan' }, // الأعلى
+  { number: 88, name: 'Al-Ghashiyah', name_ar: '\u0627\u0644\u063A\u0627\u0634\u064A\u0629', ayah_count: 26, revelation: 'meccan' }, // الغاشية
+  { number: 89, name: 'Al-Fajr', name_ar: '\u0627\u0644\u0641\u062C\u0631', ayah_count: 30, revelation: 'meccan' }, // الفجر
+  { number: 90, name: 'Al-Balad', name_ar: '\u0627\u0644\u0628\u0644\u062F', ayah_count: 20, revelation: 'meccan' }, // البلد
+  { number: 91, name: 'Ash-Shams', name_ar: '\u0627\u0644\u0634\u0645\u0633', ayah_count: 15, revelation: 'meccan' }, // الشمس
+  { number: 92, name: 'Al-Layl', name_ar: '\u0627\u0644\u0644\u064A\u0644', ayah_count: 21, revelation: 'meccan' }, // الليل
+  { number: 93, name: 'Ad-Duha', name_ar: '\u0627\u0644\u0636\u062D\u0649', ayah_count: 11, revelation: 'meccan' }, // الضحى
+  { number: 94, name: 'Ash-Sharh', name_ar: '\u0627\u0644\u0634\u0631\u062D', ayah_count: 8, revelation: 'meccan' }, // الشرح
+  { number: 95, name: 'At-Tin', name_ar: '\u0627\u0644\u062A\u064A\u0646', ayah_count: 8, revelation: 'meccan' }, // التين
+  { number: 96, name: "Al-'Alaq", name_ar: '\u0627\u0644\u0639\u0644\u0642', ayah_count: 19, revelation: 'meccan' }, // العلق
+  { number: 97, name: 'Al-Qadr', name_ar: '\u0627\u0644\u0642\u062F\u0631', ayah_count: 5, revelation: 'meccan' }, // القدر
+  { number: 98, name: 'Al-Bayyinah', name_ar: '\u0627\u0644\u0628\u064A\u0646\u0629', ayah_count: 8, revelation: 'medinan' }, // البينة
+  { number: 99, name: 'Az-Zalzalah', name_ar: '\u0627\u0644\u0632\u0644\u0632\u0644\u0629', ayah_count: 8, revelation: 'medinan' }, // الزلزلة
+  { number: 100, name: "Al-'Adiyat", name_ar: '\u0627\u0644\u0639\u0627\u062F\u064A\u0627\u062A', ayah_count: 11, revelation: 'meccan' }, // العاديات
+  { number: 101, name: "Al-Qari'ah", name_ar: '\u0627\u0644\u0642\u0627\u0631\u0639\u0629', ayah_count: 11, revelation: 'meccan' }, // القارعة
+  { number: 102, name: 'At-Takathur', name_ar: '\u0627\u0644\u062A\u0643\u0627\u062B\u0631', ayah_count: 8, revelation: 'meccan' }, // التكاثر
+  { number: 103, name: "Al-'Asr", name_ar: '\u0627\u0644\u0639\u0635\u0631', ayah_count: 3, revelation: 'meccan' }, // العصر
+  { number: 104, name: 'Al-Humazah', name_ar: '\u0627\u0644\u0647\u0645\u0632\u0629', ayah_count: 9, revelation: 'meccan' }, // الهمزة
+  { number: 105, name: 'Al-Fil', name_ar: '\u0627\u0644\u0641\u064A\u0644', ayah_count: 5, revelation: 'meccan' }, // الفيل
+  { number: 106, name: 'Quraysh', name_ar: '\u0642\u0631\u064A\u0634', ayah_count: 4, revelation: 'meccan' }, // قريش
+  { number: 107, name: "Al-Ma'un", name_ar: '\u0627\u0644\u0645\u0627\u0639\u0648\u0646', ayah_count: 7, revelation: 'meccan' }, // الماعون
+  { number: 108, name: 'Al-Kawthar', name_ar: '\u0627\u0644\u0643\u0648\u062B\u0631', ayah_count: 3, revelation: 'meccan' }, // الكوثر
+  { number: 109, name: 'Al-Kafirun', name_ar: '\u0627\u0644\u0643\u0627\u0641\u0631\u0648\u0646', ayah_count: 6, revelation: 'meccan' }, // الكافرون
+  { number: 110, name: 'An-Nasr', name_ar: '\u0627\u0644\u0646\u0635\u0631', ayah_count: 3, revelation: 'medinan' }, // النصر
+  { number: 111, name: 'Al-Masad', name_ar: '\u0627\u0644\u0645\u0633\u062F', ayah_count: 5, revelation: 'meccan' }, // المسد
+  { number: 112, name: 'Al-Ikhlas', name_ar: '\u0627\u0644\u0625\u062E\u0644\u0627\u0635', ayah_count: 4, revelation: 'meccan' }, // الإخلاص
+  { number: 113, name: 'Al-Falaq', name_ar: '\u0627\u0644\u0641\u0644\u0642', ayah_count: 5, revelation: 'meccan' }, // الفلق
+  { number: 114, name: 'An-Nas', name_ar: '\u0627\u0644\u0646\u0627\u0633', ayah_count: 6, revelation: 'meccan' } // الناس
+];
+
+// First ayah of each juz
+export const JUZ_STARTS = [
+  '1:1', '2:142', '2:253', '3:93', '4:24', '4:148', '5:82', '6:111', '7:88', '8:41',
+  '9:93', '11:6', '12:53', '15:1', '17:1', '18:75', '21:1', '23:1', '25:21', '27:56',
+  '29:46', '33:31', '36:28', '39:32', '41:47', '46:1', '51:31', '58:1', '67:1', '78:1'
+];
+
+export interface VerseRef {
+  surah: number;
+  ayah: number;
+}
+
+export function surahInfo(surah: number): SurahInfo | undefined {
+  return SURAHS[surah - 1];
+}
+
+export function verseKey({ surah, ayah }: VerseRef): string {
+  return `${surah}:${ayah}`;
+}
+
+/**
+ * The surah and ayah of a verse key; null when no such ayah exists
+ */
+export function parseVerseKey(key: string): VerseRef | null {
+  const match = /^(\d{1,3}):(\d{1,3})$/.exec(key.trim());
+  if (!match) return null;
+  const ref = { surah: Number(match[1]), ayah: Number(match[2]) };
+  const surah = surahInfo(ref.surah);
+  return surah && ref.ayah >= 1 && ref.ayah <= surah.ayah_count ? ref : null;
+}
+
+// Ayahs before each surah, for turning verse keys into positions
+const SURAH_OFFSETS = SURAHS.reduce<number[]>((offsets, surah, i) => {
+  offsets.push(i === 0 ? 0 : offsets[i - 1] + SURAHS[i - 1].ayah_count);
+  return offsets;
+}, []);
+
+/**
+ * Position of an ayah in the mushaf, from 0 to TOTAL_AYAHS - 1
+ */
+export function verseIndex({ surah, ayah }: VerseRef): number {
+  return SURAH_OFFSETS[surah - 1] + ayah - 1;
+}
+
+export function verseAt(index: number): VerseRef {
+  let surah = SURAHS.length;
+  while (SURAH_OFFSETS[surah - 1] > index) surah--;
+  return { surah, ayah: index - SURAH_OFFSETS[surah - 1] + 1 };
+}
+
+const JUZ_START_INDEXES = JUZ_STARTS.map(key => verseIndex(parseVerseKey(key) as VerseRef));
+
+export function juzOf(ref: VerseRef): number {
+  const index = verseIndex(ref);
+  let juz = JUZ_COUNT;
+  while (JUZ_START_INDEXES[juz - 1] > index) juz--;
+  return juz;
+}
+
+/**
+ * First and last ayah of a juz
+ */
+export function juzRange(juz: number): { from: VerseRef; to: VerseRef } {
+  const last = juz === JUZ_COUNT ? TOTAL_AYAHS - 1 : JUZ_START_INDEXES[juz] - 1;
+  return { from: verseAt(JUZ_START_INDEXES[juz - 1]), to: verseAt(last) };
+}
+
+/**
+ * Ayah numbers in Arabic-Indic digits, as printed at the end of each ayah
+ */
+export function arabicNumber(value: number): string {
+  return String(value).replace(/\d/g, digit => String.fromCharCode(0x0660 + Number(digit)));
+}
+
+export interface QuranWord {
+  // Uthmani spelling of the word as it appears in the ayah
+  arabic: string;
+  meaning_bn: string;
+  transliteration: string | null;
+}
+
+export interface QuranAyah {
+  key: string;
+  surah: number;
+  ayah: number;
+  juz: number;
+  // Null when the server has no page numbers installed
+  page: number | null;
+  text: string;
+  translation_bn: string | null;
+  // Empty when the server has no word-by-word data installed
+  words: QuranWord[];
+}
+
+export interface Reciter {
+  id: string;
+  name: string;
+}
+
+// Folder names follow the everyayah.com layout, one MP3 per ayah named SSSAAA
+export const RECITERS: Reciter[] = [
+  { id: 'Alafasy_128kbps', name: 'Mishary Rashid Alafasy' },
+  { id: 'Abdul_Basit_Murattal_192kbps', name: 'Abdul Basit (Murattal)' },
+  { id: 'Husary_128kbps', name: 'Mahmoud Khalil Al-Husary' },
+  { id: 'Minshawy_Murattal_128kbps', name: 'Mohamed Siddiq Al-Minshawi (Murattal)' }
+];
+
+export const DEFAULT_RECITER = RECITERS[0].id;
+
+/**
+ * Recording of one ayah under `baseUrl` (`QuranIndex.audio_base_url`)
+ */
+export function ayahAudioUrl(baseUrl: string, reciterId: string, { surah, ayah }: VerseRef): string {
+  const file = `${String(surah).padStart(3, '0')}${String(ayah).padStart(3, '0')}.mp3`;
+  return `${baseUrl.replace(/\/$/, '')}/${reciterId}/${file}`;
+}
+
+/**
+ * Response of `GET /api/quran/index`: what the server has installed
+ */
+export interface QuranIndex {
+  surahs: SurahInfo[];
+  juz_starts: string[];
+  has_pages: boolean;
+  has_translation: boolean;
+  has_words: boolean;
+  audio_base_url: string;
+  reciters: Reciter[];
+}
+
+const ayahNumber = z.coerce.number().int().min(1).max(286);
+
+/**
+ * Query of `GET /api/quran/ayahs`: a surah (optionally an ayah range in it),
+ * a juz or a mushaf page
+ */
+export const quranAyahQuerySchema = z.object({
+  surah: z.coerce.number().int().min(1).max(SURAHS.length).optional(),
+  from: ayahNumber.optional(),
+  to: ayahNumber.optional(),
+  juz: z.coerce.number().int().min(1).max(JUZ_COUNT).optional(),
+  page: z.coerce.number().int().min(1).max(MUSHAF_PAGES).optional()
+}).superRefine((query, ctx) => {
+  const given = [query.surah, query.juz, query.page].filter(value => value !== undefined).length;
+  if (given !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Give exactly one of surah, juz or page' });
+    return;
+  }
+  if ((query.from !== undefined || query.to !== undefined) && query.surah === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: 'An ayah range needs a surah' });
+    return;
+  }
+  if (query.surah !== undefined) {
+    const count = (surahInfo(query.surah) as SurahInfo).ayah_count;
+    if ((query.from ?? 1) > count || (query.to ?? count) > count) {
+      const path = (query.from ?? 1) > count ? 'from' : 'to';
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: `Surah ${query.surah} has ${count} ayahs` });
+    } else if ((query.to ?? count) < (query.from ?? 1)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: 'The range ends before it starts' });
+    }
+  }
+});
+
+export type QuranAyahQuery = z.infer<typeof quranAyahQuerySchema>;
+
+/**
+ * Ayahs of one surah an instructor opens on every screen in a live class
+ */
+export const quranRangeSchema = z.object({
+  surah: z.number().int().min(1).max(SURAHS.length),
+  from: z.number().int().min(1),
+  to: z.number().int().min(1)
+}).refine(range => range.to <= (surahInfo(range.surah)?.ayah_count ?? 0) && range.from <= range.to, {
+  message: 'The surah has no such ayahs',
+  path: ['to']
+}).refine(range => range.to - range.from < MAX_SHARED_AYAHS, {
+  message: `At most ${MAX_SHARED_AYAHS} ayahs can be opened at once`,
+  path: ['to']
+});
+
+export type QuranRange = z.infer<typeof quranRangeSchema>;
+
+// Live-class chat messages of type 'quran' carry the range as JSON
+export function quranRangeMessage(range: QuranRange): string {
+  return JSON.stringify({ surah: range.surah, from: range.from, to: range.to });
+}
+
+export function parseQuranRange(message: string): QuranRange | null {
+  try {
+    const result = quranRangeSchema.safeParse(JSON.parse(message));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Roles and permissions
+ * Every user has one role. A role grants a set of permissions, each an
+ * action on a resource; `role_permissions` (database-rbac.sql) holds the
+ * live set and DEFAULT_ROLE_PERMISSIONS mirrors its seed for when the table
+ * cannot be read. `can` is the one check used by the server routes, the
+ * route guards, the dashboard and the video SDK.
+ */
+
+import { z } from 'zod';
+
+export const ROLES = ['student', 'parent', 'teaching_assistant', 'instructor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ACTIONS = ['view', 'create', 'update', 'delete', 'join', 'moderate', 'record', 'bypass', 'manage'] as const;
+
+export type Action = typeof ACTIONS[number];
+
+export const RESOURCES = [
+  // Scheduled live classes and their rooms
+  'live-class',
+  // Ad-hoc video rooms in the video SDK
+  'video-room',
+  'course-content',
+  'homework',
+  // Paying for live classes; `bypass` lets staff attend without an enrollment
+  'enrollment',
+  'payments',
+  'coupons',
+  'receipts',
+  // `view` is a student's own certificates; `manage` sets criteria and revokes
+  'certificates',
+  // `view` reads every student's progress and practice; staff only, as no
+  // parent is linked to their own children yet
+  'students',
+  'roles',
+  // Every resource; only meaningful in a grant
+  '*'
+] as const;
+
+export type Resource = typeof RESOURCES[number];
+
+export interface Permission {
+  action: Action;
+  resource: Resource;
+}
+
+export type PermissionMatrix = Record<Role, Permission[]>;
+
+/**
+ * Anything with a role; `permissions`, when loaded from `role_permissions`,
+ * replaces the defaults for that role
+ */
+export interface PermissionSubject {
+  role?: string | null;
+  permissions?: Permission[] | null;
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  student: 'শিক্ষার্থী',
+  parent: 'অভিভাবক',
+  teaching_assistant: 'সহকারী শিক্ষক',
+  instructor: 'প্রশিক্ষক',
+  admin: 'প্রশাসক'
+};
+
+const grant = (resource: Resource, ...actions: Action[]): Permission[] =>
+  actions.map(action => ({ action, resource }));
+
+const STUDENT: Permission[] = [
+  ...grant('live-class', 'view', 'join'),
+  ...grant('video-room', 'join'),
+  ...grant('course-content', 'view'),
+  ...grant('homework', 'view', 'create'),
+  ...grant('receipts', 'view'),
+  ...grant('certificates', 'view')
+];
+
+const TEACHING_ASSISTANT: Permission[] = [
+  ...STUDENT,
+  ...grant('live-class', 'moderate'),
+  ...grant('video-room', 'moderate'),
+  ...grant('homework', 'update'),
+  ...grant('students', 'view'),
+  ...grant('enrollment', 'bypass')
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: PermissionMatrix = {
+  student: STUDENT,
+  // Pays on a child's behalf
+  parent: [
+    ...grant('course-content', 'view'),
+    ...grant('receipts', 'view'),
+    ...grant('certificates', 'view')
+  ],
+  teaching_assistant: TEACHING_ASSISTANT,
+  instructor: [
+    ...TEACHING_ASSISTANT,
+    ...grant('live-class', 'update', 'record'),
+    ...grant('video-room', 'create', 'record'),
+    ...grant('course-content', 'create', 'update'),
+    ...grant('homework', 'manage')
+  ],
+  admin: grant('*', 'manage')
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Unknown or missing roles get the least privileged one
+ */
+export function normalizeRole(role: unknown): Role {
+  return isRole(role) ? role : 'student';
+}
+
+/**
+ * Whether the subject may perform `action` on `resource`. `manage` grants
+ * every action and `*` every resource.
+ */
+export function can(subject: PermissionSubject | null | undefined, action: Action, resource: Resource): boolean {
+  if (!subject) return false;
+  const permissions = subject.permissions ?? DEFAULT_ROLE_PERMISSIONS[normalizeRole(subject.role)];
+  return permissions.some(permission =>
+    (permission.resource === resource || permission.resource === '*')
+    && (permission.action === action || permission.action === 'manage')
+  );
+}
+
+/**
+ * Request body for `PUT /api/admin/roles/users/:id`
+ */
+export const roleAssignmentSchema = z.object({
+  role: z.enum(ROLES)
+});
+
+export type RoleAssignment = z.infer<typeof roleAssignmentSchema>;
+
+/**
+ * Request body for `PUT /api/admin/roles/permissions/:role`
+ */
+export const rolePermissionsSchema = z.object({
+  permissions: z.array(z.object({
+    action: z.enum(ACTIONS),
+    resource: z.enum(RESOURCES)
+  })).max(100)
+});
+
+/**
+ * A user as the role management screen lists them
+ */
+export interface RoleMember {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  display_name: string | null;
+  role: Role;
+  created_at: string;
+}
+
+export interface RoleChange {
+  id: number;
+  user_id: string;
+  from_role: Role | null;
+  to_role: Role;
+  changed_by: string | null;
+  created_at: string;
+}
@@ -0,0 +1,90 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SIGNALING_PROTOCOL_VERSION,
+  classIdFromRoomId,
+  classRoomId,
+  encodeMessage,
+  parseClientMessage,
+  parseServerMessage
+} from './signaling';
+
+describe('parseClientMessage', () => {
+  test('accepts what encodeMessage produces', () => {
+    const result = parseClientMessage(encodeMessage({ type: 'join-room', roomId: 'class-42' }));
+    assert.deepEqual(result, { ok: true, message: { v: SIGNALING_PROTOCOL_VERSION, type: 'join-room', roomId: 'class-42' } });
+  });
+
+  test('accepts a WebRTC offer for another participant', () => {
+    const result = parseClientMessage(encodeMessage({
+      type: 'webrtc-signal',
+      toParticipantId: 'user-2',
+      signal: { type: 'offer', offer: { type: 'offer', sdp: 'v=0' } }
+    }));
+    assert.equal(result.ok, true);
+  });
+
+  test('rejects text that is not JSON', () => {
+    const result = parseClientMessage('{"type":');
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.error.code, 'invalid-json');
+  });
+
+  test('rejects frames without the current version and names the request', () => {
+    const result = parseClientMessage(JSON.stringify({ type: 'ping' }));
+    assert.deepEqual(result, {
+      ok: false,
+      error: {
+        type: 'error',
+        code: 'unsupported-version',
+        message: `Expected protocol version ${SIGNALING_PROTOCOL_VERSION}`,
+        requestType: 'ping'
+      }
+    });
+  });
+
+  test('rejects unknown frame types', () => {
+    const result = parseClientMessage(JSON.stringify({ v: SIGNALING_PROTOCOL_VERSION, type: 'become-admin' }));
+    assert.equal(!result.ok && result.error.code, 'invalid-message');
+    assert.equal(!result.ok && result.error.requestType, 'become-admin');
+  });
+
+  test('rejects invalid room ids and points at the field', () => {
+    const result = parseClientMessage(encodeMessage({ type: 'join-room', roomId: '../admin' }));
+    assert.equal(!result.ok && result.error.code, 'invalid-message');
+    assert.match(!result.ok ? result.error.message : '', /^roomId: /);
+  });
+
+  test('rejects empty chat messages', () => {
+    const result = parseClientMessage(encodeMessage({ type: 'chat', text: '   ' }));
+    assert.equal(!result.ok && result.error.code, 'invalid-message');
+  });
+
+  test('drops identity fields a client tries to send', () => {
+    const result = parseClientMessage(JSON.stringify({ v: SIGNALING_PROTOCOL_VERSION, type: 'join-room', roomId: 'room-1', userId: 'someone-else' }));
+    assert.deepEqual(result, { ok: true, message: { v: SIGNALING_PROTOCOL_VERSION, type: 'join-room', roomId: 'room-1' } });
+  });
+});
+
+describe('parseServerMessage', () => {
+  test('accepts error frames', () => {
+    const result = parseServerMessage(encodeMessage({ type: 'error', code: 'room-full', message: 'This room is full' }));
+    assert.equal(result.ok, true);
+  });
+
+  test('rejects client frames', () => {
+    const result = parseServerMessage(encodeMessage({ type: 'leave-room' }));
+    assert.equal(!result.ok && result.error.code, 'invalid-message');
+  });
+});
+
+describe('class room ids', () => {
+  test('round-trip a class id', () => {
+    assert.equal(classIdFromRoomId(classRoomId('8f14e45f')), '8f14e45f');
+  });
+
+  test('are null for ad-hoc rooms', () => {
+    assert.equal(classIdFromRoomId('study-group'), null);
+    assert.equal(classIdFromRoomId('class-'), null);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Signaling Protocol
+ * Versioned, schema-validated message format shared by the `/ws` signaling
+ * server and every browser client that talks to it
+ */
+
+import { z } from 'zod';
+import { ROLES } from './rbac';
+
+export const SIGNALING_PROTOCOL_VERSION = 1;
+
+// Same rules as VideoSDKSecurityManager.isValidRoomId
+export const roomIdSchema = z.string().regex(/^[a-zA-Z0-9_-]{1,100}$/, 'Invalid room identifier');
+const userIdSchema = z.string().min(1).max(128);
+// Equal to the user id unless the server allows several devices per user
+const participantIdSchema = z.string().min(1).max(160);
+const versionSchema = z.literal(SIGNALING_PROTOCOL_VERSION);
+
+export const participantRoleSchema = z.enum(ROLES);
+
+export const sessionDescriptionSchema = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string().max(100_000).optional()
+});
+
+export const iceCandidateSchema = z.object({
+  candidate: z.string().max(4096).optional(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().int().nullable().optional(),
+  usernameFragment: z.string().nullable().optional()
+});
+
+/**
+ * WebRTC payload carried inside `webrtc-signal` frames
+ */
+export const signalSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('offer'), offer: sessionDescriptionSchema }),
+  z.object({ type: z.literal('answer'), answer: sessionDescriptionSchema }),
+  z.object({ type: z.literal('ice-candidate'), candidate: iceCandidateSchema })
+]);
+
+export const connectionStateSchema = z.enum(['connected', 'reconnecting']);
+
+export const participantInfoSchema = z.object({
+  id: participantIdSchema,
+  userId: userIdSchema,
+  displayName: z.string(),
+  role: participantRoleSchema,
+  joinedAt: z.string(),
+  // 'reconnecting' while the server holds the slot during the resume grace period
+  connectionState: connectionStateSchema
+});
+
+const sessionIdSchema = z.string().uuid();
+
+/**
+ * Frames a client may send. Identity is never part of a client frame;
+ * the server derives it from the verified connection token.
+ */
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    v: versionSchema,
+    type: z.literal('join-room'),
+    roomId: roomIdSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('leave-room')
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('resume'),
+    sessionId: sessionIdSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('webrtc-signal'),
+    toParticipantId: participantIdSchema,
+    signal: signalSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('media-state-change'),
+    isVideoEnabled: z.boolean(),
+    isAudioEnabled: z.boolean(),
+    isScreenSharing: z.boolean().optional()
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('chat'),
+    text: z.string().trim().min(1).max(2000)
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('ping')
+  })
+]);
+
+export const signalingErrorCodeSchema = z.enum([
+  'invalid-json',
+  'invalid-message',
+  'unsupported-version',
+  'not-in-room',
+  'forbidden',
+  'peer-not-found',
+  'session-expired',
+  'room-unavailable',
+  'room-full',
+  'not-enrolled',
+  'duplicate-session',
+  'session-replaced',
+  'internal-error'
+]);
+
+/**
+ * Frames the server sends
+ */
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    v: versionSchema,
+    type: z.literal('room-joined'),
+    roomId: roomIdSchema,
+    self: participantInfoSchema,
+    participants: z.array(participantInfoSchema),
+    // Send in a `resume` frame after reconnecting within resumeWindowMs
+    sessionId: sessionIdSchema,
+    resumeWindowMs: z.number().int().nonnegative()
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('session-resumed'),
+    roomId: roomIdSchema,
+    self: participantInfoSchema,
+    participants: z.array(participantInfoSchema),
+    sessionId: sessionIdSchema,
+    resumeWindowMs: z.number().int().nonnegative(),
+    // Number of frames missed while disconnected; they follow this frame in order
+    replayed: z.number().int().nonnegative()
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('participant-joined'),
+    roomId: roomIdSchema,
+    participant: participantInfoSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('participant-left'),
+    roomId: roomIdSchema,
+    participantId: participantIdSchema,
+    userId: userIdSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('participant-reconnecting'),
+    roomId: roomIdSchema,
+    participantId: participantIdSchema,
+    userId: userIdSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('participant-resumed'),
+    roomId: roomIdSchema,
+    participantId: participantIdSchema,
+    userId: userIdSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('webrtc-signal'),
+    roomId: roomIdSchema,
+    fromParticipantId: participantIdSchema,
+    fromUserId: userIdSchema,
+    signal: signalSchema
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('participant-media-changed'),
+    roomId: roomIdSchema,
+    participantId: participantIdSchema,
+    userId: userIdSchema,
+    isVideoEnabled: z.boolean(),
+    isAudioEnabled: z.boolean(),
+    isScreenSharing: z.boolean()
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('chat'),
+    roomId: roomIdSchema,
+    participantId: participantIdSchema,
+    userId: userIdSchema,
+    displayName: z.string(),
+    text: z.string(),
+    sentAt: z.string()
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('pong')
+  }),
+  z.object({
+    v: versionSchema,
+    type: z.literal('error'),
+    code: signalingErrorCodeSchema,
+    message: z.string(),
+    // Type of the client frame that caused the error, when it could be read
+    requestType: z.string().optional()
+  })
+]);
+
+// POST /api/room-tokens
+export const roomTokenRequestSchema = z.object({
+  roomId: roomIdSchema
+});
+
+export type ParticipantRole = z.infer<typeof participantRoleSchema>;
+export type ParticipantInfo = z.infer<typeof participantInfoSchema>;
+export type ConnectionState = z.infer<typeof connectionStateSchema>;
+export type Signal = z.infer<typeof signalSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type SignalingErrorCode = z.infer<typeof signalingErrorCodeSchema>;
+export type RoomTokenRequest = z.infer<typeof roomTokenRequestSchema>;
+
+/**
+ * Signed token that admits its holder to one room, for as long as the
+ * holder's session lasts at most
+ */
+export interface RoomToken {
+  token: string;
+  roomId: string;
+  expiresAt: string;
+}
+
+type WithoutVersion<T> = T extends unknown ? Omit<T, 'v'> : never;
+
+// Message bodies as built by senders; `v` is stamped on by encodeMessage
+export type ClientMessageBody = WithoutVersion<ClientMessage>;
+export type ServerMessageBody = WithoutVersion<ServerMessage>;
+export type SignalingErrorBody = Extract<ServerMessageBody, { type: 'error' }>;
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; error: SignalingErrorBody };
+
+const CLASS_ROOM_PREFIX = 'class-';
+
+/**
+ * Room id for a live class; the server applies the class's capacity and
+ * enrollment rules to rooms with this shape
+ */
+export function classRoomId(classId: string): string {
+  return `${CLASS_ROOM_PREFIX}${classId}`;
+}
+
+/**
+ * Class id of a class room, or null for ad-hoc rooms
+ */
+export function classIdFromRoomId(roomId: string): string | null {
+  return roomId.startsWith(CLASS_ROOM_PREFIX) ? roomId.slice(CLASS_ROOM_PREFIX.length) || null : null;
+}
+
+/**
+ * Serialize a message body with the current protocol version
+ */
+export function encodeMessage(message: ClientMessageBody | ServerMessageBody): string {
+  return JSON.stringify({ v: SIGNALING_PROTOCOL_VERSION, ...message });
+}
+
+function parseWith<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: string): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: { type: 'error', code: 'invalid-json', message: 'Message is not valid JSON' } };
+  }
+
+  const requestType = typeof (data as any)?.type === 'string' ? (data as any).type as string : undefined;
+
+  if (!data || typeof data !== 'object' || (data as any).v !== SIGNALING_PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      error: {
+        type: 'error',
+        code: 'unsupported-version',
+        message: `Expected protocol version ${SIGNALING_PROTOCOL_VERSION}`,
+        requestType
+      }
+    };
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return {
+      ok: false,
+      error: {
+        type: 'error',
+        code: 'invalid-message',
+        message: issue ? `${issue.path.join('.') || 'message'}: ${issue.message}` : 'Invalid message',
+        requestType
+      }
+    };
+  }
+
+  return { ok: true, message: result.data };
+}
+
+/**
+ * Parse and validate a frame received by the server
+ */
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseWith(clientMessageSchema, raw);
+}
+
+/**
+ * Parse and validate a frame received by a client
+ */
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseWith(serverMessageSchema, raw);
+}
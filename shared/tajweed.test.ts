@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { annotateTajweed, tajweedSegments, type TajweedRule } from './tajweed';
+
+/**
+ * Each annotation as its rule and the text it covers
+ */
+function annotated(text: string): Array<[TajweedRule, string]> {
+  return annotateTajweed(text).map(({ rule, start, end }) => [rule, text.slice(start, end)]);
+}
+
+function assertAnnotated(text: string, rule: TajweedRule, covered: string) {
+  assert.deepEqual(
+    annotated(text).filter(([found]) => found === rule),
+    [[rule, covered]]
+  );
+}
+
+test('noon sakinah merges with ghunnah into yeh, noon, meem or waw starting the next word', () => {
+  // مِنْ وَالٍ
+  assertAnnotated('\u0645\u0650\u0646\u0652 \u0648\u064E\u0627\u0644\u064D', 'idgham_ghunnah', '\u0646\u0652 \u0648\u064E');
+});
+
+test('noon sakinah stays clear before yeh, noon, meem or waw in the same word', () => {
+  // الدُّنْيَا
+  const text = '\u0627\u0644\u062F\u0651\u064F\u0646\u0652\u064A\u064E\u0627';
+  assertAnnotated(text, 'izhar', '\u0646\u0652');
+  assert.equal(annotated(text).some(([rule]) => rule === 'idgham_ghunnah'), false);
+});
+
+test('noon sakinah merges without ghunnah into lam or ra', () => {
+  // مِنْ رَبِّهِمْ
+  assertAnnotated('\u0645\u0650\u0646\u0652 \u0631\u064E\u0628\u0651\u0650\u0647\u0650\u0645\u0652', 'idgham_no_ghunnah', '\u0646\u0652 \u0631\u064E');
+});
+
+test('noon sakinah before beh is iqlab', () => {
+  // مِنْ بَعْدِ
+  assertAnnotated('\u0645\u0650\u0646\u0652 \u0628\u064E\u0639\u0652\u062F\u0650', 'iqlab', '\u0646\u0652 \u0628\u064E');
+});
+
+test('tanween before beh is iqlab', () => {
+  // سَمِيعٌ بَصِيرٌ
+  assertAnnotated('\u0633\u064E\u0645\u0650\u064A\u0639\u064C \u0628\u064E\u0635\u0650\u064A\u0631\u064C', 'iqlab', '\u0639\u064C \u0628\u064E');
+});
+
+test('noon sakinah before the ikhfa letters is ikhfa', () => {
+  // مِنْ قَبْلِ
+  assertAnnotated('\u0645\u0650\u0646\u0652 \u0642\u064E\u0628\u0652\u0644\u0650', 'ikhfa', '\u0646\u0652 \u0642\u064E');
+});
+
+test('tanween before a throat letter is izhar, including the unread alef after fathatan', () => {
+  // عَلِيمًا حَكِيمًا
+  assertAnnotated('\u0639\u064E\u0644\u0650\u064A\u0645\u064B\u0627 \u062D\u064E\u0643\u0650\u064A\u0645\u064B\u0627', 'izhar', '\u0645\u064B\u0627');
+});
+
+test('the article before a sun letter is lam shamsiyya', () => {
+  // الشَّمْسُ
+  assertAnnotated('\u0627\u0644\u0634\u0651\u064E\u0645\u0652\u0633\u064F', 'lam_shamsiyya', '\u0644\u0634\u0651\u064E');
+});
+
+test('the article before a moon letter is lam qamariyya', () => {
+  // الْقَمَرُ
+  assertAnnotated('\u0627\u0644\u0652\u0642\u064E\u0645\u064E\u0631\u064F', 'lam_qamariyya', '\u0644\u0652');
+});
+
+test('the lam of the disjoined letters is not an article', () => {
+  // الٓمٓ
+  const rules = annotated('\u0627\u0644\u0653\u0645\u0653').map(([rule]) => rule);
+  assert.equal(rules.includes('lam_shamsiyya') || rules.includes('lam_qamariyya'), false);
+  assert.equal(rules.includes('madd_necessary'), true);
+});
+
+test('an alef after fatha with nothing following it is madd natural', () => {
+  // قَالَ
+  assertAnnotated('\u0642\u064E\u0627\u0644\u064E', 'madd_natural', '\u0642\u064E\u0627');
+});
+
+test('a madd letter before hamza in the same word is madd connected', () => {
+  // جَاءَ
+  assertAnnotated('\u062C\u064E\u0627\u0621\u064E', 'madd_connected', '\u062C\u064E\u0627');
+});
+
+test('a madd letter before hamza starting the next word is madd separated', () => {
+  // يَا أَيُّهَا
+  assertAnnotated('\u064A\u064E\u0627 \u0623\u064E\u064A\u0651\u064F\u0647\u064E\u0627', 'madd_separated', '\u064A\u064E\u0627');
+});
+
+test('a madd letter before shadda is madd necessary', () => {
+  // الضَّالِّينَ
+  assertAnnotated('\u0627\u0644\u0636\u0651\u064E\u0627\u0644\u0651\u0650\u064A\u0646\u064E', 'madd_necessary', '\u0636\u0651\u064E\u0627');
+});
+
+test('a qalqalah letter with sukun bounces', () => {
+  // يَقْطَعُونَ
+  assertAnnotated('\u064A\u064E\u0642\u0652\u0637\u064E\u0639\u064F\u0648\u0646\u064E', 'qalqalah', '\u0642\u0652');
+});
+
+test('a qalqalah letter bounces where the reciter stops', () => {
+  // الْفَلَقِ
+  assertAnnotated('\u0627\u0644\u0652\u0641\u064E\u0644\u064E\u0642\u0650', 'qalqalah', '\u0642\u0650');
+});
+
+test('text without harakat is not annotated', () => {
+  // من بعد
+  assert.deepEqual(annotateTajweed('\u0645\u0646 \u0628\u0639\u062F'), []);
+});
+
+test('segments cover the whole text and carry the rules over each run', () => {
+  // مِنْ بَعْدِ
+  const text = '\u0645\u0650\u0646\u0652 \u0628\u064E\u0639\u0652\u062F\u0650';
+  const segments = tajweedSegments(text, annotateTajweed(text));
+  assert.equal(segments.map(segment => segment.text).join(''), text);
+  assert.deepEqual(segments.find(segment => segment.text.startsWith('\u0646'))?.rules, ['iqlab']);
+});
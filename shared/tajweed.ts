@@ -0,0 +1,416 @@
+/**
+ * Tajweed rules
+ * Finds where the rules of recitation apply in vocalized Quranic text: noon
+ * sakinah and tanween (izhar, idgham, iqlab, ikhfa), meem sakinah, ghunnah,
+ * qalqalah, the madd types and the lam of the definite article. Works on the
+ * text alone, so the same input always gives the same annotations; used by
+ * `/api/tajweed`, ArabicLearningManager and the colour-coded text in lessons
+ * and live classes. Text without harakat is not annotated.
+ */
+
+import { z } from 'zod';
+
+// In display priority: where annotations overlap, the earlier rule colours
+// the text
+export const TAJWEED_RULES = [
+  'ghunnah',
+  'idgham_ghunnah',
+  'idgham_no_ghunnah',
+  'idgham_shafawi',
+  'iqlab',
+  'ikhfa',
+  'ikhfa_shafawi',
+  'izhar',
+  'izhar_shafawi',
+  'qalqalah',
+  'madd_necessary',
+  'madd_connected',
+  'madd_separated',
+  'madd_natural',
+  'lam_shamsiyya',
+  'lam_qamariyya'
+] as const;
+
+export type TajweedRule = typeof TAJWEED_RULES[number];
+
+export const TAJWEED_RULE_LABELS: Record<TajweedRule, string> = {
+  ghunnah: 'গুন্নাহ',
+  idgham_ghunnah: 'ইদগাম (গুন্নাহসহ)',
+  idgham_no_ghunnah: 'ইদগাম (গুন্নাহ ছাড়া)',
+  idgham_shafawi: 'ইদগাম শাফাওয়ী',
+  iqlab: 'ইকলাব',
+  ikhfa: 'ইখফা',
+  ikhfa_shafawi: 'ইখফা শাফাওয়ী',
+  izhar: 'ইযহার',
+  izhar_shafawi: 'ইযহার শাফাওয়ী',
+  qalqalah: 'কলকলা',
+  madd_necessary: 'মাদ্দে লাযিম (৬ হরকত)',
+  madd_connected: 'মাদ্দে মুত্তাসিল (৪-৫ হরকত)',
+  madd_separated: 'মাদ্দে মুনফাসিল (২-৫ হরকত)',
+  madd_natural: 'মাদ্দে তাবয়ী (২ হরকত)',
+  lam_shamsiyya: 'লাম শামসিয়্যাহ',
+  lam_qamariyya: 'লাম কামারিয়্যাহ'
+};
+
+export const TAJWEED_RULE_COLORS: Record<TajweedRule, string> = {
+  ghunnah: '#E67E00',
+  idgham_ghunnah: '#169200',
+  idgham_no_ghunnah: '#6B8E23',
+  idgham_shafawi: '#58B800',
+  iqlab: '#26BFFD',
+  ikhfa: '#9400A8',
+  ikhfa_shafawi: '#D500B7',
+  izhar: '#1565C0',
+  izhar_shafawi: '#5C6BC0',
+  qalqalah: '#DD0008',
+  madd_necessary: '#7B0000',
+  madd_connected: '#B71C1C',
+  madd_separated: '#E53935',
+  madd_natural: '#C79100',
+  lam_shamsiyya: '#9E9E9E',
+  lam_qamariyya: '#00897B'
+};
+
+/**
+ * `text.slice(start, end)` is where `rule` applies; offsets are UTF-16
+ * indices into the text as given
+ */
+export interface TajweedAnnotation {
+  rule: TajweedRule;
+  start: number;
+  end: number;
+}
+
+/**
+ * A run of text under the same rules, most important first
+ */
+export interface TajweedSegment {
+  text: string;
+  rules: TajweedRule[];
+}
+
+/**
+ * Request body for `POST /api/tajweed/annotate`
+ */
+export const tajweedRequestSchema = z.object({
+  text: z.string().trim().min(1).max(10000)
+});
+
+export type TajweedRequest = z.infer<typeof tajweedRequestSchema>;
+
+export interface TajweedAnalysis {
+  text: string;
+  annotations: TajweedAnnotation[];
+}
+
+const NOON = '\u0646';
+const MEEM = '\u0645';
+const BEH = '\u0628';
+const LAM = '\u0644';
+const WAW = '\u0648';
+const YEH = '\u064A';
+const ALEF = '\u0627';
+const ALEF_MADDA = '\u0622';
+const ALEF_WASLA = '\u0671';
+const ALEF_MAKSURA = '\u0649';
+const TATWEEL = '\u0640';
+
+const FATHA = '\u064E';
+const DAMMA = '\u064F';
+const KASRA = '\u0650';
+const SHADDA = '\u0651';
+const MADDAH = '\u0653';
+// Small high rounded zero: the letter is written but not read
+const SILENT = '\u06DF';
+
+// ء آ أ ؤ إ ئ
+const HAMZAS = '\u0621\u0622\u0623\u0624\u0625\u0626';
+// Throat letters: hamza ه ع ح غ خ
+const IZHAR_LETTERS = HAMZAS + '\u0647\u0639\u062D\u063A\u062E';
+// ي ن م و
+const IDGHAM_GHUNNAH_LETTERS = '\u064A\u0646\u0645\u0648';
+// ل ر
+const IDGHAM_NO_GHUNNAH_LETTERS = '\u0644\u0631';
+// ت ث ج د ذ ز س ش ص ض ط ظ ف ق ك
+const IKHFA_LETTERS = '\u062A\u062B\u062C\u062F\u0630\u0632\u0633\u0634\u0635\u0636\u0637\u0638\u0641\u0642\u0643';
+// ق ط ب ج د
+const QALQALAH_LETTERS = '\u0642\u0637\u0628\u062C\u062F';
+// ت ث د ذ ر ز س ش ص ض ط ظ ل ن
+const SUN_LETTERS = '\u062A\u062B\u062F\u0630\u0631\u0632\u0633\u0634\u0635\u0636\u0637\u0638\u0644\u0646';
+// و ف ب ك, written joined to the article
+const ARTICLE_PREFIXES = '\u0648\u0641\u0628\u0643';
+
+// Short vowels, tanween (including the open forms) and the vowel signs used
+// for the long vowels of pronouns
+const VOWEL = /[\u064B-\u0650\u0656\u0657\u08F0-\u08F2]/;
+const TANWEEN = /[\u064B-\u064D\u08F0-\u08F2]/;
+// Sukun, and its Uthmani form
+const SUKUN = /[\u0652\u06E1]/;
+// Small meem written over a noon or tanween to show iqlab
+const IQLAB_SIGN = /[\u06E2\u06ED]/;
+// Dagger alef, subscript alef, small waw and small yeh
+const SMALL_MADD_LETTER = /[\u0670\u0656\u06E5\u06E6]/;
+
+interface LetterUnit {
+  letter: string;
+  // Every mark written on the letter
+  marks: string;
+  start: number;
+  end: number;
+  word: number;
+  // Position in its word
+  index: number;
+  // Last letter before the end of the text or an ayah number, where the
+  // reciter stops
+  atStop: boolean;
+}
+
+export function annotateTajweed(text: string): TajweedAnnotation[] {
+  if (!/[\u064B-\u0653\u0670]/.test(text)) return [];
+
+  const units = parseLetters(text);
+  const annotations: TajweedAnnotation[] = [];
+  const annotate = (rule: TajweedRule, from: LetterUnit, to: LetterUnit = from) => {
+    annotations.push({ rule, start: from.start, end: to.end });
+  };
+
+  units.forEach((unit, i) => {
+    if (isSilent(unit)) return;
+
+    if ((unit.letter === NOON || unit.letter === MEEM) && hasShadda(unit)) {
+      annotate('ghunnah', unit);
+    }
+
+    if ((unit.letter === NOON && isSakin(unit)) || TANWEEN.test(unit.marks)) {
+      // The alef or alef maqsura after fathatan is not read
+      let last = i;
+      while (
+        TANWEEN.test(unit.marks)
+        && last + 1 < units.length
+        && units[last + 1].word === unit.word
+        && (units[last + 1].letter === ALEF || units[last + 1].letter === ALEF_MAKSURA)
+        && !VOWEL.test(units[last + 1].marks)
+      ) {
+        last++;
+      }
+      const next = units[last].atStop ? null : nextLetter(units, last);
+      const rule = next && (IQLAB_SIGN.test(unit.marks) ? 'iqlab' : noonRule(next.letter, next.word === unit.word));
+      if (next && rule) {
+        // Izhar is about the noon alone; the others change how it joins the next letter
+        annotate(rule, unit, rule === 'izhar' ? units[last] : next);
+      }
+    }
+
+    if (unit.letter === MEEM && isSakin(unit) && !unit.atStop) {
+      const next = nextLetter(units, i);
+      if (next && next.letter === BEH) {
+        annotate('ikhfa_shafawi', unit, next);
+      } else if (next && next.letter === MEEM) {
+        annotate('idgham_shafawi', unit, next);
+      } else if (next && next.letter !== ALEF && next.letter !== ALEF_WASLA) {
+        annotate('izhar_shafawi', unit);
+      }
+    }
+
+    if (QALQALAH_LETTERS.includes(unit.letter) && (unit.atStop || (isSakin(unit) && !hasShadda(unit)))) {
+      annotate('qalqalah', unit);
+    }
+
+    const madd = maddAt(units, i);
+    if (madd) {
+      annotate(madd, i > 0 && carriesMaddVowel(units, i) ? units[i - 1] : unit, unit);
+    }
+
+    const article = articleAt(units, i);
+    if (article) {
+      const lam = units[i + 1];
+      const following = units[i + 2];
+      if (SUN_LETTERS.includes(following.letter)) {
+        annotate('lam_shamsiyya', lam, following);
+      } else {
+        annotate('lam_qamariyya', lam);
+      }
+    }
+  });
+
+  return annotations.sort((a, b) => a.start - b.start || TAJWEED_RULES.indexOf(a.rule) - TAJWEED_RULES.indexOf(b.rule));
+}
+
+/**
+ * `text` cut wherever an annotation starts or ends, for rendering each run
+ * in its rule's colour
+ */
+export function tajweedSegments(text: string, annotations: TajweedAnnotation[]): TajweedSegment[] {
+  const cuts = [0, text.length];
+  annotations.forEach(annotation => cuts.push(annotation.start, annotation.end));
+  const boundaries = cuts
+    .filter((cut, index) => cuts.indexOf(cut) === index && cut >= 0 && cut <= text.length)
+    .sort((a, b) => a - b);
+
+  const segments: TajweedSegment[] = [];
+  for (let i = 0; i + 1 < boundaries.length; i++) {
+    const from = boundaries[i];
+    const to = boundaries[i + 1];
+    const rules = annotations
+      .filter(annotation => annotation.start <= from && annotation.end >= to)
+      .map(annotation => annotation.rule)
+      .filter((rule, index, all) => all.indexOf(rule) === index)
+      .sort((a, b) => TAJWEED_RULES.indexOf(a) - TAJWEED_RULES.indexOf(b));
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.rules.join() === rules.join()) {
+      previous.text += text.slice(from, to);
+    } else {
+      segments.push({ text: text.slice(from, to), rules });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Letters with the marks written on them; tatweel carries marks for the
+ * letter before it
+ */
+function parseLetters(text: string): LetterUnit[] {
+  const units: LetterUnit[] = [];
+  let word = -1;
+  let index = 0;
+  let inWord = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (isLetter(char)) {
+      if (!inWord) {
+        word++;
+        index = 0;
+        inWord = true;
+      }
+      units.push({ letter: char, marks: '', start: i, end: i + 1, word, index: index++, atStop: false });
+    } else if ((isMark(char) || char === TATWEEL) && inWord) {
+      const last = units[units.length - 1];
+      last.marks += char;
+      last.end = i + 1;
+    } else {
+      inWord = false;
+      if (isStop(char) && units.length > 0) {
+        units[units.length - 1].atStop = true;
+      }
+    }
+  }
+
+  if (units.length > 0) {
+    units[units.length - 1].atStop = true;
+  }
+  return units;
+}
+
+function noonRule(letter: string, sameWord: boolean): TajweedRule | null {
+  if (IZHAR_LETTERS.includes(letter)) return 'izhar';
+  if (letter === BEH) return 'iqlab';
+  // Inside a word (دنيا, قنوان) the noon stays clear
+  if (IDGHAM_GHUNNAH_LETTERS.includes(letter)) return sameWord ? 'izhar' : 'idgham_ghunnah';
+  if (IDGHAM_NO_GHUNNAH_LETTERS.includes(letter)) return 'idgham_no_ghunnah';
+  if (IKHFA_LETTERS.includes(letter)) return 'ikhfa';
+  return null;
+}
+
+/**
+ * The madd a letter starts, if any. A madd letter is classified by what
+ * follows it: a hamza in the same word (connected), a hamza starting the
+ * next word (separated) or a sukun or shadda (necessary); a maddah sign with
+ * nothing after it to explain it, as in the disjoined letters, is necessary
+ * too.
+ */
+function maddAt(units: LetterUnit[], i: number): TajweedRule | null {
+  const unit = units[i];
+  const isMaddLetter = carriesMaddVowel(units, i) || SMALL_MADD_LETTER.test(unit.marks) || unit.letter === ALEF_MADDA;
+  if (!isMaddLetter && !unit.marks.includes(MADDAH)) return null;
+
+  const next = nextLetter(units, i);
+  if (next && next.word === unit.word) {
+    if (HAMZAS.includes(next.letter)) return 'madd_connected';
+    if (hasShadda(next) || SUKUN.test(next.marks)) return 'madd_necessary';
+  } else if (next && !unit.atStop && (HAMZAS.includes(next.letter)) && isMaddLetter) {
+    return 'madd_separated';
+  }
+  if (!isMaddLetter) return 'madd_necessary';
+  return 'madd_natural';
+}
+
+/**
+ * Whether the letter lengthens the vowel before it: alef (or alef with
+ * maddah) after fatha, waw after damma, yeh or alef maqsura after kasra
+ */
+function carriesMaddVowel(units: LetterUnit[], i: number): boolean {
+  const unit = units[i];
+  const previous = units[i - 1];
+  if (!previous || previous.word !== unit.word) return false;
+  if (VOWEL.test(unit.marks) || hasShadda(unit) || TANWEEN.test(previous.marks)) return false;
+
+  if (unit.letter === ALEF || unit.letter === ALEF_MADDA) return previous.marks.includes(FATHA) && !articleAt(units, i);
+  if (unit.letter === WAW) return previous.marks.includes(DAMMA) && !SUKUN.test(unit.marks);
+  if (unit.letter === YEH || unit.letter === ALEF_MAKSURA) return previous.marks.includes(KASRA) && !SUKUN.test(unit.marks);
+  return false;
+}
+
+/**
+ * Whether the letter is the alef of the definite article: at the start of
+ * a word or after a joined و ف ب ك, followed by a lam without a vowel and
+ * at least one more letter. A lam with a maddah is one of the disjoined
+ * letters (الٓمٓ), not an article.
+ */
+function articleAt(units: LetterUnit[], i: number): boolean {
+  const unit = units[i];
+  if (unit.letter !== ALEF && unit.letter !== ALEF_WASLA) return false;
+  if (VOWEL.test(unit.marks)) return false;
+  if (unit.index > 1 || (unit.index === 1 && !ARTICLE_PREFIXES.includes(units[i - 1].letter))) return false;
+
+  const lam = units[i + 1];
+  const following = units[i + 2];
+  return !!lam && !!following
+    && lam.letter === LAM && lam.word === unit.word && following.word === unit.word
+    && !VOWEL.test(lam.marks) && !hasShadda(lam) && !lam.marks.includes(MADDAH);
+}
+
+/**
+ * The next letter that is read, skipping letters marked silent
+ */
+function nextLetter(units: LetterUnit[], i: number): LetterUnit | null {
+  for (let j = i + 1; j < units.length; j++) {
+    if (!isSilent(units[j])) return units[j];
+  }
+  return null;
+}
+
+function isLetter(char: string): boolean {
+  return (char >= '\u0621' && char <= '\u063A') || (char >= '\u0641' && char <= '\u064A') || char === ALEF_WASLA;
+}
+
+// Harakat and Quranic marks, except the end-of-ayah and hizb signs
+function isMark(char: string): boolean {
+  return (char >= '\u064B' && char <= '\u065F')
+    || char === '\u0670'
+    || (char >= '\u06D6' && char <= '\u06ED' && char !== '\u06DD' && char !== '\u06DE')
+    || (char >= '\u08D3' && char <= '\u08FF');
+}
+
+// Ayah numbers and their ornate brackets, and full stops
+function isStop(char: string): boolean {
+  return /[\u06DD\u0660-\u0669\u06F0-\u06F90-9\uFD3E\uFD3F\u06D4.]/.test(char);
+}
+
+function isSilent(unit: LetterUnit): boolean {
+  return unit.marks.includes(SILENT);
+}
+
+function hasShadda(unit: LetterUnit): boolean {
+  return unit.marks.includes(SHADDA);
+}
+
+/**
+ * A sukun, or no vowel at all, which vocalized Quranic text uses for a noon
+ * or meem that merges into the next letter
+ */
+function isSakin(unit: LetterUnit): boolean {
+  return SUKUN.test(unit.marks) || (!VOWEL.test(unit.marks) && !hasShadda(unit) && !SMALL_MADD_LETTER.test(unit.marks));
+}
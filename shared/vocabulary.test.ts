@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_EASE, MIN_EASE, addDays, scheduleReview, studyDate } from './vocabulary';
+
+describe('scheduleReview', () => {
+  const today = '2026-03-10';
+
+  test('brings a new word back the next day', () => {
+    assert.deepEqual(scheduleReview(null, 'good', today), {
+      ease_factor: INITIAL_EASE,
+      interval_days: 1,
+      repetitions: 1,
+      lapses: 0,
+      due_on: '2026-03-11'
+    });
+  });
+
+  test('waits 6 days after the second good review, then multiplies by the ease', () => {
+    const first = scheduleReview(null, 'good', today);
+    const second = scheduleReview(first, 'good', first.due_on);
+    assert.equal(second.interval_days, 6);
+    assert.equal(second.due_on, '2026-03-17');
+
+    const third = scheduleReview(second, 'good', second.due_on);
+    assert.equal(third.repetitions, 3);
+    assert.equal(third.interval_days, 15);
+    assert.equal(third.due_on, '2026-04-01');
+  });
+
+  test('raises the ease for easy and lowers it for hard', () => {
+    assert.equal(scheduleReview(null, 'easy', today).ease_factor, 2.6);
+    assert.equal(scheduleReview(null, 'hard', today).ease_factor, 2.36);
+  });
+
+  test('starts a forgotten word over and counts the lapse', () => {
+    const learned = { ease_factor: 2.5, interval_days: 15, repetitions: 3, lapses: 0, due_on: today };
+    const forgotten = scheduleReview(learned, 'again', today);
+    assert.equal(forgotten.repetitions, 0);
+    assert.equal(forgotten.interval_days, 1);
+    assert.equal(forgotten.lapses, 1);
+    assert.equal(forgotten.ease_factor, 1.96);
+  });
+
+  test('does not count a lapse for a word seen for the first time', () => {
+    assert.equal(scheduleReview(null, 'again', today).lapses, 0);
+  });
+
+  test('never lets the ease fall below the minimum', () => {
+    let schedule = scheduleReview(null, 'again', today);
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 'again', today);
+    }
+    assert.equal(schedule.ease_factor, MIN_EASE);
+  });
+});
+
+describe('study days', () => {
+  test('roll over at midnight in Dhaka', () => {
+    assert.equal(studyDate(new Date('2026-03-10T17:59:00.000Z')), '2026-03-10');
+    assert.equal(studyDate(new Date('2026-03-10T18:00:00.000Z')), '2026-03-11');
+  });
+
+  test('add across month and year ends', () => {
+    assert.equal(addDays('2026-02-27', 3), '2026-03-02');
+    assert.equal(addDays('2026-12-31', 1), '2027-01-01');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Vocabulary practice contract
+ * Spaced-repetition review of the words taught in vocabulary lessons. A
+ * student's deck is every word of the vocabulary lessons they have
+ * completed, so decks follow the lesson word lists as they are edited;
+ * `scheduleReview` (SM-2) decides when each word comes back. Review state,
+ * history and streaks are kept per student (database-vocabulary.sql).
+ */
+
+import { z } from 'zod';
+import type { VocabularyWord } from './curriculum';
+
+export const REVIEW_GRADES = ['again', 'hard', 'good', 'easy'] as const;
+
+export type ReviewGrade = typeof REVIEW_GRADES[number];
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'আবার',
+  hard: 'কঠিন',
+  good: 'ভালো',
+  easy: 'সহজ'
+};
+
+// SM-2 recall quality (0-5) of each grade; below 3 counts as forgotten
+export const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+// Words a student starts learning per study day
+export const NEW_WORDS_PER_DAY = 20;
+
+// Study days, due dates and streaks follow Bangladesh time
+export const STUDY_TIME_ZONE = 'Asia/Dhaka';
+
+/**
+ * Where a word stands for one student. Dates are study days (YYYY-MM-DD).
+ */
+export interface WordSchedule {
+  ease_factor: number;
+  interval_days: number;
+  // Successful reviews in a row
+  repetitions: number;
+  lapses: number;
+  due_on: string;
+}
+
+export interface VocabularyStreak {
+  // Days in a row with at least one review; 0 once a day is missed
+  current: number;
+  longest: number;
+  last_review_on: string | null;
+}
+
+export interface VocabularyCard {
+  lesson_id: string;
+  lesson_title: string;
+  lesson_title_bn: string | null;
+  word: VocabularyWord;
+  // Null for a word the student has not reviewed yet
+  schedule: WordSchedule | null;
+}
+
+/**
+ * Response of `GET /api/vocabulary/queue`: today's due words, oldest first,
+ * followed by the new words for today
+ */
+export interface VocabularyQueue {
+  today: string;
+  cards: VocabularyCard[];
+  due_count: number;
+  new_count: number;
+  reviewed_today: number;
+  deck_size: number;
+  streak: VocabularyStreak;
+}
+
+/**
+ * Request body for `POST /api/vocabulary/reviews`; a word is identified by
+ * its lesson and its Arabic text
+ */
+export const vocabularyReviewSchema = z.object({
+  lesson_id: z.string().uuid(),
+  word: z.string().trim().min(1).max(200),
+  grade: z.enum(REVIEW_GRADES)
+});
+
+export type VocabularyReview = z.infer<typeof vocabularyReviewSchema>;
+
+export interface VocabularyReviewResult {
+  lesson_id: string;
+  word: string;
+  schedule: WordSchedule;
+  streak: VocabularyStreak;
+}
+
+/**
+ * A row of `GET /api/vocabulary/learners`, most behind first
+ */
+export interface VocabularyLearner {
+  user_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  // Vocabulary lessons completed
+  decks: number;
+  words_started: number;
+  due_count: number;
+  // Due before today and still not reviewed
+  overdue_count: number;
+  reviews_last_week: number;
+  last_review_on: string | null;
+  current_streak: number;
+  longest_streak: number;
+}
+
+/**
+ * The study day `at` falls on
+ */
+export function studyDate(at: Date = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: STUDY_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(at);
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * The schedule after reviewing a word on `today`, following SM-2: a
+ * forgotten word starts over the next day, a remembered one comes back
+ * after 1 day, then 6, then the previous interval times its ease
+ */
+export function scheduleReview(previous: WordSchedule | null, grade: ReviewGrade, today: string): WordSchedule {
+  const quality = GRADE_QUALITY[grade];
+  const ease = previous?.ease_factor ?? INITIAL_EASE;
+  let repetitions = 0;
+  let interval = 1;
+  let lapses = previous?.lapses ?? 0;
+
+  if (quality < 3) {
+    if (previous) lapses += 1;
+  } else {
+    repetitions = (previous?.repetitions ?? 0) + 1;
+    if (repetitions === 2) {
+      interval = 6;
+    } else if (repetitions > 2) {
+      interval = Math.max(1, Math.round((previous?.interval_days ?? 1) * ease));
+    }
+  }
+
+  const miss = 5 - quality;
+  const nextEase = Math.max(MIN_EASE, ease + 0.1 - miss * (0.08 + miss * 0.02));
+
+  return {
+    ease_factor: Math.round(nextEase * 100) / 100,
+    interval_days: interval,
+    repetitions,
+    lapses,
+    due_on: addDays(today, interval)
+  };
+}